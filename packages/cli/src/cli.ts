@@ -37,6 +37,9 @@ import {
   // Batch 6: Advanced command descriptors
   listPerspectivesDescriptor,
   queryPerspectiveDescriptor,
+  saveVirtualPerspectiveDescriptor,
+  getVirtualPerspectiveDescriptor,
+  deleteVirtualPerspectiveDescriptor,
   reviewProjectDescriptor,
   queryProjectsForReviewDescriptor,
   focusOnDescriptor,
@@ -44,6 +47,7 @@ import {
   getFocusedDescriptor,
   generateUrlDescriptor,
   exportTaskPaperDescriptor,
+  exportICalDescriptor,
   getSyncStatusDescriptor,
   triggerSyncDescriptor,
   saveTemplateDescriptor,
@@ -51,6 +55,9 @@ import {
   getTemplateDescriptor,
   createFromTemplateDescriptor,
   deleteTemplateDescriptor,
+  validateTemplateDescriptor,
+  exportTemplatesDescriptor,
+  importTemplatesDescriptor,
   addAttachmentDescriptor,
   listAttachmentsDescriptor,
   removeAttachmentDescriptor,
@@ -63,32 +70,82 @@ import {
   queryTasksDescriptor,
   updateTaskDescriptor,
   getStatsDescriptor,
+  // Undo journal
+  undoDescriptor,
+  redoDescriptor,
+  historyDescriptor,
+  // Saved queries
+  saveQueryDescriptor,
+  listSavedQueriesDescriptor,
+  getSavedQueryDescriptor,
+  deleteSavedQueryDescriptor,
+  runSavedQueryDescriptor,
+  addDependencyDescriptor,
+  removeDependencyDescriptor,
+  getTaskDependenciesDescriptor,
+  findDependencyCyclesDescriptor,
+  getCriticalPathDescriptor,
   // Phase 6
-  importTaskPaper,
+  importTaskPaperDescriptor,
+  importICalDescriptor,
+  // Streaming output
+  paginatePages,
+  type ListQueryFn,
+  type PaginationOptions,
 } from "@ofocus/sdk";
 import {
   changesDescriptor,
+  sinksDescriptor,
+  timelineDescriptor,
   nextOccurrencesDescriptor,
   occurrencesDescriptor,
   todayDescriptor,
   thisWeekDescriptor,
+  planDayDescriptor,
+  workloadDescriptor,
+  procrastinationDescriptor,
+  velocityDescriptor,
   resolveDescriptor,
+  runWatch,
+  listenEventSocket,
+  loadSinks,
+  historyRecorder,
+  scanWatched,
+  scanFingerprint,
+  DEFAULT_WATCH_INTERVAL_MS,
+  type EventSocket,
 } from "@ofocus/productivity";
 import { listCommands } from "./commands/list-commands.js";
 import {
   output,
   outputJson,
   outputHuman,
+  outputNdjsonPages,
+  DEFAULT_TABULAR_JOINER,
   type OutputFormat,
+  type TabularOptions,
 } from "./output.js";
-import { registerCliCommand } from "./registry-adapter.js";
+import {
+  registerCliCommand,
+  type CliOutputHandler,
+  type CliStreamHandler,
+} from "./registry-adapter.js";
+import { promptTemplateVariables } from "./prompt.js";
 
 interface GlobalOptions {
   json?: boolean | undefined;
   human?: boolean | undefined;
   format?: string | undefined;
+  joiner?: string | undefined;
 }
 
+/**
+ * Items fetched per OmniJS call when streaming `--all --format ndjson`.
+ * Each call re-filters the database, so pages are larger than the default
+ * `--limit` of 100.
+ */
+const NDJSON_PAGE_SIZE = 500;
+
 const AGENT_INSTRUCTIONS_URL =
   "https://raw.githubusercontent.com/mike-north/ofocus/refs/heads/main/AGENT_INSTRUCTIONS.md";
 
@@ -118,7 +175,7 @@ Quick start:
   ofocus tasks            Query tasks
   ofocus complete <id>    Complete a task
 
-Use --format json|toon for machine output (default: json). Use --human for human-readable output.
+Use --format json|toon|ndjson|csv|tsv for machine output (default: json). Use --human for human-readable output.
 `;
       }
       // Default help for humans - use the base Help class to avoid recursion
@@ -134,16 +191,23 @@ Use --format json|toon for machine output (default: json). Use --human for human
   program.addOption(
     new Option(
       "--format <fmt>",
-      "Machine output format: json or toon (default: json). Use --human for human-readable output."
+      "Machine output format: json, toon, ndjson, csv or tsv (default: json). Use --human for human-readable output."
     ).default("json")
   );
+  program.addOption(
+    new Option(
+      "--joiner <sep>",
+      "Separator for array values such as tags in csv/tsv output"
+    ).default(DEFAULT_TABULAR_JOINER)
+  );
 
   /**
    * Derive the effective output format from the resolved global options.
    *
    * Order of precedence (highest to lowest):
    * 1. `--human`   → always selects the human-readable formatter
-   * 2. `--format`  → selects between `json` and `toon` (default: `json`)
+   * 2. `--format`  → selects `json`, `toon`, `ndjson`, `csv` or `tsv`
+   *    (default: `json`)
    *
    * An unrecognised `--format` value is rejected with a structured error
    * written to stdout so callers receive a machine-parseable envelope.
@@ -153,7 +217,13 @@ Use --format json|toon for machine output (default: json). Use --human for human
       return "human";
     }
     const fmt = options.format ?? "json";
-    if (fmt === "json" || fmt === "toon") {
+    if (
+      fmt === "json" ||
+      fmt === "toon" ||
+      fmt === "ndjson" ||
+      fmt === "csv" ||
+      fmt === "tsv"
+    ) {
       return fmt;
     }
     // Unknown --format value: write structured error to stdout then exit 1.
@@ -165,7 +235,7 @@ Use --format json|toon for machine output (default: json). Use --human for human
       success: false,
       error: {
         code: "VALIDATION_ERROR",
-        message: `Unknown --format value: "${fmt}". Valid values are: json, toon. Use --human for human-readable output.`,
+        message: `Unknown --format value: "${fmt}". Valid values are: json, toon, ndjson, csv, tsv. Use --human for human-readable output.`,
       },
     };
     console.log(JSON.stringify(errorEnvelope, null, 2));
@@ -177,6 +247,49 @@ Use --format json|toon for machine output (default: json). Use --human for human
     return cmd.optsWithGlobals();
   }
 
+  /** csv/tsv settings from the global options plus a command's columns. */
+  function getTabularOptions(
+    options: GlobalOptions,
+    columns?: readonly string[]
+  ): TabularOptions {
+    return { columns, joiner: options.joiner };
+  }
+
+  /**
+   * Default {@link CliOutputHandler}: write the result in the format selected
+   * by the global options, with the command's projected columns for csv/tsv.
+   */
+  const writeOutput: CliOutputHandler = (result, cmd, columns) => {
+    const globalOpts = getGlobalOpts(cmd);
+    output(
+      result,
+      getOutputFormat(globalOpts),
+      getTabularOptions(globalOpts, columns)
+    );
+  };
+
+  /**
+   * Stream `--all --format ndjson` list queries: fetch pages with
+   * `paginatePages` and write each item as it arrives, instead of
+   * materializing every match in one OmniJS call and one JSON envelope.
+   * Any other format or shape takes the normal output path.
+   */
+  const streamListPages: CliStreamHandler = async (runPage, input, cmd) => {
+    if (
+      getOutputFormat(getGlobalOpts(cmd)) !== "ndjson" ||
+      input["all"] !== true
+    ) {
+      return false;
+    }
+    const { all: _all, ...options } = input;
+    const queryPage = runPage as ListQueryFn<unknown, PaginationOptions>;
+    const ok = await outputNdjsonPages(
+      paginatePages(queryPage, options, NDJSON_PAGE_SIZE)
+    );
+    if (!ok) process.exitCode = 1;
+    return true;
+  };
+
   // list-commands
   program
     .command("list-commands")
@@ -184,91 +297,187 @@ Use --format json|toon for machine output (default: json). Use --human for human
     .action((_opts: unknown, cmd: Command) => {
       const globalOpts = getGlobalOpts(cmd);
       const result = listCommands();
-      output(result, getOutputFormat(globalOpts));
+      output(
+        result,
+        getOutputFormat(globalOpts),
+        getTabularOptions(globalOpts)
+      );
     });
 
   // inbox — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, addToInboxDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, addToInboxDescriptor, writeOutput);
 
   // tasks — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, queryTasksDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(
+    program,
+    queryTasksDescriptor,
+    writeOutput,
+    streamListPages
+  );
 
   // projects — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, listProjectsDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(
+    program,
+    listProjectsDescriptor,
+    writeOutput,
+    streamListPages
+  );
 
   // tags — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, listTagsDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, listTagsDescriptor, writeOutput, streamListPages);
 
   // complete — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, completeTaskDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, completeTaskDescriptor, writeOutput);
 
   // update — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, updateTaskDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, updateTaskDescriptor, writeOutput);
 
   // changes — registered from the centralized descriptor in @ofocus/productivity
-  registerCliCommand(program, changesDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, changesDescriptor, writeOutput);
+
+  // sinks — registered from the centralized descriptor in @ofocus/productivity
+  registerCliCommand(program, sinksDescriptor, writeOutput);
+
+  // timeline — registered from the centralized descriptor in @ofocus/productivity
+  registerCliCommand(program, timelineDescriptor, writeOutput);
+
+  // changes-watch — hand-wired: a long-running loop that streams NDJSON
+  // events until interrupted, so it has no request/response MCP surface.
+  program
+    .command("changes-watch")
+    .description(
+      "Watch for changes and stream each change set as NDJSON events"
+    )
+    .option("--watch <name>", "Named watch (default: 'default')")
+    .option(
+      "--interval <seconds>",
+      `Fingerprint poll interval in seconds (default: ${String(DEFAULT_WATCH_INTERVAL_MS / 1000)})`,
+      parseFloat
+    )
+    .option(
+      "--socket <path>",
+      "Serve events on this Unix socket instead of stdout"
+    )
+    .option("--no-sinks", "Don't fire the sinks configured in sinks.json")
+    .action(
+      async (options: {
+        watch?: string;
+        interval?: number;
+        socket?: string;
+        sinks: boolean;
+      }) => {
+        if (
+          options.interval !== undefined &&
+          !(Number.isFinite(options.interval) && options.interval > 0)
+        ) {
+          console.error(
+            "Error: --interval must be a positive number of seconds"
+          );
+          process.exitCode = 1;
+          return;
+        }
+
+        const sinks = options.sinks ? loadSinks() : [];
+        if (!Array.isArray(sinks)) {
+          console.error(`Error: ${sinks.message}`);
+          process.exitCode = 1;
+          return;
+        }
+
+        let socket: EventSocket | undefined;
+        if (options.socket !== undefined) {
+          try {
+            socket = await listenEventSocket(options.socket);
+          } catch (err) {
+            const errorMessage =
+              err instanceof Error ? err.message : "Unknown error";
+            console.error(`Error opening socket: ${errorMessage}`);
+            process.exitCode = 1;
+            return;
+          }
+          console.error(`Streaming change events on ${options.socket}`);
+        }
+
+        const controller = new AbortController();
+        const stop = (): void => {
+          controller.abort();
+        };
+        process.once("SIGINT", stop);
+        process.once("SIGTERM", stop);
+        try {
+          await runWatch(
+            {
+              watch: options.watch,
+              intervalMs:
+                options.interval === undefined
+                  ? undefined
+                  : options.interval * 1000,
+              signal: controller.signal,
+              sinks,
+              emit: (event) => {
+                const line = JSON.stringify(event);
+                if (socket === undefined) process.stdout.write(`${line}\n`);
+                else socket.broadcast(line);
+              },
+            },
+            {
+              scanWatched,
+              scanFingerprint,
+              recordHistory: historyRecorder(),
+            }
+          );
+        } finally {
+          process.off("SIGINT", stop);
+          process.off("SIGTERM", stop);
+          await socket?.close();
+        }
+      }
+    );
 
   // Temporal engine (A2) — registered from @ofocus/productivity descriptors
-  registerCliCommand(program, nextOccurrencesDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, occurrencesDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, todayDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, thisWeekDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, resolveDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, nextOccurrencesDescriptor, writeOutput);
+  registerCliCommand(program, occurrencesDescriptor, writeOutput);
+  registerCliCommand(program, todayDescriptor, writeOutput);
+  registerCliCommand(program, thisWeekDescriptor, writeOutput);
+  registerCliCommand(program, resolveDescriptor, writeOutput);
+
+  // plan-day — registered from the centralized descriptor in @ofocus/productivity
+  registerCliCommand(program, planDayDescriptor, writeOutput);
+
+  // workload — registered from the centralized descriptor in @ofocus/productivity
+  registerCliCommand(program, workloadDescriptor, writeOutput);
+
+  // procrastination — registered from the centralized descriptor in @ofocus/productivity
+  registerCliCommand(program, procrastinationDescriptor, writeOutput);
+
+  // velocity — registered from the centralized descriptor in @ofocus/productivity
+  registerCliCommand(program, velocityDescriptor, writeOutput);
 
   // ===========================================
   // Phase 1: Create Projects & Folders
   // ===========================================
 
   // create-project — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, createProjectDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, createProjectDescriptor, writeOutput);
 
   // create-folder — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, createFolderDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, createFolderDescriptor, writeOutput);
 
   // folders — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, listFoldersDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(
+    program,
+    listFoldersDescriptor,
+    writeOutput,
+    streamListPages
+  );
 
   // ===========================================
   // Phase 1: Drop/Delete Tasks
   // ===========================================
 
   // drop / delete — registered from centralized descriptors in @ofocus/sdk
-  registerCliCommand(program, dropTaskDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, deleteTaskDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, dropTaskDescriptor, writeOutput);
+  registerCliCommand(program, deleteTaskDescriptor, writeOutput);
 
   // ===========================================
   // Phase 1: Tags CRUD
@@ -276,34 +485,27 @@ Use --format json|toon for machine output (default: json). Use --human for human
 
   // create-tag / update-tag / delete-tag — registered from the centralized
   // descriptors in @ofocus/sdk.
-  registerCliCommand(program, createTagDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, updateTagDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, deleteTagDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, createTagDescriptor, writeOutput);
+  registerCliCommand(program, updateTagDescriptor, writeOutput);
+  registerCliCommand(program, deleteTagDescriptor, writeOutput);
 
   // ===========================================
   // Phase 2: Subtasks
   // ===========================================
 
   // subtask — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, createSubtaskDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, createSubtaskDescriptor, writeOutput);
 
   // subtasks — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, querySubtasksDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(
+    program,
+    querySubtasksDescriptor,
+    writeOutput,
+    streamListPages
+  );
 
   // move-to-parent — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, moveTaskToParentDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, moveTaskToParentDescriptor, writeOutput);
 
   // ===========================================
   // Phase 3: Batch Operations
@@ -311,117 +513,97 @@ Use --format json|toon for machine output (default: json). Use --human for human
 
   // complete-batch / update-batch / delete-batch — registered from the
   // centralized descriptors in @ofocus/sdk.
-  registerCliCommand(program, completeTasksDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, updateTasksDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, deleteTasksDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, completeTasksDescriptor, writeOutput);
+  registerCliCommand(program, updateTasksDescriptor, writeOutput);
+  registerCliCommand(program, deleteTasksDescriptor, writeOutput);
 
   // ===========================================
   // Phase 4: Search
   // ===========================================
 
-  registerCliCommand(program, searchTasksDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(
+    program,
+    searchTasksDescriptor,
+    writeOutput,
+    streamListPages
+  );
 
   // ===========================================
   // Phase 4: Perspectives
   // ===========================================
 
   // perspectives — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, listPerspectivesDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, listPerspectivesDescriptor, writeOutput);
 
   // perspective — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, queryPerspectiveDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, queryPerspectiveDescriptor, writeOutput);
+
+  // virtual-perspective-save / -show / -delete — registered from the
+  // centralized descriptors in @ofocus/sdk. Virtual perspectives run through
+  // `perspective` above.
+  registerCliCommand(program, saveVirtualPerspectiveDescriptor, writeOutput);
+  registerCliCommand(program, getVirtualPerspectiveDescriptor, writeOutput);
+  registerCliCommand(program, deleteVirtualPerspectiveDescriptor, writeOutput);
 
   // ===========================================
   // Phase 4: Review
   // ===========================================
 
   // review — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, reviewProjectDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, reviewProjectDescriptor, writeOutput);
 
   // projects-for-review — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(
-    program,
-    queryProjectsForReviewDescriptor,
-    (result, cmd) => {
-      output(result, getOutputFormat(getGlobalOpts(cmd)));
-    }
-  );
+  registerCliCommand(program, queryProjectsForReviewDescriptor, writeOutput);
 
   // ===========================================
   // Phase 5: Forecast, Focus, Deferred
   // ===========================================
 
-  registerCliCommand(program, queryForecastDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(
+    program,
+    queryForecastDescriptor,
+    writeOutput,
+    streamListPages
+  );
 
   // focus — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, focusOnDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, focusOnDescriptor, writeOutput);
 
   // unfocus — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, unfocusDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, unfocusDescriptor, writeOutput);
 
   // focused — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, getFocusedDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, getFocusedDescriptor, writeOutput);
 
-  registerCliCommand(program, queryDeferredDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(
+    program,
+    queryDeferredDescriptor,
+    writeOutput,
+    streamListPages
+  );
 
   // ===========================================
   // Phase 5b: Utility Commands
   // ===========================================
 
   // url — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, generateUrlDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, generateUrlDescriptor, writeOutput);
 
   // defer / defer-batch — registered from the centralized descriptors in
   // @ofocus/sdk.
-  registerCliCommand(program, deferTaskDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, deferTasksDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, deferTaskDescriptor, writeOutput);
+  registerCliCommand(program, deferTasksDescriptor, writeOutput);
 
   // apply-repetition / clear-repetition — registered from the centralized
   // descriptors in @ofocus/sdk.
-  registerCliCommand(program, applyRepetitionRuleDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, clearRepetitionRuleDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, applyRepetitionRuleDescriptor, writeOutput);
+  registerCliCommand(program, clearRepetitionRuleDescriptor, writeOutput);
 
   // ===========================================
   // Phase 6: Quick Capture
   // ===========================================
 
-  registerCliCommand(program, quickCaptureDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, quickCaptureDescriptor, writeOutput);
 
   // ===========================================
   // Phase 6: TaskPaper Import/Export
@@ -444,7 +626,7 @@ Use --format json|toon for machine output (default: json). Use --human for human
         process.exitCode = 1;
       }
     } else {
-      output(result, fmt);
+      output(result, fmt, getTabularOptions(globalOpts));
     }
   });
 
@@ -457,10 +639,18 @@ Use --format json|toon for machine output (default: json). Use --human for human
     .argument("<file>", "Path to TaskPaper file")
     .option("--create-projects", "Create projects that don't exist")
     .option("--default-project <name>", "Default project for tasks without one")
+    .option(
+      "--dry-run",
+      "Preview the tasks and projects that would be created, without importing"
+    )
     .action(
       async (
         file: string,
-        options: { createProjects?: boolean; defaultProject?: string },
+        options: {
+          createProjects?: boolean;
+          defaultProject?: string;
+          dryRun?: boolean;
+        },
         cmd: Command
       ) => {
         const globalOpts = getGlobalOpts(cmd);
@@ -475,11 +665,100 @@ Use --format json|toon for machine output (default: json). Use --human for human
           process.exitCode = 1;
           return;
         }
-        const result = await importTaskPaper(content, {
+        const result = await importTaskPaperDescriptor.handler({
+          content,
           createProjects: options.createProjects,
           defaultProject: options.defaultProject,
+          dryRun: options.dryRun,
+        });
+        output(
+          result,
+          getOutputFormat(globalOpts),
+          getTabularOptions(globalOpts)
+        );
+        if (!result.success) process.exitCode = 1;
+      }
+    );
+
+  // ===========================================
+  // iCalendar Export
+  // ===========================================
+
+  // export-ical — registered from the centralized descriptor in @ofocus/sdk.
+  // Emits the raw .ics document in --human mode so it can be redirected to a file.
+  registerCliCommand(program, exportICalDescriptor, (result, cmd) => {
+    const globalOpts = getGlobalOpts(cmd);
+    const fmt = getOutputFormat(globalOpts);
+    if (fmt === "human") {
+      if (result.success && result.data) {
+        const data = result.data as import("@ofocus/sdk").ICalExportResult;
+        process.stdout.write(data.content);
+        console.error(
+          `\nExported ${String(data.taskCount)} tasks (${String(data.repeatingCount)} repeating)`
+        );
+      } else {
+        output(result, "human");
+        process.exitCode = 1;
+      }
+    } else {
+      output(result, fmt, getTabularOptions(globalOpts));
+    }
+  });
+
+  // import-ical — CLI reads a .ics file and passes its contents to
+  // importICalDescriptor, whose MCP surface takes the content directly.
+  program
+    .command("import-ical")
+    .description("Import tasks from an iCalendar (.ics) file")
+    .argument("<file>", "Path to .ics file")
+    .option("--project <name>", "Project for new tasks (default: inbox)")
+    .option("--include-events", "Also turn VEVENTs into tasks")
+    .option(
+      "--event-filter <text>",
+      "Import only VEVENTs whose summary or categories contain this text"
+    )
+    .option("--event-prefix <text>", "Prefix for task names from VEVENTs")
+    .option(
+      "--dry-run",
+      "Preview the tasks that would be created or updated, without importing"
+    )
+    .action(
+      async (
+        file: string,
+        options: {
+          project?: string;
+          includeEvents?: boolean;
+          eventFilter?: string;
+          eventPrefix?: string;
+          dryRun?: boolean;
+        },
+        cmd: Command
+      ) => {
+        const globalOpts = getGlobalOpts(cmd);
+        const fsPromises = await import("node:fs/promises");
+        let content: string;
+        try {
+          content = await fsPromises.readFile(file, "utf-8");
+        } catch (err) {
+          const errorMessage =
+            err instanceof Error ? err.message : "Unknown error";
+          console.error(`Error reading file: ${errorMessage}`);
+          process.exitCode = 1;
+          return;
+        }
+        const result = await importICalDescriptor.handler({
+          content,
+          project: options.project,
+          includeEvents: options.includeEvents,
+          eventFilter: options.eventFilter,
+          eventPrefix: options.eventPrefix,
+          dryRun: options.dryRun,
         });
-        output(result, getOutputFormat(globalOpts));
+        output(
+          result,
+          getOutputFormat(globalOpts),
+          getTabularOptions(globalOpts)
+        );
         if (!result.success) process.exitCode = 1;
       }
     );
@@ -489,77 +768,163 @@ Use --format json|toon for machine output (default: json). Use --human for human
   // ===========================================
 
   // stats — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, getStatsDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, getStatsDescriptor, writeOutput);
 
   // ===========================================
   // Phase 7: Project Templates
   // ===========================================
 
   // template-save — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, saveTemplateDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, saveTemplateDescriptor, writeOutput);
 
   // template-list — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, listTemplatesDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, listTemplatesDescriptor, writeOutput);
 
   // template-get — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, getTemplateDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, getTemplateDescriptor, writeOutput);
 
-  // template-create — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, createFromTemplateDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  // template-create — registered from the centralized descriptor in @ofocus/sdk,
+  // asking for missing template variables on an interactive terminal
+  registerCliCommand(
+    program,
+    {
+      ...createFromTemplateDescriptor,
+      handler: async (input) =>
+        createFromTemplateDescriptor.handler({
+          ...input,
+          var: await promptTemplateVariables(
+            input.templateName,
+            input.var ?? {}
+          ),
+        }),
+    },
+    writeOutput
+  );
 
   // template-delete — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, deleteTemplateDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
+  registerCliCommand(program, deleteTemplateDescriptor, writeOutput);
+
+  // template-validate — registered from the centralized descriptor in @ofocus/sdk
+  registerCliCommand(program, validateTemplateDescriptor, writeOutput);
+
+  // template-export — registered from the centralized descriptor in @ofocus/sdk.
+  // Emits the raw bundle in --human mode so it can be redirected to a file.
+  registerCliCommand(program, exportTemplatesDescriptor, (result, cmd) => {
+    const globalOpts = getGlobalOpts(cmd);
+    const fmt = getOutputFormat(globalOpts);
+    if (fmt === "human") {
+      if (result.success && result.data) {
+        const data = result.data as import("@ofocus/sdk").TemplateExportResult;
+        console.log(data.content);
+        console.error(`\nExported ${String(data.templateCount)} templates`);
+      } else {
+        output(result, "human");
+        process.exitCode = 1;
+      }
+    } else {
+      output(result, fmt, getTabularOptions(globalOpts));
+    }
   });
 
+  // template-import — CLI reads a bundle, template or TaskPaper file and passes
+  // its contents to importTemplatesDescriptor, whose MCP surface takes the
+  // content directly.
+  program
+    .command("template-import")
+    .description(
+      "Import templates from a template-export bundle, template file or TaskPaper file"
+    )
+    .argument("<file>", "Path to the bundle, template or TaskPaper file")
+    .option("--format <format>", "Content format: json or taskpaper")
+    .option("--overwrite", "Replace existing templates with the same names")
+    .option(
+      "--name <name>",
+      "Template name for TaskPaper tasks that aren't under a project"
+    )
+    .option(
+      "--base-date <date>",
+      "Date TaskPaper @due/@defer dates are made relative to (default: today)"
+    )
+    .option(
+      "--dry-run",
+      "Preview the templates that would be created or replaced, without importing"
+    )
+    .action(
+      async (
+        file: string,
+        options: {
+          format?: string;
+          overwrite?: boolean;
+          name?: string;
+          baseDate?: string;
+          dryRun?: boolean;
+        },
+        cmd: Command
+      ) => {
+        const globalOpts = getGlobalOpts(cmd);
+        if (
+          options.format !== undefined &&
+          options.format !== "json" &&
+          options.format !== "taskpaper"
+        ) {
+          console.error(
+            `Invalid format: ${options.format} (expected json or taskpaper)`
+          );
+          process.exitCode = 1;
+          return;
+        }
+        const fsPromises = await import("node:fs/promises");
+        let content: string;
+        try {
+          content = await fsPromises.readFile(file, "utf-8");
+        } catch (err) {
+          const errorMessage =
+            err instanceof Error ? err.message : "Unknown error";
+          console.error(`Error reading file: ${errorMessage}`);
+          process.exitCode = 1;
+          return;
+        }
+        const result = await importTemplatesDescriptor.handler({
+          content,
+          format: options.format,
+          overwrite: options.overwrite,
+          name: options.name,
+          baseDate: options.baseDate,
+          dryRun: options.dryRun,
+        });
+        output(
+          result,
+          getOutputFormat(globalOpts),
+          getTabularOptions(globalOpts)
+        );
+        if (!result.success) process.exitCode = 1;
+      }
+    );
+
   // ===========================================
   // Phase 8: Attachments
   // ===========================================
 
   // attach — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, addAttachmentDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, addAttachmentDescriptor, writeOutput);
 
   // attachments — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, listAttachmentsDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, listAttachmentsDescriptor, writeOutput);
 
   // detach — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, removeAttachmentDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, removeAttachmentDescriptor, writeOutput);
 
   // archive — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, archiveTasksDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, archiveTasksDescriptor, writeOutput);
 
   // compact — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, compactDatabaseDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, compactDatabaseDescriptor, writeOutput);
 
   // sync-status — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, getSyncStatusDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, getSyncStatusDescriptor, writeOutput);
 
   // sync — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, triggerSyncDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, triggerSyncDescriptor, writeOutput);
 
   // ===========================================
   // Phase 9: Project/Folder CRUD & Utilities
@@ -567,45 +932,63 @@ Use --format json|toon for machine output (default: json). Use --human for human
 
   // update-project / delete-project — registered from the centralized
   // descriptors in @ofocus/sdk.
-  registerCliCommand(program, updateProjectDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, deleteProjectDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, updateProjectDescriptor, writeOutput);
+  registerCliCommand(program, deleteProjectDescriptor, writeOutput);
 
   // drop-project — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, dropProjectDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, dropProjectDescriptor, writeOutput);
 
   // update-folder / delete-folder — registered from the centralized
   // descriptors in @ofocus/sdk.
-  registerCliCommand(program, updateFolderDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
-  registerCliCommand(program, deleteFolderDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, updateFolderDescriptor, writeOutput);
+  registerCliCommand(program, deleteFolderDescriptor, writeOutput);
 
   // duplicate — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, duplicateTaskDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, duplicateTaskDescriptor, writeOutput);
 
   // ===========================================
   // Eval escape hatch
   // ===========================================
 
   // eval — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, evaluateScriptDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, evaluateScriptDescriptor, writeOutput);
 
   // open — registered from the centralized descriptor in @ofocus/sdk
-  registerCliCommand(program, openItemDescriptor, (result, cmd) => {
-    output(result, getOutputFormat(getGlobalOpts(cmd)));
-  });
+  registerCliCommand(program, openItemDescriptor, writeOutput);
+
+  // ===========================================
+  // Undo journal
+  // ===========================================
+
+  // undo / redo / history — registered from the centralized descriptors in
+  // @ofocus/sdk.
+  registerCliCommand(program, undoDescriptor, writeOutput);
+  registerCliCommand(program, redoDescriptor, writeOutput);
+  registerCliCommand(program, historyDescriptor, writeOutput);
+
+  // ===========================================
+  // Saved queries
+  // ===========================================
+
+  // saved-query-save / -list / -show / -delete / -run — registered from the
+  // centralized descriptors in @ofocus/sdk.
+  registerCliCommand(program, saveQueryDescriptor, writeOutput);
+  registerCliCommand(program, listSavedQueriesDescriptor, writeOutput);
+  registerCliCommand(program, getSavedQueryDescriptor, writeOutput);
+  registerCliCommand(program, deleteSavedQueryDescriptor, writeOutput);
+  registerCliCommand(program, runSavedQueryDescriptor, writeOutput);
+
+  // ===========================================
+  // Task dependencies
+  // ===========================================
+
+  // dependency-add / -remove / dependencies / dependency-cycles /
+  // critical-path — registered from the centralized descriptors in @ofocus/sdk.
+  registerCliCommand(program, addDependencyDescriptor, writeOutput);
+  registerCliCommand(program, removeDependencyDescriptor, writeOutput);
+  registerCliCommand(program, getTaskDependenciesDescriptor, writeOutput);
+  registerCliCommand(program, findDependencyCyclesDescriptor, writeOutput);
+  registerCliCommand(program, getCriticalPathDescriptor, writeOutput);
 
   // review-interval — kept hand-wired: it combines two MCP tools (get + set)
   // into a single CLI command controlled by the --set flag. The descriptors
@@ -616,21 +999,35 @@ Use --format json|toon for machine output (default: json). Use --human for human
     .description("Get or set the review interval for a project")
     .argument("<project-id>", "Project ID")
     .option("--set <days>", "Set review interval in days", parseInt)
+    .option("--dry-run", "With --set, preview the change without writing it")
     .action(
-      async (projectId: string, options: { set?: number }, cmd: Command) => {
+      async (
+        projectId: string,
+        options: { set?: number; dryRun?: boolean },
+        cmd: Command
+      ) => {
         const globalOpts = getGlobalOpts(cmd);
         if (options.set !== undefined) {
           const result = await setReviewIntervalDescriptor.handler({
             projectId,
             intervalDays: options.set,
+            dryRun: options.dryRun,
           });
-          output(result, getOutputFormat(globalOpts));
+          output(
+            result,
+            getOutputFormat(globalOpts),
+            getTabularOptions(globalOpts)
+          );
           if (!result.success) process.exitCode = 1;
         } else {
           const result = await getReviewIntervalDescriptor.handler({
             projectId,
           });
-          output(result, getOutputFormat(globalOpts));
+          output(
+            result,
+            getOutputFormat(globalOpts),
+            getTabularOptions(globalOpts)
+          );
           if (!result.success) process.exitCode = 1;
         }
       }
@@ -35,17 +35,23 @@ import {
   deleteTagDescriptor,
   listPerspectivesDescriptor,
   queryPerspectiveDescriptor,
+  saveVirtualPerspectiveDescriptor,
+  getVirtualPerspectiveDescriptor,
+  deleteVirtualPerspectiveDescriptor,
   queryForecastDescriptor,
   focusOnDescriptor,
   unfocusDescriptor,
   getFocusedDescriptor,
   queryDeferredDescriptor,
   exportTaskPaperDescriptor,
+  exportICalDescriptor,
   saveTemplateDescriptor,
   listTemplatesDescriptor,
   getTemplateDescriptor,
   createFromTemplateDescriptor,
   deleteTemplateDescriptor,
+  validateTemplateDescriptor,
+  exportTemplatesDescriptor,
   addAttachmentDescriptor,
   listAttachmentsDescriptor,
   removeAttachmentDescriptor,
@@ -58,6 +64,19 @@ import {
   openItemDescriptor,
   evaluateScriptDescriptor,
   queryTasksDescriptor,
+  undoDescriptor,
+  redoDescriptor,
+  historyDescriptor,
+  saveQueryDescriptor,
+  listSavedQueriesDescriptor,
+  getSavedQueryDescriptor,
+  deleteSavedQueryDescriptor,
+  runSavedQueryDescriptor,
+  addDependencyDescriptor,
+  removeDependencyDescriptor,
+  getTaskDependenciesDescriptor,
+  findDependencyCyclesDescriptor,
+  getCriticalPathDescriptor,
 } from "@ofocus/sdk";
 import { productivityDescriptors } from "@ofocus/productivity";
 import { usageStringForDescriptor } from "../registry-adapter.js";
@@ -94,6 +113,9 @@ const CLI_DESCRIPTORS = [
   searchTasksDescriptor,
   listPerspectivesDescriptor,
   queryPerspectiveDescriptor,
+  saveVirtualPerspectiveDescriptor,
+  getVirtualPerspectiveDescriptor,
+  deleteVirtualPerspectiveDescriptor,
   reviewProjectDescriptor,
   queryProjectsForReviewDescriptor,
   queryForecastDescriptor,
@@ -108,12 +130,15 @@ const CLI_DESCRIPTORS = [
   clearRepetitionRuleDescriptor,
   quickCaptureDescriptor,
   exportTaskPaperDescriptor,
+  exportICalDescriptor,
   getStatsDescriptor,
   saveTemplateDescriptor,
   listTemplatesDescriptor,
   getTemplateDescriptor,
   createFromTemplateDescriptor,
   deleteTemplateDescriptor,
+  validateTemplateDescriptor,
+  exportTemplatesDescriptor,
   addAttachmentDescriptor,
   listAttachmentsDescriptor,
   removeAttachmentDescriptor,
@@ -129,6 +154,19 @@ const CLI_DESCRIPTORS = [
   duplicateTaskDescriptor,
   evaluateScriptDescriptor,
   openItemDescriptor,
+  undoDescriptor,
+  redoDescriptor,
+  historyDescriptor,
+  saveQueryDescriptor,
+  listSavedQueriesDescriptor,
+  getSavedQueryDescriptor,
+  deleteSavedQueryDescriptor,
+  runSavedQueryDescriptor,
+  addDependencyDescriptor,
+  removeDependencyDescriptor,
+  getTaskDependenciesDescriptor,
+  findDependencyCyclesDescriptor,
+  getCriticalPathDescriptor,
 ] as const;
 
 /**
@@ -137,9 +175,13 @@ const CLI_DESCRIPTORS = [
  *
  * - `list-commands`: Cannot be a descriptor — it has no OmniFocus handler and
  *   reads from the descriptor registry itself.
+ * - `changes-watch`: A long-running loop that streams events until
+ *   interrupted, which has no request/response descriptor shape.
  * - `import`: The CLI surfaces a file-path argument that reads content before
- *   calling `importTaskPaper`; the MCP descriptor (`import-taskpaper`) takes
- *   raw content and is a different surface.
+ *   calling the `importTaskPaper` descriptor's handler; the MCP descriptor
+ *   (`import-taskpaper`) takes raw content and is a different surface.
+ * - `import-ical`: Reads a `.ics` file the same way and calls the
+ *   `importICal` descriptor's handler, which takes raw content.
  * - `review-interval`: Combines two MCP descriptors (`getReviewInterval` and
  *   `setReviewInterval`) into a single CLI command controlled by `--set`.
  */
@@ -150,18 +192,39 @@ const HAND_WIRED_COMMANDS: CommandInfo[] = [
       "List all available CLI commands with descriptions and usage. Use this to discover what operations are possible. Returns structured metadata about each command suitable for semantic activation by AI agents.",
     usage: "ofocus list-commands",
   },
+  {
+    name: "changes-watch",
+    description:
+      "Watch for changes in OmniFocus and stream each change set as it happens. Keeps the watch snapshot in memory, polls the change fingerprint every --interval seconds, and writes NDJSON events (ready, changes, error) to stdout, or to every client of a Unix socket with --socket. Runs until interrupted; the watch cache stays in sync, so `changes --pending` keeps working alongside it. Each change set is also delivered to the sinks configured in sinks.json (see `sinks`), reported as `delivery` events; --no-sinks turns that off.",
+    usage:
+      "ofocus changes-watch [--watch <value>] [--interval <value>] [--socket <value>] [--no-sinks]",
+  },
   {
     name: "import",
     description:
       "Import tasks from a TaskPaper format file. Creates tasks in the inbox and optionally creates projects that don't exist. TaskPaper format uses indentation and @tags for metadata like @due(date), @flagged, @done.",
     usage:
-      "ofocus import <file> [--create-projects] [--default-project <value>]",
+      "ofocus import <file> [--create-projects] [--default-project <value>] [--dry-run]",
+  },
+  {
+    name: "import-ical",
+    description:
+      "Import tasks from an iCalendar (.ics) file. VTODOs, and VEVENTs with --include-events or --event-filter, become tasks: DUE → due date, DTSTART → defer date (or due date for events), DURATION → estimate, CATEGORIES → existing tags, RRULE → repetition. Re-importing updates the tasks created from the same UIDs instead of duplicating them.",
+    usage:
+      "ofocus import-ical <file> [--project <value>] [--include-events] [--event-filter <value>] [--event-prefix <value>] [--dry-run]",
+  },
+  {
+    name: "template-import",
+    description:
+      "Import templates from a template-export bundle, a single template file or a TaskPaper file, where each project becomes a template. Older template versions are migrated, and nothing is written unless every template is valid; existing templates are only replaced with --overwrite.",
+    usage:
+      "ofocus template-import <file> [--format <value>] [--overwrite] [--name <value>] [--base-date <value>] [--dry-run]",
   },
   {
     name: "review-interval",
     description:
       "Get or set the review interval for a project. Review intervals determine how often projects appear in the Review perspective. Omit --set to get current interval; use --set <days> to change it.",
-    usage: "ofocus review-interval <project-id> [--set <value>]",
+    usage: "ofocus review-interval <project-id> [--set <value>] [--dry-run]",
   },
 ];
 
@@ -173,7 +236,7 @@ const HAND_WIRED_COMMANDS: CommandInfo[] = [
  * - `description` = `descriptor.description`
  * - `usage` = derived by {@link usageStringForDescriptor} (same logic as Commander registration)
  *
- * The three hand-wired exceptions (`list-commands`, `import`, `review-interval`)
+ * The hand-wired exceptions in {@link HAND_WIRED_COMMANDS}
  * are appended explicitly and sorted into the final catalog alphabetically.
  */
 function buildCommandRegistry(): CommandInfo[] {
@@ -28,19 +28,54 @@ import type {
   SyncResult,
   PaginatedResult,
 } from "@ofocus/sdk";
+import { PaginationError } from "@ofocus/sdk";
+import type {
+  DayPlan,
+  OverflowTask,
+  ProcrastinatedTask,
+  ProcrastinationGroup,
+  ProcrastinationReport,
+  VelocityReport,
+  VelocitySeries,
+  WorkloadReport,
+  WorkloadTask,
+} from "@ofocus/productivity";
+import { once } from "node:events";
 import { encode } from "@toon-format/toon";
 
 /**
  * The output format for machine-readable output.
  *
- * - `'json'`  – Pretty-printed JSON (default CLI format).
- * - `'toon'`  – TOON encoding (~40% smaller than JSON for uniform arrays).
- *               See https://toonformat.dev/ for the format specification.
- * - `'human'` – Human-readable text (selected via `--human`).
+ * - `'json'`   – Pretty-printed JSON (default CLI format).
+ * - `'toon'`   – TOON encoding (~40% smaller than JSON for uniform arrays).
+ *                See https://toonformat.dev/ for the format specification.
+ * - `'ndjson'` – One compact JSON record per line, then a summary record.
+ * - `'csv'`    – Comma-separated rows with a header (RFC 4180 quoting).
+ * - `'tsv'`    – Tab-separated rows with a header.
+ * - `'human'`  – Human-readable text (selected via `--human`).
+ *
+ * @public
+ */
+export type OutputFormat = "json" | "toon" | "ndjson" | "csv" | "tsv" | "human";
+
+/**
+ * Options for the `csv` and `tsv` formats.
  *
  * @public
  */
-export type OutputFormat = "json" | "toon" | "human";
+export interface TabularOptions {
+  /**
+   * Ordered columns for list items — the projection the command resolved
+   * from `fields` / `excludeFields`. When omitted, columns are the keys of
+   * the rows in first-seen order.
+   */
+  columns?: readonly string[] | undefined;
+  /** Separator placed between the elements of array values such as `tags`. Default `"; "`. */
+  joiner?: string | undefined;
+}
+
+/** Default {@link TabularOptions.joiner}. */
+export const DEFAULT_TABULAR_JOINER = "; ";
 
 /**
  * Output the result as JSON to stdout.
@@ -76,6 +111,301 @@ export function outputToon<T>(result: CliOutput<T>): void {
   }
 }
 
+/**
+ * Trailing NDJSON record describing the lines before it. It is the only
+ * record with a top-level `summary` key, so consumers can split it off with
+ * e.g. `jq 'select(has("summary") | not)'`.
+ *
+ * @public
+ */
+export interface NdjsonSummary {
+  summary: {
+    success: boolean;
+    /** Number of records written before the summary. */
+    count: number;
+    /** `kind` of a query result (`list`, `count`, `ids`, …), when there is one. */
+    kind?: string;
+    /** Total matches reported by a paged list query. */
+    totalCount?: number;
+    /** Whether a paged list query has more items past this page. */
+    hasMore?: boolean;
+    /** Pages fetched when streaming with `--all`. */
+    pages?: number;
+    error?: CliOutput<unknown>["error"];
+  };
+}
+
+/**
+ * Split a result payload into the records written one per line, plus the
+ * summary fields that describe it. List-shaped query results contribute
+ * their items, ids or groups; plain arrays their elements; anything else is
+ * a single record.
+ */
+function ndjsonRecords(data: unknown): {
+  records: unknown[];
+  summary: Omit<NdjsonSummary["summary"], "success" | "count">;
+} {
+  if (data === null || data === undefined) return { records: [], summary: {} };
+  if (Array.isArray(data)) return { records: data, summary: {} };
+  if (typeof data === "object" && "kind" in data) {
+    const result = data as { kind: unknown } & Record<string, unknown>;
+    const kind = String(result.kind);
+    if (kind === "list" && Array.isArray(result["items"])) {
+      return {
+        records: result["items"],
+        summary: {
+          kind,
+          totalCount: result["totalCount"] as number,
+          hasMore: result["hasMore"] as boolean,
+        },
+      };
+    }
+    if (kind === "ids" && Array.isArray(result["ids"])) {
+      return { records: result["ids"], summary: { kind } };
+    }
+    if (kind === "groups" && Array.isArray(result["groups"])) {
+      return {
+        records: result["groups"],
+        summary: { kind, totalCount: result["totalCount"] as number },
+      };
+    }
+    return { records: [data], summary: { kind } };
+  }
+  return { records: [data], summary: {} };
+}
+
+/**
+ * Output the result as newline-delimited JSON to stdout: one compact record
+ * per line, followed by an {@link NdjsonSummary}. A failure writes only the
+ * summary, carrying the error.
+ */
+export function outputNdjson<T>(result: CliOutput<T>): void {
+  if (!result.success) {
+    const summary: NdjsonSummary = {
+      summary: { success: false, count: 0, error: result.error },
+    };
+    console.log(JSON.stringify(summary));
+    return;
+  }
+
+  const { records, summary } = ndjsonRecords(result.data);
+  for (const record of records) {
+    console.log(JSON.stringify(record));
+  }
+  const trailer: NdjsonSummary = {
+    summary: { success: true, count: records.length, ...summary },
+  };
+  console.log(JSON.stringify(trailer));
+}
+
+/**
+ * Write one NDJSON line, waiting for stdout to drain when its buffer is full
+ * so a long stream is never held in memory.
+ */
+async function writeNdjsonLine(record: unknown): Promise<void> {
+  if (!process.stdout.write(JSON.stringify(record) + "\n")) {
+    await once(process.stdout, "drain");
+  }
+}
+
+/**
+ * Stream pages of items (e.g. from `paginatePages`) as NDJSON as they
+ * arrive, then write an {@link NdjsonSummary}. A page that fails ends the
+ * stream with a failed summary carrying the error; items already written
+ * stay written.
+ *
+ * @returns Whether every page was retrieved.
+ */
+export async function outputNdjsonPages(
+  pages: AsyncIterable<unknown[]>
+): Promise<boolean> {
+  let count = 0;
+  let pageCount = 0;
+  try {
+    for await (const page of pages) {
+      pageCount++;
+      for (const item of page) {
+        await writeNdjsonLine(item);
+        count++;
+      }
+    }
+  } catch (err) {
+    if (!(err instanceof PaginationError)) throw err;
+    await writeNdjsonLine({
+      summary: {
+        success: false,
+        count,
+        kind: "list",
+        pages: pageCount,
+        error: err.cliError,
+      },
+    } satisfies NdjsonSummary);
+    return false;
+  }
+
+  await writeNdjsonLine({
+    summary: {
+      success: true,
+      count,
+      kind: "list",
+      totalCount: count,
+      hasMore: false,
+      pages: pageCount,
+    },
+  } satisfies NdjsonSummary);
+  return true;
+}
+
+/**
+ * Flatten a result payload into a header and rows. List items and single
+ * items use the projected columns; grouped results get a leading `group`
+ * column (one row per item when the groups carry items, otherwise one row
+ * per group with its `count`); `ids` and `count` results become one-column
+ * tables; other objects and arrays fall back to their own keys.
+ */
+function tabularRows(
+  data: unknown,
+  columns: readonly string[] | undefined
+): { header: string[]; rows: Record<string, unknown>[] } {
+  const table = (
+    rows: Record<string, unknown>[],
+    fixed?: readonly string[]
+  ): { header: string[]; rows: Record<string, unknown>[] } => ({
+    header: fixed !== undefined ? [...fixed] : inferColumns(rows),
+    rows,
+  });
+
+  if (data === null || data === undefined) return table([]);
+  if (Array.isArray(data)) return table(data.map(toRow));
+  if (typeof data !== "object") return table([{ value: data }], ["value"]);
+
+  const result = data as Record<string, unknown>;
+  switch (result["kind"]) {
+    case "list":
+      return table((result["items"] as unknown[]).map(toRow), columns);
+    case "single":
+      return table(
+        result["item"] === null ? [] : [toRow(result["item"])],
+        columns
+      );
+    case "ids":
+      return table(
+        (result["ids"] as string[]).map((id) => ({ id })),
+        ["id"]
+      );
+    case "count":
+      return table([{ count: result["count"] }], ["count"]);
+    case "groups": {
+      const groups = result["groups"] as {
+        key: string;
+        count: number;
+        items?: unknown[];
+      }[];
+      if (!groups.some((g) => g.items !== undefined)) {
+        return table(
+          groups.map((g) => ({ group: g.key, count: g.count })),
+          ["group", "count"]
+        );
+      }
+      const rows = groups.flatMap((g) =>
+        (g.items ?? []).map((item) => ({ ...toRow(item), group: g.key }))
+      );
+      const itemColumns =
+        columns ?? inferColumns(rows).filter((c) => c !== "group");
+      return table(rows, ["group", ...itemColumns]);
+    }
+    default:
+      return table([result]);
+  }
+}
+
+function toRow(value: unknown): Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : { value };
+}
+
+function inferColumns(rows: Record<string, unknown>[]): string[] {
+  const seen = new Set<string>();
+  for (const row of rows) {
+    for (const key of Object.keys(row)) seen.add(key);
+  }
+  return [...seen];
+}
+
+/** Render one value as cell text: arrays joined, objects as JSON, null empty. */
+function cellText(value: unknown, joiner: string): string {
+  if (value === null || value === undefined) return "";
+  if (Array.isArray(value)) {
+    return value.map((v) => cellText(v, joiner)).join(joiner);
+  }
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value as string | number | boolean);
+}
+
+/** Quote a CSV field when it contains a comma, quote or line break. */
+function csvField(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Escape characters TSV can't carry, as `\t`, `\n`, `\r` and `\\`. */
+function tsvField(text: string): string {
+  return text.replace(/[\\\t\n\r]/g, (c) =>
+    c === "\t" ? "\\t" : c === "\n" ? "\\n" : c === "\r" ? "\\r" : "\\\\"
+  );
+}
+
+function outputDelimited<T>(
+  result: CliOutput<T>,
+  delimiter: "," | "\t",
+  options: TabularOptions
+): void {
+  if (!result.success) {
+    // Keep stdout a valid (empty) table; the error goes to stderr.
+    console.error("Error: " + (result.error?.message ?? "Unknown error"));
+    if (result.error?.details) {
+      console.error("Details: " + result.error.details);
+    }
+    return;
+  }
+
+  const joiner = options.joiner ?? DEFAULT_TABULAR_JOINER;
+  const field = delimiter === "," ? csvField : tsvField;
+  const { header, rows } = tabularRows(result.data, options.columns);
+  if (header.length === 0) return;
+
+  console.log(header.map(field).join(delimiter));
+  for (const row of rows) {
+    console.log(
+      header.map((c) => field(cellText(row[c], joiner))).join(delimiter)
+    );
+  }
+}
+
+/**
+ * Output the result as CSV to stdout: a header row, then one row per item.
+ * Array values are joined with {@link TabularOptions.joiner}; nested objects
+ * are written as JSON. A failure writes the error to stderr only.
+ */
+export function outputCsv<T>(
+  result: CliOutput<T>,
+  options: TabularOptions = {}
+): void {
+  outputDelimited(result, ",", options);
+}
+
+/**
+ * Output the result as TSV to stdout, like {@link outputCsv} but
+ * tab-separated. Tabs, line breaks and backslashes inside values are escaped
+ * as `\t`, `\n`, `\r` and `\\` so every row stays on one line.
+ */
+export function outputTsv<T>(
+  result: CliOutput<T>,
+  options: TabularOptions = {}
+): void {
+  outputDelimited(result, "\t", options);
+}
+
 /**
  * Output the result in human-readable format to stdout.
  */
@@ -166,6 +496,14 @@ export function outputHuman<T>(result: CliOutput<T>): void {
       formatTaskPaperImportResult(data);
     } else if (isStatsResult(data)) {
       formatStatsResult(data);
+    } else if (isDayPlan(data)) {
+      formatDayPlan(data);
+    } else if (isWorkloadReport(data)) {
+      formatWorkloadReport(data);
+    } else if (isProcrastinationReport(data)) {
+      formatProcrastinationReport(data);
+    } else if (isVelocityReport(data)) {
+      formatVelocityReport(data);
     } else if (isSaveTemplateResult(data)) {
       formatSaveTemplateResult(data);
     } else if (isListTemplatesResult(data)) {
@@ -202,17 +540,33 @@ export function outputHuman<T>(result: CliOutput<T>): void {
 /**
  * Output based on format preference.
  *
- * - `'json'`  – Pretty-printed JSON envelope (default).
- * - `'toon'`  – TOON-encoded envelope; ~40% smaller for uniform arrays.
- * - `'human'` – Human-readable text (selected via `--human`).
+ * - `'json'`   – Pretty-printed JSON envelope (default).
+ * - `'toon'`   – TOON-encoded envelope; ~40% smaller for uniform arrays.
+ * - `'ndjson'` – One record per line plus a trailing summary record.
+ * - `'csv'` / `'tsv'` – A header row plus one row per item; `tabular`
+ *   supplies the column order and array joiner.
+ * - `'human'`  – Human-readable text (selected via `--human`).
  *
  * @see https://toonformat.dev/ for the TOON format specification.
  */
-export function output<T>(result: CliOutput<T>, format: OutputFormat): void {
+export function output<T>(
+  result: CliOutput<T>,
+  format: OutputFormat,
+  tabular: TabularOptions = {}
+): void {
   switch (format) {
     case "toon":
       outputToon(result);
       break;
+    case "ndjson":
+      outputNdjson(result);
+      break;
+    case "csv":
+      outputCsv(result, tabular);
+      break;
+    case "tsv":
+      outputTsv(result, tabular);
+      break;
     case "human":
       outputHuman(result);
       break;
@@ -492,15 +846,21 @@ function formatFolders(folders: OFFolder[]): void {
 }
 
 // Perspective formatters
+const PERSPECTIVE_KIND_LABELS: Record<OFPerspective["kind"], string> = {
+  builtin: "built-in",
+  custom: "custom",
+  virtual: "virtual",
+};
+
 function formatPerspective(perspective: OFPerspective): void {
-  const kindStr = perspective.kind === "custom" ? " (custom)" : " (built-in)";
+  const kindStr = ` (${PERSPECTIVE_KIND_LABELS[perspective.kind]})`;
   console.log(perspective.name + kindStr);
   console.log(`  ID: ${perspective.id}`);
 }
 
 function formatPerspectives(perspectives: OFPerspective[]): void {
   for (const perspective of perspectives) {
-    const kindStr = perspective.kind === "custom" ? "[custom]" : "[built-in]";
+    const kindStr = `[${PERSPECTIVE_KIND_LABELS[perspective.kind]}]`;
     console.log(`${kindStr} ${perspective.name}`);
     console.log(`  ${perspective.id}`);
   }
@@ -696,6 +1056,288 @@ function formatStatsResult(result: StatsResult): void {
   console.log(`  On hold:    ${String(result.projectsOnHold)}`);
 }
 
+function isProcrastinationReport(obj: unknown): obj is ProcrastinationReport {
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    "thresholds" in obj &&
+    "totals" in obj &&
+    "deferredOften" in obj &&
+    "untouched" in obj
+  );
+}
+
+// Procrastination report formatter
+function formatProcrastinationGroup(group: ProcrastinationGroup): string {
+  const { ages } = group;
+  const slip =
+    group.averageSlipDays === null
+      ? "-"
+      : `${group.averageSlipDays > 0 ? "+" : ""}${String(group.averageSlipDays)}d`;
+  return [
+    group.name.padEnd(24),
+    String(group.openTasks).padStart(5),
+    String(group.untouched).padStart(10),
+    String(group.deferredOften).padStart(9),
+    slip.padStart(9),
+    `  ${String(ages.under1Week)}/${String(ages.under1Month)}/${String(ages.under3Months)}/${String(ages.under1Year)}/${String(ages.over1Year)}`,
+  ].join(" ");
+}
+
+function formatProcrastinatedTask(task: ProcrastinatedTask): string {
+  const details = [
+    `untouched ${String(task.untouchedDays)}d`,
+    ...(task.ageDays !== null ? [`age ${String(task.ageDays)}d`] : []),
+    ...(task.deferrals > 0 ? [`deferred ${String(task.deferrals)}x`] : []),
+    ...(task.slipDays !== null ? [`slipped ${String(task.slipDays)}d`] : []),
+  ];
+  return `  ${task.name} [${task.project}] (${details.join(", ")})`;
+}
+
+function formatProcrastinationReport(report: ProcrastinationReport): void {
+  const { thresholds } = report;
+  console.log(`Procrastination report (${report.at.slice(0, 10)})`);
+  console.log(
+    `  History: ${report.historySince === null ? "none recorded" : `since ${report.historySince.slice(0, 10)}`}`
+  );
+  if (report.note) {
+    console.log(`  ${report.note}`);
+  }
+  const header = [
+    "".padEnd(24),
+    "Open".padStart(5),
+    `>${String(thresholds.untouchedDays)}d idle`.padStart(10),
+    `>${String(thresholds.deferredMoreThan)}x def`.padStart(9),
+    "Avg slip".padStart(9),
+    "  Age <1w/<1m/<3m/<1y/older",
+  ].join(" ");
+  for (const [title, groups] of [
+    ["Projects", report.projects],
+    ["Tags", report.tags],
+  ] as const) {
+    if (groups.length === 0) continue;
+    console.log();
+    console.log(`${title}:`);
+    console.log(header);
+    for (const group of groups) {
+      console.log(formatProcrastinationGroup(group));
+    }
+  }
+  console.log();
+  console.log(formatProcrastinationGroup(report.totals));
+  if (report.deferredOften.length > 0) {
+    console.log();
+    console.log(
+      `Deferred more than ${String(thresholds.deferredMoreThan)} times:`
+    );
+    for (const task of report.deferredOften) {
+      console.log(formatProcrastinatedTask(task));
+    }
+  }
+  if (report.untouched.length > 0) {
+    console.log();
+    console.log(`Untouched for over ${String(thresholds.untouchedDays)} days:`);
+    for (const task of report.untouched) {
+      console.log(formatProcrastinatedTask(task));
+    }
+  }
+}
+
+function isDayPlan(obj: unknown): obj is DayPlan {
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    "budgetMinutes" in obj &&
+    "schedule" in obj &&
+    "overflow" in obj
+  );
+}
+
+/** Local `HH:MM` of an ISO 8601 instant. */
+function formatClock(iso: string): string {
+  const date = new Date(iso);
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
+
+// Day plan formatter
+function formatPlanLine(task: OverflowTask): string {
+  const project = task.projectName !== null ? ` [${task.projectName}]` : "";
+  const minutes = `${String(task.minutes)}m${task.estimated ? "" : "?"}`;
+  const reasons =
+    task.reasons.length > 0 ? ` (${task.reasons.join(", ")})` : "";
+  return `${task.name}${project} ${minutes}${reasons}`;
+}
+
+function formatDayPlan(plan: DayPlan): void {
+  console.log(
+    `Plan: ${String(plan.scheduledMinutes)} of ${String(plan.budgetMinutes)} minutes scheduled from ${formatClock(plan.start)}`
+  );
+  const entries = [
+    ...plan.busy.map((b) => ({
+      start: b.start,
+      line: `${formatClock(b.start)}–${formatClock(b.end)}  busy: ${b.summary}`,
+    })),
+    ...plan.schedule.map((t) => ({
+      start: t.start,
+      line: `${formatClock(t.start)}–${formatClock(t.end)}  ${formatPlanLine(t)}`,
+    })),
+  ].sort((a, b) => a.start.localeCompare(b.start));
+  if (entries.length > 0) {
+    console.log();
+  }
+  for (const entry of entries) {
+    console.log(`  ${entry.line}`);
+  }
+  if (plan.overflow.length > 0) {
+    console.log();
+    console.log(`Overflow (${String(plan.overflow.length)}):`);
+    for (const task of plan.overflow) {
+      console.log(`  ${formatPlanLine(task)}`);
+    }
+  }
+}
+
+function isWorkloadReport(obj: unknown): obj is WorkloadReport {
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    "forecast" in obj &&
+    "overloadedDays" in obj &&
+    "unestimated" in obj
+  );
+}
+
+/** Width of the load bar in the workload view. */
+const LOAD_BAR_WIDTH = 20;
+
+/** A bar filled in proportion to `load / capacity`, capped at full. */
+function loadBar(load: number, capacity: number): string {
+  const ratio = capacity > 0 ? Math.min(1, load / capacity) : load > 0 ? 1 : 0;
+  const filled = Math.round(ratio * LOAD_BAR_WIDTH);
+  return "#".repeat(filled) + ".".repeat(LOAD_BAR_WIDTH - filled);
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Workload formatter
+function formatDeferCandidate(task: WorkloadTask): string {
+  const project = task.projectName !== null ? ` [${task.projectName}]` : "";
+  const slack =
+    task.slackDays === null
+      ? "no due date"
+      : `${String(task.slackDays)}d slack`;
+  return `    defer? ${task.name}${project} ${String(task.minutes)}m (${slack})`;
+}
+
+function formatWorkloadReport(report: WorkloadReport): void {
+  console.log(
+    `Workload: next ${String(report.days)} days, ${String(report.capacityMinutes)}m/day capacity (${String(report.overloadedDays.length)} overloaded)`
+  );
+  console.log();
+  for (const day of report.forecast) {
+    const weekday = WEEKDAYS[new Date(`${day.date}T00:00:00Z`).getUTCDay()];
+    const load = `${String(day.loadMinutes)}/${String(day.capacityMinutes)}m`;
+    const over = day.overloaded
+      ? `  OVER by ${String(day.excessMinutes)}m`
+      : "";
+    console.log(
+      `${weekday ?? ""} ${day.date}  ${loadBar(day.loadMinutes, day.capacityMinutes)}  ${load.padStart(9)}${over}`
+    );
+    for (const task of day.deferCandidates) {
+      console.log(formatDeferCandidate(task));
+    }
+    if (day.uncoveredMinutes > 0) {
+      console.log(
+        `    ${String(day.uncoveredMinutes)}m over is flagged or due that day`
+      );
+    }
+  }
+  if (report.unestimated.length > 0) {
+    console.log();
+    console.log(
+      `Unestimated (${String(report.unestimated.length)}, counted as ${String(report.defaultMinutes)}m each):`
+    );
+    for (const task of report.unestimated) {
+      const project = task.projectName !== null ? ` [${task.projectName}]` : "";
+      console.log(`  ${task.date}  ${task.name}${project}`);
+    }
+  }
+}
+
+function isVelocityReport(obj: unknown): obj is VelocityReport {
+  return (
+    typeof obj === "object" &&
+    obj !== null &&
+    "bucket" in obj &&
+    "trailing" in obj &&
+    "totals" in obj &&
+    "projects" in obj
+  );
+}
+
+/** Sparkline levels, lowest first; zero always renders as the first. */
+const SPARK_LEVELS = "_.-=+*#";
+
+/**
+ * Render values as an ASCII sparkline, one character per value, scaled to
+ * the largest value.
+ */
+export function sparkline(values: readonly number[]): string {
+  const max = Math.max(0, ...values);
+  return values
+    .map((value) => {
+      if (max === 0 || value <= 0) return SPARK_LEVELS.charAt(0);
+      const level = Math.ceil((value / max) * (SPARK_LEVELS.length - 1));
+      return SPARK_LEVELS.charAt(level);
+    })
+    .join("");
+}
+
+// Velocity report formatter
+function formatVelocitySeries(series: VelocitySeries, width: number): string {
+  const completed = series.series.map((p) => p.completed);
+  const remaining = series.series.map((p) => p.remaining);
+  const total = completed.reduce((sum, n) => sum + n, 0);
+  const projected =
+    series.projectedCompletion === null
+      ? "-"
+      : `${series.projectedCompletion} (${series.basis ?? ""})`;
+  return [
+    series.name.padEnd(24),
+    `${sparkline(completed)} ${String(total).padStart(4)}`.padEnd(width + 6),
+    `${sparkline(remaining)} ${String(series.remaining).padStart(4)}`.padEnd(
+      width + 6
+    ),
+    String(series.velocity).padStart(8),
+    ` ${projected}`,
+  ].join(" ");
+}
+
+function formatVelocityReport(report: VelocityReport): void {
+  const first = report.totals.series[0]?.start ?? "";
+  console.log(
+    `Velocity per ${report.bucket} since ${first} (${String(report.periods)} ${report.bucket}s, trailing ${String(report.trailing)})`
+  );
+  console.log();
+  const width = report.periods;
+  console.log(
+    [
+      "".padEnd(24),
+      "Completed".padEnd(width + 6),
+      "Remaining".padEnd(width + 6),
+      `Per ${report.bucket}`.padStart(8),
+      " Projected",
+    ].join(" ")
+  );
+  for (const series of report.projects) {
+    console.log(formatVelocitySeries(series, width));
+  }
+  if (report.projects.length > 0) {
+    console.log();
+  }
+  console.log(formatVelocitySeries(report.totals, width));
+}
+
 // Template type guards
 function isSaveTemplateResult(obj: unknown): obj is SaveTemplateResult {
   return (
@@ -0,0 +1,43 @@
+import { createInterface } from "node:readline/promises";
+import { getTemplateVariables } from "@ofocus/sdk";
+
+/**
+ * Ask on the terminal for the template variables that `template-create` was
+ * not given and that have no default, and return them merged into `vars`.
+ *
+ * Prompts go to stderr so stdout stays machine-readable. When stdin is not a
+ * terminal (scripts, agents), `vars` is returned unchanged and the command
+ * reports the missing variables instead of waiting for input. An empty answer
+ * leaves the variable missing.
+ */
+export async function promptTemplateVariables(
+  templateName: string,
+  vars: Record<string, string | boolean>
+): Promise<Record<string, string | boolean>> {
+  if (!process.stdin.isTTY) return vars;
+
+  const variables = getTemplateVariables(templateName);
+  const missing = (variables.data ?? []).filter(
+    (v) => vars[v.name] === undefined && v.default === undefined
+  );
+  if (missing.length === 0) return vars;
+
+  const answers = { ...vars };
+  const rl = createInterface({ input: process.stdin, output: process.stderr });
+  try {
+    for (const variable of missing) {
+      const hint =
+        variable.type === "boolean"
+          ? " (yes/no)"
+          : variable.type === "date"
+            ? " (date)"
+            : "";
+      const label = variable.description ?? variable.name;
+      const answer = (await rl.question(`${label}${hint}: `)).trim();
+      if (answer !== "") answers[variable.name] = answer;
+    }
+  } finally {
+    rl.close();
+  }
+  return answers;
+}
@@ -1,7 +1,16 @@
 import { Command } from "commander";
 import { z } from "zod";
-import type { CliOutput, ResolvedCommandDescriptor } from "@ofocus/sdk";
-import { ErrorCode, createError, toKebabCase } from "@ofocus/sdk";
+import type {
+  CliOutput,
+  CompileProjectionOptions,
+  ResolvedCommandDescriptor,
+} from "@ofocus/sdk";
+import {
+  ErrorCode,
+  compileProjection,
+  createError,
+  toKebabCase,
+} from "@ofocus/sdk";
 
 /**
  * Derive the CLI usage string for a descriptor — the same string that
@@ -69,13 +78,40 @@ export function usageStringForDescriptor(
  * descriptor's `CliOutput` envelope and the Commander {@link Command} so
  * implementations can read global options off `cmd.optsWithGlobals()`.
  *
+ * For descriptors with a `fieldSpec`, `columns` is the ordered field list
+ * the handler projected its items with, for tabular formats to use as
+ * their header.
+ *
  * @public
  */
 export type CliOutputHandler = (
   result: CliOutput<unknown>,
-  cmd: Command
+  cmd: Command,
+  columns?: readonly string[]
 ) => void;
 
+/**
+ * Optional hook that lets a command write its own output instead of running
+ * the handler once and passing the result to {@link CliOutputHandler} — used
+ * to stream list queries page by page.
+ *
+ * Receives `runPage`, which calls the descriptor's handler with the parsed
+ * input plus the given `limit`/`offset`, the parsed input itself, and the
+ * Commander {@link Command}. Resolves to `true` when it has written the
+ * output (and set `process.exitCode` on failure), or `false` to fall back to
+ * the normal handler → output path.
+ *
+ * @public
+ */
+export type CliStreamHandler = (
+  runPage: (page: {
+    limit: number;
+    offset: number;
+  }) => Promise<CliOutput<unknown>>,
+  input: Record<string, unknown>,
+  cmd: Command
+) => Promise<boolean>;
+
 /**
  * Register a {@link ResolvedCommandDescriptor} as a Commander subcommand on
  * `program`.
@@ -108,12 +144,16 @@ export type CliOutputHandler = (
  * Optional and default wrappers are unwrapped before inspection. Unknown
  * Zod types fall through to a plain `--name <value>` string option.
  *
+ * When `handleStream` is given it is offered the validated input first; see
+ * {@link CliStreamHandler}.
+ *
  * @public
  */
 export function registerCliCommand<TSchema extends z.AnyZodObject>(
   program: Command,
   descriptor: ResolvedCommandDescriptor<z.infer<TSchema>, unknown, TSchema>,
-  handleOutput: CliOutputHandler
+  handleOutput: CliOutputHandler,
+  handleStream?: CliStreamHandler
 ): Command {
   const cmd = program
     .command(descriptor.cliName)
@@ -192,8 +232,26 @@ export function registerCliCommand<TSchema extends z.AnyZodObject>(
       return;
     }
 
-    const result = await descriptor.handler(parsed.data);
-    handleOutput(result, cmdInstance);
+    const input = parsed.data as z.infer<TSchema>;
+    if (handleStream !== undefined) {
+      const streamed = await handleStream(
+        (page) => descriptor.handler({ ...input, ...page }),
+        input as Record<string, unknown>,
+        cmdInstance
+      );
+      if (streamed) return;
+    }
+
+    const result = await descriptor.handler(input);
+    if (descriptor.fieldSpec !== undefined) {
+      const projection = compileProjection(
+        descriptor.fieldSpec,
+        input as CompileProjectionOptions
+      );
+      handleOutput(result, cmdInstance, projection.resolvedFields);
+    } else {
+      handleOutput(result, cmdInstance);
+    }
     if (!result.success) process.exitCode = 1;
   });
 
@@ -27,8 +27,14 @@ import {
   outputJson,
   outputToon,
   outputHuman,
+  outputNdjson,
+  outputNdjsonPages,
+  outputCsv,
+  outputTsv,
+  sparkline,
   type OutputFormat,
 } from "../../src/output.js";
+import { PaginationError } from "@ofocus/sdk";
 
 // ---------------------------------------------------------------------------
 // Shared test helpers
@@ -304,6 +310,240 @@ describe("output", () => {
       output(result, "human");
       expect(consoleLogSpy).toHaveBeenCalledWith("No results found.");
     });
+
+    it("formats a procrastination report as tables and task lists", () => {
+      const group = {
+        name: "Taxes",
+        openTasks: 2,
+        ages: {
+          under1Week: 1,
+          under1Month: 0,
+          under3Months: 0,
+          under1Year: 1,
+          over1Year: 0,
+          unknown: 0,
+        },
+        medianAgeDays: 76,
+        untouched: 1,
+        deferredOften: 1,
+        slipped: 1,
+        averageSlipDays: 10,
+      };
+      const task = {
+        id: "file",
+        name: "File taxes",
+        project: "Taxes",
+        tags: [],
+        ageDays: 151,
+        untouchedDays: 61,
+        deferrals: 3,
+        duePostponements: 1,
+        slipDays: 10,
+      };
+      output(
+        success({
+          at: "2026-06-01T00:00:00.000Z",
+          thresholds: { deferredMoreThan: 2, untouchedDays: 30 },
+          historyRecording: true,
+          historySince: "2026-05-01T00:00:00.000Z",
+          totals: { ...group, name: "All" },
+          projects: [group],
+          tags: [],
+          deferredOften: [task],
+          untouched: [task],
+        }),
+        "human"
+      );
+      const lines = consoleLogSpy.mock.calls.map((call) => String(call[0]));
+      expect(lines).toContain("Procrastination report (2026-06-01)");
+      expect(lines).toContain("  History: since 2026-05-01");
+      expect(lines.find((l) => l.startsWith("Taxes"))).toMatch(
+        /^Taxes\s+2\s+1\s+1\s+\+10d\s+1\/0\/0\/1\/0$/
+      );
+      expect(lines).toContain("Deferred more than 2 times:");
+      expect(lines).toContain(
+        "  File taxes [Taxes] (untouched 61d, age 151d, deferred 3x, slipped 10d)"
+      );
+      expect(lines).not.toContain("Tags:");
+    });
+
+    it("renders velocity series as ASCII sparklines", () => {
+      const point = (start: string, completed: number, remaining: number) => ({
+        start,
+        completed,
+        completedMinutes: 0,
+        remaining,
+      });
+      const launch = {
+        id: "p1",
+        name: "Launch",
+        series: [
+          point("2026-05-18", 0, 6),
+          point("2026-05-25", 2, 4),
+          point("2026-06-01", 4, 1),
+        ],
+        remaining: 1,
+        remainingMinutes: 0,
+        unestimated: 1,
+        velocity: 1,
+        minutesVelocity: 0,
+        projectedCompletion: "2026-06-10",
+        basis: "tasks" as const,
+      };
+      output(
+        success({
+          at: "2026-06-03T12:00:00.000Z",
+          bucket: "week" as const,
+          periods: 3,
+          trailing: 2,
+          totals: { ...launch, id: null, name: "All" },
+          projects: [launch],
+        }),
+        "human"
+      );
+      const lines = consoleLogSpy.mock.calls.map((call) => String(call[0]));
+      expect(lines[0]).toBe(
+        "Velocity per week since 2026-05-18 (3 weeks, trailing 2)"
+      );
+      expect(lines.find((l) => l.startsWith("Launch"))).toMatch(
+        /^Launch\s+_=#\s+6\s+#\+\.\s+1\s+1\s+2026-06-10 \(tasks\)$/
+      );
+    });
+
+    it("renders a day plan with busy blocks and overflow", () => {
+      const task = {
+        id: "t1",
+        name: "Write report",
+        projectName: "Work",
+        minutes: 30,
+        estimated: true,
+        score: 110,
+        reasons: ["overdue 1d", "flagged"],
+      };
+      output(
+        success({
+          start: "2026-06-01T09:00:00.000Z",
+          end: null,
+          budgetMinutes: 60,
+          scheduledMinutes: 30,
+          busy: [
+            {
+              summary: "Standup",
+              start: "2026-06-01T09:00:00.000Z",
+              end: "2026-06-01T09:15:00.000Z",
+            },
+          ],
+          schedule: [
+            {
+              ...task,
+              start: "2026-06-01T09:15:00.000Z",
+              end: "2026-06-01T09:45:00.000Z",
+            },
+          ],
+          overflow: [
+            {
+              ...task,
+              id: "t2",
+              name: "Plan offsite",
+              projectName: null,
+              minutes: 90,
+              estimated: false,
+              reasons: [],
+            },
+          ],
+        }),
+        "human"
+      );
+      const lines = consoleLogSpy.mock.calls.map((call) => String(call[0]));
+      expect(lines[0]).toMatch(
+        /^Plan: 30 of 60 minutes scheduled from \d\d:\d\d$/
+      );
+      const slots = lines.filter((l) => /^ {2}\d\d:\d\d–\d\d:\d\d {2}/.test(l));
+      expect(slots).toHaveLength(2);
+      expect(slots[0]).toMatch(/busy: Standup$/);
+      expect(slots[1]).toMatch(
+        /Write report \[Work\] 30m \(overdue 1d, flagged\)$/
+      );
+      expect(lines).toContain("Overflow (1):");
+      expect(lines).toContain("  Plan offsite 90m?");
+    });
+
+    it("renders a workload forecast with overload and defer candidates", () => {
+      const tidy = {
+        id: "d",
+        name: "Tidy",
+        projectName: "Home",
+        minutes: 30,
+        estimated: false,
+        flagged: false,
+        dueDate: null,
+        deferDate: "2026-06-05T13:00:00.000Z",
+        slackDays: null,
+      };
+      const day = {
+        date: "2026-06-05",
+        capacityMinutes: 120,
+        loadMinutes: 150,
+        estimatedMinutes: 120,
+        defaultedMinutes: 30,
+        unestimatedCount: 1,
+        overloaded: true,
+        excessMinutes: 30,
+        tasks: [tidy],
+        deferCandidates: [tidy],
+        uncoveredMinutes: 0,
+      };
+      output(
+        success({
+          at: "2026-06-05T10:00:00.000Z",
+          days: 2,
+          capacityMinutes: 120,
+          weekendCapacityMinutes: 0,
+          defaultMinutes: 30,
+          totalMinutes: 150,
+          overloadedDays: ["2026-06-05"],
+          forecast: [
+            day,
+            {
+              ...day,
+              date: "2026-06-06",
+              capacityMinutes: 0,
+              loadMinutes: 0,
+              estimatedMinutes: 0,
+              defaultedMinutes: 0,
+              unestimatedCount: 0,
+              overloaded: false,
+              excessMinutes: 0,
+              tasks: [],
+              deferCandidates: [],
+            },
+          ],
+          unestimated: [
+            { id: "d", name: "Tidy", projectName: "Home", date: "2026-06-05" },
+          ],
+        }),
+        "human"
+      );
+      const lines = consoleLogSpy.mock.calls.map((call) => String(call[0]));
+      expect(lines[0]).toBe(
+        "Workload: next 2 days, 120m/day capacity (1 overloaded)"
+      );
+      expect(lines).toContain(
+        `Fri 2026-06-05  ${"#".repeat(20)}   150/120m  OVER by 30m`
+      );
+      expect(lines).toContain("    defer? Tidy [Home] 30m (no due date)");
+      expect(lines).toContain(`Sat 2026-06-06  ${".".repeat(20)}       0/0m`);
+      expect(lines).toContain("Unestimated (1, counted as 30m each):");
+      expect(lines).toContain("  2026-06-05  Tidy [Home]");
+    });
+  });
+
+  describe("sparkline", () => {
+    it("scales values to the largest, with zero as the lowest level", () => {
+      expect(sparkline([0, 1, 2, 3, 4, 5, 6])).toBe("_.-=+*#");
+      expect(sparkline([0, 0])).toBe("__");
+      expect(sparkline([])).toBe("");
+    });
   });
 
   // -------------------------------------------------------------------------
@@ -341,7 +581,14 @@ describe("output", () => {
 
     it("OutputFormat type accepts only valid format strings", () => {
       // Compile-time check: the following are all valid OutputFormat values
-      const formats: OutputFormat[] = ["json", "toon", "human"];
+      const formats: OutputFormat[] = [
+        "json",
+        "toon",
+        "ndjson",
+        "csv",
+        "tsv",
+        "human",
+      ];
       for (const fmt of formats) {
         const result = success({ id: "x" });
         output(result, fmt);
@@ -353,6 +600,282 @@ describe("output", () => {
     });
   });
 
+  // -------------------------------------------------------------------------
+  // NDJSON output
+  // -------------------------------------------------------------------------
+
+  describe("NDJSON output (format='ndjson')", () => {
+    const lines = (): unknown[] =>
+      consoleLogSpy.mock.calls.map(
+        (call) => JSON.parse(call[0] as string) as unknown
+      );
+
+    it("writes one line per list item followed by a summary record", () => {
+      output(
+        success({
+          kind: "list",
+          items: [createMockTask("t1", "A"), createMockTask("t2", "B")],
+          totalCount: 5,
+          returnedCount: 2,
+          hasMore: true,
+          offset: 0,
+          limit: 2,
+        }),
+        "ndjson"
+      );
+
+      expect(lines()).toEqual([
+        createMockTask("t1", "A"),
+        createMockTask("t2", "B"),
+        {
+          summary: {
+            success: true,
+            count: 2,
+            kind: "list",
+            totalCount: 5,
+            hasMore: true,
+          },
+        },
+      ]);
+      expect(consoleLogSpy.mock.calls[0]?.[0]).not.toContain("\n");
+    });
+
+    it("writes ids, plain arrays and scalar results as records", () => {
+      outputNdjson(success({ kind: "ids", ids: ["a", "b"] }));
+      outputNdjson(success([1, 2]));
+      outputNdjson(success({ kind: "count", count: 7 }));
+
+      expect(lines()).toEqual([
+        "a",
+        "b",
+        { summary: { success: true, count: 2, kind: "ids" } },
+        1,
+        2,
+        { summary: { success: true, count: 2 } },
+        { kind: "count", count: 7 },
+        { summary: { success: true, count: 1, kind: "count" } },
+      ]);
+    });
+
+    it("writes only a failed summary for errors", () => {
+      outputNdjson(failure(createError(ErrorCode.TASK_NOT_FOUND, "gone")));
+
+      expect(lines()).toEqual([
+        {
+          summary: {
+            success: false,
+            count: 0,
+            error: { code: ErrorCode.TASK_NOT_FOUND, message: "gone" },
+          },
+        },
+      ]);
+    });
+  });
+
+  describe("outputNdjsonPages", () => {
+    let writeSpy: MockInstance<typeof process.stdout.write>;
+
+    beforeEach(() => {
+      writeSpy = vi.spyOn(process.stdout, "write").mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      writeSpy.mockRestore();
+    });
+
+    const written = (): unknown[] =>
+      writeSpy.mock.calls.map((call) => {
+        const line = call[0] as string;
+        expect(line.endsWith("\n")).toBe(true);
+        return JSON.parse(line) as unknown;
+      });
+
+    it("writes each page as it arrives, then a summary", async () => {
+      const seen: string[] = [];
+      async function* pages(): AsyncGenerator<unknown[]> {
+        seen.push("page 1");
+        yield [{ id: "a" }, { id: "b" }];
+        // The first page is on stdout before the second is requested.
+        seen.push(`written ${String(writeSpy.mock.calls.length)}`);
+        yield [{ id: "c" }];
+      }
+
+      const ok = await outputNdjsonPages(pages());
+
+      expect(ok).toBe(true);
+      expect(seen).toEqual(["page 1", "written 2"]);
+      expect(written()).toEqual([
+        { id: "a" },
+        { id: "b" },
+        { id: "c" },
+        {
+          summary: {
+            success: true,
+            count: 3,
+            kind: "list",
+            totalCount: 3,
+            hasMore: false,
+            pages: 2,
+          },
+        },
+      ]);
+    });
+
+    it("ends with a failed summary when a page fails", async () => {
+      async function* pages(): AsyncGenerator<unknown[]> {
+        yield [{ id: "a" }];
+        await Promise.resolve();
+        throw new PaginationError(
+          createError(ErrorCode.OMNIFOCUS_NOT_RUNNING, "quit")
+        );
+      }
+
+      const ok = await outputNdjsonPages(pages());
+
+      expect(ok).toBe(false);
+      expect(written()).toEqual([
+        { id: "a" },
+        {
+          summary: {
+            success: false,
+            count: 1,
+            kind: "list",
+            pages: 1,
+            error: { code: ErrorCode.OMNIFOCUS_NOT_RUNNING, message: "quit" },
+          },
+        },
+      ]);
+    });
+  });
+
+  // -------------------------------------------------------------------------
+  // CSV / TSV output
+  // -------------------------------------------------------------------------
+
+  describe("CSV and TSV output", () => {
+    const written = (): string[] =>
+      consoleLogSpy.mock.calls.map((call) => call[0] as string);
+
+    const list = (items: Record<string, unknown>[]) =>
+      success({
+        kind: "list" as const,
+        items,
+        totalCount: items.length,
+        returnedCount: items.length,
+        hasMore: false,
+        offset: 0,
+        limit: 100,
+      });
+
+    it("uses the projected columns, in order, as the header", () => {
+      output(
+        list([
+          { id: "t1", name: "Buy milk", dueDate: null },
+          { id: "t2", name: "Pay bills", dueDate: "2026-05-01T00:00:00.000Z" },
+        ]),
+        "csv",
+        { columns: ["name", "id", "dueDate"] }
+      );
+
+      expect(written()).toEqual([
+        "name,id,dueDate",
+        "Buy milk,t1,",
+        "Pay bills,t2,2026-05-01T00:00:00.000Z",
+      ]);
+    });
+
+    it("writes the header even when no rows match", () => {
+      outputCsv(list([]), { columns: ["id", "name"] });
+      expect(written()).toEqual(["id,name"]);
+    });
+
+    it("joins array fields with the configured joiner", () => {
+      const result = list([{ name: "Call", tags: ["work", "phone"] }]);
+
+      outputCsv(result, { columns: ["name", "tags"] });
+      outputCsv(result, { columns: ["name", "tags"], joiner: "|" });
+
+      expect(written()).toEqual([
+        "name,tags",
+        "Call,work; phone",
+        "name,tags",
+        "Call,work|phone",
+      ]);
+    });
+
+    it("quotes CSV fields and escapes TSV fields that need it", () => {
+      const result = list([{ name: 'Say "hi", then\nleave', note: "a\tb\\c" }]);
+
+      outputCsv(result);
+      outputTsv(result);
+
+      expect(written()).toEqual([
+        "name,note",
+        '"Say ""hi"", then\nleave",a\tb\\c',
+        "name\tnote",
+        'Say "hi", then\\nleave\ta\\tb\\\\c',
+      ]);
+    });
+
+    it("flattens grouped results into a group column", () => {
+      outputCsv(
+        success({
+          kind: "groups",
+          groups: [
+            { key: "Home", count: 2, items: [{ name: "A" }, { name: "B" }] },
+            { key: "Work", count: 1, items: [{ name: "C" }] },
+          ],
+          totalCount: 3,
+        }),
+        { columns: ["name"] }
+      );
+      outputCsv(
+        success({
+          kind: "groups",
+          groups: [
+            { key: "Home", count: 2 },
+            { key: "Work", count: 1 },
+          ],
+          totalCount: 3,
+        }),
+        { columns: ["name"] }
+      );
+
+      expect(written()).toEqual([
+        "group,name",
+        "Home,A",
+        "Home,B",
+        "Work,C",
+        "group,count",
+        "Home,2",
+        "Work,1",
+      ]);
+    });
+
+    it("renders ids, counts and other payloads as small tables", () => {
+      outputTsv(success({ kind: "ids", ids: ["a", "b"] }));
+      outputTsv(success({ kind: "count", count: 4 }));
+      outputTsv(success({ taskId: "t1", changes: { flagged: true } }));
+
+      expect(written()).toEqual([
+        "id",
+        "a",
+        "b",
+        "count",
+        "4",
+        "taskId\tchanges",
+        't1\t{"flagged":true}',
+      ]);
+    });
+
+    it("writes failures to stderr and nothing to stdout", () => {
+      output(failure(createError(ErrorCode.TASK_NOT_FOUND, "gone")), "csv");
+
+      expect(consoleLogSpy).not.toHaveBeenCalled();
+      expect(consoleErrorSpy).toHaveBeenCalledWith("Error: gone");
+    });
+  });
+
   // -------------------------------------------------------------------------
   // Paginated results (regression suite — unchanged behavior for json/human)
   // -------------------------------------------------------------------------
@@ -4,6 +4,7 @@ import { z } from "zod";
 import {
   defineCommand,
   commaSeparatedStringArray,
+  taskFieldSpec,
   updateTaskDescriptor,
 } from "@ofocus/sdk";
 import { success, failure, ErrorCode, createError } from "@ofocus/sdk";
@@ -219,6 +220,75 @@ describe("registerCliCommand", () => {
     expect(process.exitCode).toBe(1);
   });
 
+  it("lets a stream handler take over output and page through the handler", async () => {
+    const handler = vi.fn(
+      async (input: { all?: boolean; limit?: number; offset?: number }) =>
+        await Promise.resolve(success({ page: input.offset }))
+    );
+    const onOutput = vi.fn();
+    const pages: unknown[] = [];
+
+    const program = new Command();
+    const cmd = defineCommand({
+      name: "things",
+      description: "List.",
+      inputSchema: z.object({
+        all: z.boolean().optional(),
+        limit: z.number().optional(),
+        offset: z.number().optional(),
+      }),
+      handler,
+    });
+
+    registerCliCommand(program, cmd, onOutput, async (runPage, input) => {
+      if (input["all"] !== true) return false;
+      pages.push((await runPage({ limit: 2, offset: 0 })).data);
+      pages.push((await runPage({ limit: 2, offset: 2 })).data);
+      return true;
+    });
+
+    await program.parseAsync(["node", "test", "things", "--all"]);
+    expect(onOutput).not.toHaveBeenCalled();
+    expect(pages).toEqual([{ page: 0 }, { page: 2 }]);
+    expect(handler).toHaveBeenCalledWith({ all: true, limit: 2, offset: 2 });
+
+    await program.parseAsync(["node", "test", "things", "--limit", "5"]);
+    expect(onOutput).toHaveBeenCalledOnce();
+    expect(handler).toHaveBeenLastCalledWith({ limit: 5 });
+  });
+
+  it("passes the projected columns to the output handler for list commands", async () => {
+    const onOutput = vi.fn();
+    const program = new Command();
+    const cmd = defineCommand({
+      name: "things",
+      description: "List.",
+      inputSchema: z.object({
+        fields: z.array(z.string()).optional(),
+        excludeFields: z.array(z.string()).optional(),
+      }),
+      fieldSpec: taskFieldSpec,
+      handler: async () => await Promise.resolve(success([])),
+    });
+    registerCliCommand(program, cmd, onOutput);
+
+    await program.parseAsync(["node", "test", "things"]);
+    expect(onOutput.mock.calls[0]?.[2]).toEqual(taskFieldSpec.defaultFields);
+
+    await program.parseAsync([
+      "node",
+      "test",
+      "things",
+      "--fields",
+      "tags",
+      "name",
+      "id",
+      "--exclude-fields",
+      "id",
+    ]);
+    expect(onOutput.mock.calls[1]?.[2]).toEqual(["tags", "name"]);
+  });
+
   it("sets process.exitCode to 1 when the handler returns failure", async () => {
     const handler = vi.fn(
       async () =>
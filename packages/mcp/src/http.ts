@@ -0,0 +1,400 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+/** Default host for HTTP mode: loopback only. */
+export const DEFAULT_HTTP_HOST = "127.0.0.1";
+
+/** Default port for HTTP mode. */
+export const DEFAULT_HTTP_PORT = 3333;
+
+/** Path the MCP endpoint is served on. */
+export const MCP_HTTP_PATH = "/mcp";
+
+/** Default idle time after which a session is closed: 30 minutes. */
+export const DEFAULT_SESSION_IDLE_MS = 30 * 60 * 1000;
+
+/** Default cap on open sessions. */
+export const DEFAULT_MAX_SESSIONS = 100;
+
+/** Longest gap between sweeps for idle sessions. */
+const MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** Largest JSON-RPC request body accepted, in bytes. */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+const LOOPBACK_HOSTS = new Set(["127.0.0.1", "::1", "localhost"]);
+
+/**
+ * Options for {@link startHttpServer}.
+ *
+ * @public
+ */
+export interface HttpServerOptions {
+  /** Interface to bind (default {@link DEFAULT_HTTP_HOST}). */
+  host?: string | undefined;
+  /** Port to listen on (default {@link DEFAULT_HTTP_PORT}; `0` picks a free one). */
+  port?: number | undefined;
+  /**
+   * Shared secret clients must send as `Authorization: Bearer <token>`.
+   * Required when binding to anything other than loopback.
+   */
+  token?: string | undefined;
+  /**
+   * Browser origins allowed to call the server (e.g. a local dashboard at
+   * `http://localhost:5173`). Requests with any other `Origin` are rejected;
+   * requests without one (non-browser clients) are unaffected.
+   */
+  corsOrigins?: readonly string[] | undefined;
+  /**
+   * Close a session after this long without a request and with no open
+   * stream, in milliseconds (default {@link DEFAULT_SESSION_IDLE_MS}).
+   */
+  sessionIdleMs?: number | undefined;
+  /**
+   * Most sessions open at once (default {@link DEFAULT_MAX_SESSIONS}); an
+   * `initialize` beyond it gets a 503.
+   */
+  maxSessions?: number | undefined;
+  /** Builds the MCP server for each new session. */
+  createServer: () => McpServer;
+}
+
+/**
+ * A running HTTP-mode server.
+ *
+ * @public
+ */
+export interface HttpServerHandle {
+  /** The endpoint URL, e.g. `http://127.0.0.1:3333/mcp`. */
+  url: string;
+  /** Number of open MCP sessions. */
+  sessionCount(): number;
+  /** Close every session and stop listening. */
+  close(): Promise<void>;
+}
+
+/** An open session and what the idle sweep needs to know about it. */
+interface Session {
+  transport: WebStandardStreamableHTTPServerTransport;
+  /** When the last request arrived or finished, from `Date.now()`. */
+  lastActive: number;
+  /** Requests still being served, including open SSE streams. */
+  pending: number;
+}
+
+/** Write a JSON-RPC error response that isn't tied to a request id. */
+function sendJsonRpcError(
+  res: ServerResponse,
+  status: number,
+  message: string,
+  headers: Record<string, string> = {}
+): void {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(
+    JSON.stringify({
+      jsonrpc: "2.0",
+      error: { code: -32000, message },
+      id: null,
+    })
+  );
+}
+
+/** Read and parse a JSON request body, or `undefined` if it isn't JSON. */
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request body too large");
+    chunks.push(buffer);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf-8")) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Constant-time check of the `Authorization: Bearer` header. */
+function authorized(req: IncomingMessage, token: string): boolean {
+  const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? "");
+  if (match?.[1] === undefined) return false;
+  const given = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Hand a Node request to a web-standard transport and stream its response
+ * (a JSON body or a long-lived SSE stream) back, cancelling the stream when
+ * the client disconnects.
+ */
+async function forward(
+  transport: WebStandardStreamableHTTPServerTransport,
+  req: IncomingMessage,
+  res: ServerResponse,
+  parsedBody?: unknown
+): Promise<void> {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === "string") headers.set(name, value);
+    else if (Array.isArray(value)) headers.set(name, value.join(", "));
+  }
+  const request = new Request(
+    new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`),
+    { method: req.method ?? "GET", headers }
+  );
+  const response = await transport.handleRequest(
+    request,
+    parsedBody === undefined ? {} : { parsedBody }
+  );
+
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  if (response.body === null) {
+    res.end();
+    return;
+  }
+  const reader = response.body.getReader();
+  res.on("close", () => {
+    void reader.cancel();
+  });
+  for (
+    let chunk = await reader.read();
+    !chunk.done;
+    chunk = await reader.read()
+  ) {
+    res.write(chunk.value);
+  }
+  res.end();
+}
+
+/**
+ * Apply the CORS allow-list. Returns `false` (after responding) when the
+ * request comes from a browser origin that isn't allowed.
+ */
+function applyCors(
+  req: IncomingMessage,
+  res: ServerResponse,
+  allowed: ReadonlySet<string>
+): boolean {
+  const origin = req.headers.origin;
+  if (origin === undefined) return true;
+  if (!allowed.has(origin)) {
+    sendJsonRpcError(res, 403, `Origin not allowed: ${origin}`);
+    return false;
+  }
+  res.setHeader("Access-Control-Allow-Origin", origin);
+  res.setHeader("Vary", "Origin");
+  res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+  res.setHeader(
+    "Access-Control-Allow-Headers",
+    "Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID"
+  );
+  res.setHeader("Access-Control-Expose-Headers", "Mcp-Session-Id");
+  return true;
+}
+
+/**
+ * Serve MCP over Streamable HTTP at {@link MCP_HTTP_PATH}, so several agents
+ * and a local dashboard can share one long-lived server process.
+ *
+ * Each client gets its own session (and its own {@link McpServer} from
+ * `options.createServer`), identified by the `Mcp-Session-Id` header the
+ * server issues on `initialize`. `DELETE` ends a session, and so does going
+ * `sessionIdleMs` without a request; once `maxSessions` are open, new clients
+ * get a 503. Every request is checked against the bearer token and the CORS
+ * allow-list first.
+ *
+ * Binds to loopback by default and refuses any other host without a token.
+ *
+ * @public
+ */
+export async function startHttpServer(
+  options: HttpServerOptions
+): Promise<HttpServerHandle> {
+  const host = options.host ?? DEFAULT_HTTP_HOST;
+  const token = options.token;
+  if (!LOOPBACK_HOSTS.has(host) && (token === undefined || token === "")) {
+    throw new Error(
+      `Refusing to listen on ${host} without a token; pass --token or bind to ${DEFAULT_HTTP_HOST}`
+    );
+  }
+  const corsOrigins = new Set(options.corsOrigins ?? []);
+  const idleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+  const maxSessions = options.maxSessions ?? DEFAULT_MAX_SESSIONS;
+  const sessions = new Map<string, Session>();
+  /** Initialize requests in flight, each holding a slot under `maxSessions`. */
+  let initializing = 0;
+
+  /** Forward a request within a session, keeping it alive meanwhile. */
+  const forwardInSession = async (
+    session: Session,
+    req: IncomingMessage,
+    res: ServerResponse,
+    parsedBody?: unknown
+  ): Promise<void> => {
+    session.pending++;
+    session.lastActive = Date.now();
+    try {
+      await forward(session.transport, req, res, parsedBody);
+    } finally {
+      session.pending--;
+      session.lastActive = Date.now();
+    }
+  };
+
+  const sweep = setInterval(
+    () => {
+      const cutoff = Date.now() - idleMs;
+      for (const session of sessions.values()) {
+        if (session.pending === 0 && session.lastActive <= cutoff) {
+          // onclose removes it from the map.
+          void session.transport.close();
+        }
+      }
+    },
+    Math.min(idleMs, MAX_SWEEP_INTERVAL_MS)
+  );
+  sweep.unref();
+
+  const handle = async (
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> => {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+    if (path !== MCP_HTTP_PATH) {
+      sendJsonRpcError(res, 404, `Not found: ${path}`);
+      return;
+    }
+    if (!applyCors(req, res, corsOrigins)) return;
+    if (req.method === "OPTIONS") {
+      res.writeHead(204).end();
+      return;
+    }
+    if (token !== undefined && token !== "" && !authorized(req, token)) {
+      sendJsonRpcError(res, 401, "Unauthorized", {
+        "WWW-Authenticate": "Bearer",
+      });
+      return;
+    }
+
+    const sessionId = req.headers["mcp-session-id"];
+    const existing =
+      typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+      if (existing !== undefined) {
+        await forwardInSession(existing, req, res, body);
+        return;
+      }
+      if (sessionId === undefined && isInitializeRequest(body)) {
+        if (sessions.size + initializing >= maxSessions) {
+          sendJsonRpcError(
+            res,
+            503,
+            `Too many sessions (${String(maxSessions)}); end one or retry later`
+          );
+          return;
+        }
+        const transport = new WebStandardStreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          onsessioninitialized: (id) => {
+            sessions.set(id, { transport, lastActive: Date.now(), pending: 0 });
+          },
+        });
+        transport.onclose = () => {
+          if (transport.sessionId !== undefined) {
+            sessions.delete(transport.sessionId);
+          }
+        };
+        const mcpServer = options.createServer();
+        initializing++;
+        try {
+          await mcpServer.connect(transport);
+          await forward(transport, req, res, body);
+        } finally {
+          initializing--;
+          // A failed initialize never registers a session, so nothing else
+          // would close its transport and server.
+          if (
+            transport.sessionId === undefined ||
+            !sessions.has(transport.sessionId)
+          ) {
+            await transport.close();
+            await mcpServer.close();
+          }
+        }
+        return;
+      }
+    } else if (
+      (req.method === "GET" || req.method === "DELETE") &&
+      existing !== undefined
+    ) {
+      await forwardInSession(existing, req, res);
+      return;
+    } else if (req.method !== "GET" && req.method !== "DELETE") {
+      sendJsonRpcError(res, 405, "Method not allowed", {
+        Allow: "GET, POST, DELETE, OPTIONS",
+      });
+      return;
+    }
+
+    if (sessionId === undefined) {
+      sendJsonRpcError(
+        res,
+        400,
+        "Bad Request: no session; send initialize first"
+      );
+    } else {
+      sendJsonRpcError(res, 404, "Session not found");
+    }
+  };
+
+  const server: Server = createHttpServer((req, res) => {
+    handle(req, res).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      if (!res.headersSent) sendJsonRpcError(res, 500, message);
+      else res.end();
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? DEFAULT_HTTP_PORT, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  const { port } = server.address() as AddressInfo;
+  const urlHost = host.includes(":") ? `[${host}]` : host;
+
+  return {
+    url: `http://${urlHost}:${String(port)}${MCP_HTTP_PATH}`,
+    sessionCount: () => sessions.size,
+    close: async () => {
+      clearInterval(sweep);
+      await Promise.all(
+        [...sessions.values()].map((session) => session.transport.close())
+      );
+      server.closeIdleConnections();
+      await new Promise<void>((resolve, reject) => {
+        server.close((error) => {
+          if (error) reject(error);
+          else resolve();
+        });
+      });
+    },
+  };
+}
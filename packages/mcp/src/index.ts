@@ -3,9 +3,19 @@ import { pathToFileURL } from "node:url";
 import { resolve, dirname, join } from "node:path";
 import { readFileSync } from "node:fs";
 import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { registerAllTools } from "./tools/index.js";
+import { registerAllResources } from "./resources/index.js";
+import { registerAllPrompts } from "./prompts/index.js";
+import {
+  DEFAULT_HTTP_HOST,
+  DEFAULT_HTTP_PORT,
+  DEFAULT_MAX_SESSIONS,
+  DEFAULT_SESSION_IDLE_MS,
+  startHttpServer,
+} from "./http.js";
 
 // Read version from package.json with safe fallback
 const DEFAULT_VERSION = "0.0.0";
@@ -26,7 +36,14 @@ const VERSION = getVersionSafely();
 
 // Re-export for programmatic use
 export { registerAllTools } from "./tools/index.js";
+export { registerAllResources } from "./resources/index.js";
+export { registerAllPrompts } from "./prompts/index.js";
 export { formatResult } from "./utils.js";
+export {
+  startHttpServer,
+  type HttpServerOptions,
+  type HttpServerHandle,
+} from "./http.js";
 
 /**
  * Create and configure a new MCP server instance.
@@ -37,14 +54,95 @@ export function createServer(): McpServer {
     version: VERSION,
   });
   registerAllTools(server);
+  registerAllResources(server);
+  registerAllPrompts(server);
   return server;
 }
 
+const USAGE = `Usage: ofocus-mcp [--http] [--host <host>] [--port <port>]
+                  [--token <secret>] [--cors-origin <origin>]...
+                  [--session-ttl <seconds>] [--max-sessions <n>]
+
+Serves MCP on stdio, or with --http over Streamable HTTP at /mcp.
+
+  --http                 Serve over HTTP instead of stdio
+  --host <host>          Interface to bind (default ${DEFAULT_HTTP_HOST})
+  --port <port>          Port to listen on (default ${String(DEFAULT_HTTP_PORT)})
+  --token <secret>       Require "Authorization: Bearer <secret>"
+                         (default: $OFOCUS_MCP_TOKEN)
+  --cors-origin <origin> Allow browser requests from this origin (repeatable)
+  --session-ttl <seconds>
+                         Close sessions idle this long (default ${String(DEFAULT_SESSION_IDLE_MS / 1000)})
+  --max-sessions <n>     Refuse new sessions beyond this many (default ${String(DEFAULT_MAX_SESSIONS)})
+`;
+
 async function main(): Promise<void> {
-  const server = createServer();
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("OFocus MCP server running on stdio");
+  const { values } = parseArgs({
+    options: {
+      http: { type: "boolean", default: false },
+      host: { type: "string" },
+      port: { type: "string" },
+      token: { type: "string" },
+      "cors-origin": { type: "string", multiple: true },
+      "session-ttl": { type: "string" },
+      "max-sessions": { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  if (!values.http) {
+    const server = createServer();
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    console.error("OFocus MCP server running on stdio");
+    return;
+  }
+
+  const port = values.port === undefined ? undefined : Number(values.port);
+  if (port !== undefined && (!Number.isInteger(port) || port < 0)) {
+    throw new Error(`Invalid --port: ${values.port ?? ""}`);
+  }
+  const ttl =
+    values["session-ttl"] === undefined
+      ? undefined
+      : Number(values["session-ttl"]);
+  if (ttl !== undefined && !(ttl > 0)) {
+    throw new Error(`Invalid --session-ttl: ${values["session-ttl"] ?? ""}`);
+  }
+  const maxSessions =
+    values["max-sessions"] === undefined
+      ? undefined
+      : Number(values["max-sessions"]);
+  if (
+    maxSessions !== undefined &&
+    (!Number.isInteger(maxSessions) || maxSessions < 1)
+  ) {
+    throw new Error(`Invalid --max-sessions: ${values["max-sessions"] ?? ""}`);
+  }
+  const handle = await startHttpServer({
+    host: values.host,
+    port,
+    token: values.token ?? process.env["OFOCUS_MCP_TOKEN"],
+    corsOrigins: values["cors-origin"],
+    sessionIdleMs: ttl === undefined ? undefined : ttl * 1000,
+    maxSessions,
+    createServer,
+  });
+  console.error(`OFocus MCP server listening on ${handle.url}`);
+
+  const shutdown = (): void => {
+    handle.close().then(
+      () => process.exit(0),
+      () => process.exit(1)
+    );
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
 }
 
 // Only run when executed directly, not when imported as a module
@@ -0,0 +1,9 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerWorkflowPrompts } from "./workflows.js";
+
+/**
+ * Register all OFocus MCP prompts with the server.
+ */
+export function registerAllPrompts(server: McpServer): void {
+  registerWorkflowPrompts(server);
+}
@@ -0,0 +1,281 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  type GetPromptResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+  type OFProject,
+  type OFTask,
+  type QueryResult,
+  getStats,
+  queryProjects,
+  queryProjectsForReview,
+  queryTags,
+  queryTasks,
+} from "@ofocus/sdk";
+import { parseBudget, todayDescriptor } from "@ofocus/productivity";
+import { unwrapResult } from "../utils.js";
+
+/** Inbox items included in `inbox_triage` when no limit is given. */
+const DEFAULT_INBOX_LIMIT = 25;
+
+/** Items of a list-shaped query result. */
+function itemsOf<T>(result: QueryResult<T>): T[] {
+  return result.kind === "list" ? result.items : [];
+}
+
+/** A fenced JSON block for embedding live data in a prompt. */
+function jsonBlock(value: unknown): string {
+  return "```json\n" + JSON.stringify(value, null, 2) + "\n```";
+}
+
+/** A single user message built from prompt paragraphs. */
+function userPrompt(description: string, parts: string[]): GetPromptResult {
+  return {
+    description,
+    messages: [
+      { role: "user", content: { type: "text", text: parts.join("\n\n") } },
+    ],
+  };
+}
+
+/** Parse a positive integer prompt argument, or throw `InvalidParams`. */
+function positiveInt(value: string, name: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${name} must be a positive integer, got: ${value}`
+    );
+  }
+  return n;
+}
+
+/**
+ * IDs of the projects in `folder` (transitively), for scoping by folder name
+ * or ID.
+ */
+async function projectIdsInFolder(folder: string): Promise<Set<string>> {
+  const data = unwrapResult(
+    await queryProjects({ folder, idsOnly: true }),
+    "projects"
+  );
+  return new Set(data.kind === "ids" ? data.ids : []);
+}
+
+/**
+ * `weekly_review`: the projects due for review (optionally within a folder)
+ * and this week's completion stats, with the steps of a GTD weekly review.
+ */
+async function weeklyReview(args: {
+  folder?: string | undefined;
+}): Promise<GetPromptResult> {
+  let projects: OFProject[] = unwrapResult(
+    await queryProjectsForReview(),
+    "projects for review"
+  );
+  if (args.folder !== undefined) {
+    const inFolder = await projectIdsInFolder(args.folder);
+    projects = projects.filter((p) => inFolder.has(p.id));
+  }
+  const stats = unwrapResult(await getStats({ period: "week" }), "stats");
+  const scope =
+    args.folder === undefined ? "" : ` in the "${args.folder}" folder`;
+
+  return userPrompt("Weekly review of OmniFocus projects", [
+    `Walk me through my weekly review. ${String(projects.length)} project(s)${scope} are due for review.`,
+    "Go through them one at a time, in order. For each project:",
+    [
+      "1. Summarize its status and remaining tasks.",
+      "2. Ask whether it is still active, should be put on hold, or is done or dropped.",
+      "3. Make sure it has a clear next action; offer to add one with `inbox_add` or `task_update` if not.",
+      "4. When I'm done with it, mark it reviewed with `project_review`.",
+    ].join("\n"),
+    "Finish with a short summary of the week using the stats below: what got done, what is overdue, and anything that needs attention next week.",
+    `Projects due for review:\n${jsonBlock(projects)}`,
+    `This week's stats:\n${jsonBlock(stats)}`,
+  ]);
+}
+
+/**
+ * `inbox_triage`: inbox tasks plus the active tags and projects (optionally
+ * within a folder) to file them under.
+ */
+async function inboxTriage(args: {
+  folder?: string | undefined;
+  limit?: string | undefined;
+}): Promise<GetPromptResult> {
+  const limit =
+    args.limit === undefined
+      ? DEFAULT_INBOX_LIMIT
+      : positiveInt(args.limit, "limit");
+  const inbox = unwrapResult(
+    await queryTasks({
+      inInbox: true,
+      notCompleted: true,
+      dropped: false,
+      limit,
+      fields: ["id", "name", "note", "flagged", "dueDate", "deferDate", "tags"],
+    }),
+    "inbox"
+  );
+  const projects = unwrapResult(
+    await queryProjects({
+      status: "active",
+      folder: args.folder,
+      all: true,
+      fields: ["id", "name", "folderName"],
+    }),
+    "projects"
+  );
+  const tags = unwrapResult(
+    await queryTags({ status: "active", all: true, fields: ["id", "name"] }),
+    "tags"
+  );
+  const items: OFTask[] = itemsOf(inbox);
+  const more =
+    inbox.kind === "list" && inbox.hasMore
+      ? ` (the first ${String(limit)}; more remain)`
+      : "";
+
+  return userPrompt("Triage the OmniFocus inbox", [
+    `Help me triage my inbox: ${String(items.length)} item(s)${more}.`,
+    "For each item, propose one of:",
+    [
+      "- File it: a project from the list below, tags, and a due date, defer date or estimate if the name suggests one.",
+      "- Do it now, if it takes under two minutes (`task_complete` once I confirm).",
+      "- Delete it if it's no longer relevant (`task_delete`).",
+    ].join("\n"),
+    "Only use projects and tags from the lists below; suggest creating a new one if nothing fits. Present the proposals as a table, wait for my confirmation, then apply them with `tasks_update_batch` or `task_update`.",
+    `Inbox:\n${jsonBlock(items)}`,
+    `Active projects${args.folder === undefined ? "" : ` in "${args.folder}"`}:\n${jsonBlock(itemsOf(projects))}`,
+    `Tags:\n${jsonBlock(itemsOf(tags))}`,
+  ]);
+}
+
+/**
+ * `plan_my_day`: the `today` digest with each task's estimate, planned
+ * against an optional time budget.
+ */
+async function planMyDay(args: {
+  budget?: string | undefined;
+}): Promise<GetPromptResult> {
+  let budget: number | null = null;
+  if (args.budget !== undefined) {
+    budget = parseBudget(args.budget);
+    if (budget === null) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Invalid budget: ${args.budget} (expected e.g. "90m", "3h" or "2h30m")`
+      );
+    }
+  }
+
+  const digest = unwrapResult(await todayDescriptor.handler({}), "today");
+  const taskIds = [
+    ...digest.overdue,
+    ...digest.dueToday,
+    ...digest.flagged,
+  ].map((t) => t.id);
+  const estimates = new Map<string, number | null>();
+  if (taskIds.length > 0) {
+    const result = unwrapResult(
+      await queryTasks({
+        id: taskIds,
+        all: true,
+        fields: ["id", "estimatedMinutes"],
+      }),
+      "estimates"
+    );
+    for (const t of itemsOf(result)) estimates.set(t.id, t.estimatedMinutes);
+  }
+  const estimated = <T extends { id: string }>(items: T[]) =>
+    items.map((t) => ({ ...t, estimatedMinutes: estimates.get(t.id) ?? null }));
+  const withEstimates = {
+    ...digest,
+    overdue: estimated(digest.overdue),
+    dueToday: estimated(digest.dueToday),
+    flagged: estimated(digest.flagged),
+  };
+
+  const budgetLine =
+    budget === null
+      ? "I haven't set a time budget, so ask me how much time I have before committing to a plan."
+      : `I have ${String(budget)} minutes available. Keep the plan within that: add up the estimates, and for tasks without one, assume 30 minutes and say so.`;
+
+  return userPrompt("Plan the day in OmniFocus", [
+    `Help me plan my day (${digest.date}).`,
+    budgetLine,
+    [
+      "Build the plan in this order:",
+      "1. Overdue tasks — for each, decide with me whether to do it today, defer it (`task_defer`) or drop it (`task_drop`).",
+      "2. Tasks due today.",
+      "3. Flagged tasks, as time allows.",
+    ].join("\n"),
+    "Present the plan as an ordered list with estimates and a running total, then list what didn't fit and suggest when to defer it to.",
+    `Today:\n${jsonBlock(withEstimates)}`,
+  ]);
+}
+
+/**
+ * Register the guided-workflow prompts. Each gathers live data when the
+ * client requests it, so the agent starts from the current state without
+ * spending tool calls.
+ */
+export function registerWorkflowPrompts(server: McpServer): void {
+  server.registerPrompt(
+    "weekly_review",
+    {
+      title: "Weekly review",
+      description:
+        "Guided GTD weekly review of the projects due for review, with this week's completion stats.",
+      argsSchema: {
+        folder: z
+          .string()
+          .optional()
+          .describe("Only review projects in this folder (name or ID)"),
+      },
+    },
+    weeklyReview
+  );
+
+  server.registerPrompt(
+    "inbox_triage",
+    {
+      title: "Inbox triage",
+      description:
+        "File, do or delete each inbox item, with the active projects and tags to file them under.",
+      argsSchema: {
+        folder: z
+          .string()
+          .optional()
+          .describe("Only suggest projects in this folder (name or ID)"),
+        limit: z
+          .string()
+          .optional()
+          .describe(
+            `Maximum number of inbox items to include (default ${String(DEFAULT_INBOX_LIMIT)})`
+          ),
+      },
+    },
+    inboxTriage
+  );
+
+  server.registerPrompt(
+    "plan_my_day",
+    {
+      title: "Plan my day",
+      description:
+        "Plan today from the overdue, due-today and flagged tasks, within a time budget.",
+      argsSchema: {
+        budget: z
+          .string()
+          .optional()
+          .describe('Time available today, e.g. "90m", "3h" or "2h30m"'),
+      },
+    },
+    planMyDay
+  );
+}
@@ -0,0 +1,182 @@
+import {
+  type McpServer,
+  ResourceTemplate,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ErrorCode,
+  McpError,
+  type ReadResourceResult,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  type CliOutput,
+  listPerspectives,
+  projectFieldSpec,
+  queryPerspective,
+  queryProjects,
+  queryTasks,
+  taskFieldSpec,
+} from "@ofocus/sdk";
+import { todayDescriptor } from "@ofocus/productivity";
+import { unwrapResult } from "../utils.js";
+
+/** URI of the today digest resource. */
+export const TODAY_URI = "omnifocus://today";
+
+const JSON_MIME_TYPE = "application/json";
+
+/** Serialize `value` as the single JSON content block of `uri`. */
+function jsonContents(uri: URL, value: unknown): ReadResourceResult {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: JSON_MIME_TYPE,
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
+
+/**
+ * Template variables arrive as `string | string[]`; entity URIs only ever
+ * carry a single value, decoded from its percent-encoding.
+ */
+function variable(value: string | string[] | undefined): string {
+  const raw = Array.isArray(value) ? value[0] : value;
+  return decodeURIComponent(raw ?? "");
+}
+
+/**
+ * Read the single item matching `id`, or throw `InvalidParams` naming the
+ * missing entity.
+ */
+function single<T>(
+  result: CliOutput<{ kind: string; item?: T | null }>,
+  entity: string,
+  id: string
+): T {
+  const data = unwrapResult(result, entity.toLowerCase());
+  if (data.kind !== "single" || data.item === null || data.item === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, `${entity} not found: ${id}`);
+  }
+  return data.item;
+}
+
+/**
+ * Register the OmniFocus entity resources:
+ *
+ * - `omnifocus://today` — the `today` digest (overdue, due today, flagged).
+ * - `omnifocus://task/{id}` — every field of one task.
+ * - `omnifocus://project/{id}` — every field of one project; listed for
+ *   active projects.
+ * - `omnifocus://perspective/{name}` — the tasks a perspective shows; listed
+ *   for every perspective, with name completion.
+ *
+ * Each read runs the matching SDK query, so contents are always live.
+ */
+export function registerEntityResources(server: McpServer): void {
+  server.registerResource(
+    "today",
+    TODAY_URI,
+    {
+      title: "Today",
+      description:
+        "What needs attention today: overdue, due today and flagged tasks.",
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri) =>
+      jsonContents(
+        uri,
+        unwrapResult(await todayDescriptor.handler({}), "today")
+      )
+  );
+
+  server.registerResource(
+    "task",
+    new ResourceTemplate("omnifocus://task/{id}", { list: undefined }),
+    {
+      title: "Task",
+      description: "Every field of the OmniFocus task with this ID.",
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const id = variable(variables["id"]);
+      const result = await queryTasks({
+        id,
+        fields: Object.keys(taskFieldSpec.fields),
+        first: true,
+      });
+      return jsonContents(uri, single(result, "Task", id));
+    }
+  );
+
+  server.registerResource(
+    "project",
+    new ResourceTemplate("omnifocus://project/{id}", {
+      list: async () => {
+        const data = unwrapResult(
+          await queryProjects({ status: "active", all: true }),
+          "projects"
+        );
+        const projects = data.kind === "list" ? data.items : [];
+        return {
+          resources: projects.map((p) => ({
+            uri: `omnifocus://project/${encodeURIComponent(p.id)}`,
+            name: p.name,
+            mimeType: JSON_MIME_TYPE,
+          })),
+        };
+      },
+    }),
+    {
+      title: "Project",
+      description: "Every field of the OmniFocus project with this ID.",
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const id = variable(variables["id"]);
+      const result = await queryProjects({
+        id,
+        fields: Object.keys(projectFieldSpec.fields),
+        first: true,
+      });
+      return jsonContents(uri, single(result, "Project", id));
+    }
+  );
+
+  const perspectiveNames = async (): Promise<string[]> =>
+    unwrapResult(await listPerspectives(), "perspectives").map((p) => p.name);
+
+  server.registerResource(
+    "perspective",
+    new ResourceTemplate("omnifocus://perspective/{name}", {
+      list: async () => ({
+        resources: (await perspectiveNames()).map((name) => ({
+          uri: `omnifocus://perspective/${encodeURIComponent(name)}`,
+          name,
+          mimeType: JSON_MIME_TYPE,
+        })),
+      }),
+      complete: {
+        name: async (value) => {
+          const prefix = value.toLowerCase();
+          return (await perspectiveNames()).filter((name) =>
+            name.toLowerCase().startsWith(prefix)
+          );
+        },
+      },
+    }),
+    {
+      title: "Perspective",
+      description: "The tasks the named OmniFocus perspective shows.",
+      mimeType: JSON_MIME_TYPE,
+    },
+    async (uri, variables) => {
+      const name = variable(variables["name"]);
+      return jsonContents(
+        uri,
+        unwrapResult(await queryPerspective(name), "perspective")
+      );
+    }
+  );
+}
@@ -0,0 +1,26 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerEntityResources } from "./entities.js";
+import {
+  type ResourceSubscriptionDeps,
+  type ResourceSubscriptions,
+  enableResourceSubscriptions,
+} from "./subscriptions.js";
+
+export { TODAY_URI } from "./entities.js";
+export {
+  DEFAULT_POLL_INTERVAL_MS,
+  type ResourceSubscriptionDeps,
+  type ResourceSubscriptions,
+} from "./subscriptions.js";
+
+/**
+ * Register all OFocus MCP resources with the server, with subscription
+ * support. Must be called before the server connects.
+ */
+export function registerAllResources(
+  server: McpServer,
+  deps?: ResourceSubscriptionDeps
+): ResourceSubscriptions {
+  registerEntityResources(server);
+  return enableResourceSubscriptions(server, deps);
+}
@@ -0,0 +1,114 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  type Fingerprint,
+  type WatchedClass,
+  fingerprintsEqual,
+  scanFingerprint,
+} from "@ofocus/productivity";
+
+/** How often subscribed resources are checked for changes by default. */
+export const DEFAULT_POLL_INTERVAL_MS = 15_000;
+
+/** Classes whose fingerprint covers every entity resource's contents. */
+const WATCHED: readonly WatchedClass[] = ["tasks", "projects"];
+
+/** Dependencies injected for testing; the server uses the real scanner. */
+export interface ResourceSubscriptionDeps {
+  scanFingerprint: (classes: readonly WatchedClass[]) => Promise<Fingerprint>;
+  /** Poll interval in milliseconds (default {@link DEFAULT_POLL_INTERVAL_MS}). */
+  intervalMs?: number;
+}
+
+/** Handle on the subscription poller wired up by {@link enableResourceSubscriptions}. */
+export interface ResourceSubscriptions {
+  /** URIs with at least one subscription, in subscription order. */
+  subscribed(): string[];
+  /**
+   * Compare the change-detection fingerprint with the previous poll and send
+   * `notifications/resources/updated` for every subscribed URI if it moved.
+   * The timer calls this; tests call it directly.
+   */
+  poll(): Promise<void>;
+  /** Stop polling. Called when the server closes. */
+  stop(): void;
+}
+
+/**
+ * Handle `resources/subscribe` and `resources/unsubscribe` on `server`.
+ *
+ * While anything is subscribed, the cheap fingerprint from the `changes`
+ * command (per-class counts, newest modification date and last sync) is
+ * polled; when it changes, every subscribed URI gets an update notification
+ * and the client re-reads what it needs. The fingerprint can't tell which
+ * entity changed, so notifications err on the side of too many. Polling
+ * stops while nothing is subscribed, and the baseline is taken at the first
+ * poll after a subscription.
+ *
+ * Must be called before the server connects, because it declares the
+ * `resources.subscribe` capability.
+ */
+export function enableResourceSubscriptions(
+  server: McpServer,
+  deps: ResourceSubscriptionDeps = { scanFingerprint }
+): ResourceSubscriptions {
+  const uris = new Set<string>();
+  const intervalMs = deps.intervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let last: Fingerprint | null = null;
+  let polling = false;
+
+  const stop = (): void => {
+    if (timer !== null) clearInterval(timer);
+    timer = null;
+    last = null;
+  };
+
+  const poll = async (): Promise<void> => {
+    if (polling || uris.size === 0) return;
+    polling = true;
+    try {
+      const fingerprint = await deps.scanFingerprint(WATCHED);
+      const previous = last;
+      last = fingerprint;
+      if (previous === null || fingerprintsEqual(previous, fingerprint)) return;
+      for (const uri of uris) {
+        await server.server.sendResourceUpdated({ uri });
+      }
+    } catch {
+      // OmniFocus unavailable or the client went away — try again next tick.
+    } finally {
+      polling = false;
+    }
+  };
+
+  server.server.registerCapabilities({ resources: { subscribe: true } });
+
+  server.server.setRequestHandler(SubscribeRequestSchema, (request) => {
+    uris.add(request.params.uri);
+    if (timer === null) {
+      timer = setInterval(() => void poll(), intervalMs);
+      // Don't keep the process alive just to poll.
+      timer.unref();
+      void poll();
+    }
+    return {};
+  });
+
+  server.server.setRequestHandler(UnsubscribeRequestSchema, (request) => {
+    uris.delete(request.params.uri);
+    if (uris.size === 0) stop();
+    return {};
+  });
+
+  const previousOnClose = server.server.onclose;
+  server.server.onclose = () => {
+    stop();
+    previousOnClose?.();
+  };
+
+  return { subscribed: () => [...uris], poll, stop };
+}
@@ -10,6 +10,9 @@ import {
   // Batch 6: Advanced command descriptors
   listPerspectivesDescriptor,
   queryPerspectiveDescriptor,
+  saveVirtualPerspectiveDescriptor,
+  getVirtualPerspectiveDescriptor,
+  deleteVirtualPerspectiveDescriptor,
   focusOnDescriptor,
   unfocusDescriptor,
   getFocusedDescriptor,
@@ -20,6 +23,9 @@ import {
   getTemplateDescriptor,
   createFromTemplateDescriptor,
   deleteTemplateDescriptor,
+  validateTemplateDescriptor,
+  exportTemplatesDescriptor,
+  importTemplatesDescriptor,
   addAttachmentDescriptor,
   listAttachmentsDescriptor,
   removeAttachmentDescriptor,
@@ -27,9 +33,26 @@ import {
   compactDatabaseDescriptor,
   exportTaskPaperDescriptor,
   importTaskPaperDescriptor,
+  exportICalDescriptor,
+  importICalDescriptor,
   generateUrlDescriptor,
   // Batch 7: task stragglers
   getStatsDescriptor,
+  // Undo journal
+  undoDescriptor,
+  redoDescriptor,
+  historyDescriptor,
+  // Saved queries
+  saveQueryDescriptor,
+  listSavedQueriesDescriptor,
+  getSavedQueryDescriptor,
+  deleteSavedQueryDescriptor,
+  runSavedQueryDescriptor,
+  addDependencyDescriptor,
+  removeDependencyDescriptor,
+  getTaskDependenciesDescriptor,
+  findDependencyCyclesDescriptor,
+  getCriticalPathDescriptor,
 } from "@ofocus/sdk";
 import { registerMcpTool } from "../registry-adapter.js";
 
@@ -42,6 +65,9 @@ export function registerAdvancedTools(server: McpServer): void {
   // Perspectives — registered from centralized descriptors in @ofocus/sdk
   registerMcpTool(server, listPerspectivesDescriptor);
   registerMcpTool(server, queryPerspectiveDescriptor);
+  registerMcpTool(server, saveVirtualPerspectiveDescriptor);
+  registerMcpTool(server, getVirtualPerspectiveDescriptor);
+  registerMcpTool(server, deleteVirtualPerspectiveDescriptor);
 
   // forecast — registered from the centralized descriptor in @ofocus/sdk
   registerMcpTool(server, queryForecastDescriptor);
@@ -70,6 +96,9 @@ export function registerAdvancedTools(server: McpServer): void {
   registerMcpTool(server, getTemplateDescriptor);
   registerMcpTool(server, createFromTemplateDescriptor);
   registerMcpTool(server, deleteTemplateDescriptor);
+  registerMcpTool(server, validateTemplateDescriptor);
+  registerMcpTool(server, exportTemplatesDescriptor);
+  registerMcpTool(server, importTemplatesDescriptor);
 
   // Attachments — registered from centralized descriptors in @ofocus/sdk
   registerMcpTool(server, addAttachmentDescriptor);
@@ -84,9 +113,32 @@ export function registerAdvancedTools(server: McpServer): void {
   registerMcpTool(server, exportTaskPaperDescriptor);
   registerMcpTool(server, importTaskPaperDescriptor);
 
+  // iCalendar import/export — registered from centralized descriptors in @ofocus/sdk
+  registerMcpTool(server, exportICalDescriptor);
+  registerMcpTool(server, importICalDescriptor);
+
   // URL generation — registered from the centralized descriptor in @ofocus/sdk
   registerMcpTool(server, generateUrlDescriptor);
 
   // Eval escape hatch — registered from the centralized descriptor in @ofocus/sdk
   registerMcpTool(server, evaluateScriptDescriptor);
+
+  // Undo journal — registered from centralized descriptors in @ofocus/sdk
+  registerMcpTool(server, undoDescriptor);
+  registerMcpTool(server, redoDescriptor);
+  registerMcpTool(server, historyDescriptor);
+
+  // Saved queries — registered from centralized descriptors in @ofocus/sdk
+  registerMcpTool(server, saveQueryDescriptor);
+  registerMcpTool(server, listSavedQueriesDescriptor);
+  registerMcpTool(server, getSavedQueryDescriptor);
+  registerMcpTool(server, deleteSavedQueryDescriptor);
+  registerMcpTool(server, runSavedQueryDescriptor);
+
+  // Task dependencies — registered from centralized descriptors in @ofocus/sdk
+  registerMcpTool(server, addDependencyDescriptor);
+  registerMcpTool(server, removeDependencyDescriptor);
+  registerMcpTool(server, getTaskDependenciesDescriptor);
+  registerMcpTool(server, findDependencyCyclesDescriptor);
+  registerMcpTool(server, getCriticalPathDescriptor);
 }
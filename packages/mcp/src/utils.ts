@@ -1,5 +1,9 @@
 import type { CliOutput } from "@ofocus/sdk";
-import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import {
+  type CallToolResult,
+  ErrorCode,
+  McpError,
+} from "@modelcontextprotocol/sdk/types.js";
 import { encode } from "@toon-format/toon";
 
 /**
@@ -84,3 +88,25 @@ function serializeValue(value: unknown, format: McpOutputFormat): string {
     return JSON.stringify(value, null, 2);
   }
 }
+
+/**
+ * Unwrap a successful SDK result or throw it as a JSON-RPC error carrying the
+ * SDK error in `data`. Resources and prompts have no `isError` result like
+ * tools do, so failures surface as protocol errors: missing entities and bad
+ * input are `InvalidParams`, anything else is an `InternalError`.
+ *
+ * @param result - The result from an SDK function call
+ * @param what - What was being read, for the fallback error message
+ */
+export function unwrapResult<T>(result: CliOutput<T>, what: string): T {
+  if (!result.success || result.data === null) {
+    const sdkCode = result.error?.code ?? "";
+    const code =
+      sdkCode.endsWith("_NOT_FOUND") || sdkCode === "VALIDATION_ERROR"
+        ? ErrorCode.InvalidParams
+        : ErrorCode.InternalError;
+    const message = result.error?.message ?? `Failed to read ${what}`;
+    throw new McpError(code, message, result.error);
+  }
+  return result.data;
+}
@@ -57,6 +57,9 @@ export const ADVANCED_TOOLS = [
   "task_move",
   "perspectives_list",
   "perspective_query",
+  "virtual_perspective_save",
+  "virtual_perspective_get",
+  "virtual_perspective_delete",
   "forecast",
   "focus_set",
   "focus_clear",
@@ -71,6 +74,9 @@ export const ADVANCED_TOOLS = [
   "template_get",
   "template_create_project",
   "template_delete",
+  "template_validate",
+  "template_export",
+  "template_import",
   "attachment_add",
   "attachments_list",
   "attachment_remove",
@@ -78,16 +84,37 @@ export const ADVANCED_TOOLS = [
   "compact_database",
   "export_taskpaper",
   "import_taskpaper",
+  "export_ical",
+  "import_ical",
   "generate_url",
   "omnifocus_eval",
+  "undo",
+  "redo",
+  "history",
+  "saved_query_save",
+  "saved_queries_list",
+  "saved_query_get",
+  "saved_query_delete",
+  "saved_query_run",
+  "dependency_add",
+  "dependency_remove",
+  "dependencies_get",
+  "dependency_cycles",
+  "critical_path",
 ] as const;
 
 export const PRODUCTIVITY_TOOLS = [
   "changes",
+  "sinks",
+  "timeline",
   "next_occurrences",
   "occurrences",
   "today",
   "this_week",
+  "plan_day",
+  "workload",
+  "procrastination",
+  "velocity",
   "resolve",
 ] as const;
 
@@ -0,0 +1,240 @@
+/**
+ * HTTP mode tests.
+ *
+ * Starts the Streamable HTTP server on a free loopback port and talks to it
+ * with the SDK's HTTP client transport and plain `fetch`.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { createServer } from "../src/index.js";
+import { startHttpServer, type HttpServerHandle } from "../src/http.js";
+
+const TOKEN = "s3cret";
+const DASHBOARD = "http://localhost:5173";
+
+let handle: HttpServerHandle;
+
+beforeEach(async () => {
+  handle = await startHttpServer({
+    port: 0,
+    token: TOKEN,
+    corsOrigins: [DASHBOARD],
+    createServer,
+  });
+});
+
+afterEach(async () => {
+  await handle.close();
+});
+
+function connect(token: string): Promise<Client> {
+  const client = new Client({ name: "test-client", version: "0.0.0" });
+  const transport = new StreamableHTTPClientTransport(new URL(handle.url), {
+    requestInit: { headers: { Authorization: `Bearer ${token}` } },
+  });
+  return client.connect(transport).then(() => client);
+}
+
+const initialize = {
+  jsonrpc: "2.0",
+  id: 1,
+  method: "initialize",
+  params: {
+    protocolVersion: "2025-06-18",
+    capabilities: {},
+    clientInfo: { name: "curl", version: "0.0.0" },
+  },
+};
+
+function post(
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  return fetch(handle.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json, text/event-stream",
+      Authorization: `Bearer ${TOKEN}`,
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+describe("startHttpServer", () => {
+  it("serves independent sessions to several clients", async () => {
+    expect(handle.url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/mcp$/);
+    const first = await connect(TOKEN);
+    const second = await connect(TOKEN);
+    expect(handle.sessionCount()).toBe(2);
+
+    const { tools } = await first.listTools();
+    expect(tools.length).toBeGreaterThan(40);
+    const { prompts } = await second.listPrompts();
+    expect(prompts.map((p) => p.name)).toContain("plan_my_day");
+
+    // terminateSession() sends the DELETE that ends the session.
+    const transport = first.transport as StreamableHTTPClientTransport;
+    await transport.terminateSession();
+    await first.close();
+    expect(handle.sessionCount()).toBe(1);
+    await second.close();
+  });
+
+  it("rejects requests without the bearer token", async () => {
+    const res = await post(initialize, { Authorization: "Bearer wrong" });
+    expect(res.status).toBe(401);
+    expect(res.headers.get("www-authenticate")).toBe("Bearer");
+    await expect(connect("wrong")).rejects.toThrow();
+    expect(handle.sessionCount()).toBe(0);
+  });
+
+  it("requires a session for anything but initialize", async () => {
+    const noSession = await post({
+      jsonrpc: "2.0",
+      id: 2,
+      method: "tools/list",
+    });
+    expect(noSession.status).toBe(400);
+
+    const unknown = await post(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { "Mcp-Session-Id": "nope" }
+    );
+    expect(unknown.status).toBe(404);
+
+    const init = await post(initialize);
+    expect(init.status).toBe(200);
+    expect(init.headers.get("mcp-session-id")).toMatch(/^[0-9a-f-]{36}$/);
+    await init.body?.cancel();
+  });
+
+  it("applies the CORS allow-list", async () => {
+    const preflight = await fetch(handle.url, {
+      method: "OPTIONS",
+      headers: { Origin: DASHBOARD },
+    });
+    expect(preflight.status).toBe(204);
+    expect(preflight.headers.get("access-control-allow-origin")).toBe(
+      DASHBOARD
+    );
+    expect(preflight.headers.get("access-control-expose-headers")).toBe(
+      "Mcp-Session-Id"
+    );
+
+    const allowed = await post(initialize, { Origin: DASHBOARD });
+    expect(allowed.status).toBe(200);
+    await allowed.body?.cancel();
+
+    const denied = await post(initialize, { Origin: "https://evil.example" });
+    expect(denied.status).toBe(403);
+  });
+
+  it("refuses new sessions once maxSessions are open", async () => {
+    await handle.close();
+    handle = await startHttpServer({
+      port: 0,
+      token: TOKEN,
+      maxSessions: 1,
+      createServer,
+    });
+
+    const first = await post(initialize);
+    expect(first.status).toBe(200);
+    await first.text();
+    const second = await post(initialize);
+    expect(second.status).toBe(503);
+    expect(handle.sessionCount()).toBe(1);
+  });
+
+  it("counts initializations in flight against maxSessions", async () => {
+    await handle.close();
+    handle = await startHttpServer({
+      port: 0,
+      token: TOKEN,
+      maxSessions: 1,
+      // Slow connects keep both initializations in flight at once.
+      createServer: () => {
+        const server = createServer();
+        const connect = server.connect.bind(server);
+        server.connect = async (transport) => {
+          await new Promise((resolve) => setTimeout(resolve, 50));
+          await connect(transport);
+        };
+        return server;
+      },
+    });
+
+    const responses = await Promise.all([post(initialize), post(initialize)]);
+    await Promise.all(responses.map((r) => r.text()));
+    expect(responses.map((r) => r.status).sort()).toEqual([200, 503]);
+    expect(handle.sessionCount()).toBe(1);
+  });
+
+  it("closes the server of an initialize that fails", async () => {
+    let closed = 0;
+    await handle.close();
+    handle = await startHttpServer({
+      port: 0,
+      token: TOKEN,
+      maxSessions: 1,
+      createServer: () => {
+        const server = createServer();
+        const close = server.close.bind(server);
+        server.close = async () => {
+          closed++;
+          await close();
+        };
+        return server;
+      },
+    });
+
+    // The transport refuses a client that can't take an event stream.
+    const refused = await post(initialize, { Accept: "application/json" });
+    expect(refused.status).toBe(406);
+    await refused.text();
+    expect(closed).toBe(1);
+    expect(handle.sessionCount()).toBe(0);
+
+    const retry = await post(initialize);
+    expect(retry.status).toBe(200);
+    await retry.text();
+    expect(closed).toBe(1);
+  });
+
+  it("closes sessions that go idle", async () => {
+    await handle.close();
+    handle = await startHttpServer({
+      port: 0,
+      token: TOKEN,
+      sessionIdleMs: 50,
+      createServer,
+    });
+
+    const init = await post(initialize);
+    const sessionId = init.headers.get("mcp-session-id") ?? "";
+    await init.text();
+    expect(handle.sessionCount()).toBe(1);
+
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(handle.sessionCount()).toBe(0);
+    const stale = await post(
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      { "Mcp-Session-Id": sessionId }
+    );
+    expect(stale.status).toBe(404);
+  });
+
+  it("only serves the MCP path", async () => {
+    const res = await fetch(handle.url.replace(/\/mcp$/, "/other"));
+    expect(res.status).toBe(404);
+  });
+
+  it("refuses to bind beyond loopback without a token", async () => {
+    await expect(
+      startHttpServer({ host: "0.0.0.0", port: 0, createServer })
+    ).rejects.toThrow("Refusing to listen on 0.0.0.0 without a token");
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * MCP prompt tests.
+ *
+ * Boots a server with the prompts registered over the in-memory transport and
+ * renders them against the SDK's fake OmniFocus transport, so the live data in
+ * each prompt comes from the real SDK queries.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  createFakeTransport,
+  resetOmniJSTransport,
+  setOmniJSTransport,
+  wrapOmniJS,
+} from "@ofocus/sdk";
+import { registerAllPrompts } from "../src/prompts/index.js";
+import { parseBudget } from "@ofocus/productivity";
+
+let client: Client;
+
+beforeEach(async () => {
+  const transport = createFakeTransport();
+  setOmniJSTransport(transport);
+  await transport.evaluate(
+    wrapOmniJS(`
+var work = new Folder("Work");
+var home = new Folder("Home");
+var launch = new Project("Launch", work);
+launch.nextReviewDate = new Date(Date.now() - 86400000);
+var garden = new Project("Garden", home);
+garden.nextReviewDate = new Date(Date.now() - 86400000);
+new Tag("errands");
+var overdue = new Task("Send invoice", launch.ending);
+overdue.dueDate = new Date(Date.now() - 86400000);
+overdue.estimatedMinutes = 20;
+var flagged = new Task("Call plumber", garden.ending);
+flagged.flagged = true;
+new Task("Buy stamps");
+new Task("Renew passport");
+return "{}";`)
+  );
+
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerAllPrompts(server);
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  client = new Client({ name: "test-client", version: "0.0.0" });
+  await client.connect(clientTransport);
+});
+
+afterEach(async () => {
+  await client.close();
+  resetOmniJSTransport();
+});
+
+/** Render a prompt and return the text of its single user message. */
+async function render(
+  name: string,
+  args: Record<string, string> = {}
+): Promise<string> {
+  const { messages } = await client.getPrompt({ name, arguments: args });
+  expect(messages).toHaveLength(1);
+  const content = messages[0]?.content;
+  return content?.type === "text" ? content.text : "";
+}
+
+describe("prompts", () => {
+  it("lists the workflow prompts with their arguments", async () => {
+    const { prompts } = await client.listPrompts();
+    expect(
+      prompts.map((p) => [p.name, p.arguments?.map((a) => a.name)])
+    ).toEqual([
+      ["weekly_review", ["folder"]],
+      ["inbox_triage", ["folder", "limit"]],
+      ["plan_my_day", ["budget"]],
+    ]);
+  });
+
+  it("weekly_review lists the projects due for review in the folder", async () => {
+    const all = await render("weekly_review");
+    expect(all).toContain("2 project(s) are due for review");
+
+    const work = await render("weekly_review", { folder: "Work" });
+    expect(work).toContain('1 project(s) in the "Work" folder');
+    expect(work).toContain('"name": "Launch"');
+    expect(work).not.toContain('"name": "Garden"');
+    expect(work).toContain("This week's stats:");
+    expect(work).toContain("`project_review`");
+  });
+
+  it("inbox_triage includes inbox items, projects and tags", async () => {
+    const text = await render("inbox_triage", { limit: "1" });
+    expect(text).toContain("1 item(s) (the first 1; more remain)");
+    expect(text).toContain('"name": "Buy stamps"');
+    expect(text).not.toContain('"name": "Renew passport"');
+    expect(text).toContain('"name": "Launch"');
+    expect(text).toContain('"name": "errands"');
+
+    const scoped = await render("inbox_triage", { folder: "Home" });
+    expect(scoped).toContain('"name": "Garden"');
+    expect(scoped).not.toContain('"name": "Launch"');
+  });
+
+  it("plan_my_day adds estimates and the time budget", async () => {
+    const text = await render("plan_my_day", { budget: "2h30m" });
+    expect(text).toContain("I have 150 minutes available.");
+    expect(text).toMatch(
+      /"name": "Send invoice",[\s\S]*"estimatedMinutes": 20/
+    );
+    expect(text).toMatch(
+      /"name": "Call plumber",[\s\S]*"estimatedMinutes": null/
+    );
+  });
+
+  it("rejects invalid arguments", async () => {
+    await expect(
+      client.getPrompt({ name: "plan_my_day", arguments: { budget: "soon" } })
+    ).rejects.toThrow("Invalid budget: soon");
+    await expect(
+      client.getPrompt({ name: "inbox_triage", arguments: { limit: "0" } })
+    ).rejects.toThrow("limit must be a positive integer");
+  });
+});
+
+describe("parseBudget", () => {
+  it("parses minutes, hours and combinations", () => {
+    expect(parseBudget("90")).toBe(90);
+    expect(parseBudget("45m")).toBe(45);
+    expect(parseBudget("1.5h")).toBe(90);
+    expect(parseBudget("2h 15min")).toBe(135);
+    expect(parseBudget("")).toBeNull();
+    expect(parseBudget("later")).toBeNull();
+  });
+});
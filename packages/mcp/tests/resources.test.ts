@@ -0,0 +1,156 @@
+/**
+ * MCP resource tests.
+ *
+ * Boots a server with the resources registered over the in-memory transport
+ * and reads them against the SDK's fake OmniFocus transport, so every read
+ * runs the real SDK query.
+ */
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import {
+  ResourceUpdatedNotificationSchema,
+  type TextResourceContents,
+} from "@modelcontextprotocol/sdk/types.js";
+import {
+  createFakeTransport,
+  resetOmniJSTransport,
+  setOmniJSTransport,
+  wrapOmniJS,
+  type FakeOmniJSTransport,
+} from "@ofocus/sdk";
+import { scanFingerprint } from "@ofocus/productivity";
+import {
+  registerAllResources,
+  type ResourceSubscriptions,
+} from "../src/resources/index.js";
+
+let transport: FakeOmniJSTransport;
+let ids: Record<string, string>;
+let client: Client;
+let subscriptions: ResourceSubscriptions;
+let updated: string[];
+
+beforeEach(async () => {
+  transport = createFakeTransport();
+  setOmniJSTransport(transport);
+  const { stdout } = await transport.evaluate(
+    wrapOmniJS(`
+var launch = new Project("Launch");
+var onHold = new Project("Someday");
+onHold.status = Project.Status.OnHold;
+var review = new Task("Review deck", launch.ending);
+review.flagged = true;
+review.estimatedMinutes = 30;
+return JSON.stringify({ launch: launch.id.primaryKey, review: review.id.primaryKey });`)
+  );
+  ids = JSON.parse(stdout) as Record<string, string>;
+
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  subscriptions = registerAllResources(server, {
+    scanFingerprint,
+    intervalMs: 60_000,
+  });
+  const [clientTransport, serverTransport] =
+    InMemoryTransport.createLinkedPair();
+  await server.connect(serverTransport);
+  client = new Client({ name: "test-client", version: "0.0.0" });
+  updated = [];
+  client.setNotificationHandler(ResourceUpdatedNotificationSchema, (n) => {
+    updated.push(n.params.uri);
+  });
+  await client.connect(clientTransport);
+});
+
+afterEach(async () => {
+  await client.close();
+  resetOmniJSTransport();
+});
+
+async function readJson(uri: string): Promise<unknown> {
+  const result = await client.readResource({ uri });
+  const [content] = result.contents as TextResourceContents[];
+  expect(content?.mimeType).toBe("application/json");
+  return JSON.parse(content?.text ?? "null");
+}
+
+describe("resources", () => {
+  it("lists the today digest, active projects and perspectives", async () => {
+    const { resources } = await client.listResources();
+    const uris = resources.map((r) => r.uri);
+    expect(uris).toContain("omnifocus://today");
+    expect(uris).toContain(`omnifocus://project/${ids["launch"] ?? ""}`);
+    expect(resources.find((r) => r.name === "Someday")).toBeUndefined();
+    expect(uris).toContain("omnifocus://perspective/Flagged");
+
+    const { resourceTemplates } = await client.listResourceTemplates();
+    expect(resourceTemplates.map((t) => t.uriTemplate).sort()).toEqual([
+      "omnifocus://perspective/{name}",
+      "omnifocus://project/{id}",
+      "omnifocus://task/{id}",
+    ]);
+  });
+
+  it("reads every field of a task", async () => {
+    const task = await readJson(`omnifocus://task/${ids["review"] ?? ""}`);
+    expect(task).toMatchObject({
+      id: ids["review"],
+      name: "Review deck",
+      flagged: true,
+      estimatedMinutes: 30,
+      projectName: "Launch",
+      completed: false,
+    });
+  });
+
+  it("reads a project", async () => {
+    const project = await readJson(
+      `omnifocus://project/${ids["launch"] ?? ""}`
+    );
+    expect(project).toMatchObject({ id: ids["launch"], name: "Launch" });
+  });
+
+  it("reads the today digest and a perspective", async () => {
+    const today = await readJson("omnifocus://today");
+    expect(today).toMatchObject({ counts: { flagged: 1 } });
+
+    const flagged = await readJson("omnifocus://perspective/Flagged");
+    expect(flagged).toEqual([
+      expect.objectContaining({ id: ids["review"], name: "Review deck" }),
+    ]);
+  });
+
+  it("completes perspective names", async () => {
+    const result = await client.complete({
+      ref: { type: "ref/resource", uri: "omnifocus://perspective/{name}" },
+      argument: { name: "name", value: "fl" },
+    });
+    expect(result.completion.values).toEqual(["Flagged"]);
+  });
+
+  it("rejects unknown entities", async () => {
+    await expect(
+      client.readResource({ uri: "omnifocus://task/nope" })
+    ).rejects.toThrow("Task not found: nope");
+  });
+
+  it("notifies subscribers when the change fingerprint moves", async () => {
+    const uri = `omnifocus://task/${ids["review"] ?? ""}`;
+    await client.subscribeResource({ uri });
+    expect(subscriptions.subscribed()).toEqual([uri]);
+
+    // Baseline, then nothing changed.
+    await subscriptions.poll();
+    await subscriptions.poll();
+    expect(updated).toEqual([]);
+
+    await transport.evaluate(wrapOmniJS(`new Task("New"); return "{}";`));
+    await subscriptions.poll();
+    await new Promise((r) => setTimeout(r, 0));
+    expect(updated).toEqual([uri]);
+
+    await client.unsubscribeResource({ uri });
+    expect(subscriptions.subscribed()).toEqual([]);
+  });
+});
@@ -5,6 +5,7 @@ import { encodeCursor } from "./cursor.js";
 import { diffSnapshots } from "./diff.js";
 import { fingerprintsEqual } from "./fingerprint.js";
 import { accumulatePending, clearPending, mergeChangeSets } from "./generation.js";
+import { type HistoryRecorder, historyRecorder } from "../history/store.js";
 import { scanFingerprint, scanWatched } from "./scan.js";
 import { summarize as semanticSummarize } from "./semantic.js";
 import {
@@ -40,6 +41,8 @@ export interface ChangesDeps {
   now?: string;
   /** Injected summarizer; the descriptor binds OFOCUS_SUMMARY_CMD. Returns {summary?|note?}. */
   summarize?: (packet: unknown) => Promise<{ summary?: string; note?: string }>;
+  /** Appends each detected diff to the opt-in history store (OFOCUS_HISTORY). */
+  recordHistory?: HistoryRecorder | undefined;
 }
 
 interface ChangesInput {
@@ -177,6 +180,9 @@ export async function runChanges(
       const advanced: CacheFile = { ...cache, snapshot, fingerprint, updatedAt: now };
       const next = accumulatePending(advanced, diff);
       writeCache(path, next);
+      if (!changeSetEmpty(diff)) {
+        deps.recordHistory?.(diff, { watch: name, generation: next.generation, at: now });
+      }
       return success(
         toOutput(next, emptyChangeSet(), {
           // Consistent with the --fresh path: "not modified" reflects the actual
@@ -201,6 +207,9 @@ export async function runChanges(
     };
     const next = clearPending(advanced);
     writeCache(path, next);
+    if (!changeSetEmpty(diff)) {
+      deps.recordHistory?.(diff, { watch: name, generation, at: now });
+    }
     return success(
       await attachSummary(
         toOutput(next, all, {
@@ -260,6 +269,7 @@ export const changesDescriptor = defineCommand({
       scanWatched,
       scanFingerprint,
       summarize: (packet) => semanticSummarize(packet, process.env["OFOCUS_SUMMARY_CMD"]),
+      recordHistory: historyRecorder(),
       now: new Date().toISOString(),
     }),
 });
@@ -4,6 +4,7 @@ import {
   type Snapshot,
   WATCHED_FIELDS,
   type WatchedClass,
+  type WatchedObject,
 } from "./types.js";
 
 /** OmniJS global collection name per class. */
@@ -19,30 +20,52 @@ const js = String.raw;
 /**
  * Build the OmniJS body that reads watched objects. `project.modified` is
  * undefined on the root project, so projects read `o.task.modified`
- * (spec §2). Dates are emitted as ISO strings for lexical comparison.
+ * (spec §2), and likewise `added`. Dates are emitted as ISO strings for
+ * lexical comparison. A task's `projectId` comes from `containingProject`,
+ * as tasks have no `projectId` property. Tasks also report whether they are
+ * dropped (from `taskStatus`, as tasks have no `dropped` property) and whether
+ * they have children.
  */
 export function buildScanScript(classes: readonly WatchedClass[]): string {
   const blocks = classes.map((cls) => {
     const fields = WATCHED_FIELDS[cls];
-    const modifiedExpr =
-      cls === "projects" ? "(o.task ? o.task.modified : o.modified)" : "o.modified";
+    const dateExpr = (name: string): string =>
+      cls === "projects" ? `(o.task ? o.task.${name} : o.${name})` : `o.${name}`;
+    const taskExtras =
+      cls === "tasks"
+        ? js`
+  var dropped = false;
+  try { dropped = o.taskStatus === Task.Status.Dropped; } catch (e) {}`
+        : "";
+    const taskProps = cls === "tasks" ? "\n    dropped: dropped,\n    hasChildren: o.hasChildren === true," : "";
     const fieldExprs = fields.map((f) =>
       f === "status" && cls === "projects"
         ? `status: projectStatusStr(o)`
-        : `${f}: readField(o, ${JSON.stringify(f)})`,
+        : f === "projectId" && cls === "tasks"
+          ? `projectId: taskProjectId(o)`
+          : `${f}: readField(o, ${JSON.stringify(f)})`,
     );
     return js`
 out.${cls} = ${COLLECTION[cls]}.map(function (o) {
-  var m = ${modifiedExpr};
+  var m = ${dateExpr("modified")};
+  var a = null;
+  try { a = ${dateExpr("added")} || null; } catch (e) {}${taskExtras}
   return {
     id: o.id.primaryKey,
     modified: m ? m.toISOString() : null,
+    added: a ? a.toISOString() : null,${taskProps}
     ${fieldExprs.join(",\n    ")}
   };
 });`;
   });
 
   return js`
+function taskProjectId(o) {
+  try {
+    var p = o.containingProject;
+    return p ? p.id.primaryKey : null;
+  } catch (e) { return null; }
+}
 function projectStatusStr(o) {
   try {
     if (o.status === Project.Status.OnHold) return "on-hold";
@@ -92,6 +115,9 @@ return JSON.stringify(out);`;
 interface RawRow {
   id: string;
   modified: string | null;
+  added?: string | null;
+  dropped?: boolean;
+  hasChildren?: boolean;
   [field: string]: unknown;
 }
 
@@ -103,13 +129,17 @@ export function parseScanResult(
   const snap: Snapshot = {};
   for (const cls of classes) {
     const rows = raw[cls] ?? [];
-    const objects: Record<
-      string,
-      { id: string; modified: string; fields: Record<string, unknown> }
-    > = {};
+    const objects: Record<string, WatchedObject> = {};
     for (const row of rows) {
-      const { id, modified, ...fields } = row;
-      objects[id] = { id, modified: modified ?? "", fields };
+      const { id, modified, added, dropped, hasChildren, ...fields } = row;
+      objects[id] = {
+        id,
+        modified: modified ?? "",
+        ...(typeof added === "string" ? { added } : {}),
+        ...(dropped === true ? { dropped } : {}),
+        ...(hasChildren === true ? { hasChildren } : {}),
+        fields,
+      };
     }
     snap[cls] = objects;
   }
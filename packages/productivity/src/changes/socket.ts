@@ -0,0 +1,82 @@
+import { existsSync, statSync, unlinkSync } from "node:fs";
+import { type Server, type Socket, connect, createServer } from "node:net";
+
+/** A Unix socket that fans NDJSON lines out to every connected client. */
+export interface EventSocket {
+  /** Write one line to every connected client. */
+  broadcast: (line: string) => void;
+  /** Number of connected clients. */
+  clientCount: () => number;
+  /** Disconnect all clients, stop listening and remove the socket file. */
+  close: () => Promise<void>;
+}
+
+/** True when something is accepting connections on the socket at `path`. */
+function socketInUse(path: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = connect(path);
+    probe.once("connect", () => {
+      probe.destroy();
+      resolve(true);
+    });
+    probe.once("error", () => {
+      resolve(false);
+    });
+  });
+}
+
+/**
+ * Listen on a Unix socket at `path` for `changes-watch --socket`. Clients
+ * (e.g. `nc -U <path>`) receive each line broadcast after they connect;
+ * anything they send is ignored.
+ *
+ * A stale socket file left by a crashed watcher is replaced. Throws if
+ * another process is still listening on `path`, or if `path` is a regular
+ * file.
+ */
+export async function listenEventSocket(path: string): Promise<EventSocket> {
+  if (existsSync(path)) {
+    if (!statSync(path).isSocket()) {
+      throw new Error(`Not a socket: ${path}`);
+    }
+    if (await socketInUse(path)) {
+      throw new Error(`Socket already in use: ${path}`);
+    }
+    unlinkSync(path);
+  }
+
+  const clients = new Set<Socket>();
+  const server: Server = createServer((client) => {
+    clients.add(client);
+    client.resume();
+    client.on("error", () => {
+      client.destroy();
+    });
+    client.on("close", () => {
+      clients.delete(client);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(path, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    broadcast: (line) => {
+      for (const client of clients) client.write(`${line}\n`);
+    },
+    clientCount: () => clients.size,
+    close: () =>
+      new Promise<void>((resolve) => {
+        for (const client of clients) client.destroy();
+        // server.close() removes the socket file once the server is down.
+        server.close(() => {
+          resolve();
+        });
+      }),
+  };
+}
@@ -32,6 +32,12 @@ export interface WatchedObject {
   id: string;
   /** ISO 8601 modification timestamp. */
   modified: string;
+  /** ISO 8601 creation timestamp, when OmniFocus reports one. Not diffed. */
+  added?: string;
+  /** Set on tasks that are dropped, directly or through a container. Not diffed. */
+  dropped?: true;
+  /** Set on tasks that have subtasks (action groups). Not diffed. */
+  hasChildren?: true;
   /** Watched field values (subset of the object, per WATCHED_FIELDS). */
   fields: Record<string, unknown>;
 }
@@ -71,6 +77,9 @@ export interface ChangedObject {
   delta?: Record<string, FieldDelta>;
 }
 
+/** How an object changed: the `ChangeSet` list it came from. */
+export type ChangeKind = "added" | "updated" | "removed";
+
 /** The result of diffing two snapshots (spec §6). */
 export interface ChangeSet {
   added: ChangedObject[];
@@ -0,0 +1,218 @@
+import { runChanges, type ChangesDeps } from "./command.js";
+import { type CacheFile, readCache, resolveCachePath, writeCache } from "./cache.js";
+import { encodeCursor } from "./cursor.js";
+import { diffSnapshots } from "./diff.js";
+import { fingerprintsEqual } from "./fingerprint.js";
+import { accumulatePending } from "./generation.js";
+import type { ChangeSet } from "./types.js";
+import { type Sink, resolveDeadLetterPath } from "../sinks/config.js";
+import type { DeliverDeps, SinkDelivery } from "../sinks/deliver.js";
+import { dispatchChanges } from "../sinks/dispatch.js";
+
+/** Default fingerprint poll cadence for `changes-watch`. */
+export const DEFAULT_WATCH_INTERVAL_MS = 5000;
+
+/** First event of a watch stream: the snapshot is loaded (or freshly baselined). */
+export interface WatchReadyEvent {
+  type: "ready";
+  watch: string;
+  generation: number;
+  cursor: string;
+  baselined: boolean;
+  at: string;
+}
+
+/** One non-empty diff, emitted as soon as a poll detects it. */
+export interface WatchChangesEvent {
+  type: "changes";
+  watch: string;
+  generation: number;
+  cursor: string;
+  summary: { added: number; updated: number; removed: number };
+  changes: ChangeSet;
+  at: string;
+}
+
+/** A failed poll. The watch keeps running and retries on the next tick. */
+export interface WatchErrorEvent {
+  type: "error";
+  watch: string;
+  message: string;
+  at: string;
+}
+
+/** The outcome of firing one sink for a `changes` event. */
+export interface WatchDeliveryEvent extends SinkDelivery {
+  type: "delivery";
+  watch: string;
+  generation: number;
+  at: string;
+}
+
+/** One line of the NDJSON event stream written by `changes-watch`. */
+export type WatchEvent =
+  | WatchReadyEvent
+  | WatchChangesEvent
+  | WatchErrorEvent
+  | WatchDeliveryEvent;
+
+/** Options for {@link runWatch}. */
+export interface WatchOptions {
+  /** Named watch (default: 'default'); shares its cache with `changes --watch`. */
+  watch?: string | undefined;
+  /** Fingerprint poll cadence in milliseconds (default {@link DEFAULT_WATCH_INTERVAL_MS}). */
+  intervalMs?: number | undefined;
+  /** Stops the loop when aborted; `runWatch` then resolves. */
+  signal?: AbortSignal | undefined;
+  /** Sinks fired for each change set (see `loadSinks`). */
+  sinks?: readonly Sink[] | undefined;
+  /** Receives every event, in order. */
+  emit: (event: WatchEvent) => void;
+}
+
+/** Dependencies injected for testing; the CLI passes the real scanners. */
+export interface WatchDeps extends Omit<ChangesDeps, "now" | "spawnBackgroundRefresh"> {
+  /** Clock for event timestamps and cache `updatedAt`. */
+  now?: () => string;
+  /** Overrides for sink delivery (transport, backoff sleep, dead-letter path). */
+  deliver?: Partial<DeliverDeps>;
+}
+
+function summarize(cs: ChangeSet): { added: number; updated: number; removed: number } {
+  return { added: cs.added.length, updated: cs.updated.length, removed: cs.removed.length };
+}
+
+function changeSetEmpty(cs: ChangeSet): boolean {
+  return cs.added.length === 0 && cs.updated.length === 0 && cs.removed.length === 0;
+}
+
+/** Resolve after `ms`, or as soon as `signal` aborts. */
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted === true) {
+      resolve();
+      return;
+    }
+    const done = (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done);
+  });
+}
+
+/**
+ * Long-running watch loop behind `ofocus changes-watch`.
+ *
+ * Loads (or baselines) the named watch once and keeps its snapshot in memory,
+ * then polls the cheap fingerprint every `intervalMs`. Only when the
+ * fingerprint moves does it run the full scan and diff; a non-empty diff is
+ * emitted as a `changes` event and folded into the on-disk cache exactly like
+ * a background refresh (generation bump + pending), so `changes --pending`
+ * hooks keep working alongside the watcher.
+ *
+ * Each change set is then handed to the configured sinks, and every delivery
+ * (after its retries) is reported as a `delivery` event. The next poll waits
+ * for the deliveries, so a sink never sees change sets out of order.
+ *
+ * The first poll runs immediately, so edits made while nothing was watching
+ * are reported on startup. Scan failures are emitted as `error` events and
+ * retried on the next tick. Resolves when `signal` aborts.
+ */
+export async function runWatch(options: WatchOptions, deps: WatchDeps): Promise<void> {
+  const name = options.watch ?? "default";
+  const intervalMs = options.intervalMs ?? DEFAULT_WATCH_INTERVAL_MS;
+  const now = deps.now ?? ((): string => new Date().toISOString());
+  const path = resolveCachePath(name, deps.stateDir);
+  const fail = (error: unknown): void => {
+    const message = error instanceof Error ? error.message : String(error);
+    options.emit({ type: "error", watch: name, message, at: now() });
+  };
+
+  let state: CacheFile | null = null;
+  let baselined = false;
+  while (state === null) {
+    try {
+      const cached = readCache(path);
+      const isFirstRun =
+        cached === null ||
+        (cached.generation === 0 && Object.keys(cached.snapshot).length === 0);
+      if (isFirstRun) {
+        const result = await runChanges(
+          { watch: name, reset: true },
+          { ...deps, now: now() },
+        );
+        if (!result.success) {
+          throw new Error(result.error?.message ?? "Baseline failed");
+        }
+        baselined = true;
+      }
+      state = readCache(path);
+      if (state === null) throw new Error(`Watch cache missing after baseline: ${path}`);
+    } catch (error) {
+      fail(error);
+      await sleep(intervalMs, options.signal);
+      if (options.signal?.aborted === true) return;
+    }
+  }
+
+  options.emit({
+    type: "ready",
+    watch: name,
+    generation: state.generation,
+    cursor: encodeCursor(state.fingerprint),
+    baselined,
+    at: now(),
+  });
+
+  while (options.signal?.aborted !== true) {
+    try {
+      const fingerprint = await deps.scanFingerprint(state.classes);
+      if (!fingerprintsEqual(fingerprint, state.fingerprint)) {
+        const snapshot = await deps.scanWatched(state.classes);
+        const diff = diffSnapshots(state.snapshot, snapshot);
+        // Re-read so pending/generation written by other `changes` runs since
+        // the last tick are merged into, not overwritten.
+        const onDisk = readCache(path) ?? state;
+        const at = now();
+        state = accumulatePending({ ...onDisk, snapshot, fingerprint, updatedAt: at }, diff);
+        writeCache(path, state);
+        if (!changeSetEmpty(diff)) {
+          deps.recordHistory?.(diff, { watch: name, generation: state.generation, at });
+          options.emit({
+            type: "changes",
+            watch: name,
+            generation: state.generation,
+            cursor: encodeCursor(state.fingerprint),
+            summary: summarize(diff),
+            changes: diff,
+            at,
+          });
+          const deliveries = await dispatchChanges(
+            { watch: name, generation: state.generation, at, changes: diff },
+            options.sinks ?? [],
+            {
+              deadLetterPath: resolveDeadLetterPath(deps.stateDir),
+              now,
+              ...deps.deliver,
+            },
+          );
+          for (const delivery of deliveries) {
+            options.emit({
+              type: "delivery",
+              watch: name,
+              generation: state.generation,
+              at: now(),
+              ...delivery,
+            });
+          }
+        }
+      }
+    } catch (error) {
+      fail(error);
+    }
+    await sleep(intervalMs, options.signal);
+  }
+}
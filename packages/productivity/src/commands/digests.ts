@@ -7,13 +7,14 @@
  * - `today` partitions the open task set into three buckets — overdue, due
  *   today, and flagged — annotating each item with how overdue it is
  *   ({@link overdueBy}) or how soon it is due ({@link dueIn}).
- * - `this-week` groups the next seven days' forecast by UTC calendar day,
+ * - `this-week` groups the next seven days' forecast by calendar day,
  *   annotating each task with the time until it is due.
  *
  * All heavy lifting (talking to OmniFocus) is pushed into injected fetchers so
- * the pure partition/group helpers are fully testable offline. Dates are
- * reasoned about against the UTC calendar; lexical comparison is correct for
- * canonical ISO 8601 UTC instants.
+ * the pure partition/group helpers are fully testable offline. Calendar days
+ * are those of an IANA time zone — `timeZone`, else `OFOCUS_TIME_ZONE`, else
+ * UTC — so a late-evening task lands on its local day; instants themselves
+ * stay canonical ISO 8601 UTC, where lexical comparison is correct.
  */
 import { z } from "zod";
 import {
@@ -26,7 +27,10 @@ import {
   failure,
   queryForecast,
   queryTasks,
+  resolveTimeZone,
+  startOfZonedDay,
   success,
+  utcToZonedTime,
 } from "@ofocus/sdk";
 import { type DurationInfo, dueIn, overdueBy } from "../recurrence/duration.js";
 
@@ -70,9 +74,9 @@ export interface WeekItem {
   dueIn: DurationInfo | null;
 }
 
-/** Tasks grouped under a single UTC calendar day. */
+/** Tasks grouped under a single calendar day. */
 export interface DayGroup {
-  /** The UTC calendar day, `YYYY-MM-DD`. */
+  /** The calendar day in the digest's time zone, `YYYY-MM-DD`. */
   date: string;
   /** Tasks due on that day, ascending by due date. */
   tasks: WeekItem[];
@@ -80,8 +84,10 @@ export interface DayGroup {
 
 /** Result of the `today` command. */
 export interface TodayDigest {
-  /** The UTC calendar day (`YYYY-MM-DD`) the digest covers. */
+  /** The calendar day (`YYYY-MM-DD`) the digest covers. */
   date: string;
+  /** The IANA time zone whose calendar day that is. */
+  timeZone: string;
   /** Per-bucket counts. */
   counts: { overdue: number; dueToday: number; flagged: number };
   /** Tasks that are past due. */
@@ -98,7 +104,9 @@ export interface WeekDigest {
   from: string;
   /** Window end (`now` + 7 days, ISO 8601). */
   until: string;
-  /** Tasks grouped by UTC calendar day, ascending. */
+  /** The IANA time zone the days are grouped in. */
+  timeZone: string;
+  /** Tasks grouped by calendar day, ascending. */
   days: DayGroup[];
   /** Total number of tasks across all day groups. */
   count: number;
@@ -129,12 +137,36 @@ export function startOfNextUtcDay(nowISO: string): string {
   return new Date(nextMs).toISOString();
 }
 
+/**
+ * Last millisecond of the input instant's calendar day in `timeZone` — the
+ * zone-aware {@link endOfUtcDay}.
+ */
+export function endOfDay(nowISO: string, timeZone: string): string {
+  const next = Date.parse(startOfNextDay(nowISO, timeZone));
+  return new Date(next - 1).toISOString();
+}
+
+/**
+ * Midnight, in `timeZone`, starting the calendar day after the input
+ * instant's — the zone-aware {@link startOfNextUtcDay}. Days are stepped on
+ * the calendar, so a DST change doesn't shift the bound off midnight.
+ */
+export function startOfNextDay(nowISO: string, timeZone: string): string {
+  const start = startOfZonedDay(new Date(nowISO), timeZone, 1);
+  return start?.toISOString() ?? startOfNextUtcDay(nowISO);
+}
+
 /** Extract the `YYYY-MM-DD` UTC calendar-day key from an ISO 8601 instant. */
 function utcDateKey(iso: string): string {
   // Canonical ISO 8601 UTC instants always lead with `YYYY-MM-DD`.
   return iso.slice(0, 10);
 }
 
+/** The `YYYY-MM-DD` calendar day of an ISO 8601 instant in `timeZone`. */
+function dateKey(iso: string, timeZone: string): string {
+  return utcDateKey(utcToZonedTime(iso, timeZone) ?? iso);
+}
+
 /**
  * Partition open tasks into the `today` digest's three buckets.
  *
@@ -147,7 +179,7 @@ function utcDateKey(iso: string): string {
  * @param tasks - The candidate tasks.
  * @param nowISO - The reference "now" instant.
  * @param endOfTodayISO - Inclusive upper bound for "due today" (see
- *   {@link endOfUtcDay}).
+ *   {@link endOfDay}).
  */
 export function partitionToday(
   tasks: OFTask[],
@@ -205,19 +237,25 @@ function makeItem(
 }
 
 /**
- * Group tasks by the UTC calendar day of their due date, ascending, with tasks
+ * Group tasks by the calendar day of their due date, ascending, with tasks
  * within a day ascending by due date. Tasks without a due date are excluded.
  *
  * @param tasks - The candidate tasks.
  * @param nowISO - The reference "now" instant, for the `dueIn` annotation.
+ * @param timeZone - IANA time zone whose calendar days group the tasks
+ *   (default UTC).
  */
-export function groupByDay(tasks: OFTask[], nowISO: string): DayGroup[] {
+export function groupByDay(
+  tasks: OFTask[],
+  nowISO: string,
+  timeZone = "UTC",
+): DayGroup[] {
   const byDay = new Map<string, WeekItem[]>();
 
   for (const task of tasks) {
     const due = task.dueDate;
     if (due === null) continue;
-    const key = utcDateKey(due);
+    const key = dateKey(due, timeZone);
     const item: WeekItem = {
       id: task.id,
       name: task.name,
@@ -247,6 +285,8 @@ export interface TodayDeps {
   fetchTasks: () => Promise<OFTask[]>;
   /** The current instant as an ISO 8601 string (injected for determinism). */
   now: string;
+  /** IANA time zone for calendar days (default UTC). */
+  timeZone?: string | undefined;
 }
 
 /** Dependencies for {@link runThisWeek}; the descriptor injects the real fetch. */
@@ -255,6 +295,8 @@ export interface ThisWeekDeps {
   fetchForecast: () => Promise<OFTask[]>;
   /** The current instant as an ISO 8601 string (injected for determinism). */
   now: string;
+  /** IANA time zone for calendar days (default UTC). */
+  timeZone?: string | undefined;
 }
 
 /**
@@ -264,15 +306,18 @@ export interface ThisWeekDeps {
 export async function runToday(
   deps: TodayDeps,
 ): Promise<CliOutput<TodayDigest>> {
+  const timeZone = resolveTimeZone(deps.timeZone ?? "UTC");
+  if (typeof timeZone !== "string") return failure(timeZone);
   const tasks = await deps.fetchTasks();
   const { overdue, dueToday, flagged } = partitionToday(
     tasks,
     deps.now,
-    endOfUtcDay(deps.now),
+    endOfDay(deps.now, timeZone),
   );
 
   return success({
-    date: utcDateKey(deps.now),
+    date: dateKey(deps.now, timeZone),
+    timeZone,
     counts: {
       overdue: overdue.length,
       dueToday: dueToday.length,
@@ -291,13 +336,15 @@ export async function runToday(
 export async function runThisWeek(
   deps: ThisWeekDeps,
 ): Promise<CliOutput<WeekDigest>> {
+  const timeZone = resolveTimeZone(deps.timeZone ?? "UTC");
+  if (typeof timeZone !== "string") return failure(timeZone);
   const tasks = await deps.fetchForecast();
-  const days = groupByDay(tasks, deps.now);
+  const days = groupByDay(tasks, deps.now, timeZone);
   const count = days.reduce((sum, group) => sum + group.tasks.length, 0);
   const fromMs = Date.parse(deps.now);
   const until = new Date(fromMs + WEEK_DAYS * MS_PER_DAY).toISOString();
 
-  return success({ from: deps.now, until, days, count });
+  return success({ from: deps.now, until, timeZone, days, count });
 }
 
 /**
@@ -320,6 +367,14 @@ function propagateFailure<T>(
   return failure<T>(error ?? createError(ErrorCode.UNKNOWN_ERROR, message));
 }
 
+/** The digests' optional `timeZone` input. */
+const timeZoneSchema = z
+  .string()
+  .optional()
+  .describe(
+    'IANA time zone for calendar days, e.g. "America/Los_Angeles" (default: OFOCUS_TIME_ZONE, then UTC)',
+  );
+
 /**
  * Centralized descriptor for the `today` command.
  *
@@ -338,17 +393,19 @@ export const todayDescriptor = defineCommand({
     "Digest of what needs attention today: overdue, due today, and flagged " +
     "tasks, each annotated with how overdue or how soon it is.",
   cliPositional: [],
-  inputSchema: z.object({}),
-  handler: async (): Promise<CliOutput<TodayDigest>> => {
+  inputSchema: z.object({ timeZone: timeZoneSchema }),
+  handler: async (input): Promise<CliOutput<TodayDigest>> => {
     const now = new Date().toISOString();
+    const timeZone = resolveTimeZone(input.timeZone);
+    if (typeof timeZone !== "string") return failure(timeZone);
     // `notCompleted` does not exclude dropped tasks; `dropped: false` adds the
     // `taskStatus !== Task.Status.Dropped` predicate so dropped/effectively-
     // dropped tasks never reach the digest. `dueBefore` is a strict `<`, so we
-    // use start-of-next-day to include all of today (through 23:59:59.999Z).
+    // use start-of-next-day to include all of today (through its last ms).
     const dueResult = await queryTasks({
       notCompleted: true,
       dropped: false,
-      dueBefore: startOfNextUtcDay(now),
+      dueBefore: startOfNextDay(now, timeZone),
       all: true,
     });
     if (!dueResult.success || dueResult.data === null) {
@@ -375,6 +432,7 @@ export const todayDescriptor = defineCommand({
     return runToday({
       fetchTasks: () => Promise.resolve([...byId.values()]),
       now,
+      timeZone,
     });
   },
 });
@@ -395,10 +453,12 @@ export const thisWeekDescriptor = defineCommand({
     "Digest of tasks due over the next seven days, grouped by calendar day " +
     "and annotated with how soon each is due.",
   cliPositional: [],
-  inputSchema: z.object({}),
-  handler: async (): Promise<CliOutput<WeekDigest>> => {
+  inputSchema: z.object({ timeZone: timeZoneSchema }),
+  handler: async (input): Promise<CliOutput<WeekDigest>> => {
     const now = new Date().toISOString();
-    const result = await queryForecast({ days: WEEK_DAYS, all: true });
+    const timeZone = resolveTimeZone(input.timeZone);
+    if (typeof timeZone !== "string") return failure(timeZone);
+    const result = await queryForecast({ days: WEEK_DAYS, timeZone, all: true });
     if (!result.success || result.data === null) {
       return propagateFailure(result.error, "Failed to query forecast");
     }
@@ -406,6 +466,7 @@ export const thisWeekDescriptor = defineCommand({
     return runThisWeek({
       fetchForecast: () => Promise.resolve(tasks),
       now,
+      timeZone,
     });
   },
 });
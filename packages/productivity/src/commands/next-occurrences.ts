@@ -27,6 +27,7 @@ import {
   createError,
   defineCommand,
   failure,
+  resolveTimeZone,
   success,
 } from "@ofocus/sdk";
 import { expandOccurrences } from "../recurrence/expand.js";
@@ -108,6 +109,8 @@ export interface NextOccurrencesDeps {
   readTaskRule: (id: string) => Promise<TaskRule | null>;
   /** The current instant as an ISO 8601 string (injected for determinism). */
   now: string;
+  /** IANA time zone whose wall clock rules repeat on (default UTC). */
+  timeZone?: string | undefined;
 }
 
 /** Input accepted by {@link runNextOccurrences}. */
@@ -150,6 +153,8 @@ export async function runNextOccurrences(
       ),
     );
   }
+  const timeZone = resolveTimeZone(deps.timeZone ?? "UTC");
+  if (typeof timeZone !== "string") return failure(timeZone);
 
   const rule = await deps.readTaskRule(input.taskId);
   if (rule === null) {
@@ -171,7 +176,7 @@ export async function runNextOccurrences(
   const repeatMethod = methodMap(rule.method);
   const parsed = parseRRule(rule.ruleString, repeatMethod);
   if (parsed === null) {
-    // Repeating, but the RRULE is outside the subset parseRRule understands.
+    // Repeating, but the RRULE is malformed or out of range.
     return success({
       taskId: input.taskId,
       name: rule.name,
@@ -195,7 +200,10 @@ export async function runNextOccurrences(
     : input.from ?? rule.completionDate ?? deps.now;
   const fromISO = input.from ?? deps.now;
 
-  const occurrences = expandOccurrences(parsed, anchor, count, { fromISO });
+  const occurrences = expandOccurrences(parsed, anchor, count, {
+    fromISO,
+    timeZone,
+  });
 
   // Build the output with conditional inclusion of `note` to satisfy
   // exactOptionalPropertyTypes (never assign `undefined` to an optional prop).
@@ -244,10 +252,20 @@ export const nextOccurrencesDescriptor = defineCommand({
       .string()
       .optional()
       .describe("ISO date; only occurrences after this are returned (default now)"),
+    timeZone: z
+      .string()
+      .optional()
+      .describe(
+        'IANA time zone whose wall clock the rule repeats on, e.g. "America/Los_Angeles" (default: OFOCUS_TIME_ZONE, then UTC)',
+      ),
   }),
-  handler: async (parsed): Promise<CliOutput<NextOccurrencesOutput>> =>
-    runNextOccurrences(parsed, {
+  handler: async (parsed): Promise<CliOutput<NextOccurrencesOutput>> => {
+    const timeZone = resolveTimeZone(parsed.timeZone);
+    if (typeof timeZone !== "string") return failure(timeZone);
+    return runNextOccurrences(parsed, {
       readTaskRule,
       now: new Date().toISOString(),
-    }),
+      timeZone,
+    });
+  },
 });
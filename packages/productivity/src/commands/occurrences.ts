@@ -22,6 +22,7 @@ import {
   createError,
   defineCommand,
   failure,
+  resolveTimeZone,
   success,
 } from "@ofocus/sdk";
 import { type DurationInfo, dueIn } from "../recurrence/duration.js";
@@ -36,6 +37,9 @@ import {
 /** Default window length, in days, when `days` is omitted. */
 const DEFAULT_DAYS = 14;
 
+/** Most occurrences listed for a single task (e.g. a minutely rule). */
+const MAX_OCCURRENCES_PER_TASK = 1000;
+
 /** Milliseconds in a day, used to advance the window end from `now`. */
 const MS_PER_DAY = 86_400_000;
 
@@ -102,6 +106,8 @@ export interface OccurrencesDeps {
   scanRepeatingTasks: () => Promise<TaskRule[]>;
   /** The current instant as an ISO 8601 string (injected for determinism). */
   now: string;
+  /** IANA time zone whose wall clock rules repeat on (default UTC). */
+  timeZone?: string | undefined;
 }
 
 /** Input accepted by {@link runOccurrences}. */
@@ -139,6 +145,9 @@ export async function runOccurrences(
   // Inclusive end of the window: now + days (UTC).
   const untilISO = new Date(fromMs + days * MS_PER_DAY).toISOString();
 
+  const timeZone = resolveTimeZone(deps.timeZone ?? "UTC");
+  if (typeof timeZone !== "string") return failure(timeZone);
+
   const tasks = await deps.scanRepeatingTasks();
 
   const occurrences: Occurrence[] = [];
@@ -155,19 +164,21 @@ export async function runOccurrences(
     // Anchor selection mirrors next-occurrences: due/defer grid origin, else now.
     const anchor = task.dueDate ?? task.deferDate ?? fromISO;
 
-    // expandOccurrences emits dates strictly after `fromISO`; request a few
-    // extra (`days + 2`) so day-grained rules can't be starved at the boundary,
-    // then trim to the inclusive window end ourselves.
-    const dates = expandOccurrences(parsed, anchor, days + 2, { fromISO });
+    // expandOccurrences emits dates strictly after `fromISO` and up to the
+    // inclusive window end; sub-daily rules can yield many per day, so the
+    // count is only a per-task cap.
+    const dates = expandOccurrences(parsed, anchor, MAX_OCCURRENCES_PER_TASK, {
+      fromISO,
+      toISO: untilISO,
+      timeZone,
+    });
     for (const date of dates) {
-      if (date <= untilISO) {
-        occurrences.push({
-          taskId: task.id,
-          name: task.name,
-          occurrenceDate: date,
-          dueIn: dueIn(date, fromISO),
-        });
-      }
+      occurrences.push({
+        taskId: task.id,
+        name: task.name,
+        occurrenceDate: date,
+        dueIn: dueIn(date, fromISO),
+      });
     }
   }
 
@@ -205,10 +216,20 @@ export const occurrencesDescriptor = defineCommand({
       .positive()
       .optional()
       .describe("Window length in days (default 14)"),
+    timeZone: z
+      .string()
+      .optional()
+      .describe(
+        'IANA time zone whose wall clock the rule repeats on, e.g. "America/Los_Angeles" (default: OFOCUS_TIME_ZONE, then UTC)',
+      ),
   }),
-  handler: async (parsed): Promise<CliOutput<OccurrencesOutput>> =>
-    runOccurrences(parsed, {
+  handler: async (parsed): Promise<CliOutput<OccurrencesOutput>> => {
+    const timeZone = resolveTimeZone(parsed.timeZone);
+    if (typeof timeZone !== "string") return failure(timeZone);
+    return runOccurrences(parsed, {
       scanRepeatingTasks,
       now: new Date().toISOString(),
-    }),
+      timeZone,
+    });
+  },
 });
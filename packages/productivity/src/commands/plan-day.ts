@@ -0,0 +1,441 @@
+/**
+ * `plan-day` — a time-budgeted schedule for the day.
+ *
+ * Builds on the `today` digest: the candidates are the available tasks that
+ * are overdue, due within a week, flagged, or carry one of the requested
+ * energy/context tags, classified with {@link partitionToday}. Each gets a
+ * score from fixed weights, so the same state always yields the same plan:
+ *
+ * - overdue: 100, plus 2 per day overdue (up to two weeks);
+ * - due today: 80; due later this week: 40, minus 5 per day until due;
+ * - flagged: 30;
+ * - next action of a sequential project: 10 (finishing it unblocks the rest);
+ * - each requested tag the task carries: 20.
+ *
+ * Tasks are placed best score first into the free time from `start`, around
+ * the busy blocks of an optional `.ics` calendar, until the budget of task
+ * minutes is spent (or `end` is reached). Each task takes its estimate, or
+ * `defaultMinutes` without one. A task that doesn't fit goes to the overflow
+ * list and smaller ones are still tried.
+ *
+ * "Today", and `HH:MM` times, are those of an IANA time zone — `timeZone`,
+ * else `OFOCUS_TIME_ZONE`, else UTC — as in the `today` digest.
+ */
+import { readFileSync } from "node:fs";
+import { z } from "zod";
+import {
+  type CliOutput,
+  type ICalBusyBlock,
+  type OFTask,
+  type QueryResult,
+  ErrorCode,
+  createError,
+  defineCommand,
+  failure,
+  parseICalBusy,
+  queryProjects,
+  queryTasks,
+  resolveTimeZone,
+  success,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from "@ofocus/sdk";
+import { endOfDay, partitionToday } from "./digests.js";
+
+/** Milliseconds in a minute. */
+const MS_PER_MINUTE = 60_000;
+
+/** Milliseconds in a day. */
+const MS_PER_DAY = 86_400_000;
+
+/** Days ahead a due date still counts towards a task's score. */
+const DUE_SOON_DAYS = 7;
+
+/** Sorts after every due date, so undated tasks come last among equals. */
+const NO_DUE = "9999";
+
+/** Minutes assumed for a task without an estimate, unless overridden. */
+export const DEFAULT_TASK_MINUTES = 30;
+
+/**
+ * Parse a time budget like `90`, `90m`, `3h` or `2h30m` into minutes. A bare
+ * number is minutes.
+ */
+export function parseBudget(input: string): number | null {
+  const trimmed = input.trim().toLowerCase();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+  const match = /^(?:(\d+(?:\.\d+)?)h)?\s*(?:(\d+)m(?:in)?)?$/.exec(trimmed);
+  if (match === null || (match[1] === undefined && match[2] === undefined)) {
+    return null;
+  }
+  const hours = parseFloat(match[1] ?? "0");
+  const minutes = parseInt(match[2] ?? "0", 10);
+  return Math.round(hours * 60 + minutes);
+}
+
+/** A task placed in the schedule. */
+export interface PlannedTask {
+  id: string;
+  name: string;
+  projectName: string | null;
+  /** Start and end as ISO 8601 instants. */
+  start: string;
+  end: string;
+  minutes: number;
+  /** False when `minutes` is the default rather than the task's estimate. */
+  estimated: boolean;
+  score: number;
+  /** What the score is made of, e.g. `overdue 2d`, `flagged`. */
+  reasons: string[];
+}
+
+/** A candidate that was not scheduled. */
+export interface OverflowTask {
+  id: string;
+  name: string;
+  projectName: string | null;
+  minutes: number;
+  estimated: boolean;
+  score: number;
+  reasons: string[];
+}
+
+/** Shape returned by the `plan-day` command. */
+export interface DayPlan {
+  /** When the schedule starts (ISO 8601). */
+  start: string;
+  /** Latest allowed end (ISO 8601), or `null` when only the budget limits the day. */
+  end: string | null;
+  /** The IANA time zone of "today" and of `HH:MM` times. */
+  timeZone: string;
+  /** Task minutes available. */
+  budgetMinutes: number;
+  /** Task minutes scheduled. */
+  scheduledMinutes: number;
+  /** Calendar events overlapping the scheduled day, in start order. */
+  busy: ICalBusyBlock[];
+  /** Scheduled tasks, in start order. */
+  schedule: PlannedTask[];
+  /** Candidates that didn't fit, best score first. */
+  overflow: OverflowTask[];
+}
+
+/** Dependencies for {@link runPlanDay}; the descriptor passes the real ones. */
+export interface PlanDayDeps {
+  /** Fetches the candidate tasks: available, and due soon, flagged or tagged with `tags`. */
+  fetchTasks: (tags: readonly string[]) => Promise<CliOutput<OFTask[]>>;
+  /** Fetches the IDs of sequential projects. */
+  fetchSequentialProjects: () => Promise<CliOutput<string[]>>;
+  /** The current instant as an ISO 8601 string. */
+  now: string;
+}
+
+interface PlanDayInput {
+  available: string;
+  start?: string | undefined;
+  end?: string | undefined;
+  calendar?: string | undefined;
+  tags?: string[] | undefined;
+  defaultMinutes?: number | undefined;
+  timeZone?: string | undefined;
+}
+
+interface Candidate extends OverflowTask {
+  due: string | null;
+}
+
+/**
+ * Resolve `HH:MM` (wall-clock time in `timeZone` on the day of `now`) or an
+ * ISO 8601 date-time to epoch milliseconds, or `null` if it is neither.
+ */
+function parseClock(value: string, now: number, timeZone: string): number | null {
+  const clock = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (clock !== null) {
+    const hours = Number(clock[1]);
+    const minutes = Number(clock[2]);
+    if (hours > 23 || minutes > 59) return null;
+    const day = utcToZonedTime(new Date(now).toISOString(), timeZone)?.slice(0, 10);
+    if (day === undefined) return null;
+    const at = zonedTimeToUtc(`${day}T${String(hours).padStart(2, "0")}:${clock[2] ?? "00"}:00`, timeZone);
+    return at === null ? null : Date.parse(at);
+  }
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+/** Score a task against the weights in the module doc. */
+function scoreTask(
+  task: OFTask,
+  bucket: "overdue" | "due-today" | null,
+  now: number,
+  sequential: ReadonlySet<string>,
+  tags: readonly string[],
+): { score: number; reasons: string[] } {
+  let score = 0;
+  const reasons: string[] = [];
+  const due = task.dueDate === null ? null : Date.parse(task.dueDate);
+  if (bucket === "overdue" && due !== null) {
+    const days = Math.floor((now - due) / MS_PER_DAY);
+    score += 100 + 2 * Math.min(days, 14);
+    reasons.push(days > 0 ? `overdue ${String(days)}d` : "overdue");
+  } else if (bucket === "due-today") {
+    score += 80;
+    reasons.push("due today");
+  } else if (due !== null && due > now) {
+    const days = Math.ceil((due - now) / MS_PER_DAY);
+    if (days <= DUE_SOON_DAYS) {
+      score += Math.max(5, 40 - 5 * (days - 1));
+      reasons.push(`due in ${String(days)}d`);
+    }
+  }
+  if (task.flagged) {
+    score += 30;
+    reasons.push("flagged");
+  }
+  if (task.projectId !== null && sequential.has(task.projectId)) {
+    score += 10;
+    reasons.push("next in sequence");
+  }
+  for (const tag of tags) {
+    if (task.tags.some((t) => t.toLowerCase() === tag.toLowerCase())) {
+      score += 20;
+      reasons.push(`tag ${tag}`);
+    }
+  }
+  return { score, reasons };
+}
+
+/**
+ * Earliest start at or after `from` where `minutes` fit between the busy
+ * blocks (sorted) and before `end`, or `null`.
+ */
+function firstFit(
+  from: number,
+  minutes: number,
+  occupied: readonly { start: number; end: number }[],
+  end: number | null,
+): number | null {
+  let start = from;
+  for (const block of occupied) {
+    if (block.end <= start) continue;
+    if (block.start >= start + minutes * MS_PER_MINUTE) break;
+    start = block.end;
+  }
+  return end !== null && start + minutes * MS_PER_MINUTE > end ? null : start;
+}
+
+/** Core handler. `deps` is injected in tests. */
+export async function runPlanDay(
+  input: PlanDayInput,
+  deps: PlanDayDeps,
+): Promise<CliOutput<DayPlan>> {
+  const budget = parseBudget(input.available);
+  if (budget === null || budget <= 0) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Invalid available time: ${input.available} (expected e.g. "90m", "3h" or "2h30m")`,
+      ),
+    );
+  }
+  const timeZone = resolveTimeZone(input.timeZone);
+  if (typeof timeZone !== "string") return failure(timeZone);
+  const now = Date.parse(deps.now);
+  // Default to now, rounded up to the next five minutes.
+  const start =
+    input.start === undefined
+      ? Math.ceil(now / (5 * MS_PER_MINUTE)) * 5 * MS_PER_MINUTE
+      : parseClock(input.start, now, timeZone);
+  const end = input.end === undefined ? null : parseClock(input.end, now, timeZone);
+  if (start === null || (input.end !== undefined && end === null)) {
+    const bad = start === null ? input.start : input.end;
+    return failure(
+      createError(
+        ErrorCode.INVALID_DATE_FORMAT,
+        `Invalid time: ${bad ?? ""} (expected HH:MM or an ISO 8601 date-time)`,
+      ),
+    );
+  }
+
+  let busy: ICalBusyBlock[] = [];
+  if (input.calendar !== undefined) {
+    let content: string;
+    try {
+      content = readFileSync(input.calendar, "utf8");
+    } catch (err) {
+      return failure(
+        createError(
+          ErrorCode.VALIDATION_ERROR,
+          `Cannot read calendar: ${input.calendar}`,
+          err instanceof Error ? err.message : undefined,
+        ),
+      );
+    }
+    busy = parseICalBusy(content).filter(
+      (b) => Date.parse(b.end) > start && (end === null || Date.parse(b.start) < end),
+    );
+  }
+
+  const tags = input.tags ?? [];
+  const defaultMinutes = input.defaultMinutes ?? DEFAULT_TASK_MINUTES;
+  const fetched = await deps.fetchTasks(tags);
+  if (!fetched.success || fetched.data === null) {
+    return failure(fetched.error ?? createError(ErrorCode.UNKNOWN_ERROR, "task query failed"));
+  }
+  const projects = await deps.fetchSequentialProjects();
+  if (!projects.success || projects.data === null) {
+    return failure(projects.error ?? createError(ErrorCode.UNKNOWN_ERROR, "project query failed"));
+  }
+  const tasks = fetched.data;
+  const sequential = new Set(projects.data);
+  const nowIso = new Date(now).toISOString();
+  const { overdue, dueToday } = partitionToday(tasks, nowIso, endOfDay(nowIso, timeZone));
+  const buckets = new Map<string, "overdue" | "due-today">([
+    ...overdue.map((t) => [t.id, "overdue"] as const),
+    ...dueToday.map((t) => [t.id, "due-today"] as const),
+  ]);
+
+  const candidates: Candidate[] = tasks
+    .filter((t) => !t.completed)
+    .map((task) => {
+      const { score, reasons } = scoreTask(task, buckets.get(task.id) ?? null, now, sequential, tags);
+      const estimated = task.estimatedMinutes !== null && task.estimatedMinutes > 0;
+      return {
+        id: task.id,
+        name: task.name,
+        projectName: task.projectName,
+        minutes: estimated ? (task.estimatedMinutes ?? defaultMinutes) : defaultMinutes,
+        estimated,
+        score,
+        reasons,
+        due: task.dueDate,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (a.due ?? NO_DUE).localeCompare(b.due ?? NO_DUE) ||
+        a.minutes - b.minutes,
+    );
+
+  const occupied = busy.map((b) => ({ start: Date.parse(b.start), end: Date.parse(b.end) }));
+  const schedule: PlannedTask[] = [];
+  const overflow: OverflowTask[] = [];
+  let remaining = budget;
+  for (const { due: _due, ...candidate } of candidates) {
+    const at = candidate.minutes <= remaining ? firstFit(start, candidate.minutes, occupied, end) : null;
+    if (at === null) {
+      overflow.push(candidate);
+      continue;
+    }
+    const finish = at + candidate.minutes * MS_PER_MINUTE;
+    schedule.push({
+      ...candidate,
+      start: new Date(at).toISOString(),
+      end: new Date(finish).toISOString(),
+    });
+    occupied.push({ start: at, end: finish });
+    occupied.sort((a, b) => a.start - b.start);
+    remaining -= candidate.minutes;
+  }
+
+  return success({
+    start: new Date(start).toISOString(),
+    end: end === null ? null : new Date(end).toISOString(),
+    timeZone,
+    budgetMinutes: budget,
+    scheduledMinutes: budget - remaining,
+    busy,
+    schedule: schedule.sort((a, b) => a.start.localeCompare(b.start)),
+    overflow,
+  });
+}
+
+/** Extract the items from a list-shaped {@link QueryResult}. */
+function itemsOf(result: QueryResult<OFTask>): OFTask[] {
+  return result.kind === "list" ? result.items : [];
+}
+
+/**
+ * Centralized descriptor for the `plan-day` command.
+ *
+ * Drives the CLI subcommand `plan-day` and the MCP tool `plan_day`. The real
+ * fetcher unions the available tasks due within a week, the available flagged
+ * tasks and, when tags are given, the available tasks with any of them.
+ *
+ * @public
+ */
+export const planDayDescriptor = defineCommand({
+  name: "planDay",
+  cliName: "plan-day",
+  mcpName: "plan_day",
+  description:
+    "Plan the day within a time budget: rank available tasks (overdue, due soon, flagged, next in a sequential project, matching energy/context tags) with fixed weights and schedule them with start times around calendar busy blocks, returning what didn't fit as overflow.",
+  cliPositional: ["available"],
+  inputSchema: z.object({
+    available: z
+      .string()
+      .describe('Time available for tasks, e.g. "90", "90m", "3h" or "2h30m"'),
+    start: z
+      .string()
+      .optional()
+      .describe("When the day's work starts: HH:MM (in timeZone) or ISO 8601 (default: now)"),
+    end: z
+      .string()
+      .optional()
+      .describe("Schedule nothing after this: HH:MM (in timeZone) or ISO 8601"),
+    calendar: z
+      .string()
+      .optional()
+      .describe("Path to an .ics file whose timed events block time"),
+    tags: z
+      .array(z.string())
+      .optional()
+      .describe("Energy or context tags to favour, e.g. low-energy computer"),
+    defaultMinutes: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(`Minutes assumed for tasks without an estimate (default ${String(DEFAULT_TASK_MINUTES)})`),
+    timeZone: z
+      .string()
+      .optional()
+      .describe('IANA time zone for "today" and HH:MM times, e.g. "America/Los_Angeles" (default: OFOCUS_TIME_ZONE, then UTC)'),
+  }),
+  handler: async (parsed): Promise<CliOutput<DayPlan>> =>
+    runPlanDay(parsed, {
+      now: new Date().toISOString(),
+      fetchTasks: async (tags): Promise<CliOutput<OFTask[]>> => {
+        const horizon = new Date(Date.now() + DUE_SOON_DAYS * MS_PER_DAY).toISOString();
+        const queries = [
+          { available: true, dueBefore: horizon, all: true },
+          { available: true, flagged: true, all: true },
+          ...(tags.length > 0
+            ? [{ available: true, tag: [...tags], tagMode: "any" as const, all: true }]
+            : []),
+        ];
+        // Union the result sets, deduping by id.
+        const byId = new Map<string, OFTask>();
+        for (const options of queries) {
+          const result = await queryTasks(options);
+          if (!result.success || result.data === null) {
+            return failure(result.error ?? createError(ErrorCode.UNKNOWN_ERROR, "task query failed"));
+          }
+          for (const task of itemsOf(result.data)) byId.set(task.id, task);
+        }
+        return success([...byId.values()]);
+      },
+      fetchSequentialProjects: async (): Promise<CliOutput<string[]>> => {
+        const result = await queryProjects({ status: "active", all: true });
+        if (!result.success || result.data === null) {
+          return failure(result.error ?? createError(ErrorCode.UNKNOWN_ERROR, "project query failed"));
+        }
+        return success(
+          result.data.kind === "list"
+            ? result.data.items.filter((p) => p.sequential).map((p) => p.id)
+            : [],
+        );
+      },
+    }),
+});
@@ -0,0 +1,370 @@
+/**
+ * `procrastination` — where open work is rotting, per project and tag.
+ *
+ * `stats` counts what is due, overdue and flagged right now; this command
+ * looks at how tasks got there. It combines a full `scanWatched` of tasks and
+ * projects (each task's `added` and `modified` times, current dates, project
+ * and tags) with the opt-in change history (see `history/store.ts`) to report:
+ *
+ * - tasks deferred more than N times, and tasks whose due date was pushed back;
+ * - the average slip between each task's original and current due date;
+ * - how old the open tasks are, bucketed by age;
+ * - tasks untouched (not modified) for longer than a threshold.
+ *
+ * Deferral and slip figures only cover what the history recorded, so they
+ * start when `OFOCUS_HISTORY` was turned on; ages and untouched times come
+ * straight from OmniFocus. Only open tasks are analysed: completed tasks,
+ * and tasks in completed or dropped projects, are skipped.
+ */
+import { z } from "zod";
+import { type CliOutput, defineCommand, success } from "@ofocus/sdk";
+import { scanWatched } from "../changes/scan.js";
+import type { Snapshot, WatchedClass, WatchedObject } from "../changes/types.js";
+import {
+  type HistoryRecord,
+  dedupeHistory,
+  historyEnabled,
+  readHistory,
+  resolveHistoryPath,
+} from "../history/store.js";
+import { timelineStats } from "../history/timeline.js";
+
+/** Milliseconds in a day. */
+const MS_PER_DAY = 86_400_000;
+
+/** Defaults for the thresholds, shared by the descriptor and {@link runProcrastination}. */
+export const DEFAULT_DEFERRED_MORE_THAN = 2;
+export const DEFAULT_UNTOUCHED_DAYS = 30;
+export const DEFAULT_PROCRASTINATION_LIMIT = 20;
+
+/** Project name reported for inbox tasks. */
+const INBOX = "(Inbox)";
+
+/** Open tasks counted by age since they were added. */
+export interface AgeDistribution {
+  under1Week: number;
+  under1Month: number;
+  under3Months: number;
+  under1Year: number;
+  over1Year: number;
+  /** OmniFocus reported no creation date. */
+  unknown: number;
+}
+
+/** Procrastination figures for one project, one tag, or everything. */
+export interface ProcrastinationGroup {
+  /** Project or tag name; `(Inbox)` for inbox tasks, `All` for the totals. */
+  name: string;
+  openTasks: number;
+  ages: AgeDistribution;
+  /** Median age of the open tasks, in days, or `null` when none has a creation date. */
+  medianAgeDays: number | null;
+  /** Tasks not modified for longer than the untouched threshold. */
+  untouched: number;
+  /** Tasks deferred more than the deferral threshold. */
+  deferredOften: number;
+  /** Tasks whose due date changed in the recorded history. */
+  slipped: number;
+  /**
+   * Mean days between the original and current due date over the `slipped`
+   * tasks (negative when pulled in), or `null` when none slipped.
+   */
+  averageSlipDays: number | null;
+}
+
+/** An open task singled out by the report. */
+export interface ProcrastinatedTask {
+  id: string;
+  name: string;
+  /** Project name, `(Inbox)` for inbox tasks. */
+  project: string;
+  tags: string[];
+  /** Days since the task was added, or `null` when unknown. */
+  ageDays: number | null;
+  /** Days since the task was last modified. */
+  untouchedDays: number;
+  /** Recorded deferrals: defer date set or moved later. */
+  deferrals: number;
+  /** Recorded due dates moved later. */
+  duePostponements: number;
+  /** Days between the original and current due date, or `null` if it never changed. */
+  slipDays: number | null;
+}
+
+/** Shape returned by the `procrastination` command. */
+export interface ProcrastinationReport {
+  /** When the report was computed (ISO 8601). */
+  at: string;
+  thresholds: { deferredMoreThan: number; untouchedDays: number };
+  /** Whether `OFOCUS_HISTORY` is recording new changes. */
+  historyRecording: boolean;
+  /** Oldest recorded change, i.e. how far back deferral and slip figures reach. */
+  historySince: string | null;
+  totals: ProcrastinationGroup;
+  /** One group per project with open tasks, most neglected first. */
+  projects: ProcrastinationGroup[];
+  /** One group per tag on open tasks, most neglected first. */
+  tags: ProcrastinationGroup[];
+  /** Tasks deferred more than the threshold, most deferred first. */
+  deferredOften: ProcrastinatedTask[];
+  /** Tasks untouched for longer than the threshold, longest first. */
+  untouched: ProcrastinatedTask[];
+  note?: string;
+}
+
+/** Dependencies for {@link runProcrastination}; the descriptor passes real ones. */
+export interface ProcrastinationDeps {
+  scanWatched: (classes: readonly WatchedClass[]) => Promise<Snapshot>;
+  /** The current instant as an ISO 8601 string. */
+  now: string;
+  stateDir?: string;
+  recording?: boolean;
+}
+
+interface ProcrastinationInput {
+  project?: string | undefined;
+  tag?: string | undefined;
+  deferredMoreThan?: number | undefined;
+  untouchedDays?: number | undefined;
+  limit?: number | undefined;
+}
+
+/** Whole days from `from` to `to`, or `null` when either is not a date. */
+function daysBetween(from: unknown, to: string): number | null {
+  if (typeof from !== "string") return null;
+  const ms = Date.parse(to) - Date.parse(from);
+  return Number.isNaN(ms) ? null : Math.floor(ms / MS_PER_DAY);
+}
+
+const round1 = (n: number): number => Math.round(n * 10) / 10;
+
+/**
+ * Days between a task's original and current due date, from its records
+ * (oldest first), or `null` when the history never saw a due date move. The
+ * original is the first due date recorded: the one the task was added with,
+ * or the first one a change moved away from (or set).
+ */
+export function dueSlipDays(records: readonly HistoryRecord[], currentDue: unknown): number | null {
+  let original: string | undefined;
+  let moved = false;
+  for (const record of records) {
+    if (record.change === "added") {
+      const due = record.object["dueDate"];
+      if (original === undefined && typeof due === "string") original = due;
+      continue;
+    }
+    const delta = record.delta?.["dueDate"];
+    if (delta === undefined) continue;
+    if (typeof delta.from === "string") {
+      original ??= delta.from;
+      moved = true;
+    } else if (original === undefined && typeof delta.to === "string") {
+      original = delta.to;
+    }
+  }
+  if (!moved || original === undefined || typeof currentDue !== "string") return null;
+  return round1((Date.parse(currentDue) - Date.parse(original)) / MS_PER_DAY);
+}
+
+/** Place an age in days into its {@link AgeDistribution} bucket. */
+function ageBucket(days: number | null): keyof AgeDistribution {
+  if (days === null) return "unknown";
+  if (days < 7) return "under1Week";
+  if (days < 30) return "under1Month";
+  if (days < 90) return "under3Months";
+  if (days < 365) return "under1Year";
+  return "over1Year";
+}
+
+function summarize(
+  name: string,
+  tasks: readonly ProcrastinatedTask[],
+  thresholds: ProcrastinationReport["thresholds"],
+): ProcrastinationGroup {
+  const ages: AgeDistribution = {
+    under1Week: 0,
+    under1Month: 0,
+    under3Months: 0,
+    under1Year: 0,
+    over1Year: 0,
+    unknown: 0,
+  };
+  const known: number[] = [];
+  const slips: number[] = [];
+  for (const task of tasks) {
+    ages[ageBucket(task.ageDays)]++;
+    if (task.ageDays !== null) known.push(task.ageDays);
+    if (task.slipDays !== null) slips.push(task.slipDays);
+  }
+  known.sort((a, b) => a - b);
+  const mid = Math.floor(known.length / 2);
+  const median =
+    known.length === 0
+      ? null
+      : known.length % 2 === 1
+        ? (known[mid] ?? null)
+        : ((known[mid - 1] ?? 0) + (known[mid] ?? 0)) / 2;
+  return {
+    name,
+    openTasks: tasks.length,
+    ages,
+    medianAgeDays: median,
+    untouched: tasks.filter((t) => t.untouchedDays > thresholds.untouchedDays).length,
+    deferredOften: tasks.filter((t) => t.deferrals > thresholds.deferredMoreThan).length,
+    slipped: slips.length,
+    averageSlipDays:
+      slips.length === 0 ? null : round1(slips.reduce((sum, s) => sum + s, 0) / slips.length),
+  };
+}
+
+/** Most neglected first: untouched and often-deferred tasks, then size. */
+function byNeglect(a: ProcrastinationGroup, b: ProcrastinationGroup): number {
+  return (
+    b.untouched + b.deferredOften - (a.untouched + a.deferredOften) ||
+    b.openTasks - a.openTasks ||
+    a.name.localeCompare(b.name)
+  );
+}
+
+function groupBy(
+  tasks: readonly ProcrastinatedTask[],
+  keys: (task: ProcrastinatedTask) => readonly string[],
+  thresholds: ProcrastinationReport["thresholds"],
+): ProcrastinationGroup[] {
+  const groups = new Map<string, ProcrastinatedTask[]>();
+  for (const task of tasks) {
+    for (const key of keys(task)) {
+      const group = groups.get(key);
+      if (group === undefined) groups.set(key, [task]);
+      else group.push(task);
+    }
+  }
+  return [...groups].map(([name, members]) => summarize(name, members, thresholds)).sort(byNeglect);
+}
+
+/** Core handler. `deps` is injected in tests. */
+export async function runProcrastination(
+  input: ProcrastinationInput,
+  deps: ProcrastinationDeps,
+): Promise<CliOutput<ProcrastinationReport>> {
+  const thresholds = {
+    deferredMoreThan: input.deferredMoreThan ?? DEFAULT_DEFERRED_MORE_THAN,
+    untouchedDays: input.untouchedDays ?? DEFAULT_UNTOUCHED_DAYS,
+  };
+  const limit = input.limit ?? DEFAULT_PROCRASTINATION_LIMIT;
+  const snapshot = await deps.scanWatched(["tasks", "projects"]);
+
+  const history = new Map<string, HistoryRecord[]>();
+  let historySince: string | null = null;
+  for (const record of readHistory(resolveHistoryPath(deps.stateDir))) {
+    if (record.class !== "tasks") continue;
+    if (historySince === null || record.at < historySince) historySince = record.at;
+    const records = history.get(record.id);
+    if (records === undefined) history.set(record.id, [record]);
+    else records.push(record);
+  }
+
+  const projects = snapshot.projects ?? {};
+  const projectFilter = input.project?.toLowerCase();
+  const tagFilter = input.tag?.toLowerCase();
+  const tasks: ProcrastinatedTask[] = [];
+  for (const task of Object.values(snapshot.tasks ?? {})) {
+    const analysed = analyseTask(task, projects, history, deps.now);
+    if (analysed === null) continue;
+    if (projectFilter !== undefined && analysed.project.toLowerCase() !== projectFilter) continue;
+    if (tagFilter !== undefined && !analysed.tags.some((t) => t.toLowerCase() === tagFilter)) {
+      continue;
+    }
+    tasks.push(analysed);
+  }
+
+  const deferredOften = tasks
+    .filter((t) => t.deferrals > thresholds.deferredMoreThan)
+    .sort((a, b) => b.deferrals - a.deferrals || b.untouchedDays - a.untouchedDays);
+  const untouched = tasks
+    .filter((t) => t.untouchedDays > thresholds.untouchedDays)
+    .sort((a, b) => b.untouchedDays - a.untouchedDays);
+
+  const historyRecording = deps.recording ?? historyEnabled();
+  const report: ProcrastinationReport = {
+    at: deps.now,
+    thresholds,
+    historyRecording,
+    historySince,
+    totals: summarize("All", tasks, thresholds),
+    projects: groupBy(tasks, (t) => [t.project], thresholds),
+    tags: groupBy(tasks, (t) => t.tags, thresholds),
+    deferredOften: deferredOften.slice(0, limit),
+    untouched: untouched.slice(0, limit),
+  };
+  if (historySince === null) {
+    report.note = historyRecording
+      ? "No changes recorded yet, so deferral and slip figures are empty. They fill in as changes and changes-watch detect edits."
+      : "History is not being recorded, so deferral and slip figures are empty. Set OFOCUS_HISTORY=1 for changes and changes-watch to keep it.";
+  }
+  return success(report);
+}
+
+/** Reduce one scanned task to a {@link ProcrastinatedTask}, or `null` if it is not open. */
+function analyseTask(
+  task: WatchedObject,
+  projects: Record<string, WatchedObject>,
+  history: ReadonlyMap<string, HistoryRecord[]>,
+  now: string,
+): ProcrastinatedTask | null {
+  const { fields } = task;
+  if (fields["completed"] === true) return null;
+  const projectId = fields["projectId"];
+  const project = typeof projectId === "string" ? projects[projectId] : undefined;
+  const status = project?.fields["status"];
+  if (status === "completed" || status === "dropped") return null;
+
+  const records = dedupeHistory(history.get(task.id) ?? []);
+  const stats = timelineStats(records);
+  const projectName = project?.fields["name"];
+  const tags = fields["tags"];
+  return {
+    id: task.id,
+    name: typeof fields["name"] === "string" ? fields["name"] : "",
+    project: typeof projectName === "string" ? projectName : INBOX,
+    tags: Array.isArray(tags) ? tags.filter((t): t is string => typeof t === "string") : [],
+    ageDays: daysBetween(task.added, now),
+    untouchedDays: daysBetween(task.modified, now) ?? 0,
+    deferrals: stats.deferrals,
+    duePostponements: stats.duePostponements,
+    slipDays: dueSlipDays(records, fields["dueDate"]),
+  };
+}
+
+/** The descriptor — surfaced through CLI + MCP + docs via the registry union. */
+export const procrastinationDescriptor = defineCommand({
+  name: "procrastination",
+  cliName: "procrastination",
+  mcpName: "procrastination",
+  description:
+    "Procrastination analytics per project and tag for open tasks: tasks deferred more than N times, average slip between original and current due date, age distribution, and tasks untouched for longer than a threshold. Deferral and slip figures come from the change history (OFOCUS_HISTORY=1); ages and untouched times come from OmniFocus.",
+  inputSchema: z.object({
+    project: z.string().optional().describe("Only analyse tasks in this project (name)"),
+    tag: z.string().optional().describe("Only analyse tasks with this tag (name)"),
+    deferredMoreThan: z
+      .number()
+      .int()
+      .nonnegative()
+      .optional()
+      .describe(`Report tasks deferred more than this many times (default ${String(DEFAULT_DEFERRED_MORE_THAN)})`),
+    untouchedDays: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(`Report tasks not modified for more than this many days (default ${String(DEFAULT_UNTOUCHED_DAYS)})`),
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(`Maximum tasks listed per list (default ${String(DEFAULT_PROCRASTINATION_LIMIT)})`),
+  }),
+  handler: async (parsed): Promise<CliOutput<ProcrastinationReport>> =>
+    runProcrastination(parsed, { scanWatched, now: new Date().toISOString() }),
+});
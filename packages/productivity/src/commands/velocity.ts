@@ -0,0 +1,295 @@
+/**
+ * `velocity` — completions and remaining work over time, per project.
+ *
+ * `stats` reports point-in-time counts; this command reports time series.
+ * From one `scanWatched` of tasks and projects (each task's `added` and
+ * `completionDate`, `estimatedMinutes` and project) it builds, per bucket
+ * (day, week or month, in UTC):
+ *
+ * - completions, as a task count and as estimated minutes;
+ * - the burndown: tasks added by the end of the bucket and still open at it.
+ *
+ * The trailing velocity is the mean over the last complete buckets (the
+ * current, partial bucket is left out). Dividing the remaining work by it
+ * projects a completion date: in estimated minutes when the open tasks carry
+ * estimates (unestimated ones count as the average estimate), otherwise in
+ * tasks. Dropped tasks, tasks in dropped projects and action groups (whose
+ * subtasks are counted instead) are skipped.
+ */
+import { z } from "zod";
+import { type CliOutput, defineCommand, success } from "@ofocus/sdk";
+import { scanWatched } from "../changes/scan.js";
+import type { Snapshot, WatchedClass, WatchedObject } from "../changes/types.js";
+
+/** Milliseconds in a day. */
+const MS_PER_DAY = 86_400_000;
+
+/** Mean days per bucket, for projecting forward. */
+const BUCKET_DAYS: Record<VelocityBucketSize, number> = { day: 1, week: 7, month: 30.44 };
+
+/** Defaults shared by the descriptor and {@link runVelocity}. */
+export const DEFAULT_VELOCITY_PERIODS = 12;
+export const DEFAULT_VELOCITY_TRAILING = 4;
+
+/** Project name reported for inbox tasks. */
+const INBOX = "(Inbox)";
+
+/** Time-series granularity. Weeks start on Monday. */
+export type VelocityBucketSize = "day" | "week" | "month";
+
+/** One bucket of a {@link VelocitySeries}. */
+export interface VelocityPoint {
+  /** First day of the bucket, `YYYY-MM-DD` (UTC). */
+  start: string;
+  /** Tasks completed in the bucket. */
+  completed: number;
+  /** Estimated minutes of the tasks completed in the bucket. */
+  completedMinutes: number;
+  /** Tasks added by the end of the bucket and not completed by then. */
+  remaining: number;
+}
+
+/** Velocity, burndown and projection for one project, or everything. */
+export interface VelocitySeries {
+  /** Project ID; `null` for the inbox and for the totals. */
+  id: string | null;
+  /** Project name; `(Inbox)` for inbox tasks, `All` for the totals. */
+  name: string;
+  /** Oldest bucket first; the last is the current, partial bucket. */
+  series: VelocityPoint[];
+  /** Open tasks now. */
+  remaining: number;
+  /** Estimated minutes of the open tasks that have an estimate. */
+  remainingMinutes: number;
+  /** Open tasks without an estimate. */
+  unestimated: number;
+  /** Mean tasks completed per bucket over the trailing buckets. */
+  velocity: number;
+  /** Mean estimated minutes completed per bucket over the trailing buckets. */
+  minutesVelocity: number;
+  /** Projected completion day (`YYYY-MM-DD`), or `null` without remaining work or velocity. */
+  projectedCompletion: string | null;
+  /** What the projection divided: estimated minutes or task counts. */
+  basis: "minutes" | "tasks" | null;
+}
+
+/** Shape returned by the `velocity` command. */
+export interface VelocityReport {
+  /** When the report was computed (ISO 8601). */
+  at: string;
+  bucket: VelocityBucketSize;
+  /** Buckets in each series. */
+  periods: number;
+  /** Complete buckets averaged into the velocity. */
+  trailing: number;
+  totals: VelocitySeries;
+  /** Projects with open tasks or completions in the window, most remaining first. */
+  projects: VelocitySeries[];
+}
+
+/** Dependencies for {@link runVelocity}; the descriptor passes real ones. */
+export interface VelocityDeps {
+  scanWatched: (classes: readonly WatchedClass[]) => Promise<Snapshot>;
+  /** The current instant as an ISO 8601 string. */
+  now: string;
+}
+
+interface VelocityInput {
+  bucket?: VelocityBucketSize | undefined;
+  periods?: number | undefined;
+  trailing?: number | undefined;
+  project?: string | undefined;
+}
+
+/** A scanned task reduced to what the series need (times in ms). */
+interface TaskTimes {
+  added: number | null;
+  completed: number | null;
+  minutes: number | null;
+}
+
+/** Start (UTC) of the bucket containing `ms`. */
+export function bucketStart(ms: number, bucket: VelocityBucketSize): number {
+  const date = new Date(ms);
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  if (bucket === "day") return day;
+  if (bucket === "week") return day - ((date.getUTCDay() + 6) % 7) * MS_PER_DAY;
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1);
+}
+
+/** Start of the bucket `offset` buckets after the one starting at `start`. */
+function shiftBucket(start: number, bucket: VelocityBucketSize, offset: number): number {
+  if (bucket === "day") return start + offset * MS_PER_DAY;
+  if (bucket === "week") return start + offset * 7 * MS_PER_DAY;
+  const date = new Date(start);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + offset, 1);
+}
+
+function parseTime(value: unknown): number | null {
+  if (typeof value !== "string" || value === "") return null;
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : ms;
+}
+
+const round1 = (n: number): number => Math.round(n * 10) / 10;
+
+/** Bucket starts for the window: `periods` buckets ending with the current one. */
+function windowStarts(now: number, bucket: VelocityBucketSize, periods: number): number[] {
+  const current = bucketStart(now, bucket);
+  return Array.from({ length: periods }, (_, i) => shiftBucket(current, bucket, i - periods + 1));
+}
+
+function buildSeries(
+  id: string | null,
+  name: string,
+  tasks: readonly TaskTimes[],
+  starts: readonly number[],
+  options: { bucket: VelocityBucketSize; trailing: number; now: number },
+): VelocitySeries {
+  const series: VelocityPoint[] = starts.map((start) => {
+    const end = shiftBucket(start, options.bucket, 1);
+    let completed = 0;
+    let completedMinutes = 0;
+    let remaining = 0;
+    for (const task of tasks) {
+      if (task.completed !== null && task.completed >= start && task.completed < end) {
+        completed++;
+        completedMinutes += task.minutes ?? 0;
+      }
+      const existed = task.added === null || task.added < end;
+      if (existed && (task.completed === null || task.completed >= end)) remaining++;
+    }
+    return { start: new Date(start).toISOString().slice(0, 10), completed, completedMinutes, remaining };
+  });
+
+  const open = tasks.filter((t) => t.completed === null);
+  const estimated = open.filter((t) => t.minutes !== null);
+  const remainingMinutes = estimated.reduce((sum, t) => sum + (t.minutes ?? 0), 0);
+  // Complete buckets only: the current one is still filling up.
+  const window = series.slice(0, -1).slice(-options.trailing);
+  const mean = (values: number[]): number =>
+    values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+  const velocity = mean(window.map((p) => p.completed));
+  const minutesVelocity = mean(window.map((p) => p.completedMinutes));
+
+  let basis: VelocitySeries["basis"] = null;
+  let bucketsLeft = 0;
+  if (minutesVelocity > 0 && estimated.length > 0) {
+    basis = "minutes";
+    const work = remainingMinutes + (open.length - estimated.length) * (remainingMinutes / estimated.length);
+    bucketsLeft = work / minutesVelocity;
+  } else if (velocity > 0 && open.length > 0) {
+    basis = "tasks";
+    bucketsLeft = open.length / velocity;
+  }
+  const projectedCompletion =
+    basis === null
+      ? null
+      : new Date(options.now + bucketsLeft * BUCKET_DAYS[options.bucket] * MS_PER_DAY)
+          .toISOString()
+          .slice(0, 10);
+
+  return {
+    id,
+    name,
+    series,
+    remaining: open.length,
+    remainingMinutes,
+    unestimated: open.length - estimated.length,
+    velocity: round1(velocity),
+    minutesVelocity: round1(minutesVelocity),
+    projectedCompletion,
+    basis,
+  };
+}
+
+/** Core handler. `deps` is injected in tests. */
+export async function runVelocity(
+  input: VelocityInput,
+  deps: VelocityDeps,
+): Promise<CliOutput<VelocityReport>> {
+  const bucket = input.bucket ?? "week";
+  const periods = input.periods ?? DEFAULT_VELOCITY_PERIODS;
+  const trailing = input.trailing ?? DEFAULT_VELOCITY_TRAILING;
+  const now = Date.parse(deps.now);
+  const snapshot = await deps.scanWatched(["tasks", "projects"]);
+  const projects = snapshot.projects ?? {};
+  const projectFilter = input.project?.toLowerCase();
+
+  const all: TaskTimes[] = [];
+  const byProject = new Map<string | null, { name: string; tasks: TaskTimes[] }>();
+  for (const task of Object.values(snapshot.tasks ?? {})) {
+    if (task.dropped === true || task.hasChildren === true) continue;
+    const projectId = task.fields["projectId"];
+    const project = typeof projectId === "string" ? projects[projectId] : undefined;
+    if (project?.fields["status"] === "dropped") continue;
+    const projectName = project?.fields["name"];
+    const name = typeof projectName === "string" ? projectName : INBOX;
+    if (projectFilter !== undefined && name.toLowerCase() !== projectFilter) continue;
+
+    const times = taskTimes(task);
+    all.push(times);
+    const key = project === undefined ? null : project.id;
+    const group = byProject.get(key);
+    if (group === undefined) byProject.set(key, { name, tasks: [times] });
+    else group.tasks.push(times);
+  }
+
+  const starts = windowStarts(now, bucket, periods);
+  const options = { bucket, trailing, now };
+  const projectSeries = [...byProject]
+    .map(([id, group]) => buildSeries(id, group.name, group.tasks, starts, options))
+    .filter((s) => s.remaining > 0 || s.series.some((p) => p.completed > 0))
+    .sort((a, b) => b.remaining - a.remaining || a.name.localeCompare(b.name));
+
+  return success({
+    at: deps.now,
+    bucket,
+    periods,
+    trailing,
+    totals: buildSeries(null, "All", all, starts, options),
+    projects: projectSeries,
+  });
+}
+
+function taskTimes(task: WatchedObject): TaskTimes {
+  const { fields } = task;
+  const minutes = fields["estimatedMinutes"];
+  // A completed task without a completion date still counts as done, long ago.
+  const completed = fields["completed"] === true ? (parseTime(fields["completionDate"]) ?? 0) : null;
+  return {
+    added: parseTime(task.added),
+    completed,
+    minutes: typeof minutes === "number" && minutes > 0 ? minutes : null,
+  };
+}
+
+/** The descriptor — surfaced through CLI + MCP + docs via the registry union. */
+export const velocityDescriptor = defineCommand({
+  name: "velocity",
+  cliName: "velocity",
+  mcpName: "velocity",
+  description:
+    "Completion velocity and burndown per project: tasks (and estimated minutes) completed per day, week or month, remaining open tasks at the end of each bucket, and a projected completion date from the trailing velocity and remaining estimatedMinutes.",
+  inputSchema: z.object({
+    bucket: z
+      .enum(["day", "week", "month"])
+      .optional()
+      .describe("Time-series granularity (default week; weeks start on Monday, UTC)"),
+    periods: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(`Number of buckets in each series, ending with the current one (default ${String(DEFAULT_VELOCITY_PERIODS)})`),
+    trailing: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(`Complete buckets averaged for the velocity and projection (default ${String(DEFAULT_VELOCITY_TRAILING)})`),
+    project: z.string().optional().describe("Only report this project (name)"),
+  }),
+  handler: async (parsed): Promise<CliOutput<VelocityReport>> =>
+    runVelocity(parsed, { scanWatched, now: new Date().toISOString() }),
+});
@@ -0,0 +1,337 @@
+/**
+ * `workload` — the forecast as a capacity view, to spot overcommitted days
+ * before they arrive.
+ *
+ * Reads {@link queryForecast} with deferred tasks included and sums the
+ * estimated minutes landing on each calendar day of the window — days in
+ * `timeZone`, else `OFOCUS_TIME_ZONE`, else UTC. A task counts on its due day
+ * when that falls in the window, otherwise on its defer day.
+ * Tasks without an estimate count as `defaultMinutes` and are also listed
+ * separately, since their load is a guess.
+ *
+ * A day whose load exceeds its capacity is overloaded. Its defer candidates
+ * are the non-flagged tasks with the most slack — no due date first, then the
+ * most days between the day and the due date — taken until the excess is
+ * covered. Tasks due that day have no slack and are never suggested.
+ */
+import { z } from "zod";
+import {
+  type CliOutput,
+  type OFTask,
+  ErrorCode,
+  createError,
+  defineCommand,
+  failure,
+  queryForecast,
+  resolveTimeZone,
+  success,
+  utcToZonedTime,
+} from "@ofocus/sdk";
+import { DEFAULT_TASK_MINUTES, parseBudget } from "./plan-day.js";
+
+/** Milliseconds in a day. */
+const MS_PER_DAY = 86_400_000;
+
+/** Defaults shared by the descriptor and {@link runWorkload}. */
+export const DEFAULT_WORKLOAD_DAYS = 7;
+export const DEFAULT_DAILY_CAPACITY = "6h";
+
+/** Task fields the workload needs from the forecast. */
+const WORKLOAD_FIELDS = [
+  "id",
+  "name",
+  "projectName",
+  "flagged",
+  "dueDate",
+  "deferDate",
+  "estimatedMinutes",
+];
+
+/** A task counted towards a day's load. */
+export interface WorkloadTask {
+  id: string;
+  name: string;
+  projectName: string | null;
+  /** Estimated minutes, or the default for unestimated tasks. */
+  minutes: number;
+  /** False when `minutes` is the default rather than the task's estimate. */
+  estimated: boolean;
+  flagged: boolean;
+  dueDate: string | null;
+  deferDate: string | null;
+  /** Days from this day to the due date; `null` without a due date. */
+  slackDays: number | null;
+}
+
+/** One calendar day of the workload forecast. */
+export interface WorkloadDay {
+  /** `YYYY-MM-DD` in the report's time zone. */
+  date: string;
+  capacityMinutes: number;
+  /** Estimated plus defaulted minutes. */
+  loadMinutes: number;
+  /** Minutes from tasks with an estimate. */
+  estimatedMinutes: number;
+  /** Minutes assumed for tasks without an estimate. */
+  defaultedMinutes: number;
+  unestimatedCount: number;
+  overloaded: boolean;
+  /** Load above capacity; 0 when not overloaded. */
+  excessMinutes: number;
+  /** Tasks on the day, due ones first. */
+  tasks: WorkloadTask[];
+  /** Suggested tasks to defer off an overloaded day, most slack first. */
+  deferCandidates: WorkloadTask[];
+  /** Excess the candidates can't cover (flagged or due-that-day work). */
+  uncoveredMinutes: number;
+}
+
+/** An unestimated task, and the day its default estimate was counted on. */
+export interface UnestimatedTask {
+  id: string;
+  name: string;
+  projectName: string | null;
+  date: string;
+}
+
+/** Shape returned by the `workload` command. */
+export interface WorkloadReport {
+  /** When the report was computed (ISO 8601). */
+  at: string;
+  /** IANA time zone of the forecast's calendar days. */
+  timeZone: string;
+  days: number;
+  capacityMinutes: number;
+  weekendCapacityMinutes: number;
+  /** Minutes assumed for each unestimated task. */
+  defaultMinutes: number;
+  /** Load across the window. */
+  totalMinutes: number;
+  overloadedDays: string[];
+  forecast: WorkloadDay[];
+  unestimated: UnestimatedTask[];
+}
+
+/** Dependencies for {@link runWorkload}; the descriptor passes the real ones. */
+export interface WorkloadDeps {
+  /** Fetches open tasks due or deferred within the next `days` days. */
+  fetchForecast: (days: number) => Promise<CliOutput<OFTask[]>>;
+  /** The current instant as an ISO 8601 string. */
+  now: string;
+  /** IANA time zone for calendar days (default UTC). */
+  timeZone?: string | undefined;
+}
+
+interface WorkloadInput {
+  days?: number | undefined;
+  capacity?: string | undefined;
+  weekendCapacity?: string | undefined;
+  defaultMinutes?: number | undefined;
+}
+
+/**
+ * The calendar day of `iso` in `timeZone`, as midnight UTC of that date, so
+ * days step by a fixed {@link MS_PER_DAY} even across DST changes.
+ */
+function calendarDay(iso: string, timeZone: string): number {
+  return Date.parse((utcToZonedTime(iso, timeZone) ?? iso).slice(0, 10));
+}
+
+function parseCapacity(value: string, label: string): number | CliOutput<WorkloadReport> {
+  const minutes = parseBudget(value);
+  if (minutes === null) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Invalid ${label}: ${value} (expected e.g. "360", "6h" or "7h30m")`,
+      ),
+    );
+  }
+  return minutes;
+}
+
+/** Greedily pick defer candidates, most slack first, until `excess` is covered. */
+function pickDeferCandidates(
+  tasks: readonly WorkloadTask[],
+  excess: number,
+): { candidates: WorkloadTask[]; uncovered: number } {
+  const movable = tasks
+    .filter((t) => !t.flagged && t.slackDays !== 0)
+    .sort(
+      (a, b) =>
+        (b.slackDays ?? Infinity) - (a.slackDays ?? Infinity) ||
+        b.minutes - a.minutes ||
+        a.name.localeCompare(b.name),
+    );
+  const candidates: WorkloadTask[] = [];
+  let uncovered = excess;
+  for (const task of movable) {
+    if (uncovered <= 0) break;
+    candidates.push(task);
+    uncovered -= task.minutes;
+  }
+  return { candidates, uncovered: Math.max(0, uncovered) };
+}
+
+/** Core handler. `deps` is injected in tests. */
+export async function runWorkload(
+  input: WorkloadInput,
+  deps: WorkloadDeps,
+): Promise<CliOutput<WorkloadReport>> {
+  const days = input.days ?? DEFAULT_WORKLOAD_DAYS;
+  const capacity = parseCapacity(input.capacity ?? DEFAULT_DAILY_CAPACITY, "capacity");
+  if (typeof capacity !== "number") return capacity;
+  const weekendCapacity =
+    input.weekendCapacity === undefined
+      ? capacity
+      : parseCapacity(input.weekendCapacity, "weekend capacity");
+  if (typeof weekendCapacity !== "number") return weekendCapacity;
+  const defaultMinutes = input.defaultMinutes ?? DEFAULT_TASK_MINUTES;
+  const timeZone = resolveTimeZone(deps.timeZone ?? "UTC");
+  if (typeof timeZone !== "string") return failure(timeZone);
+
+  const fetched = await deps.fetchForecast(days);
+  if (!fetched.success || fetched.data === null) {
+    return failure(fetched.error ?? createError(ErrorCode.UNKNOWN_ERROR, "forecast query failed"));
+  }
+
+  const today = calendarDay(deps.now, timeZone);
+  const byDay = new Map<number, WorkloadTask[]>();
+  const unestimated: UnestimatedTask[] = [];
+  for (const task of fetched.data) {
+    const due = task.dueDate === null ? null : calendarDay(task.dueDate, timeZone);
+    const deferred = task.deferDate === null ? null : calendarDay(task.deferDate, timeZone);
+    const inWindow = (day: number | null): day is number =>
+      day !== null && day >= today && day < today + days * MS_PER_DAY;
+    const day = inWindow(due) ? due : inWindow(deferred) ? deferred : null;
+    if (day === null) continue;
+
+    const estimated = task.estimatedMinutes !== null && task.estimatedMinutes > 0;
+    const entry: WorkloadTask = {
+      id: task.id,
+      name: task.name,
+      projectName: task.projectName,
+      minutes: estimated ? (task.estimatedMinutes ?? defaultMinutes) : defaultMinutes,
+      estimated,
+      flagged: task.flagged,
+      dueDate: task.dueDate,
+      deferDate: task.deferDate,
+      slackDays: due === null ? null : Math.round((due - day) / MS_PER_DAY),
+    };
+    const list = byDay.get(day);
+    if (list === undefined) byDay.set(day, [entry]);
+    else list.push(entry);
+    if (!estimated) {
+      unestimated.push({
+        id: task.id,
+        name: task.name,
+        projectName: task.projectName,
+        date: new Date(day).toISOString().slice(0, 10),
+      });
+    }
+  }
+
+  const forecast: WorkloadDay[] = Array.from({ length: days }, (_, i) => {
+    const day = today + i * MS_PER_DAY;
+    const weekday = new Date(day).getUTCDay();
+    const capacityMinutes = weekday === 0 || weekday === 6 ? weekendCapacity : capacity;
+    const tasks = (byDay.get(day) ?? []).sort(
+      (a, b) => (a.slackDays ?? Infinity) - (b.slackDays ?? Infinity) || a.name.localeCompare(b.name),
+    );
+    const estimatedMinutes = tasks.reduce((sum, t) => sum + (t.estimated ? t.minutes : 0), 0);
+    const defaultedMinutes = tasks.reduce((sum, t) => sum + (t.estimated ? 0 : t.minutes), 0);
+    const loadMinutes = estimatedMinutes + defaultedMinutes;
+    const excessMinutes = Math.max(0, loadMinutes - capacityMinutes);
+    const { candidates, uncovered } = pickDeferCandidates(tasks, excessMinutes);
+    return {
+      date: new Date(day).toISOString().slice(0, 10),
+      capacityMinutes,
+      loadMinutes,
+      estimatedMinutes,
+      defaultedMinutes,
+      unestimatedCount: tasks.filter((t) => !t.estimated).length,
+      overloaded: excessMinutes > 0,
+      excessMinutes,
+      tasks,
+      deferCandidates: candidates,
+      uncoveredMinutes: uncovered,
+    };
+  });
+
+  return success({
+    at: deps.now,
+    timeZone,
+    days,
+    capacityMinutes: capacity,
+    weekendCapacityMinutes: weekendCapacity,
+    defaultMinutes,
+    totalMinutes: forecast.reduce((sum, d) => sum + d.loadMinutes, 0),
+    overloadedDays: forecast.filter((d) => d.overloaded).map((d) => d.date),
+    forecast,
+    unestimated,
+  });
+}
+
+/**
+ * Centralized descriptor for the `workload` command.
+ *
+ * Drives the CLI subcommand `workload` and the MCP tool `workload`. The real
+ * fetcher reads the forecast with deferred tasks included and propagates any
+ * query failure.
+ *
+ * @public
+ */
+export const workloadDescriptor = defineCommand({
+  name: "workload",
+  cliName: "workload",
+  mcpName: "workload",
+  description:
+    "Workload forecast: sum the estimated minutes of tasks due or deferred into each day of the next N days, compare each day against a daily capacity, and flag overloaded days with non-flagged, high-slack tasks to defer. Unestimated tasks count as a default estimate and are listed separately.",
+  inputSchema: z.object({
+    days: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(`Days to forecast, starting today (default ${String(DEFAULT_WORKLOAD_DAYS)})`),
+    capacity: z
+      .string()
+      .optional()
+      .describe(`Task time available per day, e.g. "360", "6h" or "7h30m" (default ${DEFAULT_DAILY_CAPACITY})`),
+    weekendCapacity: z
+      .string()
+      .optional()
+      .describe('Capacity on Saturdays and Sundays, e.g. "0" or "2h" (default: same as capacity)'),
+    defaultMinutes: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(`Minutes assumed for tasks without an estimate (default ${String(DEFAULT_TASK_MINUTES)})`),
+    timeZone: z
+      .string()
+      .optional()
+      .describe('IANA time zone for calendar days, e.g. "America/Los_Angeles" (default: OFOCUS_TIME_ZONE, then UTC)'),
+  }),
+  handler: async (parsed): Promise<CliOutput<WorkloadReport>> => {
+    const timeZone = resolveTimeZone(parsed.timeZone);
+    if (typeof timeZone !== "string") return failure(timeZone);
+    return runWorkload(parsed, {
+      now: new Date().toISOString(),
+      timeZone,
+      fetchForecast: async (days): Promise<CliOutput<OFTask[]>> => {
+        const result = await queryForecast({
+          days,
+          includeDeferred: true,
+          timeZone,
+          fields: WORKLOAD_FIELDS,
+          all: true,
+        });
+        if (!result.success || result.data === null) {
+          return failure(result.error ?? createError(ErrorCode.UNKNOWN_ERROR, "Failed to query forecast"));
+        }
+        return success(result.data.kind === "list" ? result.data.items : []);
+      },
+    });
+  },
+});
@@ -0,0 +1,124 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+import { resolveStateDir } from "../changes/cache.js";
+import type {
+  ChangeKind,
+  ChangeSet,
+  ChangedObject,
+  FieldDelta,
+  WatchedClass,
+} from "../changes/types.js";
+
+/** One changed object as retained by the history store. */
+export interface HistoryRecord {
+  /** ISO 8601 time the change was detected. */
+  at: string;
+  watch: string;
+  generation: number;
+  change: ChangeKind;
+  id: string;
+  class: WatchedClass;
+  /** Watched fields after the change (before it, for removals). */
+  object: Record<string, unknown>;
+  delta?: Record<string, FieldDelta>;
+}
+
+/** Where a change set was detected, stamped on each record. */
+export interface HistoryMeta {
+  watch: string;
+  generation: number;
+  at: string;
+}
+
+/** Appends a detected change set to the history store. */
+export type HistoryRecorder = (changes: ChangeSet, meta: HistoryMeta) => void;
+
+/** Resolve the history store path: `<state dir>/history.ndjson`. */
+export function resolveHistoryPath(stateDir?: string): string {
+  return join(resolveStateDir(stateDir), "history.ndjson");
+}
+
+/** True when `OFOCUS_HISTORY` opts in to recording (`1`, `true`, `on` or `yes`). */
+export function historyEnabled(): boolean {
+  const value = process.env["OFOCUS_HISTORY"]?.trim().toLowerCase();
+  return value === "1" || value === "true" || value === "on" || value === "yes";
+}
+
+/** Flatten a change set into history records. */
+export function toHistoryRecords(changes: ChangeSet, meta: HistoryMeta): HistoryRecord[] {
+  const record = (change: ChangeKind) =>
+    (c: ChangedObject): HistoryRecord => ({
+      ...meta,
+      change,
+      id: c.id,
+      class: c.class,
+      object: c.object,
+      ...(c.delta !== undefined ? { delta: c.delta } : {}),
+    });
+  return [
+    ...changes.added.map(record("added")),
+    ...changes.updated.map(record("updated")),
+    ...changes.removed.map(record("removed")),
+  ];
+}
+
+/** Append a change set to the store at `path`, one NDJSON line per object. */
+export function appendHistory(path: string, changes: ChangeSet, meta: HistoryMeta): void {
+  const records = toHistoryRecords(changes, meta);
+  if (records.length === 0) return;
+  mkdirSync(dirname(path), { recursive: true });
+  appendFileSync(path, records.map((r) => `${JSON.stringify(r)}\n`).join(""), "utf8");
+}
+
+/**
+ * The recorder for `changes` and `changes-watch`: appends to the store in
+ * `stateDir` when `OFOCUS_HISTORY` opts in, otherwise `undefined` (nothing is
+ * kept). Recording is best-effort and never fails the scan that fed it.
+ */
+export function historyRecorder(stateDir?: string): HistoryRecorder | undefined {
+  if (!historyEnabled()) return undefined;
+  const path = resolveHistoryPath(stateDir);
+  return (changes, meta) => {
+    try {
+      appendHistory(path, changes, meta);
+    } catch {
+      /* best-effort: a full disk must not break change detection */
+    }
+  };
+}
+
+/**
+ * Read the records in the store at `path`, oldest first, optionally for one
+ * object. A missing store reads as empty; malformed lines (e.g. a torn
+ * write) are skipped.
+ */
+export function readHistory(path: string, id?: string): HistoryRecord[] {
+  if (!existsSync(path)) return [];
+  const records: HistoryRecord[] = [];
+  for (const line of readFileSync(path, "utf8").split("\n")) {
+    if (line.trim() === "") continue;
+    try {
+      const record = JSON.parse(line) as HistoryRecord;
+      if (id === undefined || record.id === id) records.push(record);
+    } catch {
+      /* skip malformed line */
+    }
+  }
+  return records;
+}
+
+/**
+ * Order one object's records oldest first and drop each update identical to
+ * the one before it: two watches (or a watch and `changes --fresh`) scanning
+ * the same edit both record it.
+ */
+export function dedupeHistory(records: readonly HistoryRecord[]): HistoryRecord[] {
+  const kept: HistoryRecord[] = [];
+  let previous = "";
+  for (const record of [...records].sort((a, b) => a.at.localeCompare(b.at))) {
+    const key = `${record.change}:${JSON.stringify(record.delta ?? record.object)}`;
+    if (key !== previous) kept.push(record);
+    previous = key;
+  }
+  return kept;
+}
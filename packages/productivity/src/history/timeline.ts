@@ -0,0 +1,176 @@
+/**
+ * `timeline <id>` — how one task (or project, tag, folder) changed over
+ * time, from the opt-in history store that `changes` and `changes-watch`
+ * append to when `OFOCUS_HISTORY` is set.
+ *
+ * The command is named `timeline` because `history` is the undo journal's
+ * list of mutations made through ofocus; the timeline also covers edits made
+ * in OmniFocus itself, as detected by change scans.
+ */
+import { z } from "zod";
+import { type CliOutput, defineCommand, success } from "@ofocus/sdk";
+import type { ChangeKind, FieldDelta, WatchedClass } from "../changes/types.js";
+import {
+  type HistoryRecord,
+  dedupeHistory,
+  historyEnabled,
+  readHistory,
+  resolveHistoryPath,
+} from "./store.js";
+
+/** One detected change to the object. */
+export interface TimelineEntry {
+  at: string;
+  watch: string;
+  change: ChangeKind;
+  /** Field-level deltas, for updates. */
+  delta?: Record<string, FieldDelta>;
+  /** Watched fields when added (or last known, when removed). */
+  object?: Record<string, unknown>;
+}
+
+/** Counts over the object's whole history, for spotting postponed work. */
+export interface TimelineStats {
+  /** Recorded updates (after de-duplication). */
+  updates: number;
+  /** Defer date set, or moved later. */
+  deferrals: number;
+  /** Any due date change. */
+  dueDateChanges: number;
+  /** Due date moved later. */
+  duePostponements: number;
+  /** Moved to another project. */
+  projectMoves: number;
+  tagChanges: number;
+  flagChanges: number;
+  /** Marked completed (a repeating task can complete many times). */
+  completions: number;
+}
+
+/** Shape returned by the `timeline` command. */
+export interface TimelineOutput {
+  id: string;
+  class: WatchedClass | null;
+  /** Most recently recorded name. */
+  name: string | null;
+  /** Whether `OFOCUS_HISTORY` is recording new changes. */
+  recording: boolean;
+  firstSeen: string | null;
+  lastSeen: string | null;
+  stats: TimelineStats;
+  entries: TimelineEntry[];
+  note?: string;
+}
+
+/** Dependencies injected for testing. */
+export interface TimelineDeps {
+  stateDir?: string;
+  recording?: boolean;
+}
+
+interface TimelineInput {
+  id: string;
+  fields?: string[] | undefined;
+  limit?: number | undefined;
+}
+
+/** True when `to` is a later ISO date than `from` (or `from` was unset). */
+function movedLater(delta: FieldDelta | undefined, requireFrom: boolean): boolean {
+  if (delta === undefined || typeof delta.to !== "string") return false;
+  if (typeof delta.from !== "string") return !requireFrom;
+  return Date.parse(delta.to) > Date.parse(delta.from);
+}
+
+/** Compute the {@link TimelineStats} for an object's records. */
+export function timelineStats(records: readonly HistoryRecord[]): TimelineStats {
+  const stats: TimelineStats = {
+    updates: 0,
+    deferrals: 0,
+    dueDateChanges: 0,
+    duePostponements: 0,
+    projectMoves: 0,
+    tagChanges: 0,
+    flagChanges: 0,
+    completions: 0,
+  };
+  for (const { change, delta } of records) {
+    if (change !== "updated" || delta === undefined) continue;
+    stats.updates++;
+    if (movedLater(delta["deferDate"], false)) stats.deferrals++;
+    if (delta["dueDate"] !== undefined) stats.dueDateChanges++;
+    if (movedLater(delta["dueDate"], true)) stats.duePostponements++;
+    if (delta["projectId"] !== undefined) stats.projectMoves++;
+    if (delta["tags"] !== undefined) stats.tagChanges++;
+    if (delta["flagged"] !== undefined) stats.flagChanges++;
+    if (delta["completed"]?.to === true) stats.completions++;
+  }
+  return stats;
+}
+
+/** Core handler. `deps` is injected in tests. */
+export function runTimeline(input: TimelineInput, deps: TimelineDeps): CliOutput<TimelineOutput> {
+  const recording = deps.recording ?? historyEnabled();
+  const records = dedupeHistory(readHistory(resolveHistoryPath(deps.stateDir), input.id));
+  const last = records[records.length - 1];
+  let name: string | null = null;
+  for (const record of records) {
+    const recorded = record.object["name"];
+    if (typeof recorded === "string") name = recorded;
+  }
+
+  let entries: TimelineEntry[] = records.map((r) => ({
+    at: r.at,
+    watch: r.watch,
+    change: r.change,
+    ...(r.delta !== undefined ? { delta: r.delta } : { object: r.object }),
+  }));
+  const fields = input.fields;
+  if (fields !== undefined && fields.length > 0) {
+    entries = entries.filter(
+      (e) => e.delta === undefined || fields.some((f) => e.delta?.[f] !== undefined),
+    );
+  }
+  if (input.limit !== undefined) entries = entries.slice(-input.limit);
+
+  const output: TimelineOutput = {
+    id: input.id,
+    class: last?.class ?? null,
+    name,
+    recording,
+    firstSeen: records[0]?.at ?? null,
+    lastSeen: last?.at ?? null,
+    stats: timelineStats(records),
+    entries,
+  };
+  if (records.length === 0) {
+    output.note = recording
+      ? "No changes recorded for this ID yet."
+      : "History is not being recorded. Set OFOCUS_HISTORY=1 for `changes` and `changes-watch` to keep it.";
+  }
+  return success(output);
+}
+
+/** The descriptor — surfaced through CLI + MCP + docs via the registry union. */
+export const timelineDescriptor = defineCommand({
+  name: "timeline",
+  cliName: "timeline",
+  mcpName: "timeline",
+  description:
+    "Show how a task, project, tag or folder changed over time (due and defer dates, project, tags, flag, completion), with counts such as how many times it was deferred or its due date pushed back. Reads the opt-in history store that changes and changes-watch append to when OFOCUS_HISTORY=1.",
+  cliPositional: ["id"],
+  inputSchema: z.object({
+    id: z.string().describe("ID of the task, project, tag or folder"),
+    fields: z
+      .array(z.string())
+      .optional()
+      .describe("Only list updates touching these fields, e.g. dueDate deferDate (stats still count everything)"),
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Only list the most recent N entries"),
+  }),
+  handler: async (parsed): Promise<CliOutput<TimelineOutput>> =>
+    Promise.resolve(runTimeline(parsed, {})),
+});
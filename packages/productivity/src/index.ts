@@ -12,12 +12,65 @@ import {
 } from "./commands/digests.js";
 import { nextOccurrencesDescriptor } from "./commands/next-occurrences.js";
 import { occurrencesDescriptor } from "./commands/occurrences.js";
+import { planDayDescriptor } from "./commands/plan-day.js";
+import { procrastinationDescriptor } from "./commands/procrastination.js";
+import { velocityDescriptor } from "./commands/velocity.js";
+import { workloadDescriptor } from "./commands/workload.js";
 import { resolveDescriptor } from "./commands/resolve.js";
+import { sinksDescriptor } from "./sinks/command.js";
+import { timelineDescriptor } from "./history/timeline.js";
 
 export { changesDescriptor } from "./changes/command.js";
 export type { ChangesOutput, ChangesDeps } from "./changes/command.js";
 export * from "./changes/types.js";
 export { resolveDbPackagePath, readDbMtime } from "./changes/fda.js";
+export { scanFingerprint, scanWatched } from "./changes/scan.js";
+export { fingerprintsEqual } from "./changes/fingerprint.js";
+export { runWatch, DEFAULT_WATCH_INTERVAL_MS } from "./changes/watch.js";
+export type {
+  WatchDeps,
+  WatchEvent,
+  WatchReadyEvent,
+  WatchChangesEvent,
+  WatchErrorEvent,
+  WatchDeliveryEvent,
+  WatchOptions,
+} from "./changes/watch.js";
+export { listenEventSocket } from "./changes/socket.js";
+export type { EventSocket } from "./changes/socket.js";
+
+export { runSinks, sinksDescriptor } from "./sinks/command.js";
+export type { SinksOutput, SinksDeps, SinkSummary } from "./sinks/command.js";
+export {
+  loadSinks,
+  resolveDeadLetterPath,
+  resolveSinksPath,
+  sinkConfigSchema,
+} from "./sinks/config.js";
+export type { Sink, SinkConfig } from "./sinks/config.js";
+export { deliverToSink, signPayload } from "./sinks/deliver.js";
+export type { DeliverDeps, SinkDelivery, SinkPayload } from "./sinks/deliver.js";
+export { dispatchChanges, matchChanges } from "./sinks/dispatch.js";
+export { parseChangeFilter } from "./sinks/filter.js";
+export type { ChangeFilter, ChangeMatch } from "./sinks/filter.js";
+
+export { runTimeline, timelineDescriptor, timelineStats } from "./history/timeline.js";
+export type {
+  TimelineDeps,
+  TimelineEntry,
+  TimelineOutput,
+  TimelineStats,
+} from "./history/timeline.js";
+export {
+  appendHistory,
+  dedupeHistory,
+  historyEnabled,
+  historyRecorder,
+  readHistory,
+  resolveHistoryPath,
+  toHistoryRecords,
+} from "./history/store.js";
+export type { HistoryMeta, HistoryRecord, HistoryRecorder } from "./history/store.js";
 
 export {
   runNextOccurrences,
@@ -42,6 +95,7 @@ export type {
 } from "./commands/occurrences.js";
 
 export {
+  endOfDay,
   endOfUtcDay,
   groupByDay,
   partitionToday,
@@ -61,6 +115,64 @@ export type {
   WeekItem,
 } from "./commands/digests.js";
 
+export {
+  DEFAULT_TASK_MINUTES,
+  parseBudget,
+  planDayDescriptor,
+  runPlanDay,
+} from "./commands/plan-day.js";
+export type {
+  DayPlan,
+  OverflowTask,
+  PlanDayDeps,
+  PlannedTask,
+} from "./commands/plan-day.js";
+
+export {
+  DEFAULT_DAILY_CAPACITY,
+  DEFAULT_WORKLOAD_DAYS,
+  runWorkload,
+  workloadDescriptor,
+} from "./commands/workload.js";
+export type {
+  UnestimatedTask,
+  WorkloadDay,
+  WorkloadDeps,
+  WorkloadReport,
+  WorkloadTask,
+} from "./commands/workload.js";
+
+export {
+  DEFAULT_DEFERRED_MORE_THAN,
+  DEFAULT_PROCRASTINATION_LIMIT,
+  DEFAULT_UNTOUCHED_DAYS,
+  dueSlipDays,
+  procrastinationDescriptor,
+  runProcrastination,
+} from "./commands/procrastination.js";
+export type {
+  AgeDistribution,
+  ProcrastinatedTask,
+  ProcrastinationDeps,
+  ProcrastinationGroup,
+  ProcrastinationReport,
+} from "./commands/procrastination.js";
+
+export {
+  DEFAULT_VELOCITY_PERIODS,
+  DEFAULT_VELOCITY_TRAILING,
+  bucketStart,
+  runVelocity,
+  velocityDescriptor,
+} from "./commands/velocity.js";
+export type {
+  VelocityBucketSize,
+  VelocityDeps,
+  VelocityPoint,
+  VelocityReport,
+  VelocitySeries,
+} from "./commands/velocity.js";
+
 export {
   runResolve,
   buildAnchorResolver,
@@ -82,10 +194,16 @@ export const productivityDescriptors: readonly ResolvedCommandDescriptor<
   any
 >[] = [
   changesDescriptor,
+  sinksDescriptor,
+  timelineDescriptor,
   nextOccurrencesDescriptor,
   occurrencesDescriptor,
   todayDescriptor,
   thisWeekDescriptor,
+  planDayDescriptor,
+  workloadDescriptor,
+  procrastinationDescriptor,
+  velocityDescriptor,
   resolveDescriptor,
 ];
 /* eslint-enable @typescript-eslint/no-explicit-any */
@@ -4,29 +4,50 @@
  * Enumerates the next N occurrences of a {@link RepetitionRule}, starting from
  * (and strictly after) a reference instant. The function is **pure** and
  * **deterministic**: it never reads the wall clock — the anchor and the
- * optional `from` boundary are injected as ISO strings.
+ * optional `from` / `to` boundaries are injected as ISO strings.
  *
- * ## Time zone & DST caveat
+ * ## Algorithm
  *
- * All calendar arithmetic is performed in **UTC** (`Date.UTC`,
- * `getUTC*`). This makes the output deterministic regardless of the host
- * machine's timezone, which is essential for CI stability. The practical
- * consequence is that occurrences inherit the anchor's **UTC** time-of-day,
- * not its local-wall-clock time-of-day. A rule anchored at "09:00 local" in a
- * DST-observing zone is treated purely as its UTC instant; this expander does
- * not attempt to preserve local wall-clock time across DST transitions. For
- * the productivity use cases here (date-driven recurrence) this is the
- * intended, well-defined behaviour.
+ * The anchor plays the role of DTSTART. Each recurrence period (a year, month,
+ * week, day, hour, minute or second, every INTERVAL of them from the anchor's
+ * period) is expanded into its candidate instants: the period's UTC days that
+ * pass every day-level BY part (BYMONTH, BYWEEKNO, BYYEARDAY, BYMONTHDAY,
+ * BYDAY), times the BYHOUR × BYMINUTE × BYSECOND times of day. BYSETPOS then
+ * picks from that ordered set. Parts the rule leaves out default to the
+ * anchor's, as RFC 5545 prescribes — e.g. a bare `FREQ=MONTHLY` repeats on the
+ * anchor's day-of-month at the anchor's time.
+ *
+ * Instants before the anchor are never generated. COUNT counts generated
+ * instants from the anchor (EXDATE exclusions included, as in the RFC);
+ * UNTIL is inclusive, and a date-only UNTIL covers that whole calendar day.
+ *
+ * ## Time zones & DST
+ *
+ * The rule is expanded on the wall clock of an IANA time zone (`timeZone`,
+ * default UTC), as RFC 5545 does for a DTSTART with a TZID: the anchor is
+ * read as local time, all calendar arithmetic runs on that wall clock
+ * (`Date.UTC`, `getUTC*` over local-time milliseconds), and each occurrence is
+ * converted back to a UTC instant. A rule anchored at 09:00 Pacific therefore
+ * stays at 09:00 local across DST transitions, its UTC hour shifting instead.
+ * A local time skipped by spring-forward moves to the same time after the
+ * gap, an ambiguous one resolves to its first occurrence, and instants that
+ * collapse onto one another are emitted once. The output never depends on the
+ * host machine's time zone, which keeps CI deterministic.
  *
  * @see https://datatracker.ietf.org/doc/html/rfc5545#section-3.3.10
  */
-import type { RepetitionRule } from "@ofocus/sdk";
+import {
+  type RepetitionRule,
+  type RepetitionWeekday,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from "@ofocus/sdk";
 
 /**
- * Upper bound on how many periods (days / weeks / months / years) we scan
- * PAST the `from` boundary before giving up. Guards against pathological rules
- * that never produce `count` occurrences (e.g. an impossible BYMONTHDAY).
- * When the cap is reached we return whatever has been collected so far.
+ * Upper bound on how many periods we scan PAST the `from` boundary before
+ * giving up. Guards against pathological rules that never produce `count`
+ * occurrences (e.g. an impossible BYMONTHDAY). When the cap is reached we
+ * return whatever has been collected so far.
  *
  * The skip-ahead logic (see below) ensures we start the scan at the period
  * containing `from`, so this cap governs the search window after `from`, not
@@ -34,12 +55,68 @@ import type { RepetitionRule } from "@ofocus/sdk";
  */
 const MAX_PERIODS = 2000;
 
-/** UTC time-of-day components carried from the anchor onto every occurrence. */
-interface TimeOfDay {
-  hours: number;
-  minutes: number;
-  seconds: number;
-  ms: number;
+const MS_PER_SECOND = 1_000;
+const MS_PER_MINUTE = 60_000;
+const MS_PER_HOUR = 3_600_000;
+/** Milliseconds per day — used for skip-ahead distance estimates and day arithmetic. */
+const MS_PER_DAY = 86_400_000;
+const MS_PER_WEEK = 7 * MS_PER_DAY;
+
+type Frequency = RepetitionRule["frequency"];
+
+/** Frequencies from finest to coarsest. */
+const FREQUENCY_ORDER: readonly Frequency[] = [
+  "secondly",
+  "minutely",
+  "hourly",
+  "daily",
+  "weekly",
+  "monthly",
+  "yearly",
+];
+
+/** Period length of the sub-daily frequencies. */
+const SUB_DAILY_MS: Partial<Record<Frequency, number>> = {
+  secondly: MS_PER_SECOND,
+  minutely: MS_PER_MINUTE,
+  hourly: MS_PER_HOUR,
+};
+
+/**
+ * A rule with every BY part resolved: `null` means "no constraint", and the
+ * defaults RFC 5545 takes from DTSTART are filled in from the anchor.
+ */
+interface Spec {
+  frequency: Frequency;
+  interval: number;
+  months: number[] | null;
+  weeksOfYear: number[] | null;
+  daysOfYear: number[] | null;
+  daysOfMonth: number[] | null;
+  weekdays: RepetitionWeekday[] | null;
+  /** Whether a BYDAY position counts within the month (else the year). */
+  monthScope: boolean;
+  /** Sorted; `null` only when the frequency fixes the unit (sub-daily). */
+  hours: number[] | null;
+  minutes: number[] | null;
+  seconds: number[] | null;
+  setPositions: number[] | null;
+  /** WKST, 0=Sun..6=Sat. */
+  weekStart: number;
+}
+
+/** Whether `frequency` is coarser than `unit`, i.e. the unit expands within it. */
+function coarserThan(frequency: Frequency, unit: Frequency): boolean {
+  return FREQUENCY_ORDER.indexOf(frequency) > FREQUENCY_ORDER.indexOf(unit);
+}
+
+function sortedUnique(values: readonly number[]): number[] {
+  return Array.from(new Set(values)).sort((a, b) => a - b);
+}
+
+/** Non-negative remainder, so flooring works for pre-1970 instants too. */
+function mod(value: number, divisor: number): number {
+  return ((value % divisor) + divisor) % divisor;
 }
 
 /** Number of days in a given (UTC) month. `month` is 0-indexed. */
@@ -48,170 +125,380 @@ function daysInMonth(year: number, month: number): number {
   return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
 }
 
+/** Whether a 1-based index (negative from the end) picks `index` of `length`. */
+function picks(
+  values: readonly number[],
+  index: number,
+  length: number
+): boolean {
+  return values.some((n) => (n > 0 ? n === index : length + n + 1 === index));
+}
+
+/** Midnight-UTC of the week (starting on `weekStart`) that contains `dayMs`. */
+function weekStartOf(dayMs: number, weekStart: number): number {
+  const weekday = new Date(dayMs).getUTCDay();
+  return dayMs - mod(weekday - weekStart, 7) * MS_PER_DAY;
+}
+
 /**
- * Construct a UTC ISO timestamp for the given Y/M/D + time-of-day, but only if
- * the constructed date actually lands on the requested Y/M/D. `Date.UTC` rolls
- * overflowing components forward (e.g. day 31 of a 30-day month becomes the 1st
- * of the next month), so we validate by reading the components back. Returns
- * `null` when the date is invalid (must be skipped per RFC 5545 — no clamping).
+ * RFC 5545 week number of the day at `dayMs`: week 1 is the first week with
+ * at least four days in the year, weeks start on `weekStart`, and a week
+ * belongs to the year holding its fourth day. Also returns how many weeks
+ * that week-numbering year has, for negative BYWEEKNO values.
  */
-function makeISO(
-  year: number,
-  month: number,
-  day: number,
-  time: TimeOfDay
-): string | null {
-  const ms = Date.UTC(
-    year,
-    month,
-    day,
-    time.hours,
-    time.minutes,
-    time.seconds,
-    time.ms
-  );
-  const d = new Date(ms);
+function weekNumber(
+  dayMs: number,
+  weekStart: number
+): { week: number; weeks: number } {
+  const start = weekStartOf(dayMs, weekStart);
+  const year = new Date(start + 3 * MS_PER_DAY).getUTCFullYear();
+  // The week holding January 4th always has four days in the year.
+  const first = weekStartOf(Date.UTC(year, 0, 4), weekStart);
+  const next = weekStartOf(Date.UTC(year + 1, 0, 4), weekStart);
+  return {
+    week: Math.round((start - first) / MS_PER_WEEK) + 1,
+    weeks: Math.round((next - first) / MS_PER_WEEK),
+  };
+}
+
+/** Fill in the rule's implicit parts from the anchor. */
+function normalize(rule: RepetitionRule, anchor: Date): Spec {
+  let weekdays: RepetitionWeekday[] | null = rule.weekdays ?? null;
+  const days = rule.daysOfWeek;
+  if (weekdays === null && days !== undefined && days.length > 0) {
+    const positions = rule.daysOfWeekPositions ?? [];
+    weekdays =
+      positions.length > 0
+        ? positions.flatMap((position) =>
+            days.map((day) => ({ day, position }))
+          )
+        : days.map((day) => ({ day }));
+  }
+  let daysOfMonth =
+    rule.dayOfMonth !== undefined
+      ? [rule.dayOfMonth]
+      : (rule.daysOfMonth ?? null);
+  let months = rule.monthsOfYear ?? null;
+  const weeksOfYear = rule.weeksOfYear ?? null;
+  const daysOfYear = rule.daysOfYear ?? null;
+
+  // Without a day-level BY part, the anchor's day is the one that repeats.
   if (
-    d.getUTCFullYear() !== year ||
-    d.getUTCMonth() !== month ||
-    d.getUTCDate() !== day
+    weekdays === null &&
+    daysOfMonth === null &&
+    weeksOfYear === null &&
+    daysOfYear === null
   ) {
-    return null;
+    if (rule.frequency === "yearly") {
+      months ??= [anchor.getUTCMonth() + 1];
+      daysOfMonth = [anchor.getUTCDate()];
+    } else if (rule.frequency === "monthly") {
+      daysOfMonth = [anchor.getUTCDate()];
+    } else if (rule.frequency === "weekly") {
+      weekdays = [{ day: anchor.getUTCDay() }];
+    }
   }
-  return d.toISOString();
+
+  // Units coarser than the frequency expand, defaulting to the anchor's.
+  const unit = (
+    values: number[] | undefined,
+    unitFrequency: Frequency,
+    anchorValue: number
+  ): number[] | null => {
+    if (values !== undefined) return sortedUnique(values);
+    return coarserThan(rule.frequency, unitFrequency) ? [anchorValue] : null;
+  };
+
+  return {
+    frequency: rule.frequency,
+    interval: rule.interval >= 1 ? rule.interval : 1,
+    months,
+    weeksOfYear,
+    daysOfYear,
+    daysOfMonth,
+    weekdays,
+    monthScope: rule.frequency !== "yearly" || rule.monthsOfYear !== undefined,
+    hours: unit(rule.hours, "hourly", anchor.getUTCHours()),
+    minutes: unit(rule.minutes, "minutely", anchor.getUTCMinutes()),
+    seconds: unit(rule.seconds, "secondly", anchor.getUTCSeconds()),
+    setPositions: rule.setPositions ?? null,
+    weekStart: rule.weekStart ?? 1,
+  };
 }
 
-/**
- * Day-of-month (1-based) of the Nth occurrence of `weekday` within a month, or
- * `null` if it does not exist (e.g. a 5th Monday in a month with only four).
- *
- * @param weekday 0=Sun .. 6=Sat
- * @param position 1-based from the start of the month; negative counts from the
- *   end (-1 = last, -2 = second-to-last, ...).
- */
-function nthWeekdayOfMonth(
-  year: number,
-  month: number,
-  weekday: number,
-  position: number
-): number | null {
-  if (position === 0) {
-    return null;
-  }
-  const total = daysInMonth(year, month);
+/** Whether the UTC day starting at `dayMs` passes every day-level BY part. */
+function matchesDay(spec: Spec, dayMs: number): boolean {
+  const date = new Date(dayMs);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  const dayOfMonth = date.getUTCDate();
+  const monthLength = daysInMonth(year, month);
+  const dayOfYear = Math.round((dayMs - Date.UTC(year, 0, 1)) / MS_PER_DAY) + 1;
+  const yearLength = Math.round(
+    (Date.UTC(year + 1, 0, 1) - Date.UTC(year, 0, 1)) / MS_PER_DAY
+  );
 
-  // Collect every day-of-month that falls on `weekday`, in ascending order.
-  const matches: number[] = [];
-  for (let day = 1; day <= total; day++) {
-    if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) {
-      matches.push(day);
-    }
+  if (spec.months !== null && !spec.months.includes(month + 1)) return false;
+  if (
+    spec.daysOfMonth !== null &&
+    !picks(spec.daysOfMonth, dayOfMonth, monthLength)
+  ) {
+    return false;
+  }
+  if (
+    spec.daysOfYear !== null &&
+    !picks(spec.daysOfYear, dayOfYear, yearLength)
+  ) {
+    return false;
   }
+  if (spec.weeksOfYear !== null) {
+    const { week, weeks } = weekNumber(dayMs, spec.weekStart);
+    if (!picks(spec.weeksOfYear, week, weeks)) return false;
+  }
+  if (spec.weekdays !== null) {
+    const weekday = date.getUTCDay();
+    const [index, length] = spec.monthScope
+      ? [dayOfMonth, monthLength]
+      : [dayOfYear, yearLength];
+    // The Nth `weekday` of the scope, counted from either end.
+    const nth = Math.floor((index - 1) / 7) + 1;
+    const nthFromEnd = -(Math.floor((length - index) / 7) + 1);
+    const matched = spec.weekdays.some(
+      ({ day, position }) =>
+        day === weekday &&
+        (position === undefined || position === nth || position === nthFromEnd)
+    );
+    if (!matched) return false;
+  }
+  return true;
+}
 
-  if (position > 0) {
-    const idx = position - 1;
-    return idx < matches.length ? (matches[idx] ?? null) : null;
+/** Period arithmetic for one frequency, indexed from the anchor's period. */
+interface Periods {
+  /** Start of period `p`. */
+  startOf: (p: number) => number;
+  /** Index of the period containing `ms` (negative before the anchor's). */
+  indexAt: (ms: number) => number;
+  /** Midnight-UTC of every day period `p` covers. */
+  daysOf: (p: number) => number[];
+}
+
+function periodsFor(spec: Spec, anchorMs: number): Periods {
+  const anchor = new Date(anchorMs);
+  const interval = spec.interval;
+  const dayRange = (start: number, end: number): number[] => {
+    const out: number[] = [];
+    for (let day = start; day < end; day += MS_PER_DAY) out.push(day);
+    return out;
+  };
+
+  switch (spec.frequency) {
+    case "yearly": {
+      const yearOf = (p: number): number =>
+        anchor.getUTCFullYear() + p * interval;
+      return {
+        startOf: (p) => Date.UTC(yearOf(p), 0, 1),
+        indexAt: (ms) =>
+          Math.floor(
+            (new Date(ms).getUTCFullYear() - anchor.getUTCFullYear()) / interval
+          ),
+        daysOf: (p) =>
+          dayRange(Date.UTC(yearOf(p), 0, 1), Date.UTC(yearOf(p) + 1, 0, 1)),
+      };
+    }
+    case "monthly": {
+      const monthIndex = (date: Date): number =>
+        date.getUTCFullYear() * 12 + date.getUTCMonth();
+      const startOfMonth = (index: number): number =>
+        Date.UTC(Math.floor(index / 12), mod(index, 12), 1);
+      const monthOf = (p: number): number => monthIndex(anchor) + p * interval;
+      return {
+        startOf: (p) => startOfMonth(monthOf(p)),
+        indexAt: (ms) =>
+          Math.floor(
+            (monthIndex(new Date(ms)) - monthIndex(anchor)) / interval
+          ),
+        daysOf: (p) =>
+          dayRange(startOfMonth(monthOf(p)), startOfMonth(monthOf(p) + 1)),
+      };
+    }
+    default: {
+      // Fixed-length periods: weeks (from WKST), days and sub-daily units.
+      const anchorDay = anchorMs - mod(anchorMs, MS_PER_DAY);
+      const [base, length] =
+        spec.frequency === "weekly"
+          ? [weekStartOf(anchorDay, spec.weekStart), MS_PER_WEEK]
+          : spec.frequency === "daily"
+            ? [anchorDay, MS_PER_DAY]
+            : (() => {
+                const unitMs = SUB_DAILY_MS[spec.frequency] ?? MS_PER_HOUR;
+                return [anchorMs - mod(anchorMs, unitMs), unitMs];
+              })();
+      const startOf = (p: number): number => base + p * interval * length;
+      return {
+        startOf,
+        indexAt: (ms) => Math.floor((ms - base) / (interval * length)),
+        daysOf: (p) => {
+          const start = startOf(p);
+          const day = start - mod(start, MS_PER_DAY);
+          return length >= MS_PER_DAY ? dayRange(day, day + length) : [day];
+        },
+      };
+    }
   }
-  // Negative: count from the end.
-  const idx = matches.length + position;
-  return idx >= 0 ? (matches[idx] ?? null) : null;
 }
 
 /**
- * Map a 0-indexed weekday (Sun=0..Sat=6) to its offset from Monday, where
- * Monday=0..Sunday=6. Used for week stepping with WKST=Monday (RFC 5545 default).
+ * Candidate instants of period `p` in ascending order, before BYSETPOS.
  *
- * This ordering ensures days are emitted in chronological order within a
- * Monday-started week: Mon(0) < Tue(1) < Wed(2) < Thu(3) < Fri(4) < Sat(5) < Sun(6).
- * Note that sorting by raw weekday number would place Sunday (0) first, which is
- * chronologically last in a Mon-started week — Bug 1.
+ * For sub-daily frequencies a BY part coarser than the period can rule out a
+ * whole run of periods (e.g. BYHOUR=9 on a minutely rule); `resume` then
+ * names the instant where scanning may pick up again.
  */
-function offsetFromMonday(weekday: number): number {
-  return (weekday + 6) % 7;
-}
+function periodInstants(
+  spec: Spec,
+  periods: Periods,
+  p: number,
+  msOffset: number
+): { instants: number[]; resume: number | null } {
+  const start = periods.startOf(p);
+  const offset = mod(start, MS_PER_DAY);
+  const subDaily = !coarserThan(spec.frequency, "hourly");
+  // Sub-daily periods fix their own hour (and minute, second); the BY parts
+  // for those units filter instead of expanding.
+  const unit = (
+    expands: boolean,
+    values: number[] | null,
+    current: number,
+    unitMs: number
+  ): number[] | { resume: number } => {
+    if (expands) return values ?? [];
+    if (values === null || values.includes(current)) return [current];
+    return { resume: start - mod(start, unitMs) + unitMs };
+  };
+  const hours = unit(
+    coarserThan(spec.frequency, "hourly"),
+    spec.hours,
+    Math.floor(offset / MS_PER_HOUR),
+    MS_PER_HOUR
+  );
+  if (!Array.isArray(hours)) return { instants: [], resume: hours.resume };
+  const minutes = unit(
+    coarserThan(spec.frequency, "minutely"),
+    spec.minutes,
+    Math.floor(mod(offset, MS_PER_HOUR) / MS_PER_MINUTE),
+    MS_PER_MINUTE
+  );
+  if (!Array.isArray(minutes)) return { instants: [], resume: minutes.resume };
+  const seconds = unit(
+    coarserThan(spec.frequency, "secondly"),
+    spec.seconds,
+    Math.floor(mod(offset, MS_PER_MINUTE) / MS_PER_SECOND),
+    MS_PER_SECOND
+  );
+  if (!Array.isArray(seconds)) return { instants: [], resume: seconds.resume };
 
-/**
- * Produce the month-day candidates for a single active month (used by both
- * monthly and yearly expansion). Returns ISO strings in ascending order;
- * invalid dates are skipped (never clamped).
- */
-function monthCandidates(
-  rule: RepetitionRule,
-  year: number,
-  month: number,
-  anchorDay: number,
-  time: TimeOfDay
-): string[] {
-  const positions = rule.daysOfWeekPositions;
-  const weekdays = rule.daysOfWeek;
-
-  if (positions && positions.length > 0 && weekdays && weekdays.length > 0) {
-    // Nth-weekday expansion: cross-product of positions × weekdays.
-    const days: number[] = [];
-    for (const position of positions) {
-      for (const weekday of weekdays) {
-        const day = nthWeekdayOfMonth(year, month, weekday, position);
-        if (day !== null) {
-          days.push(day);
-        }
-      }
+  const instants: number[] = [];
+  for (const day of periods.daysOf(p)) {
+    if (!matchesDay(spec, day)) {
+      if (subDaily) return { instants, resume: day + MS_PER_DAY };
+      continue;
     }
-    // Ascending and de-duplicated within the month.
-    const unique = Array.from(new Set(days)).sort((a, b) => a - b);
-    const out: string[] = [];
-    for (const day of unique) {
-      const iso = makeISO(year, month, day, time);
-      if (iso !== null) {
-        out.push(iso);
+    for (const hour of hours) {
+      for (const minute of minutes) {
+        for (const second of seconds) {
+          instants.push(
+            day +
+              hour * MS_PER_HOUR +
+              minute * MS_PER_MINUTE +
+              second * MS_PER_SECOND +
+              msOffset
+          );
+        }
       }
     }
-    return out;
   }
+  return { instants, resume: null };
+}
 
-  // Month-day expansion: explicit dayOfMonth, else the anchor's day-of-month.
-  const day = rule.dayOfMonth ?? anchorDay;
-  const iso = makeISO(year, month, day, time);
-  return iso !== null ? [iso] : [];
+/** Apply BYSETPOS to a period's ordered instants. */
+function selectPositions(
+  instants: number[],
+  positions: number[] | null
+): number[] {
+  if (positions === null) return instants;
+  const picked = positions
+    .map((n) => instants[n > 0 ? n - 1 : instants.length + n])
+    .filter((ms): ms is number => ms !== undefined);
+  return sortedUnique(picked);
 }
 
-/** Milliseconds per day — used for skip-ahead distance estimates and day arithmetic. */
-const MS_PER_DAY = 86_400_000;
+/**
+ * Conversions between UTC instants and wall-clock milliseconds (local time
+ * read as if it were UTC) in one time zone.
+ */
+interface WallClock {
+  toLocal: (ms: number) => number;
+  toUtc: (localMs: number) => number;
+}
+
+/** The wall clock of `timeZone`; UTC (and an unknown zone) is the identity. */
+function wallClock(timeZone: string): WallClock {
+  const identity = (ms: number): number => ms;
+  if (
+    timeZone === "UTC" ||
+    utcToZonedTime(new Date(0).toISOString(), timeZone) === null
+  ) {
+    return { toLocal: identity, toUtc: identity };
+  }
+  return {
+    toLocal: (ms) =>
+      Date.parse(
+        `${utcToZonedTime(new Date(ms).toISOString(), timeZone) ?? ""}Z`
+      ),
+    toUtc: (localMs) =>
+      Date.parse(
+        zonedTimeToUtc(
+          new Date(localMs).toISOString().slice(0, -1),
+          timeZone
+        ) ?? ""
+      ),
+  };
+}
 
 /**
- * Midnight-UTC epoch-ms for a given Y/M/D (0-indexed month). Used as a
- * base for day-offset arithmetic so that large offsets don't need to be
- * smuggled through `makeISO`'s anchor-relative Y/M/D approach.
+ * Inclusive end of the recurrence as a UTC instant; a date-only UNTIL covers
+ * the whole calendar day in the zone.
  */
-function midnightUTC(year: number, month: number, day: number): number {
-  return Date.UTC(year, month, day, 0, 0, 0, 0);
+function untilMs(until: string | undefined, clock: WallClock): number {
+  if (until === undefined) return Infinity;
+  const ms = Date.parse(until);
+  return /^\d{4}-\d{2}-\d{2}$/.test(until)
+    ? clock.toUtc(ms + MS_PER_DAY) - 1
+    : ms;
 }
 
 /**
- * Construct an ISO string that is `dayOffset` days after `baseMidnightMs`,
- * carrying the given `time` of day. Returns `null` only when `Date.UTC`
- * produces a non-finite result (which is not possible for valid inputs, but
- * guards against theoretical overflow at extreme years).
- *
- * Unlike `makeISO`, this function does NOT check that Y/M/D round-trips: the
- * offset arithmetic guarantees the right date when `baseMidnightMs` is a
- * true midnight-UTC value and `dayOffset` is an integer.
+ * EXDATE matcher over an instant and its wall-clock time: a date-time excludes
+ * that instant (to the second), a date excludes every instance on that
+ * calendar day.
  */
-function makeISOFromOffset(
-  baseMidnightMs: number,
-  dayOffset: number,
-  time: TimeOfDay
-): string | null {
-  const targetMs =
-    baseMidnightMs +
-    dayOffset * MS_PER_DAY +
-    time.hours * 3_600_000 +
-    time.minutes * 60_000 +
-    time.seconds * 1_000 +
-    time.ms;
-  if (!Number.isFinite(targetMs)) {
-    return null;
+function exclusions(
+  exceptDates: readonly string[] | undefined
+): (ms: number, localMs: number) => boolean {
+  const instants = new Set<number>();
+  const days = new Set<string>();
+  for (const date of exceptDates ?? []) {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      days.add(date);
+    } else {
+      const ms = Date.parse(date);
+      instants.add(ms - mod(ms, MS_PER_SECOND));
+    }
   }
-  return new Date(targetMs).toISOString();
+  return (ms, localMs) =>
+    instants.has(ms - mod(ms, MS_PER_SECOND)) ||
+    days.has(new Date(localMs).toISOString().slice(0, 10));
 }
 
 /**
@@ -220,223 +507,87 @@ function makeISOFromOffset(
  *
  * ## Skip-ahead
  *
- * Period loops are indexed from the anchor (period 0). When `from` is far in
- * the future the loop would have to iterate through millions of periods before
+ * Periods are indexed from the anchor's (period 0). When `from` is far in the
+ * future the loop would have to iterate through millions of periods before
  * finding any qualifying occurrence — exceeding `MAX_PERIODS` and returning
- * nothing. To avoid this, each frequency computes a conservative lower bound
- * for the first period that could possibly produce an occurrence after `from`
- * and starts scanning there. The period index used for interval activeness
- * (`periodIndex % interval === 0`) is always the index **from the anchor**, so
- * block/month/year activeness is unchanged after the jump.
+ * nothing. To avoid this, the scan starts one period before the one containing
+ * `from`; because periods step by INTERVAL from the anchor, activeness is
+ * unchanged after the jump. A rule with COUNT is scanned from the anchor
+ * instead, since every earlier instance counts towards the limit.
  *
  * @param rule The recurrence rule to expand.
- * @param anchorISO The anchor instant (ISO 8601). Defines the recurrence's
- *   reference Y/M/D and the UTC time-of-day inherited by every occurrence.
+ * @param anchorISO The anchor instant (ISO 8601), i.e. DTSTART. Supplies the
+ *   Y/M/D and wall-clock time-of-day for BY parts the rule leaves out.
  * @param count Maximum number of occurrences to return (>= 0).
  * @param opts.fromISO Lower bound — only occurrences strictly after this
  *   instant are emitted. Defaults to the anchor.
- * @returns Up to `count` ISO strings in ascending order. Fewer only if the
- *   internal safety cap is reached before `count` valid occurrences are found.
+ * @param opts.toISO Upper bound — occurrences after this instant are not
+ *   emitted. Unbounded by default.
+ * @param opts.timeZone IANA time zone whose wall clock the rule repeats on.
+ *   Defaults to UTC; an unknown zone is treated as UTC, so validate it first
+ *   (`resolveTimeZone`).
+ * @returns Up to `count` ISO strings in ascending order. Fewer when the rule
+ *   ends (COUNT, UNTIL), `toISO` is reached, or the internal safety cap is hit
+ *   before `count` valid occurrences are found.
  */
 export function expandOccurrences(
   rule: RepetitionRule,
   anchorISO: string,
   count: number,
-  opts?: { fromISO?: string }
+  opts?: { fromISO?: string; toISO?: string; timeZone?: string }
 ): string[] {
   if (count <= 0) {
     return [];
   }
 
-  const anchor = new Date(anchorISO);
-  const anchorYear = anchor.getUTCFullYear();
-  const anchorMonth = anchor.getUTCMonth();
-  const anchorDay = anchor.getUTCDate();
-  const anchorWeekday = anchor.getUTCDay();
-
-  const time: TimeOfDay = {
-    hours: anchor.getUTCHours(),
-    minutes: anchor.getUTCMinutes(),
-    seconds: anchor.getUTCSeconds(),
-    ms: anchor.getUTCMilliseconds(),
-  };
-
-  // Strictly-after boundary as an epoch-ms threshold.
-  const fromMs = new Date(opts?.fromISO ?? anchorISO).getTime();
-  const anchorMs = anchor.getTime();
+  // Periods and candidates live on the zone's wall clock; the boundaries and
+  // the emitted occurrences are UTC instants.
+  const clock = wallClock(opts?.timeZone ?? "UTC");
+  const anchorMs = Date.parse(anchorISO);
+  const anchorLocal = clock.toLocal(anchorMs);
+  const spec = normalize(rule, new Date(anchorLocal));
+  const periods = periodsFor(spec, anchorLocal);
+  // Occurrences carry the anchor's milliseconds, as they carry its time.
+  const msOffset = mod(anchorMs, MS_PER_SECOND);
+
+  // Strictly-after boundary, and the inclusive end of what may be emitted.
+  const fromMs = Date.parse(opts?.fromISO ?? anchorISO);
+  const stopMs = Math.min(
+    untilMs(rule.until, clock),
+    opts?.toISO === undefined ? Infinity : Date.parse(opts.toISO)
+  );
+  const isExcluded = exclusions(rule.exceptDates);
 
-  const interval = rule.interval >= 1 ? rule.interval : 1;
+  const fromPeriod = Math.max(0, periods.indexAt(clock.toLocal(fromMs)) - 1);
   const results: string[] = [];
-
-  /** Emit a candidate ISO if it is strictly after `from`; dedupe identical instants. */
-  const consider = (iso: string | null): void => {
-    if (iso === null) {
-      return;
-    }
-    if (new Date(iso).getTime() <= fromMs) {
-      return;
-    }
-    if (results.length > 0 && results[results.length - 1] === iso) {
-      return;
-    }
-    results.push(iso);
-  };
-
-  switch (rule.frequency) {
-    case "daily": {
-      // Use midnight-UTC of the anchor day as the base for day-offset arithmetic.
-      // This avoids passing a large raw day-of-month into makeISO (which validates
-      // Y/M/D round-trips and would reject the value because the month overflows).
-      const anchorMidnight = midnightUTC(anchorYear, anchorMonth, anchorDay);
-
-      // Skip-ahead: estimate how many days separate the anchor from `from`, then
-      // back off by 1 to avoid missing the first occurrence on the boundary day.
-      // k is anchor-relative so k * interval remains correct after the jump.
-      const daysAhead = Math.max(
-        0,
-        Math.floor((fromMs - anchorMs) / MS_PER_DAY) - 1
-      );
-      // Round down to the nearest multiple of interval so activeness is preserved.
-      const startK = Math.floor(daysAhead / interval) * interval;
-      for (
-        let k = startK + interval;
-        k <= startK + interval + MAX_PERIODS * interval && results.length < count;
-        k += interval
-      ) {
-        consider(makeISOFromOffset(anchorMidnight, k, time));
-      }
-      break;
-    }
-
-    case "weekly": {
-      // FIX (Bug 1): sort by offsetFromMonday so days are emitted in
-      // chronological order within a Mon-started week (Mon=0…Sun=6), NOT by
-      // raw weekday number (which would put Sunday=0 first — chronologically last).
-      const days =
-        rule.daysOfWeek && rule.daysOfWeek.length > 0
-          ? [...rule.daysOfWeek].sort(
-              (a, b) => offsetFromMonday(a) - offsetFromMonday(b)
-            )
-          : [anchorWeekday];
-
-      // Midnight-UTC of the Monday that starts the anchor's week (WKST=Monday).
-      // Using epoch-ms arithmetic avoids large day-of-month values in makeISO.
-      const anchorMidnight = midnightUTC(anchorYear, anchorMonth, anchorDay);
-      const anchorMondayMidnight =
-        anchorMidnight - offsetFromMonday(anchorWeekday) * MS_PER_DAY;
-
-      // Skip-ahead: estimate week-blocks between anchor and `from`.
-      const weeksAhead = Math.max(
-        0,
-        Math.floor((fromMs - anchorMs) / (7 * MS_PER_DAY)) - 1
-      );
-      // Round down to nearest active block start (preserves interval activeness).
-      const startW = Math.floor(weeksAhead / interval) * interval;
-
-      for (
-        let w = startW;
-        w < startW + MAX_PERIODS * interval && results.length < count;
-        w++
-      ) {
-        if (w % interval !== 0) {
-          continue;
-        }
-        // Day-offset from anchorMondayMidnight to the Monday of this block.
-        const blockMondayOffset = 7 * w;
-        for (const weekday of days) {
-          if (results.length >= count) {
-            break;
-          }
-          consider(
-            makeISOFromOffset(
-              anchorMondayMidnight,
-              blockMondayOffset + offsetFromMonday(weekday),
-              time
-            )
-          );
-        }
-      }
-      break;
-    }
-
-    case "monthly": {
-      // Skip-ahead: estimate months between anchor and `from`.
-      const fromDate = new Date(fromMs);
-      const monthsAhead = Math.max(
-        0,
-        (fromDate.getUTCFullYear() - anchorYear) * 12 +
-          (fromDate.getUTCMonth() - anchorMonth) -
-          1
-      );
-      // Round down to nearest active month start.
-      const startM = Math.floor(monthsAhead / interval) * interval;
-
-      for (
-        let m = startM;
-        m < startM + MAX_PERIODS * interval && results.length < count;
-        m++
-      ) {
-        if (m % interval !== 0) {
-          continue;
-        }
-        const year = anchorYear + Math.floor((anchorMonth + m) / 12);
-        const month = (anchorMonth + m) % 12;
-        const candidates = monthCandidates(rule, year, month, anchorDay, time);
-        for (const iso of candidates) {
-          if (results.length >= count) {
-            break;
-          }
-          consider(iso);
-        }
-      }
-      break;
+  let generated = 0;
+  let scanned = 0;
+  // Last instant generated; wall times a DST gap folds together count once.
+  let lastMs = -Infinity;
+  for (
+    let p = rule.count === undefined ? fromPeriod : 0;
+    scanned < MAX_PERIODS && results.length < count;
+    p++
+  ) {
+    if (clock.toUtc(periods.startOf(p)) > stopMs) break;
+    if (p >= fromPeriod) scanned++;
+
+    const { instants, resume } = periodInstants(spec, periods, p, msOffset);
+    if (resume !== null) {
+      // Jump to the period holding `resume`; the loop's p++ lands on it.
+      p = Math.max(p, periods.indexAt(resume) - 1);
+      continue;
     }
-
-    case "yearly": {
-      const months =
-        rule.monthsOfYear && rule.monthsOfYear.length > 0
-          ? [...rule.monthsOfYear].sort((a, b) => a - b)
-          : [anchorMonth + 1]; // monthsOfYear is 1-based (1=Jan)
-
-      // Skip-ahead: estimate years between anchor and `from`.
-      const fromDate = new Date(fromMs);
-      const yearsAhead = Math.max(
-        0,
-        fromDate.getUTCFullYear() - anchorYear - 1
-      );
-      // Round down to nearest active year start.
-      const startY = Math.floor(yearsAhead / interval) * interval;
-
-      for (
-        let y = startY;
-        y < startY + MAX_PERIODS * interval && results.length < count;
-        y++
-      ) {
-        if (y % interval !== 0) {
-          continue;
-        }
-        const year = anchorYear + y;
-        for (const month1 of months) {
-          if (results.length >= count) {
-            break;
-          }
-          const month = month1 - 1; // back to 0-indexed
-          const candidates = monthCandidates(
-            rule,
-            year,
-            month,
-            anchorDay,
-            time
-          );
-          for (const iso of candidates) {
-            if (results.length >= count) {
-              break;
-            }
-            consider(iso);
-          }
-        }
-      }
-      break;
+    for (const localMs of selectPositions(instants, spec.setPositions)) {
+      const ms = clock.toUtc(localMs);
+      if (ms < anchorMs || ms <= lastMs) continue;
+      if (ms > stopMs) return results;
+      if (rule.count !== undefined && generated >= rule.count) return results;
+      generated++;
+      lastMs = ms;
+      if (ms <= fromMs || isExcluded(ms, localMs)) continue;
+      results.push(new Date(ms).toISOString());
+      if (results.length >= count) break;
     }
   }
 
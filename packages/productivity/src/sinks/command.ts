@@ -0,0 +1,109 @@
+/**
+ * `sinks` — inspect the change-event sinks configured in `sinks.json`, and
+ * send a test payload through one of them to check the wiring.
+ *
+ * Sinks are fired by `ofocus changes-watch` for every change set; this
+ * command never watches anything itself.
+ */
+import { z } from "zod";
+import {
+  type CliOutput,
+  ErrorCode,
+  createError,
+  defineCommand,
+  failure,
+  success,
+} from "@ofocus/sdk";
+import {
+  type SinkConfig,
+  loadSinks,
+  resolveDeadLetterPath,
+  resolveSinksPath,
+} from "./config.js";
+import { type DeliverDeps, type SinkDelivery, deliverToSink } from "./deliver.js";
+
+/** A configured sink as reported by `sinks` (secrets omitted). */
+export interface SinkSummary {
+  name: string;
+  type: SinkConfig["type"];
+  /** URL, shell command or file path. */
+  target: string;
+  filter: string | null;
+  signed: boolean;
+}
+
+/** Shape returned by the `sinks` command. */
+export interface SinksOutput {
+  configPath: string;
+  deadLetterPath: string;
+  sinks: SinkSummary[];
+  test?: SinkDelivery;
+}
+
+/** Dependencies injected for testing; the descriptor passes real ones. */
+export interface SinksDeps extends Partial<DeliverDeps> {
+  stateDir?: string;
+}
+
+interface SinksInput {
+  test?: string | undefined;
+}
+
+function summarizeSink(config: SinkConfig): SinkSummary {
+  const target =
+    config.type === "webhook" ? config.url : config.type === "command" ? config.command : config.path;
+  return {
+    name: config.name,
+    type: config.type,
+    target,
+    filter: config.filter ?? null,
+    signed: config.type === "webhook" && config.secret !== undefined,
+  };
+}
+
+/** Core handler. `deps` is injected in tests. */
+export async function runSinks(
+  input: SinksInput,
+  deps: SinksDeps,
+): Promise<CliOutput<SinksOutput>> {
+  const sinks = loadSinks(deps.stateDir);
+  if (!Array.isArray(sinks)) return failure(sinks);
+  const deadLetterPath = deps.deadLetterPath ?? resolveDeadLetterPath(deps.stateDir);
+  const output: SinksOutput = {
+    configPath: resolveSinksPath(deps.stateDir),
+    deadLetterPath,
+    sinks: sinks.map((s) => summarizeSink(s.config)),
+  };
+
+  if (input.test !== undefined) {
+    const sink = sinks.find((s) => s.config.name === input.test);
+    if (sink === undefined) {
+      return failure(
+        createError(ErrorCode.VALIDATION_ERROR, `Unknown sink: ${input.test}`),
+      );
+    }
+    const now = deps.now ?? ((): string => new Date().toISOString());
+    output.test = await deliverToSink(
+      sink.config,
+      { sink: sink.config.name, watch: "test", generation: 0, at: now(), changes: [] },
+      { ...deps, deadLetterPath, now },
+    );
+  }
+  return success(output);
+}
+
+/** The descriptor — surfaced through CLI + MCP + docs via the registry union. */
+export const sinksDescriptor = defineCommand({
+  name: "sinks",
+  cliName: "sinks",
+  mcpName: "sinks",
+  description:
+    "List the change-event sinks (webhook, command, file) configured in sinks.json, which changes-watch fires for matching changes. --test <name> sends an empty test payload through one sink, with its retries.",
+  inputSchema: z.object({
+    test: z
+      .string()
+      .optional()
+      .describe("Send a test payload to the named sink and report the delivery"),
+  }),
+  handler: async (parsed): Promise<CliOutput<SinksOutput>> => runSinks(parsed, {}),
+});
@@ -0,0 +1,118 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { z } from "zod";
+import { type CliError, ErrorCode, createError } from "@ofocus/sdk";
+import { resolveStateDir } from "../changes/cache.js";
+import { type ChangeFilter, parseChangeFilter } from "./filter.js";
+
+const common = {
+  name: z.string().min(1).describe("Unique sink name, used in logs and the dead-letter file"),
+  filter: z
+    .string()
+    .optional()
+    .describe("Filter expression; only matching changes are delivered (default: all)"),
+  retries: z.number().int().min(0).max(10).optional().describe("Retries after a failed delivery (default 3)"),
+  backoffMs: z
+    .number()
+    .int()
+    .min(0)
+    .optional()
+    .describe("Delay before the first retry, doubled for each further one (default 1000)"),
+  timeoutMs: z.number().int().positive().optional().describe("Per-attempt timeout (default 10000)"),
+};
+
+/** JSON schema of one entry in `sinks.json`. */
+export const sinkConfigSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...common,
+    type: z.literal("webhook"),
+    url: z.string().url().describe("Endpoint that receives the payload as a JSON POST"),
+    secret: z
+      .string()
+      .optional()
+      .describe("HMAC-SHA256 key; the signature is sent as X-Ofocus-Signature: sha256=<hex>"),
+    headers: z.record(z.string()).optional().describe("Extra request headers"),
+  }),
+  z.object({
+    ...common,
+    type: z.literal("command"),
+    command: z.string().min(1).describe("Shell command; receives the payload as JSON on stdin"),
+  }),
+  z.object({
+    ...common,
+    type: z.literal("file"),
+    path: z.string().min(1).describe("File the payload is appended to as one NDJSON line"),
+  }),
+]);
+
+/** One configured sink, as written in `sinks.json`. */
+export type SinkConfig = z.infer<typeof sinkConfigSchema>;
+
+/** A configured sink with its filter compiled. */
+export interface Sink {
+  config: SinkConfig;
+  filter: ChangeFilter | null;
+}
+
+const sinksFileSchema = z.object({ sinks: z.array(sinkConfigSchema) });
+
+/** Resolve the sinks config path: `<state dir>/sinks.json`. */
+export function resolveSinksPath(stateDir?: string): string {
+  return join(resolveStateDir(stateDir), "sinks.json");
+}
+
+/** Resolve the dead-letter log path: `<state dir>/sinks-dead-letter.ndjson`. */
+export function resolveDeadLetterPath(stateDir?: string): string {
+  return join(resolveStateDir(stateDir), "sinks-dead-letter.ndjson");
+}
+
+/**
+ * Load and validate `sinks.json`. A missing file means no sinks. Schema
+ * problems, duplicate names and filter syntax errors are reported as a
+ * `VALIDATION_ERROR` naming the offending sink.
+ */
+export function loadSinks(stateDir?: string): Sink[] | CliError {
+  const path = resolveSinksPath(stateDir);
+  if (!existsSync(path)) return [];
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (err) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid sinks config ${path}: ${err instanceof Error ? err.message : String(err)}`,
+    );
+  }
+  const parsed = sinksFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid sinks config ${path}: ${issue?.path.join(".") ?? "input"}: ${issue?.message ?? "invalid"}`,
+      JSON.stringify(parsed.error.issues),
+    );
+  }
+
+  const sinks: Sink[] = [];
+  const names = new Set<string>();
+  for (const config of parsed.data.sinks) {
+    if (names.has(config.name)) {
+      return createError(ErrorCode.VALIDATION_ERROR, `Duplicate sink name: ${config.name}`);
+    }
+    names.add(config.name);
+    let filter: ChangeFilter | null = null;
+    if (config.filter !== undefined) {
+      const compiled = parseChangeFilter(config.filter);
+      if (typeof compiled !== "function") {
+        return createError(
+          compiled.code,
+          `Sink "${config.name}": ${compiled.message}`,
+          compiled.details,
+        );
+      }
+      filter = compiled;
+    }
+    sinks.push({ config, filter });
+  }
+  return sinks;
+}
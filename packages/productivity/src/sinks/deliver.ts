@@ -0,0 +1,181 @@
+import { spawn } from "node:child_process";
+import { createHmac } from "node:crypto";
+import { appendFileSync, mkdirSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { SinkConfig } from "./config.js";
+import type { ChangeMatch } from "./filter.js";
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_BACKOFF_MS = 1000;
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+/** The JSON document a sink receives for one batch of matching changes. */
+export interface SinkPayload {
+  sink: string;
+  watch: string;
+  generation: number;
+  at: string;
+  changes: ChangeMatch[];
+}
+
+/** Outcome of delivering one payload to one sink, retries included. */
+export interface SinkDelivery {
+  sink: string;
+  delivered: boolean;
+  attempts: number;
+  matched: number;
+  error?: string;
+}
+
+/** Dependencies injected for testing. */
+export interface DeliverDeps {
+  fetch?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+  /** Dead-letter log path; the dispatcher passes `resolveDeadLetterPath()`. */
+  deadLetterPath: string;
+  now?: () => string;
+}
+
+/** Expand a leading `~/` to the home directory. */
+function expandHome(path: string): string {
+  return path.startsWith("~/") ? join(homedir(), path.slice(2)) : path;
+}
+
+function appendLine(path: string, value: unknown): void {
+  mkdirSync(dirname(path), { recursive: true });
+  appendFileSync(path, `${JSON.stringify(value)}\n`, "utf8");
+}
+
+/** `sha256=<hex>` HMAC of the exact request body, for `X-Ofocus-Signature`. */
+export function signPayload(body: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`;
+}
+
+async function postWebhook(
+  config: Extract<SinkConfig, { type: "webhook" }>,
+  body: string,
+  timeoutMs: number,
+  fetchImpl: typeof fetch,
+): Promise<void> {
+  const headers: Record<string, string> = {
+    ...config.headers,
+    "Content-Type": "application/json",
+    "User-Agent": "ofocus-sinks",
+  };
+  if (config.secret !== undefined) headers["X-Ofocus-Signature"] = signPayload(body, config.secret);
+  const res = await fetchImpl(config.url, {
+    method: "POST",
+    headers,
+    body,
+    signal: AbortSignal.timeout(timeoutMs),
+  });
+  if (!res.ok) throw new Error(`HTTP ${String(res.status)} from ${config.url}`);
+}
+
+/**
+ * Run a shell command with `body` on stdin; resolves on exit 0. The command
+ * runs in its own process group so a timeout kills everything it started,
+ * not just the shell.
+ */
+function runCommand(command: string, body: string, timeoutMs: number): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, { shell: true, detached: true, stdio: ["pipe", "ignore", "pipe"] });
+    let err = "";
+    const timer = setTimeout(() => {
+      try {
+        if (child.pid !== undefined) process.kill(-child.pid, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL"); // group already gone; make sure the shell is
+      }
+      reject(new Error(`Command timed out after ${String(timeoutMs)}ms`));
+    }, timeoutMs);
+    timer.unref();
+    child.stderr.on("data", (d: Buffer) => {
+      err += d.toString();
+    });
+    child.on("error", (e) => {
+      clearTimeout(timer);
+      reject(e);
+    });
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (code === 0) resolve();
+      else reject(new Error(`Command exited ${String(code)}: ${err.trim()}`.trim()));
+    });
+    // Same EPIPE guard as `summarize`: a command that ignores stdin must not
+    // crash the watcher; its exit code decides the outcome.
+    child.stdin.on("error", () => {
+      /* ignore broken pipe — child outcome is handled above */
+    });
+    child.stdin.end(body);
+  });
+}
+
+async function attempt(
+  config: SinkConfig,
+  payload: SinkPayload,
+  body: string,
+  deps: DeliverDeps,
+): Promise<void> {
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  switch (config.type) {
+    case "webhook":
+      return postWebhook(config, body, timeoutMs, deps.fetch ?? fetch);
+    case "command":
+      return runCommand(config.command, body, timeoutMs);
+    case "file":
+      appendLine(expandHome(config.path), payload);
+      return;
+  }
+}
+
+/**
+ * Deliver a payload to a sink, retrying failures with exponential backoff
+ * (`backoffMs`, then doubling, for up to `retries` retries). A payload that
+ * still fails is appended to the dead-letter log with the last error, so
+ * nothing is silently lost. Never throws.
+ */
+export async function deliverToSink(
+  config: SinkConfig,
+  payload: SinkPayload,
+  deps: DeliverDeps,
+): Promise<SinkDelivery> {
+  const retries = config.retries ?? DEFAULT_RETRIES;
+  const backoffMs = config.backoffMs ?? DEFAULT_BACKOFF_MS;
+  const sleep =
+    deps.sleep ??
+    ((ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms)));
+  const body = JSON.stringify(payload);
+  let lastError = "";
+
+  for (let n = 0; n <= retries; n++) {
+    if (n > 0) await sleep(backoffMs * 2 ** (n - 1));
+    try {
+      await attempt(config, payload, body, deps);
+      return { sink: config.name, delivered: true, attempts: n + 1, matched: payload.changes.length };
+    } catch (err) {
+      lastError = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  try {
+    appendLine(deps.deadLetterPath, {
+      sink: config.name,
+      type: config.type,
+      attempts: retries + 1,
+      error: lastError,
+      failedAt: deps.now?.() ?? new Date().toISOString(),
+      payload,
+    });
+  } catch {
+    /* best-effort: the failure is still reported to the caller */
+  }
+  return {
+    sink: config.name,
+    delivered: false,
+    attempts: retries + 1,
+    matched: payload.changes.length,
+    error: lastError,
+  };
+}
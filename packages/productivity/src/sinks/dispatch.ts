@@ -0,0 +1,44 @@
+import type { ChangeSet } from "../changes/types.js";
+import type { Sink } from "./config.js";
+import { type DeliverDeps, type SinkDelivery, deliverToSink } from "./deliver.js";
+import type { ChangeFilter, ChangeMatch } from "./filter.js";
+
+/** Flatten a change set into tagged matches, keeping those the filter accepts. */
+export function matchChanges(changes: ChangeSet, filter: ChangeFilter | null): ChangeMatch[] {
+  const all: ChangeMatch[] = [
+    ...changes.added.map((c): ChangeMatch => ({ ...c, change: "added" })),
+    ...changes.updated.map((c): ChangeMatch => ({ ...c, change: "updated" })),
+    ...changes.removed.map((c): ChangeMatch => ({ ...c, change: "removed" })),
+  ];
+  return filter === null ? all : all.filter(filter);
+}
+
+/**
+ * Deliver a change set to every sink with at least one matching change, in
+ * parallel. Sinks whose filter matches nothing are skipped (no delivery is
+ * reported for them).
+ */
+export async function dispatchChanges(
+  event: { watch: string; generation: number; at: string; changes: ChangeSet },
+  sinks: readonly Sink[],
+  deps: DeliverDeps,
+): Promise<SinkDelivery[]> {
+  const deliveries = sinks.flatMap((sink) => {
+    const matches = matchChanges(event.changes, sink.filter);
+    if (matches.length === 0) return [];
+    return [
+      deliverToSink(
+        sink.config,
+        {
+          sink: sink.config.name,
+          watch: event.watch,
+          generation: event.generation,
+          at: event.at,
+          changes: matches,
+        },
+        deps,
+      ),
+    ];
+  });
+  return Promise.all(deliveries);
+}
@@ -0,0 +1,139 @@
+import {
+  type CliError,
+  type ExpressionComparison,
+  type ExpressionGrammar,
+  type ExpressionValue,
+  ExpressionSyntaxError,
+  parseExpression,
+} from "@ofocus/sdk";
+import type { ChangeKind, ChangedObject, WatchedClass } from "../changes/types.js";
+
+/** A changed object tagged with its kind, as seen by a sink filter. */
+export interface ChangeMatch extends ChangedObject {
+  change: ChangeKind;
+}
+
+/** A compiled sink filter expression. */
+export type ChangeFilter = (match: ChangeMatch) => boolean;
+
+const KINDS: readonly ChangeKind[] = ["added", "updated", "removed"];
+
+const CLASSES: Record<string, WatchedClass> = {
+  task: "tasks",
+  tasks: "tasks",
+  project: "projects",
+  projects: "projects",
+  tag: "tags",
+  tags: "tags",
+  folder: "folders",
+  folders: "folders",
+};
+
+/** Case-insensitive match of a field value (any element, for arrays) against text. */
+function valueMatches(value: unknown, expected: string): boolean {
+  if (Array.isArray(value)) return value.some((v) => valueMatches(v, expected));
+  const text = typeof value === "string" ? value : JSON.stringify(value ?? null);
+  return text.toLowerCase() === expected.toLowerCase();
+}
+
+/** Reject a comparison the filter language has no use for. */
+function unexpected(comparison: ExpressionComparison | undefined): void {
+  if (comparison === undefined) return;
+  throw new ExpressionSyntaxError(
+    `expected "and" or "or" before "${comparison.op.value}"`,
+    comparison.op.start,
+    comparison.op.end,
+  );
+}
+
+/** A bare word: a change kind or an object class. */
+function termFilter(word: ExpressionValue): ChangeFilter {
+  const kind = word.value.toLowerCase();
+  if ((KINDS as readonly string[]).includes(kind)) {
+    return (m) => m.change === kind;
+  }
+  const cls = CLASSES[kind];
+  if (cls !== undefined) return (m) => m.class === cls;
+  throw new ExpressionSyntaxError(
+    `unknown term "${word.value}" (expected added, updated, removed, task, project, tag, folder, tag:, changed: or <field>=<value>)`,
+    word.start,
+    word.end,
+  );
+}
+
+/**
+ * The sink filter language: kinds and classes as bare words, `tag:`,
+ * `changed:<field>` with an optional `=<value>`, and `<field> = <value>` or
+ * `<field> != <value>` on the object's current state.
+ */
+const changeFilterGrammar: ExpressionGrammar<ChangeFilter> = {
+  predicate(field, [first, second, third]) {
+    if (first === undefined) return termFilter(field);
+    const word = field.value.toLowerCase();
+
+    if (first.op.value === ":") {
+      const arg = first.value.value;
+      if (word === "tag") {
+        unexpected(second);
+        return (m) => valueMatches(m.object["tags"], arg);
+      }
+      if (word === "changed") {
+        if (second === undefined) return (m) => m.delta?.[arg] !== undefined;
+        if (second.op.value !== "=") {
+          throw new ExpressionSyntaxError(`expected "=" after "changed:${arg}"`, second.op.start, second.op.end);
+        }
+        unexpected(third);
+        const to = second.value.value;
+        return (m) => {
+          const delta = m.delta?.[arg];
+          return delta !== undefined && valueMatches(delta.to, to);
+        };
+      }
+      throw new ExpressionSyntaxError(
+        `unknown term "${field.value}:" (expected "tag:" or "changed:")`,
+        field.start,
+        field.end,
+      );
+    }
+
+    if (first.op.value === "=" || first.op.value === "!=") {
+      unexpected(second);
+      const expected = first.value.value;
+      const name = field.value;
+      const equal: ChangeFilter = (m) => valueMatches(m.object[name], expected);
+      return first.op.value === "=" ? equal : (m) => !equal(m);
+    }
+
+    throw new ExpressionSyntaxError(
+      `operator "${first.op.value}" is not supported in filters (use "=", "!=" or ":")`,
+      first.op.start,
+      first.op.end,
+    );
+  },
+  and: (operands) => (m) => operands.every((f) => f(m)),
+  or: (operands) => (m) => operands.some((f) => f(m)),
+  not: (operand) => (m) => !operand(m),
+};
+
+/**
+ * Parse a sink filter expression into a predicate over changed objects.
+ *
+ * The syntax is the SDK's `where` syntax, so terms are combined with `and`,
+ * `or`, `not` and parentheses:
+ *
+ * - Kind: `added`, `updated`, `removed`
+ * - Class: `task`, `project`, `tag`, `folder` (plurals accepted)
+ * - `tag:waiting` — the object's tags include `waiting`
+ * - `changed:dueDate` — an update touched the field;
+ *   `changed:status=on-hold` — and set it to that value
+ * - `flagged=true`, `status != active` — the object's current field value
+ *
+ * Matching is case-insensitive. Values containing spaces or any of
+ * `():<>=!~` must be double-quoted. For example, "a task tagged waiting was
+ * completed" is `task and tag:waiting and changed:completed=true`.
+ *
+ * Returns a `VALIDATION_ERROR` naming the column of the first problem.
+ */
+export function parseChangeFilter(source: string): ChangeFilter | CliError {
+  return parseExpression(source, changeFilterGrammar, "filter");
+}
@@ -6,14 +6,19 @@
  * Duration semantics follow `src/recurrence/duration.ts` (dueIn / overdueBy):
  * both decompose a positive millisecond span into days/hours/minutes.
  *
- * All dates are reasoned about against the UTC calendar.
+ * Dates are reasoned about against the UTC calendar, except in the time-zone
+ * suite, which pins America/Los_Angeles.
  */
 import { describe, expect, it } from "vitest";
 import type { OFTask } from "@ofocus/sdk";
 import {
+  endOfDay,
   endOfUtcDay,
   groupByDay,
   partitionToday,
+  runThisWeek,
+  runToday,
+  startOfNextDay,
   startOfNextUtcDay,
 } from "../../src/commands/digests.js";
 
@@ -272,3 +277,62 @@ describe("groupByDay", () => {
     expect(groupByDay(tasks, NOW)).toEqual([]);
   });
 });
+
+describe("time zones", () => {
+  const LA = "America/Los_Angeles";
+  // 21:00 PST on Jan 15 — already Jan 16 in UTC.
+  const EVENING = "2026-01-16T05:00:00.000Z";
+
+  it("bounds the day at local midnight", () => {
+    expect(startOfNextDay(EVENING, LA)).toBe("2026-01-16T08:00:00.000Z");
+    expect(endOfDay(EVENING, LA)).toBe("2026-01-16T07:59:59.999Z");
+    expect(startOfNextDay(NOW, "UTC")).toBe(startOfNextUtcDay(NOW));
+  });
+
+  it("steps to the next local midnight across spring-forward", () => {
+    // The 2026-03-08 day is 23 hours long.
+    expect(startOfNextDay("2026-03-08T12:00:00.000Z", LA)).toBe(
+      "2026-03-09T07:00:00.000Z",
+    );
+  });
+
+  it("groups a late-evening task under its local day", () => {
+    const tasks = [makeTask({ id: "x", dueDate: "2026-01-16T05:30:00.000Z" })];
+
+    expect(groupByDay(tasks, EVENING, LA).map((g) => g.date)).toEqual([
+      "2026-01-15",
+    ]);
+    expect(groupByDay(tasks, EVENING).map((g) => g.date)).toEqual([
+      "2026-01-16",
+    ]);
+  });
+
+  it("builds today's digest for the local day", async () => {
+    const tasks = [
+      // 23:00 PST today.
+      makeTask({ id: "tonight", dueDate: "2026-01-16T07:00:00.000Z" }),
+      // 01:00 PST tomorrow — today in UTC, but not here.
+      makeTask({ id: "tomorrow", dueDate: "2026-01-16T09:00:00.000Z" }),
+    ];
+
+    const out = await runToday({
+      fetchTasks: () => Promise.resolve(tasks),
+      now: EVENING,
+      timeZone: LA,
+    });
+
+    expect(out.data).toMatchObject({ date: "2026-01-15", timeZone: LA });
+    expect(out.data?.dueToday.map((t) => t.id)).toEqual(["tonight"]);
+  });
+
+  it("rejects an unknown time zone", async () => {
+    const out = await runThisWeek({
+      fetchForecast: () => Promise.resolve([]),
+      now: NOW,
+      timeZone: "Pacific Time",
+    });
+
+    expect(out.success).toBe(false);
+    expect(out.error?.code).toBe("VALIDATION_ERROR");
+  });
+});
@@ -257,3 +257,77 @@ describe("expandOccurrences — ordering & edge cases (regression)", () => {
     ]);
   });
 });
+
+describe("expandOccurrences — time zones", () => {
+  // America/Los_Angeles springs forward on 2026-03-08 and falls back on
+  // 2026-11-01.
+  const timeZone = "America/Los_Angeles";
+
+  it("keeps the local time-of-day across spring-forward", () => {
+    // 09:00 PST, then 09:00 PDT.
+    expect(
+      expandOccurrences(rule({}), "2026-03-06T17:00:00.000Z", 3, { timeZone })
+    ).toEqual([
+      "2026-03-07T17:00:00.000Z",
+      "2026-03-08T16:00:00.000Z",
+      "2026-03-09T16:00:00.000Z",
+    ]);
+  });
+
+  it("keeps the local time-of-day across fall-back", () => {
+    expect(
+      expandOccurrences(rule({}), "2026-10-30T16:00:00.000Z", 3, { timeZone })
+    ).toEqual([
+      "2026-10-31T16:00:00.000Z",
+      "2026-11-01T17:00:00.000Z",
+      "2026-11-02T17:00:00.000Z",
+    ]);
+  });
+
+  it("matches BYDAY against the local weekday", () => {
+    // Monday 22:00 PST is Tuesday in UTC.
+    expect(
+      expandOccurrences(
+        rule({ frequency: "weekly", daysOfWeek: [1] }),
+        "2026-01-06T06:00:00.000Z",
+        2,
+        { timeZone }
+      )
+    ).toEqual(["2026-01-13T06:00:00.000Z", "2026-01-20T06:00:00.000Z"]);
+  });
+
+  it("moves a local time skipped by spring-forward past the gap", () => {
+    // 02:30 doesn't exist on 2026-03-08; it becomes 03:30 PDT.
+    expect(
+      expandOccurrences(rule({}), "2026-03-07T10:30:00.000Z", 2, { timeZone })
+    ).toEqual(["2026-03-08T10:30:00.000Z", "2026-03-09T09:30:00.000Z"]);
+  });
+
+  it("emits wall times the gap folds together once", () => {
+    // Local 02:00 and 03:00 are both 10:00Z on the spring-forward night.
+    expect(
+      expandOccurrences(
+        rule({ frequency: "hourly" }),
+        "2026-03-08T08:00:00.000Z",
+        3,
+        { timeZone }
+      )
+    ).toEqual([
+      "2026-03-08T09:00:00.000Z",
+      "2026-03-08T10:00:00.000Z",
+      "2026-03-08T11:00:00.000Z",
+    ]);
+  });
+
+  it("ends a date-only UNTIL at the end of the local day", () => {
+    // 21:00 PST daily; 21:00 on Jan 2 is already Jan 3 in UTC.
+    expect(
+      expandOccurrences(
+        rule({ until: "2026-01-02" }),
+        "2026-01-01T05:00:00.000Z",
+        10,
+        { timeZone }
+      )
+    ).toEqual(["2026-01-02T05:00:00.000Z", "2026-01-03T05:00:00.000Z"]);
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { appendFileSync, mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runChanges } from "../../src/changes/command.js";
+import { computeFingerprint } from "../../src/changes/fingerprint.js";
+import type { ChangeSet, Snapshot } from "../../src/changes/types.js";
+import { appendHistory, readHistory, resolveHistoryPath } from "../../src/history/store.js";
+import { runTimeline } from "../../src/history/timeline.js";
+
+let dir: string;
+let path: string;
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "ofocus-history-"));
+  path = resolveHistoryPath(dir);
+});
+afterEach(() => { rmSync(dir, { recursive: true, force: true }); });
+
+const task = (dueDate: string | null, deferDate: string | null = null) => ({ name: "File taxes", dueDate, deferDate });
+
+function update(at: string, delta: ChangeSet["updated"][number]["delta"], object = task(null)): void {
+  appendHistory(path, { added: [], updated: [{ id: "t", class: "tasks", object, delta }], removed: [] }, { watch: "w", generation: 1, at });
+}
+
+describe("history store", () => {
+  it("appends one record per changed object and reads them back by ID", () => {
+    appendHistory(
+      path,
+      {
+        added: [{ id: "a", class: "tasks", object: { name: "A" } }],
+        updated: [],
+        removed: [{ id: "b", class: "projects", object: { name: "B" } }],
+      },
+      { watch: "w", generation: 2, at: "2026-05-30T10:00:00.000Z" },
+    );
+    appendFileSync(path, "{torn\n");
+    expect(readHistory(path)).toHaveLength(2);
+    expect(readHistory(path, "b")).toEqual([
+      { watch: "w", generation: 2, at: "2026-05-30T10:00:00.000Z", change: "removed", id: "b", class: "projects", object: { name: "B" } },
+    ]);
+    expect(readHistory(join(dir, "missing.ndjson"))).toEqual([]);
+  });
+
+  it("runChanges feeds detected changes to the recorder", async () => {
+    const v1: Snapshot = { tasks: { a: { id: "a", modified: "2026-05-30T01:00:00.000Z", fields: { name: "A", flagged: false } } }, projects: {} };
+    const v2: Snapshot = { tasks: { a: { id: "a", modified: "2026-05-30T09:00:00.000Z", fields: { name: "A", flagged: true } } }, projects: {} };
+    const deps = (snapshot: Snapshot) => ({
+      scanWatched: async () => snapshot,
+      scanFingerprint: async () => computeFingerprint(snapshot, null),
+      stateDir: dir,
+      now: "2026-05-30T10:00:00.000Z",
+      recordHistory: (changes: ChangeSet, meta: { watch: string; generation: number; at: string }) => {
+        appendHistory(path, changes, meta);
+      },
+    });
+    await runChanges({ watch: "w", fresh: true }, deps(v1));
+    expect(readHistory(path)).toEqual([]);
+    await runChanges({ watch: "w", fresh: true }, deps(v2));
+    expect(readHistory(path, "a")).toMatchObject([
+      { watch: "w", at: "2026-05-30T10:00:00.000Z", change: "updated", delta: { flagged: { from: false, to: true } } },
+    ]);
+  });
+});
+
+describe("runTimeline", () => {
+  it("lists changes oldest first and counts deferrals and postponements", () => {
+    update("2026-05-03T00:00:00.000Z", { dueDate: { from: "2026-05-10T00:00:00.000Z", to: "2026-05-17T00:00:00.000Z" } });
+    update("2026-05-01T00:00:00.000Z", { dueDate: { from: null, to: "2026-05-10T00:00:00.000Z" } });
+    update("2026-05-05T00:00:00.000Z", { deferDate: { from: null, to: "2026-05-12T00:00:00.000Z" }, flagged: { from: false, to: true } });
+    update("2026-05-06T00:00:00.000Z", { completed: { from: false, to: true } });
+
+    const out = runTimeline({ id: "t" }, { stateDir: dir, recording: true });
+    expect(out.data).toMatchObject({
+      id: "t",
+      class: "tasks",
+      name: "File taxes",
+      firstSeen: "2026-05-01T00:00:00.000Z",
+      lastSeen: "2026-05-06T00:00:00.000Z",
+      stats: { updates: 4, deferrals: 1, dueDateChanges: 2, duePostponements: 1, projectMoves: 0, tagChanges: 0, flagChanges: 1, completions: 1 },
+    });
+    expect(out.data!.entries.map((e) => e.at.slice(0, 10))).toEqual(["2026-05-01", "2026-05-03", "2026-05-05", "2026-05-06"]);
+
+    const due = runTimeline({ id: "t", fields: ["dueDate"], limit: 1 }, { stateDir: dir });
+    expect(due.data!.entries).toEqual([
+      { at: "2026-05-03T00:00:00.000Z", watch: "w", change: "updated", delta: { dueDate: { from: "2026-05-10T00:00:00.000Z", to: "2026-05-17T00:00:00.000Z" } } },
+    ]);
+    expect(due.data!.stats.updates).toBe(4);
+  });
+
+  it("drops the same edit recorded by two scans", () => {
+    const delta = { flagged: { from: false, to: true } };
+    update("2026-05-01T00:00:00.000Z", delta);
+    update("2026-05-01T00:00:01.000Z", delta);
+    expect(runTimeline({ id: "t" }, { stateDir: dir }).data!.stats.updates).toBe(1);
+  });
+
+  it("explains an empty timeline", () => {
+    expect(runTimeline({ id: "t" }, { stateDir: dir, recording: false }).data!.note).toContain("OFOCUS_HISTORY=1");
+    expect(runTimeline({ id: "t" }, { stateDir: dir, recording: true }).data).toMatchObject({
+      class: null,
+      name: null,
+      note: "No changes recorded for this ID yet.",
+    });
+  });
+});
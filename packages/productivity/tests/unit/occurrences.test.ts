@@ -169,4 +169,30 @@ describe("runOccurrences", () => {
     );
     expect(out.success).toBe(false);
   });
+
+  it("repeats on the wall clock of the time zone across DST", async () => {
+    // 09:00 PST daily; spring-forward on Mar 8 makes it 16:00Z.
+    const daily = makeRule({
+      id: "d",
+      name: "Stand-up",
+      ruleString: "FREQ=DAILY",
+      method: "Fixed",
+      dueDate: "2026-03-06T17:00:00.000Z",
+    });
+
+    const out = await runOccurrences(
+      { days: 3 },
+      {
+        scanRepeatingTasks: stubScan([daily]),
+        now: "2026-03-06T18:00:00.000Z",
+        timeZone: "America/Los_Angeles",
+      },
+    );
+
+    expect(out.data?.occurrences.map((o) => o.occurrenceDate)).toEqual([
+      "2026-03-07T17:00:00.000Z",
+      "2026-03-08T16:00:00.000Z",
+      "2026-03-09T16:00:00.000Z",
+    ]);
+  });
 });
@@ -40,6 +40,17 @@ describe("parseRRule", () => {
       monthsOfYear: [3, 6], dayOfMonth: 25,
     });
   });
+  it("parses the rest of the RFC 5545 grammar", () => {
+    expect(
+      parseRRule("FREQ=MONTHLY;COUNT=3;BYDAY=TU,WE,TH;BYSETPOS=3;WKST=SU", "scheduled")
+    ).toEqual({
+      frequency: "monthly", interval: 1, repeatMethod: "scheduled",
+      daysOfWeek: [2, 3, 4], setPositions: [3], weekStart: 0, count: 3,
+    });
+    expect(parseRRule("FREQ=HOURLY;INTERVAL=3;UNTIL=20260101T170000Z", "scheduled")).toMatchObject({
+      frequency: "hourly", interval: 3, until: "2026-01-01T17:00:00.000Z",
+    });
+  });
   it("returns null for missing/unknown FREQ", () => {
     expect(parseRRule("", "due-again")).toBeNull();
     expect(parseRRule("INTERVAL=2", "due-again")).toBeNull();
@@ -66,10 +77,8 @@ describe("parseRRule", () => {
 
 describe("parseRRule — strict rejection (regression, PR #61 review)", () => {
   it.each([
-    "FREQ=DAILY;COUNT=3",
-    "FREQ=DAILY;UNTIL=20260101T000000Z",
-    "FREQ=WEEKLY;WKST=MO;BYDAY=MO",
-    "FREQ=MONTHLY;BYSETPOS=1;BYDAY=MO",
+    "FREQ=DAILY;COUNT=3;UNTIL=20260101T000000Z",
+    "FREQ=MONTHLY;BYSETPOS=1",
     "FREQ=DAILY;INTERVAL=2x",
     "FREQ=DAILY;INTERVAL=abc",
     "FREQ=DAILY;INTERVAL=0",
@@ -0,0 +1,154 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { type OFTask, ErrorCode, createError, failure, success } from "@ofocus/sdk";
+import { parseBudget, runPlanDay, type PlanDayDeps } from "../../src/commands/plan-day.js";
+
+let dir: string;
+beforeEach(() => { dir = mkdtempSync(join(tmpdir(), "ofocus-plan-day-")); });
+afterEach(() => { rmSync(dir, { recursive: true, force: true }); });
+
+// Rounds up to a 09:00Z default start.
+const now = "2026-01-15T08:57:00.000Z";
+
+function makeTask(overrides: Partial<OFTask>): OFTask {
+  return {
+    id: "t",
+    name: "Untitled",
+    note: null,
+    flagged: false,
+    completed: false,
+    dueDate: null,
+    deferDate: null,
+    completionDate: null,
+    projectId: null,
+    projectName: null,
+    tags: [],
+    estimatedMinutes: null,
+    ...overrides,
+  };
+}
+
+const tasks: OFTask[] = [
+  makeTask({ id: "a", name: "Overdue", dueDate: "2026-01-13T08:00:00.000Z", estimatedMinutes: 30 }),
+  makeTask({ id: "b", name: "Due today", dueDate: "2026-01-15T17:00:00.000Z", flagged: true, estimatedMinutes: 60 }),
+  makeTask({ id: "c", name: "Next step", flagged: true, projectId: "seq", projectName: "Move" }),
+  makeTask({ id: "d", name: "Due soon", dueDate: "2026-01-18T12:00:00.000Z", estimatedMinutes: 120 }),
+  makeTask({ id: "e", name: "Quick", tags: ["Quick"], estimatedMinutes: 15 }),
+  makeTask({ id: "f", name: "Done", completed: true, flagged: true }),
+];
+
+const deps: PlanDayDeps = {
+  fetchTasks: async () => success(tasks),
+  fetchSequentialProjects: async () => success(["seq"]),
+  now,
+};
+
+const ids = (list: { id: string }[]) => list.map((t) => t.id);
+
+describe("parseBudget", () => {
+  it("parses minutes, hours and combinations", () => {
+    expect(parseBudget("90")).toBe(90);
+    expect(parseBudget("45m")).toBe(45);
+    expect(parseBudget("1.5h")).toBe(90);
+    expect(parseBudget("2h30m")).toBe(150);
+    expect(parseBudget("soon")).toBeNull();
+  });
+});
+
+describe("runPlanDay", () => {
+  it("orders by score and schedules back to back within the budget", async () => {
+    const out = await runPlanDay({ available: "2h30m", tags: ["quick"] }, deps);
+    const plan = out.data!;
+    expect(plan.start).toBe("2026-01-15T09:00:00.000Z");
+    expect(ids(plan.schedule)).toEqual(["b", "a", "c", "e"]);
+    expect(plan.schedule[0]).toMatchObject({
+      start: "2026-01-15T09:00:00.000Z",
+      end: "2026-01-15T10:00:00.000Z",
+      score: 110,
+      reasons: ["due today", "flagged"],
+    });
+    expect(plan.schedule[1]).toMatchObject({ score: 104, reasons: ["overdue 2d"] });
+    expect(plan.schedule[2]).toMatchObject({ minutes: 30, estimated: false, reasons: ["flagged", "next in sequence"] });
+    expect(plan.schedule[3]).toMatchObject({ start: "2026-01-15T11:00:00.000Z", reasons: ["tag quick"] });
+    // Too big for what was left, while the smaller task after it still fit.
+    expect(plan.overflow).toEqual([
+      expect.objectContaining({ id: "d", score: 25, reasons: ["due in 4d"] }),
+    ]);
+    expect(plan.scheduledMinutes).toBe(135);
+  });
+
+  it("fits tasks around calendar busy blocks", async () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "SUMMARY:Standup",
+      "DTSTART:20260115T093000Z",
+      "DTEND:20260115T101500Z",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "SUMMARY:Yesterday",
+      "DTSTART:20260114T093000Z",
+      "DTEND:20260114T101500Z",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    const calendar = join(dir, "day.ics");
+    writeFileSync(calendar, ics);
+    const out = await runPlanDay({ available: "2h30m", tags: ["quick"], calendar }, deps);
+    const plan = out.data!;
+    expect(plan.busy.map((b) => b.summary)).toEqual(["Standup"]);
+    expect(plan.schedule.map((t) => [t.id, t.start.slice(11, 16)])).toEqual([
+      ["a", "09:00"],
+      ["b", "10:15"],
+      ["c", "11:15"],
+      ["e", "11:45"],
+    ]);
+  });
+
+  it("schedules nothing past the end time", async () => {
+    const out = await runPlanDay({ available: "3h", end: "2026-01-15T10:00:00.000Z" }, deps);
+    expect(ids(out.data!.schedule)).toEqual(["b"]);
+    expect(ids(out.data!.overflow)).toEqual(["a", "c", "d", "e"]);
+  });
+
+  it("reads today and HH:MM times in the time zone", async () => {
+    // 21:00 on the 15th in Los Angeles, but the 16th in UTC.
+    const late = makeTask({ id: "g", name: "Late", dueDate: "2026-01-16T05:00:00.000Z", estimatedMinutes: 15 });
+    const zoned = { ...deps, fetchTasks: async () => success([late]) };
+
+    const utc = await runPlanDay({ available: "1h", start: "09:00" }, zoned);
+    expect(utc.data).toMatchObject({ start: "2026-01-15T09:00:00.000Z", timeZone: "UTC" });
+    expect(utc.data!.schedule[0]!.reasons).toEqual(["due in 1d"]);
+
+    const la = await runPlanDay({ available: "1h", start: "09:00", end: "17:30", timeZone: "America/Los_Angeles" }, zoned);
+    expect(la.data).toMatchObject({
+      start: "2026-01-15T17:00:00.000Z",
+      end: "2026-01-16T01:30:00.000Z",
+      timeZone: "America/Los_Angeles",
+    });
+    expect(la.data!.schedule[0]!.reasons).toEqual(["due today"]);
+
+    const unknown = await runPlanDay({ available: "1h", timeZone: "Mars/Olympus" }, zoned);
+    expect(unknown.success).toBe(false);
+  });
+
+  it("rejects an invalid budget, time or calendar", async () => {
+    const budget = await runPlanDay({ available: "lots" }, deps);
+    expect(budget.error?.code).toBe(ErrorCode.VALIDATION_ERROR);
+    const start = await runPlanDay({ available: "1h", start: "25:00" }, deps);
+    expect(start.error?.code).toBe(ErrorCode.INVALID_DATE_FORMAT);
+    const calendar = await runPlanDay({ available: "1h", calendar: join(dir, "missing.ics") }, deps);
+    expect(calendar.error?.message).toMatch(/Cannot read calendar/);
+  });
+
+  it("propagates query failures", async () => {
+    const out = await runPlanDay(
+      { available: "1h" },
+      { ...deps, fetchTasks: async () => failure(createError(ErrorCode.OMNIFOCUS_NOT_RUNNING, "not running")) },
+    );
+    expect(out.success).toBe(false);
+    expect(out.error?.code).toBe(ErrorCode.OMNIFOCUS_NOT_RUNNING);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ChangeSet, Snapshot, WatchedObject } from "../../src/changes/types.js";
+import { dueSlipDays, runProcrastination } from "../../src/commands/procrastination.js";
+import { type HistoryRecord, appendHistory, resolveHistoryPath } from "../../src/history/store.js";
+
+let dir: string;
+beforeEach(() => { dir = mkdtempSync(join(tmpdir(), "ofocus-procrastination-")); });
+afterEach(() => { rmSync(dir, { recursive: true, force: true }); });
+
+const now = "2026-06-01T00:00:00.000Z";
+
+function task(id: string, fields: Record<string, unknown>, added: string, modified: string): WatchedObject {
+  return { id, added, modified, fields: { name: id, completed: false, dueDate: null, deferDate: null, projectId: null, tags: [], ...fields } };
+}
+
+const snapshot: Snapshot = {
+  projects: {
+    p1: { id: "p1", modified: now, fields: { name: "Taxes", status: "active" } },
+    p2: { id: "p2", modified: now, fields: { name: "Old", status: "dropped" } },
+  },
+  tasks: {
+    file: task("file", { projectId: "p1", tags: ["Errands"], dueDate: "2026-05-20T00:00:00.000Z" }, "2026-01-01T00:00:00.000Z", "2026-04-01T00:00:00.000Z"),
+    call: task("call", { projectId: "p1", tags: ["Phone", "Errands"] }, "2026-05-28T00:00:00.000Z", "2026-05-30T00:00:00.000Z"),
+    idea: task("idea", {}, "2025-01-01T00:00:00.000Z", "2025-02-01T00:00:00.000Z"),
+    done: task("done", { projectId: "p1", completed: true }, "2026-01-01T00:00:00.000Z", "2026-01-01T00:00:00.000Z"),
+    gone: task("gone", { projectId: "p2" }, "2026-01-01T00:00:00.000Z", "2026-01-01T00:00:00.000Z"),
+  },
+};
+
+function update(at: string, id: string, delta: NonNullable<ChangeSet["updated"][number]["delta"]>): void {
+  appendHistory(resolveHistoryPath(dir), { added: [], updated: [{ id, class: "tasks", object: {}, delta }], removed: [] }, { watch: "w", generation: 1, at });
+}
+
+const deps = (recording = true) => ({ scanWatched: async () => snapshot, now, stateDir: dir, recording });
+
+describe("dueSlipDays", () => {
+  const rec = (change: HistoryRecord["change"], extra: Partial<HistoryRecord>): HistoryRecord =>
+    ({ at: "2026-05-01T00:00:00.000Z", watch: "w", generation: 1, change, id: "t", class: "tasks", object: {}, ...extra });
+
+  it("measures from the first recorded due date to the current one", () => {
+    expect(dueSlipDays([
+      rec("added", { object: { dueDate: null } }),
+      rec("updated", { delta: { dueDate: { from: null, to: "2026-05-10T00:00:00.000Z" } } }),
+      rec("updated", { delta: { dueDate: { from: "2026-05-10T00:00:00.000Z", to: "2026-05-12T00:00:00.000Z" } } }),
+    ], "2026-05-13T12:00:00.000Z")).toBe(3.5);
+    expect(dueSlipDays([rec("updated", { delta: { dueDate: { from: null, to: "2026-05-10T00:00:00.000Z" } } })], "2026-05-10T00:00:00.000Z")).toBeNull();
+    expect(dueSlipDays([], "2026-05-10T00:00:00.000Z")).toBeNull();
+  });
+});
+
+describe("runProcrastination", () => {
+  it("groups open tasks by project and tag with ages, idle time, deferrals and slip", async () => {
+    for (const [i, to] of ["2026-05-02", "2026-05-09", "2026-05-16"].entries()) {
+      update(`2026-05-0${String(i + 1)}T00:00:00.000Z`, "file", { deferDate: { from: null, to: `${to}T00:00:00.000Z` } });
+    }
+    update("2026-05-05T00:00:00.000Z", "file", { dueDate: { from: "2026-05-10T00:00:00.000Z", to: "2026-05-20T00:00:00.000Z" } });
+
+    const out = await runProcrastination({}, deps());
+    const report = out.data!;
+    expect(report.historySince).toBe("2026-05-01T00:00:00.000Z");
+    expect(report.note).toBeUndefined();
+    expect(report.totals).toMatchObject({
+      name: "All",
+      openTasks: 3,
+      ages: { under1Week: 1, under1Month: 0, under3Months: 0, under1Year: 1, over1Year: 1, unknown: 0 },
+      medianAgeDays: 151,
+      untouched: 2,
+      deferredOften: 1,
+      slipped: 1,
+      averageSlipDays: 10,
+    });
+    expect(report.projects.map((g) => [g.name, g.openTasks])).toEqual([["Taxes", 2], ["(Inbox)", 1]]);
+    expect(report.tags.map((g) => [g.name, g.openTasks])).toEqual([["Errands", 2], ["Phone", 1]]);
+    expect(report.deferredOften).toEqual([
+      { id: "file", name: "file", project: "Taxes", tags: ["Errands"], ageDays: 151, untouchedDays: 61, deferrals: 3, duePostponements: 1, slipDays: 10 },
+    ]);
+    expect(report.untouched.map((t) => t.id)).toEqual(["idea", "file"]);
+  });
+
+  it("applies filters, thresholds and the list limit", async () => {
+    const out = await runProcrastination({ tag: "errands", untouchedDays: 1, limit: 1 }, deps());
+    expect(out.data!.totals.openTasks).toBe(2);
+    expect(out.data!.thresholds).toEqual({ deferredMoreThan: 2, untouchedDays: 1 });
+    expect(out.data!.untouched.map((t) => t.id)).toEqual(["file"]);
+    const inbox = await runProcrastination({ project: "(inbox)" }, deps());
+    expect(inbox.data!.totals.openTasks).toBe(1);
+  });
+
+  it("explains empty deferral figures when history is off", async () => {
+    const out = await runProcrastination({}, deps(false));
+    expect(out.data!.historySince).toBeNull();
+    expect(out.data!.note).toContain("OFOCUS_HISTORY=1");
+    expect(out.data!.totals.deferredOften).toBe(0);
+  });
+});
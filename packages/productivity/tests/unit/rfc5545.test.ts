@@ -0,0 +1,219 @@
+/**
+ * Conformance corpus: the RRULE examples of RFC 5545 §3.8.5.3, run through
+ * parseRRule + expandOccurrences.
+ *
+ * The RFC anchors most examples at DTSTART;TZID=America/New_York:19970902T090000.
+ * The expander works in UTC, so each DTSTART is taken as 09:00Z and every
+ * expected instance keeps that time (the RFC's EDT/EST shift does not apply).
+ * Date-only expectations below mean 09:00Z on that day. The RFC lists DTSTART
+ * as the first instance, so expansion starts just before the anchor.
+ * @see https://datatracker.ietf.org/doc/html/rfc5545#section-3.8.5.3
+ */
+import { describe, it, expect } from "vitest";
+import { expandOccurrences } from "../../src/recurrence/expand.js";
+import { parseRRule } from "../../src/recurrence/parse.js";
+
+const at9 = (date: string): string => (date.length === 10 ? `${date}T09:00:00.000Z` : date);
+
+/** Every `n` instances of a rule from (and including) DTSTART. */
+function expand(rrule: string, dtstart: string, n: number): string[] {
+  const rule = parseRRule(rrule, "scheduled");
+  expect(rule).not.toBeNull();
+  const anchor = at9(dtstart);
+  const fromISO = new Date(Date.parse(anchor) - 1).toISOString();
+  return expandOccurrences(rule!, anchor, n, { fromISO });
+}
+
+/** `YYYY-MM-DD` for each day of `month` (`YYYY-MM`). */
+const days = (month: string, list: number[]): string[] =>
+  list.map((d) => `${month}-${String(d).padStart(2, "0")}`);
+
+// [title, DTSTART, RRULE, expected instances]. Rules ending by COUNT or UNTIL
+// are expanded in full; open-ended ones are compared on their first instances.
+const finite: [string, string, string, string[]][] = [
+  ["daily for 10 occurrences", "1997-09-02", "FREQ=DAILY;COUNT=10", days("1997-09", [2, 3, 4, 5, 6, 7, 8, 9, 10, 11])],
+  ["every 10 days, 5 occurrences", "1997-09-02", "FREQ=DAILY;INTERVAL=10;COUNT=5", [
+    ...days("1997-09", [2, 12, 22]), ...days("1997-10", [2, 12]),
+  ]],
+  ["weekly for 10 occurrences", "1997-09-02", "FREQ=WEEKLY;COUNT=10", [
+    ...days("1997-09", [2, 9, 16, 23, 30]), ...days("1997-10", [7, 14, 21, 28]), "1997-11-04",
+  ]],
+  ["weekly on Tuesday and Thursday for five weeks", "1997-09-02", "FREQ=WEEKLY;UNTIL=19971007T000000Z;WKST=SU;BYDAY=TU,TH", [
+    ...days("1997-09", [2, 4, 9, 11, 16, 18, 23, 25, 30]), "1997-10-02",
+  ]],
+  ["every other week on Mon, Wed and Fri until Dec 24", "1997-09-01", "FREQ=WEEKLY;INTERVAL=2;UNTIL=19971224T000000Z;WKST=SU;BYDAY=MO,WE,FR", [
+    ...days("1997-09", [1, 3, 5, 15, 17, 19, 29]),
+    ...days("1997-10", [1, 3, 13, 15, 17, 27, 29, 31]),
+    ...days("1997-11", [10, 12, 14, 24, 26, 28]),
+    ...days("1997-12", [8, 10, 12, 22]),
+  ]],
+  ["every other week on Tuesday and Thursday, 8 occurrences", "1997-09-02", "FREQ=WEEKLY;INTERVAL=2;COUNT=8;WKST=SU;BYDAY=TU,TH", [
+    ...days("1997-09", [2, 4, 16, 18, 30]), ...days("1997-10", [2, 14, 16]),
+  ]],
+  ["monthly on the first Friday for 10 occurrences", "1997-09-05", "FREQ=MONTHLY;COUNT=10;BYDAY=1FR", [
+    "1997-09-05", "1997-10-03", "1997-11-07", "1997-12-05", "1998-01-02",
+    "1998-02-06", "1998-03-06", "1998-04-03", "1998-05-01", "1998-06-05",
+  ]],
+  ["every other month on the first and last Sunday, 10 occurrences", "1997-09-07", "FREQ=MONTHLY;INTERVAL=2;COUNT=10;BYDAY=1SU,-1SU", [
+    "1997-09-07", "1997-09-28", "1997-11-02", "1997-11-30", "1998-01-04",
+    "1998-01-25", "1998-03-01", "1998-03-29", "1998-05-03", "1998-05-31",
+  ]],
+  ["monthly on the second-to-last Monday for 6 months", "1997-09-22", "FREQ=MONTHLY;COUNT=6;BYDAY=-2MO", [
+    "1997-09-22", "1997-10-20", "1997-11-17", "1997-12-22", "1998-01-19", "1998-02-16",
+  ]],
+  ["monthly on the 2nd and 15th, 10 occurrences", "1997-09-02", "FREQ=MONTHLY;COUNT=10;BYMONTHDAY=2,15", [
+    ...days("1997-09", [2, 15]), ...days("1997-10", [2, 15]), ...days("1997-11", [2, 15]),
+    ...days("1997-12", [2, 15]), ...days("1998-01", [2, 15]),
+  ]],
+  ["monthly on the first and last day, 10 occurrences", "1997-09-30", "FREQ=MONTHLY;COUNT=10;BYMONTHDAY=1,-1", [
+    "1997-09-30", "1997-10-01", "1997-10-31", "1997-11-01", "1997-11-30",
+    "1997-12-01", "1997-12-31", "1998-01-01", "1998-01-31", "1998-02-01",
+  ]],
+  ["every 18 months on the 10th through 15th, 10 occurrences", "1997-09-10", "FREQ=MONTHLY;INTERVAL=18;COUNT=10;BYMONTHDAY=10,11,12,13,14,15", [
+    ...days("1997-09", [10, 11, 12, 13, 14, 15]), ...days("1999-03", [10, 11, 12, 13]),
+  ]],
+  ["yearly in June and July, 10 occurrences", "1997-06-10", "FREQ=YEARLY;COUNT=10;BYMONTH=6,7", [
+    "1997-06-10", "1997-07-10", "1998-06-10", "1998-07-10", "1999-06-10",
+    "1999-07-10", "2000-06-10", "2000-07-10", "2001-06-10", "2001-07-10",
+  ]],
+  ["every other year in January through March, 10 occurrences", "1997-03-10", "FREQ=YEARLY;INTERVAL=2;COUNT=10;BYMONTH=1,2,3", [
+    "1997-03-10", "1999-01-10", "1999-02-10", "1999-03-10", "2001-01-10",
+    "2001-02-10", "2001-03-10", "2003-01-10", "2003-02-10", "2003-03-10",
+  ]],
+  ["every third year on days 1, 100 and 200, 10 occurrences", "1997-01-01", "FREQ=YEARLY;INTERVAL=3;COUNT=10;BYYEARDAY=1,100,200", [
+    "1997-01-01", "1997-04-10", "1997-07-19", "2000-01-01", "2000-04-09",
+    "2000-07-18", "2003-01-01", "2003-04-10", "2003-07-19", "2006-01-01",
+  ]],
+  ["the third Tuesday, Wednesday or Thursday of the next 3 months", "1997-09-04", "FREQ=MONTHLY;COUNT=3;BYDAY=TU,WE,TH;BYSETPOS=3", [
+    "1997-09-04", "1997-10-07", "1997-11-06",
+  ]],
+  ["every 3 hours from 09:00 to 17:00 on one day", "1997-09-02", "FREQ=HOURLY;INTERVAL=3;UNTIL=19970902T170000Z", [
+    "1997-09-02T09:00:00.000Z", "1997-09-02T12:00:00.000Z", "1997-09-02T15:00:00.000Z",
+  ]],
+  ["every 15 minutes for 6 occurrences", "1997-09-02", "FREQ=MINUTELY;INTERVAL=15;COUNT=6", [
+    "1997-09-02T09:00:00.000Z", "1997-09-02T09:15:00.000Z", "1997-09-02T09:30:00.000Z",
+    "1997-09-02T09:45:00.000Z", "1997-09-02T10:00:00.000Z", "1997-09-02T10:15:00.000Z",
+  ]],
+  ["every hour and a half for 4 occurrences", "1997-09-02", "FREQ=MINUTELY;INTERVAL=90;COUNT=4", [
+    "1997-09-02T09:00:00.000Z", "1997-09-02T10:30:00.000Z",
+    "1997-09-02T12:00:00.000Z", "1997-09-02T13:30:00.000Z",
+  ]],
+  ["WKST=MO: every other week on Tuesday and Sunday", "1997-08-05", "FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=MO", [
+    "1997-08-05", "1997-08-10", "1997-08-19", "1997-08-24",
+  ]],
+  ["WKST=SU: every other week on Tuesday and Sunday", "1997-08-05", "FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=SU", [
+    "1997-08-05", "1997-08-17", "1997-08-19", "1997-08-31",
+  ]],
+  ["an invalid date (February 30th) is skipped", "2007-01-15", "FREQ=MONTHLY;BYMONTHDAY=15,30;COUNT=5", [
+    "2007-01-15", "2007-01-30", "2007-02-15", "2007-03-15", "2007-03-30",
+  ]],
+];
+
+const open: [string, string, string, string[]][] = [
+  ["every other day", "1997-09-02", "FREQ=DAILY;INTERVAL=2", days("1997-09", [2, 4, 6, 8, 10])],
+  ["monthly on the third-to-the-last day", "1997-09-28", "FREQ=MONTHLY;BYMONTHDAY=-3", [
+    "1997-09-28", "1997-10-29", "1997-11-28", "1997-12-29", "1998-01-29", "1998-02-26",
+  ]],
+  ["every Tuesday, every other month", "1997-09-02", "FREQ=MONTHLY;INTERVAL=2;BYDAY=TU", [
+    ...days("1997-09", [2, 9, 16, 23, 30]), ...days("1997-11", [4, 11, 18, 25]), "1998-01-06",
+  ]],
+  ["the 20th Monday of the year", "1997-05-19", "FREQ=YEARLY;BYDAY=20MO", ["1997-05-19", "1998-05-18", "1999-05-17"]],
+  ["Monday of week number 20", "1997-05-12", "FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO", ["1997-05-12", "1998-05-11", "1999-05-17"]],
+  ["every Thursday in March", "1997-03-13", "FREQ=YEARLY;BYMONTH=3;BYDAY=TH", [
+    ...days("1997-03", [13, 20, 27]), ...days("1998-03", [5, 12, 19, 26]), ...days("1999-03", [4, 11, 18, 25]),
+  ]],
+  ["every Thursday in June, July and August", "1997-06-05", "FREQ=YEARLY;BYDAY=TH;BYMONTH=6,7,8", [
+    ...days("1997-06", [5, 12, 19, 26]), ...days("1997-07", [3, 10, 17, 24, 31]), ...days("1997-08", [7, 14, 21, 28]),
+  ]],
+  ["the first Saturday following the first Sunday", "1997-09-13", "FREQ=MONTHLY;BYDAY=SA;BYMONTHDAY=7,8,9,10,11,12,13", [
+    "1997-09-13", "1997-10-11", "1997-11-08", "1997-12-13", "1998-01-10",
+    "1998-02-07", "1998-03-07", "1998-04-11", "1998-05-09", "1998-06-13",
+  ]],
+  ["US presidential election day", "1996-11-05", "FREQ=YEARLY;INTERVAL=4;BYMONTH=11;BYDAY=TU;BYMONTHDAY=2,3,4,5,6,7,8", [
+    "1996-11-05", "2000-11-07", "2004-11-02",
+  ]],
+  ["the second-to-last weekday of the month", "1997-09-29", "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-2", [
+    "1997-09-29", "1997-10-30", "1997-11-27", "1997-12-30", "1998-01-29", "1998-02-26", "1998-03-30",
+  ]],
+];
+
+describe("RFC 5545 §3.8.5.3 examples — rules with COUNT or UNTIL", () => {
+  it.each(finite)("%s", (_title, dtstart, rrule, expected) => {
+    expect(expand(rrule, dtstart, 1000)).toEqual(expected.map(at9));
+  });
+
+  it("daily until December 24, 1997", () => {
+    const out = expand("FREQ=DAILY;UNTIL=19971224T000000Z", "1997-09-02", 1000);
+    expect(out).toHaveLength(113);
+    expect(out.at(-1)).toBe(at9("1997-12-23"));
+  });
+
+  it("every day in January for 3 years, as YEARLY and as DAILY", () => {
+    const yearly = expand("FREQ=YEARLY;UNTIL=20000131T140000Z;BYMONTH=1;BYDAY=SU,MO,TU,WE,TH,FR,SA", "1998-01-01", 1000);
+    const daily = expand("FREQ=DAILY;UNTIL=20000131T140000Z;BYMONTH=1", "1998-01-01", 1000);
+    expect(yearly).toHaveLength(93);
+    expect(yearly.slice(30, 32)).toEqual([at9("1998-01-31"), at9("1999-01-01")]);
+    expect(daily).toEqual(yearly);
+  });
+});
+
+describe("RFC 5545 §3.8.5.3 examples — open-ended rules", () => {
+  it.each(open)("%s", (_title, dtstart, rrule, expected) => {
+    expect(expand(rrule, dtstart, expected.length)).toEqual(expected.map(at9));
+  });
+
+  it("every 20 minutes from 09:00 to 16:40, as DAILY and as MINUTELY", () => {
+    const daily = expand("FREQ=DAILY;BYHOUR=9,10,11,12,13,14,15,16;BYMINUTE=0,20,40", "1997-09-02", 26);
+    const minutely = expand("FREQ=MINUTELY;INTERVAL=20;BYHOUR=9,10,11,12,13,14,15,16", "1997-09-02", 26);
+    expect(daily.slice(0, 3)).toEqual([
+      "1997-09-02T09:00:00.000Z", "1997-09-02T09:20:00.000Z", "1997-09-02T09:40:00.000Z",
+    ]);
+    expect(daily.slice(23)).toEqual([
+      "1997-09-02T16:40:00.000Z", "1997-09-03T09:00:00.000Z", "1997-09-03T09:20:00.000Z",
+    ]);
+    expect(minutely).toEqual(daily);
+  });
+});
+
+describe("RFC 5545 exclusions (EXDATE)", () => {
+  it("Friday the 13th, excluding DTSTART", () => {
+    const block = "EXDATE:19970902T090000Z\nRRULE:FREQ=MONTHLY;BYDAY=FR;BYMONTHDAY=13";
+    expect(expand(block, "1997-09-02", 5)).toEqual(
+      ["1998-02-13", "1998-03-13", "1998-11-13", "1999-08-13", "2000-10-13"].map(at9),
+    );
+  });
+
+  it("excluded instances still count towards COUNT", () => {
+    const block = "RRULE:FREQ=DAILY;COUNT=5\nEXDATE:19970903T090000Z\nEXDATE;VALUE=DATE:19970905";
+    expect(expand(block, "1997-09-02", 1000)).toEqual(["1997-09-02", "1997-09-04", "1997-09-06"].map(at9));
+  });
+
+  it("a date-only UNTIL includes that whole day", () => {
+    expect(expand("FREQ=DAILY;UNTIL=19970904", "1997-09-02", 1000)).toEqual(
+      ["1997-09-02", "1997-09-03", "1997-09-04"].map(at9),
+    );
+  });
+});
+
+describe("expandOccurrences — bounds on the RFC grammar", () => {
+  it("counts COUNT from the anchor even when `from` is later", () => {
+    const rule = parseRRule("FREQ=DAILY;COUNT=5", "scheduled")!;
+    expect(expandOccurrences(rule, at9("1997-09-02"), 10, { fromISO: "1997-09-04T12:00:00.000Z" })).toEqual(
+      ["1997-09-05", "1997-09-06"].map(at9),
+    );
+  });
+
+  it("stops at toISO", () => {
+    const rule = parseRRule("FREQ=HOURLY", "scheduled")!;
+    expect(expandOccurrences(rule, at9("1997-09-02"), 100, { toISO: "1997-09-02T12:00:00.000Z" })).toEqual([
+      "1997-09-02T10:00:00.000Z", "1997-09-02T11:00:00.000Z", "1997-09-02T12:00:00.000Z",
+    ]);
+  });
+
+  it("skips ahead through sub-daily periods a coarser BY part rules out", () => {
+    const rule = parseRRule("FREQ=MINUTELY;BYDAY=MO;BYHOUR=9;BYMINUTE=0,30", "scheduled")!;
+    expect(expandOccurrences(rule, at9("1997-09-02"), 3)).toEqual([
+      "1997-09-08T09:00:00.000Z", "1997-09-08T09:30:00.000Z", "1997-09-15T09:00:00.000Z",
+    ]);
+  });
+});
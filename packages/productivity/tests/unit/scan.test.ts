@@ -22,6 +22,18 @@ describe("buildScanScript", () => {
     expect(script).toContain("Project.Status.OnHold");
     expect(script).not.toContain('readField(o, "status")');
   });
+  it("reads a task's project from containingProject and its creation date", () => {
+    const script = buildScanScript(["tasks"]);
+    expect(script).toContain("projectId: taskProjectId(o)");
+    expect(script).toContain("o.containingProject");
+    expect(script).toContain("added: a ? a.toISOString() : null");
+  });
+  it("reads whether a task is dropped or has children", () => {
+    const script = buildScanScript(["tasks"]);
+    expect(script).toContain("o.taskStatus === Task.Status.Dropped");
+    expect(script).toContain("hasChildren: o.hasChildren === true");
+    expect(buildScanScript(["projects"])).not.toContain("hasChildren");
+  });
 });
 
 describe("parseScanResult", () => {
@@ -40,6 +52,28 @@ describe("parseScanResult", () => {
     });
     expect(snap.projects).toEqual({});
   });
+  it("keeps the creation date outside the diffed fields", () => {
+    const raw = {
+      tasks: [{ id: "a", modified: "2026-05-30T01:00:00.000Z", added: "2026-05-01T00:00:00.000Z", name: "A" }],
+    };
+    expect(parseScanResult(raw, ["tasks"]).tasks!["a"]).toEqual({
+      id: "a",
+      modified: "2026-05-30T01:00:00.000Z",
+      added: "2026-05-01T00:00:00.000Z",
+      fields: { name: "A" },
+    });
+  });
+  it("flags dropped tasks and action groups outside the diffed fields", () => {
+    const raw = {
+      tasks: [
+        { id: "a", modified: "2026-05-30T01:00:00.000Z", dropped: true, hasChildren: false, name: "A" },
+        { id: "b", modified: "2026-05-30T01:00:00.000Z", dropped: false, hasChildren: true, name: "B" },
+      ],
+    };
+    const tasks = parseScanResult(raw, ["tasks"]).tasks!;
+    expect(tasks["a"]).toEqual({ id: "a", modified: "2026-05-30T01:00:00.000Z", dropped: true, fields: { name: "A" } });
+    expect(tasks["b"]).toEqual({ id: "b", modified: "2026-05-30T01:00:00.000Z", hasChildren: true, fields: { name: "B" } });
+  });
 });
 
 describe("buildFingerprintScript", () => {
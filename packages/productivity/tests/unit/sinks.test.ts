@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runSinks } from "../../src/sinks/command.js";
+import { type SinkConfig, loadSinks } from "../../src/sinks/config.js";
+import { deliverToSink, signPayload } from "../../src/sinks/deliver.js";
+import { dispatchChanges, matchChanges } from "../../src/sinks/dispatch.js";
+import { type ChangeFilter, type ChangeMatch, parseChangeFilter } from "../../src/sinks/filter.js";
+import type { ChangeSet } from "../../src/changes/types.js";
+
+let dir: string;
+beforeEach(() => { dir = mkdtempSync(join(tmpdir(), "ofocus-sinks-")); });
+afterEach(() => { rmSync(dir, { recursive: true, force: true }); });
+
+const changes: ChangeSet = {
+  added: [{ id: "n", class: "tasks", object: { name: "Buy milk", tags: [], completed: false } }],
+  updated: [
+    {
+      id: "w",
+      class: "tasks",
+      object: { name: "Chase vendor", tags: ["Waiting"], completed: true },
+      delta: { completed: { from: false, to: true } },
+    },
+    {
+      id: "p",
+      class: "projects",
+      object: { name: "Launch", status: "on-hold" },
+      delta: { status: { from: "active", to: "on-hold" } },
+    },
+  ],
+  removed: [],
+};
+
+function filter(source: string): ChangeFilter {
+  const compiled = parseChangeFilter(source);
+  if (typeof compiled !== "function") throw new Error(compiled.message);
+  return compiled;
+}
+
+const ids = (matches: ChangeMatch[]): string[] => matches.map((m) => m.id);
+
+function writeConfig(sinks: unknown[]): void {
+  writeFileSync(join(dir, "sinks.json"), JSON.stringify({ sinks }));
+}
+
+describe("parseChangeFilter", () => {
+  it("matches kinds, classes, tags and field changes", () => {
+    expect(ids(matchChanges(changes, filter("task and tag:waiting and changed:completed=true")))).toEqual(["w"]);
+    expect(ids(matchChanges(changes, filter("project and changed:status=on-hold")))).toEqual(["p"]);
+    expect(ids(matchChanges(changes, filter("added or changed:status")))).toEqual(["n", "p"]);
+    expect(ids(matchChanges(changes, filter('tasks and not (name = "Buy milk")')))).toEqual(["w"]);
+    expect(ids(matchChanges(changes, filter("completed != true")))).toEqual(["n", "p"]);
+    expect(ids(matchChanges(changes, null))).toEqual(["n", "w", "p"]);
+  });
+
+  it("reports the column of a syntax error", () => {
+    const err = parseChangeFilter("task and bogus");
+    expect(err).toMatchObject({ code: "VALIDATION_ERROR" });
+    expect(typeof err === "function" ? "" : err.message).toContain('column 10: unknown term "bogus"');
+    expect(typeof err === "function" ? "" : err.details).toBe("task and bogus\n         ^^^^^");
+    expect(parseChangeFilter("(task")).toMatchObject({ message: expect.stringContaining('expected ")"') });
+    expect(parseChangeFilter("")).toMatchObject({ message: expect.stringContaining("expression is empty") });
+    expect(parseChangeFilter("changed:status < done")).toMatchObject({
+      message: 'Invalid filter at column 16: expected "=" after "changed:status"',
+    });
+    expect(parseChangeFilter("name ~ milk")).toMatchObject({ message: expect.stringContaining('operator "~" is not supported') });
+  });
+});
+
+describe("loadSinks", () => {
+  it("treats a missing config as no sinks", () => {
+    expect(loadSinks(dir)).toEqual([]);
+  });
+
+  it("rejects invalid entries, duplicate names and bad filters", () => {
+    writeConfig([{ name: "x", type: "webhook", url: "not a url" }]);
+    expect(loadSinks(dir)).toMatchObject({ code: "VALIDATION_ERROR", message: expect.stringContaining("sinks.0.url") });
+    writeConfig([{ name: "x", type: "file", path: "a" }, { name: "x", type: "file", path: "b" }]);
+    expect(loadSinks(dir)).toMatchObject({ message: "Duplicate sink name: x" });
+    writeConfig([{ name: "x", type: "file", path: "a", filter: "task and" }]);
+    expect(loadSinks(dir)).toMatchObject({ message: expect.stringContaining('Sink "x": Invalid filter') });
+  });
+});
+
+describe("deliverToSink", () => {
+  const payload = { sink: "s", watch: "w", generation: 1, at: "2026-05-30T10:00:00.000Z", changes: [] };
+
+  it("POSTs a signed JSON body to a webhook", async () => {
+    const requests: { url: string; init: RequestInit }[] = [];
+    const fetchStub = (async (url: string, init: RequestInit) => {
+      requests.push({ url, init });
+      return new Response(null, { status: 204 });
+    }) as unknown as typeof fetch;
+    const config: SinkConfig = { name: "s", type: "webhook", url: "https://hooks.example/x", secret: "k" };
+    const result = await deliverToSink(config, payload, { fetch: fetchStub, deadLetterPath: join(dir, "dl") });
+    expect(result).toEqual({ sink: "s", delivered: true, attempts: 1, matched: 0 });
+    const body = requests[0]!.init.body as string;
+    expect(JSON.parse(body)).toEqual(payload);
+    expect((requests[0]!.init.headers as Record<string, string>)["X-Ofocus-Signature"]).toBe(signPayload(body, "k"));
+  });
+
+  it("retries with exponential backoff, then writes the dead-letter log", async () => {
+    const delays: number[] = [];
+    const fetchStub = (async () => new Response("down", { status: 503 })) as unknown as typeof fetch;
+    const deadLetterPath = join(dir, "dead-letter.ndjson");
+    const config: SinkConfig = { name: "s", type: "webhook", url: "https://hooks.example/x", retries: 2, backoffMs: 100 };
+    const result = await deliverToSink(config, payload, {
+      fetch: fetchStub,
+      sleep: async (ms) => { delays.push(ms); },
+      deadLetterPath,
+      now: () => "2026-05-30T10:00:05.000Z",
+    });
+    expect(delays).toEqual([100, 200]);
+    expect(result).toMatchObject({ delivered: false, attempts: 3, error: "HTTP 503 from https://hooks.example/x" });
+    const [line] = readFileSync(deadLetterPath, "utf8").trim().split("\n");
+    expect(JSON.parse(line!)).toEqual({
+      sink: "s",
+      type: "webhook",
+      attempts: 3,
+      error: "HTTP 503 from https://hooks.example/x",
+      failedAt: "2026-05-30T10:00:05.000Z",
+      payload,
+    });
+  });
+
+  it("pipes the payload to a command's stdin and appends to a file", async () => {
+    const out = join(dir, "from-command.json");
+    const viaCommand = await deliverToSink(
+      { name: "c", type: "command", command: `cat > "${out}"` },
+      payload,
+      { deadLetterPath: join(dir, "dl") },
+    );
+    expect(viaCommand.delivered).toBe(true);
+    expect(JSON.parse(readFileSync(out, "utf8"))).toEqual(payload);
+
+    const failing = await deliverToSink(
+      { name: "c", type: "command", command: "echo nope >&2; exit 3", retries: 0 },
+      payload,
+      { deadLetterPath: join(dir, "dl") },
+    );
+    expect(failing).toMatchObject({ delivered: false, error: "Command exited 3: nope" });
+
+    const survivor = join(dir, "survivor");
+    const timedOut = await deliverToSink(
+      { name: "c", type: "command", command: `(sleep 0.5; touch "${survivor}") & wait`, retries: 0, timeoutMs: 200 },
+      payload,
+      { deadLetterPath: join(dir, "dl") },
+    );
+    expect(timedOut).toMatchObject({ delivered: false, error: "Command timed out after 200ms" });
+    // The whole process group is killed, not just the shell
+    await new Promise((resolve) => setTimeout(resolve, 800));
+    expect(existsSync(survivor)).toBe(false);
+
+    const log = join(dir, "logs", "changes.ndjson");
+    await deliverToSink({ name: "f", type: "file", path: log }, payload, { deadLetterPath: join(dir, "dl") });
+    await deliverToSink({ name: "f", type: "file", path: log }, payload, { deadLetterPath: join(dir, "dl") });
+    expect(readFileSync(log, "utf8").trim().split("\n")).toHaveLength(2);
+  });
+});
+
+describe("dispatchChanges", () => {
+  it("delivers only to sinks with matching changes", async () => {
+    const waiting = join(dir, "waiting.ndjson");
+    const onHold = join(dir, "on-hold.ndjson");
+    writeConfig([
+      { name: "waiting", type: "file", path: waiting, filter: "tag:waiting and changed:completed=true" },
+      { name: "on-hold", type: "file", path: onHold, filter: "changed:status=dropped" },
+    ]);
+    const sinks = loadSinks(dir);
+    if (!Array.isArray(sinks)) throw new Error(sinks.message);
+    const deliveries = await dispatchChanges(
+      { watch: "w", generation: 3, at: "2026-05-30T10:00:00.000Z", changes },
+      sinks,
+      { deadLetterPath: join(dir, "dl") },
+    );
+    expect(deliveries).toEqual([{ sink: "waiting", delivered: true, attempts: 1, matched: 1 }]);
+    expect(JSON.parse(readFileSync(waiting, "utf8"))).toMatchObject({ sink: "waiting", generation: 3, changes: [{ id: "w", change: "updated" }] });
+    expect(existsSync(onHold)).toBe(false);
+  });
+});
+
+describe("runSinks", () => {
+  it("lists sinks without secrets and sends a test payload", async () => {
+    const log = join(dir, "test.ndjson");
+    writeConfig([
+      { name: "chat", type: "webhook", url: "https://hooks.example/x", secret: "k", filter: "added" },
+      { name: "log", type: "file", path: log },
+    ]);
+    const out = await runSinks({ test: "log" }, { stateDir: dir });
+    expect(out.data!.sinks).toEqual([
+      { name: "chat", type: "webhook", target: "https://hooks.example/x", filter: "added", signed: true },
+      { name: "log", type: "file", target: log, filter: null, signed: false },
+    ]);
+    expect(JSON.stringify(out.data)).not.toContain('"k"');
+    expect(out.data!.test).toEqual({ sink: "log", delivered: true, attempts: 1, matched: 0 });
+    expect(JSON.parse(readFileSync(log, "utf8"))).toMatchObject({ sink: "log", watch: "test", changes: [] });
+
+    const unknown = await runSinks({ test: "nope" }, { stateDir: dir });
+    expect(unknown.error).toMatchObject({ code: "VALIDATION_ERROR", message: "Unknown sink: nope" });
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import type { Snapshot, WatchedObject } from "../../src/changes/types.js";
+import { bucketStart, runVelocity } from "../../src/commands/velocity.js";
+
+// Wednesday.
+const now = "2026-06-03T12:00:00.000Z";
+
+function task(id: string, fields: Record<string, unknown>, added?: string): WatchedObject {
+  return {
+    id,
+    modified: now,
+    ...(added !== undefined ? { added } : {}),
+    fields: { name: id, completed: false, completionDate: null, projectId: "p1", estimatedMinutes: null, ...fields },
+  };
+}
+
+const done = (id: string, completionDate: string, estimatedMinutes: number | null = null) =>
+  task(id, { completed: true, completionDate, estimatedMinutes }, "2026-05-01T00:00:00.000Z");
+
+const snapshot: Snapshot = {
+  projects: {
+    p1: { id: "p1", modified: now, fields: { name: "Launch", status: "active" } },
+    p2: { id: "p2", modified: now, fields: { name: "Dropped", status: "dropped" } },
+  },
+  tasks: {
+    a: done("a", "2026-05-19T10:00:00.000Z", 60),
+    b: done("b", "2026-05-27T10:00:00.000Z", 30),
+    c: done("c", "2026-05-28T10:00:00.000Z", 30),
+    d: done("d", "2026-06-02T10:00:00.000Z", 30),
+    e: task("e", { estimatedMinutes: 90 }, "2026-05-20T00:00:00.000Z"),
+    f: task("f", {}, "2026-05-26T00:00:00.000Z"),
+    g: task("g", { projectId: null }),
+    x: task("x", { projectId: "p2" }, "2026-05-01T00:00:00.000Z"),
+  },
+};
+
+const deps = { scanWatched: async () => snapshot, now };
+
+describe("bucketStart", () => {
+  it("starts days at midnight, weeks on Monday and months on the 1st (UTC)", () => {
+    const ms = Date.parse(now);
+    expect(new Date(bucketStart(ms, "day")).toISOString()).toBe("2026-06-03T00:00:00.000Z");
+    expect(new Date(bucketStart(ms, "week")).toISOString()).toBe("2026-06-01T00:00:00.000Z");
+    expect(new Date(bucketStart(Date.parse("2026-05-31T23:00:00.000Z"), "week")).toISOString()).toBe("2026-05-25T00:00:00.000Z");
+    expect(new Date(bucketStart(ms, "month")).toISOString()).toBe("2026-06-01T00:00:00.000Z");
+  });
+});
+
+describe("runVelocity", () => {
+  it("builds weekly completions and burndown, projecting from estimated minutes", async () => {
+    const out = await runVelocity({ periods: 3, trailing: 2 }, deps);
+    const launch = out.data!.projects.find((p) => p.name === "Launch")!;
+    expect(launch.series).toEqual([
+      { start: "2026-05-18", completed: 1, completedMinutes: 60, remaining: 4 },
+      { start: "2026-05-25", completed: 2, completedMinutes: 60, remaining: 3 },
+      { start: "2026-06-01", completed: 1, completedMinutes: 30, remaining: 2 },
+    ]);
+    expect(launch).toMatchObject({
+      remaining: 2,
+      remainingMinutes: 90,
+      unestimated: 1,
+      velocity: 1.5,
+      minutesVelocity: 60,
+      basis: "minutes",
+      // 90 + 90 imputed = 180 minutes at 60 per week = 3 weeks.
+      projectedCompletion: "2026-06-24",
+    });
+    expect(out.data!.projects.map((p) => p.name)).toEqual(["Launch", "(Inbox)"]);
+    expect(out.data!.totals).toMatchObject({ name: "All", id: null, remaining: 3 });
+  });
+
+  it("falls back to task counts without estimates and filters by project", async () => {
+    const out = await runVelocity({ bucket: "day", periods: 10, trailing: 7, project: "(inbox)" }, deps);
+    expect(out.data!.projects).toHaveLength(1);
+    expect(out.data!.totals).toMatchObject({ remaining: 1, velocity: 0, basis: null, projectedCompletion: null });
+    expect(out.data!.totals.series.map((p) => p.start)).toHaveLength(10);
+
+    const counts = await runVelocity(
+      { periods: 3, trailing: 2 },
+      { now, scanWatched: async () => ({ tasks: { a: done("a", "2026-05-27T10:00:00.000Z"), f: task("f", {}) } }) },
+    );
+    expect(counts.data!.totals).toMatchObject({ velocity: 0.5, basis: "tasks", projectedCompletion: "2026-06-17" });
+  });
+
+  it("skips dropped tasks and action groups", async () => {
+    const out = await runVelocity(
+      { periods: 3, trailing: 2 },
+      {
+        now,
+        scanWatched: async () => ({
+          tasks: {
+            a: done("a", "2026-05-27T10:00:00.000Z"),
+            f: task("f", {}, "2026-05-20T00:00:00.000Z"),
+            dropped: { ...task("dropped", {}, "2026-05-20T00:00:00.000Z"), dropped: true },
+            group: { ...task("group", {}, "2026-05-20T00:00:00.000Z"), hasChildren: true },
+          },
+        }),
+      },
+    );
+    expect(out.data!.totals.remaining).toBe(1);
+    expect(out.data!.totals.series.map((p) => p.remaining)).toEqual([2, 1, 1]);
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { connect } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runChanges } from "../../src/changes/command.js";
+import { computeFingerprint } from "../../src/changes/fingerprint.js";
+import { listenEventSocket } from "../../src/changes/socket.js";
+import type { Sink } from "../../src/sinks/config.js";
+import { parseChangeFilter } from "../../src/sinks/filter.js";
+import type { Snapshot } from "../../src/changes/types.js";
+import { runWatch, type WatchDeps, type WatchEvent } from "../../src/changes/watch.js";
+
+let dir: string;
+beforeEach(() => { dir = mkdtempSync(join(tmpdir(), "ofocus-watch-")); });
+afterEach(() => { rmSync(dir, { recursive: true, force: true }); });
+
+const snapV1: Snapshot = { tasks: { a: { id: "a", modified: "2026-05-30T01:00:00.000Z", fields: { name: "A", completed: false } } }, projects: {} };
+const snapV2: Snapshot = { tasks: { a: { id: "a", modified: "2026-05-30T09:00:00.000Z", fields: { name: "A", completed: true } } }, projects: {} };
+const snapV3: Snapshot = { tasks: { ...snapV2.tasks, b: { id: "b", modified: "2026-05-30T10:00:00.000Z", fields: { name: "B", completed: false } } }, projects: {} };
+
+/**
+ * Run a watch over a scripted sequence of database states: each poll sees the
+ * next snapshot, and the loop is aborted once the script runs out.
+ */
+async function watchScript(
+  states: Snapshot[],
+  extra: Partial<WatchDeps> = {},
+  sinks: Sink[] = [],
+): Promise<WatchEvent[]> {
+  const events: WatchEvent[] = [];
+  const controller = new AbortController();
+  let tick = 0;
+  let current = states[0]!;
+  const deps: WatchDeps = {
+    scanFingerprint: async () => {
+      if (tick >= states.length) controller.abort();
+      current = states[Math.min(tick, states.length - 1)]!;
+      tick += 1;
+      return computeFingerprint(current, null);
+    },
+    scanWatched: async () => current,
+    stateDir: dir,
+    now: () => "2026-05-30T10:00:00.000Z",
+    ...extra,
+  };
+  await runWatch({ watch: "w", intervalMs: 0, signal: controller.signal, sinks, emit: (e) => events.push(e) }, deps);
+  return events;
+}
+
+describe("runWatch", () => {
+  it("baselines on first run, then emits each change set as it is detected", async () => {
+    const events = await watchScript([snapV1, snapV1, snapV2, snapV3]);
+    expect(events.map((e) => e.type)).toEqual(["ready", "changes", "changes"]);
+    expect(events[0]).toMatchObject({ type: "ready", watch: "w", generation: 0, baselined: true });
+    expect(events[1]).toMatchObject({
+      generation: 1,
+      summary: { added: 0, updated: 1, removed: 0 },
+      changes: { updated: [{ id: "a", delta: { completed: { from: false, to: true } } }] },
+    });
+    expect(events[2]).toMatchObject({ generation: 2, summary: { added: 1, updated: 0, removed: 0 } });
+  });
+
+  it("reports changes made while nothing was watching on startup", async () => {
+    await runChanges({ watch: "w", reset: true }, {
+      scanWatched: async () => snapV1,
+      scanFingerprint: async () => computeFingerprint(snapV1, null),
+      stateDir: dir,
+    });
+    const events = await watchScript([snapV2]);
+    expect(events[0]).toMatchObject({ type: "ready", baselined: false });
+    expect(events[1]).toMatchObject({ type: "changes", summary: { updated: 1 } });
+  });
+
+  it("keeps the cache in sync so --pending still drains what the watcher saw", async () => {
+    await watchScript([snapV1, snapV2]);
+    const out = await runChanges({ watch: "w", pending: true }, {
+      scanWatched: async () => snapV2,
+      scanFingerprint: async () => computeFingerprint(snapV2, null),
+      stateDir: dir,
+    });
+    expect(out.data!.generation).toBe(1);
+    expect(out.data!.summary.updated).toBe(1);
+  });
+
+  it("fires matching sinks and reports each delivery", async () => {
+    const path = join(dir, "completed.ndjson");
+    const filter = parseChangeFilter("changed:completed=true");
+    if (typeof filter !== "function") throw new Error(filter.message);
+    const events = await watchScript([snapV1, snapV2, snapV3], {}, [
+      { config: { name: "done", type: "file", path }, filter },
+    ]);
+    expect(events.map((e) => e.type)).toEqual(["ready", "changes", "delivery", "changes"]);
+    expect(events[2]).toMatchObject({ type: "delivery", sink: "done", generation: 1, delivered: true, matched: 1 });
+    expect(JSON.parse(readFileSync(path, "utf8"))).toMatchObject({ sink: "done", changes: [{ id: "a" }] });
+  });
+
+  it("emits a failed poll as an error event and keeps polling", async () => {
+    let calls = 0;
+    const events = await watchScript([snapV1, snapV1, snapV2], {
+      scanWatched: async () => {
+        calls += 1;
+        if (calls === 2) throw new Error("OmniFocus is not running");
+        return calls === 1 ? snapV1 : snapV2;
+      },
+    });
+    expect(events.map((e) => e.type)).toEqual(["ready", "error", "changes"]);
+    expect(events[1]).toMatchObject({ message: "OmniFocus is not running" });
+  });
+});
+
+describe("listenEventSocket", () => {
+  it("broadcasts lines to every connected client", async () => {
+    const path = join(dir, "events.sock");
+    const socket = await listenEventSocket(path);
+    const received: string[] = [];
+    const client = connect(path);
+    client.setEncoding("utf8");
+    client.on("data", (chunk: string) => received.push(chunk));
+    await new Promise<void>((resolve) => client.once("connect", () => resolve()));
+    await new Promise((r) => setTimeout(r, 20));
+    expect(socket.clientCount()).toBe(1);
+
+    socket.broadcast(JSON.stringify({ type: "ready" }));
+    await new Promise((r) => setTimeout(r, 20));
+    expect(received.join("")).toBe('{"type":"ready"}\n');
+
+    await expect(listenEventSocket(path)).rejects.toThrow("Socket already in use");
+    await socket.close();
+    client.destroy();
+  });
+
+  it("can be reopened after close but refuses to clobber a regular file", async () => {
+    const path = join(dir, "events.sock");
+    const first = await listenEventSocket(path);
+    await first.close();
+    const second = await listenEventSocket(path);
+    await second.close();
+
+    const file = join(dir, "notes.txt");
+    writeFileSync(file, "keep me");
+    await expect(listenEventSocket(file)).rejects.toThrow("Not a socket");
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { type OFTask, ErrorCode, createError, failure, success } from "@ofocus/sdk";
+import { runWorkload, type WorkloadDeps } from "../../src/commands/workload.js";
+
+// A Friday.
+const now = "2026-06-05T10:00:00.000Z";
+
+function makeTask(overrides: Partial<OFTask>): OFTask {
+  return {
+    id: "t",
+    name: "Untitled",
+    note: null,
+    flagged: false,
+    completed: false,
+    dueDate: null,
+    deferDate: null,
+    completionDate: null,
+    projectId: null,
+    projectName: null,
+    tags: [],
+    estimatedMinutes: null,
+    ...overrides,
+  };
+}
+
+const tasks: OFTask[] = [
+  makeTask({ id: "a", name: "Report", flagged: true, dueDate: "2026-06-05T17:00:00.000Z", estimatedMinutes: 60 }),
+  makeTask({ id: "b", name: "Reply", dueDate: "2026-06-05T18:00:00.000Z", estimatedMinutes: 30 }),
+  makeTask({ id: "c", name: "Draft", deferDate: "2026-06-05T12:00:00.000Z", dueDate: "2026-06-20T12:00:00.000Z", estimatedMinutes: 45 }),
+  makeTask({ id: "d", name: "Tidy", deferDate: "2026-06-05T13:00:00.000Z", projectName: "Home" }),
+  makeTask({ id: "e", name: "Weekend", dueDate: "2026-06-06T10:00:00.000Z", estimatedMinutes: 20 }),
+  makeTask({ id: "f", name: "Review", deferDate: "2026-06-06T09:00:00.000Z", dueDate: "2026-06-08T09:00:00.000Z", estimatedMinutes: 90 }),
+  makeTask({ id: "g", name: "Later", dueDate: "2026-06-12T09:00:00.000Z", estimatedMinutes: 30 }),
+];
+
+const deps: WorkloadDeps = { fetchForecast: async () => success(tasks), now };
+
+describe("runWorkload", () => {
+  it("sums each day's load against its capacity", async () => {
+    const out = await runWorkload({ days: 4, capacity: "2h", weekendCapacity: "0" }, deps);
+    const report = out.data!;
+    expect(report.forecast.map((d) => [d.date, d.capacityMinutes, d.loadMinutes])).toEqual([
+      ["2026-06-05", 120, 165],
+      ["2026-06-06", 0, 20],
+      ["2026-06-07", 0, 0],
+      // Counted on its due day, not the day it becomes available.
+      ["2026-06-08", 120, 90],
+    ]);
+    expect(report.overloadedDays).toEqual(["2026-06-05", "2026-06-06"]);
+    expect(report.totalMinutes).toBe(275);
+    expect(report.forecast[0]!.tasks.map((t) => t.id)).toEqual(["b", "a", "c", "d"]);
+  });
+
+  it("suggests non-flagged tasks with the most slack to defer", async () => {
+    const out = await runWorkload({ days: 4, capacity: "2h", weekendCapacity: "0" }, deps);
+    const [friday, saturday] = out.data!.forecast;
+    expect(friday).toMatchObject({ excessMinutes: 45, uncoveredMinutes: 0 });
+    expect(friday!.deferCandidates.map((t) => [t.id, t.slackDays])).toEqual([
+      ["d", null],
+      ["c", 15],
+    ]);
+    // Due that day: nothing can move.
+    expect(saturday).toMatchObject({ excessMinutes: 20, uncoveredMinutes: 20, deferCandidates: [] });
+  });
+
+  it("counts unestimated tasks at the default and lists them", async () => {
+    const out = await runWorkload({ days: 4, capacity: "2h", defaultMinutes: 15 }, deps);
+    const friday = out.data!.forecast[0]!;
+    expect(friday).toMatchObject({ estimatedMinutes: 135, defaultedMinutes: 15, unestimatedCount: 1 });
+    expect(out.data!.unestimated).toEqual([{ id: "d", name: "Tidy", projectName: "Home", date: "2026-06-05" }]);
+  });
+
+  it("buckets tasks by calendar day in the time zone", async () => {
+    // 22:00 PDT on Friday is Saturday in UTC.
+    const evening = makeTask({ id: "h", name: "Evening", dueDate: "2026-06-06T05:00:00.000Z", estimatedMinutes: 10 });
+    const out = await runWorkload(
+      { days: 2 },
+      { ...deps, fetchForecast: async () => success([evening]), timeZone: "America/Los_Angeles" },
+    );
+    expect(out.data!.timeZone).toBe("America/Los_Angeles");
+    expect(out.data!.forecast.map((d) => [d.date, d.loadMinutes])).toEqual([
+      ["2026-06-05", 10],
+      ["2026-06-06", 0],
+    ]);
+  });
+
+  it("rejects an invalid capacity and propagates query failures", async () => {
+    const invalid = await runWorkload({ capacity: "plenty" }, deps);
+    expect(invalid.error?.code).toBe(ErrorCode.VALIDATION_ERROR);
+    const failed = await runWorkload(
+      {},
+      { ...deps, fetchForecast: async () => failure(createError(ErrorCode.OMNIFOCUS_NOT_RUNNING, "not running")) },
+    );
+    expect(failed.error?.code).toBe(ErrorCode.OMNIFOCUS_NOT_RUNNING);
+  });
+});
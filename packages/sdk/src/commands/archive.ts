@@ -1,10 +1,15 @@
 import { z } from "zod";
 import type { CliOutput } from "../types.js";
 import { success, failure } from "../result.js";
-import { ErrorCode, createError } from "../errors.js";
+import { ErrorCode, createError, type CliError } from "../errors.js";
 import { runOmniJSWrapped, escapeJSString, toOmniJSDate } from "../omnijs.js";
 import { validateDateString } from "../validation.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Options for archiving tasks.
@@ -16,7 +21,10 @@ export interface ArchiveOptions {
   droppedBefore?: string | undefined;
   /** Only archive tasks from this project */
   project?: string | undefined;
-  /** Preview what would be archived without actually archiving */
+  /**
+   * Count what would be archived without archiving. The `archive` command's
+   * `dryRun` returns a {@link DryRunPlan} listing each item instead.
+   */
   dryRun?: boolean | undefined;
 }
 
@@ -45,42 +53,31 @@ export interface CompactResult {
 }
 
 /**
- * Archive completed/dropped tasks and projects.
- *
- * In OmniJS, this scans `flattenedTasks` for completed/dropped tasks matching
- * the date filters and counts them. OmniFocus automatically archives old
- * completed tasks to ~/Library/Containers/.../OmniFocus/Archive/; this
- * command does not delete tasks because the AppleScript implementation also
- * did not delete them — it only called `compact` as a DB-optimization step.
- *
- * @param options - Archive options
+ * Validate archive options and build the OmniJS filter function selecting the
+ * tasks they match.
  */
-export async function archiveTasks(
-  options: ArchiveOptions = {}
-): Promise<CliOutput<ArchiveResult>> {
-  const { completedBefore, droppedBefore, project, dryRun = false } = options;
+function archiveTaskFilter(options: ArchiveOptions): string | CliError {
+  const { completedBefore, droppedBefore, project } = options;
 
   // Validate date inputs
   if (completedBefore) {
     const completedBeforeError = validateDateString(completedBefore);
     if (completedBeforeError) {
-      return failure(completedBeforeError);
+      return completedBeforeError;
     }
   }
   if (droppedBefore) {
     const droppedBeforeError = validateDateString(droppedBefore);
     if (droppedBeforeError) {
-      return failure(droppedBeforeError);
+      return droppedBeforeError;
     }
   }
 
   // If no date conditions, require at least one
   if (!completedBefore && !droppedBefore) {
-    return failure(
-      createError(
-        ErrorCode.VALIDATION_ERROR,
-        "At least one of --completed-before or --dropped-before is required"
-      )
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "At least one of --completed-before or --dropped-before is required"
     );
   }
 
@@ -105,17 +102,39 @@ export async function archiveTasks(
     ? `t.containingProject && t.containingProject.name === "${escapeJSString(project)}"`
     : "true";
 
+  return `function(t) {
+  var matchesDate = ${taskConditionExpr};
+  var matchesProject = ${projectFilterExpr};
+  return matchesDate && matchesProject;
+}`;
+}
+
+/**
+ * Archive completed/dropped tasks and projects.
+ *
+ * In OmniJS, this scans `flattenedTasks` for completed/dropped tasks matching
+ * the date filters and counts them. OmniFocus automatically archives old
+ * completed tasks to ~/Library/Containers/.../OmniFocus/Archive/; this
+ * command does not delete tasks because the AppleScript implementation also
+ * did not delete them — it only called `compact` as a DB-optimization step.
+ *
+ * @param options - Archive options
+ */
+export async function archiveTasks(
+  options: ArchiveOptions = {}
+): Promise<CliOutput<ArchiveResult>> {
+  const { completedBefore, droppedBefore, dryRun = false } = options;
+
+  const filter = archiveTaskFilter(options);
+  if (typeof filter !== "string") return failure(filter);
+
   const body = `
 var completedBeforeDate = ${completedBefore ? toOmniJSDate(completedBefore) : "null"};
 var droppedBeforeDate = ${droppedBefore ? toOmniJSDate(droppedBefore) : "null"};
 var dryRun = ${dryRun ? "true" : "false"};
 
 var taskCount = 0;
-var tasksToProcess = flattenedTasks.filter(function(t) {
-  var matchesDate = ${taskConditionExpr};
-  var matchesProject = ${projectFilterExpr};
-  return matchesDate && matchesProject;
-});
+var tasksToProcess = flattenedTasks.filter(${filter});
 
 taskCount = tasksToProcess.length;
 
@@ -160,6 +179,29 @@ return JSON.stringify({
   return success(result.data);
 }
 
+/**
+ * Preview {@link archiveTasks}. The command only counts what OmniFocus would
+ * archive and changes nothing, so the plan has no changes; a warning reports
+ * the counts the command would return.
+ */
+async function planArchiveTasks(
+  options: ArchiveOptions
+): Promise<CliOutput<DryRunPlan>> {
+  const filter = archiveTaskFilter(options);
+  if (typeof filter !== "string") return failure(filter);
+
+  const body = `
+var taskCount = flattenedTasks.filter(${filter}).length;
+var projectCount = flattenedProjects.filter(function(p) {
+  return p.status === Project.Status.Done || p.status === Project.Status.Dropped;
+}).length;
+__planWarn("Archiving makes no changes; OmniFocus archives on its own. Matching: " +
+  taskCount + (taskCount === 1 ? " task, " : " tasks, ") +
+  projectCount + (projectCount === 1 ? " completed or dropped project" : " completed or dropped projects"));`;
+
+  return runPlanScript("archiveTasks", body);
+}
+
 /**
  * Trigger database compaction in OmniFocus.
  *
@@ -209,18 +251,18 @@ export const archiveTasksDescriptor = defineCommand({
       .string()
       .optional()
       .describe("Archive only tasks from this project"),
-    dryRun: z
-      .boolean()
-      .optional()
-      .describe("Preview what would be archived without archiving"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    archiveTasks({
+  handler: async (input): Promise<CliOutput<ArchiveResult | DryRunPlan>> => {
+    const options: ArchiveOptions = {
       completedBefore: input.completedBefore,
       droppedBefore: input.droppedBefore,
       project: input.project,
-      dryRun: input.dryRun,
-    }),
+    };
+    return input.dryRun === true
+      ? planArchiveTasks(options)
+      : archiveTasks(options);
+  },
 });
 
 /**
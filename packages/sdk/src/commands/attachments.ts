@@ -7,6 +7,11 @@ import { ErrorCode, createError } from "../errors.js";
 import { validateId } from "../validation.js";
 import { escapeJSString, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Attachment information.
@@ -127,6 +132,39 @@ return JSON.stringify({
   return success(result.data);
 }
 
+/**
+ * Preview {@link addAttachment}: the attachment that would be added.
+ */
+async function planAddAttachment(
+  taskId: string,
+  filePath: string
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  const absolutePath = path.resolve(filePath);
+  if (!fs.existsSync(absolutePath)) {
+    return failureMessage(`File not found: ${filePath}`);
+  }
+
+  const stats = fs.statSync(absolutePath);
+  if (!stats.isFile()) {
+    return failureMessage(`Not a file: ${filePath}`);
+  }
+
+  const body = `
+var task = Task.byIdentifier("${escapeJSString(taskId)}");
+if (!task) {
+  throw new Error("Task not found: ${escapeJSString(taskId)}");
+}
+__planChange("create", "attachment", null, "${escapeJSString(path.basename(absolutePath))}", {}, {
+  task: task.name,
+  size: ${String(stats.size)}
+});`;
+
+  return runPlanScript("addAttachment", body);
+}
+
 /**
  * List attachments of a task.
  * @param taskId - Task ID to list attachments for
@@ -243,6 +281,37 @@ return JSON.stringify({
   return success(result.data);
 }
 
+/**
+ * Preview {@link removeAttachment}: the attachment that would be removed.
+ */
+async function planRemoveAttachment(
+  taskId: string,
+  attachmentIdOrName: string
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  if (!attachmentIdOrName || attachmentIdOrName.trim() === "") {
+    return failureMessage("Attachment ID or name is required");
+  }
+
+  const body = `
+var task = Task.byIdentifier("${escapeJSString(taskId)}");
+if (!task) {
+  throw new Error("Task not found: ${escapeJSString(taskId)}");
+}
+var identifier = "${escapeJSString(attachmentIdOrName)}";
+var found = task.attachments.filter(function(a) {
+  return (a.preferredFilename || a.filename || "") === identifier;
+})[0];
+if (!found) {
+  throw new Error("Attachment not found: " + identifier);
+}
+__planChange("delete", "attachment", identifier, identifier, { task: task.name }, {});`;
+
+  return runPlanScript("removeAttachment", body);
+}
+
 // ---------------------------------------------------------------------------
 // Centralized descriptors
 // ---------------------------------------------------------------------------
@@ -263,8 +332,14 @@ export const addAttachmentDescriptor = defineCommand({
   inputSchema: z.object({
     taskId: z.string().describe("ID of the task to attach the file to"),
     filePath: z.string().describe("Path to the file to attach"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => addAttachment(input.taskId, input.filePath),
+  handler: async (
+    input
+  ): Promise<CliOutput<AddAttachmentResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planAddAttachment(input.taskId, input.filePath)
+      : addAttachment(input.taskId, input.filePath),
 });
 
 /**
@@ -306,7 +381,12 @@ export const removeAttachmentDescriptor = defineCommand({
       .describe(
         "Name of the attachment to remove (as returned by attachments)"
       ),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    removeAttachment(input.taskId, input.attachmentName),
+  handler: async (
+    input
+  ): Promise<CliOutput<RemoveAttachmentResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planRemoveAttachment(input.taskId, input.attachmentName)
+      : removeAttachment(input.taskId, input.attachmentName),
 });
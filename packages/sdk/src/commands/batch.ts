@@ -1,19 +1,33 @@
 import { z } from "zod";
-import type { CliOutput, TaskUpdateOptions, BatchResult } from "../types.js";
+import type {
+  CliOutput,
+  CliError,
+  TaskUpdateOptions,
+  BatchResult,
+} from "../types.js";
 import { success, failure } from "../result.js";
 import { ErrorCode, createError } from "../errors.js";
-import {
-  validateId,
-  validateDateString,
-  validateTags,
-  validateProjectName,
-  validateEstimatedMinutes,
-  validateRepetitionRule,
-} from "../validation.js";
+import { validateId } from "../validation.js";
 import { escapeJSString, toOmniJSDate, runOmniJSWrapped } from "../omnijs.js";
 import { buildRRule, repeatMethodToOmniJS } from "./repetition.js";
 import { sanitizeVarName } from "../utils/sanitize.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  taskSnapshotExpr,
+  recordJournalEntry,
+  type JournalChange,
+  type JournalPayload,
+} from "../journal/index.js";
+import {
+  validateTaskUpdateOptions,
+  taskUpdatePlanStatements,
+} from "./update.js";
+import {
+  dryRunSchema,
+  localPlan,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /** Batch complete result item */
 export interface BatchCompleteItem {
@@ -30,23 +44,88 @@ export interface BatchDeleteItem {
 const MAX_BATCH_SIZE = 50;
 
 /**
- * Complete multiple tasks in a single operation.
+ * Check that a batch names at least one task and that every id is valid.
  */
-export async function completeTasks(
-  taskIds: string[]
-): Promise<CliOutput<BatchResult<BatchCompleteItem>>> {
-  // Validate inputs
+function validateTaskIds(taskIds: string[]): CliError | null {
   if (taskIds.length === 0) {
-    return failure(
-      createError(ErrorCode.VALIDATION_ERROR, "No task IDs provided")
-    );
+    return createError(ErrorCode.VALIDATION_ERROR, "No task IDs provided");
   }
 
   for (const id of taskIds) {
     const idError = validateId(id, "task");
-    if (idError) return failure(idError);
+    if (idError) return idError;
+  }
+
+  return null;
+}
+
+/**
+ * Preview a batch command: run the planning statements in `perTask` for
+ * each resolved `task`, in the same chunks as the real run. Missing tasks
+ * and statements that throw are reported in `failed`, as the real run
+ * reports them.
+ */
+export async function planBatch(
+  command: string,
+  taskIds: string[],
+  perTask: string
+): Promise<CliOutput<DryRunPlan>> {
+  const idsError = validateTaskIds(taskIds);
+  if (idsError) return failure(idsError);
+
+  const plan = localPlan(command, {});
+
+  for (let i = 0; i < taskIds.length; i += MAX_BATCH_SIZE) {
+    const chunk = taskIds.slice(i, i + MAX_BATCH_SIZE);
+
+    const body = `
+var taskIds = ${JSON.stringify(chunk)};
+for (var i = 0; i < taskIds.length; i++) {
+  var id = taskIds[i];
+  try {
+    var task = Task.byIdentifier(id);
+    if (!task) {
+      __plan.failed.push({ id: id, error: "Task not found: " + id });
+      continue;
+    }
+    ${perTask}
+  } catch (err) {
+    __plan.failed.push({ id: id, error: String(err) });
+  }
+}`;
+
+    const result = await runPlanScript(command, body);
+
+    if (result.success && result.data) {
+      plan.changes.push(...result.data.changes);
+      plan.failed.push(...result.data.failed);
+      for (const warning of result.data.warnings) {
+        if (!plan.warnings.includes(warning)) plan.warnings.push(warning);
+      }
+    } else {
+      // If the entire chunk failed, mark all as failed
+      for (const id of chunk) {
+        plan.failed.push({
+          id,
+          error: result.error?.message ?? "Unknown error",
+        });
+      }
+    }
   }
 
+  return success(plan);
+}
+
+/**
+ * Complete multiple tasks in a single operation.
+ */
+export async function completeTasks(
+  taskIds: string[]
+): Promise<CliOutput<BatchResult<BatchCompleteItem>>> {
+  // Validate inputs
+  const idsError = validateTaskIds(taskIds);
+  if (idsError) return failure(idsError);
+
   // Process in chunks if needed
   const chunks: string[][] = [];
   for (let i = 0; i < taskIds.length; i += MAX_BATCH_SIZE) {
@@ -55,14 +134,18 @@ export async function completeTasks(
 
   const allSucceeded: BatchCompleteItem[] = [];
   const allFailed: { id: string; error: string }[] = [];
+  const allChanges: JournalChange[] = [];
 
   for (const chunk of chunks) {
     const idsJson = JSON.stringify(chunk);
 
     const body = `
+${taskSnapshotExpr}
+
 var taskIds = ${idsJson};
 var succeeded = [];
 var failed = [];
+var journal = [];
 for (var i = 0; i < taskIds.length; i++) {
   var id = taskIds[i];
   try {
@@ -71,22 +154,27 @@ for (var i = 0; i < taskIds.length; i++) {
       failed.push({ id: id, error: "Task not found: " + id });
       continue;
     }
+    var before = __snapshotTask(task, true);
     task.markComplete();
     succeeded.push({ taskId: id, taskName: task.name });
+    journal.push({ taskId: id, before: before, after: __snapshotTask(task, true) });
   } catch (err) {
     failed.push({ id: id, error: String(err) });
   }
 }
-return JSON.stringify({ succeeded: succeeded, failed: failed });`;
+return JSON.stringify({ succeeded: succeeded, failed: failed, __journal: journal });`;
 
-    const result = await runOmniJSWrapped<{
-      succeeded: BatchCompleteItem[];
-      failed: { id: string; error: string }[];
-    }>(body);
+    const result = await runOmniJSWrapped<
+      {
+        succeeded: BatchCompleteItem[];
+        failed: { id: string; error: string }[];
+      } & JournalPayload
+    >(body);
 
     if (result.success && result.data) {
       allSucceeded.push(...result.data.succeeded);
       allFailed.push(...result.data.failed);
+      allChanges.push(...(result.data.__journal ?? []));
     } else {
       // If the entire chunk failed, mark all as failed
       for (const id of chunk) {
@@ -98,6 +186,7 @@ return JSON.stringify({ succeeded: succeeded, failed: failed });`;
     }
   }
 
+  recordJournalEntry("completeTasks", allChanges);
   return success({
     succeeded: allSucceeded,
     failed: allFailed,
@@ -114,38 +203,11 @@ export async function updateTasks(
   options: TaskUpdateOptions
 ): Promise<CliOutput<BatchResult<BatchCompleteItem>>> {
   // Validate inputs
-  if (taskIds.length === 0) {
-    return failure(
-      createError(ErrorCode.VALIDATION_ERROR, "No task IDs provided")
-    );
-  }
-
-  for (const id of taskIds) {
-    const idError = validateId(id, "task");
-    if (idError) return failure(idError);
-  }
-
-  if (options.due !== undefined && options.due !== "") {
-    const dueError = validateDateString(options.due);
-    if (dueError) return failure(dueError);
-  }
-
-  if (options.defer !== undefined && options.defer !== "") {
-    const deferError = validateDateString(options.defer);
-    if (deferError) return failure(deferError);
-  }
+  const idsError = validateTaskIds(taskIds);
+  if (idsError) return failure(idsError);
 
-  const tagsError = validateTags(options.tags);
-  if (tagsError) return failure(tagsError);
-
-  const projectError = validateProjectName(options.project);
-  if (projectError) return failure(projectError);
-
-  const estimateError = validateEstimatedMinutes(options.estimatedMinutes);
-  if (estimateError) return failure(estimateError);
-
-  const repeatError = validateRepetitionRule(options.repeat);
-  if (repeatError) return failure(repeatError);
+  const optionsError = validateTaskUpdateOptions(options);
+  if (optionsError) return failure(optionsError);
 
   // Build per-task update statements (applied inside the loop body)
   const updateParts: string[] = [];
@@ -234,14 +296,18 @@ if (${varName}) { task.addTag(${varName}); }`);
 
   const allSucceeded: BatchCompleteItem[] = [];
   const allFailed: { id: string; error: string }[] = [];
+  const allChanges: JournalChange[] = [];
 
   for (const chunk of chunks) {
     const idsJson = JSON.stringify(chunk);
 
     const body = `
+${taskSnapshotExpr}
+
 var taskIds = ${idsJson};
 var succeeded = [];
 var failed = [];
+var journal = [];
 for (var i = 0; i < taskIds.length; i++) {
   var id = taskIds[i];
   try {
@@ -250,22 +316,27 @@ for (var i = 0; i < taskIds.length; i++) {
       failed.push({ id: id, error: "Task not found: " + id });
       continue;
     }
+    var before = __snapshotTask(task, false);
     ${perTaskScript}
     succeeded.push({ taskId: id, taskName: task.name });
+    journal.push({ taskId: id, before: before, after: __snapshotTask(task, false) });
   } catch (err) {
     failed.push({ id: id, error: String(err) });
   }
 }
-return JSON.stringify({ succeeded: succeeded, failed: failed });`;
+return JSON.stringify({ succeeded: succeeded, failed: failed, __journal: journal });`;
 
-    const result = await runOmniJSWrapped<{
-      succeeded: BatchCompleteItem[];
-      failed: { id: string; error: string }[];
-    }>(body);
+    const result = await runOmniJSWrapped<
+      {
+        succeeded: BatchCompleteItem[];
+        failed: { id: string; error: string }[];
+      } & JournalPayload
+    >(body);
 
     if (result.success && result.data) {
       allSucceeded.push(...result.data.succeeded);
       allFailed.push(...result.data.failed);
+      allChanges.push(...(result.data.__journal ?? []));
     } else {
       // If the entire chunk failed, mark all as failed
       for (const id of chunk) {
@@ -277,6 +348,7 @@ return JSON.stringify({ succeeded: succeeded, failed: failed });`;
     }
   }
 
+  recordJournalEntry("updateTasks", allChanges);
   return success({
     succeeded: allSucceeded,
     failed: allFailed,
@@ -285,6 +357,29 @@ return JSON.stringify({ succeeded: succeeded, failed: failed });`;
   });
 }
 
+/**
+ * Preview {@link updateTasks}: each task's changed fields.
+ */
+async function planUpdateTasks(
+  taskIds: string[],
+  options: TaskUpdateOptions
+): Promise<CliOutput<DryRunPlan>> {
+  const idsError = validateTaskIds(taskIds);
+  if (idsError) return failure(idsError);
+
+  const optionsError = validateTaskUpdateOptions(options);
+  if (optionsError) return failure(optionsError);
+
+  const perTask = [
+    `var before = __taskState(task);`,
+    `var after = __planCopy(before);`,
+    ...taskUpdatePlanStatements(options),
+    `__planChange("update", "task", task.id.primaryKey, task.name, before, after);`,
+  ].join("\n    ");
+
+  return planBatch("updateTasks", taskIds, perTask);
+}
+
 /**
  * Delete multiple tasks permanently in a single operation.
  */
@@ -292,16 +387,8 @@ export async function deleteTasks(
   taskIds: string[]
 ): Promise<CliOutput<BatchResult<BatchDeleteItem>>> {
   // Validate inputs
-  if (taskIds.length === 0) {
-    return failure(
-      createError(ErrorCode.VALIDATION_ERROR, "No task IDs provided")
-    );
-  }
-
-  for (const id of taskIds) {
-    const idError = validateId(id, "task");
-    if (idError) return failure(idError);
-  }
+  const idsError = validateTaskIds(taskIds);
+  if (idsError) return failure(idsError);
 
   // Process in chunks if needed
   const chunks: string[][] = [];
@@ -311,14 +398,18 @@ export async function deleteTasks(
 
   const allSucceeded: BatchDeleteItem[] = [];
   const allFailed: { id: string; error: string }[] = [];
+  const allChanges: JournalChange[] = [];
 
   for (const chunk of chunks) {
     const idsJson = JSON.stringify(chunk);
 
     const body = `
+${taskSnapshotExpr}
+
 var taskIds = ${idsJson};
 var succeeded = [];
 var failed = [];
+var journal = [];
 for (var i = 0; i < taskIds.length; i++) {
   var id = taskIds[i];
   try {
@@ -327,22 +418,27 @@ for (var i = 0; i < taskIds.length; i++) {
       failed.push({ id: id, error: "Task not found: " + id });
       continue;
     }
+    var before = __snapshotTask(task, true);
     deleteObject(task);
     succeeded.push({ taskId: id });
+    journal.push({ taskId: id, before: before, after: null });
   } catch (err) {
     failed.push({ id: id, error: String(err) });
   }
 }
-return JSON.stringify({ succeeded: succeeded, failed: failed });`;
+return JSON.stringify({ succeeded: succeeded, failed: failed, __journal: journal });`;
 
-    const result = await runOmniJSWrapped<{
-      succeeded: BatchDeleteItem[];
-      failed: { id: string; error: string }[];
-    }>(body);
+    const result = await runOmniJSWrapped<
+      {
+        succeeded: BatchDeleteItem[];
+        failed: { id: string; error: string }[];
+      } & JournalPayload
+    >(body);
 
     if (result.success && result.data) {
       allSucceeded.push(...result.data.succeeded);
       allFailed.push(...result.data.failed);
+      allChanges.push(...(result.data.__journal ?? []));
     } else {
       // If the entire chunk failed, mark all as failed
       for (const id of chunk) {
@@ -354,6 +450,7 @@ return JSON.stringify({ succeeded: succeeded, failed: failed });`;
     }
   }
 
+  recordJournalEntry("deleteTasks", allChanges);
   return success({
     succeeded: allSucceeded,
     failed: allFailed,
@@ -384,8 +481,18 @@ export const completeTasksDescriptor = defineCommand({
   cliPositional: ["taskIds"],
   inputSchema: z.object({
     taskIds: taskIdsSchema,
+    ...dryRunSchema,
   }),
-  handler: async (input) => completeTasks(input.taskIds),
+  handler: async (
+    input
+  ): Promise<CliOutput<BatchResult<BatchCompleteItem> | DryRunPlan>> =>
+    input.dryRun === true
+      ? planBatch(
+          "completeTasks",
+          input.taskIds,
+          `__planStatus(task, "completed");`
+        )
+      : completeTasks(input.taskIds),
 });
 
 /**
@@ -415,9 +522,12 @@ export const updateTasksDescriptor = defineCommand({
       .number()
       .optional()
       .describe("Estimated duration in minutes for all tasks"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    updateTasks(input.taskIds, {
+  handler: async (
+    input
+  ): Promise<CliOutput<BatchResult<BatchCompleteItem> | DryRunPlan>> => {
+    const options: TaskUpdateOptions = {
       title: input.title,
       note: input.note,
       due: input.due,
@@ -426,7 +536,11 @@ export const updateTasksDescriptor = defineCommand({
       project: input.project,
       tags: input.tags,
       estimatedMinutes: input.estimatedMinutes,
-    }),
+    };
+    return input.dryRun === true
+      ? planUpdateTasks(input.taskIds, options)
+      : updateTasks(input.taskIds, options);
+  },
 });
 
 /**
@@ -445,6 +559,12 @@ export const deleteTasksDescriptor = defineCommand({
   cliPositional: ["taskIds"],
   inputSchema: z.object({
     taskIds: taskIdsSchema,
+    ...dryRunSchema,
   }),
-  handler: async (input) => deleteTasks(input.taskIds),
+  handler: async (
+    input
+  ): Promise<CliOutput<BatchResult<BatchDeleteItem> | DryRunPlan>> =>
+    input.dryRun === true
+      ? planBatch("deleteTasks", input.taskIds, `__planDeleteTask(task);`)
+      : deleteTasks(input.taskIds),
 });
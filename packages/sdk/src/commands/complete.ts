@@ -5,6 +5,16 @@ import { ErrorCode, createError } from "../errors.js";
 import { validateId } from "../validation.js";
 import { escapeJSString, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  taskSnapshotExpr,
+  recordJournalEntry,
+  type JournalPayload,
+} from "../journal/index.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Result from completing a task.
@@ -26,19 +36,23 @@ export async function completeTask(
   if (idError) return failure(idError);
 
   const body = `
+${taskSnapshotExpr}
+
 var task = Task.byIdentifier("${escapeJSString(taskId)}");
 if (!task) {
   throw new Error("Task not found: ${escapeJSString(taskId)}");
 }
+var before = __snapshotTask(task, true);
 task.markComplete();
 
 return JSON.stringify({
   taskId: task.id.primaryKey,
   taskName: task.name,
-  completed: task.completed
+  completed: task.completed,
+  __journal: [{ taskId: task.id.primaryKey, before: before, after: __snapshotTask(task, true) }]
 });`;
 
-  const result = await runOmniJSWrapped<CompleteResult>(body);
+  const result = await runOmniJSWrapped<CompleteResult & JournalPayload>(body);
 
   if (!result.success) {
     return failure(
@@ -51,7 +65,29 @@ return JSON.stringify({
     return failure(createError(ErrorCode.UNKNOWN_ERROR, "No result returned"));
   }
 
-  return success(result.data);
+  const { __journal, ...data } = result.data;
+  recordJournalEntry("completeTask", __journal);
+  return success(data);
+}
+
+/**
+ * Preview {@link completeTask}: the task and any open subtasks it would
+ * complete.
+ */
+async function planCompleteTask(
+  taskId: string
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  const body = `
+var task = Task.byIdentifier("${escapeJSString(taskId)}");
+if (!task) {
+  throw new Error("Task not found: ${escapeJSString(taskId)}");
+}
+__planStatus(task, "completed");`;
+
+  return runPlanScript("completeTask", body);
 }
 
 /**
@@ -69,6 +105,10 @@ export const completeTaskDescriptor = defineCommand({
   cliPositional: ["taskId"],
   inputSchema: z.object({
     taskId: z.string().describe("The ID of the task to complete"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => completeTask(input.taskId),
+  handler: async (input): Promise<CliOutput<CompleteResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planCompleteTask(input.taskId)
+      : completeTask(input.taskId),
 });
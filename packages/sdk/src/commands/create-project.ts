@@ -1,5 +1,10 @@
 import { z } from "zod";
-import type { CliOutput, CreateProjectOptions, OFProject } from "../types.js";
+import type {
+  CliOutput,
+  CliError,
+  CreateProjectOptions,
+  OFProject,
+} from "../types.js";
 import { success, failure } from "../result.js";
 import { ErrorCode, createError } from "../errors.js";
 import {
@@ -10,43 +15,62 @@ import {
 } from "../validation.js";
 import { escapeJSString, toOmniJSDate, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
- * Create a new project in OmniFocus.
+ * Validate the inputs of {@link createProject}.
  */
-export async function createProject(
+export function validateCreateProjectInput(
   name: string,
-  options: CreateProjectOptions = {}
-): Promise<CliOutput<OFProject>> {
+  options: CreateProjectOptions
+): CliError | null {
   // Validate project name (required for create)
   if (!name || name.trim() === "") {
-    return failure(
-      createError(ErrorCode.VALIDATION_ERROR, "Project name cannot be empty")
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "Project name cannot be empty"
     );
   }
 
   const nameError = validateProjectName(name);
-  if (nameError) return failure(nameError);
+  if (nameError) return nameError;
 
   // Validate optional inputs
   if (options.folderId !== undefined) {
     const folderIdError = validateId(options.folderId, "project");
-    if (folderIdError) return failure(folderIdError);
+    if (folderIdError) return folderIdError;
   }
 
   const folderNameError = validateFolderName(options.folderName);
-  if (folderNameError) return failure(folderNameError);
+  if (folderNameError) return folderNameError;
 
   if (options.dueDate !== undefined) {
     const dueError = validateDateString(options.dueDate);
-    if (dueError) return failure(dueError);
+    if (dueError) return dueError;
   }
 
   if (options.deferDate !== undefined) {
     const deferError = validateDateString(options.deferDate);
-    if (deferError) return failure(deferError);
+    if (deferError) return deferError;
   }
 
+  return null;
+}
+
+/**
+ * Create a new project in OmniFocus.
+ */
+export async function createProject(
+  name: string,
+  options: CreateProjectOptions = {}
+): Promise<CliOutput<OFProject>> {
+  const inputError = validateCreateProjectInput(name, options);
+  if (inputError) return failure(inputError);
+
   // Build the OmniJS script
   const scriptParts: string[] = [];
 
@@ -139,6 +163,75 @@ return JSON.stringify({
   return success(result.data);
 }
 
+/**
+ * Planning-script statements recording the creation of a project. The target
+ * folder is left in `targetFolder`; a missing folder throws.
+ */
+export function createProjectPlanStatements(
+  name: string,
+  options: CreateProjectOptions
+): string {
+  const parts: string[] = [];
+
+  if (options.folderId) {
+    parts.push(`
+var targetFolder = Folder.byIdentifier("${escapeJSString(options.folderId)}");
+if (!targetFolder) {
+  throw new Error("Folder not found: ${escapeJSString(options.folderId)}");
+}`);
+  } else if (options.folderName) {
+    parts.push(`
+var targetFolder = flattenedFolders.byName("${escapeJSString(options.folderName)}");
+if (!targetFolder) {
+  throw new Error("Folder not found: ${escapeJSString(options.folderName)}");
+}`);
+  } else {
+    parts.push(`var targetFolder = null;`);
+  }
+
+  parts.push(`var after = {
+  name: "${escapeJSString(name)}",
+  status: "${options.status === "on-hold" ? "on-hold" : "active"}",
+  folder: targetFolder ? targetFolder.name : null
+};`);
+
+  if (options.note !== undefined) {
+    parts.push(`after.note = "${escapeJSString(options.note)}";`);
+  }
+
+  if (options.sequential !== undefined) {
+    parts.push(`after.sequential = ${String(options.sequential)};`);
+  }
+
+  if (options.dueDate !== undefined) {
+    parts.push(`after.dueDate = ${toOmniJSDate(options.dueDate)};`);
+  }
+
+  if (options.deferDate !== undefined) {
+    parts.push(`after.deferDate = ${toOmniJSDate(options.deferDate)};`);
+  }
+
+  parts.push(`__planChange("create", "project", null, after.name, {}, after);`);
+
+  return parts.join("\n");
+}
+
+/**
+ * Preview {@link createProject}: the project that would be created.
+ */
+async function planCreateProject(
+  name: string,
+  options: CreateProjectOptions = {}
+): Promise<CliOutput<DryRunPlan>> {
+  const inputError = validateCreateProjectInput(name, options);
+  if (inputError) return failure(inputError);
+
+  return runPlanScript(
+    "createProject",
+    createProjectPlanStatements(name, options)
+  );
+}
+
 /**
  * Centralized descriptor for the `create-project` command.
  *
@@ -167,9 +260,10 @@ export const createProjectDescriptor = defineCommand({
       .describe("Initial project status (active, on-hold)"),
     dueDate: z.string().optional().describe("Project due date"),
     deferDate: z.string().optional().describe("Project defer date"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    createProject(input.name, {
+  handler: async (input): Promise<CliOutput<OFProject | DryRunPlan>> => {
+    const options: CreateProjectOptions = {
       note: input.note,
       folderId: input.folderId,
       folderName: input.folderName,
@@ -177,5 +271,9 @@ export const createProjectDescriptor = defineCommand({
       status: input.status,
       dueDate: input.dueDate,
       deferDate: input.deferDate,
-    }),
+    };
+    return input.dryRun === true
+      ? planCreateProject(input.name, options)
+      : createProject(input.name, options);
+  },
 });
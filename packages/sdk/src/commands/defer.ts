@@ -1,10 +1,16 @@
 import { z } from "zod";
-import type { CliOutput, BatchResult } from "../types.js";
+import type { CliOutput, CliError, BatchResult } from "../types.js";
 import { success, failure } from "../result.js";
 import { ErrorCode, createError } from "../errors.js";
 import { validateId, validateDateString } from "../validation.js";
 import { escapeJSString, toOmniJSDate, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import { planBatch } from "./batch.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Options for deferring a task.
@@ -39,23 +45,15 @@ export interface BatchDeferItem {
 const MAX_BATCH_SIZE = 50;
 
 /**
- * Defer a task by a number of days or to a specific date.
+ * Validate defer options and build the OmniJS expression for the new defer
+ * date.
  */
-export async function deferTask(
-  taskId: string,
-  options: DeferOptions = {}
-): Promise<CliOutput<DeferResult>> {
-  // Validate task ID
-  const idError = validateId(taskId, "task");
-  if (idError) return failure(idError);
-
+function deferDateExpression(options: DeferOptions): string | CliError {
   // Validate that at least one option is provided
   if (options.days === undefined && options.to === undefined) {
-    return failure(
-      createError(
-        ErrorCode.VALIDATION_ERROR,
-        "Must specify either --days or --to"
-      )
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "Must specify either --days or --to"
     );
   }
 
@@ -64,25 +62,46 @@ export async function deferTask(
     options.days !== undefined &&
     (options.days < 1 || !Number.isInteger(options.days))
   ) {
-    return failure(
-      createError(ErrorCode.VALIDATION_ERROR, "Days must be a positive integer")
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "Days must be a positive integer"
     );
   }
 
   // Validate date string if provided
   if (options.to !== undefined) {
     const dateError = validateDateString(options.to);
-    if (dateError) return failure(dateError);
+    if (dateError) return dateError;
   }
 
-  // Build the defer date expression for OmniJS
-  let deferDateExpr: string;
   if (options.days !== undefined) {
     const msPerDay = 86400000;
-    deferDateExpr = `new Date(Date.now() + ${String(options.days)} * ${String(msPerDay)})`;
-  } else {
-    deferDateExpr = toOmniJSDate(options.to ?? "");
+    return `new Date(Date.now() + ${String(options.days)} * ${String(msPerDay)})`;
   }
+  return toOmniJSDate(options.to ?? "");
+}
+
+/** Planning statements that set `task`'s defer date to `deferDateExpr`. */
+function deferPlanStatements(deferDateExpr: string): string {
+  return `var before = __taskState(task);
+var after = __planCopy(before);
+after.deferDate = ${deferDateExpr};
+__planChange("update", "task", task.id.primaryKey, task.name, before, after);`;
+}
+
+/**
+ * Defer a task by a number of days or to a specific date.
+ */
+export async function deferTask(
+  taskId: string,
+  options: DeferOptions = {}
+): Promise<CliOutput<DeferResult>> {
+  // Validate task ID
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  const deferDateExpr = deferDateExpression(options);
+  if (typeof deferDateExpr !== "string") return failure(deferDateExpr);
 
   const body = `
 var task = Task.byIdentifier("${escapeJSString(taskId)}");
@@ -115,6 +134,29 @@ return JSON.stringify({
   return success(result.data);
 }
 
+/**
+ * Preview {@link deferTask}: the task's new defer date.
+ */
+async function planDeferTask(
+  taskId: string,
+  options: DeferOptions = {}
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  const deferDateExpr = deferDateExpression(options);
+  if (typeof deferDateExpr !== "string") return failure(deferDateExpr);
+
+  const body = `
+var task = Task.byIdentifier("${escapeJSString(taskId)}");
+if (!task) {
+  throw new Error("Task not found: ${escapeJSString(taskId)}");
+}
+${deferPlanStatements(deferDateExpr)}`;
+
+  return runPlanScript("deferTask", body);
+}
+
 /**
  * Defer multiple tasks by a number of days or to a specific date.
  */
@@ -128,40 +170,8 @@ export async function deferTasks(
     if (idError) return failure(idError);
   }
 
-  // Validate that at least one option is provided
-  if (options.days === undefined && options.to === undefined) {
-    return failure(
-      createError(
-        ErrorCode.VALIDATION_ERROR,
-        "Must specify either --days or --to"
-      )
-    );
-  }
-
-  // Validate days
-  if (
-    options.days !== undefined &&
-    (options.days < 1 || !Number.isInteger(options.days))
-  ) {
-    return failure(
-      createError(ErrorCode.VALIDATION_ERROR, "Days must be a positive integer")
-    );
-  }
-
-  // Validate date string if provided
-  if (options.to !== undefined) {
-    const dateError = validateDateString(options.to);
-    if (dateError) return failure(dateError);
-  }
-
-  // Build the defer date expression for OmniJS
-  let deferDateExpr: string;
-  if (options.days !== undefined) {
-    const msPerDay = 86400000;
-    deferDateExpr = `new Date(Date.now() + ${String(options.days)} * ${String(msPerDay)})`;
-  } else {
-    deferDateExpr = toOmniJSDate(options.to ?? "");
-  }
+  const deferDateExpr = deferDateExpression(options);
+  if (typeof deferDateExpr !== "string") return failure(deferDateExpr);
 
   // Process in chunks
   const chunks: string[][] = [];
@@ -230,6 +240,19 @@ return JSON.stringify({ succeeded: succeeded, failed: failed });`;
   });
 }
 
+/**
+ * Preview {@link deferTasks}: each task's new defer date.
+ */
+async function planDeferTasks(
+  taskIds: string[],
+  options: DeferOptions = {}
+): Promise<CliOutput<DryRunPlan>> {
+  const deferDateExpr = deferDateExpression(options);
+  if (typeof deferDateExpr !== "string") return failure(deferDateExpr);
+
+  return planBatch("deferTasks", taskIds, deferPlanStatements(deferDateExpr));
+}
+
 const deferDaysSchema = z
   .number()
   .int()
@@ -258,9 +281,12 @@ export const deferTaskDescriptor = defineCommand({
     taskId: z.string().describe("ID of the task to defer"),
     days: deferDaysSchema,
     to: deferToSchema,
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    deferTask(input.taskId, { days: input.days, to: input.to }),
+  handler: async (input): Promise<CliOutput<DeferResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planDeferTask(input.taskId, { days: input.days, to: input.to })
+      : deferTask(input.taskId, { days: input.days, to: input.to }),
 });
 
 /**
@@ -282,7 +308,12 @@ export const deferTasksDescriptor = defineCommand({
     taskIds: z.array(z.string()).min(1).describe("Task IDs to defer"),
     days: deferDaysSchema,
     to: deferToSchema,
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    deferTasks(input.taskIds, { days: input.days, to: input.to }),
+  handler: async (
+    input
+  ): Promise<CliOutput<BatchResult<BatchDeferItem> | DryRunPlan>> =>
+    input.dryRun === true
+      ? planDeferTasks(input.taskIds, { days: input.days, to: input.to })
+      : deferTasks(input.taskIds, { days: input.days, to: input.to }),
 });
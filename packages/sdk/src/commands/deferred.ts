@@ -11,6 +11,7 @@ import {
   compileProjection,
   compileSort,
   compileTaskPredicates,
+  resolveTimeZone,
   taskFieldSpec,
   taskGroupKeys,
   listProjectionSchema,
@@ -20,6 +21,15 @@ import {
   type TaskQueryOptions,
 } from "../query/index.js";
 
+/**
+ * Task fields with the compact default projection for deferred results, used
+ * when the caller doesn't pass `fields`.
+ */
+const deferredFieldSpec = {
+  ...taskFieldSpec,
+  defaultFields: ["id", "name", "deferDate", "projectName"],
+};
+
 /**
  * Options for querying deferred tasks.
  *
@@ -80,6 +90,10 @@ export async function queryDeferred(
   );
   if (paginationError) return failure(paginationError);
 
+  // Calendar-day group keys such as dueBucket count days in this zone.
+  const timeZone = resolveTimeZone();
+  if (typeof timeZone !== "string") return failure(timeZone);
+
   // Build the task query options from deferred-specific fields
   const taskOptions: TaskQueryOptions = {
     ...options,
@@ -98,20 +112,11 @@ export async function queryDeferred(
     ...(options.blockedOnly === true ? { deferredToFuture: true } : {}),
   };
 
-  // Apply default fields for deferred results if the caller didn't specify
-  const fieldSpec =
-    options.fields !== undefined
-      ? taskFieldSpec
-      : {
-          ...taskFieldSpec,
-          defaultFields: ["id", "name", "deferDate", "projectName"],
-        };
-
   // Compile each phase
   const pred = compileTaskPredicates(taskOptions);
-  const proj = compileProjection(fieldSpec, taskOptions);
-  const sort = compileSort(fieldSpec, taskOptions);
-  const agg = compileAggregate(taskOptions, taskGroupKeys);
+  const proj = compileProjection(deferredFieldSpec, taskOptions);
+  const sort = compileSort(deferredFieldSpec, taskOptions);
+  const agg = compileAggregate(taskOptions, taskGroupKeys, timeZone);
 
   const errors = [
     ...pred.validationErrors,
@@ -208,6 +213,7 @@ export const queryDeferredDescriptor = defineCommand({
         "When true, return every matching item ignoring --limit/--offset. Mutually exclusive with --limit and --offset."
       ),
   }),
+  fieldSpec: deferredFieldSpec,
   handler: async (input) =>
     queryDeferred({
       deferAfter: input.deferredAfter,
@@ -0,0 +1,662 @@
+import { z } from "zod";
+import type { CliOutput } from "../types.js";
+import { success, failure } from "../result.js";
+import { ErrorCode, createError, type CliError } from "../errors.js";
+import { validateId } from "../validation.js";
+import { escapeJSString, runOmniJSWrapped } from "../omnijs.js";
+import { defineCommand } from "../registry/define.js";
+import {
+  diffFields,
+  dryRunSchema,
+  localPlan,
+  type DryRunPlan,
+} from "../dry-run/index.js";
+import {
+  computeCriticalPath,
+  findCycles,
+  findBlockingChain,
+  getDependenciesPath,
+  readDependencies,
+  writeDependencies,
+  type DependencyLinks,
+} from "../dependencies/index.js";
+
+/**
+ * Whether a linked task still has to be done.
+ *
+ * `missing` means the task no longer exists in OmniFocus.
+ *
+ * @public
+ */
+export type DependencyTaskStatus = "open" | "completed" | "dropped" | "missing";
+
+/**
+ * A task on one end of a dependency link.
+ *
+ * @public
+ */
+export interface DependencyTask {
+  id: string;
+  /** Null when the task no longer exists. */
+  name: string | null;
+  status: DependencyTaskStatus;
+}
+
+/**
+ * Result of adding a dependency.
+ *
+ * @public
+ */
+export interface AddDependencyResult {
+  taskId: string;
+  blockedById: string;
+  /** False when the link already existed. */
+  added: boolean;
+  path: string;
+}
+
+/**
+ * Result of removing a dependency.
+ *
+ * @public
+ */
+export interface RemoveDependencyResult {
+  taskId: string;
+  blockedById: string;
+  removed: true;
+}
+
+/**
+ * A task's direct blockers and dependents.
+ *
+ * @public
+ */
+export interface TaskDependenciesResult {
+  task: DependencyTask;
+  /** Tasks this task is blocked by. */
+  blockers: DependencyTask[];
+  /** Tasks blocked by this task. */
+  dependents: DependencyTask[];
+  /** Whether any blocker is still open. */
+  blocked: boolean;
+}
+
+/**
+ * Cycles found in the dependency store.
+ *
+ * @public
+ */
+export interface DependencyCyclesResult {
+  /**
+   * Each cycle lists task ids where every task is blocked by the next, and
+   * the last by the first.
+   */
+  cycles: string[][];
+  /** Number of links checked. */
+  linkCount: number;
+}
+
+/**
+ * One task on a project's critical path. `start` and `finish` are the
+ * earliest times it can begin and end, in minutes from now.
+ *
+ * @public
+ */
+export interface CriticalPathStep {
+  id: string;
+  name: string;
+  estimatedMinutes: number | null;
+  start: number;
+  finish: number;
+}
+
+/**
+ * The longest chain of dependent work through a project.
+ *
+ * @public
+ */
+export interface CriticalPathResult {
+  projectId: string;
+  projectName: string;
+  /** Minutes until the last task on the path can finish. */
+  totalMinutes: number;
+  path: CriticalPathStep[];
+  /** Remaining actions (tasks without remaining subtasks) considered. */
+  taskCount: number;
+  /** Actions with no estimate, counted as zero minutes. */
+  unestimatedTaskIds: string[];
+}
+
+/**
+ * Look up tasks by id, reporting each one's name and status.
+ */
+async function lookupTasks(
+  ids: string[]
+): Promise<Map<string, DependencyTask> | CliError> {
+  const unique = [...new Set(ids)];
+  if (unique.length === 0) return new Map();
+
+  const body = `
+var ids = [${unique.map((id) => `"${escapeJSString(id)}"`).join(", ")}];
+var found = {};
+ids.forEach(function(id) {
+  var t = Task.byIdentifier(id);
+  if (!t) {
+    found[id] = { id: id, name: null, status: "missing" };
+    return;
+  }
+  var status = "open";
+  if (t.taskStatus === Task.Status.Completed) status = "completed";
+  else if (t.taskStatus === Task.Status.Dropped) status = "dropped";
+  found[id] = { id: id, name: t.name, status: status };
+});
+return JSON.stringify(found);`;
+
+  const result = await runOmniJSWrapped<Record<string, DependencyTask>>(body);
+  if (!result.success) {
+    return (
+      result.error ??
+      createError(ErrorCode.UNKNOWN_ERROR, "Failed to look up tasks")
+    );
+  }
+  return new Map(Object.entries(result.data ?? {}));
+}
+
+/**
+ * Validate a link and check both tasks exist and that it would not close a
+ * cycle. Resolves to whether the link is already stored.
+ */
+async function checkNewDependency(
+  links: DependencyLinks,
+  taskId: string,
+  blockedById: string
+): Promise<{ exists: boolean } | CliError> {
+  const idError = validateId(taskId, "task") ?? validateId(blockedById, "task");
+  if (idError) return idError;
+  if (taskId === blockedById) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "A task cannot be blocked by itself"
+    );
+  }
+
+  const tasks = await lookupTasks([taskId, blockedById]);
+  if ("code" in tasks) return tasks;
+  const missing = [taskId, blockedById].find(
+    (id) => tasks.get(id)?.status === "missing"
+  );
+  if (missing !== undefined) {
+    return createError(ErrorCode.TASK_NOT_FOUND, `Task not found: ${missing}`);
+  }
+
+  if ((links[taskId] ?? []).includes(blockedById)) return { exists: true };
+
+  const chain = findBlockingChain(links, blockedById, taskId);
+  if (chain !== null) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      `Dependency would create a cycle: ${[taskId, ...chain].join(" → ")}`,
+      `${blockedById} is already blocked (directly or transitively) by ${taskId}`
+    );
+  }
+  return { exists: false };
+}
+
+/**
+ * Record that `taskId` is blocked by `blockedById`.
+ *
+ * Both tasks must exist, and the link must not make a task (transitively)
+ * block itself. Adding a link that already exists succeeds with
+ * `added: false`.
+ *
+ * @public
+ */
+export async function addDependency(
+  taskId: string,
+  blockedById: string
+): Promise<CliOutput<AddDependencyResult>> {
+  const store = readDependencies();
+  if ("code" in store) return failure(store);
+  const checked = await checkNewDependency(
+    store.blockedBy,
+    taskId,
+    blockedById
+  );
+  if ("code" in checked) return failure(checked);
+
+  if (!checked.exists) {
+    writeDependencies({
+      ...store,
+      blockedBy: {
+        ...store.blockedBy,
+        [taskId]: [...(store.blockedBy[taskId] ?? []), blockedById],
+      },
+    });
+  }
+
+  return success({
+    taskId,
+    blockedById,
+    added: !checked.exists,
+    path: getDependenciesPath(),
+  });
+}
+
+function noDependency(taskId: string, blockedById: string): CliError {
+  return createError(
+    ErrorCode.VALIDATION_ERROR,
+    `Task ${taskId} is not blocked by ${blockedById}`
+  );
+}
+
+/**
+ * Remove the link recording that `taskId` is blocked by `blockedById`.
+ *
+ * @public
+ */
+export function removeDependency(
+  taskId: string,
+  blockedById: string
+): CliOutput<RemoveDependencyResult> {
+  const store = readDependencies();
+  if ("code" in store) return failure(store);
+  const blockers = store.blockedBy[taskId] ?? [];
+  if (!blockers.includes(blockedById)) {
+    return failure(noDependency(taskId, blockedById));
+  }
+
+  writeDependencies({
+    ...store,
+    blockedBy: {
+      ...store.blockedBy,
+      [taskId]: blockers.filter((id) => id !== blockedById),
+    },
+  });
+  return success({ taskId, blockedById, removed: true });
+}
+
+/**
+ * List a task's direct blockers and dependents with their current status.
+ *
+ * @public
+ */
+export async function getTaskDependencies(
+  taskId: string
+): Promise<CliOutput<TaskDependenciesResult>> {
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  const store = readDependencies();
+  if ("code" in store) return failure(store);
+  const links = store.blockedBy;
+  const blockerIds = links[taskId] ?? [];
+  const dependentIds = Object.keys(links).filter((id) =>
+    (links[id] ?? []).includes(taskId)
+  );
+
+  const tasks = await lookupTasks([taskId, ...blockerIds, ...dependentIds]);
+  if ("code" in tasks) return failure(tasks);
+  const task = tasks.get(taskId);
+  if (task === undefined || task.status === "missing") {
+    return failure(
+      createError(ErrorCode.TASK_NOT_FOUND, `Task not found: ${taskId}`)
+    );
+  }
+
+  const describe = (id: string): DependencyTask =>
+    tasks.get(id) ?? { id, name: null, status: "missing" };
+  const blockers = blockerIds.map(describe);
+  return success({
+    task,
+    blockers,
+    dependents: dependentIds.map(describe),
+    blocked: blockers.some((b) => b.status === "open"),
+  });
+}
+
+/**
+ * Check the dependency store for cycles. `addDependency` refuses links that
+ * would close one, so cycles only appear when the store is edited by hand.
+ *
+ * @public
+ */
+export function findDependencyCycles(): CliOutput<DependencyCyclesResult> {
+  const store = readDependencies();
+  if ("code" in store) return failure(store);
+  const links = store.blockedBy;
+  return success({
+    cycles: findCycles(links),
+    linkCount: Object.values(links).reduce((n, ids) => n + ids.length, 0),
+  });
+}
+
+interface ProjectTaskRow {
+  id: string;
+  name: string;
+  estimatedMinutes: number | null;
+  parentId: string | null;
+  sequential: boolean;
+}
+
+/**
+ * Compute the critical path through a project's remaining work.
+ *
+ * The schedule is built from the project's remaining actions (tasks without
+ * remaining subtasks), each taking its `estimatedMinutes`. An action waits
+ * for its explicit blockers and, inside a sequential project or action
+ * group, for everything in the preceding item; a link to or from an action
+ * group applies to every action in it. Links to tasks outside the project
+ * are ignored.
+ *
+ * @public
+ */
+export async function getCriticalPath(
+  projectId: string
+): Promise<CliOutput<CriticalPathResult>> {
+  const idError = validateId(projectId, "project");
+  if (idError) return failure(idError);
+  const store = readDependencies();
+  if ("code" in store) return failure(store);
+
+  const body = `
+var project = Project.byIdentifier("${escapeJSString(projectId)}");
+if (!project) {
+  throw new Error("Project not found: ${escapeJSString(projectId)}");
+}
+var rows = [];
+function __open(t) {
+  return t.taskStatus !== Task.Status.Completed && t.taskStatus !== Task.Status.Dropped;
+}
+function __walk(children, parentId) {
+  children.forEach(function(t) {
+    if (!__open(t)) return;
+    rows.push({
+      id: t.id.primaryKey,
+      name: t.name,
+      estimatedMinutes: t.estimatedMinutes != null ? t.estimatedMinutes : null,
+      parentId: parentId,
+      sequential: t.sequential
+    });
+    __walk(t.children, t.id.primaryKey);
+  });
+}
+__walk(project.children, null);
+return JSON.stringify({
+  projectId: project.id.primaryKey,
+  projectName: project.name,
+  sequential: project.sequential,
+  rows: rows
+});`;
+
+  const result = await runOmniJSWrapped<{
+    projectId: string;
+    projectName: string;
+    sequential: boolean;
+    rows: ProjectTaskRow[];
+  }>(body);
+  if (!result.success) {
+    return failure(
+      result.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to read project tasks")
+    );
+  }
+  if (result.data === undefined) {
+    return failure(createError(ErrorCode.UNKNOWN_ERROR, "No result returned"));
+  }
+  const { rows, sequential } = result.data;
+
+  // Children of each container, in order; the project itself is keyed "".
+  const children = new Map<string, ProjectTaskRow[]>();
+  for (const row of rows) {
+    const key = row.parentId ?? "";
+    children.set(key, [...(children.get(key) ?? []), row]);
+  }
+  const leavesOf = (id: string): string[] => {
+    const kids = children.get(id);
+    return kids === undefined ? [id] : kids.flatMap((k) => leavesOf(k.id));
+  };
+
+  const edges: DependencyLinks = {};
+  const link = (from: string, to: string): void => {
+    for (const dependent of leavesOf(from)) {
+      const blockers = leavesOf(to);
+      edges[dependent] = [...(edges[dependent] ?? []), ...blockers];
+    }
+  };
+
+  // Sequential containers: each item waits for the one before it.
+  const sequentialContainers = [
+    ...(sequential ? [""] : []),
+    ...rows.filter((r) => r.sequential).map((r) => r.id),
+  ];
+  for (const container of sequentialContainers) {
+    let previous: ProjectTaskRow | undefined;
+    for (const kid of children.get(container) ?? []) {
+      if (previous !== undefined) link(kid.id, previous.id);
+      previous = kid;
+    }
+  }
+
+  // Explicit links between tasks in this project.
+  const inProject = new Set(rows.map((r) => r.id));
+  for (const [taskId, blockerIds] of Object.entries(store.blockedBy)) {
+    if (!inProject.has(taskId)) continue;
+    for (const blockerId of blockerIds) {
+      if (inProject.has(blockerId)) link(taskId, blockerId);
+    }
+  }
+
+  const actions = rows.filter((r) => !children.has(r.id));
+  const computed = computeCriticalPath(
+    actions.map((r) => ({ id: r.id, minutes: r.estimatedMinutes ?? 0 })),
+    edges
+  );
+  if ("cycle" in computed) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Dependencies in project form a cycle: ${computed.cycle.join(" → ")}`,
+        "Remove one of the links with dependency-remove"
+      )
+    );
+  }
+
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  return success({
+    projectId: result.data.projectId,
+    projectName: result.data.projectName,
+    totalMinutes: computed.totalMinutes,
+    path: computed.path.map((step) => ({
+      id: step.id,
+      name: byId.get(step.id)?.name ?? "",
+      estimatedMinutes: byId.get(step.id)?.estimatedMinutes ?? null,
+      start: step.start,
+      finish: step.finish,
+    })),
+    taskCount: actions.length,
+    unestimatedTaskIds: actions
+      .filter((r) => r.estimatedMinutes === null)
+      .map((r) => r.id),
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Dry-run previews
+// ---------------------------------------------------------------------------
+
+/**
+ * Preview {@link addDependency}.
+ */
+async function planAddDependency(
+  taskId: string,
+  blockedById: string
+): Promise<CliOutput<DryRunPlan>> {
+  const store = readDependencies();
+  if ("code" in store) return failure(store);
+  const checked = await checkNewDependency(
+    store.blockedBy,
+    taskId,
+    blockedById
+  );
+  if ("code" in checked) return failure(checked);
+
+  return success(
+    localPlan("addDependency", {
+      changes: checked.exists
+        ? []
+        : [
+            {
+              action: "create",
+              entity: "dependency",
+              id: null,
+              name: `${taskId} blocked by ${blockedById}`,
+              fields: diffFields({}, { taskId, blockedById }),
+            },
+          ],
+    })
+  );
+}
+
+/**
+ * Preview {@link removeDependency}.
+ */
+function planRemoveDependency(
+  taskId: string,
+  blockedById: string
+): CliOutput<DryRunPlan> {
+  const store = readDependencies();
+  if ("code" in store) return failure(store);
+  const blockers = store.blockedBy[taskId] ?? [];
+  if (!blockers.includes(blockedById)) {
+    return failure(noDependency(taskId, blockedById));
+  }
+
+  return success(
+    localPlan("removeDependency", {
+      changes: [
+        {
+          action: "delete",
+          entity: "dependency",
+          id: `${taskId}:${blockedById}`,
+          name: `${taskId} blocked by ${blockedById}`,
+          fields: diffFields({ taskId, blockedById }, {}),
+        },
+      ],
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Centralized descriptors
+// ---------------------------------------------------------------------------
+
+/**
+ * Centralized descriptor for the `dependency-add` command.
+ *
+ * Drives CLI subcommand `dependency-add` and MCP tool `dependency_add`.
+ *
+ * @public
+ */
+export const addDependencyDescriptor = defineCommand({
+  name: "addDependency",
+  cliName: "dependency-add",
+  mcpName: "dependency_add",
+  description:
+    "Record that a task is blocked by another task (any two tasks, across projects). Rejects links that would create a cycle.",
+  cliPositional: ["taskId"] as const,
+  inputSchema: z.object({
+    taskId: z.string().describe("ID of the task that is blocked"),
+    blockedBy: z.string().describe("ID of the task that must be done first"),
+    ...dryRunSchema,
+  }),
+  handler: async (
+    input
+  ): Promise<CliOutput<AddDependencyResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planAddDependency(input.taskId, input.blockedBy)
+      : addDependency(input.taskId, input.blockedBy),
+});
+
+/**
+ * Centralized descriptor for the `dependency-remove` command.
+ *
+ * Drives CLI subcommand `dependency-remove` and MCP tool `dependency_remove`.
+ *
+ * @public
+ */
+export const removeDependencyDescriptor = defineCommand({
+  name: "removeDependency",
+  cliName: "dependency-remove",
+  mcpName: "dependency_remove",
+  description: "Remove a blocked-by link added with dependency-add",
+  cliPositional: ["taskId"] as const,
+  inputSchema: z.object({
+    taskId: z.string().describe("ID of the task that is blocked"),
+    blockedBy: z.string().describe("ID of the blocking task to unlink"),
+    ...dryRunSchema,
+  }),
+  handler: async (
+    input
+  ): Promise<CliOutput<RemoveDependencyResult | DryRunPlan>> =>
+    Promise.resolve(
+      input.dryRun === true
+        ? planRemoveDependency(input.taskId, input.blockedBy)
+        : removeDependency(input.taskId, input.blockedBy)
+    ),
+});
+
+/**
+ * Centralized descriptor for the `dependencies` command.
+ *
+ * Drives CLI subcommand `dependencies` and MCP tool `dependencies_get`.
+ *
+ * @public
+ */
+export const getTaskDependenciesDescriptor = defineCommand({
+  name: "getTaskDependencies",
+  cliName: "dependencies",
+  mcpName: "dependencies_get",
+  description:
+    "List a task's blockers and dependents from dependency-add links, with their status and whether the task is still blocked",
+  cliPositional: ["taskId"] as const,
+  inputSchema: z.object({
+    taskId: z.string().describe("Task ID"),
+  }),
+  handler: async (input) => getTaskDependencies(input.taskId),
+});
+
+/**
+ * Centralized descriptor for the `dependency-cycles` command.
+ *
+ * Drives CLI subcommand `dependency-cycles` and MCP tool `dependency_cycles`.
+ *
+ * @public
+ */
+export const findDependencyCyclesDescriptor = defineCommand({
+  name: "findDependencyCycles",
+  cliName: "dependency-cycles",
+  mcpName: "dependency_cycles",
+  description: "Check the stored blocked-by links for cycles",
+  inputSchema: z.object({}),
+  handler: async () => Promise.resolve(findDependencyCycles()),
+});
+
+/**
+ * Centralized descriptor for the `critical-path` command.
+ *
+ * Drives CLI subcommand `critical-path` and MCP tool `critical_path`.
+ *
+ * @public
+ */
+export const getCriticalPathDescriptor = defineCommand({
+  name: "getCriticalPath",
+  cliName: "critical-path",
+  mcpName: "critical_path",
+  description:
+    "Compute the longest chain of remaining work through a project from estimatedMinutes, blocked-by links and sequential ordering",
+  cliPositional: ["projectId"] as const,
+  inputSchema: z.object({
+    projectId: z.string().describe("Project ID"),
+  }),
+  handler: async (input) => getCriticalPath(input.projectId),
+});
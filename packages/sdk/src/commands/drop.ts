@@ -5,6 +5,16 @@ import { ErrorCode, createError } from "../errors.js";
 import { validateId } from "../validation.js";
 import { escapeJSString, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  taskSnapshotExpr,
+  recordJournalEntry,
+  type JournalPayload,
+} from "../journal/index.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Result from dropping a task.
@@ -32,19 +42,23 @@ export async function dropTask(taskId: string): Promise<CliOutput<DropResult>> {
   if (idError) return failure(idError);
 
   const body = `
+${taskSnapshotExpr}
+
 var task = Task.byIdentifier("${escapeJSString(taskId)}");
 if (!task) {
   throw new Error("Task not found: ${escapeJSString(taskId)}");
 }
+var before = __snapshotTask(task, true);
 task.drop(true);
 
 return JSON.stringify({
   taskId: task.id.primaryKey,
   taskName: task.name,
-  dropped: task.taskStatus === Task.Status.Dropped
+  dropped: task.taskStatus === Task.Status.Dropped,
+  __journal: [{ taskId: task.id.primaryKey, before: before, after: __snapshotTask(task, true) }]
 });`;
 
-  const result = await runOmniJSWrapped<DropResult>(body);
+  const result = await runOmniJSWrapped<DropResult & JournalPayload>(body);
 
   if (!result.success) {
     return failure(
@@ -57,12 +71,32 @@ return JSON.stringify({
     return failure(createError(ErrorCode.UNKNOWN_ERROR, "No result returned"));
   }
 
-  return success(result.data);
+  const { __journal, ...data } = result.data;
+  recordJournalEntry("dropTask", __journal);
+  return success(data);
+}
+
+/**
+ * Preview {@link dropTask}: the task and any open subtasks it would drop.
+ */
+async function planDropTask(taskId: string): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  const body = `
+var task = Task.byIdentifier("${escapeJSString(taskId)}");
+if (!task) {
+  throw new Error("Task not found: ${escapeJSString(taskId)}");
+}
+__planStatus(task, "dropped");`;
+
+  return runPlanScript("dropTask", body);
 }
 
 /**
  * Delete a task permanently from OmniFocus.
- * Note: This cannot be undone.
+ * Note: OmniFocus cannot undo this, but the local journal can recreate the
+ * task and its subtasks (under new ids) via `undo`.
  */
 export async function deleteTask(
   taskId: string
@@ -72,15 +106,22 @@ export async function deleteTask(
   if (idError) return failure(idError);
 
   const body = `
+${taskSnapshotExpr}
+
 var task = Task.byIdentifier("${escapeJSString(taskId)}");
 if (!task) {
   return JSON.stringify({ error: "not found", taskId: "${escapeJSString(taskId)}" });
 }
+var before = __snapshotTask(task, true);
 deleteObject(task);
-return JSON.stringify({ taskId: "${escapeJSString(taskId)}", deleted: true });`;
+return JSON.stringify({
+  taskId: "${escapeJSString(taskId)}",
+  deleted: true,
+  __journal: [{ taskId: "${escapeJSString(taskId)}", before: before, after: null }]
+});`;
 
   const result = await runOmniJSWrapped<
-    DeleteResult | { error: string; taskId: string }
+    (DeleteResult & JournalPayload) | { error: string; taskId: string }
   >(body);
 
   if (!result.success) {
@@ -101,7 +142,26 @@ return JSON.stringify({ taskId: "${escapeJSString(taskId)}", deleted: true });`;
     );
   }
 
-  return success(result.data as DeleteResult);
+  const { __journal, ...data } = result.data as DeleteResult & JournalPayload;
+  recordJournalEntry("deleteTask", __journal);
+  return success(data);
+}
+
+/**
+ * Preview {@link deleteTask}: the task and every subtask it would delete.
+ */
+async function planDeleteTask(taskId: string): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  const body = `
+var task = Task.byIdentifier("${escapeJSString(taskId)}");
+if (!task) {
+  throw new Error("Task not found: ${escapeJSString(taskId)}");
+}
+__planDeleteTask(task);`;
+
+  return runPlanScript("deleteTask", body);
 }
 
 /**
@@ -119,8 +179,10 @@ export const dropTaskDescriptor = defineCommand({
   cliPositional: ["taskId"],
   inputSchema: z.object({
     taskId: z.string().describe("The ID of the task to drop"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => dropTask(input.taskId),
+  handler: async (input): Promise<CliOutput<DropResult | DryRunPlan>> =>
+    input.dryRun === true ? planDropTask(input.taskId) : dropTask(input.taskId),
 });
 
 /**
@@ -134,10 +196,15 @@ export const deleteTaskDescriptor = defineCommand({
   name: "deleteTask",
   cliName: "delete",
   mcpName: "task_delete",
-  description: "Permanently delete a task from OmniFocus. Cannot be undone.",
+  description:
+    "Permanently delete a task from OmniFocus. OmniFocus cannot undo this; the ofocus undo command can recreate it under a new ID.",
   cliPositional: ["taskId"],
   inputSchema: z.object({
     taskId: z.string().describe("The ID of the task to delete"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => deleteTask(input.taskId),
+  handler: async (input): Promise<CliOutput<DeleteResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planDeleteTask(input.taskId)
+      : deleteTask(input.taskId),
 });
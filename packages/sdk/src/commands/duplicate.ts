@@ -5,6 +5,11 @@ import { ErrorCode, createError } from "../errors.js";
 import { validateId } from "../validation.js";
 import { escapeJSString, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Result from duplicating a task.
@@ -78,6 +83,32 @@ return JSON.stringify({
   return success(result.data);
 }
 
+/**
+ * Preview {@link duplicateTask}: the copy (and copies of its subtasks) that
+ * would be created next to the original.
+ */
+async function planDuplicateTask(
+  taskId: string,
+  options: DuplicateTaskOptions = {}
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  const includeSubtasks = options.includeSubtasks !== false;
+
+  const body = `
+var task = Task.byIdentifier("${escapeJSString(taskId)}");
+if (!task) {
+  throw new Error("Task not found: ${escapeJSString(taskId)}");
+}
+var copies = ${includeSubtasks ? "[task].concat(task.flattenedChildren)" : "[task]"};
+copies.forEach(function(t) {
+  __planChange("create", "task", null, t.name, {}, __taskState(t));
+});`;
+
+  return runPlanScript("duplicateTask", body);
+}
+
 /**
  * Centralized descriptor for the `duplicate` command.
  *
@@ -97,12 +128,17 @@ export const duplicateTaskDescriptor = defineCommand({
       .boolean()
       .optional()
       .describe("Include subtasks in the duplicate (default: true)"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => {
+  handler: async (
+    input
+  ): Promise<CliOutput<DuplicateTaskResult | DryRunPlan>> => {
     const options: DuplicateTaskOptions = {};
     if (input.includeSubtasks !== undefined) {
       options.includeSubtasks = input.includeSubtasks;
     }
-    return duplicateTask(input.taskId, options);
+    return input.dryRun === true
+      ? planDuplicateTask(input.taskId, options)
+      : duplicateTask(input.taskId, options);
   },
 });
@@ -1,10 +1,20 @@
 import { z } from "zod";
-import type { CliOutput, OFFolder, UpdateFolderOptions } from "../types.js";
+import type {
+  CliError,
+  CliOutput,
+  OFFolder,
+  UpdateFolderOptions,
+} from "../types.js";
 import { success, failure } from "../result.js";
 import { ErrorCode, createError } from "../errors.js";
 import { validateId, validateFolderName } from "../validation.js";
 import { escapeJSString, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Result from deleting a folder.
@@ -15,32 +25,45 @@ export interface DeleteFolderResult {
 }
 
 /**
- * Update an existing folder in OmniFocus.
+ * Validate the inputs of {@link updateFolder}.
  */
-export async function updateFolder(
+function validateUpdateFolderInput(
   folderId: string,
   options: UpdateFolderOptions
-): Promise<CliOutput<OFFolder>> {
+): CliError | null {
   // Validate folder ID
   const idError = validateId(folderId, "folder");
-  if (idError) return failure(idError);
+  if (idError) return idError;
 
   // Validate optional inputs
   if (options.name !== undefined) {
     const nameError = validateFolderName(options.name);
-    if (nameError) return failure(nameError);
+    if (nameError) return nameError;
   }
 
   if (options.parentFolderId !== undefined) {
     const parentIdError = validateId(options.parentFolderId, "folder");
-    if (parentIdError) return failure(parentIdError);
+    if (parentIdError) return parentIdError;
   }
 
   if (options.parentFolderName !== undefined) {
     const parentNameError = validateFolderName(options.parentFolderName);
-    if (parentNameError) return failure(parentNameError);
+    if (parentNameError) return parentNameError;
   }
 
+  return null;
+}
+
+/**
+ * Update an existing folder in OmniFocus.
+ */
+export async function updateFolder(
+  folderId: string,
+  options: UpdateFolderOptions
+): Promise<CliOutput<OFFolder>> {
+  const inputError = validateUpdateFolderInput(folderId, options);
+  if (inputError) return failure(inputError);
+
   // Build script parts conditionally
   const scriptParts: string[] = [];
 
@@ -162,6 +185,81 @@ return JSON.stringify({ folderId: "${escapeJSString(folderId)}", deleted: true }
   return success(result.data as DeleteFolderResult);
 }
 
+/**
+ * Planning-script statements that look up the folder or throw.
+ */
+function findFolderStatements(folderId: string): string {
+  return `
+var theFolder = flattenedFolders.filter(function(f) {
+  return f.id.primaryKey === "${escapeJSString(folderId)}";
+})[0];
+if (!theFolder) {
+  throw new Error("Folder not found: ${escapeJSString(folderId)}");
+}`;
+}
+
+/**
+ * Preview {@link updateFolder}.
+ */
+async function planUpdateFolder(
+  folderId: string,
+  options: UpdateFolderOptions
+): Promise<CliOutput<DryRunPlan>> {
+  const inputError = validateUpdateFolderInput(folderId, options);
+  if (inputError) return failure(inputError);
+
+  const parts: string[] = [
+    findFolderStatements(folderId),
+    `var before = __folderState(theFolder);`,
+    `var after = __planCopy(before);`,
+  ];
+
+  if (options.name !== undefined) {
+    parts.push(`after.name = "${escapeJSString(options.name)}";`);
+  }
+
+  const parentRef = options.parentFolderId ?? options.parentFolderName;
+  if (parentRef !== undefined) {
+    const match =
+      options.parentFolderId !== undefined ? "f.id.primaryKey" : "f.name";
+    parts.push(`
+var newParent = flattenedFolders.filter(function(f) {
+  return ${match} === "${escapeJSString(parentRef)}";
+})[0];
+if (!newParent) {
+  throw new Error("Parent folder not found: ${escapeJSString(parentRef)}");
+}
+after.parentFolder = newParent.name;`);
+  }
+
+  parts.push(
+    `__planChange("update", "folder", theFolder.id.primaryKey, theFolder.name, before, after);`
+  );
+
+  return runPlanScript("updateFolder", parts.join("\n"));
+}
+
+/**
+ * Preview {@link deleteFolder}: the folder with every folder, project and
+ * task inside it.
+ */
+async function planDeleteFolder(
+  folderId: string
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(folderId, "folder");
+  if (idError) return failure(idError);
+
+  const body = `${findFolderStatements(folderId)}
+[theFolder].concat(theFolder.flattenedFolders).forEach(function(f) {
+  __planChange("delete", "folder", f.id.primaryKey, f.name, __folderState(f), {});
+});
+theFolder.flattenedProjects.forEach(function(p) {
+  __planDeleteProject(p);
+});`;
+
+  return runPlanScript("deleteFolder", body);
+}
+
 /**
  * Centralized descriptor for the `update-folder` command.
  *
@@ -186,13 +284,18 @@ export const updateFolderDescriptor = defineCommand({
       .string()
       .optional()
       .describe("Move to parent folder by name"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    updateFolder(input.folderId, {
+  handler: async (input): Promise<CliOutput<OFFolder | DryRunPlan>> => {
+    const options: UpdateFolderOptions = {
       name: input.name,
       parentFolderId: input.parentFolderId,
       parentFolderName: input.parentFolderName,
-    }),
+    };
+    return input.dryRun === true
+      ? planUpdateFolder(input.folderId, options)
+      : updateFolder(input.folderId, options);
+  },
 });
 
 /**
@@ -210,6 +313,12 @@ export const deleteFolderDescriptor = defineCommand({
   cliPositional: ["folderId"],
   inputSchema: z.object({
     folderId: z.string().describe("The ID of the folder to delete"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => deleteFolder(input.folderId),
+  handler: async (
+    input
+  ): Promise<CliOutput<DeleteFolderResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planDeleteFolder(input.folderId)
+      : deleteFolder(input.folderId),
 });
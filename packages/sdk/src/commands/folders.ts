@@ -1,5 +1,10 @@
 import { z } from "zod";
-import type { CliOutput, CreateFolderOptions, OFFolder } from "../types.js";
+import type {
+  CliError,
+  CliOutput,
+  CreateFolderOptions,
+  OFFolder,
+} from "../types.js";
 import { success, failure } from "../result.js";
 import { ErrorCode, createError } from "../errors.js";
 import {
@@ -23,6 +28,11 @@ import {
   type QueryResult,
 } from "../query/index.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Centralized descriptor for the `folders` command.
@@ -65,6 +75,7 @@ export const listFoldersDescriptor = defineCommand({
         "When true, return every matching item ignoring --limit/--offset. Mutually exclusive with --limit and --offset."
       ),
   }),
+  fieldSpec: folderFieldSpec,
   handler: async (input) =>
     queryFolders({
       parent: input.parent,
@@ -95,39 +106,88 @@ export const createFolderDescriptor = defineCommand({
     name: z.string().describe("Folder name"),
     parentFolderId: z.string().optional().describe("Parent folder ID"),
     parentFolderName: z.string().optional().describe("Parent folder name"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    createFolder(input.name, {
+  handler: async (input): Promise<CliOutput<OFFolder | DryRunPlan>> => {
+    const options: CreateFolderOptions = {
       parentFolderId: input.parentFolderId,
       parentFolderName: input.parentFolderName,
-    }),
+    };
+    return input.dryRun === true
+      ? planCreateFolder(input.name, options)
+      : createFolder(input.name, options);
+  },
 });
 
 /**
- * Create a new folder in OmniFocus.
+ * Validate the inputs of {@link createFolder}.
  */
-export async function createFolder(
+function validateCreateFolderInput(
   name: string,
-  options: CreateFolderOptions = {}
-): Promise<CliOutput<OFFolder>> {
+  options: CreateFolderOptions
+): CliError | null {
   // Validate folder name (required for create)
   if (!name || name.trim() === "") {
-    return failure(
-      createError(ErrorCode.VALIDATION_ERROR, "Folder name cannot be empty")
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "Folder name cannot be empty"
     );
   }
 
   const nameError = validateFolderName(name);
-  if (nameError) return failure(nameError);
+  if (nameError) return nameError;
 
   // Validate optional inputs
   if (options.parentFolderId !== undefined) {
     const parentIdError = validateId(options.parentFolderId, "project");
-    if (parentIdError) return failure(parentIdError);
+    if (parentIdError) return parentIdError;
   }
 
-  const parentNameError = validateFolderName(options.parentFolderName);
-  if (parentNameError) return failure(parentNameError);
+  return validateFolderName(options.parentFolderName);
+}
+
+/**
+ * Preview {@link createFolder}.
+ */
+async function planCreateFolder(
+  name: string,
+  options: CreateFolderOptions
+): Promise<CliOutput<DryRunPlan>> {
+  const inputError = validateCreateFolderInput(name, options);
+  if (inputError) return failure(inputError);
+
+  let findParent = "var parentName = null;";
+  const parentRef = options.parentFolderId ?? options.parentFolderName;
+  if (parentRef) {
+    const match = options.parentFolderId ? "f.id.primaryKey" : "f.name";
+    findParent = `
+var parentFolder = flattenedFolders.filter(function(f) {
+  return ${match} === "${escapeJSString(parentRef)}";
+})[0];
+if (!parentFolder) {
+  throw new Error("Parent folder not found: ${escapeJSString(parentRef)}");
+}
+var parentName = parentFolder.name;`;
+  }
+
+  const body = `${findParent}
+__planChange("create", "folder", null, "${escapeJSString(name)}", {}, {
+  name: "${escapeJSString(name)}",
+  parentFolder: parentName
+});`;
+
+  return runPlanScript("createFolder", body);
+}
+
+/**
+ * Create a new folder in OmniFocus.
+ */
+export async function createFolder(
+  name: string,
+  options: CreateFolderOptions = {}
+): Promise<CliOutput<OFFolder>> {
+  const inputError = validateCreateFolderInput(name, options);
+  if (inputError) return failure(inputError);
 
   // Build script body based on whether we're placing in a parent folder
   let findParentAndCreate: string;
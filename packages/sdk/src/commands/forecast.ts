@@ -11,6 +11,8 @@ import {
   compileProjection,
   compileSort,
   compileTaskPredicates,
+  resolveTimeZone,
+  startOfZonedDay,
   taskFieldSpec,
   taskGroupKeys,
   listProjectionSchema,
@@ -20,6 +22,15 @@ import {
   type TaskQueryOptions,
 } from "../query/index.js";
 
+/**
+ * Task fields with the compact default projection for forecast results, used
+ * when the caller doesn't pass `fields`.
+ */
+const forecastFieldSpec = {
+  ...taskFieldSpec,
+  defaultFields: ["id", "name", "dueDate", "projectName"],
+};
+
 /**
  * Options for querying forecast tasks.
  *
@@ -41,14 +52,20 @@ export interface ForecastOptions extends BaseListQueryOptions {
    * Default: `false`.
    */
   includeDeferred?: boolean | undefined;
+  /**
+   * IANA time zone (e.g. `America/Los_Angeles`) whose calendar days make up
+   * the window and `dueBucket` groups. Defaults to `OFOCUS_TIME_ZONE`, then
+   * UTC.
+   */
+  timeZone?: string | undefined;
 }
 
 /**
  * Query tasks by date window, similar to OmniFocus Forecast view.
  *
- * By default returns tasks that are due within the next N days (default 7).
- * When `includeDeferred: true`, also includes tasks deferred to the same
- * window.
+ * By default returns tasks that are due in the next N calendar days (default
+ * 7), starting today and counting days in `timeZone`. When
+ * `includeDeferred: true`, also includes tasks deferred to the same window.
  *
  * Returns a discriminated {@link QueryResult} — the `kind` field tells the
  * caller whether the response is a paged list, a count, an ID list, a single
@@ -92,36 +109,37 @@ export async function queryForecast(
   );
   if (paginationError) return failure(paginationError);
 
+  const timeZone = resolveTimeZone(options.timeZone);
+  if (typeof timeZone !== "string") return failure(timeZone);
+
   const days = options.days ?? 7;
-  const includeDeferred = options.includeDeferred ?? false;
-  const windowDuration = `${String(days)}d`;
+  const now = new Date();
+  const from = startOfZonedDay(now, timeZone);
+  const to = startOfZonedDay(now, timeZone, days);
+  if (from === null || to === null) {
+    return failure(
+      createError(ErrorCode.VALIDATION_ERROR, `Unknown time zone: ${timeZone}`)
+    );
+  }
 
-  // Build the task query options from forecast-specific fields.
-  // When includeDeferred is false, we use the narrower dueWithin predicate.
-  // When includeDeferred is true, we use dueOrDeferWithin which covers both.
+  // The window runs from midnight today to midnight `days` days later, in
+  // the time zone; includeDeferred widens it to defer dates too.
   const taskOptions: TaskQueryOptions = {
     ...options,
     completed: false,
     effectivelyDropped: false,
-    ...(includeDeferred
-      ? { dueOrDeferWithin: windowDuration }
-      : { dueWithin: windowDuration }),
+    forecastWindow: {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      deferred: options.includeDeferred ?? false,
+    },
   };
 
-  // Apply default fields for forecast results if the caller didn't specify
-  const fieldSpec =
-    options.fields !== undefined
-      ? taskFieldSpec
-      : {
-          ...taskFieldSpec,
-          defaultFields: ["id", "name", "dueDate", "projectName"],
-        };
-
   // Compile each phase
   const pred = compileTaskPredicates(taskOptions);
-  const proj = compileProjection(fieldSpec, taskOptions);
-  const sort = compileSort(fieldSpec, taskOptions);
-  const agg = compileAggregate(taskOptions, taskGroupKeys);
+  const proj = compileProjection(forecastFieldSpec, taskOptions);
+  const sort = compileSort(forecastFieldSpec, taskOptions);
+  const agg = compileAggregate(taskOptions, taskGroupKeys, timeZone);
 
   const errors = [
     ...pred.validationErrors,
@@ -178,18 +196,26 @@ export const queryForecastDescriptor = defineCommand({
   cliName: "forecast",
   mcpName: "forecast",
   description:
-    "Query tasks due within N days (like the OmniFocus Forecast view).",
+    "Query tasks due in the next N calendar days, starting today (like the OmniFocus Forecast view).",
   inputSchema: z.object({
     days: z
       .number()
       .int()
       .positive()
       .optional()
-      .describe("Number of days ahead to include (default: 7)"),
+      .describe(
+        "Number of calendar days to include, starting today (default: 7)"
+      ),
     includeDeferred: z
       .boolean()
       .optional()
       .describe("Include tasks deferred to the same window"),
+    timeZone: z
+      .string()
+      .optional()
+      .describe(
+        "IANA time zone for the window's calendar days, e.g. 'America/Los_Angeles' (default: OFOCUS_TIME_ZONE, then UTC)"
+      ),
     // ── Projection ───────────────────────────────────────────────────────────
     ...listProjectionSchema,
     // ── Sort ─────────────────────────────────────────────────────────────────
@@ -214,10 +240,12 @@ export const queryForecastDescriptor = defineCommand({
         "When true, return every matching item ignoring --limit/--offset. Mutually exclusive with --limit and --offset."
       ),
   }),
+  fieldSpec: forecastFieldSpec,
   handler: async (input) =>
     queryForecast({
       days: input.days,
       includeDeferred: input.includeDeferred,
+      timeZone: input.timeZone,
       fields: input.fields,
       excludeFields: input.excludeFields,
       sort: input.sort,
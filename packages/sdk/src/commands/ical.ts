@@ -0,0 +1,1000 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { z } from "zod";
+import type { CliOutput, RepetitionRule } from "../types.js";
+import { success, failure } from "../result.js";
+import { ErrorCode, createError, type CliError } from "../errors.js";
+import { runOmniJSWrapped, escapeJSString, toOmniJSDate } from "../omnijs.js";
+import { validateRepetitionRule } from "../validation.js";
+import { defineCommand } from "../registry/define.js";
+import type { QueryResult } from "../query/index.js";
+import { zonedTimeToUtc } from "../query/time-zone.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
+import { queryTasks } from "./tasks.js";
+import { queryForecast } from "./forecast.js";
+import { buildRRule, parseRRule, repeatMethodToOmniJS } from "./repetition.js";
+
+/**
+ * Calendar component used for each exported task.
+ *
+ * @public
+ */
+export type ICalComponent = "vtodo" | "vevent";
+
+/**
+ * Options for exporting tasks to iCalendar format.
+ *
+ * @public
+ */
+export interface ICalExportOptions {
+  /**
+   * Emit each task as a `VTODO` (default) or a `VEVENT`.
+   *
+   * A `VTODO` carries the defer date as `DTSTART`, the due date as `DUE`, and
+   * the estimate as `DURATION` when there is no due date (RFC 5545 forbids
+   * `DUE` with `DURATION`). A `VEVENT` starts at the due date — or the defer
+   * date if there is none — and lasts for the estimate.
+   */
+  component?: ICalComponent | undefined;
+  /** Export the forecast for the next N days instead of every dated task. */
+  days?: number | undefined;
+  /** Also export tasks that only have a defer date. */
+  includeDeferred?: boolean | undefined;
+  /** Export only tasks in this project (by name or ID). */
+  project?: string | undefined;
+  /** Export only tasks with this tag. */
+  tag?: string | undefined;
+  /** `where` filter expression, as for `queryTasks`. */
+  where?: string | undefined;
+  /** Calendar name shown by calendar apps (`X-WR-CALNAME`). Default: `OmniFocus`. */
+  calendarName?: string | undefined;
+}
+
+/**
+ * Result of an iCalendar export.
+ *
+ * @public
+ */
+export interface ICalExportResult {
+  /** The `.ics` document, with CRLF line endings. */
+  content: string;
+  component: ICalComponent;
+  taskCount: number;
+  /** Tasks exported with an RRULE. */
+  repeatingCount: number;
+}
+
+/**
+ * Task fields read for the export.
+ */
+interface ICalTaskRow {
+  id: string;
+  name: string;
+  note: string | null;
+  flagged: boolean;
+  dueDate: string | null;
+  deferDate: string | null;
+  estimatedMinutes: number | null;
+  tags: string[];
+  repetitionRule: string | null;
+  repetitionMethod: RepetitionRule["repeatMethod"] | null;
+}
+
+const ICAL_TASK_FIELDS = [
+  "id",
+  "name",
+  "note",
+  "flagged",
+  "dueDate",
+  "deferDate",
+  "estimatedMinutes",
+  "tags",
+  "repetitionRule",
+  "repetitionMethod",
+];
+
+/**
+ * Escape a TEXT property value (RFC 5545 §3.3.11).
+ */
+function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Fold a content line to at most 75 octets per line (RFC 5545 §3.1),
+ * without splitting a UTF-8 character.
+ */
+function foldICalLine(line: string): string {
+  const lines: string[] = [];
+  let current = "";
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char, "utf-8");
+    // Continuation lines start with a space, which counts towards the limit.
+    if (octets + size > 75) {
+      lines.push(current);
+      current = " ";
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join("\r\n");
+}
+
+/**
+ * Format an ISO timestamp as a UTC DATE-TIME value, e.g. `20240115T170000Z`.
+ */
+function formatICalDateTime(iso: string): string {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+}
+
+/**
+ * Format minutes as a DURATION value, e.g. `PT1H30M`.
+ */
+function formatICalDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `PT${String(rest)}M`;
+  return rest === 0
+    ? `PT${String(hours)}H`
+    : `PT${String(hours)}H${String(rest)}M`;
+}
+
+/**
+ * The RRULE for a repeating task, normalized through {@link buildRRule} when
+ * the OmniFocus rule string is one the SDK models, and passed through as-is
+ * otherwise.
+ */
+function taskRRule(task: ICalTaskRow): string | null {
+  if (task.repetitionRule === null) return null;
+  const rule = parseRRule(
+    task.repetitionRule,
+    task.repetitionMethod ?? "scheduled"
+  );
+  return rule !== null
+    ? buildRRule(rule)
+    : task.repetitionRule.replace(/^RRULE:/i, "");
+}
+
+/**
+ * Build the content lines of one calendar component for a task.
+ */
+function buildTaskComponent(
+  task: ICalTaskRow,
+  component: ICalComponent,
+  stamp: string
+): string[] {
+  const name = component === "vtodo" ? "VTODO" : "VEVENT";
+  const lines = [
+    `BEGIN:${name}`,
+    `UID:${task.id}@ofocus`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeICalText(task.name)}`,
+  ];
+  if (task.note !== null && task.note !== "") {
+    lines.push(`DESCRIPTION:${escapeICalText(task.note)}`);
+  }
+  if (task.tags.length > 0) {
+    lines.push(`CATEGORIES:${task.tags.map(escapeICalText).join(",")}`);
+  }
+  if (task.flagged) lines.push("PRIORITY:1");
+
+  const estimate =
+    task.estimatedMinutes !== null && task.estimatedMinutes > 0
+      ? formatICalDuration(task.estimatedMinutes)
+      : null;
+  const rrule = taskRRule(task);
+  if (component === "vtodo") {
+    // An RRULE repeats from DTSTART (RFC 5545 §3.8.5.3), so a repeating task
+    // with no defer date starts at its due date.
+    const start = task.deferDate ?? (rrule !== null ? task.dueDate : null);
+    if (start !== null) {
+      lines.push(`DTSTART:${formatICalDateTime(start)}`);
+    }
+    if (task.dueDate !== null) {
+      lines.push(`DUE:${formatICalDateTime(task.dueDate)}`);
+    } else if (task.deferDate !== null && estimate !== null) {
+      lines.push(`DURATION:${estimate}`);
+    }
+    lines.push("STATUS:NEEDS-ACTION");
+  } else {
+    const start = task.dueDate ?? task.deferDate;
+    if (start !== null) lines.push(`DTSTART:${formatICalDateTime(start)}`);
+    if (estimate !== null) lines.push(`DURATION:${estimate}`);
+  }
+
+  if (rrule !== null) lines.push(`RRULE:${rrule}`);
+  lines.push(`URL:omnifocus:///task/${task.id}`, `END:${name}`);
+  return lines;
+}
+
+/**
+ * Export open tasks with due dates (and, optionally, defer dates) as an
+ * RFC 5545 iCalendar document, so they can be subscribed to or imported by
+ * calendar apps.
+ *
+ * Tasks come from {@link queryForecast} when `days` is given and from
+ * {@link queryTasks} otherwise; the `project`, `tag` and `where` filters
+ * apply to the latter only. Dates are written in UTC, repeating tasks get an
+ * RRULE, and each entry's UID is derived from the task ID so re-exports
+ * update rather than duplicate entries.
+ *
+ * @public
+ */
+export async function exportICal(
+  options: ICalExportOptions = {}
+): Promise<CliOutput<ICalExportResult>> {
+  const component = options.component ?? "vtodo";
+  const includeDeferred = options.includeDeferred === true;
+
+  let result: CliOutput<QueryResult<unknown>>;
+  if (options.days !== undefined) {
+    if (
+      options.project !== undefined ||
+      options.tag !== undefined ||
+      options.where !== undefined
+    ) {
+      return failure(
+        createError(
+          ErrorCode.VALIDATION_ERROR,
+          "days cannot be combined with project, tag or where",
+          "Use where with a due/defer comparison (e.g. due < +7d) to filter a date window"
+        )
+      );
+    }
+    result = await queryForecast({
+      days: options.days,
+      includeDeferred,
+      fields: ICAL_TASK_FIELDS,
+      sort: ["dueDate", "deferDate", "name"],
+      all: true,
+    });
+  } else {
+    result = await queryTasks({
+      project: options.project,
+      tag: options.tag,
+      where: options.where,
+      notCompleted: true,
+      dropped: false,
+      hasDue: includeDeferred ? undefined : true,
+      fields: ICAL_TASK_FIELDS,
+      sort: ["dueDate", "deferDate", "name"],
+      all: true,
+    });
+  }
+
+  if (!result.success || result.data === null) {
+    return failure(
+      result.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to query tasks to export")
+    );
+  }
+
+  const rows = (
+    result.data.kind === "list" ? result.data.items : []
+  ) as ICalTaskRow[];
+  const tasks = rows.filter(
+    (t) => t.dueDate !== null || (includeDeferred && t.deferDate !== null)
+  );
+
+  const stamp = formatICalDateTime(new Date().toISOString());
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ofocus//export-ical//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${escapeICalText(options.calendarName ?? "OmniFocus")}`,
+    ...tasks.flatMap((t) => buildTaskComponent(t, component, stamp)),
+    "END:VCALENDAR",
+  ];
+
+  return success({
+    content: lines.map(foldICalLine).join("\r\n") + "\r\n",
+    component,
+    taskCount: tasks.length,
+    repeatingCount: tasks.filter((t) => t.repetitionRule !== null).length,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+/**
+ * Options for importing iCalendar content.
+ *
+ * @public
+ */
+export interface ICalImportOptions {
+  /** Project (by name) for new tasks. New tasks go to the inbox when omitted. */
+  project?: string | undefined;
+  /** Also turn VEVENTs into tasks due when the event starts. */
+  includeEvents?: boolean | undefined;
+  /**
+   * Import only VEVENTs whose summary or categories contain this text
+   * (case-insensitive). Implies `includeEvents`.
+   */
+  eventFilter?: string | undefined;
+  /** Prefix for the names of tasks created from VEVENTs, e.g. `Prep: `. */
+  eventPrefix?: string | undefined;
+}
+
+/**
+ * Result of an iCalendar import.
+ *
+ * @public
+ */
+export interface ICalImportResult {
+  tasksCreated: number;
+  /** Tasks re-imported by UID and updated in place. */
+  tasksUpdated: number;
+  /**
+   * Entries not imported: completed or cancelled to-dos, unselected events,
+   * recurrence overrides, and UIDs whose task has since been completed or
+   * dropped.
+   */
+  skipped: number;
+  errors: string[];
+  /** Entries imported only in part, e.g. without an unsupported RRULE. */
+  warnings: string[];
+}
+
+/**
+ * On-disk map from calendar UIDs to the tasks imported from them.
+ */
+interface ICalImportFile {
+  version: 1;
+  tasks: Record<string, string>;
+}
+
+/**
+ * One VTODO or VEVENT turned into task fields.
+ */
+interface ICalEntry {
+  uid: string | null;
+  name: string;
+  note: string | null;
+  /** Due and defer dates as accepted by `toOmniJSDate`. */
+  due: string | null;
+  defer: string | null;
+  estimate: number | null;
+  tags: string[];
+  flagged: boolean;
+  repeat: RepetitionRule | null;
+}
+
+/**
+ * Entries parsed from an iCalendar document.
+ */
+interface ParsedICal {
+  entries: ICalEntry[];
+  skipped: number;
+  warnings: string[];
+}
+
+/**
+ * One content line: property name, parameters and raw value.
+ */
+interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Get the file that maps imported calendar UIDs to task IDs.
+ *
+ * @public
+ */
+export function getICalImportsPath(): string {
+  return path.join(os.homedir(), ".config", "ofocus", "ical-imports.json");
+}
+
+/**
+ * Read the UID map, returning an empty one if nothing has been imported yet,
+ * or an error naming the file if it isn't valid JSON.
+ */
+function readICalImports(): ICalImportFile | CliError {
+  const filePath = getICalImportsPath();
+  if (!fs.existsSync(filePath)) {
+    return { version: 1, tasks: {} };
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as ICalImportFile;
+  } catch (err) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid iCalendar import file ${filePath}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/**
+ * Persist the UID map.
+ */
+function writeICalImports(file: ICalImportFile): void {
+  const filePath = getICalImportsPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2), "utf-8");
+}
+
+/**
+ * Unescape a TEXT property value (RFC 5545 §3.3.11).
+ */
+function unescapeICalText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, c: string) =>
+    c === "n" || c === "N" ? "\n" : c
+  );
+}
+
+/**
+ * Split a content line into name, parameters and value. Returns `null` for
+ * lines that aren't properties.
+ */
+function parseICalProperty(line: string): ICalProperty | null {
+  const match =
+    /^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^";:]*)(?:,(?:"[^"]*"|[^";:,]*))*)*):(.*)$/.exec(
+      line
+    );
+  if (match === null) return null;
+  const params: Record<string, string> = {};
+  for (const param of (match[2] ?? "").split(";").slice(1)) {
+    const [key = "", value = ""] = param.split("=", 2);
+    params[key.toUpperCase()] = value.replace(/^"|"$/g, "");
+  }
+  return {
+    name: (match[1] ?? "").toUpperCase(),
+    params,
+    value: match[3] ?? "",
+  };
+}
+
+/**
+ * Convert a DATE or DATE-TIME value (RFC 5545 §3.3.4–5) to a string for
+ * `toOmniJSDate`: dates and floating times stay local, UTC times keep their
+ * `Z`, and times with a `TZID` are converted to UTC.
+ */
+function parseICalDate(property: ICalProperty): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    property.value.trim()
+  );
+  if (match === null) return null;
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const date = `${year ?? ""}-${month ?? ""}-${day ?? ""}`;
+  if (hours === undefined || property.params["VALUE"] === "DATE") return date;
+
+  const wallTime = `${date}T${hours}:${minutes ?? "00"}:${seconds ?? "00"}`;
+  if (utc !== undefined) return `${wallTime}Z`;
+  const timeZone = property.params["TZID"];
+  return timeZone !== undefined
+    ? (zonedTimeToUtc(wallTime, timeZone) ?? wallTime)
+    : wallTime;
+}
+
+/**
+ * Convert a DURATION value (RFC 5545 §3.3.6) to whole minutes.
+ */
+function parseICalDuration(value: string): number | null {
+  const match =
+    /^\+?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(
+      value.trim()
+    );
+  if (match === null || value.trim() === "P") return null;
+  const part = (index: number): number => parseInt(match[index] ?? "0", 10);
+  return Math.round(
+    (part(1) * 7 + part(2)) * 1440 + part(3) * 60 + part(4) + part(5) / 60
+  );
+}
+
+/**
+ * Parse iCalendar content into the tasks an import would create or update.
+ *
+ * VTODOs map DUE → due date, DTSTART → defer date and DURATION → estimate;
+ * selected VEVENTs become tasks due when the event starts. CATEGORIES become
+ * tags, PRIORITY 1–4 flags the task, and RRULE becomes a repetition rule if
+ * it's one the SDK models and passes `validateRepetitionRule`.
+ */
+function parseICal(content: string, options: ICalImportOptions): ParsedICal {
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const includeEvents =
+    options.includeEvents === true || options.eventFilter !== undefined;
+  const filter = options.eventFilter?.toLowerCase();
+
+  const entries: ICalEntry[] = [];
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+  let skipped = 0;
+
+  // Properties of the VTODO/VEVENT being read; nested components such as
+  // VALARM are ignored.
+  const stack: string[] = [];
+  let props: ICalProperty[] = [];
+
+  const finish = (kind: string): void => {
+    const get = (name: string): ICalProperty | undefined =>
+      props.find((p) => p.name === name);
+    const text = (name: string): string | null => {
+      const prop = get(name);
+      return prop === undefined ? null : unescapeICalText(prop.value);
+    };
+    const uid = text("UID");
+    const summary = text("SUMMARY") ?? "";
+    const tags = props
+      .filter((p) => p.name === "CATEGORIES")
+      .flatMap((p) => p.value.split(/(?<!\\),/))
+      .map((t) => unescapeICalText(t).trim())
+      .filter((t) => t !== "");
+    const status = text("STATUS")?.toUpperCase();
+
+    if (
+      get("RECURRENCE-ID") !== undefined ||
+      (uid !== null && seen.has(uid)) ||
+      status === "CANCELLED" ||
+      status === "COMPLETED" ||
+      get("COMPLETED") !== undefined
+    ) {
+      skipped++;
+      return;
+    }
+    if (kind === "VEVENT") {
+      const matches =
+        filter === undefined ||
+        [summary, ...tags].some((v) => v.toLowerCase().includes(filter));
+      if (!includeEvents || !matches) {
+        skipped++;
+        return;
+      }
+    }
+    if (uid !== null) seen.add(uid);
+
+    const label = uid ?? summary;
+    const date = (name: string): string | null => {
+      const prop = get(name);
+      if (prop === undefined) return null;
+      const parsed = parseICalDate(prop);
+      if (parsed === null) {
+        warnings.push(`${label}: ignored invalid ${name} ${prop.value}`);
+      }
+      return parsed;
+    };
+
+    let repeat: RepetitionRule | null = null;
+    const rrule = get("RRULE");
+    if (rrule !== undefined) {
+      repeat = parseRRule(rrule.value, "scheduled");
+      if (repeat === null || validateRepetitionRule(repeat) !== null) {
+        warnings.push(
+          `${label}: imported without repetition, unsupported RRULE ${rrule.value}`
+        );
+        repeat = null;
+      }
+    }
+
+    const priority = parseInt(text("PRIORITY") ?? "0", 10);
+    const duration = get("DURATION");
+    entries.push({
+      uid,
+      name:
+        kind === "VEVENT" ? `${options.eventPrefix ?? ""}${summary}` : summary,
+      note: text("DESCRIPTION"),
+      due: kind === "VEVENT" ? date("DTSTART") : date("DUE"),
+      defer: kind === "VEVENT" ? null : date("DTSTART"),
+      estimate:
+        kind === "VEVENT" || duration === undefined
+          ? null
+          : parseICalDuration(duration.value),
+      tags,
+      flagged: priority >= 1 && priority <= 4,
+      repeat,
+    });
+  };
+
+  for (const line of lines) {
+    const prop = parseICalProperty(line);
+    if (prop === null) continue;
+    if (prop.name === "BEGIN") {
+      stack.push(prop.value.toUpperCase());
+      if (/^V(TODO|EVENT)$/.test(prop.value.toUpperCase())) props = [];
+    } else if (prop.name === "END") {
+      const kind = stack.pop();
+      if (kind === "VTODO" || kind === "VEVENT") finish(kind);
+    } else if (/^V(TODO|EVENT)$/.test(stack[stack.length - 1] ?? "")) {
+      props.push(prop);
+    }
+  }
+
+  return { entries, skipped, warnings };
+}
+
+/**
+ * A timed calendar event that blocks time, as read by {@link parseICalBusy}.
+ *
+ * @public
+ */
+export interface ICalBusyBlock {
+  /** The event's SUMMARY, or an empty string. */
+  summary: string;
+  /** Start, as a UTC ISO timestamp. */
+  start: string;
+  /** End, as a UTC ISO timestamp. */
+  end: string;
+}
+
+/**
+ * Read the busy blocks from iCalendar content: every timed VEVENT, ending at
+ * DTEND or after its DURATION, in start order. All-day, transparent
+ * (`TRANSP:TRANSPARENT`), cancelled and zero-length events are skipped, and
+ * floating times are read in the local time zone. Recurring events block
+ * only the occurrence at DTSTART.
+ *
+ * @public
+ */
+export function parseICalBusy(content: string): ICalBusyBlock[] {
+  const lines = content.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const blocks: ICalBusyBlock[] = [];
+  const stack: string[] = [];
+  let props: ICalProperty[] = [];
+
+  const toIso = (prop: ICalProperty | undefined): string | null => {
+    if (prop === undefined || prop.params["VALUE"] === "DATE") return null;
+    const parsed = parseICalDate(prop);
+    // Date-only values carry no time of day.
+    if (parsed?.includes("T") !== true) return null;
+    const ms = Date.parse(parsed);
+    return Number.isNaN(ms) ? null : new Date(ms).toISOString();
+  };
+
+  const finish = (): void => {
+    const get = (name: string): ICalProperty | undefined =>
+      props.find((p) => p.name === name);
+    if (
+      get("TRANSP")?.value.toUpperCase() === "TRANSPARENT" ||
+      get("STATUS")?.value.toUpperCase() === "CANCELLED"
+    ) {
+      return;
+    }
+    const start = toIso(get("DTSTART"));
+    if (start === null) return;
+    let end = toIso(get("DTEND"));
+    const duration = get("DURATION");
+    if (end === null && duration !== undefined) {
+      const minutes = parseICalDuration(duration.value);
+      if (minutes !== null) {
+        end = new Date(Date.parse(start) + minutes * 60_000).toISOString();
+      }
+    }
+    if (end === null || end <= start) return;
+    const summary = get("SUMMARY");
+    blocks.push({
+      summary: summary === undefined ? "" : unescapeICalText(summary.value),
+      start,
+      end,
+    });
+  };
+
+  for (const line of lines) {
+    const prop = parseICalProperty(line);
+    if (prop === null) continue;
+    if (prop.name === "BEGIN") {
+      stack.push(prop.value.toUpperCase());
+      if (prop.value.toUpperCase() === "VEVENT") props = [];
+    } else if (prop.name === "END") {
+      if (stack.pop() === "VEVENT") finish();
+    } else if (stack[stack.length - 1] === "VEVENT") {
+      props.push(prop);
+    }
+  }
+
+  return blocks.sort((a, b) => a.start.localeCompare(b.start));
+}
+
+/**
+ * OmniJS expression for an entry's repetition rule, or `null`.
+ */
+function entryRuleExpr(entry: ICalEntry): string {
+  return entry.repeat === null
+    ? "null"
+    : `new Task.RepetitionRule("${escapeJSString(buildRRule(entry.repeat))}", ${repeatMethodToOmniJS(entry.repeat.repeatMethod)})`;
+}
+
+/**
+ * OmniJS expression for an entry's date, or `null`.
+ */
+function entryDateExpr(date: string | null): string {
+  return date === null ? "null" : toOmniJSDate(date);
+}
+
+/**
+ * OmniJS statements that look up the import target into `target`: the named
+ * project, or the inbox.
+ */
+function targetStatements(project: string | undefined): string {
+  return project === undefined
+    ? `var target = inbox.ending;`
+    : `
+var targetProject = flattenedProjects.byName("${escapeJSString(project)}");
+if (!targetProject) {
+  throw new Error("Project not found: ${escapeJSString(project)}");
+}
+var target = targetProject.task.ending;`;
+}
+
+/**
+ * OmniJS statements that find the task previously imported from an entry's
+ * UID into `existing` (or `null`), and set `closed` when it has since been
+ * completed or dropped.
+ */
+function existingStatements(entry: ICalEntry, file: ICalImportFile): string {
+  const taskId = entry.uid === null ? undefined : file.tasks[entry.uid];
+  return `
+  var existing = ${taskId === undefined ? "null" : `Task.byIdentifier("${escapeJSString(taskId)}")`};
+  var closed = existing !== null && (existing.taskStatus === Task.Status.Completed || existing.taskStatus === Task.Status.Dropped);`;
+}
+
+/**
+ * Import tasks from iCalendar content.
+ *
+ * Each VTODO — and each selected VEVENT — becomes a task in `project` or the
+ * inbox. Tasks are remembered by the entry's UID in
+ * `~/.config/ofocus/ical-imports.json`, so importing the same calendar again
+ * updates those tasks instead of creating duplicates: name, dates, estimate
+ * and repetition follow the calendar, while flags, tags and notes are only
+ * added. Tasks completed or dropped since the last import are left alone.
+ * Tags that don't exist are skipped with a warning.
+ *
+ * @public
+ */
+export async function importICal(
+  content: string,
+  options: ICalImportOptions = {}
+): Promise<CliOutput<ICalImportResult>> {
+  const parsed = parseICal(content, options);
+  const file = readICalImports();
+  if ("code" in file) return failure(file);
+
+  const scriptParts = [
+    targetStatements(options.project),
+    `var results = [];`,
+    `var errors = [];`,
+    `var warnings = [];`,
+  ];
+  parsed.entries.forEach((entry, index) => {
+    scriptParts.push(`
+try {${existingStatements(entry, file)}
+  if (closed) {
+    results.push({ index: ${String(index)}, action: "skipped" });
+  } else {
+    var t = existing;
+    if (t === null) {
+      t = new Task("${escapeJSString(entry.name)}", target);
+    } else {
+      t.name = "${escapeJSString(entry.name)}";
+    }
+    ${entry.note !== null ? `t.note = "${escapeJSString(entry.note)}";` : ""}
+    ${entry.flagged ? "t.flagged = true;" : ""}
+    t.dueDate = ${entryDateExpr(entry.due)};
+    t.deferDate = ${entryDateExpr(entry.defer)};
+    t.estimatedMinutes = ${entry.estimate === null ? "null" : String(entry.estimate)};
+    t.repetitionRule = ${entryRuleExpr(entry)};
+    ${JSON.stringify(entry.tags)}.forEach(function(name) {
+      var tag = flattenedTags.byName(name);
+      if (tag) { t.addTag(tag); } else { warnings.push("Tag not found, skipped: " + name); }
+    });
+    results.push({ index: ${String(index)}, action: existing === null ? "created" : "updated", id: t.id.primaryKey });
+  }
+} catch (e) {
+  errors.push("Failed to import \\"${escapeJSString(entry.name)}\\": " + String(e));
+}`);
+  });
+  scriptParts.push(
+    `return JSON.stringify({ results: results, errors: errors, warnings: warnings });`
+  );
+
+  const result = await runOmniJSWrapped<{
+    results: {
+      index: number;
+      action: "created" | "updated" | "skipped";
+      id?: string;
+    }[];
+    errors: string[];
+    warnings: string[];
+  }>(scriptParts.join("\n"));
+
+  if (!result.success) {
+    return failure(
+      result.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to import iCalendar")
+    );
+  }
+  if (result.data === undefined) {
+    return failure(
+      createError(ErrorCode.UNKNOWN_ERROR, "No import result returned")
+    );
+  }
+
+  const count = (action: string): number =>
+    result.data?.results.filter((r) => r.action === action).length ?? 0;
+  for (const r of result.data.results) {
+    const uid = parsed.entries[r.index]?.uid;
+    if (uid !== null && uid !== undefined && r.id !== undefined) {
+      file.tasks[uid] = r.id;
+    }
+  }
+  writeICalImports(file);
+
+  return success({
+    tasksCreated: count("created"),
+    tasksUpdated: count("updated"),
+    skipped: parsed.skipped + count("skipped"),
+    errors: result.data.errors,
+    warnings: [...parsed.warnings, ...new Set(result.data.warnings)],
+  });
+}
+
+/**
+ * Preview {@link importICal}: the tasks it would create and the fields it
+ * would change on tasks imported before.
+ */
+async function planImportICal(
+  content: string,
+  options: ICalImportOptions = {}
+): Promise<CliOutput<DryRunPlan>> {
+  const parsed = parseICal(content, options);
+  const file = readICalImports();
+  if ("code" in file) return failure(file);
+
+  const scriptParts = [targetStatements(options.project)];
+  for (const warning of parsed.warnings) {
+    scriptParts.push(`__planWarn("${escapeJSString(warning)}");`);
+  }
+  for (const entry of parsed.entries) {
+    scriptParts.push(`
+(function() {${existingStatements(entry, file)}
+  if (closed) { return; }
+  var before = existing === null ? {} : __taskState(existing);
+  var after = __planCopy(before);
+  after.name = "${escapeJSString(entry.name)}";
+  if (existing === null) {
+    after.project = ${options.project === undefined ? "null" : "targetProject.name"};
+  }
+  ${entry.note !== null ? `after.note = "${escapeJSString(entry.note)}";` : ""}
+  ${entry.flagged ? "after.flagged = true;" : ""}
+  after.dueDate = ${entryDateExpr(entry.due)};
+  after.deferDate = ${entryDateExpr(entry.defer)};
+  after.estimatedMinutes = ${entry.estimate === null ? "null" : String(entry.estimate)};
+  after.repetitionRule = __planRule(${entryRuleExpr(entry)});
+  var tags = __planTags(${JSON.stringify(entry.tags)});
+  after.tags = (before.tags || []).concat(tags.filter(function(name) {
+    return (before.tags || []).indexOf(name) === -1;
+  }));
+  __planChange(existing === null ? "create" : "update", "task", existing === null ? null : existing.id.primaryKey, after.name, before, after);
+})();`);
+  }
+
+  return runPlanScript("importICal", scriptParts.join("\n"));
+}
+
+// ---------------------------------------------------------------------------
+// Centralized descriptors
+// ---------------------------------------------------------------------------
+
+/**
+ * Centralized descriptor for the `export-ical` command.
+ *
+ * Drives CLI subcommand `export-ical` and MCP tool `export_ical`.
+ *
+ * @public
+ */
+export const exportICalDescriptor = defineCommand({
+  name: "exportICal",
+  cliName: "export-ical",
+  mcpName: "export_ical",
+  description:
+    "Export open tasks with due dates as an iCalendar (.ics) feed of VTODO or VEVENT entries, with defer dates as start times, estimates as durations and repeating tasks as RRULEs",
+  inputSchema: z.object({
+    component: z
+      .enum(["vtodo", "vevent"])
+      .optional()
+      .describe(
+        "Emit tasks as vtodo (default; defer → DTSTART, due → DUE) or vevent (starts at the due date, lasting the estimate)"
+      ),
+    days: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe(
+        "Export the forecast for the next N days instead of every dated task"
+      ),
+    includeDeferred: z
+      .boolean()
+      .optional()
+      .describe("Also export tasks that only have a defer date"),
+    project: z
+      .string()
+      .optional()
+      .describe("Export only tasks in this project (name or ID)"),
+    tag: z.string().optional().describe("Export only tasks with this tag"),
+    where: z
+      .string()
+      .optional()
+      .describe(
+        "Filter expression as for the tasks command, e.g. `flagged and due < +14d`"
+      ),
+    calendarName: z
+      .string()
+      .optional()
+      .describe("Calendar name shown by calendar apps (default: OmniFocus)"),
+  }),
+  handler: async (input) =>
+    exportICal({
+      component: input.component,
+      days: input.days,
+      includeDeferred: input.includeDeferred,
+      project: input.project,
+      tag: input.tag,
+      where: input.where,
+      calendarName: input.calendarName,
+    }),
+});
+
+/**
+ * Centralized descriptor for the `import-ical` command.
+ *
+ * Drives MCP tool `import_ical`, which takes the calendar content directly.
+ * The CLI `import-ical` command is hand-wired to read a `.ics` file and pass
+ * its contents to this descriptor's handler.
+ *
+ * @public
+ */
+export const importICalDescriptor = defineCommand({
+  name: "importICal",
+  cliName: "import-ical",
+  mcpName: "import_ical",
+  description:
+    "Import tasks from iCalendar (.ics) content: VTODOs and selected VEVENTs become tasks (DUE → due, DTSTART → defer, CATEGORIES → tags, RRULE → repetition). Re-importing updates the tasks created from the same UIDs instead of duplicating them",
+  inputSchema: z.object({
+    content: z.string().describe("iCalendar content to import"),
+    project: z
+      .string()
+      .optional()
+      .describe("Project (by name) for new tasks; the inbox when omitted"),
+    includeEvents: z
+      .boolean()
+      .optional()
+      .describe("Also turn VEVENTs into tasks due when the event starts"),
+    eventFilter: z
+      .string()
+      .optional()
+      .describe(
+        "Import only VEVENTs whose summary or categories contain this text (case-insensitive); implies includeEvents"
+      ),
+    eventPrefix: z
+      .string()
+      .optional()
+      .describe('Prefix for task names created from VEVENTs, e.g. "Prep: "'),
+    ...dryRunSchema,
+  }),
+  handler: async (input): Promise<CliOutput<ICalImportResult | DryRunPlan>> => {
+    const options: ICalImportOptions = {
+      project: input.project,
+      includeEvents: input.includeEvents,
+      eventFilter: input.eventFilter,
+      eventPrefix: input.eventPrefix,
+    };
+    return input.dryRun === true
+      ? planImportICal(input.content, options)
+      : importICal(input.content, options);
+  },
+});
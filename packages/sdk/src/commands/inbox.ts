@@ -1,5 +1,5 @@
 import { z } from "zod";
-import type { CliOutput, InboxOptions, OFTask } from "../types.js";
+import type { CliOutput, CliError, InboxOptions, OFTask } from "../types.js";
 import { success, failure } from "../result.js";
 import { ErrorCode, createError } from "../errors.js";
 import {
@@ -12,33 +12,85 @@ import { escapeJSString, toOmniJSDate, runOmniJSWrapped } from "../omnijs.js";
 import { buildRRule, repeatMethodToOmniJS } from "./repetition.js";
 import { sanitizeVarName } from "../utils/sanitize.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
- * Add a task to the OmniFocus inbox.
+ * Validate the options shared by the task-creating commands.
  */
-export async function addToInbox(
-  title: string,
-  options: InboxOptions = {}
-): Promise<CliOutput<OFTask>> {
-  // Validate inputs
+export function validateNewTaskOptions(options: InboxOptions): CliError | null {
   if (options.due !== undefined) {
     const dueError = validateDateString(options.due);
-    if (dueError) return failure(dueError);
+    if (dueError) return dueError;
   }
 
   if (options.defer !== undefined) {
     const deferError = validateDateString(options.defer);
-    if (deferError) return failure(deferError);
+    if (deferError) return deferError;
   }
 
-  const tagsError = validateTags(options.tags);
-  if (tagsError) return failure(tagsError);
+  return (
+    validateTags(options.tags) ??
+    validateEstimatedMinutes(options.estimatedMinutes) ??
+    validateRepetitionRule(options.repeat)
+  );
+}
 
-  const estimateError = validateEstimatedMinutes(options.estimatedMinutes);
-  if (estimateError) return failure(estimateError);
+/**
+ * Build planning-script statements that set the requested attributes on
+ * `after`, the would-be state of a new task.
+ */
+export function newTaskPlanStatements(options: InboxOptions): string[] {
+  const parts: string[] = [];
 
-  const repeatError = validateRepetitionRule(options.repeat);
-  if (repeatError) return failure(repeatError);
+  if (options.note !== undefined) {
+    parts.push(`after.note = "${escapeJSString(options.note)}";`);
+  }
+
+  if (options.flag === true) {
+    parts.push(`after.flagged = true;`);
+  }
+
+  if (options.due !== undefined) {
+    parts.push(`after.dueDate = ${toOmniJSDate(options.due)};`);
+  }
+
+  if (options.defer !== undefined) {
+    parts.push(`after.deferDate = ${toOmniJSDate(options.defer)};`);
+  }
+
+  if (options.estimatedMinutes !== undefined) {
+    parts.push(`after.estimatedMinutes = ${String(options.estimatedMinutes)};`);
+  }
+
+  if (options.tags && options.tags.length > 0) {
+    parts.push(`after.tags = __planTags(${JSON.stringify(options.tags)});`);
+  }
+
+  if (options.repeat) {
+    const rrule = buildRRule(options.repeat);
+    const method = repeatMethodToOmniJS(options.repeat.repeatMethod);
+    parts.push(
+      `after.repetitionRule = __planRule(new Task.RepetitionRule("${escapeJSString(rrule)}", ${method}));`
+    );
+  }
+
+  return parts;
+}
+
+/**
+ * Add a task to the OmniFocus inbox.
+ */
+export async function addToInbox(
+  title: string,
+  options: InboxOptions = {}
+): Promise<CliOutput<OFTask>> {
+  // Validate inputs
+  const optionsError = validateNewTaskOptions(options);
+  if (optionsError) return failure(optionsError);
 
   // Build the OmniJS script
   const scriptParts: string[] = [];
@@ -126,6 +178,29 @@ return JSON.stringify({
   return success(result.data);
 }
 
+/**
+ * Preview {@link addToInbox}: the task that would be created.
+ *
+ * `command` names the previewed command in the plan (quick capture reuses
+ * this preview).
+ */
+export async function planAddToInbox(
+  title: string,
+  options: InboxOptions = {},
+  command = "addToInbox"
+): Promise<CliOutput<DryRunPlan>> {
+  const optionsError = validateNewTaskOptions(options);
+  if (optionsError) return failure(optionsError);
+
+  const body = [
+    `var after = { name: "${escapeJSString(title)}" };`,
+    ...newTaskPlanStatements(options),
+    `__planChange("create", "task", null, after.name, {}, after);`,
+  ].join("\n");
+
+  return runPlanScript(command, body);
+}
+
 /**
  * Centralized descriptor for the inbox-add command.
  *
@@ -188,8 +263,9 @@ export const addToInboxDescriptor = defineCommand({
       .max(31)
       .optional()
       .describe("Day of month for monthly repeats"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => {
+  handler: async (input): Promise<CliOutput<OFTask | DryRunPlan>> => {
     const repeat: InboxOptions["repeat"] =
       input.repeatFrequency !== undefined
         ? {
@@ -200,7 +276,7 @@ export const addToInboxDescriptor = defineCommand({
             dayOfMonth: input.repeatDayOfMonth,
           }
         : undefined;
-    return addToInbox(input.title, {
+    const options: InboxOptions = {
       note: input.note,
       due: input.due,
       defer: input.defer,
@@ -208,6 +284,9 @@ export const addToInboxDescriptor = defineCommand({
       tags: input.tags,
       estimatedMinutes: input.estimatedMinutes,
       repeat,
-    });
+    };
+    return input.dryRun === true
+      ? planAddToInbox(input.title, options)
+      : addToInbox(input.title, options);
   },
 });
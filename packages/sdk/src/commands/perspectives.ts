@@ -5,6 +5,10 @@ import { ErrorCode, createError } from "../errors.js";
 import { validateSearchQuery } from "../validation.js";
 import { escapeJSString, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  readableVirtualPerspectives,
+  runVirtualPerspective,
+} from "./virtual-perspectives.js";
 
 /**
  * Options for querying a perspective.
@@ -91,14 +95,17 @@ function taskSerializerSnippet(taskVar: string): string {
 // ---------------------------------------------------------------------------
 
 /**
- * List all perspectives in OmniFocus (both built-in and custom).
+ * List all perspectives in OmniFocus (both built-in and custom), followed by
+ * the locally defined virtual perspectives. Virtual perspective files that
+ * can't be read are left out rather than failing the list.
  *
  * Each entry includes:
  * - `id`   — for built-in perspectives this is the localized name used as a
  *            stable string key; for custom perspectives this is the UUID
- *            string returned by `Perspective.Custom#identifier`.
+ *            string returned by `Perspective.Custom#identifier`; for virtual
+ *            perspectives it is the name.
  * - `name` — the display name shown in OmniFocus.
- * - `kind` — `"builtin"` or `"custom"`.
+ * - `kind` — `"builtin"`, `"custom"` or `"virtual"`.
  *
  * OmniJS API used:
  * - `Perspective.BuiltIn.all` — array of all built-in perspective singletons.
@@ -129,7 +136,16 @@ return JSON.stringify(results);`;
     );
   }
 
-  return success(result.data ?? []);
+  return success([
+    ...(result.data ?? []),
+    ...readableVirtualPerspectives().map(
+      (p): OFPerspective => ({
+        id: p.name,
+        name: p.name,
+        kind: "virtual",
+      })
+    ),
+  ]);
 }
 
 // ---------------------------------------------------------------------------
@@ -147,6 +163,10 @@ return JSON.stringify(results);`;
  * perspective is restored in a `try/finally` so the user's window state is
  * preserved regardless of errors.
  *
+ * A virtual perspective (see `saveVirtualPerspective`) of the same name takes
+ * precedence: its rules run as a task query instead, returning tasks in the
+ * same shape, ordered group by group when the perspective groups.
+ *
  * OmniJS API used:
  * - `Perspective.BuiltIn.all`       — look up built-in by name.
  * - `Perspective.Custom.byName()`   — look up custom perspective by name.
@@ -169,6 +189,10 @@ export async function queryPerspective(
   }
 
   const limit = options.limit ?? 100;
+
+  const virtual = await runVirtualPerspective(name, limit);
+  if (virtual !== null) return virtual;
+
   const escapedName = escapeJSString(name);
 
   const body = `
@@ -462,7 +486,8 @@ export const queryPerspectiveDescriptor = defineCommand({
   name: "queryPerspective",
   cliName: "perspective",
   mcpName: "perspective_query",
-  description: "Query tasks from a specific perspective",
+  description:
+    "Query tasks from a specific perspective (built-in, custom or virtual)",
   cliPositional: ["name"] as const,
   inputSchema: z.object({
     name: z.string().describe("Perspective name"),
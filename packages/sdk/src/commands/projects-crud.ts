@@ -1,5 +1,10 @@
 import { z } from "zod";
-import type { CliOutput, OFProject, UpdateProjectOptions } from "../types.js";
+import type {
+  CliOutput,
+  CliError,
+  OFProject,
+  UpdateProjectOptions,
+} from "../types.js";
 import { success, failure } from "../result.js";
 import { ErrorCode, createError } from "../errors.js";
 import {
@@ -9,6 +14,11 @@ import {
 } from "../validation.js";
 import { escapeJSString, toOmniJSDate, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Result from deleting a project.
@@ -60,32 +70,45 @@ return JSON.stringify({
 }
 
 /**
- * Update an existing project in OmniFocus.
+ * Validate the inputs of {@link updateProject}.
  */
-export async function updateProject(
+function validateUpdateProjectInput(
   projectId: string,
   options: UpdateProjectOptions
-): Promise<CliOutput<OFProject>> {
+): CliError | null {
   // Validate project ID
   const idError = validateId(projectId, "project");
-  if (idError) return failure(idError);
+  if (idError) return idError;
 
   // Validate optional inputs
   if (options.name !== undefined) {
     const nameError = validateProjectName(options.name);
-    if (nameError) return failure(nameError);
+    if (nameError) return nameError;
   }
 
   if (options.folderId !== undefined) {
     const folderIdError = validateId(options.folderId, "folder");
-    if (folderIdError) return failure(folderIdError);
+    if (folderIdError) return folderIdError;
   }
 
   if (options.folderName !== undefined) {
     const folderNameError = validateFolderName(options.folderName);
-    if (folderNameError) return failure(folderNameError);
+    if (folderNameError) return folderNameError;
   }
 
+  return null;
+}
+
+/**
+ * Update an existing project in OmniFocus.
+ */
+export async function updateProject(
+  projectId: string,
+  options: UpdateProjectOptions
+): Promise<CliOutput<OFProject>> {
+  const inputError = validateUpdateProjectInput(projectId, options);
+  if (inputError) return failure(inputError);
+
   // Build the OmniJS script
   const scriptParts: string[] = [];
 
@@ -275,6 +298,117 @@ return JSON.stringify({
   return success(result.data);
 }
 
+/**
+ * Planning-script statements that look up the project or throw.
+ */
+function findProjectStatements(projectId: string): string {
+  return `
+var theProject = Project.byIdentifier("${escapeJSString(projectId)}");
+if (!theProject) {
+  throw new Error("Project not found: ${escapeJSString(projectId)}");
+}`;
+}
+
+/**
+ * Preview {@link updateProject}: the project's changed fields.
+ */
+async function planUpdateProject(
+  projectId: string,
+  options: UpdateProjectOptions
+): Promise<CliOutput<DryRunPlan>> {
+  const inputError = validateUpdateProjectInput(projectId, options);
+  if (inputError) return failure(inputError);
+
+  const parts: string[] = [
+    findProjectStatements(projectId),
+    `var before = __projectState(theProject);`,
+    `var after = __planCopy(before);`,
+  ];
+
+  if (options.name !== undefined) {
+    parts.push(`after.name = "${escapeJSString(options.name)}";`);
+  }
+
+  if (options.note !== undefined) {
+    parts.push(`after.note = "${escapeJSString(options.note)}";`);
+  }
+
+  if (options.sequential !== undefined) {
+    parts.push(`after.sequential = ${String(options.sequential)};`);
+  }
+
+  if (options.status !== undefined) {
+    parts.push(`after.status = "${escapeJSString(options.status)}";`);
+  }
+
+  if (options.dueDate !== undefined) {
+    parts.push(
+      `after.dueDate = ${options.dueDate === "" ? "null" : toOmniJSDate(options.dueDate)};`
+    );
+  }
+
+  if (options.deferDate !== undefined) {
+    parts.push(
+      `after.deferDate = ${options.deferDate === "" ? "null" : toOmniJSDate(options.deferDate)};`
+    );
+  }
+
+  if (options.folderId !== undefined) {
+    parts.push(`
+var targetFolder = Folder.byIdentifier("${escapeJSString(options.folderId)}");
+if (!targetFolder) {
+  throw new Error("Folder not found: ${escapeJSString(options.folderId)}");
+}
+after.folder = targetFolder.name;`);
+  } else if (options.folderName !== undefined) {
+    parts.push(`
+var targetFolder = flattenedFolders.byName("${escapeJSString(options.folderName)}");
+if (!targetFolder) {
+  throw new Error("Folder not found: ${escapeJSString(options.folderName)}");
+}
+after.folder = targetFolder.name;`);
+  }
+
+  parts.push(
+    `__planChange("update", "project", theProject.id.primaryKey, theProject.name, before, after);`
+  );
+
+  return runPlanScript("updateProject", parts.join("\n"));
+}
+
+/**
+ * Preview {@link deleteProject}: the project and every task it would delete.
+ */
+async function planDeleteProject(
+  projectId: string
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(projectId, "project");
+  if (idError) return failure(idError);
+
+  const body = `${findProjectStatements(projectId)}
+__planDeleteProject(theProject);`;
+
+  return runPlanScript("deleteProject", body);
+}
+
+/**
+ * Preview {@link dropProject}: the project's status change.
+ */
+async function planDropProject(
+  projectId: string
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(projectId, "project");
+  if (idError) return failure(idError);
+
+  const body = `${findProjectStatements(projectId)}
+var before = __projectState(theProject);
+var after = __planCopy(before);
+after.status = "dropped";
+__planChange("update", "project", theProject.id.primaryKey, theProject.name, before, after);`;
+
+  return runPlanScript("dropProject", body);
+}
+
 /**
  * Centralized descriptor for the `update-project` command.
  *
@@ -310,9 +444,10 @@ export const updateProjectDescriptor = defineCommand({
       .string()
       .optional()
       .describe("New defer date (empty string to clear)"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    updateProject(input.projectId, {
+  handler: async (input): Promise<CliOutput<OFProject | DryRunPlan>> => {
+    const options: UpdateProjectOptions = {
       name: input.name,
       note: input.note,
       status: input.status,
@@ -321,7 +456,11 @@ export const updateProjectDescriptor = defineCommand({
       sequential: input.sequential,
       dueDate: input.dueDate,
       deferDate: input.deferDate,
-    }),
+    };
+    return input.dryRun === true
+      ? planUpdateProject(input.projectId, options)
+      : updateProject(input.projectId, options);
+  },
 });
 
 /**
@@ -339,8 +478,14 @@ export const deleteProjectDescriptor = defineCommand({
   cliPositional: ["projectId"],
   inputSchema: z.object({
     projectId: z.string().describe("The ID of the project to delete"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => deleteProject(input.projectId),
+  handler: async (
+    input
+  ): Promise<CliOutput<DeleteProjectResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planDeleteProject(input.projectId)
+      : deleteProject(input.projectId),
 });
 
 /**
@@ -359,6 +504,10 @@ export const dropProjectDescriptor = defineCommand({
   cliPositional: ["projectId"],
   inputSchema: z.object({
     projectId: z.string().describe("The ID of the project to drop"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => dropProject(input.projectId),
+  handler: async (input): Promise<CliOutput<DropProjectResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planDropProject(input.projectId)
+      : dropProject(input.projectId),
 });
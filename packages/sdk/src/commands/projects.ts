@@ -12,6 +12,7 @@ import {
   compileProjectPredicates,
   projectFieldSpec,
   projectGroupKeys,
+  resolveTimeZone,
   listProjectionSchema,
   listSortSchema,
   type QueryResult,
@@ -55,6 +56,10 @@ export async function queryProjects(
   );
   if (paginationError) return failure(paginationError);
 
+  // Calendar-day group keys such as dueBucket count days in this zone.
+  const timeZone = resolveTimeZone(options.timeZone);
+  if (typeof timeZone !== "string") return failure(timeZone);
+
   // Compile each phase. We collect ALL validation errors before returning so
   // the first one we report is the highest-priority. The order below matches
   // the order a user encounters problems: predicate first, then projection,
@@ -62,7 +67,7 @@ export async function queryProjects(
   const pred = compileProjectPredicates(options);
   const proj = compileProjection(projectFieldSpec, options);
   const sort = compileSort(projectFieldSpec, options);
-  const agg = compileAggregate(options, projectGroupKeys);
+  const agg = compileAggregate(options, projectGroupKeys, timeZone);
 
   const errors = [
     ...pred.validationErrors,
@@ -158,6 +163,7 @@ export const listProjectsDescriptor = defineCommand({
         "When true, return every matching item ignoring --limit/--offset. Mutually exclusive with --limit and --offset."
       ),
   }),
+  fieldSpec: projectFieldSpec,
   handler: async (input) =>
     queryProjects({
       folder: input.folder,
@@ -1,9 +1,16 @@
 import { z } from "zod";
-import type { CliOutput, OFTask, RepetitionRule } from "../types.js";
+import type {
+  CliOutput,
+  CliError,
+  InboxOptions,
+  OFTask,
+  RepetitionRule,
+} from "../types.js";
 import { failure } from "../result.js";
 import { ErrorCode, createError } from "../errors.js";
 import { defineCommand } from "../registry/define.js";
-import { addToInbox } from "./inbox.js";
+import { addToInbox, planAddToInbox } from "./inbox.js";
+import { dryRunSchema, type DryRunPlan } from "../dry-run/index.js";
 
 /**
  * Parsed result from quick capture input.
@@ -288,17 +295,16 @@ export function parseQuickInput(input: string): ParsedQuickInput {
 }
 
 /**
- * Quick capture - parse natural language input and add task to inbox.
+ * Parse quick capture input into the title and options passed to
+ * {@link addToInbox}.
  */
-export async function quickCapture(
+function toInboxArgs(
   input: string,
-  options: QuickOptions = {}
-): Promise<CliOutput<OFTask>> {
+  options: QuickOptions
+): { title: string; options: InboxOptions } | CliError {
   // Validate input
   if (!input || input.trim() === "") {
-    return failure(
-      createError(ErrorCode.VALIDATION_ERROR, "Input cannot be empty")
-    );
+    return createError(ErrorCode.VALIDATION_ERROR, "Input cannot be empty");
   }
 
   // Parse the input
@@ -306,21 +312,51 @@ export async function quickCapture(
 
   // Validate that we have a title
   if (!parsed.title) {
-    return failure(
-      createError(ErrorCode.VALIDATION_ERROR, "Task title cannot be empty")
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "Task title cannot be empty"
     );
   }
 
+  return {
+    title: parsed.title,
+    options: {
+      note: options.note ?? parsed.note ?? undefined,
+      due: parsed.due ?? undefined,
+      defer: parsed.defer ?? undefined,
+      flag: parsed.flagged,
+      tags: parsed.tags.length > 0 ? parsed.tags : undefined,
+      estimatedMinutes: parsed.estimatedMinutes ?? undefined,
+      repeat: parsed.repeat ?? undefined,
+    },
+  };
+}
+
+/**
+ * Quick capture - parse natural language input and add task to inbox.
+ */
+export async function quickCapture(
+  input: string,
+  options: QuickOptions = {}
+): Promise<CliOutput<OFTask>> {
+  const args = toInboxArgs(input, options);
+  if ("code" in args) return failure(args);
+
   // Add to inbox with parsed options
-  return addToInbox(parsed.title, {
-    note: options.note ?? parsed.note ?? undefined,
-    due: parsed.due ?? undefined,
-    defer: parsed.defer ?? undefined,
-    flag: parsed.flagged,
-    tags: parsed.tags.length > 0 ? parsed.tags : undefined,
-    estimatedMinutes: parsed.estimatedMinutes ?? undefined,
-    repeat: parsed.repeat ?? undefined,
-  });
+  return addToInbox(args.title, args.options);
+}
+
+/**
+ * Preview {@link quickCapture}: the task that would be added to the inbox.
+ */
+async function planQuickCapture(
+  input: string,
+  options: QuickOptions = {}
+): Promise<CliOutput<DryRunPlan>> {
+  const args = toInboxArgs(input, options);
+  if ("code" in args) return failure(args);
+
+  return planAddToInbox(args.title, args.options, "quickCapture");
 }
 
 /**
@@ -345,6 +381,10 @@ export const quickCaptureDescriptor = defineCommand({
         "Natural language input (e.g., 'Buy milk @errands #shopping due:tomorrow')"
       ),
     note: z.string().optional().describe("Additional note text to add"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => quickCapture(input.input, { note: input.note }),
+  handler: async (input): Promise<CliOutput<OFTask | DryRunPlan>> =>
+    input.dryRun === true
+      ? planQuickCapture(input.input, { note: input.note })
+      : quickCapture(input.input, { note: input.note }),
 });
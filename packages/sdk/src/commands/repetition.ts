@@ -7,10 +7,15 @@ import { z } from "zod";
 import type { RepetitionRule } from "../types.js";
 import type { CliOutput } from "../types.js";
 import { success, failure } from "../result.js";
-import { ErrorCode, createError } from "../errors.js";
+import { ErrorCode, createError, type CliError } from "../errors.js";
 import { validateId, validateRepetitionRule } from "../validation.js";
 import { escapeJSString, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /** Map from 0-indexed weekday (Sunday=0) to RFC 5545 day abbreviation. */
 const DAY_MAP: Record<number, string> = {
@@ -23,6 +28,43 @@ const DAY_MAP: Record<number, string> = {
   6: "SA",
 };
 
+/** RRULE `FREQ` values by {@link RepetitionRule} frequency. */
+const FREQ_MAP = {
+  secondly: "SECONDLY",
+  minutely: "MINUTELY",
+  hourly: "HOURLY",
+  daily: "DAILY",
+  weekly: "WEEKLY",
+  monthly: "MONTHLY",
+  yearly: "YEARLY",
+} as const;
+
+/**
+ * Format an `UNTIL`/`EXDATE` value: `YYYYMMDD` for an ISO date, a UTC
+ * DATE-TIME such as `20240115T170000Z` otherwise.
+ */
+function formatRRuleDate(iso: string): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(iso)) return iso.replace(/-/g, "");
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d+/, "");
+}
+
+/**
+ * Parse an `UNTIL`/`EXDATE` value (`YYYYMMDD` or `YYYYMMDDTHHMMSS[Z]`) into
+ * an ISO date or UTC date-time, or `null`. Floating times are read as UTC.
+ */
+function parseRRuleDate(value: string): string | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/i.exec(
+    value.trim()
+  );
+  if (match === null) return null;
+  const part = (i: number): number => Number(match[i] ?? 0);
+  const [y, mo, d] = [part(1), part(2), part(3)];
+  const date = new Date(Date.UTC(y, mo - 1, d, part(4), part(5), part(6)));
+  if (date.getUTCDate() !== d || date.getUTCMonth() !== mo - 1) return null;
+  const iso = date.toISOString();
+  return match[4] === undefined ? iso.slice(0, 10) : iso;
+}
+
 /**
  * Build an iCalendar RRULE string from a RepetitionRule.
  *
@@ -31,31 +73,37 @@ const DAY_MAP: Record<number, string> = {
  * The `repeatMethod` field is intentionally *not* encoded here — it maps
  * to the second constructor argument via {@link repeatMethodToOmniJS}.
  *
- * Supported RRULE combinations:
+ * Common RRULE combinations:
  * - FREQ=DAILY[;INTERVAL=N]
  * - FREQ=WEEKLY[;INTERVAL=N][;BYDAY=MO,WE,...]
  * - FREQ=MONTHLY[;INTERVAL=N][;BYMONTHDAY=15]
  * - FREQ=MONTHLY[;INTERVAL=N][;BYDAY=1MO,-1MO,...]  (Nth-weekday form)
  * - FREQ=YEARLY[;INTERVAL=N][;BYMONTH=3,6][;BYMONTHDAY=25]
  *
+ * The other parts follow in RFC order — BYYEARDAY, BYWEEKNO, BYHOUR,
+ * BYMINUTE, BYSECOND, BYSETPOS, WKST, then COUNT or UNTIL. `exceptDates`
+ * are not part of an RRULE and are left out; {@link applyRepetitionRule}
+ * rejects them rather than dropping them.
+ *
  * @see https://datatracker.ietf.org/doc/html/rfc5545#section-3.3.10
  */
 export function buildRRule(rule: RepetitionRule): string {
   const parts: string[] = [];
 
-  const freqMap = {
-    daily: "DAILY",
-    weekly: "WEEKLY",
-    monthly: "MONTHLY",
-    yearly: "YEARLY",
-  } as const;
-  parts.push(`FREQ=${freqMap[rule.frequency]}`);
+  parts.push(`FREQ=${FREQ_MAP[rule.frequency]}`);
 
   if (rule.interval > 1) {
     parts.push(`INTERVAL=${String(rule.interval)}`);
   }
 
-  if (rule.daysOfWeekPositions && rule.daysOfWeekPositions.length > 0) {
+  if (rule.weekdays && rule.weekdays.length > 0) {
+    // Free-form entries, as given.
+    const values = rule.weekdays.map(
+      (w) =>
+        `${w.position === undefined ? "" : String(w.position)}${DAY_MAP[w.day] ?? ""}`
+    );
+    parts.push(`BYDAY=${values.join(",")}`);
+  } else if (rule.daysOfWeekPositions && rule.daysOfWeekPositions.length > 0) {
     // Positional Nth-weekday form: cross-product of positions × days.
     // Positions are the outer loop so output is stable:
     //   [1,-1] × [MO,WE] → 1MO,1WE,-1MO,-1WE
@@ -90,11 +138,220 @@ export function buildRRule(rule: RepetitionRule): string {
 
   if (rule.dayOfMonth !== undefined) {
     parts.push(`BYMONTHDAY=${String(rule.dayOfMonth)}`);
+  } else if (rule.daysOfMonth && rule.daysOfMonth.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.daysOfMonth.join(",")}`);
+  }
+
+  const lists: [string, number[] | undefined][] = [
+    ["BYYEARDAY", rule.daysOfYear],
+    ["BYWEEKNO", rule.weeksOfYear],
+    ["BYHOUR", rule.hours],
+    ["BYMINUTE", rule.minutes],
+    ["BYSECOND", rule.seconds],
+    ["BYSETPOS", rule.setPositions],
+  ];
+  for (const [key, values] of lists) {
+    if (values && values.length > 0) parts.push(`${key}=${values.join(",")}`);
+  }
+
+  if (rule.weekStart !== undefined) {
+    parts.push(`WKST=${DAY_MAP[rule.weekStart] ?? ""}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${String(rule.count)}`);
+  }
+  if (rule.until !== undefined) {
+    parts.push(`UNTIL=${formatRRuleDate(rule.until)}`);
   }
 
   return parts.join(";");
 }
 
+/**
+ * Parse an iCalendar RRULE string into a RepetitionRule — the inverse of
+ * {@link buildRRule}. A leading `RRULE:` is accepted.
+ *
+ * Every RFC 5545 rule part is read. A `BYDAY` that is a full positions ×
+ * days cross-product becomes `daysOfWeek` (+ `daysOfWeekPositions`), any
+ * other becomes `weekdays`. A single positive `BYMONTHDAY` becomes
+ * `dayOfMonth`, anything else `daysOfMonth`. The input
+ * may also be a recurrence block of content lines (`RRULE:…`, `EXDATE:…`,
+ * `DTSTART:…`): EXDATE values become `exceptDates` and DTSTART is ignored.
+ *
+ * Returns `null` for a missing or unknown FREQ, unknown or repeated rule
+ * parts, and malformed values. The result is not range-checked; pass it to
+ * `validateRepetitionRule`.
+ *
+ * @param repeatMethod - Method for the result; RRULEs don't encode one.
+ *
+ * @public
+ */
+export function parseRRule(
+  rrule: string,
+  repeatMethod: RepetitionRule["repeatMethod"] = "scheduled"
+): RepetitionRule | null {
+  const freqMap = new Map<string, RepetitionRule["frequency"]>(
+    Object.entries(FREQ_MAP).map(([frequency, value]) => [
+      value,
+      frequency as RepetitionRule["frequency"],
+    ])
+  );
+  const dayMap = new Map(
+    Object.entries(DAY_MAP).map(([n, code]) => [code, Number(n)])
+  );
+  const integers = (value: string): number[] | null => {
+    const values = value.split(",").map((v) => v.trim());
+    return values.every((v) => /^[+-]?\d+$/.test(v))
+      ? values.map((v) => parseInt(v, 10))
+      : null;
+  };
+
+  // Split a recurrence block into the RRULE body and EXDATE values.
+  let body: string | null = null;
+  const exceptDates: string[] = [];
+  const lines = rrule.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  for (const rawLine of lines) {
+    const line = rawLine.trim();
+    if (line === "") continue;
+    const colon = line.indexOf(":");
+    if (colon === -1) {
+      if (body !== null) return null;
+      body = line;
+      continue;
+    }
+    const name = line.slice(0, colon).split(";")[0]?.toUpperCase();
+    const value = line.slice(colon + 1);
+    if (name === "RRULE") {
+      if (body !== null) return null;
+      body = value;
+    } else if (name === "EXDATE") {
+      for (const item of value.split(",")) {
+        const date = parseRRuleDate(item);
+        if (date === null) return null;
+        exceptDates.push(date);
+      }
+    } else if (name !== "DTSTART") {
+      return null;
+    }
+  }
+  if (body === null) return null;
+
+  let frequency: RepetitionRule["frequency"] | undefined;
+  let interval = 1;
+  const rule: Omit<RepetitionRule, "frequency" | "interval"> = {
+    repeatMethod,
+  };
+  const listKeys = {
+    BYMONTH: "monthsOfYear",
+    BYYEARDAY: "daysOfYear",
+    BYWEEKNO: "weeksOfYear",
+    BYHOUR: "hours",
+    BYMINUTE: "minutes",
+    BYSECOND: "seconds",
+    BYSETPOS: "setPositions",
+  } as const;
+
+  const seenKeys = new Set<string>();
+  for (const part of body.split(";")) {
+    if (part.trim() === "") continue;
+    const [rawKey = "", value = ""] = part.split("=", 2);
+    const key = rawKey.trim().toUpperCase();
+    // RFC 5545: each rule part MUST NOT occur more than once.
+    if (seenKeys.has(key)) return null;
+    seenKeys.add(key);
+    switch (key) {
+      case "FREQ":
+        frequency = freqMap.get(value.trim().toUpperCase());
+        if (frequency === undefined) return null;
+        break;
+      case "INTERVAL": {
+        const values = integers(value);
+        if (values?.length !== 1) return null;
+        interval = values[0] ?? 1;
+        break;
+      }
+      case "COUNT": {
+        const values = integers(value);
+        if (values?.length !== 1) return null;
+        rule.count = values[0];
+        break;
+      }
+      case "UNTIL": {
+        const until = parseRRuleDate(value);
+        if (until === null) return null;
+        rule.until = until;
+        break;
+      }
+      case "WKST": {
+        const day = dayMap.get(value.trim().toUpperCase());
+        if (day === undefined) return null;
+        rule.weekStart = day;
+        break;
+      }
+      case "BYDAY": {
+        const days: number[] = [];
+        const positions: number[] = [];
+        const weekdays: { day: number; position?: number }[] = [];
+        const entries = new Set<string>();
+        for (const item of value.split(",")) {
+          const match = /^([+-]?\d+)?([A-Z]{2})$/i.exec(item.trim());
+          const day = dayMap.get(match?.[2]?.toUpperCase() ?? "");
+          if (match === null || day === undefined) return null;
+          const pos = match[1] === undefined ? null : parseInt(match[1], 10);
+          if (!days.includes(day)) days.push(day);
+          if (pos !== null && !positions.includes(pos)) positions.push(pos);
+          entries.add(`${String(pos)}:${String(day)}`);
+          weekdays.push(pos === null ? { day } : { day, position: pos });
+        }
+        const expected = positions.length === 0 ? [null] : positions;
+        const crossProduct = expected.flatMap((p) =>
+          days.map((d) => `${String(p)}:${String(d)}`)
+        );
+        if (
+          crossProduct.length !== entries.size ||
+          crossProduct.some((e) => !entries.has(e))
+        ) {
+          // Not expressible as positions × days: keep the entries as given.
+          rule.weekdays = weekdays;
+          break;
+        }
+        rule.daysOfWeek = days;
+        if (positions.length > 0) rule.daysOfWeekPositions = positions;
+        break;
+      }
+      case "BYMONTHDAY": {
+        const values = integers(value);
+        if (values === null) return null;
+        const [first] = values;
+        if (values.length === 1 && first !== undefined && first > 0) {
+          rule.dayOfMonth = first;
+        } else {
+          rule.daysOfMonth = values;
+        }
+        break;
+      }
+      case "BYMONTH":
+      case "BYYEARDAY":
+      case "BYWEEKNO":
+      case "BYHOUR":
+      case "BYMINUTE":
+      case "BYSECOND":
+      case "BYSETPOS": {
+        const values = integers(value);
+        if (values === null) return null;
+        rule[listKeys[key]] = values;
+        break;
+      }
+      default:
+        return null;
+    }
+  }
+
+  if (frequency === undefined) return null;
+  if (exceptDates.length > 0) rule.exceptDates = exceptDates;
+  return { frequency, interval, ...rule };
+}
+
 /**
  * Map a `RepetitionRule["repeatMethod"]` value to the OmniJS
  * `Task.RepetitionMethod.*` expression string used in the second argument
@@ -149,6 +406,21 @@ export interface ClearRepetitionRuleResult {
 // applyRepetitionRule
 // ---------------------------------------------------------------------------
 
+/**
+ * OmniFocus repetition rules are a bare RRULE with no EXDATE, so a rule with
+ * `exceptDates` (e.g. from {@link parseRRule}) can't be applied as given.
+ */
+function exceptDatesError(rule: RepetitionRule): CliError | null {
+  if (rule.exceptDates === undefined || rule.exceptDates.length === 0) {
+    return null;
+  }
+  return createError(
+    ErrorCode.VALIDATION_ERROR,
+    `Repetition rule has exceptDates (${rule.exceptDates.join(", ")})`,
+    "OmniFocus repetition rules can't skip dates; remove exceptDates to apply the rule"
+  );
+}
+
 /**
  * Apply a repetition rule to an existing task.
  *
@@ -162,7 +434,7 @@ export async function applyRepetitionRule(
   const idError = validateId(taskId, "task");
   if (idError) return failure(idError);
 
-  const ruleError = validateRepetitionRule(rule);
+  const ruleError = validateRepetitionRule(rule) ?? exceptDatesError(rule);
   if (ruleError) return failure(ruleError);
 
   const rrule = buildRRule(rule);
@@ -235,48 +507,219 @@ return JSON.stringify({ id: task.id.primaryKey });`;
   return success(result.data);
 }
 
+// ---------------------------------------------------------------------------
+// Dry-run previews
+// ---------------------------------------------------------------------------
+
+/**
+ * Preview a repetition change: the task's repetition rule before and after.
+ *
+ * @param ruleExpr - OmniJS expression for the new rule (`null` to clear).
+ */
+async function planRepetitionRule(
+  command: string,
+  taskId: string,
+  ruleExpr: string
+): Promise<CliOutput<DryRunPlan>> {
+  const body = `
+var task = Task.byIdentifier("${escapeJSString(taskId)}");
+if (!task) {
+  throw new Error("Task not found: ${escapeJSString(taskId)}");
+}
+var before = __taskState(task);
+var after = __planCopy(before);
+after.repetitionRule = __planRule(${ruleExpr});
+__planChange("update", "task", task.id.primaryKey, task.name, before, after);`;
+
+  return runPlanScript(command, body);
+}
+
+/**
+ * Preview {@link applyRepetitionRule}.
+ */
+async function planApplyRepetitionRule(
+  taskId: string,
+  rule: RepetitionRule
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  const ruleError = validateRepetitionRule(rule) ?? exceptDatesError(rule);
+  if (ruleError) return failure(ruleError);
+
+  const rrule = buildRRule(rule);
+  const method = repeatMethodToOmniJS(rule.repeatMethod);
+  return planRepetitionRule(
+    "applyRepetitionRule",
+    taskId,
+    `new Task.RepetitionRule("${escapeJSString(rrule)}", ${method})`
+  );
+}
+
+/**
+ * Preview {@link clearRepetitionRule}.
+ */
+async function planClearRepetitionRule(
+  taskId: string
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  return planRepetitionRule("clearRepetitionRule", taskId, "null");
+}
+
 // ---------------------------------------------------------------------------
 // Command descriptors
 // ---------------------------------------------------------------------------
 
-const repetitionRuleInputSchema = z.object({
-  taskId: z.string().describe("ID of the task to update"),
+/**
+ * Shared Zod schema for a repetition rule — used in the `updateTaskDescriptor`
+ * for both the MCP tool (object supplied directly) and the CLI adapter (JSON
+ * string via `--repeat '<json>'` which is preprocessed into an object), for
+ * the `repeat` rules of template tasks, and as the base of the
+ * `apply-repetition` input.
+ */
+export const RepetitionRuleSchema = z.object({
   frequency: z
-    .enum(["daily", "weekly", "monthly", "yearly"])
-    .describe("Repeat frequency"),
-  interval: z
-    .number()
-    .int()
-    .min(1)
-    .describe("Repeat every N periods (default: 1)")
-    .default(1),
+    .enum([
+      "secondly",
+      "minutely",
+      "hourly",
+      "daily",
+      "weekly",
+      "monthly",
+      "yearly",
+    ])
+    .describe("Recurrence frequency"),
+  interval: z.number().int().min(1).describe("Repeat every N periods"),
   repeatMethod: z
     .enum(["due-again", "defer-another", "scheduled"])
-    .describe(
-      "How to reschedule: due-again (from completion), defer-another (from defer date), scheduled (fixed cadence)"
-    )
-    .default("due-again"),
+    .describe("How OmniFocus reschedules the task after completion"),
   daysOfWeek: z
     .array(z.number().int().min(0).max(6))
+    .min(1)
     .optional()
-    .describe("Days of week (0=Sunday, 6=Saturday)"),
+    .describe("Days of the week to repeat on (0=Sunday … 6=Saturday)"),
   dayOfMonth: z
     .number()
     .int()
     .min(1)
     .max(31)
     .optional()
-    .describe("Day of month (1-31) for monthly recurrences"),
+    .describe("Day of month for monthly repetitions"),
   daysOfWeekPositions: z
     .array(z.number().int())
     .optional()
     .describe(
-      "Positional prefixes for Nth-weekday monthly rules, e.g. [1,-1] for first and last. Values in [-5,-1]∪[1,5]."
+      "Positional prefix for BYDAY in monthly or yearly repetitions (e.g. 1 = first, -1 = last)"
     ),
   monthsOfYear: z
     .array(z.number().int().min(1).max(12))
     .optional()
-    .describe("Months of year (1=January, 12=December) for yearly recurrences"),
+    .describe("Months of the year to repeat in (1=Jan … 12=Dec)"),
+  weekdays: z
+    .array(
+      z.object({
+        day: z.number().int().min(0).max(6),
+        position: z.number().int().optional(),
+      })
+    )
+    .min(1)
+    .optional()
+    .describe(
+      "BYDAY entries that aren't a positions × days product, e.g. [{day:1,position:1},{day:5,position:-1}]"
+    ),
+  daysOfMonth: z
+    .array(z.number().int())
+    .min(1)
+    .optional()
+    .describe(
+      "Several days of month; negative counts from the end (BYMONTHDAY)"
+    ),
+  daysOfYear: z
+    .array(z.number().int())
+    .min(1)
+    .optional()
+    .describe("Days of the year; negative counts from the end (BYYEARDAY)"),
+  weeksOfYear: z
+    .array(z.number().int())
+    .min(1)
+    .optional()
+    .describe("ISO-style week numbers for yearly repetitions (BYWEEKNO)"),
+  hours: z
+    .array(z.number().int().min(0).max(23))
+    .min(1)
+    .optional()
+    .describe("Hours of the day (BYHOUR)"),
+  minutes: z
+    .array(z.number().int().min(0).max(59))
+    .min(1)
+    .optional()
+    .describe("Minutes of the hour (BYMINUTE)"),
+  seconds: z
+    .array(z.number().int().min(0).max(60))
+    .min(1)
+    .optional()
+    .describe("Seconds of the minute (BYSECOND)"),
+  setPositions: z
+    .array(z.number().int())
+    .min(1)
+    .optional()
+    .describe(
+      "Pick the Nth instances of each period's set, e.g. -1 = last (BYSETPOS)"
+    ),
+  weekStart: z
+    .number()
+    .int()
+    .min(0)
+    .max(6)
+    .optional()
+    .describe("First day of the week (WKST, 0=Sunday; default Monday)"),
+  count: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe("Stop after this many occurrences (COUNT)"),
+  until: z
+    .string()
+    .optional()
+    .describe("Last possible occurrence, ISO 8601 (UNTIL)"),
+});
+
+const repetitionRuleInputSchema = RepetitionRuleSchema.extend({
+  taskId: z.string().describe("ID of the task to update"),
+  interval: z
+    .number()
+    .int()
+    .min(1)
+    .describe("Repeat every N periods (default: 1)")
+    .default(1),
+  repeatMethod: z
+    .enum(["due-again", "defer-another", "scheduled"])
+    .describe(
+      "How to reschedule: due-again (from completion), defer-another (from defer date), scheduled (fixed cadence)"
+    )
+    .default("due-again"),
+  weekdays: z
+    .preprocess(
+      // CLI supplies --weekdays as a JSON string; MCP supplies an array.
+      (v) => {
+        if (typeof v !== "string") return v;
+        try {
+          return JSON.parse(v) as unknown;
+        } catch {
+          return v;
+        }
+      },
+      RepetitionRuleSchema.shape.weekdays.unwrap()
+    )
+    .optional()
+    .describe(
+      "BYDAY entries that aren't a positions × days product. " +
+        'CLI: pass as a JSON string, e.g. --weekdays \'[{"day":1,"position":1},{"day":5,"position":-1}]\''
+    ),
+  ...dryRunSchema,
 });
 
 /**
@@ -292,20 +735,16 @@ export const applyRepetitionRuleDescriptor = defineCommand({
   cliName: "apply-repetition",
   mcpName: "task_apply_repetition",
   description:
-    "Apply a repetition rule to an existing task. Supports daily, weekly (with BYDAY), monthly (by day-of-month or Nth-weekday), and yearly (with BYMONTH) recurrences.",
+    "Apply a repetition rule to an existing task. Supports the RFC 5545 RRULE grammar: secondly through yearly frequencies, BYDAY (plain, Nth-weekday or free-form weekdays), BYMONTHDAY, BYYEARDAY, BYWEEKNO, BYMONTH, BYHOUR, BYMINUTE, BYSECOND, BYSETPOS, WKST, and an end by COUNT or UNTIL.",
   cliPositional: ["taskId"],
   inputSchema: repetitionRuleInputSchema,
-  handler: async (input) => {
-    const rule: RepetitionRule = {
-      frequency: input.frequency,
-      interval: input.interval,
-      repeatMethod: input.repeatMethod,
-      daysOfWeek: input.daysOfWeek,
-      dayOfMonth: input.dayOfMonth,
-      daysOfWeekPositions: input.daysOfWeekPositions,
-      monthsOfYear: input.monthsOfYear,
-    };
-    return applyRepetitionRule(input.taskId, rule);
+  handler: async (
+    input
+  ): Promise<CliOutput<ApplyRepetitionRuleResult | DryRunPlan>> => {
+    const { taskId, dryRun, ...rule } = input;
+    return dryRun === true
+      ? planApplyRepetitionRule(taskId, rule)
+      : applyRepetitionRule(taskId, rule);
   },
 });
 
@@ -327,6 +766,12 @@ export const clearRepetitionRuleDescriptor = defineCommand({
     taskId: z
       .string()
       .describe("ID of the task to clear the repetition rule from"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => clearRepetitionRule(input.taskId),
+  handler: async (
+    input
+  ): Promise<CliOutput<ClearRepetitionRuleResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planClearRepetitionRule(input.taskId)
+      : clearRepetitionRule(input.taskId),
 });
@@ -5,6 +5,11 @@ import { ErrorCode, createError } from "../errors.js";
 import { validateId } from "../validation.js";
 import { escapeJSString, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Result from getting or setting review interval.
@@ -265,6 +270,74 @@ return JSON.stringify({
   return success(result.data);
 }
 
+// ---------------------------------------------------------------------------
+// Dry-run previews
+// ---------------------------------------------------------------------------
+
+/**
+ * Preview a review-state change: run `apply` against a copy of the project's
+ * state and record the difference.
+ */
+async function planProjectReviewChange(
+  command: string,
+  projectId: string,
+  apply: string
+): Promise<CliOutput<DryRunPlan>> {
+  const body = `
+var theProject = Project.byIdentifier("${escapeJSString(projectId)}");
+if (!theProject) {
+  throw new Error("Project not found: ${escapeJSString(projectId)}");
+}
+var before = __projectState(theProject);
+var after = __planCopy(before);
+${apply}
+__planChange("update", "project", theProject.id.primaryKey, theProject.name, before, after);`;
+
+  return runPlanScript(command, body);
+}
+
+/**
+ * Preview {@link reviewProject}.
+ */
+async function planReviewProject(
+  projectId: string
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(projectId, "project");
+  if (idError) return failure(idError);
+
+  return planProjectReviewChange(
+    "reviewProject",
+    projectId,
+    "after.lastReviewDate = new Date();"
+  );
+}
+
+/**
+ * Preview {@link setReviewInterval}.
+ */
+export async function planSetReviewInterval(
+  projectId: string,
+  days: number
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(projectId, "project");
+  if (idError) return failure(idError);
+
+  if (!Number.isInteger(days) || days < 1) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        "Review interval must be a positive integer (days)"
+      )
+    );
+  }
+
+  return planProjectReviewChange(
+    "setReviewInterval",
+    projectId,
+    `after.reviewInterval = "${String(days)} days";`
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Centralized descriptors
 // ---------------------------------------------------------------------------
@@ -284,8 +357,12 @@ export const reviewProjectDescriptor = defineCommand({
   cliPositional: ["projectId"] as const,
   inputSchema: z.object({
     projectId: z.string().describe("Project ID to mark as reviewed"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => reviewProject(input.projectId),
+  handler: async (input): Promise<CliOutput<ReviewResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planReviewProject(input.projectId)
+      : reviewProject(input.projectId),
 });
 
 /**
@@ -341,7 +418,12 @@ export const setReviewIntervalDescriptor = defineCommand({
   inputSchema: z.object({
     projectId: z.string().describe("Project ID to set review interval for"),
     intervalDays: z.number().int().min(1).describe("Review interval in days"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    setReviewInterval(input.projectId, input.intervalDays),
+  handler: async (
+    input
+  ): Promise<CliOutput<ReviewIntervalResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planSetReviewInterval(input.projectId, input.intervalDays)
+      : setReviewInterval(input.projectId, input.intervalDays),
 });
@@ -0,0 +1,817 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { z } from "zod";
+import type {
+  CliOutput,
+  OFFolder,
+  OFProject,
+  OFTag,
+  OFTask,
+} from "../types.js";
+import { success, failure } from "../result.js";
+import { ErrorCode, createError, type CliError } from "../errors.js";
+import type { QueryResult } from "../query/index.js";
+import { defineCommand } from "../registry/define.js";
+import type { ResolvedCommandDescriptor } from "../registry/define.js";
+import { queryTasksDescriptor } from "./tasks.js";
+import { listProjectsDescriptor } from "./projects.js";
+import { listTagsDescriptor } from "./tags.js";
+import { listFoldersDescriptor } from "./folders.js";
+import {
+  diffFields,
+  dryRunSchema,
+  localPlan,
+  type DryRunPlan,
+} from "../dry-run/index.js";
+
+/**
+ * The list command a saved query runs.
+ *
+ * @public
+ */
+export type SavedQueryEntity = "tasks" | "projects" | "tags" | "folders";
+
+/**
+ * A named query definition.
+ *
+ * `query` holds the input of the entity's list command (`tasks`, `projects`,
+ * `tags` or `folders`) — filters, projection, sort and shape — exactly as the
+ * MCP tool would receive it. String values may reference parameters as
+ * `$name`, filled in when the query is run; `$$` is a literal `$`. Where the
+ * list command expects a number or boolean (`"limit": "$n"`), the filled-in
+ * value is converted.
+ *
+ * @public
+ */
+export interface SavedQuery {
+  name: string;
+  entity: SavedQueryEntity;
+  description: string | null;
+  query: Record<string, unknown>;
+  /** Parameter names referenced in `query`, in order of first use. */
+  parameters: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * On-disk saved query file.
+ */
+interface SavedQueryFile {
+  version: 1;
+  queries: Record<string, SavedQuery>;
+}
+
+/**
+ * Options for saving a query.
+ *
+ * @public
+ */
+export interface SaveQueryOptions {
+  name: string;
+  entity: SavedQueryEntity;
+  query: Record<string, unknown>;
+  description?: string | undefined;
+}
+
+/**
+ * Result of saving a query.
+ *
+ * @public
+ */
+export interface SaveQueryResult {
+  name: string;
+  entity: SavedQueryEntity;
+  parameters: string[];
+  /** Whether an existing query of the same name was replaced. */
+  replaced: boolean;
+  /** Path of the saved query file. */
+  path: string;
+}
+
+/**
+ * Saved query summary for listing.
+ *
+ * @public
+ */
+export interface SavedQuerySummary {
+  name: string;
+  entity: SavedQueryEntity;
+  description: string | null;
+  parameters: string[];
+  updatedAt: string;
+}
+
+/**
+ * Result of listing saved queries.
+ *
+ * @public
+ */
+export interface ListSavedQueriesResult {
+  queries: SavedQuerySummary[];
+}
+
+/**
+ * Result of deleting a saved query.
+ *
+ * @public
+ */
+export interface DeleteSavedQueryResult {
+  name: string;
+  deleted: boolean;
+}
+
+/**
+ * Options for running a saved query.
+ *
+ * @public
+ */
+export interface RunSavedQueryOptions {
+  name: string;
+  /** Values for the query's `$name` parameters. */
+  params?: Record<string, string> | undefined;
+  /**
+   * Inputs merged over the saved definition for this run only. A `null`
+   * value removes the saved input.
+   */
+  overrides?: Record<string, unknown> | undefined;
+}
+
+/**
+ * Result of running a saved query: the list command's own result.
+ *
+ * @public
+ */
+export type SavedQueryRunResult =
+  | QueryResult<OFTask>
+  | QueryResult<OFProject>
+  | QueryResult<OFTag>
+  | QueryResult<OFFolder>;
+
+/**
+ * List descriptor behind each entity. Saved definitions are validated
+ * against, and run through, the same schema and handler as the CLI command
+ * and MCP tool.
+ */
+const ENTITY_DESCRIPTORS = {
+  tasks: queryTasksDescriptor,
+  projects: listProjectsDescriptor,
+  tags: listTagsDescriptor,
+  folders: listFoldersDescriptor,
+} as const;
+
+const ENTITIES = ["tasks", "projects", "tags", "folders"] as const;
+
+/** `$$` (an escaped dollar) or a `$name` parameter reference. */
+const PARAMETER_PATTERN = /\$(\$|[A-Za-z_][A-Za-z0-9_]*)/g;
+
+/**
+ * Get the saved query file path.
+ *
+ * @public
+ */
+export function getSavedQueriesPath(): string {
+  return path.join(os.homedir(), ".config", "ofocus", "queries.json");
+}
+
+/**
+ * Read the saved query file, returning an empty one if none exists yet, or
+ * an error naming the file if it isn't valid JSON.
+ */
+function readSavedQueries(): SavedQueryFile | CliError {
+  const filePath = getSavedQueriesPath();
+  if (!fs.existsSync(filePath)) {
+    return { version: 1, queries: {} };
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as SavedQueryFile;
+  } catch (err) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid saved query file ${filePath}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/**
+ * Persist the saved query file.
+ */
+function writeSavedQueries(file: SavedQueryFile): void {
+  const filePath = getSavedQueriesPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2), "utf-8");
+}
+
+function notFound(name: string): CliError {
+  return createError(
+    ErrorCode.VALIDATION_ERROR,
+    `Saved query not found: ${name}`
+  );
+}
+
+/**
+ * Apply `visit` to every string in a query input: top-level strings and the
+ * elements of string arrays.
+ */
+function mapStrings(
+  query: Record<string, unknown>,
+  visit: (value: string) => string
+): Record<string, unknown> {
+  const mapped: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(query)) {
+    if (typeof value === "string") {
+      mapped[key] = visit(value);
+    } else if (Array.isArray(value)) {
+      mapped[key] = value.map((item: unknown) =>
+        typeof item === "string" ? visit(item) : item
+      );
+    } else {
+      mapped[key] = value;
+    }
+  }
+  return mapped;
+}
+
+/**
+ * Parameter names referenced in a query, in order of first use.
+ */
+function collectParameters(query: Record<string, unknown>): string[] {
+  const names: string[] = [];
+  mapStrings(query, (value) => {
+    for (const match of value.matchAll(PARAMETER_PATTERN)) {
+      const name = match[1];
+      if (name !== undefined && name !== "$" && !names.includes(name)) {
+        names.push(name);
+      }
+    }
+    return value;
+  });
+  return names;
+}
+
+/**
+ * Replace `$name` references with their values and `$$` with `$`.
+ */
+function substituteParameters(
+  query: Record<string, unknown>,
+  params: Record<string, string>
+): Record<string, unknown> {
+  return mapStrings(query, (value) =>
+    value.replace(PARAMETER_PATTERN, (_match, name: string) =>
+      name === "$" ? "$" : (params[name] ?? "")
+    )
+  );
+}
+
+/**
+ * An input's schema without its optional, default and preprocess wrappers.
+ */
+function baseSchema(schema: z.ZodTypeAny): z.ZodTypeAny {
+  let current = schema;
+  for (;;) {
+    if (current instanceof z.ZodOptional || current instanceof z.ZodNullable) {
+      current = current.unwrap() as z.ZodTypeAny;
+    } else if (current instanceof z.ZodDefault) {
+      current = current.removeDefault() as z.ZodTypeAny;
+    } else if (current instanceof z.ZodEffects) {
+      current = current._def.schema as z.ZodTypeAny;
+    } else {
+      return current;
+    }
+  }
+}
+
+/**
+ * Convert a substituted string to the number or boolean its schema expects.
+ * Values that don't convert are left as strings for validation to report.
+ */
+function coerceValue(schema: z.ZodTypeAny, value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  const base = baseSchema(schema);
+  if (base instanceof z.ZodNumber) {
+    const num = Number(value);
+    return value.trim() === "" || Number.isNaN(num) ? value : num;
+  }
+  if (base instanceof z.ZodBoolean) {
+    if (value === "true") return true;
+    if (value === "false") return false;
+  }
+  return value;
+}
+
+/**
+ * Coerce the inputs of `substituted` that referenced a parameter in `query`
+ * to the types the list command expects, so `"limit": "$n"` runs with a
+ * number. Array inputs are coerced element by element.
+ */
+function coerceParameters(
+  shape: Record<string, z.ZodTypeAny>,
+  query: Record<string, unknown>,
+  substituted: Record<string, unknown>
+): Record<string, unknown> {
+  const coerced = { ...substituted };
+  for (const [key, value] of Object.entries(substituted)) {
+    const schema = shape[key];
+    if (
+      schema === undefined ||
+      collectParameters({ [key]: query[key] }).length === 0
+    ) {
+      continue;
+    }
+    const base = baseSchema(schema);
+    coerced[key] =
+      Array.isArray(value) && base instanceof z.ZodArray
+        ? value.map((item: unknown) =>
+            coerceValue((base as z.ZodArray<z.ZodTypeAny>).element, item)
+          )
+        : coerceValue(schema, value);
+  }
+  return coerced;
+}
+
+/**
+ * Turn the first Zod issue into a `VALIDATION_ERROR`, the way the CLI adapter
+ * reports bad flags.
+ */
+function issueError(queryName: string, error: z.ZodError): CliError {
+  const issue = error.issues[0];
+  const field =
+    issue !== undefined && issue.path.length > 0
+      ? `${issue.path.join(".")}: `
+      : "";
+  return createError(
+    ErrorCode.VALIDATION_ERROR,
+    `Invalid saved query "${queryName}": ${field}${issue?.message ?? "Invalid input"}`,
+    JSON.stringify(error.issues)
+  );
+}
+
+/**
+ * Validate a definition against its list command's schema. Unknown inputs
+ * are rejected; values that reference a parameter are only checked once the
+ * parameter is filled in at run time.
+ */
+function validateDefinition(
+  name: string,
+  entity: SavedQueryEntity,
+  query: Record<string, unknown>
+): CliError | null {
+  const schema = ENTITY_DESCRIPTORS[entity].inputSchema.strict();
+  const parsed = schema.safeParse(query);
+  if (parsed.success) return null;
+
+  const parameterized = new Set(
+    Object.keys(query).filter(
+      (key) => collectParameters({ [key]: query[key] }).length > 0
+    )
+  );
+  const issues = parsed.error.issues.filter(
+    (issue) =>
+      issue.code === "unrecognized_keys" ||
+      !parameterized.has(String(issue.path[0]))
+  );
+  return issues.length > 0 ? issueError(name, new z.ZodError(issues)) : null;
+}
+
+/**
+ * Validate `input` against a list descriptor's schema and run its handler.
+ */
+async function runDescriptor<TSchema extends z.AnyZodObject, TOutput>(
+  queryName: string,
+  descriptor: ResolvedCommandDescriptor<z.infer<TSchema>, TOutput, TSchema>,
+  input: Record<string, unknown>
+): Promise<CliOutput<TOutput>> {
+  const parsed = descriptor.inputSchema.strict().safeParse(input);
+  if (!parsed.success) {
+    return failure(issueError(queryName, parsed.error));
+  }
+  return descriptor.handler(parsed.data as z.infer<TSchema>);
+}
+
+/**
+ * Save (or replace) a named query.
+ *
+ * The definition is checked against the entity's list command before it is
+ * written, so typos in input names fail here rather than on every run.
+ *
+ * @public
+ */
+export function saveQuery(
+  options: SaveQueryOptions
+): CliOutput<SaveQueryResult> {
+  const built = buildSavedQuery(options);
+  if ("code" in built) return failure(built);
+
+  const file = readSavedQueries();
+  if ("code" in file) return failure(file);
+  const existing = file.queries[built.name];
+  file.queries[built.name] = {
+    ...built,
+    createdAt: existing?.createdAt ?? built.createdAt,
+  };
+  writeSavedQueries(file);
+
+  return success({
+    name: built.name,
+    entity: built.entity,
+    parameters: built.parameters,
+    replaced: existing !== undefined,
+    path: getSavedQueriesPath(),
+  });
+}
+
+/**
+ * Validate save options and build the record that would be stored.
+ */
+function buildSavedQuery(options: SaveQueryOptions): SavedQuery | CliError {
+  const name = options.name.trim();
+  if (name.length === 0) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "Saved query name cannot be empty"
+    );
+  }
+
+  const definitionError = validateDefinition(
+    name,
+    options.entity,
+    options.query
+  );
+  if (definitionError) return definitionError;
+
+  const now = new Date().toISOString();
+  return {
+    name,
+    entity: options.entity,
+    description: options.description ?? null,
+    query: options.query,
+    parameters: collectParameters(options.query),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * List saved queries, sorted by name.
+ *
+ * @public
+ */
+export function listSavedQueries(
+  options: { entity?: SavedQueryEntity | undefined } = {}
+): CliOutput<ListSavedQueriesResult> {
+  const file = readSavedQueries();
+  if ("code" in file) return failure(file);
+  const queries = Object.values(file.queries)
+    .filter((q) => options.entity === undefined || q.entity === options.entity)
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .map((q) => ({
+      name: q.name,
+      entity: q.entity,
+      description: q.description,
+      parameters: q.parameters,
+      updatedAt: q.updatedAt,
+    }));
+
+  return success({ queries });
+}
+
+/**
+ * Get a saved query definition by name.
+ *
+ * @public
+ */
+export function getSavedQuery(name: string): CliOutput<SavedQuery> {
+  const file = readSavedQueries();
+  if ("code" in file) return failure(file);
+  const query = file.queries[name];
+  return query ? success(query) : failure(notFound(name));
+}
+
+/**
+ * Delete a saved query.
+ *
+ * @public
+ */
+export function deleteSavedQuery(
+  name: string
+): CliOutput<DeleteSavedQueryResult> {
+  const file = readSavedQueries();
+  if ("code" in file) return failure(file);
+  if (file.queries[name] === undefined) return failure(notFound(name));
+
+  writeSavedQueries({
+    ...file,
+    queries: Object.fromEntries(
+      Object.entries(file.queries).filter(([key]) => key !== name)
+    ),
+  });
+
+  return success({ name, deleted: true });
+}
+
+/**
+ * Run a saved query through its list command.
+ *
+ * Parameters are substituted first, then `overrides` are merged over the
+ * result, and the combined input is validated exactly as the list command
+ * would validate it. An input that referenced a parameter is converted to
+ * the number or boolean the list command expects. Every parameter the query references must be given, and
+ * unknown parameters are rejected.
+ *
+ * @public
+ */
+export async function runSavedQuery(
+  options: RunSavedQueryOptions
+): Promise<CliOutput<SavedQueryRunResult>> {
+  const file = readSavedQueries();
+  if ("code" in file) return failure(file);
+  const saved = file.queries[options.name];
+  if (saved === undefined) return failure(notFound(options.name));
+
+  const params = options.params ?? {};
+  const missing = saved.parameters.filter((p) => params[p] === undefined);
+  if (missing.length > 0) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Missing parameter${missing.length === 1 ? "" : "s"} for saved query "${saved.name}": ${missing.join(", ")}`
+      )
+    );
+  }
+  const unknown = Object.keys(params).filter(
+    (p) => !saved.parameters.includes(p)
+  );
+  if (unknown.length > 0) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Unknown parameter${unknown.length === 1 ? "" : "s"} for saved query "${saved.name}": ${unknown.join(", ")}`,
+        saved.parameters.length > 0
+          ? `Parameters: ${saved.parameters.join(", ")}`
+          : "This query takes no parameters"
+      )
+    );
+  }
+
+  const merged = {
+    ...coerceParameters(
+      ENTITY_DESCRIPTORS[saved.entity].inputSchema.shape,
+      saved.query,
+      substituteParameters(saved.query, params)
+    ),
+    ...options.overrides,
+  };
+  const input = Object.fromEntries(
+    Object.entries(merged).filter(([, value]) => value !== null)
+  );
+
+  switch (saved.entity) {
+    case "tasks":
+      return runDescriptor(saved.name, ENTITY_DESCRIPTORS.tasks, input);
+    case "projects":
+      return runDescriptor(saved.name, ENTITY_DESCRIPTORS.projects, input);
+    case "tags":
+      return runDescriptor(saved.name, ENTITY_DESCRIPTORS.tags, input);
+    case "folders":
+      return runDescriptor(saved.name, ENTITY_DESCRIPTORS.folders, input);
+    default: {
+      const exhaustive: never = saved.entity;
+      return failure(
+        createError(
+          ErrorCode.VALIDATION_ERROR,
+          `Unknown saved query entity: ${String(exhaustive)}`
+        )
+      );
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Dry-run previews
+// ---------------------------------------------------------------------------
+
+/**
+ * The attributes of a saved query reported in a plan.
+ */
+function savedQueryState(query: SavedQuery): Record<string, unknown> {
+  const { createdAt: _createdAt, updatedAt: _updatedAt, ...state } = query;
+  return state;
+}
+
+/**
+ * Preview {@link saveQuery}: a new query, or the changes to the one it would
+ * replace.
+ */
+function planSaveQuery(options: SaveQueryOptions): CliOutput<DryRunPlan> {
+  const built = buildSavedQuery(options);
+  if ("code" in built) return failure(built);
+
+  const file = readSavedQueries();
+  if ("code" in file) return failure(file);
+  const existing = file.queries[built.name];
+  return success(
+    localPlan("saveQuery", {
+      changes: [
+        {
+          action: existing ? "update" : "create",
+          entity: "saved-query",
+          id: existing ? existing.name : null,
+          name: built.name,
+          fields: diffFields(
+            existing ? savedQueryState(existing) : {},
+            savedQueryState(built)
+          ),
+        },
+      ],
+    })
+  );
+}
+
+/**
+ * Preview {@link deleteSavedQuery}.
+ */
+function planDeleteSavedQuery(name: string): CliOutput<DryRunPlan> {
+  const file = readSavedQueries();
+  if ("code" in file) return failure(file);
+  const existing = file.queries[name];
+  if (existing === undefined) return failure(notFound(name));
+
+  return success(
+    localPlan("deleteSavedQuery", {
+      changes: [
+        {
+          action: "delete",
+          entity: "saved-query",
+          id: existing.name,
+          name: existing.name,
+          fields: diffFields(savedQueryState(existing), {}),
+        },
+      ],
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Centralized descriptors
+// ---------------------------------------------------------------------------
+
+/**
+ * Accept a JSON string (CLI) or an object (MCP) for a record input. On parse
+ * failure the raw string is returned so Zod reports a clean
+ * VALIDATION_ERROR.
+ */
+function parseJsonInput(v: unknown): unknown {
+  if (typeof v !== "string") return v;
+  try {
+    return JSON.parse(v) as unknown;
+  } catch {
+    return v;
+  }
+}
+
+const entitySchema = z
+  .enum(ENTITIES)
+  .describe("List command the query runs: tasks, projects, tags or folders");
+
+/**
+ * Centralized descriptor for the `saved-query-save` command.
+ *
+ * Drives CLI subcommand `saved-query-save` and MCP tool `saved_query_save`.
+ *
+ * @public
+ */
+export const saveQueryDescriptor = defineCommand({
+  name: "saveQuery",
+  cliName: "saved-query-save",
+  mcpName: "saved_query_save",
+  description:
+    "Save a named tasks/projects/tags/folders query (filters, fields, sort, shape) for reuse with saved-query-run",
+  cliPositional: ["name"] as const,
+  inputSchema: z.object({
+    name: z.string().describe("Name for the saved query"),
+    entity: entitySchema,
+    query: z
+      .preprocess(parseJsonInput, z.record(z.string(), z.unknown()))
+      .describe(
+        "Inputs of the list command, as the MCP tool takes them. String values may reference parameters as $name ($$ for a literal $), also for number and boolean inputs. " +
+          'CLI: pass as a JSON string, e.g. --query \'{"flagged":true,"project":"$project","sort":["dueDate"],"fields":["id","name","dueDate"]}\''
+      ),
+    description: z.string().optional().describe("What the query is for"),
+    ...dryRunSchema,
+  }),
+  handler: async (input): Promise<CliOutput<SaveQueryResult | DryRunPlan>> => {
+    const options: SaveQueryOptions = {
+      name: input.name,
+      entity: input.entity,
+      query: input.query,
+      description: input.description,
+    };
+    return Promise.resolve(
+      input.dryRun === true ? planSaveQuery(options) : saveQuery(options)
+    );
+  },
+});
+
+/**
+ * Centralized descriptor for the `saved-query-list` command.
+ *
+ * Drives CLI subcommand `saved-query-list` and MCP tool `saved_queries_list`.
+ *
+ * @public
+ */
+export const listSavedQueriesDescriptor = defineCommand({
+  name: "listSavedQueries",
+  cliName: "saved-query-list",
+  mcpName: "saved_queries_list",
+  description: "List saved queries with their entity and parameters",
+  inputSchema: z.object({
+    entity: entitySchema.optional(),
+  }),
+  handler: async (input) =>
+    Promise.resolve(listSavedQueries({ entity: input.entity })),
+});
+
+/**
+ * Centralized descriptor for the `saved-query-show` command.
+ *
+ * Drives CLI subcommand `saved-query-show` and MCP tool `saved_query_get`.
+ *
+ * @public
+ */
+export const getSavedQueryDescriptor = defineCommand({
+  name: "getSavedQuery",
+  cliName: "saved-query-show",
+  mcpName: "saved_query_get",
+  description: "Show the definition of a saved query",
+  cliPositional: ["name"] as const,
+  inputSchema: z.object({
+    name: z.string().describe("Name of the saved query"),
+  }),
+  handler: async (input) => Promise.resolve(getSavedQuery(input.name)),
+});
+
+/**
+ * Centralized descriptor for the `saved-query-delete` command.
+ *
+ * Drives CLI subcommand `saved-query-delete` and MCP tool `saved_query_delete`.
+ *
+ * @public
+ */
+export const deleteSavedQueryDescriptor = defineCommand({
+  name: "deleteSavedQuery",
+  cliName: "saved-query-delete",
+  mcpName: "saved_query_delete",
+  description: "Delete a saved query",
+  cliPositional: ["name"] as const,
+  inputSchema: z.object({
+    name: z.string().describe("Name of the saved query to delete"),
+    ...dryRunSchema,
+  }),
+  handler: async (
+    input
+  ): Promise<CliOutput<DeleteSavedQueryResult | DryRunPlan>> =>
+    Promise.resolve(
+      input.dryRun === true
+        ? planDeleteSavedQuery(input.name)
+        : deleteSavedQuery(input.name)
+    ),
+});
+
+/**
+ * Centralized descriptor for the `saved-query-run` command.
+ *
+ * Drives CLI subcommand `saved-query-run` and MCP tool `saved_query_run`.
+ *
+ * @public
+ */
+export const runSavedQueryDescriptor = defineCommand({
+  name: "runSavedQuery",
+  cliName: "saved-query-run",
+  mcpName: "saved_query_run",
+  description:
+    "Run a saved query, filling in its $parameters and optionally overriding saved inputs",
+  cliPositional: ["name"] as const,
+  inputSchema: z.object({
+    name: z.string().describe("Name of the saved query to run"),
+    params: z
+      .preprocess(parseJsonInput, z.record(z.string(), z.string()))
+      .optional()
+      .describe(
+        'Parameter values. CLI: pass as a JSON string, e.g. --params \'{"project":"Q4 Launch"}\''
+      ),
+    overrides: z
+      .preprocess(parseJsonInput, z.record(z.string(), z.unknown()))
+      .optional()
+      .describe(
+        "List command inputs merged over the saved ones for this run; null removes a saved input. " +
+          'CLI: pass as a JSON string, e.g. --overrides \'{"limit":5,"flagged":null}\''
+      ),
+  }),
+  handler: async (input) =>
+    runSavedQuery({
+      name: input.name,
+      params: input.params,
+      overrides: input.overrides,
+    }),
+});
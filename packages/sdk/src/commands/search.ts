@@ -15,6 +15,7 @@ import {
   compileProjection,
   compileSort,
   compileTaskPredicates,
+  resolveTimeZone,
   taskFieldSpec,
   taskGroupKeys,
   listProjectionSchema,
@@ -24,6 +25,15 @@ import {
   type TaskQueryOptions,
 } from "../query/index.js";
 
+/**
+ * Task fields with the compact default projection for search results, used
+ * when the caller doesn't pass `fields`.
+ */
+const searchFieldSpec = {
+  ...taskFieldSpec,
+  defaultFields: ["id", "name", "projectName"],
+};
+
 /**
  * Options for searching tasks.
  *
@@ -85,6 +95,10 @@ export async function searchTasks(
   );
   if (paginationError) return failure(paginationError);
 
+  // Calendar-day group keys such as dueBucket count days in this zone.
+  const timeZone = resolveTimeZone();
+  if (typeof timeZone !== "string") return failure(timeZone);
+
   const scope = options.scope ?? "both";
   const includeCompleted = options.includeCompleted ?? false;
 
@@ -100,17 +114,11 @@ export async function searchTasks(
     ...(includeCompleted ? {} : { completed: false }),
   };
 
-  // Apply default fields for search results if the caller didn't specify
-  const fieldSpec =
-    options.fields !== undefined
-      ? taskFieldSpec
-      : { ...taskFieldSpec, defaultFields: ["id", "name", "projectName"] };
-
   // Compile each phase
   const pred = compileTaskPredicates(taskOptions);
-  const proj = compileProjection(fieldSpec, taskOptions);
-  const sort = compileSort(fieldSpec, taskOptions);
-  const agg = compileAggregate(taskOptions, taskGroupKeys);
+  const proj = compileProjection(searchFieldSpec, taskOptions);
+  const sort = compileSort(searchFieldSpec, taskOptions);
+  const agg = compileAggregate(taskOptions, taskGroupKeys, timeZone);
 
   const errors = [
     ...pred.validationErrors,
@@ -205,6 +213,7 @@ export const searchTasksDescriptor = defineCommand({
         "When true, return every matching item ignoring --limit/--offset. Mutually exclusive with --limit and --offset."
       ),
   }),
+  fieldSpec: searchFieldSpec,
   handler: async (input) =>
     searchTasks(input.query, {
       scope: input.scope,
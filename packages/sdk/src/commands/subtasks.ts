@@ -9,10 +9,6 @@ import { success, failure } from "../result.js";
 import { ErrorCode, createError } from "../errors.js";
 import {
   validateId,
-  validateDateString,
-  validateTags,
-  validateEstimatedMinutes,
-  validateRepetitionRule,
   validatePaginationParams,
   validateAllFlag,
 } from "../validation.js";
@@ -20,12 +16,24 @@ import { escapeJSString, toOmniJSDate, runOmniJSWrapped } from "../omnijs.js";
 import { buildRRule, repeatMethodToOmniJS } from "./repetition.js";
 import { sanitizeVarName } from "../utils/sanitize.js";
 import { defineCommand } from "../registry/define.js";
+import { validateNewTaskOptions, newTaskPlanStatements } from "./inbox.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
+import {
+  taskSnapshotExpr,
+  recordJournalEntry,
+  type JournalPayload,
+} from "../journal/index.js";
 import {
   buildListQueryBody,
   compileAggregate,
   compileProjection,
   compileSort,
   compileTaskPredicates,
+  resolveTimeZone,
   taskFieldSpec,
   taskGroupKeys,
   listProjectionSchema,
@@ -35,6 +43,15 @@ import {
   type TaskQueryOptions,
 } from "../query/index.js";
 
+/**
+ * Task fields with the compact default projection for subtask results, used
+ * when the caller doesn't pass `fields`.
+ */
+const subtaskFieldSpec = {
+  ...taskFieldSpec,
+  defaultFields: ["id", "name", "completed", "flagged"],
+};
+
 /**
  * Serialize a task with children info as a JS expression for OmniJS scripts.
  */
@@ -84,24 +101,8 @@ export async function createSubtask(
     );
   }
 
-  if (options.due !== undefined) {
-    const dueError = validateDateString(options.due);
-    if (dueError) return failure(dueError);
-  }
-
-  if (options.defer !== undefined) {
-    const deferError = validateDateString(options.defer);
-    if (deferError) return failure(deferError);
-  }
-
-  const tagsError = validateTags(options.tags);
-  if (tagsError) return failure(tagsError);
-
-  const estimateError = validateEstimatedMinutes(options.estimatedMinutes);
-  if (estimateError) return failure(estimateError);
-
-  const repeatError = validateRepetitionRule(options.repeat);
-  if (repeatError) return failure(repeatError);
+  const optionsError = validateNewTaskOptions(options);
+  if (optionsError) return failure(optionsError);
 
   // Build the OmniJS script
   const scriptParts: string[] = [];
@@ -180,6 +181,44 @@ var task = new Task("${escapeJSString(title)}", parentTask.ending);`);
   return success(result.data);
 }
 
+/**
+ * Preview {@link createSubtask}: the subtask that would be created.
+ */
+async function planCreateSubtask(
+  title: string,
+  parentTaskId: string,
+  options: InboxOptions = {}
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(parentTaskId, "task");
+  if (idError) return failure(idError);
+
+  if (!title || title.trim() === "") {
+    return failure(
+      createError(ErrorCode.VALIDATION_ERROR, "Task title cannot be empty")
+    );
+  }
+
+  const optionsError = validateNewTaskOptions(options);
+  if (optionsError) return failure(optionsError);
+
+  const body = [
+    `
+var parentTask = Task.byIdentifier("${escapeJSString(parentTaskId)}");
+if (!parentTask) {
+  throw new Error("Parent task not found: ${escapeJSString(parentTaskId)}");
+}
+var after = {
+  name: "${escapeJSString(title)}",
+  project: parentTask.containingProject ? parentTask.containingProject.name : null,
+  parentTask: parentTask.name
+};`,
+    ...newTaskPlanStatements(options),
+    `__planChange("create", "task", null, after.name, {}, after);`,
+  ].join("\n");
+
+  return runPlanScript("createSubtask", body);
+}
+
 /**
  * Options for querying subtasks.
  *
@@ -241,6 +280,10 @@ export async function querySubtasks(
   );
   if (paginationError) return failure(paginationError);
 
+  // Calendar-day group keys such as dueBucket count days in this zone.
+  const timeZone = resolveTimeZone();
+  if (typeof timeZone !== "string") return failure(timeZone);
+
   // Build the task query options: scope to children of the given parent,
   // plus any caller-supplied filters
   const taskOptions: TaskQueryOptions = {
@@ -252,20 +295,11 @@ export async function querySubtasks(
     ...(options.flagged !== undefined ? { flagged: options.flagged } : {}),
   };
 
-  // Apply default fields for subtask results if the caller didn't specify
-  const fieldSpec =
-    options.fields !== undefined
-      ? taskFieldSpec
-      : {
-          ...taskFieldSpec,
-          defaultFields: ["id", "name", "completed", "flagged"],
-        };
-
   // Compile each phase
   const pred = compileTaskPredicates(taskOptions);
-  const proj = compileProjection(fieldSpec, taskOptions);
-  const sort = compileSort(fieldSpec, taskOptions);
-  const agg = compileAggregate(taskOptions, taskGroupKeys);
+  const proj = compileProjection(subtaskFieldSpec, taskOptions);
+  const sort = compileSort(subtaskFieldSpec, taskOptions);
+  const agg = compileAggregate(taskOptions, taskGroupKeys, timeZone);
 
   const errors = [
     ...pred.validationErrors,
@@ -358,6 +392,7 @@ export async function moveTaskToParent(
 
   const body = `
 ${serializeTaskWithChildrenExpr}
+${taskSnapshotExpr}
 
 var task = Task.byIdentifier("${escapeJSString(taskId)}");
 if (!task) {
@@ -369,11 +404,16 @@ if (!parentTask) {
   throw new Error("Parent task not found: ${escapeJSString(parentTaskId)}");
 }
 
+var before = __snapshotTask(task, false);
 moveTasks([task], parentTask.ending);
 
-return JSON.stringify(serializeTaskWithChildren(task, parentTask));`;
+var moved = serializeTaskWithChildren(task, parentTask);
+moved.__journal = [{ taskId: task.id.primaryKey, before: before, after: __snapshotTask(task, false) }];
+return JSON.stringify(moved);`;
 
-  const result = await runOmniJSWrapped<OFTaskWithChildren>(body);
+  const result = await runOmniJSWrapped<OFTaskWithChildren & JournalPayload>(
+    body
+  );
 
   if (!result.success) {
     return failure(
@@ -388,7 +428,42 @@ return JSON.stringify(serializeTaskWithChildren(task, parentTask));`;
     );
   }
 
-  return success(result.data);
+  const { __journal, ...task } = result.data;
+  recordJournalEntry("moveTaskToParent", __journal);
+  return success(task);
+}
+
+/**
+ * Preview {@link moveTaskToParent}: the task's new location.
+ */
+async function planMoveTaskToParent(
+  taskId: string,
+  parentTaskId: string
+): Promise<CliOutput<DryRunPlan>> {
+  const taskIdError = validateId(taskId, "task");
+  if (taskIdError) return failure(taskIdError);
+
+  const parentIdError = validateId(parentTaskId, "task");
+  if (parentIdError) return failure(parentIdError);
+
+  const body = `
+var task = Task.byIdentifier("${escapeJSString(taskId)}");
+if (!task) {
+  throw new Error("Task not found: ${escapeJSString(taskId)}");
+}
+
+var parentTask = Task.byIdentifier("${escapeJSString(parentTaskId)}");
+if (!parentTask) {
+  throw new Error("Parent task not found: ${escapeJSString(parentTaskId)}");
+}
+
+var before = __taskState(task);
+var after = __planCopy(before);
+after.project = parentTask.containingProject ? parentTask.containingProject.name : null;
+after.parentTask = parentTask.name;
+__planChange("update", "task", task.id.primaryKey, task.name, before, after);`;
+
+  return runPlanScript("moveTaskToParent", body);
 }
 
 /**
@@ -416,16 +491,23 @@ export const createSubtaskDescriptor = defineCommand({
       .number()
       .optional()
       .describe("Estimated duration in minutes"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    createSubtask(input.title, input.parentTaskId, {
+  handler: async (
+    input
+  ): Promise<CliOutput<OFTaskWithChildren | DryRunPlan>> => {
+    const options: InboxOptions = {
       note: input.note,
       due: input.due,
       defer: input.defer,
       flag: input.flag,
       tags: input.tags,
       estimatedMinutes: input.estimatedMinutes,
-    }),
+    };
+    return input.dryRun === true
+      ? planCreateSubtask(input.title, input.parentTaskId, options)
+      : createSubtask(input.title, input.parentTaskId, options);
+  },
 });
 
 /**
@@ -474,6 +556,7 @@ export const querySubtasksDescriptor = defineCommand({
         "When true, return every matching item ignoring --limit/--offset. Mutually exclusive with --limit and --offset."
       ),
   }),
+  fieldSpec: subtaskFieldSpec,
   handler: async (input) =>
     querySubtasks(input.parentTaskId, {
       completed: input.completed,
@@ -504,6 +587,12 @@ export const moveTaskToParentDescriptor = defineCommand({
   inputSchema: z.object({
     taskId: z.string().describe("ID of the task to move"),
     parentTaskId: z.string().describe("ID of the new parent task"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => moveTaskToParent(input.taskId, input.parentTaskId),
+  handler: async (
+    input
+  ): Promise<CliOutput<OFTaskWithChildren | DryRunPlan>> =>
+    input.dryRun === true
+      ? planMoveTaskToParent(input.taskId, input.parentTaskId)
+      : moveTaskToParent(input.taskId, input.parentTaskId),
 });
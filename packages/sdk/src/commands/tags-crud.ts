@@ -1,5 +1,6 @@
 import { z } from "zod";
 import type {
+  CliError,
   CliOutput,
   CreateTagOptions,
   UpdateTagOptions,
@@ -10,6 +11,11 @@ import { ErrorCode, createError } from "../errors.js";
 import { validateId, validateTagName } from "../validation.js";
 import { escapeJSString, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Result from deleting a tag.
@@ -20,27 +26,41 @@ export interface DeleteTagResult {
 }
 
 /**
- * Create a new tag in OmniFocus.
+ * Validate a tag name and parent reference. `name` is required for create and
+ * optional (undefined) for update.
  */
-export async function createTag(
-  name: string,
-  options: CreateTagOptions = {}
-): Promise<CliOutput<OFTag>> {
-  // Validate tag name (required for create)
-  const nameError = validateTagName(name);
-  if (nameError) return failure(nameError);
+function validateTagInput(
+  name: string | undefined,
+  options: CreateTagOptions
+): CliError | null {
+  if (name !== undefined) {
+    const nameError = validateTagName(name);
+    if (nameError) return nameError;
+  }
 
-  // Validate optional inputs
   if (options.parentTagId !== undefined) {
     const parentIdError = validateId(options.parentTagId, "tag");
-    if (parentIdError) return failure(parentIdError);
+    if (parentIdError) return parentIdError;
   }
 
   if (options.parentTagName !== undefined) {
     const parentNameError = validateTagName(options.parentTagName);
-    if (parentNameError) return failure(parentNameError);
+    if (parentNameError) return parentNameError;
   }
 
+  return null;
+}
+
+/**
+ * Create a new tag in OmniFocus.
+ */
+export async function createTag(
+  name: string,
+  options: CreateTagOptions = {}
+): Promise<CliOutput<OFTag>> {
+  const inputError = validateTagInput(name, options);
+  if (inputError) return failure(inputError);
+
   // Build script parts conditionally
   const scriptParts: string[] = [];
 
@@ -113,21 +133,8 @@ export async function updateTag(
   const idError = validateId(tagId, "tag");
   if (idError) return failure(idError);
 
-  // Validate optional inputs
-  if (options.name !== undefined) {
-    const nameError = validateTagName(options.name);
-    if (nameError) return failure(nameError);
-  }
-
-  if (options.parentTagId !== undefined) {
-    const parentIdError = validateId(options.parentTagId, "tag");
-    if (parentIdError) return failure(parentIdError);
-  }
-
-  if (options.parentTagName !== undefined) {
-    const parentNameError = validateTagName(options.parentTagName);
-    if (parentNameError) return failure(parentNameError);
-  }
+  const inputError = validateTagInput(options.name, options);
+  if (inputError) return failure(inputError);
 
   // Build script parts conditionally
   const scriptParts: string[] = [];
@@ -249,6 +256,126 @@ return JSON.stringify({ tagId: "${escapeJSString(tagId)}", deleted: true });`;
   return success(result.data as DeleteTagResult);
 }
 
+/**
+ * Planning-script statements that resolve the requested parent tag into
+ * `parentName`, or throw.
+ */
+function findParentTagStatements(options: CreateTagOptions): string {
+  const parentRef = options.parentTagId ?? options.parentTagName;
+  if (parentRef === undefined) return "";
+
+  const match =
+    options.parentTagId !== undefined ? "t.id.primaryKey" : "t.name";
+  return `
+var parentTag = flattenedTags.filter(function(t) {
+  return ${match} === "${escapeJSString(parentRef)}";
+})[0];
+if (!parentTag) {
+  throw new Error("Parent tag not found: ${escapeJSString(parentRef)}");
+}
+var parentName = parentTag.name;`;
+}
+
+/**
+ * Planning-script statements that look up the tag or throw.
+ */
+function findTagStatements(tagId: string): string {
+  return `
+var theTag = flattenedTags.filter(function(t) {
+  return t.id.primaryKey === "${escapeJSString(tagId)}";
+})[0];
+if (!theTag) {
+  throw new Error("Tag not found: ${escapeJSString(tagId)}");
+}`;
+}
+
+/**
+ * Preview {@link createTag}.
+ */
+async function planCreateTag(
+  name: string,
+  options: CreateTagOptions
+): Promise<CliOutput<DryRunPlan>> {
+  const inputError = validateTagInput(name, options);
+  if (inputError) return failure(inputError);
+
+  const body = `var parentName = null;
+${findParentTagStatements(options)}
+__planChange("create", "tag", null, "${escapeJSString(name)}", {}, {
+  name: "${escapeJSString(name)}",
+  parentTag: parentName
+});`;
+
+  return runPlanScript("createTag", body);
+}
+
+/**
+ * Preview {@link updateTag}.
+ */
+async function planUpdateTag(
+  tagId: string,
+  options: UpdateTagOptions
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(tagId, "tag");
+  if (idError) return failure(idError);
+
+  const inputError = validateTagInput(options.name, options);
+  if (inputError) return failure(inputError);
+
+  const parts: string[] = [
+    findTagStatements(tagId),
+    `var before = __tagState(theTag);`,
+    `var after = __planCopy(before);`,
+  ];
+
+  if (options.name !== undefined) {
+    parts.push(`after.name = "${escapeJSString(options.name)}";`);
+  }
+
+  if (
+    options.parentTagId !== undefined ||
+    options.parentTagName !== undefined
+  ) {
+    parts.push(findParentTagStatements(options));
+    parts.push(`after.parentTag = parentName;`);
+  }
+
+  parts.push(
+    `__planChange("update", "tag", theTag.id.primaryKey, theTag.name, before, after);`
+  );
+
+  return runPlanScript("updateTag", parts.join("\n"));
+}
+
+/**
+ * Preview {@link deleteTag}: the tag, its child tags, and every task that
+ * would lose one of them.
+ */
+async function planDeleteTag(tagId: string): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(tagId, "tag");
+  if (idError) return failure(idError);
+
+  const body = `${findTagStatements(tagId)}
+var doomed = [theTag].concat(theTag.flattenedTags);
+var doomedIds = doomed.map(function(t) { return t.id.primaryKey; });
+var affected = {};
+doomed.forEach(function(tag) {
+  __planChange("delete", "tag", tag.id.primaryKey, tag.name, __tagState(tag), {});
+  tag.tasks.forEach(function(task) { affected[task.id.primaryKey] = task; });
+});
+Object.keys(affected).forEach(function(id) {
+  var task = affected[id];
+  var before = __taskState(task);
+  var after = __planCopy(before);
+  after.tags = task.tags.filter(function(t) {
+    return doomedIds.indexOf(t.id.primaryKey) === -1;
+  }).map(function(t) { return t.name; });
+  __planChange("update", "task", id, task.name, before, after);
+});`;
+
+  return runPlanScript("deleteTag", body);
+}
+
 /**
  * Centralized descriptor for the `create-tag` command.
  *
@@ -266,12 +393,17 @@ export const createTagDescriptor = defineCommand({
     name: z.string().describe("Tag name"),
     parentTagId: z.string().optional().describe("Parent tag ID"),
     parentTagName: z.string().optional().describe("Parent tag name"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    createTag(input.name, {
+  handler: async (input): Promise<CliOutput<OFTag | DryRunPlan>> => {
+    const options: CreateTagOptions = {
       parentTagId: input.parentTagId,
       parentTagName: input.parentTagName,
-    }),
+    };
+    return input.dryRun === true
+      ? planCreateTag(input.name, options)
+      : createTag(input.name, options);
+  },
 });
 
 /**
@@ -292,13 +424,18 @@ export const updateTagDescriptor = defineCommand({
     name: z.string().optional().describe("New tag name"),
     parentTagId: z.string().optional().describe("New parent tag ID"),
     parentTagName: z.string().optional().describe("New parent tag name"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    updateTag(input.tagId, {
+  handler: async (input): Promise<CliOutput<OFTag | DryRunPlan>> => {
+    const options: UpdateTagOptions = {
       name: input.name,
       parentTagId: input.parentTagId,
       parentTagName: input.parentTagName,
-    }),
+    };
+    return input.dryRun === true
+      ? planUpdateTag(input.tagId, options)
+      : updateTag(input.tagId, options);
+  },
 });
 
 /**
@@ -316,6 +453,8 @@ export const deleteTagDescriptor = defineCommand({
   cliPositional: ["tagId"],
   inputSchema: z.object({
     tagId: z.string().describe("The ID of the tag to delete"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => deleteTag(input.tagId),
+  handler: async (input): Promise<CliOutput<DeleteTagResult | DryRunPlan>> =>
+    input.dryRun === true ? planDeleteTag(input.tagId) : deleteTag(input.tagId),
 });
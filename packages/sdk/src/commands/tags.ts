@@ -57,6 +57,7 @@ export const listTagsDescriptor = defineCommand({
         "When true, return every matching item ignoring --limit/--offset. Mutually exclusive with --limit and --offset."
       ),
   }),
+  fieldSpec: tagFieldSpec,
   handler: async (input) =>
     queryTags({
       parent: input.parent,
@@ -4,6 +4,11 @@ import { success, failure } from "../result.js";
 import { ErrorCode, createError } from "../errors.js";
 import { runOmniJSWrapped, escapeJSString, toOmniJSDate } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
  * Options for exporting to TaskPaper format.
@@ -48,7 +53,7 @@ export interface TaskPaperImportResult {
 /**
  * Parsed TaskPaper item.
  */
-interface ParsedTaskPaperItem {
+export interface ParsedTaskPaperItem {
   type: "project" | "task" | "note";
   name: string;
   indent: number;
@@ -95,7 +100,7 @@ interface ImportResult {
 /**
  * Parse a single line of TaskPaper format.
  */
-function parseTaskPaperLine(line: string): ParsedTaskPaperItem | null {
+export function parseTaskPaperLine(line: string): ParsedTaskPaperItem | null {
   // Count leading tabs for indent
   let indent = 0;
   let content = line;
@@ -455,16 +460,25 @@ function buildTaskPropertyScript(
 }
 
 /**
- * Import tasks from TaskPaper format.
- *
- * The TypeScript-side TaskPaper parser (parseTaskPaperLine) is preserved
- * exactly. After parsing, a single OmniJS script creates all projects and
- * tasks in one execution rather than one round-trip per item.
+ * TaskPaper content grouped for import.
  */
-export async function importTaskPaper(
+interface ParsedImport {
+  /** Projects to (optionally) create — deduplicated, insertion-ordered */
+  projectsToCreate: string[];
+  /** Project name → tasks under it, insertion-ordered */
+  projectTaskMap: Map<string, ParsedTask[]>;
+  /** Tasks with no project, which go to the inbox */
+  inboxTasks: ParsedTask[];
+}
+
+/**
+ * Parse TaskPaper content into the projects and tasks an import would create.
+ * Completed and dropped tasks are skipped.
+ */
+function parseImport(
   content: string,
-  options: TaskPaperImportOptions = {}
-): Promise<CliOutput<TaskPaperImportResult>> {
+  options: TaskPaperImportOptions
+): ParsedImport {
   const lines = content.split("\n");
 
   // Track current project for task assignment
@@ -527,6 +541,25 @@ export async function importTaskPaper(
     // Notes are informational only during import — reserved for future use
   }
 
+  return { projectsToCreate, projectTaskMap, inboxTasks };
+}
+
+/**
+ * Import tasks from TaskPaper format.
+ *
+ * The TypeScript-side TaskPaper parser (parseTaskPaperLine) is preserved
+ * exactly. After parsing, a single OmniJS script creates all projects and
+ * tasks in one execution rather than one round-trip per item.
+ */
+export async function importTaskPaper(
+  content: string,
+  options: TaskPaperImportOptions = {}
+): Promise<CliOutput<TaskPaperImportResult>> {
+  const { projectsToCreate, projectTaskMap, inboxTasks } = parseImport(
+    content,
+    options
+  );
+
   // Build a single OmniJS script that creates everything in one execution.
   // Use deterministic counter-based variable names throughout.
   const scriptParts: string[] = [
@@ -621,6 +654,65 @@ return JSON.stringify({
   });
 }
 
+/**
+ * Preview {@link importTaskPaper}: the projects and tasks it would create.
+ * Tasks whose project neither exists nor would be created are reported as
+ * failed, as the real import would skip them.
+ */
+async function planImportTaskPaper(
+  content: string,
+  options: TaskPaperImportOptions = {}
+): Promise<CliOutput<DryRunPlan>> {
+  const { projectsToCreate, projectTaskMap, inboxTasks } = parseImport(
+    content,
+    options
+  );
+
+  const planTask = (task: ParsedTask, projectExpr: string): string => `
+__planChange("create", "task", null, "${escapeJSString(task.name)}", {}, {
+  name: "${escapeJSString(task.name)}",
+  project: ${projectExpr},
+  flagged: ${String(task.flagged)},
+  dueDate: ${task.due !== null ? toOmniJSDate(task.due) : "null"},
+  deferDate: ${task.defer !== null ? toOmniJSDate(task.defer) : "null"},
+  estimatedMinutes: ${task.estimate !== null ? String(task.estimate) : "null"},
+  tags: __planTags(${JSON.stringify(task.tags)})
+});`;
+
+  const scriptParts: string[] = [`var willCreate = {};`];
+
+  for (const projName of projectsToCreate) {
+    scriptParts.push(`
+if (!flattenedProjects.byName("${escapeJSString(projName)}")) {
+  willCreate["${escapeJSString(projName)}"] = true;
+  __planChange("create", "project", null, "${escapeJSString(projName)}", {}, {
+    name: "${escapeJSString(projName)}",
+    status: "active"
+  });
+}`);
+  }
+
+  for (const [projName, tasks] of projectTaskMap.entries()) {
+    if (tasks.length === 0) continue;
+
+    scriptParts.push(`
+if (flattenedProjects.byName("${escapeJSString(projName)}") || willCreate["${escapeJSString(projName)}"]) {
+${tasks.map((task) => planTask(task, `"${escapeJSString(projName)}"`)).join("\n")}
+} else {
+  __plan.failed.push({
+    id: "${escapeJSString(projName)}",
+    error: "Project not found: ${escapeJSString(projName)}"
+  });
+}`);
+  }
+
+  for (const task of inboxTasks) {
+    scriptParts.push(planTask(task, "null"));
+  }
+
+  return runPlanScript("importTaskPaper", scriptParts.join("\n"));
+}
+
 // ---------------------------------------------------------------------------
 // Centralized descriptors
 // ---------------------------------------------------------------------------
@@ -686,10 +778,17 @@ export const importTaskPaperDescriptor = defineCommand({
       .boolean()
       .optional()
       .describe("Create projects that do not exist"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    importTaskPaper(input.content, {
+  handler: async (
+    input
+  ): Promise<CliOutput<TaskPaperImportResult | DryRunPlan>> => {
+    const options: TaskPaperImportOptions = {
       defaultProject: input.defaultProject,
       createProjects: input.createProjects,
-    }),
+    };
+    return input.dryRun === true
+      ? planImportTaskPaper(input.content, options)
+      : importTaskPaper(input.content, options);
+  },
 });
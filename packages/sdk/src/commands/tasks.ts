@@ -11,7 +11,9 @@ import {
   compileProjection,
   compileSort,
   compileTaskPredicates,
+  resolveTimeZone,
   taskFieldSpec,
+  taskGroupKeys,
   type QueryResult,
 } from "../query/index.js";
 
@@ -51,6 +53,10 @@ export async function queryTasks(
   );
   if (paginationError) return failure(paginationError);
 
+  // Calendar-day group keys such as dueBucket count days in this zone.
+  const timeZone = resolveTimeZone(options.timeZone);
+  if (typeof timeZone !== "string") return failure(timeZone);
+
   // Compile each phase. We collect ALL validation errors before returning so
   // the first one we report is the highest-priority. The order below matches
   // the order a user encounters problems: predicate first, then projection,
@@ -58,7 +64,7 @@ export async function queryTasks(
   const pred = compileTaskPredicates(options);
   const proj = compileProjection(taskFieldSpec, options);
   const sort = compileSort(taskFieldSpec, options);
-  const agg = compileAggregate(options);
+  const agg = compileAggregate(options, taskGroupKeys, timeZone);
 
   const errors = [
     ...pred.validationErrors,
@@ -123,6 +129,14 @@ export const queryTasksDescriptor = defineCommand({
   mcpName: "tasks_list",
   description: "List and filter tasks from OmniFocus.",
   inputSchema: z.object({
+    // ── Query language ─────────────────────────────────────────────────────
+    where: z
+      .string()
+      .optional()
+      .describe(
+        'Filter expression, AND-combined with the other filters. Combine predicates with and/or/not and parentheses, e.g. `flagged and (tag:work or project:"Q4 Launch") and due < +3d and not blocked`. Flags: flagged, completed, dropped, blocked, available, active, deferred, inbox, repeating. Fields: tag:, project:, folder:, parent:, status:, has:(due|defer|note|attachments|subtasks|repetition), name:/note:/text: (contains), name = "…", name ~ "regex", note ~ "regex", due/defer/completed with < <= > >= (due/defer also = and !=), estimate with < <= > >= = != (minutes). Quote values containing spaces or ():<>=!~'
+      ),
+
     // ── Membership predicates ──────────────────────────────────────────────
     project: z
       .union([z.string(), z.array(z.string())])
@@ -142,6 +156,15 @@ export const queryTasksDescriptor = defineCommand({
       .union([z.string(), z.array(z.string())])
       .optional()
       .describe("Filter by folder name (transitive; single value or array)"),
+    projectStatus: z
+      .union([
+        z.enum(["active", "on-hold", "completed", "dropped"]),
+        z.array(z.enum(["active", "on-hold", "completed", "dropped"])),
+      ])
+      .optional()
+      .describe(
+        "Filter by containing project status (single value or array; inbox tasks never match)"
+      ),
 
     // ── Boolean state predicates ───────────────────────────────────────────
     flagged: z.boolean().optional().describe("Filter by flagged status"),
@@ -166,6 +189,12 @@ export const queryTasksDescriptor = defineCommand({
       .boolean()
       .optional()
       .describe("Include only blocked tasks when true"),
+    honorDependencies: z
+      .boolean()
+      .optional()
+      .describe(
+        "Make `blocked` (also in `where`) count tasks with an open blocker added via dependency-add"
+      ),
     available: z
       .boolean()
       .optional()
@@ -220,6 +249,12 @@ export const queryTasksDescriptor = defineCommand({
       ),
 
     // ── Date predicates ────────────────────────────────────────────────────
+    timeZone: z
+      .string()
+      .optional()
+      .describe(
+        "IANA time zone for calendar days in date filters, e.g. 'America/Los_Angeles' (default: OFOCUS_TIME_ZONE, then UTC)"
+      ),
     dueBefore: z
       .string()
       .optional()
@@ -231,7 +266,9 @@ export const queryTasksDescriptor = defineCommand({
     dueOn: z
       .string()
       .optional()
-      .describe("Match tasks whose due date falls on this calendar day (UTC)"),
+      .describe(
+        "Match tasks whose due date falls on this calendar day (see timeZone)"
+      ),
     dueWithin: z
       .string()
       .optional()
@@ -250,7 +287,7 @@ export const queryTasksDescriptor = defineCommand({
       .string()
       .optional()
       .describe(
-        "Match tasks whose defer date falls on this calendar day (UTC)"
+        "Match tasks whose defer date falls on this calendar day (see timeZone)"
       ),
     deferWithin: z
       .string()
@@ -388,12 +425,15 @@ export const queryTasksDescriptor = defineCommand({
         "When true, return every matching task ignoring --limit/--offset. Mutually exclusive with --limit and --offset."
       ),
   }),
+  fieldSpec: taskFieldSpec,
   handler: async (input) =>
     queryTasks({
+      where: input.where,
       project: input.project,
       tag: input.tag,
       tagMode: input.tagMode,
       folder: input.folder,
+      projectStatus: input.projectStatus,
       flagged: input.flagged,
       notFlagged: input.notFlagged,
       completed: input.completed,
@@ -401,6 +441,7 @@ export const queryTasksDescriptor = defineCommand({
       dropped: input.dropped,
       notDropped: input.notDropped,
       blocked: input.blocked,
+      honorDependencies: input.honorDependencies,
       available: input.available,
       inInbox: input.inInbox,
       hasDue: input.hasDue,
@@ -413,6 +454,7 @@ export const queryTasksDescriptor = defineCommand({
       effectivelyCompleted: input.effectivelyCompleted,
       effectivelyDropped: input.effectivelyDropped,
       status: input.status,
+      timeZone: input.timeZone,
       dueBefore: input.dueBefore,
       dueAfter: input.dueAfter,
       dueOn: input.dueOn,
@@ -0,0 +1,508 @@
+import * as fs from "node:fs";
+import { z } from "zod";
+import type { CliOutput } from "../types.js";
+import { success, failure } from "../result.js";
+import { ErrorCode, createError } from "../errors.js";
+import { defineCommand } from "../registry/define.js";
+import {
+  diffFields,
+  dryRunSchema,
+  localPlan,
+  type DryRunPlan,
+  type PlannedChange,
+} from "../dry-run/index.js";
+import { parseTaskPaperLine } from "./taskpaper.js";
+import {
+  TEMPLATE_VERSION,
+  calculateDayOffset,
+  countTemplateTasks,
+  getTemplate,
+  getTemplatePath,
+  listTemplates,
+  parseTemplate,
+  templateState,
+  writeTemplateFile,
+  type ProjectTemplate,
+  type TemplateTask,
+} from "./templates.js";
+
+/**
+ * Result of exporting templates.
+ */
+export interface TemplateExportResult {
+  /** The template bundle, as JSON */
+  content: string;
+  /** Number of templates in the bundle */
+  templateCount: number;
+}
+
+/**
+ * Options for importing templates.
+ */
+export interface TemplateImportOptions {
+  /**
+   * Format of the content: a template bundle or single template (`"json"`),
+   * or a TaskPaper document whose projects become templates
+   * (`"taskpaper"`). Detected from the content when not given.
+   */
+  format?: "json" | "taskpaper" | undefined;
+  /** Replace existing templates with the same names */
+  overwrite?: boolean | undefined;
+  /** Template name for TaskPaper tasks that aren't under a project */
+  name?: string | undefined;
+  /** Date that TaskPaper `@due`/`@defer` dates are made relative to (defaults to today) */
+  baseDate?: string | undefined;
+}
+
+/**
+ * A template written by an import.
+ */
+export interface ImportedTemplate {
+  /** Template name */
+  name: string;
+  /** Number of tasks in the template */
+  taskCount: number;
+  /** Path where the template was saved */
+  path: string;
+  /** Whether it replaced an existing template */
+  replaced: boolean;
+}
+
+/**
+ * Result of importing templates.
+ */
+export interface TemplateImportResult {
+  /** Templates written, in the order they appear in the content */
+  templates: ImportedTemplate[];
+}
+
+/**
+ * Export templates as one bundle file that {@link importTemplates} reads
+ * back: `{ "version": 2, "templates": [...] }`.
+ *
+ * @param names - Templates to export (defaults to all of them)
+ */
+export function exportTemplates(
+  names: string[] = []
+): CliOutput<TemplateExportResult> {
+  let selected = names;
+  if (selected.length === 0) {
+    const listed = listTemplates();
+    if (!listed.success || !listed.data) {
+      return failure(
+        listed.error ??
+          createError(ErrorCode.UNKNOWN_ERROR, "Failed to list templates")
+      );
+    }
+    selected = listed.data.templates.map((t) => t.name);
+  }
+
+  const templates: ProjectTemplate[] = [];
+  for (const name of selected) {
+    const result = getTemplate(name);
+    if (!result.success || !result.data) {
+      return failure(
+        result.error ??
+          createError(
+            ErrorCode.UNKNOWN_ERROR,
+            `Failed to load template ${name}`
+          )
+      );
+    }
+    templates.push(result.data);
+  }
+
+  return success({
+    content: JSON.stringify({ version: TEMPLATE_VERSION, templates }, null, 2),
+    templateCount: templates.length,
+  });
+}
+
+/**
+ * Parse a template bundle, or a single template file. Templates in a bundle
+ * take the bundle's version unless they carry their own.
+ */
+function templatesFromJson(
+  content: string,
+  importedAt: string
+): CliOutput<ProjectTemplate[]> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (err) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Invalid template bundle: ${err instanceof Error ? err.message : String(err)}`
+      )
+    );
+  }
+
+  if (
+    typeof raw !== "object" ||
+    raw === null ||
+    !Array.isArray((raw as { templates?: unknown }).templates)
+  ) {
+    const single = parseTemplate(raw, "in import", () => importedAt);
+    return single.success && single.data
+      ? success([single.data])
+      : failure(
+          single.error ??
+            createError(ErrorCode.VALIDATION_ERROR, "Invalid template")
+        );
+  }
+
+  const bundle = raw as { version?: unknown; templates: unknown[] };
+  const templates: ProjectTemplate[] = [];
+  for (const [i, entry] of bundle.templates.entries()) {
+    const withVersion =
+      typeof entry === "object" && entry !== null && !Array.isArray(entry)
+        ? { version: bundle.version, ...entry }
+        : entry;
+    const parsed = parseTemplate(
+      withVersion,
+      `templates.${String(i)} in bundle`,
+      () => importedAt
+    );
+    if (!parsed.success || !parsed.data) {
+      return failure(
+        parsed.error ??
+          createError(ErrorCode.VALIDATION_ERROR, "Invalid template")
+      );
+    }
+    templates.push(parsed.data);
+  }
+  return success(templates);
+}
+
+/**
+ * Turn a TaskPaper document into templates: each project becomes a template
+ * named after it, indented tasks become action groups and note lines attach
+ * to the task above them (or to the project). Done and dropped tasks are left
+ * out, and `@due`/`@defer` dates become offsets from the base date.
+ */
+function templatesFromTaskPaper(
+  content: string,
+  options: TemplateImportOptions,
+  baseDate: Date,
+  importedAt: string
+): CliOutput<ProjectTemplate[]> {
+  const templates: ProjectTemplate[] = [];
+  let template: ProjectTemplate | null = null;
+  let projectIndent = -1;
+  // Open tasks, innermost last, that later lines may nest under
+  let stack: { indent: number; task: TemplateTask }[] = [];
+  let lastTask: TemplateTask | null = null;
+  // Indent of a done or dropped task whose subtree is being skipped
+  let skipAbove: number | null = null;
+
+  const newTemplate = (name: string): ProjectTemplate => {
+    const created: ProjectTemplate = {
+      name,
+      description: null,
+      sequential: false,
+      note: null,
+      defaultFolder: null,
+      tasks: [],
+      createdAt: importedAt,
+      sourceProject: null,
+    };
+    templates.push(created);
+    stack = [];
+    lastTask = null;
+    skipAbove = null;
+    return created;
+  };
+
+  for (const line of content.split("\n")) {
+    const item = parseTaskPaperLine(line);
+    if (!item) continue;
+
+    if (skipAbove !== null && item.indent > skipAbove) continue;
+    skipAbove = null;
+
+    if (item.type === "project") {
+      template = newTemplate(item.name);
+      projectIndent = item.indent;
+      continue;
+    }
+
+    if (item.type === "note") {
+      if (lastTask !== null) {
+        lastTask.note = lastTask.note
+          ? `${lastTask.note}\n${item.name}`
+          : item.name;
+      } else if (template !== null) {
+        template.note = template.note
+          ? `${template.note}\n${item.name}`
+          : item.name;
+      }
+      continue;
+    }
+
+    if (item.completed || item.dropped) {
+      skipAbove = item.indent;
+      continue;
+    }
+
+    if (template === null || item.indent <= projectIndent) {
+      if (options.name === undefined) {
+        return failure(
+          createError(
+            ErrorCode.VALIDATION_ERROR,
+            `Task "${item.name}" is not under a project`,
+            "Give a template name for tasks outside projects"
+          )
+        );
+      }
+      template =
+        templates.find((t) => t.name === options.name) ??
+        newTemplate(options.name);
+      projectIndent = -1;
+    }
+
+    const task: TemplateTask = {
+      title: item.name,
+      note: null,
+      flagged: item.flagged,
+      estimatedMinutes: item.estimate,
+      tags: item.tags,
+      deferOffsetDays: calculateDayOffset(item.defer, baseDate),
+      dueOffsetDays: calculateDayOffset(item.due, baseDate),
+    };
+
+    while ((stack[stack.length - 1]?.indent ?? -1) >= item.indent) {
+      stack.pop();
+    }
+    const parent = stack[stack.length - 1]?.task;
+    if (parent) {
+      parent.children = [...(parent.children ?? []), task];
+    } else {
+      template.tasks.push(task);
+    }
+    stack.push({ indent: item.indent, task });
+    lastTask = task;
+  }
+
+  if (templates.length === 0) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        "No templates found: the TaskPaper content has no projects or tasks"
+      )
+    );
+  }
+  return success(templates);
+}
+
+/**
+ * Parse the content of an import into templates, and check that they can be
+ * written: no two share a file, and none replaces an existing template
+ * unless `overwrite` is set.
+ */
+function resolveImport(
+  content: string,
+  options: TemplateImportOptions
+): CliOutput<ProjectTemplate[]> {
+  const baseDate = options.baseDate ? new Date(options.baseDate) : new Date();
+  if (options.baseDate && Number.isNaN(baseDate.getTime())) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Invalid base date: ${options.baseDate}`
+      )
+    );
+  }
+
+  const importedAt = new Date().toISOString();
+  const format =
+    options.format ??
+    (content.trimStart().startsWith("{") ? "json" : "taskpaper");
+  const parsed =
+    format === "json"
+      ? templatesFromJson(content, importedAt)
+      : templatesFromTaskPaper(content, options, baseDate, importedAt);
+  if (!parsed.success || !parsed.data) return parsed;
+
+  const paths = new Map<string, string>();
+  for (const template of parsed.data) {
+    const templatePath = getTemplatePath(template.name);
+    const clash = paths.get(templatePath);
+    if (clash !== undefined) {
+      return failure(
+        createError(
+          ErrorCode.VALIDATION_ERROR,
+          `Templates "${clash}" and "${template.name}" would be saved to the same file`
+        )
+      );
+    }
+    paths.set(templatePath, template.name);
+
+    if (options.overwrite !== true && fs.existsSync(templatePath)) {
+      return failure(
+        createError(
+          ErrorCode.VALIDATION_ERROR,
+          `Template already exists: ${template.name}`,
+          "Import with overwrite to replace it"
+        )
+      );
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Import templates from a bundle written by {@link exportTemplates}, a single
+ * template file, or a TaskPaper document. Older template versions are
+ * migrated, and nothing is written unless every template is valid.
+ */
+export function importTemplates(
+  content: string,
+  options: TemplateImportOptions = {}
+): CliOutput<TemplateImportResult> {
+  const resolved = resolveImport(content, options);
+  if (!resolved.success || !resolved.data) {
+    return failure(
+      resolved.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to import templates")
+    );
+  }
+
+  const templates = resolved.data.map((template) => {
+    const replaced = fs.existsSync(getTemplatePath(template.name));
+    return {
+      name: template.name,
+      taskCount: countTemplateTasks(template.tasks),
+      path: writeTemplateFile(template),
+      replaced,
+    };
+  });
+
+  return success({ templates });
+}
+
+/**
+ * Preview {@link importTemplates}: each template it would create, or the
+ * changes to each one it would replace.
+ */
+function planImportTemplates(
+  content: string,
+  options: TemplateImportOptions
+): CliOutput<DryRunPlan> {
+  const resolved = resolveImport(content, options);
+  if (!resolved.success || !resolved.data) {
+    return failure(
+      resolved.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to import templates")
+    );
+  }
+
+  const changes = resolved.data.map((template): PlannedChange => {
+    const after = templateState(template);
+    const existing = fs.existsSync(getTemplatePath(template.name))
+      ? getTemplate(template.name).data
+      : undefined;
+    return existing
+      ? {
+          action: "update",
+          entity: "template",
+          id: existing.name,
+          name: template.name,
+          fields: diffFields(templateState(existing), after),
+        }
+      : {
+          action: "create",
+          entity: "template",
+          id: null,
+          name: template.name,
+          fields: diffFields({}, after),
+        };
+  });
+
+  return success(localPlan("importTemplates", { changes }));
+}
+
+// ---------------------------------------------------------------------------
+// Centralized descriptors
+// ---------------------------------------------------------------------------
+
+/**
+ * Centralized descriptor for the `template-export` command.
+ *
+ * Drives CLI subcommand `template-export` and MCP tool `template_export`.
+ *
+ * @public
+ */
+export const exportTemplatesDescriptor = defineCommand({
+  name: "exportTemplates",
+  cliName: "template-export",
+  mcpName: "template_export",
+  description:
+    "Export saved templates as one versioned JSON bundle that template-import reads",
+  cliPositional: ["names"] as const,
+  inputSchema: z.object({
+    names: z
+      .array(z.string())
+      .optional()
+      .describe("Templates to export (defaults to all)"),
+  }),
+  handler: async (input) => Promise.resolve(exportTemplates(input.names)),
+});
+
+/**
+ * Centralized descriptor for the `template-import` command.
+ *
+ * Drives MCP tool `template_import`; the CLI's `template-import` is
+ * hand-wired to read the content from a file.
+ *
+ * @public
+ */
+export const importTemplatesDescriptor = defineCommand({
+  name: "importTemplates",
+  cliName: "template-import",
+  mcpName: "template_import",
+  description:
+    "Import templates from a template-export bundle, a single template file or a TaskPaper document (each project becomes a template)",
+  inputSchema: z.object({
+    content: z
+      .string()
+      .describe("Template bundle JSON, template JSON or TaskPaper content"),
+    format: z
+      .enum(["json", "taskpaper"])
+      .optional()
+      .describe("Content format (detected when omitted)"),
+    overwrite: z
+      .boolean()
+      .optional()
+      .describe("Replace existing templates with the same names"),
+    name: z
+      .string()
+      .optional()
+      .describe(
+        "Template name for TaskPaper tasks that aren't under a project"
+      ),
+    baseDate: z
+      .string()
+      .optional()
+      .describe(
+        "Date TaskPaper @due/@defer dates are made relative to (defaults to today)"
+      ),
+    ...dryRunSchema,
+  }),
+  handler: async (
+    input
+  ): Promise<CliOutput<TemplateImportResult | DryRunPlan>> => {
+    const options: TemplateImportOptions = {
+      format: input.format,
+      overwrite: input.overwrite,
+      name: input.name,
+      baseDate: input.baseDate,
+    };
+    return Promise.resolve(
+      input.dryRun === true
+        ? planImportTemplates(input.content, options)
+        : importTemplates(input.content, options)
+    );
+  },
+});
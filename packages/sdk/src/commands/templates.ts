@@ -2,13 +2,65 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
 import { z } from "zod";
-import type { CliOutput, OFTask, OFProject } from "../types.js";
-import { success, failureMessage } from "../result.js";
+import type {
+  CliError,
+  CliOutput,
+  CreateProjectOptions,
+  OFTask,
+  OFProject,
+  RepetitionRule,
+} from "../types.js";
+import { success, failure, failureMessage } from "../result.js";
+import { ErrorCode, createError } from "../errors.js";
+import { validateRepetitionRule } from "../validation.js";
+import { parseDate } from "../query/dates.js";
 import { queryTasks } from "./tasks.js";
 import { queryProjects } from "./projects.js";
-import { createProject } from "./create-project.js";
+import {
+  createProject,
+  createProjectPlanStatements,
+  validateCreateProjectInput,
+} from "./create-project.js";
+import {
+  buildRRule,
+  repeatMethodToOmniJS,
+  RepetitionRuleSchema,
+} from "./repetition.js";
 import { escapeJSString, toOmniJSDate, runOmniJSWrapped } from "../omnijs.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  diffFields,
+  dryRunSchema,
+  localPlan,
+  runPlanScript,
+  type DryRunPlan,
+  type PlannedChange,
+} from "../dry-run/index.js";
+
+/**
+ * A variable that a template's `{{name}}` placeholders, `when` conditions and
+ * `anchor` milestones refer to.
+ *
+ * Variables used without being declared are required: strings for
+ * placeholders, booleans for conditions and dates for anchors.
+ */
+export interface TemplateVariable {
+  /** Variable name, as written between the braces of a placeholder */
+  name: string;
+  /**
+   * `"string"` (the default) is text for placeholders, `"boolean"` toggles
+   * optional sections and `"date"` is a milestone that task offsets can
+   * count from.
+   */
+  type?: "string" | "boolean" | "date" | undefined;
+  /** What to ask for when prompting */
+  description?: string | undefined;
+  /**
+   * Value used when none is given; variables without one are required.
+   * Date defaults may be relative (`+14d`), counted from the base date.
+   */
+  default?: string | boolean | undefined;
+}
 
 /**
  * A task within a template (without OmniFocus-specific IDs).
@@ -28,6 +80,19 @@ export interface TemplateTask {
   deferOffsetDays: number | null;
   /** Relative due offset in days from project creation (null = no due) */
   dueOffsetDays: number | null;
+  /**
+   * Boolean variable that includes this task, and its children, only when
+   * true; `"!name"` includes it only when false.
+   */
+  when?: string | undefined;
+  /** Date variable that the offsets count from instead of the base date */
+  anchor?: string | undefined;
+  /** Repetition rule for the created task */
+  repeat?: RepetitionRule | undefined;
+  /** Tasks nested under this one, which makes it an action group */
+  children?: TemplateTask[] | undefined;
+  /** Whether the action group's children are done in order (default: parallel) */
+  sequential?: boolean | undefined;
 }
 
 /**
@@ -36,6 +101,8 @@ export interface TemplateTask {
 export interface ProjectTemplate {
   /** Template name */
   name: string;
+  /** Name for created projects, which may use placeholders (defaults to the template name) */
+  projectName?: string | undefined;
   /** Template description */
   description: string | null;
   /** Whether the project is sequential */
@@ -46,6 +113,8 @@ export interface ProjectTemplate {
   defaultFolder: string | null;
   /** Tasks in the template */
   tasks: TemplateTask[];
+  /** Variables the template's placeholders, conditions and milestones use */
+  variables?: TemplateVariable[] | undefined;
   /** Creation timestamp */
   createdAt: string;
   /** Source project name (for reference) */
@@ -105,6 +174,24 @@ export interface DeleteTemplateResult {
   deleted: boolean;
 }
 
+/**
+ * Result of validating a template.
+ */
+export interface TemplateValidationResult {
+  /** Template name */
+  name: string;
+  /** Whether the template can be instantiated as given */
+  valid: boolean;
+  /** Every problem found, including the unknown tags, folder and project */
+  errors: string[];
+  /** Tags the template's tasks use that don't exist (they would be left off) */
+  unknownTags: string[];
+  /** The project's folder, when it doesn't exist */
+  unknownFolder: string | null;
+  /** The new project's name, when a project by that name already exists */
+  existingProject: string | null;
+}
+
 /**
  * Options for saving a template.
  */
@@ -129,6 +216,8 @@ export interface CreateFromTemplateOptions {
   folder?: string | undefined;
   /** Base date for calculating offsets (defaults to today) */
   baseDate?: string | undefined;
+  /** Values for the template's variables, by name */
+  variables?: Record<string, string | boolean> | undefined;
 }
 
 /**
@@ -149,7 +238,7 @@ function ensureTemplatesDir(): void {
 /**
  * Get the path for a template file.
  */
-function getTemplatePath(name: string): string {
+export function getTemplatePath(name: string): string {
   const sanitized = name.replace(/[^a-zA-Z0-9_-]/g, "_");
   return path.join(getTemplatesDir(), `${sanitized}.json`);
 }
@@ -157,7 +246,7 @@ function getTemplatePath(name: string): string {
 /**
  * Calculate day offset from a reference date.
  */
-function calculateDayOffset(
+export function calculateDayOffset(
   dateStr: string | null,
   referenceDate: Date
 ): number | null {
@@ -198,11 +287,11 @@ function taskToTemplateTask(task: OFTask, referenceDate: Date): TemplateTask {
 }
 
 /**
- * Save a project as a template.
+ * Build the template that {@link saveTemplate} would write.
  */
-export async function saveTemplate(
+async function buildTemplate(
   options: SaveTemplateOptions
-): Promise<CliOutput<SaveTemplateResult>> {
+): Promise<CliOutput<ProjectTemplate>> {
   const { name, sourceProject, description } = options;
 
   // Find the source project
@@ -254,18 +343,220 @@ export async function saveTemplate(
     sourceProject: project.name,
   };
 
-  // Save to file
-  ensureTemplatesDir();
-  const templatePath = getTemplatePath(name);
-  fs.writeFileSync(templatePath, JSON.stringify(template, null, 2));
+  return success(template);
+}
+
+/**
+ * Save a project as a template.
+ */
+export async function saveTemplate(
+  options: SaveTemplateOptions
+): Promise<CliOutput<SaveTemplateResult>> {
+  const built = await buildTemplate(options);
+  if (!built.success || !built.data) {
+    return failureMessage(built.error?.message ?? "Failed to build template");
+  }
+  const template = built.data;
+
+  const templatePath = writeTemplateFile(template);
 
   return success({
-    name,
-    taskCount: templateTasks.length,
+    name: template.name,
+    taskCount: countTemplateTasks(template.tasks),
     path: templatePath,
   });
 }
 
+// ---------------------------------------------------------------------------
+// Template files
+// ---------------------------------------------------------------------------
+
+/**
+ * Version of the template file format written by {@link saveTemplate}.
+ * Files without a `version` field are version 1.
+ */
+export const TEMPLATE_VERSION = 2;
+
+/**
+ * Upgrades from each older file version to the next, keyed by the version
+ * they upgrade from.
+ */
+const TEMPLATE_MIGRATIONS: Partial<
+  Record<number, (file: Record<string, unknown>) => Record<string, unknown>>
+> = {
+  // Version 2 added variables, conditions, milestones, repetition and action
+  // groups, all optional, so version 1 templates are valid as they are. Their
+  // tasks may lack `tags` (`JSON.stringify` drops undefined fields), which the
+  // schema defaults.
+  1: (file) => ({ ...file, version: 2 }),
+};
+
+/** A variable name, as written between the braces of a placeholder. */
+const VARIABLE_NAME = /^[A-Za-z_][\w-]*$/;
+
+const templateVariableSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(VARIABLE_NAME, "Expected a name of letters, digits, _ and -"),
+    type: z.enum(["string", "boolean", "date"]).optional(),
+    description: z.string().optional(),
+    default: z.union([z.string(), z.boolean()]).optional(),
+  })
+  .strict();
+
+const templateTaskSchema: z.ZodType<TemplateTask, z.ZodTypeDef, unknown> =
+  z.lazy(() =>
+    z
+      .object({
+        title: z.string().min(1),
+        note: z.string().nullable().default(null),
+        flagged: z.boolean().default(false),
+        estimatedMinutes: z.number().min(0).nullable().default(null),
+        tags: z.array(z.string().min(1)).default([]),
+        deferOffsetDays: z.number().int().nullable().default(null),
+        dueOffsetDays: z.number().int().nullable().default(null),
+        when: z
+          .string()
+          .regex(/^!?[A-Za-z_][\w-]*$/, "Expected a variable name or !name")
+          .optional(),
+        anchor: z
+          .string()
+          .regex(VARIABLE_NAME, "Expected a variable name")
+          .optional(),
+        repeat: RepetitionRuleSchema.optional(),
+        children: z.array(templateTaskSchema).optional(),
+        sequential: z.boolean().optional(),
+      })
+      .strict()
+  );
+
+/**
+ * A template as stored, without its `version`. Everything but the name and
+ * creation time may be left out of hand-written files.
+ */
+const projectTemplateSchema = z
+  .object({
+    name: z.string().min(1),
+    projectName: z.string().min(1).optional(),
+    description: z.string().nullable().default(null),
+    sequential: z.boolean().default(false),
+    note: z.string().nullable().default(null),
+    defaultFolder: z.string().nullable().default(null),
+    tasks: z.array(templateTaskSchema).default([]),
+    variables: z.array(templateVariableSchema).optional(),
+    createdAt: z.string(),
+    sourceProject: z.string().nullable().default(null),
+  })
+  .strict();
+
+/**
+ * Turn the first Zod issue into a `VALIDATION_ERROR` naming its source.
+ */
+function issueError(source: string, error: z.ZodError): CliError {
+  const issue = error.issues[0];
+  const field =
+    issue !== undefined && issue.path.length > 0
+      ? `${issue.path.join(".")}: `
+      : "";
+  return createError(
+    ErrorCode.VALIDATION_ERROR,
+    `Invalid template ${source}: ${field}${issue?.message ?? "Invalid input"}`,
+    JSON.stringify(error.issues)
+  );
+}
+
+/**
+ * Parse a template in any supported file version: migrate it to the current
+ * version, then validate it. `createdAt` supplies the creation time of
+ * hand-written templates that leave it out.
+ */
+export function parseTemplate(
+  raw: unknown,
+  source: string,
+  createdAt: () => string
+): CliOutput<ProjectTemplate> {
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Invalid template ${source}: expected an object`
+      )
+    );
+  }
+
+  let file = raw as Record<string, unknown>;
+  const version = file["version"] ?? 1;
+  if (
+    typeof version !== "number" ||
+    !Number.isInteger(version) ||
+    version < 1
+  ) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Invalid template ${source}: version: expected a positive integer, got ${JSON.stringify(version)}`
+      )
+    );
+  }
+  if (version > TEMPLATE_VERSION) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Template ${source} is version ${String(version)}, but this version of ofocus reads templates up to version ${String(TEMPLATE_VERSION)}`,
+        "Upgrade ofocus to use it"
+      )
+    );
+  }
+  for (let v = version; v < TEMPLATE_VERSION; v++) {
+    const migrate = TEMPLATE_MIGRATIONS[v];
+    if (migrate) file = migrate(file);
+  }
+
+  const { version: _version, ...fields } = file;
+  const parsed = projectTemplateSchema.safeParse({
+    ...fields,
+    createdAt: fields["createdAt"] ?? createdAt(),
+  });
+  if (!parsed.success) return failure(issueError(source, parsed.error));
+  return success(parsed.data);
+}
+
+/**
+ * Read and parse a template file. Files may predate the current version or
+ * be written by hand; a malformed one is a `VALIDATION_ERROR` naming it.
+ */
+function readTemplateFile(filePath: string): CliOutput<ProjectTemplate> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Invalid template file ${filePath}: ${err instanceof Error ? err.message : String(err)}`
+      )
+    );
+  }
+  return parseTemplate(raw, `file ${filePath}`, () =>
+    fs.statSync(filePath).mtime.toISOString()
+  );
+}
+
+/**
+ * Write a template file in the current version, replacing any template of
+ * the same name. Returns its path.
+ */
+export function writeTemplateFile(template: ProjectTemplate): string {
+  ensureTemplatesDir();
+  const templatePath = getTemplatePath(template.name);
+  fs.writeFileSync(
+    templatePath,
+    JSON.stringify({ version: TEMPLATE_VERSION, ...template }, null, 2)
+  );
+  return templatePath;
+}
+
 /**
  * List all available templates.
  */
@@ -278,14 +569,19 @@ export function listTemplates(): CliOutput<ListTemplatesResult> {
   const templates: ListTemplatesResult["templates"] = [];
 
   for (const file of files) {
-    const filePath = path.join(dir, file);
-    const content = fs.readFileSync(filePath, "utf-8");
-    const template = JSON.parse(content) as ProjectTemplate;
+    const parsed = readTemplateFile(path.join(dir, file));
+    if (!parsed.success || !parsed.data) {
+      return failure(
+        parsed.error ??
+          createError(ErrorCode.UNKNOWN_ERROR, `Failed to read ${file}`)
+      );
+    }
+    const template = parsed.data;
 
     templates.push({
       name: template.name,
       description: template.description,
-      taskCount: template.tasks.length,
+      taskCount: countTemplateTasks(template.tasks),
       createdAt: template.createdAt,
       sourceProject: template.sourceProject,
     });
@@ -305,62 +601,333 @@ export function getTemplate(name: string): CliOutput<ProjectTemplate> {
     return failureMessage(`Template not found: ${name}`);
   }
 
-  const content = fs.readFileSync(templatePath, "utf-8");
-  const template = JSON.parse(content) as ProjectTemplate;
+  return readTemplateFile(templatePath);
+}
 
-  return success(normalizeTemplate(template));
+/**
+ * Visit every task in a template, each action group before its children.
+ */
+function forEachTemplateTask(
+  tasks: TemplateTask[],
+  visit: (task: TemplateTask) => void
+): void {
+  for (const task of tasks) {
+    visit(task);
+    forEachTemplateTask(task.children ?? [], visit);
+  }
 }
 
 /**
- * Normalize a template loaded from disk so it satisfies the {@link ProjectTemplate}
- * contract at runtime.
- *
- * Templates are persisted as JSON and read back via `JSON.parse(...) as
- * ProjectTemplate` with no schema validation. Older or hand-edited template
- * files (and templates whose tasks had no tags, since `JSON.stringify` drops
- * `undefined` fields) can therefore come back with a missing `tags` field even
- * though the type declares it non-optional. Default it to an empty array so
- * downstream consumers (task creation) can safely iterate `task.tags`.
- */
-function normalizeTemplate(template: ProjectTemplate): ProjectTemplate {
-  return {
-    ...template,
-    tasks: template.tasks.map((task): TemplateTask => {
-      // `task` originates from `JSON.parse(...) as ProjectTemplate` with no
-      // schema validation, so a persisted task may genuinely lack `tags` even
-      // though the declared type says otherwise. Treat the field as untrusted.
-      const rawTags = (task as { tags?: string[] }).tags;
-      return { ...task, tags: rawTags ?? [] };
-    }),
+ * Count the tasks in a template, including those nested in action groups.
+ */
+export function countTemplateTasks(tasks: TemplateTask[]): number {
+  let count = 0;
+  forEachTemplateTask(tasks, () => {
+    count++;
+  });
+  return count;
+}
+
+// ---------------------------------------------------------------------------
+// Variables
+// ---------------------------------------------------------------------------
+
+/** A `{{name}}` placeholder. */
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/** Accepted spellings of a boolean variable's value. */
+const BOOLEAN_VALUES = new Map([
+  ["true", true],
+  ["yes", true],
+  ["1", true],
+  ["false", false],
+  ["no", false],
+  ["0", false],
+]);
+
+/** A variable's value once resolved: text, a condition or a milestone. */
+type TemplateValue = string | boolean | Date;
+
+/**
+ * A template's variables: the declared ones, then those used without a
+ * declaration, in order of first use.
+ */
+function templateVariables(template: ProjectTemplate): TemplateVariable[] {
+  const variables = [...(template.variables ?? [])];
+  const add = (name: string, type: TemplateVariable["type"]): void => {
+    if (!variables.some((v) => v.name === name)) {
+      variables.push({ name, type });
+    }
+  };
+  const addPlaceholders = (text: string | null | undefined): void => {
+    for (const match of (text ?? "").matchAll(PLACEHOLDER_PATTERN)) {
+      if (match[1] !== undefined) add(match[1], "string");
+    }
   };
+
+  addPlaceholders(template.projectName);
+  addPlaceholders(template.note);
+  addPlaceholders(template.defaultFolder);
+  forEachTemplateTask(template.tasks, (task) => {
+    if (task.when !== undefined) add(task.when.replace(/^!/, ""), "boolean");
+    if (task.anchor !== undefined) add(task.anchor, "date");
+    addPlaceholders(task.title);
+    addPlaceholders(task.note);
+    task.tags.forEach(addPlaceholders);
+  });
+  return variables;
+}
+
+/**
+ * Get the variables a template takes: the declared ones, then any its
+ * placeholders, conditions or milestones use without a declaration.
+ */
+export function getTemplateVariables(
+  name: string
+): CliOutput<TemplateVariable[]> {
+  const templateResult = getTemplate(name);
+  if (!templateResult.success || !templateResult.data) {
+    return failureMessage(
+      templateResult.error?.message ?? "Failed to load template"
+    );
+  }
+  return success(templateVariables(templateResult.data));
+}
+
+/**
+ * Parse a variable's value for its type. Dates may be relative to the base
+ * date, like `+14d`.
+ */
+function parseVariable(
+  variable: TemplateVariable,
+  raw: string | boolean,
+  baseDate: Date
+): TemplateValue | CliError {
+  switch (variable.type) {
+    case "boolean": {
+      const value =
+        typeof raw === "boolean"
+          ? raw
+          : BOOLEAN_VALUES.get(raw.trim().toLowerCase());
+      return (
+        value ??
+        createError(
+          ErrorCode.VALIDATION_ERROR,
+          `Variable "${variable.name}" must be true or false, got: ${String(raw)}`
+        )
+      );
+    }
+    case "date": {
+      const parsed = parseDate(String(raw), baseDate);
+      return "iso" in parsed
+        ? new Date(parsed.iso)
+        : createError(
+            parsed.code,
+            `Invalid date for variable "${variable.name}": ${parsed.message}`,
+            parsed.details
+          );
+    }
+    default:
+      return String(raw);
+  }
+}
+
+/**
+ * Resolve a template's variables from the given values and the declared
+ * defaults. Every variable without a default must be given, and unknown
+ * variables are rejected.
+ */
+function resolveVariables(
+  template: ProjectTemplate,
+  given: Record<string, string | boolean>,
+  baseDate: Date
+): CliOutput<Map<string, TemplateValue>> {
+  const variables = templateVariables(template);
+  const names = variables.map((v) => v.name);
+
+  const unknown = Object.keys(given).filter((n) => !names.includes(n));
+  if (unknown.length > 0) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Unknown variable${unknown.length === 1 ? "" : "s"} for template "${template.name}": ${unknown.join(", ")}`,
+        names.length > 0
+          ? `Variables: ${names.join(", ")}`
+          : "This template takes no variables"
+      )
+    );
+  }
+
+  const missing = variables.filter(
+    (v) => given[v.name] === undefined && v.default === undefined
+  );
+  if (missing.length > 0) {
+    return failure(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        `Missing variable${missing.length === 1 ? "" : "s"} for template "${template.name}": ${missing.map((v) => v.name).join(", ")}`
+      )
+    );
+  }
+
+  const values = new Map<string, TemplateValue>();
+  for (const variable of variables) {
+    const raw = given[variable.name] ?? variable.default ?? "";
+    const value = parseVariable(variable, raw, baseDate);
+    if (typeof value === "object" && !(value instanceof Date)) {
+      return failure(value);
+    }
+    values.set(variable.name, value);
+  }
+  return success(values);
+}
+
+/**
+ * Replace `{{name}}` placeholders with their values; dates are written as
+ * `YYYY-MM-DD`.
+ */
+function fillPlaceholders(
+  text: string,
+  values: Map<string, TemplateValue>
+): string {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = values.get(name);
+    if (value === undefined) return match;
+    return value instanceof Date
+      ? (value.toISOString().split("T")[0] ?? "")
+      : String(value);
+  });
+}
+
+/**
+ * A template task with its variables filled in and its dates computed.
+ */
+interface InstantiatedTask {
+  title: string;
+  note: string | null;
+  flagged: boolean;
+  estimatedMinutes: number | null;
+  tags: string[];
+  dueDate: string | null;
+  deferDate: string | null;
+  repeat: RepetitionRule | null;
+  /** Whether an action group's children are sequential; null for a plain task */
+  sequential: boolean | null;
+  children: InstantiatedTask[];
 }
 
+/**
+ * Instantiate template tasks: drop the sections whose condition is false,
+ * fill in placeholders and compute dates from the base date or the task's
+ * milestone, which its children inherit.
+ */
+function instantiateTasks(
+  tasks: TemplateTask[],
+  values: Map<string, TemplateValue>,
+  baseDate: Date
+): CliOutput<InstantiatedTask[]> {
+  const instantiated: InstantiatedTask[] = [];
+
+  for (const task of tasks) {
+    const title = fillPlaceholders(task.title, values);
+
+    if (task.when !== undefined) {
+      const name = task.when.replace(/^!/, "");
+      const condition = values.get(name);
+      if (typeof condition !== "boolean") {
+        return failure(
+          createError(
+            ErrorCode.VALIDATION_ERROR,
+            `Task "${title}": variable "${name}" is a condition, so it must be a boolean`
+          )
+        );
+      }
+      if (condition === task.when.startsWith("!")) continue;
+    }
+
+    let anchor = baseDate;
+    if (task.anchor !== undefined) {
+      const milestone = values.get(task.anchor);
+      if (!(milestone instanceof Date)) {
+        return failure(
+          createError(
+            ErrorCode.VALIDATION_ERROR,
+            `Task "${title}": variable "${task.anchor}" is an anchor, so it must be a date`
+          )
+        );
+      }
+      anchor = milestone;
+    }
+
+    const repeatError = validateRepetitionRule(task.repeat);
+    if (repeatError) {
+      return failure(
+        createError(
+          repeatError.code,
+          `Task "${title}": ${repeatError.message}`,
+          repeatError.details
+        )
+      );
+    }
+
+    const children = instantiateTasks(task.children ?? [], values, anchor);
+    if (!children.success || !children.data) return children;
+
+    instantiated.push({
+      title,
+      note: task.note ? fillPlaceholders(task.note, values) : null,
+      flagged: task.flagged,
+      estimatedMinutes: task.estimatedMinutes,
+      tags: task.tags.map((tag) => fillPlaceholders(tag, values)),
+      dueDate: calculateDateFromOffset(task.dueOffsetDays, anchor),
+      deferDate: calculateDateFromOffset(task.deferOffsetDays, anchor),
+      repeat: task.repeat ?? null,
+      sequential: children.data.length > 0 ? (task.sequential ?? false) : null,
+      children: children.data,
+    });
+  }
+
+  return success(instantiated);
+}
+
+// ---------------------------------------------------------------------------
+// Instantiation
+// ---------------------------------------------------------------------------
+
 /**
  * Result shape returned by the OmniJS task-creation script.
  */
 interface CreateTaskResult {
   created: boolean;
+  id: string;
 }
 
 /**
- * Create a task directly in a project via OmniJS.
+ * Create a task via OmniJS, at the end of the project or of an action group
+ * (`parentId`). Returns the new task's ID, or `null` if it wasn't created.
  */
 async function createTaskInProject(
   projectName: string,
-  task: TemplateTask,
-  baseDate: Date
-): Promise<boolean> {
-  const dueDate = calculateDateFromOffset(task.dueOffsetDays, baseDate);
-  const deferDate = calculateDateFromOffset(task.deferOffsetDays, baseDate);
-
+  task: InstantiatedTask,
+  parentId: string | null
+): Promise<string | null> {
   const scriptParts: string[] = [];
 
-  scriptParts.push(`
+  if (parentId === null) {
+    scriptParts.push(`
 var proj = flattenedProjects.byName("${escapeJSString(projectName)}");
 if (!proj) {
   throw new Error("Project not found: ${escapeJSString(projectName)}");
 }
 var newTask = new Task("${escapeJSString(task.title)}", proj.task.ending);`);
+  } else {
+    scriptParts.push(`
+var parentTask = Task.byIdentifier("${escapeJSString(parentId)}");
+if (!parentTask) {
+  throw new Error("Parent task not found: ${escapeJSString(parentId)}");
+}
+var newTask = new Task("${escapeJSString(task.title)}", parentTask.ending);`);
+  }
 
   if (task.note) {
     scriptParts.push(`newTask.note = "${escapeJSString(task.note)}";`);
@@ -370,12 +937,16 @@ var newTask = new Task("${escapeJSString(task.title)}", proj.task.ending);`);
     scriptParts.push(`newTask.flagged = true;`);
   }
 
-  if (dueDate) {
-    scriptParts.push(`newTask.dueDate = ${toOmniJSDate(dueDate)};`);
+  if (task.sequential === true) {
+    scriptParts.push(`newTask.sequential = true;`);
   }
 
-  if (deferDate) {
-    scriptParts.push(`newTask.deferDate = ${toOmniJSDate(deferDate)};`);
+  if (task.dueDate) {
+    scriptParts.push(`newTask.dueDate = ${toOmniJSDate(task.dueDate)};`);
+  }
+
+  if (task.deferDate) {
+    scriptParts.push(`newTask.deferDate = ${toOmniJSDate(task.deferDate)};`);
   }
 
   if (task.estimatedMinutes !== null) {
@@ -384,8 +955,16 @@ var newTask = new Task("${escapeJSString(task.title)}", proj.task.ending);`);
     );
   }
 
-  // `task.tags` is guaranteed to be an array here: templates loaded from disk
-  // are run through normalizeTemplate (which defaults a missing `tags` to []).
+  if (task.repeat !== null) {
+    const rrule = buildRRule(task.repeat);
+    const method = repeatMethodToOmniJS(task.repeat.repeatMethod);
+    scriptParts.push(
+      `newTask.repetitionRule = new Task.RepetitionRule("${escapeJSString(rrule)}", ${method});`
+    );
+  }
+
+  // `task.tags` is guaranteed to be an array here: the template schema
+  // defaults a missing `tags` to [] when templates are read from disk.
   for (const [i, tagName] of task.tags.entries()) {
     const varName = `tag_${String(i)}`;
     scriptParts.push(`
@@ -393,19 +972,54 @@ var ${varName} = flattenedTags.byName("${escapeJSString(tagName)}");
 if (${varName}) { newTask.addTag(${varName}); }`);
   }
 
-  scriptParts.push(`return JSON.stringify({ created: true });`);
+  scriptParts.push(
+    `return JSON.stringify({ created: true, id: newTask.id.primaryKey });`
+  );
 
   const body = scriptParts.join("\n");
   const result = await runOmniJSWrapped<CreateTaskResult>(body);
-  return result.success && (result.data?.created ?? false);
+  return result.success && result.data?.created === true
+    ? result.data.id
+    : null;
 }
 
 /**
- * Create a new project from a template.
+ * Create tasks in order, each action group's children under it once the
+ * group exists. Returns how many were created.
  */
-export async function createFromTemplate(
+async function createTasks(
+  projectName: string,
+  tasks: InstantiatedTask[],
+  parentId: string | null
+): Promise<number> {
+  let created = 0;
+  for (const task of tasks) {
+    const id = await createTaskInProject(projectName, task, parentId);
+    if (id === null) continue;
+    created++;
+    if (task.children.length > 0) {
+      created += await createTasks(projectName, task.children, id);
+    }
+  }
+  return created;
+}
+
+/**
+ * Everything {@link createFromTemplate} needs once the template is loaded.
+ */
+interface TemplateInstantiation {
+  newProjectName: string;
+  projectOptions: CreateProjectOptions;
+  tasks: InstantiatedTask[];
+}
+
+/**
+ * Load the template, resolve its variables and instantiate its project
+ * name, folder, note and tasks for {@link createFromTemplate}.
+ */
+function resolveInstantiation(
   options: CreateFromTemplateOptions
-): Promise<CliOutput<CreateFromTemplateResult>> {
+): CliOutput<TemplateInstantiation> {
   const { templateName, projectName, folder, baseDate } = options;
 
   // Load the template
@@ -421,21 +1035,72 @@ export async function createFromTemplate(
     return failureMessage("Template data is empty");
   }
 
-  const newProjectName = projectName ?? template.name;
-  const targetFolder = folder ?? template.defaultFolder ?? undefined;
-
   // Validate and parse baseDate
   const baseDateObj = baseDate ? new Date(baseDate) : new Date();
   if (baseDate && Number.isNaN(baseDateObj.getTime())) {
     return failureMessage(`Invalid base date: ${baseDate}`);
   }
 
-  // Create the project
-  const projectResult = await createProject(newProjectName, {
-    folderName: targetFolder,
-    sequential: template.sequential,
-    note: template.note ?? undefined,
+  const resolved = resolveVariables(
+    template,
+    options.variables ?? {},
+    baseDateObj
+  );
+  if (!resolved.success || !resolved.data) {
+    return failure(
+      resolved.error ??
+        createError(ErrorCode.VALIDATION_ERROR, "Failed to resolve variables")
+    );
+  }
+  const values = resolved.data;
+
+  const tasks = instantiateTasks(template.tasks, values, baseDateObj);
+  if (!tasks.success || !tasks.data) {
+    return failure(
+      tasks.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to instantiate tasks")
+    );
+  }
+
+  const newProjectName =
+    projectName ??
+    fillPlaceholders(template.projectName ?? template.name, values);
+  const defaultFolder =
+    template.defaultFolder !== null
+      ? fillPlaceholders(template.defaultFolder, values)
+      : undefined;
+
+  return success({
+    newProjectName,
+    projectOptions: {
+      folderName: folder ?? defaultFolder,
+      sequential: template.sequential,
+      note: template.note ? fillPlaceholders(template.note, values) : undefined,
+    },
+    tasks: tasks.data,
   });
+}
+
+/**
+ * Create a new project from a template.
+ *
+ * Placeholders are filled in from `variables`, sections whose condition is
+ * false are left out, and action groups are created with their children.
+ */
+export async function createFromTemplate(
+  options: CreateFromTemplateOptions
+): Promise<CliOutput<CreateFromTemplateResult>> {
+  const resolved = resolveInstantiation(options);
+  if (!resolved.success || !resolved.data) {
+    return failure(
+      resolved.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to load template")
+    );
+  }
+  const { newProjectName, projectOptions, tasks } = resolved.data;
+
+  // Create the project
+  const projectResult = await createProject(newProjectName, projectOptions);
 
   if (!projectResult.success) {
     return failureMessage(
@@ -449,17 +1114,7 @@ export async function createFromTemplate(
   }
 
   // Create tasks from template
-  let tasksCreated = 0;
-  for (const templateTask of template.tasks) {
-    const created = await createTaskInProject(
-      newProjectName,
-      templateTask,
-      baseDateObj
-    );
-    if (created) {
-      tasksCreated++;
-    }
-  }
+  const tasksCreated = await createTasks(newProjectName, tasks, null);
 
   return success({
     projectName: newProjectName,
@@ -487,10 +1142,358 @@ export function deleteTemplate(name: string): CliOutput<DeleteTemplateResult> {
   });
 }
 
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+/**
+ * Result shape returned by the OmniJS lookup of a template's tags, folder and
+ * project.
+ */
+interface TemplateLookupResult {
+  unknownTags: string[];
+  unknownFolder: string | null;
+  existingProject: string | null;
+}
+
+/**
+ * Check what can be checked without OmniFocus: duplicate declarations,
+ * unknown given variables, given values and defaults that don't parse,
+ * conditions and milestones whose variable has the wrong type, and
+ * repetition rules. Returns the problems and the values that resolved.
+ */
+function checkTemplate(
+  template: ProjectTemplate,
+  given: Record<string, string | boolean>,
+  baseDate: Date
+): { errors: string[]; values: Map<string, TemplateValue> } {
+  const errors: string[] = [];
+  const values = new Map<string, TemplateValue>();
+  const variables = templateVariables(template);
+  const names = variables.map((v) => v.name);
+
+  const declared = (template.variables ?? []).map((v) => v.name);
+  const duplicates = declared.filter((n, i) => declared.indexOf(n) !== i);
+  for (const name of new Set(duplicates)) {
+    errors.push(`Variable "${name}" is declared more than once`);
+  }
+
+  const unknown = Object.keys(given).filter((n) => !names.includes(n));
+  if (unknown.length > 0) {
+    errors.push(
+      `Unknown variable${unknown.length === 1 ? "" : "s"}: ${unknown.join(", ")}`
+    );
+  }
+
+  for (const variable of variables) {
+    const raw = given[variable.name] ?? variable.default;
+    if (raw === undefined) continue;
+    const value = parseVariable(variable, raw, baseDate);
+    if (typeof value === "object" && !(value instanceof Date)) {
+      errors.push(value.message);
+    } else {
+      values.set(variable.name, value);
+    }
+  }
+
+  const typeOf = (name: string): TemplateVariable["type"] =>
+    variables.find((v) => v.name === name)?.type ?? "string";
+  forEachTemplateTask(template.tasks, (task) => {
+    if (task.when !== undefined) {
+      const name = task.when.replace(/^!/, "");
+      if (typeOf(name) !== "boolean") {
+        errors.push(
+          `Task "${task.title}": variable "${name}" is a condition, so it must be a boolean`
+        );
+      }
+    }
+    if (task.anchor !== undefined && typeOf(task.anchor) !== "date") {
+      errors.push(
+        `Task "${task.title}": variable "${task.anchor}" is an anchor, so it must be a date`
+      );
+    }
+    const repeatError = validateRepetitionRule(task.repeat);
+    if (repeatError) {
+      errors.push(`Task "${task.title}": ${repeatError.message}`);
+    }
+  });
+
+  return { errors, values };
+}
+
+/**
+ * Validate a template before instantiating it with the given options.
+ *
+ * Besides its variables and repetition rules, this looks up the tags its
+ * tasks use (unknown tags would be silently left off), its folder and
+ * whether a project by the new project's name already exists. Names that
+ * still hold a placeholder for a variable without a value are not looked up.
+ * A template file that doesn't parse is reported as invalid.
+ */
+export async function validateTemplate(
+  options: CreateFromTemplateOptions
+): Promise<CliOutput<TemplateValidationResult>> {
+  const templateResult = getTemplate(options.templateName);
+  if (!templateResult.success || !templateResult.data) {
+    const error =
+      templateResult.error ??
+      createError(ErrorCode.UNKNOWN_ERROR, "Failed to load template");
+    return error.code === ErrorCode.VALIDATION_ERROR
+      ? success({
+          name: options.templateName,
+          valid: false,
+          errors: [error.message],
+          unknownTags: [],
+          unknownFolder: null,
+          existingProject: null,
+        })
+      : failure(error);
+  }
+  const template = templateResult.data;
+
+  const baseDate = options.baseDate ? new Date(options.baseDate) : new Date();
+  if (options.baseDate && Number.isNaN(baseDate.getTime())) {
+    return failureMessage(`Invalid base date: ${options.baseDate}`);
+  }
+
+  const { errors, values } = checkTemplate(
+    template,
+    options.variables ?? {},
+    baseDate
+  );
+
+  const resolved = (text: string | null | undefined): string | null => {
+    if (!text) return null;
+    const filled = fillPlaceholders(text, values);
+    return filled.search(PLACEHOLDER_PATTERN) === -1 ? filled : null;
+  };
+  const tags = new Set<string>();
+  forEachTemplateTask(template.tasks, (task) => {
+    for (const tag of task.tags) {
+      const name = resolved(tag);
+      if (name !== null) tags.add(name);
+    }
+  });
+  const folder = options.folder ?? resolved(template.defaultFolder);
+  const projectName =
+    options.projectName ?? resolved(template.projectName ?? template.name);
+
+  if (projectName !== null) {
+    const inputError = validateCreateProjectInput(projectName, {
+      folderName: folder ?? undefined,
+    });
+    if (inputError) errors.push(inputError.message);
+  }
+
+  const body = `
+var unknownTags = ${JSON.stringify([...tags])}.filter(function (name) {
+  return !flattenedTags.byName(name);
+});
+var folderName = ${folder !== null ? `"${escapeJSString(folder)}"` : "null"};
+var projectName = ${projectName !== null ? `"${escapeJSString(projectName)}"` : "null"};
+return JSON.stringify({
+  unknownTags: unknownTags,
+  unknownFolder: folderName !== null && !flattenedFolders.byName(folderName) ? folderName : null,
+  existingProject: projectName !== null && flattenedProjects.byName(projectName) ? projectName : null
+});`;
+
+  const lookup = await runOmniJSWrapped<TemplateLookupResult>(body);
+  if (!lookup.success || !lookup.data) {
+    return failure(
+      lookup.error ??
+        createError(
+          ErrorCode.UNKNOWN_ERROR,
+          "Failed to look up the template's tags, folder and project"
+        )
+    );
+  }
+  const { unknownTags, unknownFolder, existingProject } = lookup.data;
+
+  if (unknownTags.length > 0) {
+    errors.push(
+      `Tag${unknownTags.length === 1 ? "" : "s"} not found: ${unknownTags.join(", ")}`
+    );
+  }
+  if (unknownFolder !== null) {
+    errors.push(`Folder not found: ${unknownFolder}`);
+  }
+  if (existingProject !== null) {
+    errors.push(`Project already exists: ${existingProject}`);
+  }
+
+  return success({
+    name: template.name,
+    valid: errors.length === 0,
+    errors,
+    unknownTags,
+    unknownFolder,
+    existingProject,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Dry-run previews
+// ---------------------------------------------------------------------------
+
+/**
+ * The attributes of a template reported in a plan (everything but its
+ * creation timestamp, which changes on every save).
+ */
+export function templateState(
+  template: ProjectTemplate
+): Record<string, unknown> {
+  const { createdAt: _createdAt, ...state } = template;
+  return state;
+}
+
+/**
+ * Preview {@link saveTemplate}: a new template, or the changes to the one it
+ * would overwrite.
+ */
+async function planSaveTemplate(
+  options: SaveTemplateOptions
+): Promise<CliOutput<DryRunPlan>> {
+  const built = await buildTemplate(options);
+  if (!built.success || !built.data) {
+    return failureMessage(built.error?.message ?? "Failed to build template");
+  }
+
+  const after = templateState(built.data);
+  const existing = getTemplate(built.data.name);
+  const change: PlannedChange = existing.data
+    ? {
+        action: "update",
+        entity: "template",
+        id: existing.data.name,
+        name: existing.data.name,
+        fields: diffFields(templateState(existing.data), after),
+      }
+    : {
+        action: "create",
+        entity: "template",
+        id: null,
+        name: built.data.name,
+        fields: diffFields({}, after),
+      };
+
+  return success(localPlan("saveTemplate", { changes: [change] }));
+}
+
+/**
+ * Plan statements creating instantiated tasks, each action group's children
+ * under it.
+ */
+function taskPlanStatements(
+  projectName: string,
+  tasks: InstantiatedTask[],
+  parentTitle: string | null
+): string[] {
+  return tasks.flatMap((task) => {
+    const repetitionRule =
+      task.repeat !== null
+        ? `__planRule(new Task.RepetitionRule("${escapeJSString(buildRRule(task.repeat))}", ${repeatMethodToOmniJS(task.repeat.repeatMethod)}))`
+        : "null";
+    return [
+      `
+__planChange("create", "task", null, "${escapeJSString(task.title)}", {}, {
+  name: "${escapeJSString(task.title)}",
+  note: ${task.note ? `"${escapeJSString(task.note)}"` : "null"},
+  project: "${escapeJSString(projectName)}",
+  parentTask: ${parentTitle !== null ? `"${escapeJSString(parentTitle)}"` : "null"},
+  sequential: ${task.sequential !== null ? String(task.sequential) : "null"},
+  flagged: ${String(task.flagged)},
+  dueDate: ${task.dueDate ? toOmniJSDate(task.dueDate) : "null"},
+  deferDate: ${task.deferDate ? toOmniJSDate(task.deferDate) : "null"},
+  estimatedMinutes: ${task.estimatedMinutes !== null ? String(task.estimatedMinutes) : "null"},
+  repetitionRule: ${repetitionRule},
+  tags: __planTags(${JSON.stringify(task.tags)})
+});`,
+      ...taskPlanStatements(projectName, task.children, task.title),
+    ];
+  });
+}
+
+/**
+ * Preview {@link createFromTemplate}: the project and each of its tasks, with
+ * the variables filled in and the dates computed from the template offsets.
+ */
+async function planCreateFromTemplate(
+  options: CreateFromTemplateOptions
+): Promise<CliOutput<DryRunPlan>> {
+  const resolved = resolveInstantiation(options);
+  if (!resolved.success || !resolved.data) {
+    return failure(
+      resolved.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to load template")
+    );
+  }
+  const { newProjectName, projectOptions, tasks } = resolved.data;
+
+  const inputError = validateCreateProjectInput(newProjectName, projectOptions);
+  if (inputError) return failure(inputError);
+
+  const parts: string[] = [
+    createProjectPlanStatements(newProjectName, projectOptions),
+    ...taskPlanStatements(newProjectName, tasks, null),
+  ];
+
+  return runPlanScript("createFromTemplate", parts.join("\n"));
+}
+
+/**
+ * Preview {@link deleteTemplate}.
+ */
+function planDeleteTemplate(name: string): CliOutput<DryRunPlan> {
+  const existing = getTemplate(name);
+  if (!existing.success || !existing.data) {
+    return failureMessage(`Template not found: ${name}`);
+  }
+
+  return success(
+    localPlan("deleteTemplate", {
+      changes: [
+        {
+          action: "delete",
+          entity: "template",
+          id: existing.data.name,
+          name: existing.data.name,
+          fields: diffFields(templateState(existing.data), {}),
+        },
+      ],
+    })
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Centralized descriptors
 // ---------------------------------------------------------------------------
 
+/**
+ * Template variable values: `key=value` strings (CLI) or an object (MCP),
+ * parsed into an object.
+ */
+const templateVarsSchema = z
+  .union([
+    z.array(z.string()),
+    z.record(z.string(), z.union([z.string(), z.boolean()])),
+  ])
+  .transform((value, ctx) => {
+    if (!Array.isArray(value)) return value;
+    const vars: Record<string, string> = {};
+    for (const entry of value) {
+      const eq = entry.indexOf("=");
+      if (eq <= 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Expected key=value, got: ${entry}`,
+        });
+        return z.NEVER;
+      }
+      vars[entry.slice(0, eq).trim()] = entry.slice(eq + 1);
+    }
+    return vars;
+  });
+
 /**
  * Centralized descriptor for the `template-save` command.
  *
@@ -510,13 +1513,20 @@ export const saveTemplateDescriptor = defineCommand({
       .string()
       .describe("Project ID or name to save as template"),
     description: z.string().optional().describe("Template description"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    saveTemplate({
+  handler: async (
+    input
+  ): Promise<CliOutput<SaveTemplateResult | DryRunPlan>> => {
+    const options: SaveTemplateOptions = {
       name: input.name,
       sourceProject: input.sourceProject,
       description: input.description,
-    }),
+    };
+    return input.dryRun === true
+      ? planSaveTemplate(options)
+      : saveTemplate(options);
+  },
 });
 
 /**
@@ -565,7 +1575,8 @@ export const createFromTemplateDescriptor = defineCommand({
   name: "createFromTemplate",
   cliName: "template-create",
   mcpName: "template_create_project",
-  description: "Create a new project from a saved template",
+  description:
+    "Create a new project from a saved template, filling in its {{variables}}",
   cliPositional: ["templateName"] as const,
   inputSchema: z.object({
     templateName: z.string().describe("Name of the template to instantiate"),
@@ -578,14 +1589,27 @@ export const createFromTemplateDescriptor = defineCommand({
       .string()
       .optional()
       .describe("Base date for calculating date offsets (defaults to today)"),
+    var: templateVarsSchema
+      .optional()
+      .describe(
+        "Template variable values, as key=value pairs (CLI: --var client=Acme --var rush=true) or an object"
+      ),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    createFromTemplate({
+  handler: async (
+    input
+  ): Promise<CliOutput<CreateFromTemplateResult | DryRunPlan>> => {
+    const options: CreateFromTemplateOptions = {
       templateName: input.templateName,
       projectName: input.projectName,
       folder: input.folder,
       baseDate: input.baseDate,
-    }),
+      variables: input.var,
+    };
+    return input.dryRun === true
+      ? planCreateFromTemplate(options)
+      : createFromTemplate(options);
+  },
 });
 
 /**
@@ -603,6 +1627,58 @@ export const deleteTemplateDescriptor = defineCommand({
   cliPositional: ["templateName"] as const,
   inputSchema: z.object({
     templateName: z.string().describe("Name of the template to delete"),
+    ...dryRunSchema,
   }),
-  handler: async (input) => Promise.resolve(deleteTemplate(input.templateName)),
+  handler: async (
+    input
+  ): Promise<CliOutput<DeleteTemplateResult | DryRunPlan>> =>
+    Promise.resolve(
+      input.dryRun === true
+        ? planDeleteTemplate(input.templateName)
+        : deleteTemplate(input.templateName)
+    ),
+});
+
+/**
+ * Centralized descriptor for the `template-validate` command.
+ *
+ * Drives CLI subcommand `template-validate` and MCP tool `template_validate`.
+ *
+ * @public
+ */
+export const validateTemplateDescriptor = defineCommand({
+  name: "validateTemplate",
+  cliName: "template-validate",
+  mcpName: "template_validate",
+  description:
+    "Check a template before creating a project from it: its variables and repetition rules, unknown tags, a missing folder and an existing project of the same name",
+  cliPositional: ["templateName"] as const,
+  inputSchema: z.object({
+    templateName: z.string().describe("Name of the template to validate"),
+    projectName: z
+      .string()
+      .optional()
+      .describe("Name the new project would have (defaults to template name)"),
+    folder: z
+      .string()
+      .optional()
+      .describe("Folder the project would be created in"),
+    baseDate: z
+      .string()
+      .optional()
+      .describe("Base date for relative date variables (defaults to today)"),
+    var: templateVarsSchema
+      .optional()
+      .describe(
+        "Template variable values, as key=value pairs (CLI: --var client=Acme) or an object"
+      ),
+  }),
+  handler: async (input) =>
+    validateTemplate({
+      templateName: input.templateName,
+      projectName: input.projectName,
+      folder: input.folder,
+      baseDate: input.baseDate,
+      variables: input.var,
+    }),
 });
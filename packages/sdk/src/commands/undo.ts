@@ -0,0 +1,572 @@
+import { z } from "zod";
+import type { CliOutput } from "../types.js";
+import { success, failure } from "../result.js";
+import { ErrorCode, createError } from "../errors.js";
+import { runOmniJSWrapped } from "../omnijs.js";
+import { defineCommand } from "../registry/define.js";
+import {
+  diffFields,
+  dryRunSchema,
+  localPlan,
+  type DryRunPlan,
+  type PlannedChange,
+} from "../dry-run/index.js";
+import {
+  taskSnapshotExpr,
+  restoreTaskExpr,
+  diffTaskSnapshots,
+  readJournal,
+  writeJournal,
+  remapJournalIds,
+  type JournalEntry,
+  type TaskSnapshot,
+} from "../journal/index.js";
+
+/**
+ * A task that no longer matches the state the journal expects.
+ */
+export interface JournalConflict {
+  taskId: string;
+  taskName: string;
+  /**
+   * `missing`: the task was deleted since; `exists`: a task the entry deleted
+   * is present again; `modified`: the attributes in `fields` were changed.
+   */
+  reason: "missing" | "exists" | "modified";
+  fields: string[];
+}
+
+/**
+ * Summary of a journal entry.
+ */
+export interface JournalEntrySummary {
+  id: string;
+  command: string;
+  timestamp: string;
+  tasks: { id: string; name: string }[];
+}
+
+/**
+ * Result of `undo` / `redo`.
+ */
+export interface ReplayResult {
+  entry: JournalEntrySummary;
+  /** False when conflicts were found and `force` was not set; nothing was changed. */
+  applied: boolean;
+  conflicts: JournalConflict[];
+}
+
+/**
+ * Options for `undo` / `redo`.
+ */
+export interface ReplayOptions {
+  /** Apply even if tasks changed since the entry was recorded. */
+  force?: boolean | undefined;
+}
+
+/**
+ * A journal entry in `history`, with whether it is currently undone.
+ */
+export interface HistoryItem extends JournalEntrySummary {
+  status: "applied" | "undone";
+}
+
+/**
+ * Result of `history`.
+ */
+export interface HistoryResult {
+  /** Newest first. */
+  entries: HistoryItem[];
+  undoAvailable: number;
+  redoAvailable: number;
+}
+
+/**
+ * Options for `history`.
+ */
+export interface HistoryOptions {
+  /** Maximum entries to return (default: 20). */
+  limit?: number | undefined;
+}
+
+/** One task to move from `expected` to `target`; null means "absent". */
+interface ReplayStep {
+  taskId: string;
+  expected: TaskSnapshot | null;
+  target: TaskSnapshot | null;
+}
+
+/** Steps that take an entry's tasks back to their before-images. */
+function undoSteps(entry: JournalEntry): ReplayStep[] {
+  return [...entry.changes].reverse().map((change) => ({
+    taskId: change.taskId,
+    expected: change.after,
+    target: change.before,
+  }));
+}
+
+/** Steps that take an entry's tasks forward to their after-images. */
+function redoSteps(entry: JournalEntry): ReplayStep[] {
+  return entry.changes.map((change) => ({
+    taskId: change.taskId,
+    expected: change.before,
+    target: change.after,
+  }));
+}
+
+function summarizeEntry(entry: JournalEntry): JournalEntrySummary {
+  return {
+    id: entry.id,
+    command: entry.command,
+    timestamp: entry.timestamp,
+    tasks: entry.changes.map((change) => ({
+      id: change.taskId,
+      name: (change.after ?? change.before).name,
+    })),
+  };
+}
+
+function findConflicts(
+  steps: ReplayStep[],
+  current: Record<string, TaskSnapshot | null>
+): JournalConflict[] {
+  const conflicts: JournalConflict[] = [];
+  for (const step of steps) {
+    const actual = current[step.taskId] ?? null;
+    const taskName = (step.expected ?? step.target)?.name ?? "";
+    if (step.expected === null) {
+      if (actual !== null) {
+        conflicts.push({
+          taskId: step.taskId,
+          taskName,
+          reason: "exists",
+          fields: [],
+        });
+      }
+    } else if (actual === null) {
+      conflicts.push({
+        taskId: step.taskId,
+        taskName,
+        reason: "missing",
+        fields: [],
+      });
+    } else {
+      const fields = diffTaskSnapshots(step.expected, actual);
+      if (fields.length > 0) {
+        conflicts.push({
+          taskId: step.taskId,
+          taskName,
+          reason: "modified",
+          fields,
+        });
+      }
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * Read the current state of every task in `steps`; null for tasks that no
+ * longer exist.
+ */
+async function readCurrentSnapshots(
+  steps: ReplayStep[]
+): Promise<CliOutput<Record<string, TaskSnapshot | null>>> {
+  const readBody = `
+${taskSnapshotExpr}
+
+var ids = ${JSON.stringify(steps.map((step) => step.taskId))};
+var snapshots = {};
+ids.forEach(function(id) {
+  var task = Task.byIdentifier(id);
+  snapshots[id] = task ? __snapshotTask(task, false) : null;
+});
+return JSON.stringify(snapshots);`;
+
+  const current =
+    await runOmniJSWrapped<Record<string, TaskSnapshot | null>>(readBody);
+
+  if (!current.success) {
+    return failure(
+      current.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to read current tasks")
+    );
+  }
+
+  if (current.data === undefined) {
+    return failure(createError(ErrorCode.UNKNOWN_ERROR, "No result returned"));
+  }
+
+  return success(current.data);
+}
+
+/**
+ * Move every task in `steps` from its expected state to its target state.
+ *
+ * Reads the tasks' current state first and, unless `force` is set, stops
+ * without changing anything if any of them no longer matches. Returns the ids
+ * of tasks that had to be recreated, keyed by their old ids.
+ */
+async function replaySteps(
+  steps: ReplayStep[],
+  force: boolean
+): Promise<
+  CliOutput<{
+    applied: boolean;
+    conflicts: JournalConflict[];
+    remapped: Record<string, string>;
+  }>
+> {
+  const current = await readCurrentSnapshots(steps);
+  if (!current.success || current.data === null) {
+    return failure(
+      current.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to read current tasks")
+    );
+  }
+
+  const conflicts = findConflicts(steps, current.data);
+  if (conflicts.length > 0 && !force) {
+    return success({ applied: false, conflicts, remapped: {} });
+  }
+
+  const applyBody = `
+var __remapped = {};
+${restoreTaskExpr}
+
+var steps = ${JSON.stringify(steps.map(({ taskId, target }) => ({ taskId, target })))};
+steps.forEach(function(step) {
+  var task = Task.byIdentifier(__remapped[step.taskId] || step.taskId);
+  if (step.target === null) {
+    if (task) { deleteObject(task); }
+  } else {
+    __restoreTask(step.target, task, null);
+  }
+});
+return JSON.stringify({ remapped: __remapped });`;
+
+  const applied = await runOmniJSWrapped<{
+    remapped: Record<string, string>;
+  }>(applyBody);
+
+  if (!applied.success) {
+    return failure(
+      applied.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to apply journal entry")
+    );
+  }
+
+  if (applied.data === undefined) {
+    return failure(createError(ErrorCode.UNKNOWN_ERROR, "No result returned"));
+  }
+
+  return success({
+    applied: true,
+    conflicts,
+    remapped: applied.data.remapped,
+  });
+}
+
+/**
+ * Undo the most recent journaled mutation by restoring every task it touched
+ * to its before-image.
+ *
+ * If any task changed after the mutation, nothing is applied and the
+ * conflicts are reported; pass `force` to restore anyway. Note: completing a
+ * repeating task leaves a completed copy behind in OmniFocus; undo reopens
+ * the original occurrence but does not remove that copy.
+ */
+export async function undo(
+  options: ReplayOptions = {}
+): Promise<CliOutput<ReplayResult>> {
+  const journal = readJournal();
+  if ("code" in journal) return failure(journal);
+  const entry = journal.undo.at(-1);
+  if (entry === undefined) {
+    return failure(createError(ErrorCode.VALIDATION_ERROR, "Nothing to undo"));
+  }
+
+  const result = await replaySteps(undoSteps(entry), options.force === true);
+  if (!result.success || result.data === null) {
+    return failure(
+      result.error ?? createError(ErrorCode.UNKNOWN_ERROR, "Failed to undo")
+    );
+  }
+
+  const { applied, conflicts, remapped } = result.data;
+  if (applied) {
+    journal.undo.pop();
+    journal.redo.push(entry);
+    remapJournalIds(journal, remapped);
+    writeJournal(journal);
+  }
+
+  return success({ entry: summarizeEntry(entry), applied, conflicts });
+}
+
+/**
+ * Redo the most recently undone mutation by bringing every task it touched
+ * back to its after-image.
+ *
+ * Conflicts are handled as in {@link undo}.
+ */
+export async function redo(
+  options: ReplayOptions = {}
+): Promise<CliOutput<ReplayResult>> {
+  const journal = readJournal();
+  if ("code" in journal) return failure(journal);
+  const entry = journal.redo.at(-1);
+  if (entry === undefined) {
+    return failure(createError(ErrorCode.VALIDATION_ERROR, "Nothing to redo"));
+  }
+
+  const result = await replaySteps(redoSteps(entry), options.force === true);
+  if (!result.success || result.data === null) {
+    return failure(
+      result.error ?? createError(ErrorCode.UNKNOWN_ERROR, "Failed to redo")
+    );
+  }
+
+  const { applied, conflicts, remapped } = result.data;
+  if (applied) {
+    journal.redo.pop();
+    journal.undo.push(entry);
+    remapJournalIds(journal, remapped);
+    writeJournal(journal);
+  }
+
+  return success({ entry: summarizeEntry(entry), applied, conflicts });
+}
+
+/**
+ * List journaled mutations, newest first.
+ */
+export function history(
+  options: HistoryOptions = {}
+): CliOutput<HistoryResult> {
+  const journal = readJournal();
+  if ("code" in journal) return failure(journal);
+  const limit = options.limit ?? 20;
+
+  // The redo stack holds entries newer than anything on the undo stack, with
+  // the oldest undone entry on top.
+  const newestFirst: HistoryItem[] = [
+    ...journal.redo.map((entry) => ({
+      ...summarizeEntry(entry),
+      status: "undone" as const,
+    })),
+    ...[...journal.undo].reverse().map((entry) => ({
+      ...summarizeEntry(entry),
+      status: "applied" as const,
+    })),
+  ];
+
+  return success({
+    entries: newestFirst.slice(0, limit),
+    undoAvailable: journal.undo.length,
+    redoAvailable: journal.redo.length,
+  });
+}
+
+/**
+ * The attributes of a snapshot reported in a plan; position and children are
+ * left out.
+ */
+function snapshotFields(snapshot: TaskSnapshot): Record<string, unknown> {
+  const { id: _id, index: _index, children: _children, ...fields } = snapshot;
+  return fields;
+}
+
+/** A snapshot followed by all of its (deep) descendants. */
+function withDescendants(snapshot: TaskSnapshot): TaskSnapshot[] {
+  return [snapshot, ...(snapshot.children ?? []).flatMap(withDescendants)];
+}
+
+function describeConflict(conflict: JournalConflict): string {
+  switch (conflict.reason) {
+    case "missing":
+      return "Task was deleted since";
+    case "exists":
+      return "Task exists again";
+    case "modified":
+      return `Task was modified since: ${conflict.fields.join(", ")}`;
+  }
+}
+
+/**
+ * Preview replaying `steps`: the changes `undo` or `redo` would make to each
+ * task. Conflicts are reported as failures, or as warnings when `force` is
+ * set; without `force`, a conflicting entry plans no changes.
+ */
+async function planReplay(
+  command: string,
+  steps: ReplayStep[],
+  force: boolean
+): Promise<CliOutput<DryRunPlan>> {
+  const current = await readCurrentSnapshots(steps);
+  if (!current.success || current.data === null) {
+    return failure(
+      current.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to read current tasks")
+    );
+  }
+
+  const conflicts = findConflicts(steps, current.data);
+  const messages = conflicts.map((conflict) => ({
+    id: conflict.taskId,
+    error: `${describeConflict(conflict)}: ${conflict.taskName}`,
+  }));
+  if (conflicts.length > 0 && !force) {
+    return success(localPlan(command, { failed: messages }));
+  }
+
+  const changes: PlannedChange[] = [];
+  for (const step of steps) {
+    const actual = current.data[step.taskId] ?? null;
+    if (step.target === null) {
+      // Deleting removes the subtree the entry expects to find
+      if (actual === null) continue;
+      const doomed = step.expected ? withDescendants(step.expected) : [actual];
+      for (const task of doomed) {
+        changes.push({
+          action: "delete",
+          entity: "task",
+          id: task.id,
+          name: task.name,
+          fields: diffFields(snapshotFields(task), {}),
+        });
+      }
+    } else if (actual === null) {
+      // Restoring a deleted task recreates it (under a new id) with its subtree
+      for (const task of withDescendants(step.target)) {
+        changes.push({
+          action: "create",
+          entity: "task",
+          id: null,
+          name: task.name,
+          fields: diffFields({}, snapshotFields(task)),
+        });
+      }
+    } else {
+      changes.push({
+        action: "update",
+        entity: "task",
+        id: step.taskId,
+        name: actual.name,
+        fields: diffFields(snapshotFields(actual), snapshotFields(step.target)),
+      });
+    }
+  }
+
+  return success(
+    localPlan(command, {
+      changes,
+      warnings: messages.map((m) => m.error),
+    })
+  );
+}
+
+/**
+ * Preview {@link undo}.
+ */
+async function planUndo(
+  options: ReplayOptions = {}
+): Promise<CliOutput<DryRunPlan>> {
+  const journal = readJournal();
+  if ("code" in journal) return failure(journal);
+  const entry = journal.undo.at(-1);
+  if (entry === undefined) {
+    return failure(createError(ErrorCode.VALIDATION_ERROR, "Nothing to undo"));
+  }
+  return planReplay("undo", undoSteps(entry), options.force === true);
+}
+
+/**
+ * Preview {@link redo}.
+ */
+async function planRedo(
+  options: ReplayOptions = {}
+): Promise<CliOutput<DryRunPlan>> {
+  const journal = readJournal();
+  if ("code" in journal) return failure(journal);
+  const entry = journal.redo.at(-1);
+  if (entry === undefined) {
+    return failure(createError(ErrorCode.VALIDATION_ERROR, "Nothing to redo"));
+  }
+  return planReplay("redo", redoSteps(entry), options.force === true);
+}
+
+/** Shared input schema for `undo` and `redo`. */
+const replaySchema = z.object({
+  force: z
+    .boolean()
+    .optional()
+    .describe(
+      "Apply even if the affected tasks changed since (default: false)"
+    ),
+  ...dryRunSchema,
+});
+
+/**
+ * Centralized descriptor for the `undo` command.
+ *
+ * Drives the CLI subcommand `undo` and the MCP tool `undo`.
+ *
+ * @public
+ */
+export const undoDescriptor = defineCommand({
+  name: "undo",
+  cliName: "undo",
+  mcpName: "undo",
+  description:
+    "Undo the most recent task mutation (complete, update, drop, delete, move-to-parent, or a batch command) from the local journal. If a task changed since, reports the conflicts and changes nothing unless force is set.",
+  inputSchema: replaySchema,
+  handler: async (input): Promise<CliOutput<ReplayResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planUndo({ force: input.force })
+      : undo({ force: input.force }),
+});
+
+/**
+ * Centralized descriptor for the `redo` command.
+ *
+ * Drives the CLI subcommand `redo` and the MCP tool `redo`.
+ *
+ * @public
+ */
+export const redoDescriptor = defineCommand({
+  name: "redo",
+  cliName: "redo",
+  mcpName: "redo",
+  description:
+    "Redo the most recently undone task mutation. If a task changed since the undo, reports the conflicts and changes nothing unless force is set.",
+  inputSchema: replaySchema,
+  handler: async (input): Promise<CliOutput<ReplayResult | DryRunPlan>> =>
+    input.dryRun === true
+      ? planRedo({ force: input.force })
+      : redo({ force: input.force }),
+});
+
+/**
+ * Centralized descriptor for the `history` command.
+ *
+ * Drives the CLI subcommand `history` and the MCP tool `history`.
+ *
+ * @public
+ */
+export const historyDescriptor = defineCommand({
+  name: "history",
+  cliName: "history",
+  mcpName: "history",
+  description:
+    "List journaled task mutations, newest first, marking which are undone. Use with undo/redo.",
+  inputSchema: z.object({
+    limit: z
+      .number()
+      .int()
+      .positive()
+      .optional()
+      .describe("Maximum entries to return (default: 20)"),
+  }),
+  handler: async (input) => Promise.resolve(history({ limit: input.limit })),
+});
@@ -1,5 +1,10 @@
 import { z } from "zod";
-import type { CliOutput, TaskUpdateOptions, OFTask } from "../types.js";
+import type {
+  CliOutput,
+  CliError,
+  TaskUpdateOptions,
+  OFTask,
+} from "../types.js";
 import { success, failure } from "../result.js";
 import { ErrorCode, createError } from "../errors.js";
 import {
@@ -11,51 +16,145 @@ import {
   validateRepetitionRule,
 } from "../validation.js";
 import { escapeJSString, toOmniJSDate, runOmniJSWrapped } from "../omnijs.js";
-import { buildRRule, repeatMethodToOmniJS } from "./repetition.js";
+import {
+  buildRRule,
+  repeatMethodToOmniJS,
+  RepetitionRuleSchema,
+} from "./repetition.js";
 import { sanitizeVarName } from "../utils/sanitize.js";
 import { defineCommand } from "../registry/define.js";
+import {
+  taskSnapshotExpr,
+  recordJournalEntry,
+  type JournalPayload,
+} from "../journal/index.js";
+import {
+  dryRunSchema,
+  runPlanScript,
+  type DryRunPlan,
+} from "../dry-run/index.js";
 
 /**
- * Update properties of an existing task in OmniFocus.
+ * Validate task update options (shared with the batch update).
  */
-export async function updateTask(
-  taskId: string,
+export function validateTaskUpdateOptions(
   options: TaskUpdateOptions
-): Promise<CliOutput<OFTask>> {
-  // Validate inputs
-  const idError = validateId(taskId, "task");
-  if (idError) return failure(idError);
-
+): CliError | null {
   if (options.due !== undefined && options.due !== "") {
     const dueError = validateDateString(options.due);
-    if (dueError) return failure(dueError);
+    if (dueError) return dueError;
   }
 
   if (options.defer !== undefined && options.defer !== "") {
     const deferError = validateDateString(options.defer);
-    if (deferError) return failure(deferError);
+    if (deferError) return deferError;
+  }
+
+  return (
+    validateTags(options.tags) ??
+    validateProjectName(options.project) ??
+    validateEstimatedMinutes(options.estimatedMinutes) ??
+    validateRepetitionRule(options.repeat)
+  );
+}
+
+/**
+ * Build planning-script statements that apply `options` to `after`, a copy
+ * of the task's current state (see `__taskState`). Mirrors the statements
+ * {@link updateTask} runs against the task itself, including throwing when
+ * the target project does not exist.
+ */
+export function taskUpdatePlanStatements(options: TaskUpdateOptions): string[] {
+  const parts: string[] = [];
+
+  if (options.title !== undefined) {
+    parts.push(`after.name = "${escapeJSString(options.title)}";`);
+  }
+
+  if (options.note !== undefined) {
+    parts.push(`after.note = "${escapeJSString(options.note)}";`);
+  }
+
+  if (options.flag !== undefined) {
+    parts.push(`after.flagged = ${String(options.flag)};`);
+  }
+
+  if (options.due !== undefined) {
+    parts.push(
+      `after.dueDate = ${options.due === "" ? "null" : toOmniJSDate(options.due)};`
+    );
+  }
+
+  if (options.defer !== undefined) {
+    parts.push(
+      `after.deferDate = ${options.defer === "" ? "null" : toOmniJSDate(options.defer)};`
+    );
+  }
+
+  if (options.project !== undefined) {
+    if (options.project === "") {
+      parts.push(`after.project = null;`);
+    } else {
+      parts.push(`
+var proj = flattenedProjects.byName("${escapeJSString(options.project)}");
+if (!proj) {
+  throw new Error("Project not found: ${escapeJSString(options.project)}");
+}
+after.project = proj.name;`);
+    }
+    parts.push(`after.parentTask = null;`);
   }
 
-  const tagsError = validateTags(options.tags);
-  if (tagsError) return failure(tagsError);
+  if (options.estimatedMinutes !== undefined) {
+    parts.push(`after.estimatedMinutes = ${String(options.estimatedMinutes)};`);
+  }
 
-  const projectError = validateProjectName(options.project);
-  if (projectError) return failure(projectError);
+  if (options.clearEstimate === true) {
+    parts.push(`after.estimatedMinutes = null;`);
+  }
 
-  const estimateError = validateEstimatedMinutes(options.estimatedMinutes);
-  if (estimateError) return failure(estimateError);
+  if (options.clearRepeat === true) {
+    parts.push(`after.repetitionRule = null;`);
+  } else if (options.repeat !== undefined) {
+    const rrule = buildRRule(options.repeat);
+    const method = repeatMethodToOmniJS(options.repeat.repeatMethod);
+    parts.push(
+      `after.repetitionRule = __planRule(new Task.RepetitionRule("${escapeJSString(rrule)}", ${method}));`
+    );
+  }
+
+  if (options.tags !== undefined) {
+    parts.push(`after.tags = __planTags(${JSON.stringify(options.tags)});`);
+  }
+
+  return parts;
+}
+
+/**
+ * Update properties of an existing task in OmniFocus.
+ */
+export async function updateTask(
+  taskId: string,
+  options: TaskUpdateOptions
+): Promise<CliOutput<OFTask>> {
+  // Validate inputs
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
 
-  const repeatError = validateRepetitionRule(options.repeat);
-  if (repeatError) return failure(repeatError);
+  const optionsError = validateTaskUpdateOptions(options);
+  if (optionsError) return failure(optionsError);
 
   // Build the OmniJS script
   const scriptParts: string[] = [];
 
   scriptParts.push(`
+${taskSnapshotExpr}
+
 var task = Task.byIdentifier("${escapeJSString(taskId)}");
 if (!task) {
   throw new Error("Task not found: ${escapeJSString(taskId)}");
-}`);
+}
+var before = __snapshotTask(task, false);`);
 
   if (options.title !== undefined) {
     scriptParts.push(`task.name = "${escapeJSString(options.title)}";`);
@@ -153,11 +252,12 @@ return JSON.stringify({
   projectId: projId,
   projectName: projName,
   tags: tagNames,
-  estimatedMinutes: task.estimatedMinutes != null ? task.estimatedMinutes : null
+  estimatedMinutes: task.estimatedMinutes != null ? task.estimatedMinutes : null,
+  __journal: [{ taskId: task.id.primaryKey, before: before, after: __snapshotTask(task, false) }]
 });`);
 
   const body = scriptParts.join("\n");
-  const result = await runOmniJSWrapped<OFTask>(body);
+  const result = await runOmniJSWrapped<OFTask & JournalPayload>(body);
 
   if (!result.success) {
     return failure(
@@ -172,46 +272,38 @@ return JSON.stringify({
     );
   }
 
-  return success(result.data);
+  const { __journal, ...task } = result.data;
+  recordJournalEntry("updateTask", __journal);
+  return success(task);
 }
 
 /**
- * Shared Zod schema for a repetition rule — used in the `updateTaskDescriptor`
- * for both the MCP tool (object supplied directly) and the CLI adapter (JSON
- * string via `--repeat '<json>'` which is preprocessed into an object).
- * Defined inline to keep it co-located with the descriptor.
+ * Preview {@link updateTask}: the task's changed fields.
  */
-const RepetitionRuleSchema = z.object({
-  frequency: z
-    .enum(["daily", "weekly", "monthly", "yearly"])
-    .describe("Recurrence frequency"),
-  interval: z.number().int().min(1).describe("Repeat every N periods"),
-  repeatMethod: z
-    .enum(["due-again", "defer-another", "scheduled"])
-    .describe("How OmniFocus reschedules the task after completion"),
-  daysOfWeek: z
-    .array(z.number().int().min(0).max(6))
-    .min(1)
-    .optional()
-    .describe("Days of the week to repeat on (0=Sunday … 6=Saturday)"),
-  dayOfMonth: z
-    .number()
-    .int()
-    .min(1)
-    .max(31)
-    .optional()
-    .describe("Day of month for monthly repetitions"),
-  daysOfWeekPositions: z
-    .array(z.number().int())
-    .optional()
-    .describe(
-      "Positional prefix for BYDAY in monthly repetitions (e.g. 1 = first, -1 = last)"
-    ),
-  monthsOfYear: z
-    .array(z.number().int().min(1).max(12))
-    .optional()
-    .describe("Months of the year for yearly repetitions (1=Jan … 12=Dec)"),
-});
+async function planUpdateTask(
+  taskId: string,
+  options: TaskUpdateOptions
+): Promise<CliOutput<DryRunPlan>> {
+  const idError = validateId(taskId, "task");
+  if (idError) return failure(idError);
+
+  const optionsError = validateTaskUpdateOptions(options);
+  if (optionsError) return failure(optionsError);
+
+  const body = [
+    `
+var task = Task.byIdentifier("${escapeJSString(taskId)}");
+if (!task) {
+  throw new Error("Task not found: ${escapeJSString(taskId)}");
+}
+var before = __taskState(task);
+var after = __planCopy(before);`,
+    ...taskUpdatePlanStatements(options),
+    `__planChange("update", "task", task.id.primaryKey, task.name, before, after);`,
+  ].join("\n");
+
+  return runPlanScript("updateTask", body);
+}
 
 /**
  * Centralized descriptor for the `update` command.
@@ -292,9 +384,10 @@ export const updateTaskDescriptor = defineCommand({
       .boolean()
       .optional()
       .describe("Clear the repetition rule when true"),
+    ...dryRunSchema,
   }),
-  handler: async (input) =>
-    updateTask(input.taskId, {
+  handler: async (input): Promise<CliOutput<OFTask | DryRunPlan>> => {
+    const options: TaskUpdateOptions = {
       title: input.title,
       note: input.note,
       due: input.due,
@@ -306,5 +399,9 @@ export const updateTaskDescriptor = defineCommand({
       clearEstimate: input.clearEstimate,
       repeat: input.repeat,
       clearRepeat: input.clearRepeat,
-    }),
+    };
+    return input.dryRun === true
+      ? planUpdateTask(input.taskId, options)
+      : updateTask(input.taskId, options);
+  },
 });
@@ -0,0 +1,762 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { z } from "zod";
+import type { CliOutput, OFTask } from "../types.js";
+import { success, failure } from "../result.js";
+import { ErrorCode, createError, type CliError } from "../errors.js";
+import {
+  compileAggregate,
+  compileSort,
+  compileTaskPredicates,
+  taskFieldSpec,
+  type ProjectStatus,
+  type TaskQueryOptions,
+} from "../query/index.js";
+import { defineCommand } from "../registry/define.js";
+import { queryTasks } from "./tasks.js";
+import {
+  diffFields,
+  dryRunSchema,
+  localPlan,
+  type DryRunPlan,
+} from "../dry-run/index.js";
+
+/**
+ * Which tasks a virtual perspective starts from, mirroring the availability
+ * setting of an OmniFocus custom perspective.
+ *
+ * - `"remaining"` (default) — not completed and not dropped
+ * - `"available"` — actionable now: not blocked, completed or dropped
+ * - `"completed"` / `"dropped"` — only completed / dropped tasks
+ * - `"all"` — no availability filter
+ *
+ * @public
+ */
+export type PerspectiveAvailability =
+  | "available"
+  | "remaining"
+  | "completed"
+  | "dropped"
+  | "all";
+
+/**
+ * A date window on one task date. Each bound accepts ISO 8601 or a relative
+ * expression (see `parseDate`); `within` is a duration like `7d` from now.
+ *
+ * @public
+ */
+export interface PerspectiveDateWindow {
+  before?: string | undefined;
+  after?: string | undefined;
+  /** The calendar day the date falls on. */
+  on?: string | undefined;
+  within?: string | undefined;
+}
+
+/**
+ * Tag rules. Every group that is given must hold: the task has all of `all`,
+ * at least one of `any`, and none of `none`.
+ *
+ * @public
+ */
+export interface PerspectiveTagRules {
+  all?: string[] | undefined;
+  any?: string[] | undefined;
+  none?: string[] | undefined;
+}
+
+/**
+ * The rules of a virtual perspective. Every rule that is set must hold.
+ *
+ * @public
+ */
+export interface PerspectiveRules {
+  /** Default: `"remaining"`. */
+  availability?: PerspectiveAvailability | undefined;
+  flagged?: boolean | undefined;
+  /** `true` for inbox tasks only, `false` to leave them out. */
+  inbox?: boolean | undefined;
+  tags?: PerspectiveTagRules | undefined;
+  /** Project names ("any of"). */
+  projects?: string[] | undefined;
+  /** Folder names, matched transitively ("any of"). */
+  folders?: string[] | undefined;
+  /** Statuses of the containing project ("any of"). */
+  projectStatus?: ProjectStatus[] | undefined;
+  due?: PerspectiveDateWindow | undefined;
+  defer?: PerspectiveDateWindow | undefined;
+  completed?: Pick<PerspectiveDateWindow, "before" | "after"> | undefined;
+  /** Name or note contains (case-insensitive). */
+  text?: string | undefined;
+  /** A `where` expression for anything the rules above can't say. */
+  where?: string | undefined;
+}
+
+/**
+ * A locally defined perspective: rules plus grouping and sorting, stored as
+ * one JSON file per perspective (see {@link getVirtualPerspectivesDir}).
+ *
+ * @public
+ */
+export interface VirtualPerspective {
+  name: string;
+  description?: string | undefined;
+  rules: PerspectiveRules;
+  /** A `tasks --group-by` key; tasks are returned group by group. */
+  groupBy?: string | undefined;
+  /** `tasks --sort` keys, applied within each group. */
+  sort?: string[] | undefined;
+  reverse?: boolean | undefined;
+}
+
+/**
+ * A virtual perspective compiled onto the task query vocabulary.
+ *
+ * @public
+ */
+export interface CompiledVirtualPerspective {
+  options: TaskQueryOptions;
+  groupBy: string | null;
+}
+
+/**
+ * Result of saving a virtual perspective.
+ *
+ * @public
+ */
+export interface SaveVirtualPerspectiveResult {
+  name: string;
+  /** Whether an existing perspective of the same name was replaced. */
+  replaced: boolean;
+  /** Path of the perspective file. */
+  path: string;
+}
+
+/**
+ * A virtual perspective with its compiled query and file path.
+ *
+ * @public
+ */
+export interface VirtualPerspectiveDetails {
+  perspective: VirtualPerspective;
+  compiled: CompiledVirtualPerspective;
+  path: string;
+}
+
+/**
+ * Result of deleting a virtual perspective.
+ *
+ * @public
+ */
+export interface DeleteVirtualPerspectiveResult {
+  name: string;
+  deleted: boolean;
+}
+
+/**
+ * Environment variable pointing at the virtual perspective directory — for
+ * example a checkout of a repository a team shares perspectives through.
+ */
+const PERSPECTIVES_DIR_ENV = "OFOCUS_PERSPECTIVES_DIR";
+
+/** Task fields returned for perspective queries: the {@link OFTask} shape. */
+const PERSPECTIVE_TASK_FIELDS = [
+  "id",
+  "name",
+  "note",
+  "flagged",
+  "completed",
+  "dueDate",
+  "deferDate",
+  "completionDate",
+  "projectId",
+  "projectName",
+  "tags",
+  "estimatedMinutes",
+];
+
+const AVAILABILITY: Record<PerspectiveAvailability, TaskQueryOptions> = {
+  remaining: { status: "active" },
+  available: { available: true },
+  completed: { completed: true },
+  dropped: { dropped: true },
+  all: {},
+};
+
+const nameList = z.array(z.string().min(1)).min(1);
+
+const dateWindowSchema = z
+  .object({
+    before: z.string().optional(),
+    after: z.string().optional(),
+    on: z.string().optional(),
+    within: z.string().optional(),
+  })
+  .strict();
+
+const rulesSchema = z
+  .object({
+    availability: z
+      .enum(["available", "remaining", "completed", "dropped", "all"])
+      .optional(),
+    flagged: z.boolean().optional(),
+    inbox: z.boolean().optional(),
+    tags: z
+      .object({
+        all: nameList.optional(),
+        any: nameList.optional(),
+        none: nameList.optional(),
+      })
+      .strict()
+      .optional(),
+    projects: nameList.optional(),
+    folders: nameList.optional(),
+    projectStatus: z
+      .array(z.enum(["active", "on-hold", "completed", "dropped"]))
+      .min(1)
+      .optional(),
+    due: dateWindowSchema.optional(),
+    defer: dateWindowSchema.optional(),
+    completed: dateWindowSchema.pick({ before: true, after: true }).optional(),
+    text: z.string().min(1).optional(),
+    where: z.string().optional(),
+  })
+  .strict();
+
+const perspectiveSchema = z
+  .object({
+    name: z.string().trim().min(1),
+    description: z.string().optional(),
+    rules: rulesSchema,
+    groupBy: z.string().optional(),
+    sort: z.array(z.string()).optional(),
+    reverse: z.boolean().optional(),
+  })
+  .strict();
+
+/**
+ * Get the virtual perspective directory: `OFOCUS_PERSPECTIVES_DIR` if set,
+ * else `~/.config/ofocus/perspectives`.
+ *
+ * @public
+ */
+export function getVirtualPerspectivesDir(): string {
+  const configured = process.env[PERSPECTIVES_DIR_ENV]?.trim();
+  return configured !== undefined && configured !== ""
+    ? configured
+    : path.join(os.homedir(), ".config", "ofocus", "perspectives");
+}
+
+/**
+ * Turn the first Zod issue into a `VALIDATION_ERROR` naming its source.
+ */
+function issueError(source: string, error: z.ZodError): CliError {
+  const issue = error.issues[0];
+  const field =
+    issue !== undefined && issue.path.length > 0
+      ? `${issue.path.join(".")}: `
+      : "";
+  return createError(
+    ErrorCode.VALIDATION_ERROR,
+    `Invalid virtual perspective ${source}: ${field}${issue?.message ?? "Invalid input"}`,
+    JSON.stringify(error.issues)
+  );
+}
+
+function notFound(name: string): CliError {
+  return createError(
+    ErrorCode.PERSPECTIVE_NOT_FOUND,
+    `Virtual perspective not found: ${name}`
+  );
+}
+
+/**
+ * A stored perspective and the file it was read from.
+ */
+interface StoredPerspective {
+  perspective: VirtualPerspective;
+  path: string;
+}
+
+/**
+ * Read and validate one perspective file.
+ */
+function readPerspectiveFile(filePath: string): StoredPerspective | CliError {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (err) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid virtual perspective file ${filePath}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+  const parsed = perspectiveSchema.safeParse(raw);
+  if (!parsed.success) return issueError(`file ${filePath}`, parsed.error);
+  return { perspective: parsed.data, path: filePath };
+}
+
+/**
+ * Read every perspective file, sorted by name. Files are matched by the name
+ * inside them, so hand-written files may be named freely. With `skipInvalid`
+ * a malformed file is left out; otherwise it fails the read rather than
+ * silently disappearing.
+ */
+function readPerspectives(skipInvalid = false): StoredPerspective[] | CliError {
+  const dir = getVirtualPerspectivesDir();
+  if (!fs.existsSync(dir)) return [];
+
+  const stored: StoredPerspective[] = [];
+  for (const file of fs.readdirSync(dir).filter((f) => f.endsWith(".json"))) {
+    const read = readPerspectiveFile(path.join(dir, file));
+    if (!("code" in read)) stored.push(read);
+    else if (!skipInvalid) return read;
+  }
+  return stored.sort((a, b) =>
+    a.perspective.name.localeCompare(b.perspective.name)
+  );
+}
+
+/**
+ * The readable virtual perspectives, for the app perspective commands
+ * (`perspectives`, `perspective`). Malformed files are skipped there, so a
+ * bad file in a shared directory can't break built-in and custom
+ * perspectives; the virtual perspective commands still report it.
+ */
+export function readableVirtualPerspectives(): VirtualPerspective[] {
+  const stored = readPerspectives(true);
+  return Array.isArray(stored) ? stored.map((s) => s.perspective) : [];
+}
+
+/**
+ * Find a stored perspective by name; `null` when there is none.
+ */
+function findPerspective(name: string): StoredPerspective | null | CliError {
+  const stored = readPerspectives();
+  if (!Array.isArray(stored)) return stored;
+  return stored.find((s) => s.perspective.name === name) ?? null;
+}
+
+/**
+ * The path a new perspective is written to: its sanitized name, with a
+ * numeric suffix when that file is taken. Names such as `Q4/Launch` and
+ * `Q4_Launch` sanitize alike, and must not overwrite each other.
+ */
+function perspectivePath(name: string): string {
+  const dir = getVirtualPerspectivesDir();
+  const sanitized = name.replace(/[^a-zA-Z0-9_-]/g, "_");
+  let filePath = path.join(dir, `${sanitized}.json`);
+  for (let n = 2; fs.existsSync(filePath); n++) {
+    filePath = path.join(dir, `${sanitized}-${String(n)}.json`);
+  }
+  return filePath;
+}
+
+/**
+ * Render a `where` clause matching tasks by tag, for tag groups that don't
+ * fit the single `tag`/`tagMode` pair.
+ */
+function tagClause(mode: "all" | "any" | "none", names: string[]): string {
+  const terms = names.map(
+    (n) => `tag:"${n.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`
+  );
+  switch (mode) {
+    case "all":
+      return `(${terms.join(" and ")})`;
+    case "any":
+      return `(${terms.join(" or ")})`;
+    case "none":
+      return `not (${terms.join(" or ")})`;
+  }
+}
+
+/**
+ * Compile a virtual perspective onto {@link TaskQueryOptions} plus a
+ * `groupBy` key.
+ *
+ * Each rule maps to the task predicate of the same meaning. The first tag
+ * group (in the order `all`, `any`, `none`) becomes `tag`/`tagMode`; further
+ * groups become `where` clauses, AND-combined with the perspective's own
+ * `where`.
+ *
+ * @public
+ */
+export function compileVirtualPerspective(
+  perspective: VirtualPerspective
+): CompiledVirtualPerspective {
+  const { rules } = perspective;
+  const options: TaskQueryOptions = {
+    ...AVAILABILITY[rules.availability ?? "remaining"],
+  };
+  const clauses = rules.where !== undefined ? [`(${rules.where})`] : [];
+
+  if (rules.flagged !== undefined) options.flagged = rules.flagged;
+  if (rules.inbox !== undefined) options.inInbox = rules.inbox;
+  if (rules.projects !== undefined) options.project = rules.projects;
+  if (rules.folders !== undefined) options.folder = rules.folders;
+  if (rules.projectStatus !== undefined) {
+    options.projectStatus = rules.projectStatus;
+  }
+  if (rules.text !== undefined) options.nameOrNoteContains = rules.text;
+
+  for (const mode of ["all", "any", "none"] as const) {
+    const names = rules.tags?.[mode];
+    if (names === undefined) continue;
+    if (options.tag === undefined) {
+      options.tag = names;
+      options.tagMode = mode;
+    } else {
+      clauses.push(tagClause(mode, names));
+    }
+  }
+
+  const { due, defer, completed } = rules;
+  if (due?.before !== undefined) options.dueBefore = due.before;
+  if (due?.after !== undefined) options.dueAfter = due.after;
+  if (due?.on !== undefined) options.dueOn = due.on;
+  if (due?.within !== undefined) options.dueWithin = due.within;
+  if (defer?.before !== undefined) options.deferBefore = defer.before;
+  if (defer?.after !== undefined) options.deferAfter = defer.after;
+  if (defer?.on !== undefined) options.deferOn = defer.on;
+  if (defer?.within !== undefined) options.deferWithin = defer.within;
+  if (completed?.before !== undefined) {
+    options.completedBefore = completed.before;
+  }
+  if (completed?.after !== undefined) options.completedAfter = completed.after;
+
+  if (clauses.length > 0) options.where = clauses.join(" and ");
+  if (perspective.sort !== undefined) options.sort = perspective.sort;
+  if (perspective.reverse !== undefined) options.reverse = perspective.reverse;
+
+  return { options, groupBy: perspective.groupBy ?? null };
+}
+
+/**
+ * Validate a definition and compile it the way a run would, so bad dates,
+ * `where` syntax, sort keys and group keys fail when the perspective is
+ * saved rather than on every run.
+ */
+function buildPerspective(
+  input: VirtualPerspective
+): VirtualPerspective | CliError {
+  const parsed = perspectiveSchema.safeParse(input);
+  if (!parsed.success) {
+    return issueError(`"${input.name}"`, parsed.error);
+  }
+  const perspective = parsed.data;
+
+  const { options, groupBy } = compileVirtualPerspective(perspective);
+  const withGroup = { ...options, groupBy: groupBy ?? undefined };
+  const error = [
+    ...compileTaskPredicates(options).validationErrors,
+    ...compileSort(taskFieldSpec, options).validationErrors,
+    ...compileAggregate(withGroup).validationErrors,
+  ][0];
+  if (error === undefined) return perspective;
+  return createError(
+    error.code,
+    `Invalid virtual perspective "${perspective.name}": ${error.message}`,
+    error.details
+  );
+}
+
+/**
+ * Save (or replace) a virtual perspective.
+ *
+ * A replaced perspective keeps its file, so a hand-named file in a shared
+ * directory is updated in place.
+ *
+ * @public
+ */
+export function saveVirtualPerspective(
+  input: VirtualPerspective
+): CliOutput<SaveVirtualPerspectiveResult> {
+  const perspective = buildPerspective(input);
+  if ("code" in perspective) return failure(perspective);
+
+  const existing = findPerspective(perspective.name);
+  if (existing !== null && "code" in existing) return failure(existing);
+
+  const filePath = existing?.path ?? perspectivePath(perspective.name);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, `${JSON.stringify(perspective, null, 2)}\n`);
+
+  return success({
+    name: perspective.name,
+    replaced: existing !== null,
+    path: filePath,
+  });
+}
+
+/**
+ * List virtual perspectives, sorted by name.
+ *
+ * @public
+ */
+export function listVirtualPerspectives(): CliOutput<VirtualPerspective[]> {
+  const stored = readPerspectives();
+  if (!Array.isArray(stored)) return failure(stored);
+  return success(stored.map((s) => s.perspective));
+}
+
+/**
+ * Get a virtual perspective with its compiled query.
+ *
+ * @public
+ */
+export function getVirtualPerspective(
+  name: string
+): CliOutput<VirtualPerspectiveDetails> {
+  const found = findPerspective(name);
+  if (found === null) return failure(notFound(name));
+  if ("code" in found) return failure(found);
+  return success({
+    perspective: found.perspective,
+    compiled: compileVirtualPerspective(found.perspective),
+    path: found.path,
+  });
+}
+
+/**
+ * Delete a virtual perspective's file.
+ *
+ * @public
+ */
+export function deleteVirtualPerspective(
+  name: string
+): CliOutput<DeleteVirtualPerspectiveResult> {
+  const found = findPerspective(name);
+  if (found === null) return failure(notFound(name));
+  if ("code" in found) return failure(found);
+  fs.rmSync(found.path);
+  return success({ name, deleted: true });
+}
+
+/**
+ * Run a virtual perspective if one named `name` exists: its tasks in
+ * perspective order (group by group when it groups), in the
+ * {@link OFTask} shape app perspectives return. Resolves to `null` when
+ * there is no readable virtual perspective of that name.
+ */
+export async function runVirtualPerspective(
+  name: string,
+  limit: number
+): Promise<CliOutput<OFTask[]> | null> {
+  const found = readableVirtualPerspectives().find((p) => p.name === name);
+  if (found === undefined) return null;
+
+  const { options, groupBy } = compileVirtualPerspective(found);
+  const result = await queryTasks({
+    ...options,
+    fields: PERSPECTIVE_TASK_FIELDS,
+    ...(groupBy === null ? { limit } : { groupBy, stats: true }),
+  });
+  if (!result.success) {
+    return failure(
+      result.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to query perspective")
+    );
+  }
+
+  const data = result.data;
+  let tasks: OFTask[] = [];
+  if (data?.kind === "list") {
+    tasks = data.items;
+  } else if (data?.kind === "groups") {
+    tasks = data.groups.flatMap((g) => g.items ?? []);
+  }
+  return success(tasks.slice(0, limit));
+}
+
+// ---------------------------------------------------------------------------
+// Dry-run previews
+// ---------------------------------------------------------------------------
+
+/**
+ * The attributes of a perspective reported in a plan.
+ */
+function perspectiveState(
+  perspective: VirtualPerspective
+): Record<string, unknown> {
+  return { ...perspective };
+}
+
+/**
+ * Preview {@link saveVirtualPerspective}: a new perspective, or the changes
+ * to the one it would replace.
+ */
+function planSaveVirtualPerspective(
+  input: VirtualPerspective
+): CliOutput<DryRunPlan> {
+  const perspective = buildPerspective(input);
+  if ("code" in perspective) return failure(perspective);
+
+  const existing = findPerspective(perspective.name);
+  if (existing !== null && "code" in existing) return failure(existing);
+
+  return success(
+    localPlan("saveVirtualPerspective", {
+      changes: [
+        {
+          action: existing ? "update" : "create",
+          entity: "perspective",
+          id: existing ? existing.perspective.name : null,
+          name: perspective.name,
+          fields: diffFields(
+            existing ? perspectiveState(existing.perspective) : {},
+            perspectiveState(perspective)
+          ),
+        },
+      ],
+    })
+  );
+}
+
+/**
+ * Preview {@link deleteVirtualPerspective}.
+ */
+function planDeleteVirtualPerspective(name: string): CliOutput<DryRunPlan> {
+  const found = findPerspective(name);
+  if (found === null) return failure(notFound(name));
+  if ("code" in found) return failure(found);
+
+  return success(
+    localPlan("deleteVirtualPerspective", {
+      changes: [
+        {
+          action: "delete",
+          entity: "perspective",
+          id: found.perspective.name,
+          name: found.perspective.name,
+          fields: diffFields(perspectiveState(found.perspective), {}),
+        },
+      ],
+    })
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Centralized descriptors
+// ---------------------------------------------------------------------------
+
+/**
+ * Accept a JSON string (CLI) or an object (MCP) for an object input. On
+ * parse failure the raw string is returned so Zod reports a clean
+ * VALIDATION_ERROR.
+ */
+function parseJsonInput(v: unknown): unknown {
+  if (typeof v !== "string") return v;
+  try {
+    return JSON.parse(v) as unknown;
+  } catch {
+    return v;
+  }
+}
+
+/**
+ * Centralized descriptor for the `virtual-perspective-save` command.
+ *
+ * Drives CLI subcommand `virtual-perspective-save` and MCP tool
+ * `virtual_perspective_save`.
+ *
+ * @public
+ */
+export const saveVirtualPerspectiveDescriptor = defineCommand({
+  name: "saveVirtualPerspective",
+  cliName: "virtual-perspective-save",
+  mcpName: "virtual_perspective_save",
+  description:
+    "Save a virtual perspective — availability, tag, project, folder, project-status and date-window rules plus grouping and sorting — runnable with the perspective command",
+  cliPositional: ["name"] as const,
+  inputSchema: z.object({
+    name: z.string().describe("Perspective name"),
+    rules: z
+      .preprocess(parseJsonInput, z.record(z.string(), z.unknown()))
+      .describe(
+        "Rules, all of which must hold: availability (available|remaining|completed|dropped|all, default remaining), flagged, inbox, " +
+          "tags {all,any,none}, projects, folders, projectStatus (active|on-hold|completed|dropped), " +
+          "due/defer {before,after,on,within}, completed {before,after}, text, where. " +
+          'CLI: pass as a JSON string, e.g. --rules \'{"availability":"available","tags":{"any":["work"]},"due":{"within":"7d"}}\''
+      ),
+    groupBy: z
+      .string()
+      .optional()
+      .describe(
+        "Group key: project, folder, tag, flagged, status, dueBucket, …"
+      ),
+    sort: z
+      .array(z.string())
+      .optional()
+      .describe("Sort keys within each group (task fields)"),
+    reverse: z.boolean().optional().describe("Reverse the sort order"),
+    description: z.string().optional().describe("What the perspective is for"),
+    ...dryRunSchema,
+  }),
+  handler: async (
+    input
+  ): Promise<CliOutput<SaveVirtualPerspectiveResult | DryRunPlan>> => {
+    const perspective = {
+      name: input.name,
+      description: input.description,
+      rules: input.rules as PerspectiveRules,
+      groupBy: input.groupBy,
+      sort: input.sort,
+      reverse: input.reverse,
+    };
+    return Promise.resolve(
+      input.dryRun === true
+        ? planSaveVirtualPerspective(perspective)
+        : saveVirtualPerspective(perspective)
+    );
+  },
+});
+
+/**
+ * Centralized descriptor for the `virtual-perspective-show` command.
+ *
+ * Drives CLI subcommand `virtual-perspective-show` and MCP tool
+ * `virtual_perspective_get`.
+ *
+ * @public
+ */
+export const getVirtualPerspectiveDescriptor = defineCommand({
+  name: "getVirtualPerspective",
+  cliName: "virtual-perspective-show",
+  mcpName: "virtual_perspective_get",
+  description:
+    "Show a virtual perspective's definition and the task query it compiles to",
+  cliPositional: ["name"] as const,
+  inputSchema: z.object({
+    name: z.string().describe("Perspective name"),
+  }),
+  handler: async (input) => Promise.resolve(getVirtualPerspective(input.name)),
+});
+
+/**
+ * Centralized descriptor for the `virtual-perspective-delete` command.
+ *
+ * Drives CLI subcommand `virtual-perspective-delete` and MCP tool
+ * `virtual_perspective_delete`.
+ *
+ * @public
+ */
+export const deleteVirtualPerspectiveDescriptor = defineCommand({
+  name: "deleteVirtualPerspective",
+  cliName: "virtual-perspective-delete",
+  mcpName: "virtual_perspective_delete",
+  description: "Delete a virtual perspective",
+  cliPositional: ["name"] as const,
+  inputSchema: z.object({
+    name: z.string().describe("Perspective name"),
+    ...dryRunSchema,
+  }),
+  handler: async (
+    input
+  ): Promise<CliOutput<DeleteVirtualPerspectiveResult | DryRunPlan>> =>
+    Promise.resolve(
+      input.dryRun === true
+        ? planDeleteVirtualPerspective(input.name)
+        : deleteVirtualPerspective(input.name)
+    ),
+});
@@ -0,0 +1,171 @@
+import type { DependencyLinks } from "./store.js";
+
+/**
+ * Find a chain of "blocked by" links leading from `from` to `to`, as the
+ * list of task ids visited (both ends included), or `null` if there is none.
+ *
+ * Adding "`to` is blocked by `from`" closes a cycle exactly when such a chain
+ * already exists.
+ *
+ * @public
+ */
+export function findBlockingChain(
+  links: DependencyLinks,
+  from: string,
+  to: string
+): string[] | null {
+  const previous = new Map<string, string | null>([[from, null]]);
+  const queue = [from];
+  for (let id = queue.shift(); id !== undefined; id = queue.shift()) {
+    if (id === to) {
+      const chain: string[] = [];
+      for (
+        let at: string | null = id;
+        at !== null;
+        at = previous.get(at) ?? null
+      ) {
+        chain.unshift(at);
+      }
+      return chain;
+    }
+    for (const next of links[id] ?? []) {
+      if (!previous.has(next)) {
+        previous.set(next, id);
+        queue.push(next);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the cycles in a set of "blocked by" links. Each cycle is reported once,
+ * as task ids where every task is blocked by the next and the last by the
+ * first, starting from its smallest id.
+ *
+ * @public
+ */
+export function findCycles(links: DependencyLinks): string[][] {
+  const cycles = new Map<string, string[]>();
+  const state = new Map<string, "active" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string): void => {
+    state.set(id, "active");
+    stack.push(id);
+    for (const next of links[id] ?? []) {
+      const nextState = state.get(next);
+      if (nextState === "active") {
+        const cycle = stack.slice(stack.indexOf(next));
+        const start = cycle.indexOf([...cycle].sort()[0] ?? next);
+        const rotated = [...cycle.slice(start), ...cycle.slice(0, start)];
+        cycles.set(rotated.join(" "), rotated);
+      } else if (nextState === undefined) {
+        visit(next);
+      }
+    }
+    stack.pop();
+    state.set(id, "done");
+  };
+
+  for (const id of Object.keys(links).sort()) {
+    if (!state.has(id)) visit(id);
+  }
+  return [...cycles.values()];
+}
+
+/**
+ * Earliest start and finish of one task on a schedule, in minutes from now.
+ *
+ * @public
+ */
+export interface ScheduledTask {
+  id: string;
+  minutes: number;
+  start: number;
+  finish: number;
+}
+
+/**
+ * Compute the longest chain of dependent work through a task graph: every
+ * task starts once all of its blockers finish, and the critical path is the
+ * chain ending at the latest finish.
+ *
+ * `tasks` gives each task's duration in minutes, in a stable order used to
+ * break ties. Links to tasks not in `tasks` are ignored. Returns the cycle
+ * that prevents scheduling if the links among `tasks` aren't acyclic.
+ *
+ * @public
+ */
+export function computeCriticalPath(
+  tasks: { id: string; minutes: number }[],
+  links: DependencyLinks
+): { path: ScheduledTask[]; totalMinutes: number } | { cycle: string[] } {
+  const ids = new Set(tasks.map((t) => t.id));
+  const blockers = new Map(
+    tasks.map((t) => [
+      t.id,
+      [...new Set(links[t.id] ?? [])].filter((b) => ids.has(b)),
+    ])
+  );
+
+  // Kahn's algorithm over blocker → dependent edges, in input order.
+  const dependents = new Map<string, string[]>(tasks.map((t) => [t.id, []]));
+  const waiting = new Map<string, number>();
+  for (const [id, bs] of blockers) {
+    waiting.set(id, bs.length);
+    for (const b of bs) dependents.get(b)?.push(id);
+  }
+  const minutes = new Map(tasks.map((t) => [t.id, t.minutes]));
+  const start = new Map<string, number>();
+  const finish = new Map<string, number>();
+  const critical = new Map<string, string | null>();
+  const ready = tasks.filter((t) => waiting.get(t.id) === 0).map((t) => t.id);
+
+  for (let id = ready.shift(); id !== undefined; id = ready.shift()) {
+    let begin = 0;
+    let via: string | null = null;
+    for (const b of blockers.get(id) ?? []) {
+      const end = finish.get(b) ?? 0;
+      if (via === null || end > begin) {
+        begin = end;
+        via = b;
+      }
+    }
+    start.set(id, begin);
+    finish.set(id, begin + (minutes.get(id) ?? 0));
+    critical.set(id, via);
+    for (const d of dependents.get(id) ?? []) {
+      const left = (waiting.get(d) ?? 0) - 1;
+      waiting.set(d, left);
+      if (left === 0) ready.push(d);
+    }
+  }
+
+  if (finish.size < tasks.length) {
+    const unscheduled = Object.fromEntries(
+      [...blockers]
+        .filter(([id]) => !finish.has(id))
+        .map(([id, bs]) => [id, bs.filter((b) => !finish.has(b))])
+    );
+    return { cycle: findCycles(unscheduled)[0] ?? [] };
+  }
+
+  let last: string | null = null;
+  for (const t of tasks) {
+    if (last === null || (finish.get(t.id) ?? 0) > (finish.get(last) ?? 0)) {
+      last = t.id;
+    }
+  }
+
+  const path: ScheduledTask[] = [];
+  for (let at = last; at !== null; at = critical.get(at) ?? null) {
+    path.unshift({
+      id: at,
+      minutes: minutes.get(at) ?? 0,
+      start: start.get(at) ?? 0,
+      finish: finish.get(at) ?? 0,
+    });
+  }
+  return { path, totalMinutes: last === null ? 0 : (finish.get(last) ?? 0) };
+}
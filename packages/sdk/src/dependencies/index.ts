@@ -0,0 +1,24 @@
+/**
+ * Explicit task dependencies.
+ *
+ * OmniFocus only orders work through sequential projects and action groups.
+ * The dependency store adds "blocked by" links between arbitrary tasks,
+ * kept in `~/.config/ofocus/dependencies.json` keyed by task id, which the
+ * `dependency-*` and `critical-path` commands maintain and read, and which
+ * the `blocked` predicate honors when asked to.
+ */
+
+export {
+  getDependenciesPath,
+  readDependencies,
+  writeDependencies,
+  dependencyBlockedExpr,
+  type DependencyLinks,
+  type DependencyStore,
+} from "./store.js";
+export {
+  findBlockingChain,
+  findCycles,
+  computeCriticalPath,
+  type ScheduledTask,
+} from "./graph.js";
@@ -0,0 +1,84 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { ErrorCode, createError, type CliError } from "../errors.js";
+import { escapeJSString } from "../omnijs.js";
+
+/**
+ * Explicit "blocked by" links between tasks, keyed by the blocked task's id.
+ *
+ * @public
+ */
+export type DependencyLinks = Record<string, string[]>;
+
+/**
+ * On-disk dependency store.
+ *
+ * @public
+ */
+export interface DependencyStore {
+  version: 1;
+  /** Task id → ids of the tasks that block it, in the order they were added. */
+  blockedBy: DependencyLinks;
+}
+
+/**
+ * Get the dependency store path.
+ *
+ * @public
+ */
+export function getDependenciesPath(): string {
+  return path.join(os.homedir(), ".config", "ofocus", "dependencies.json");
+}
+
+/**
+ * Read the dependency store, returning an empty one if none has been written
+ * yet, or an error naming the file if it isn't valid JSON.
+ */
+export function readDependencies(): DependencyStore | CliError {
+  const filePath = getDependenciesPath();
+  if (!fs.existsSync(filePath)) {
+    return { version: 1, blockedBy: {} };
+  }
+  try {
+    return JSON.parse(fs.readFileSync(filePath, "utf-8")) as DependencyStore;
+  } catch (err) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid dependencies file ${filePath}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/**
+ * Persist the dependency store, dropping tasks left with no blockers.
+ */
+export function writeDependencies(store: DependencyStore): void {
+  const filePath = getDependenciesPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const pruned: DependencyStore = {
+    ...store,
+    blockedBy: Object.fromEntries(
+      Object.entries(store.blockedBy).filter(([, ids]) => ids.length > 0)
+    ),
+  };
+  fs.writeFileSync(filePath, JSON.stringify(pruned, null, 2), "utf-8");
+}
+
+/**
+ * Build an OmniJS boolean expression over `t` that is true when the task has
+ * an explicit blocker that is neither completed nor dropped. Blockers that
+ * no longer exist don't block. Returns `null` when there are no links.
+ */
+export function dependencyBlockedExpr(links: DependencyLinks): string | null {
+  const entries = Object.entries(links).filter(([, ids]) => ids.length > 0);
+  if (entries.length === 0) return null;
+
+  const literal = `{${entries
+    .map(
+      ([id, ids]) =>
+        `"${escapeJSString(id)}":[${ids.map((b) => `"${escapeJSString(b)}"`).join(",")}]`
+    )
+    .join(",")}}`;
+  return `((${literal})[t.id.primaryKey] || []).some(function(__id) { var __b = Task.byIdentifier(__id); return __b !== null && __b.taskStatus !== Task.Status.Completed && __b.taskStatus !== Task.Status.Dropped; })`;
+}
@@ -0,0 +1,22 @@
+/**
+ * Dry-run previews for mutating commands.
+ *
+ * Every descriptor that writes to OmniFocus (or to the local template and
+ * journal files) accepts a `dryRun` input. With it set, the handler runs a
+ * read-only planning script instead of the mutation and returns a
+ * {@link DryRunPlan}: the objects that would be created, changed or deleted,
+ * each with field-level before/after values, plus the targets that would
+ * fail. Planning scripts evaluate dates and look up projects and tags the
+ * same way the mutation does, so the plan shows the values that would
+ * actually be written.
+ */
+
+export {
+  dryRunSchema,
+  diffFields,
+  localPlan,
+  runPlanScript,
+  type DryRunPlan,
+  type FieldChange,
+  type PlannedChange,
+} from "./plan.js";
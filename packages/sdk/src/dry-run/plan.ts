@@ -0,0 +1,146 @@
+import { z } from "zod";
+import type { CliOutput } from "../types.js";
+import { success, failure } from "../result.js";
+import { ErrorCode, createError } from "../errors.js";
+import { runOmniJSWrapped } from "../omnijs.js";
+import { planHelpersExpr } from "./script.js";
+
+/**
+ * One attribute a planned change would set, with its current and new value.
+ * Dates are ISO-8601 strings; `null` means "unset" (or "absent" for creates
+ * and deletes).
+ *
+ * @public
+ */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * One object a command would create, change or delete.
+ *
+ * @public
+ */
+export interface PlannedChange {
+  action: "create" | "update" | "delete";
+  entity:
+    | "task"
+    | "project"
+    | "folder"
+    | "tag"
+    | "template"
+    | "attachment"
+    | "saved-query"
+    | "dependency"
+    | "perspective";
+  /** Id of the existing object; null for creates. */
+  id: string | null;
+  name: string;
+  /** Only the attributes that would differ. */
+  fields: FieldChange[];
+}
+
+/**
+ * What a mutating command would do, returned instead of its normal result
+ * when it is called with `dryRun`. Nothing is written.
+ *
+ * @public
+ */
+export interface DryRunPlan {
+  dryRun: true;
+  /** Canonical name of the command that was previewed, e.g. `updateTasks`. */
+  command: string;
+  changes: PlannedChange[];
+  /** Targets the real run would skip, with the error it would report. */
+  failed: { id: string; error: string }[];
+  /** Things the real run would silently work around, e.g. unknown tag names. */
+  warnings: string[];
+}
+
+/** Script-side shape of a plan, before the command name is attached. */
+type PlanBody = Omit<DryRunPlan, "dryRun" | "command">;
+
+/**
+ * Shared Zod schema fragment adding `dryRun` to a mutating command.
+ *
+ * Spread it into the descriptor's input schema and branch on
+ * `input.dryRun === true` in the handler.
+ *
+ * @public
+ */
+export const dryRunSchema = {
+  dryRun: z
+    .boolean()
+    .optional()
+    .describe(
+      "Preview the change: return a plan of what would be created, changed or deleted, with before/after values, and write nothing (default: false)"
+    ),
+} as const;
+
+/**
+ * Wrap a plan computed in TypeScript (for commands that write local files
+ * rather than the OmniFocus database).
+ */
+export function localPlan(
+  command: string,
+  plan: Partial<PlanBody>
+): DryRunPlan {
+  return {
+    dryRun: true,
+    command,
+    changes: plan.changes ?? [],
+    failed: plan.failed ?? [],
+    warnings: plan.warnings ?? [],
+  };
+}
+
+/**
+ * List the fields on which two plain objects differ, comparing by JSON value.
+ * A key missing on one side counts as `null`.
+ */
+export function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FieldChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields.flatMap((field) => {
+    const b = before[field] ?? null;
+    const a = after[field] ?? null;
+    return JSON.stringify(b) === JSON.stringify(a)
+      ? []
+      : [{ field, before: b, after: a }];
+  });
+}
+
+/**
+ * Run a read-only planning script and return its plan.
+ *
+ * `body` runs after {@link planHelpersExpr}; it records changes through the
+ * `__plan*` helpers and must not modify the database. Throwing from the body
+ * (e.g. "Task not found: …") fails the preview exactly as the real command
+ * would fail.
+ */
+export async function runPlanScript(
+  command: string,
+  body: string
+): Promise<CliOutput<DryRunPlan>> {
+  const result = await runOmniJSWrapped<PlanBody>(`
+${planHelpersExpr}
+${body}
+return JSON.stringify(__plan);`);
+
+  if (!result.success) {
+    return failure(
+      result.error ??
+        createError(ErrorCode.UNKNOWN_ERROR, "Failed to plan changes")
+    );
+  }
+
+  if (result.data === undefined) {
+    return failure(createError(ErrorCode.UNKNOWN_ERROR, "No plan returned"));
+  }
+
+  return success(localPlan(command, result.data));
+}
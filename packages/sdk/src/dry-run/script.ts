@@ -0,0 +1,149 @@
+/**
+ * OmniJS helpers shared by every planning script.
+ *
+ * Declares the script-level `__plan` accumulator and functions that read the
+ * current state of tasks, projects, folders and tags as plain objects keyed
+ * by the attribute names reported in a plan. Planning scripts copy that state,
+ * apply the requested change to the copy, and record the pair with
+ * `__planChange`, which keeps only the fields that differ. Values are
+ * normalized before comparison: dates become ISO-8601 strings, and empty
+ * strings and `undefined` become `null`.
+ */
+export const planHelpersExpr = `
+var __plan = { changes: [], failed: [], warnings: [] };
+
+function __planValue(value) {
+  if (value === undefined || value === null || value === "") { return null; }
+  if (value instanceof Date) { return value.toISOString(); }
+  return value;
+}
+
+function __planChange(action, entity, id, name, before, after) {
+  var fields = [];
+  var seen = {};
+  Object.keys(before).concat(Object.keys(after)).forEach(function(field) {
+    if (seen[field]) { return; }
+    seen[field] = true;
+    var b = __planValue(before[field]);
+    var a = __planValue(after[field]);
+    if (JSON.stringify(b) !== JSON.stringify(a)) {
+      fields.push({ field: field, before: b, after: a });
+    }
+  });
+  __plan.changes.push({ action: action, entity: entity, id: id, name: name, fields: fields });
+}
+
+function __planWarn(message) {
+  if (__plan.warnings.indexOf(message) === -1) { __plan.warnings.push(message); }
+}
+
+function __planCopy(state) {
+  var copy = {};
+  Object.keys(state).forEach(function(key) { copy[key] = state[key]; });
+  return copy;
+}
+
+function __planTags(names) {
+  var found = [];
+  names.forEach(function(name) {
+    var tag = flattenedTags.byName(name);
+    if (tag) {
+      if (found.indexOf(tag.name) === -1) { found.push(tag.name); }
+    } else {
+      __planWarn("Tag not found, would be skipped: " + name);
+    }
+  });
+  return found;
+}
+
+function __planRule(rule) {
+  if (!rule) { return null; }
+  var method = null;
+  ["DueDate", "Start", "Fixed"].forEach(function(name) {
+    if (rule.method === Task.RepetitionMethod[name]) { method = name; }
+  });
+  return { ruleString: rule.ruleString, method: method };
+}
+
+function __taskState(task) {
+  var project = task.containingProject;
+  var parent = task.parent;
+  var parentIsProject = parent && project && parent.id.primaryKey === project.id.primaryKey;
+  return {
+    name: task.name,
+    note: task.note,
+    flagged: task.flagged,
+    dueDate: task.dueDate,
+    deferDate: task.deferDate,
+    estimatedMinutes: task.estimatedMinutes,
+    repetitionRule: __planRule(task.repetitionRule),
+    tags: task.tags.map(function(t) { return t.name; }),
+    project: project ? project.name : null,
+    parentTask: parent && !parentIsProject ? parent.name : null,
+    completed: task.completed,
+    dropped: task.taskStatus === Task.Status.Dropped
+  };
+}
+
+function __planStatus(task, field) {
+  [task].concat(task.flattenedChildren).forEach(function(t) {
+    var before = __taskState(t);
+    if (before.completed || before.dropped) { return; }
+    var after = __planCopy(before);
+    after[field] = true;
+    __planChange("update", "task", t.id.primaryKey, t.name, before, after);
+  });
+  if (field === "completed" && task.repetitionRule) {
+    __planWarn("Completing a repeating task also creates its next occurrence: " + task.name);
+  }
+}
+
+function __planDeleteTask(task) {
+  __planChange("delete", "task", task.id.primaryKey, task.name, __taskState(task), {});
+  task.flattenedChildren.forEach(function(child) {
+    __planChange("delete", "task", child.id.primaryKey, child.name, __taskState(child), {});
+  });
+}
+
+function __projectStatus(project) {
+  if (project.status === Project.Status.OnHold) { return "on-hold"; }
+  if (project.status === Project.Status.Done) { return "completed"; }
+  if (project.status === Project.Status.Dropped) { return "dropped"; }
+  return "active";
+}
+
+function __projectState(project) {
+  var interval = project.reviewInterval;
+  return {
+    name: project.name,
+    note: project.note,
+    status: __projectStatus(project),
+    sequential: project.sequential,
+    dueDate: project.dueDate,
+    deferDate: project.deferDate,
+    folder: project.parentFolder ? project.parentFolder.name : null,
+    lastReviewDate: project.lastReviewDate,
+    reviewInterval: interval ? interval.steps + " " + interval.unit : null
+  };
+}
+
+function __planDeleteProject(project) {
+  __planChange("delete", "project", project.id.primaryKey, project.name, __projectState(project), {});
+  project.flattenedTasks.forEach(function(task) {
+    __planChange("delete", "task", task.id.primaryKey, task.name, __taskState(task), {});
+  });
+}
+
+function __folderState(folder) {
+  return {
+    name: folder.name,
+    parentFolder: folder.parent ? folder.parent.name : null
+  };
+}
+
+function __tagState(tag) {
+  return {
+    name: tag.name,
+    parentTag: tag.parent ? tag.parent.name : null
+  };
+}`;
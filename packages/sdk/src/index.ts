@@ -23,6 +23,7 @@ export type {
   UpdateTagOptions,
   BatchResult,
   RepetitionRule,
+  RepetitionWeekday,
   ReviewResult,
   UpdateProjectOptions,
   UpdateFolderOptions,
@@ -65,6 +66,32 @@ export {
 } from "./omnijs.js";
 export type { OmniJSResult } from "./omnijs.js";
 
+// Script transports (osascript by default; in-memory fake for tests/Linux)
+export {
+  getOmniJSTransport,
+  setOmniJSTransport,
+  resetOmniJSTransport,
+  osascriptTransport,
+  createFakeTransport,
+  createFakeDocument,
+} from "./transport/index.js";
+export type {
+  OmniJSTransport,
+  OmniJSTransportOutput,
+  FakeOmniJSTransport,
+  FakeTransportOptions,
+  FakeDocument,
+  FakeTaskRecord,
+  FakeProjectRecord,
+  FakeFolderRecord,
+  FakeTagRecord,
+  FakePerspectiveRecord,
+  FakeRepetitionMethod,
+  FakeProjectStatus,
+  FakeFolderStatus,
+  FakeTagStatus,
+} from "./transport/index.js";
+
 // Shared query layer (predicates, projection, sort, aggregate, etc.)
 export {
   buildListQueryBody,
@@ -74,6 +101,13 @@ export {
   compileAggregate,
   parseDate,
   parseDuration,
+  parseTaskQuery,
+  parseExpression,
+  ExpressionSyntaxError,
+  resolveTimeZone,
+  startOfZonedDay,
+  utcToZonedTime,
+  zonedTimeToUtc,
   taskFieldSpec,
   projectFieldSpec,
   folderFieldSpec,
@@ -102,6 +136,11 @@ export type {
   CompiledAggregate,
   CompiledPredicates,
   BuildListQueryBodyArgs,
+  TaskQueryNode,
+  ExpressionOperator,
+  ExpressionValue,
+  ExpressionComparison,
+  ExpressionGrammar,
 } from "./query/index.js";
 
 // Tasks
@@ -172,6 +211,30 @@ export type {
   DeletePerspectiveResult,
 } from "./commands/perspectives.js";
 
+// Virtual perspectives
+export {
+  saveVirtualPerspective,
+  listVirtualPerspectives,
+  getVirtualPerspective,
+  deleteVirtualPerspective,
+  compileVirtualPerspective,
+  getVirtualPerspectivesDir,
+  saveVirtualPerspectiveDescriptor,
+  getVirtualPerspectiveDescriptor,
+  deleteVirtualPerspectiveDescriptor,
+} from "./commands/virtual-perspectives.js";
+export type {
+  PerspectiveAvailability,
+  PerspectiveDateWindow,
+  PerspectiveTagRules,
+  PerspectiveRules,
+  VirtualPerspective,
+  CompiledVirtualPerspective,
+  SaveVirtualPerspectiveResult,
+  VirtualPerspectiveDetails,
+  DeleteVirtualPerspectiveResult,
+} from "./commands/virtual-perspectives.js";
+
 // Review
 export {
   reviewProject,
@@ -206,6 +269,22 @@ export type {
   TaskPaperImportResult,
 } from "./commands/taskpaper.js";
 
+// iCalendar import/export
+export {
+  exportICal,
+  importICal,
+  getICalImportsPath,
+  parseICalBusy,
+} from "./commands/ical.js";
+export type {
+  ICalBusyBlock,
+  ICalComponent,
+  ICalExportOptions,
+  ICalExportResult,
+  ICalImportOptions,
+  ICalImportResult,
+} from "./commands/ical.js";
+
 // Templates
 export {
   saveTemplate,
@@ -213,8 +292,11 @@ export {
   getTemplate,
   createFromTemplate,
   deleteTemplate,
+  getTemplateVariables,
+  validateTemplate,
 } from "./commands/templates.js";
 export type {
+  TemplateVariable,
   TemplateTask,
   ProjectTemplate,
   TemplateSummary,
@@ -224,7 +306,18 @@ export type {
   CreateFromTemplateOptions,
   CreateFromTemplateResult,
   DeleteTemplateResult,
+  TemplateValidationResult,
 } from "./commands/templates.js";
+export {
+  exportTemplates,
+  importTemplates,
+} from "./commands/template-library.js";
+export type {
+  TemplateExportResult,
+  TemplateImportOptions,
+  TemplateImportResult,
+  ImportedTemplate,
+} from "./commands/template-library.js";
 
 // Attachments
 export {
@@ -264,6 +357,7 @@ export type { SyncStatus, SyncResult } from "./commands/sync.js";
 // Repetition helpers and commands
 export {
   buildRRule,
+  parseRRule,
   repeatMethodToOmniJS,
   applyRepetitionRule,
   clearRepetitionRule,
@@ -343,6 +437,101 @@ export type {
   EvaluateScriptResult,
 } from "./commands/evaluate.js";
 
+// Undo journal
+export {
+  undo,
+  redo,
+  history,
+  undoDescriptor,
+  redoDescriptor,
+  historyDescriptor,
+} from "./commands/undo.js";
+export type {
+  ReplayOptions,
+  ReplayResult,
+  JournalConflict,
+  JournalEntrySummary,
+  HistoryOptions,
+  HistoryItem,
+  HistoryResult,
+} from "./commands/undo.js";
+export { getJournalPath } from "./journal/index.js";
+export type {
+  TaskSnapshot,
+  Journal,
+  JournalChange,
+  JournalEntry,
+} from "./journal/index.js";
+
+// Saved queries
+export {
+  saveQuery,
+  listSavedQueries,
+  getSavedQuery,
+  deleteSavedQuery,
+  runSavedQuery,
+  getSavedQueriesPath,
+  saveQueryDescriptor,
+  listSavedQueriesDescriptor,
+  getSavedQueryDescriptor,
+  deleteSavedQueryDescriptor,
+  runSavedQueryDescriptor,
+} from "./commands/saved-queries.js";
+export type {
+  SavedQuery,
+  SavedQueryEntity,
+  SaveQueryOptions,
+  SaveQueryResult,
+  SavedQuerySummary,
+  ListSavedQueriesResult,
+  DeleteSavedQueryResult,
+  RunSavedQueryOptions,
+  SavedQueryRunResult,
+} from "./commands/saved-queries.js";
+
+// Task dependencies
+export {
+  addDependency,
+  removeDependency,
+  getTaskDependencies,
+  findDependencyCycles,
+  getCriticalPath,
+  addDependencyDescriptor,
+  removeDependencyDescriptor,
+  getTaskDependenciesDescriptor,
+  findDependencyCyclesDescriptor,
+  getCriticalPathDescriptor,
+} from "./commands/dependencies.js";
+export type {
+  DependencyTaskStatus,
+  DependencyTask,
+  AddDependencyResult,
+  RemoveDependencyResult,
+  TaskDependenciesResult,
+  DependencyCyclesResult,
+  CriticalPathStep,
+  CriticalPathResult,
+} from "./commands/dependencies.js";
+export {
+  getDependenciesPath,
+  findBlockingChain,
+  findCycles,
+  computeCriticalPath,
+} from "./dependencies/index.js";
+export type {
+  DependencyLinks,
+  DependencyStore,
+  ScheduledTask,
+} from "./dependencies/index.js";
+
+// Dry-run previews
+export { dryRunSchema } from "./dry-run/index.js";
+export type {
+  DryRunPlan,
+  PlannedChange,
+  FieldChange,
+} from "./dry-run/index.js";
+
 // Batch 6: Advanced command descriptors (perspectives, review, focus, sync,
 // archive, attachments, taskpaper, templates, url, open).
 export {
@@ -377,12 +566,18 @@ export {
   exportTaskPaperDescriptor,
   importTaskPaperDescriptor,
 } from "./commands/taskpaper.js";
+export { exportICalDescriptor, importICalDescriptor } from "./commands/ical.js";
 export {
   saveTemplateDescriptor,
   listTemplatesDescriptor,
   getTemplateDescriptor,
   createFromTemplateDescriptor,
   deleteTemplateDescriptor,
+  validateTemplateDescriptor,
 } from "./commands/templates.js";
+export {
+  exportTemplatesDescriptor,
+  importTemplatesDescriptor,
+} from "./commands/template-library.js";
 export { generateUrlDescriptor } from "./commands/url.js";
 export { openItemDescriptor } from "./commands/open.js";
@@ -0,0 +1,27 @@
+/**
+ * Local undo journal for mutating task commands.
+ *
+ * `completeTask`, `updateTask`, `dropTask`, `deleteTask`, `moveTaskToParent`
+ * and the batch commands capture a {@link TaskSnapshot} of every task they
+ * touch, before and after the change, in the same script that makes it. The
+ * pairs are appended to `~/.config/ofocus/journal.json`, which the `undo`,
+ * `redo` and `history` commands read.
+ */
+
+export {
+  taskSnapshotExpr,
+  restoreTaskExpr,
+  diffTaskSnapshots,
+  type TaskSnapshot,
+} from "./snapshot.js";
+export {
+  getJournalPath,
+  readJournal,
+  writeJournal,
+  recordJournalEntry,
+  remapJournalIds,
+  type Journal,
+  type JournalChange,
+  type JournalEntry,
+  type JournalPayload,
+} from "./store.js";
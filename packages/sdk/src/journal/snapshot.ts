@@ -0,0 +1,190 @@
+/**
+ * Before/after images of tasks, captured inside mutation scripts.
+ *
+ * A snapshot records every task attribute the journaled commands can change,
+ * plus where the task sits (parent and sibling index) so a deleted or moved
+ * task can be put back. Dates are ISO-8601 strings.
+ */
+
+/**
+ * The state of one task at a point in time.
+ *
+ * @public
+ */
+export interface TaskSnapshot {
+  id: string;
+  name: string;
+  note: string;
+  flagged: boolean;
+  sequential: boolean;
+  dueDate: string | null;
+  deferDate: string | null;
+  completionDate: string | null;
+  dropDate: string | null;
+  estimatedMinutes: number | null;
+  repetitionRule: { ruleString: string; method: string } | null;
+  tagIds: string[];
+  /** Parent task id (the project id for top-level project tasks); null in the inbox. */
+  parentId: string | null;
+  /** Position among the parent's children (or the inbox). */
+  index: number;
+  /** Present on deep snapshots (complete, drop, delete), which also cover the subtree. */
+  children?: TaskSnapshot[];
+}
+
+/**
+ * OmniJS source defining `__snapshotTask(task, deep)`, which returns a
+ * {@link TaskSnapshot} for `task`. Embed it at the top of a script body.
+ */
+export const taskSnapshotExpr = `
+function __snapshotTask(task, deep) {
+  var parent = task.parent;
+  var siblings = parent ? parent.children : inbox;
+  var index = -1;
+  for (var i = 0; i < siblings.length; i++) {
+    if (siblings[i].id.primaryKey === task.id.primaryKey) { index = i; break; }
+  }
+  var rule = task.repetitionRule;
+  var method = "Fixed";
+  if (rule) {
+    ["DueDate", "Start", "Fixed"].forEach(function(name) {
+      if (rule.method === Task.RepetitionMethod[name]) { method = name; }
+    });
+  }
+  var snapshot = {
+    id: task.id.primaryKey,
+    name: task.name,
+    note: task.note || "",
+    flagged: task.flagged,
+    sequential: task.sequential,
+    dueDate: task.dueDate ? task.dueDate.toISOString() : null,
+    deferDate: task.deferDate ? task.deferDate.toISOString() : null,
+    completionDate: task.completionDate ? task.completionDate.toISOString() : null,
+    dropDate: task.dropDate ? task.dropDate.toISOString() : null,
+    estimatedMinutes: task.estimatedMinutes != null ? task.estimatedMinutes : null,
+    repetitionRule: rule ? { ruleString: rule.ruleString, method: method } : null,
+    tagIds: task.tags.map(function(t) { return t.id.primaryKey; }),
+    parentId: parent ? parent.id.primaryKey : null,
+    index: index
+  };
+  if (deep) {
+    snapshot.children = task.children.map(function(c) { return __snapshotTask(c, true); });
+  }
+  return snapshot;
+}`;
+
+/**
+ * OmniJS source defining `__restoreTask(target, task, container)`, which
+ * brings `task` back to the `target` snapshot and returns it.
+ *
+ * When `task` is null the task is recreated — under `container` if given,
+ * otherwise at the snapshot's recorded position — and the new id is noted in
+ * the script-level `__remapped` object, which the caller must declare.
+ * Children of an existing task only have their completion and drop state
+ * restored; children of a recreated task are recreated in full.
+ */
+export const restoreTaskExpr = `
+function __insertionPoint(parentId, index) {
+  var container = null;
+  if (parentId !== null) {
+    parentId = __remapped[parentId] || parentId;
+    container = Project.byIdentifier(parentId) || Task.byIdentifier(parentId);
+  }
+  var siblings = container ? container.children : inbox;
+  var next = index >= 0 && index < siblings.length ? siblings[index] : null;
+  if (next) { return next.before; }
+  return container ? container.ending : inbox.ending;
+}
+
+function __restoreStatus(target, task) {
+  if (target.completionDate && !task.completed) {
+    task.markComplete(new Date(target.completionDate));
+  } else if (!target.completionDate && task.completed) {
+    task.markIncomplete();
+  }
+  if (target.dropDate && !task.dropDate) {
+    task.drop(false);
+  } else if (!target.dropDate && task.dropDate) {
+    task.markIncomplete();
+  }
+}
+
+function __restoreTask(target, task, container) {
+  var recreated = !task;
+  if (recreated) {
+    task = new Task(target.name, container ? container.ending : __insertionPoint(target.parentId, target.index));
+    __remapped[target.id] = task.id.primaryKey;
+  } else {
+    var parent = task.parent;
+    if ((parent ? parent.id.primaryKey : null) !== target.parentId) {
+      moveTasks([task], __insertionPoint(target.parentId, target.index));
+    }
+  }
+  task.name = target.name;
+  task.note = target.note;
+  task.flagged = target.flagged;
+  task.sequential = target.sequential;
+  task.dueDate = target.dueDate ? new Date(target.dueDate) : null;
+  task.deferDate = target.deferDate ? new Date(target.deferDate) : null;
+  task.estimatedMinutes = target.estimatedMinutes;
+  task.repetitionRule = target.repetitionRule
+    ? new Task.RepetitionRule(target.repetitionRule.ruleString, Task.RepetitionMethod[target.repetitionRule.method])
+    : null;
+  var currentTagIds = task.tags.map(function(t) { return t.id.primaryKey; });
+  if (currentTagIds.slice().sort().join(",") !== target.tagIds.slice().sort().join(",")) {
+    task.clearTags();
+    target.tagIds.forEach(function(tagId) {
+      var tag = Tag.byIdentifier(tagId);
+      if (tag) { task.addTag(tag); }
+    });
+  }
+  (target.children || []).forEach(function(childTarget) {
+    var child = recreated ? null : Task.byIdentifier(childTarget.id);
+    if (child) {
+      __restoreStatus(childTarget, child);
+    } else {
+      __restoreTask(childTarget, null, task);
+    }
+  });
+  __restoreStatus(target, task);
+  return task;
+}`;
+
+/** Attributes compared when checking a task against its expected snapshot. */
+const COMPARED_FIELDS = [
+  "name",
+  "note",
+  "flagged",
+  "sequential",
+  "dueDate",
+  "deferDate",
+  "completionDate",
+  "dropDate",
+  "estimatedMinutes",
+  "repetitionRule",
+  "tagIds",
+  "parentId",
+] as const;
+
+function comparable(snapshot: TaskSnapshot, field: string): string {
+  const value: unknown =
+    field === "tagIds"
+      ? [...snapshot.tagIds].sort()
+      : snapshot[field as keyof TaskSnapshot];
+  return JSON.stringify(value ?? null);
+}
+
+/**
+ * List the attributes on which `actual` differs from `expected`.
+ *
+ * Sibling position and children are ignored: reordering a list or editing a
+ * subtask elsewhere should not block undoing a change to the parent.
+ */
+export function diffTaskSnapshots(
+  expected: TaskSnapshot,
+  actual: TaskSnapshot
+): string[] {
+  return COMPARED_FIELDS.filter(
+    (field) => comparable(expected, field) !== comparable(actual, field)
+  );
+}
@@ -0,0 +1,154 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { randomBytes } from "node:crypto";
+import { ErrorCode, createError, type CliError } from "../errors.js";
+import type { TaskSnapshot } from "./snapshot.js";
+
+/**
+ * One task touched by a journaled mutation.
+ *
+ * @public
+ */
+export interface JournalChange {
+  taskId: string;
+  /** State before the mutation. */
+  before: TaskSnapshot;
+  /** State after the mutation; null when the task was deleted. */
+  after: TaskSnapshot | null;
+}
+
+/**
+ * One journaled mutation (a single command invocation).
+ *
+ * @public
+ */
+export interface JournalEntry {
+  /** Short random identifier. */
+  id: string;
+  /** Canonical name of the command that made the change, e.g. `completeTask`. */
+  command: string;
+  /** When the mutation was recorded (ISO-8601). */
+  timestamp: string;
+  changes: JournalChange[];
+}
+
+/**
+ * On-disk journal: an undo stack and a redo stack, oldest first.
+ *
+ * @public
+ */
+export interface Journal {
+  version: 1;
+  undo: JournalEntry[];
+  redo: JournalEntry[];
+}
+
+/**
+ * Field mutation scripts add to their JSON result to hand back snapshots.
+ * Callers strip it before returning the result.
+ */
+export interface JournalPayload {
+  __journal?: JournalChange[];
+}
+
+/**
+ * Undo entries kept on disk; older entries are discarded.
+ */
+const MAX_UNDO_ENTRIES = 100;
+
+/**
+ * Get the journal file path.
+ */
+export function getJournalPath(): string {
+  return path.join(os.homedir(), ".config", "ofocus", "journal.json");
+}
+
+/**
+ * Read the journal, returning an empty one if none has been written yet, or
+ * an error naming the file if it isn't valid JSON.
+ */
+export function readJournal(): Journal | CliError {
+  const journalPath = getJournalPath();
+  if (!fs.existsSync(journalPath)) {
+    return { version: 1, undo: [], redo: [] };
+  }
+  try {
+    return JSON.parse(fs.readFileSync(journalPath, "utf-8")) as Journal;
+  } catch (err) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid journal file ${journalPath}: ${err instanceof Error ? err.message : String(err)}`
+    );
+  }
+}
+
+/**
+ * Persist the journal, trimming the undo stack to its size limit.
+ */
+export function writeJournal(journal: Journal): void {
+  const journalPath = getJournalPath();
+  fs.mkdirSync(path.dirname(journalPath), { recursive: true });
+  const trimmed: Journal = {
+    ...journal,
+    undo: journal.undo.slice(-MAX_UNDO_ENTRIES),
+  };
+  fs.writeFileSync(journalPath, JSON.stringify(trimmed, null, 2), "utf-8");
+}
+
+/**
+ * Record a mutation's before/after images as a new undoable entry.
+ *
+ * A new entry clears the redo stack. Does nothing when `changes` is empty or
+ * missing (e.g. every task in a batch failed). Journaling is best-effort: the
+ * mutation has already happened, so a journal write error must not turn it
+ * into a reported failure that an agent would retry.
+ */
+export function recordJournalEntry(
+  command: string,
+  changes: JournalChange[] | undefined
+): void {
+  if (changes === undefined || changes.length === 0) return;
+
+  try {
+    // Leave an unreadable journal alone rather than overwrite it
+    const journal = readJournal();
+    if ("code" in journal) return;
+    journal.undo.push({
+      id: randomBytes(4).toString("hex"),
+      command,
+      timestamp: new Date().toISOString(),
+      changes,
+    });
+    journal.redo = [];
+    writeJournal(journal);
+  } catch {
+    // Best-effort; see above.
+  }
+}
+
+/**
+ * Rewrite task ids throughout the journal after undo/redo recreated deleted
+ * tasks under new ids, so older entries still find them.
+ */
+export function remapJournalIds(
+  journal: Journal,
+  remapped: Record<string, string>
+): void {
+  const remap = (id: string): string => remapped[id] ?? id;
+  const remapSnapshot = (snapshot: TaskSnapshot): void => {
+    snapshot.id = remap(snapshot.id);
+    if (snapshot.parentId !== null) {
+      snapshot.parentId = remap(snapshot.parentId);
+    }
+    snapshot.children?.forEach(remapSnapshot);
+  };
+
+  for (const entry of [...journal.undo, ...journal.redo]) {
+    for (const change of entry.changes) {
+      change.taskId = remap(change.taskId);
+      remapSnapshot(change.before);
+      if (change.after !== null) remapSnapshot(change.after);
+    }
+  }
+}
@@ -1,13 +1,12 @@
-import { execFile } from "node:child_process";
-import { promisify } from "node:util";
 import {
   type CliError,
   ErrorCode,
   createError,
   parseScriptError,
 } from "./errors.js";
+import { getOmniJSTransport } from "./transport/index.js";
 
-const execFileAsync = promisify(execFile);
+export { escapeJSForAppleScript } from "./transport/osascript.js";
 
 /**
  * Result of executing an OmniJS script via OmniFocus's evaluate javascript.
@@ -26,9 +25,10 @@ export interface OmniJSResult<T> {
 }
 
 /**
- * Execute an OmniJS (JavaScript) script within OmniFocus via osascript.
+ * Execute an OmniJS (JavaScript) script within OmniFocus.
  *
- * The script is evaluated using:
+ * The script is evaluated by the active transport (see `getOmniJSTransport`).
+ * By default that is osascript:
  *   osascript -e 'tell application "OmniFocus" to evaluate javascript "..."'
  *
  * The script should end with a JSON.stringify(...) expression so the result
@@ -36,17 +36,7 @@ export interface OmniJSResult<T> {
  */
 export async function runOmniJS<T>(script: string): Promise<OmniJSResult<T>> {
   try {
-    const escapedScript = escapeJSForAppleScript(script);
-    const asScript = `tell application "OmniFocus" to evaluate javascript "${escapedScript}"`;
-
-    const { stdout, stderr } = await execFileAsync(
-      "osascript",
-      ["-e", asScript],
-      {
-        maxBuffer: 10 * 1024 * 1024, // 10MB for large query results
-        timeout: 30_000,
-      }
-    );
+    const { stdout, stderr } = await getOmniJSTransport().evaluate(script);
 
     if (stderr) {
       return { success: false, error: parseOmniJSError(stderr.trim()) };
@@ -98,25 +88,6 @@ export async function runOmniJS<T>(script: string): Promise<OmniJSResult<T>> {
   }
 }
 
-/**
- * Escape a JavaScript string for embedding inside an AppleScript
- * double-quoted string passed to `evaluate javascript`.
- *
- * With execFile (no shell layer), escaping layers are:
- * 1. AppleScript double-quoted string: \\ → \, \" → "
- * 2. JavaScript eval: interprets the resulting string as JS source
- *
- * We escape: backslashes, double quotes, newlines, tabs, carriage returns.
- */
-export function escapeJSForAppleScript(js: string): string {
-  return js
-    .replace(/\\/g, "\\\\") // \ → \\ (for AppleScript string layer)
-    .replace(/"/g, '\\"') // " → \" (escape for AS string)
-    .replace(/\n/g, "\\n") // newline → \n literal in AS string
-    .replace(/\r/g, "\\r") // carriage return → \r
-    .replace(/\t/g, "\\t"); // tab → \t
-}
-
 /**
  * Parse an OmniJS error message into a structured CliError.
  *
@@ -132,11 +103,7 @@ function parseOmniJSError(rawError: string): CliError {
     errorLower.includes("is undefined") ||
     errorLower.includes("is not defined")
   ) {
-    return createError(
-      ErrorCode.SCRIPT_ERROR,
-      "OmniJS script error",
-      rawError
-    );
+    return createError(ErrorCode.SCRIPT_ERROR, "OmniJS script error", rawError);
   }
 
   return parseScriptError(rawError);
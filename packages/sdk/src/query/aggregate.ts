@@ -1,5 +1,6 @@
 import { type CliError, ErrorCode, createError } from "../errors.js";
 import { taskGroupKeys, type GroupKeySpec } from "./fields.js";
+import { startOfZonedDay } from "./time-zone.js";
 import type { BaseListQueryOptions } from "./types.js";
 
 /**
@@ -39,11 +40,15 @@ export interface CompiledAggregate {
  * correct key set. Defaults to {@link taskGroupKeys} for backward compatibility
  * with call sites that do not supply a map.
  *
+ * `timeZone` (as returned by `resolveTimeZone`) puts calendar-day buckets such
+ * as `dueBucket` on that zone's midnights; without it they use the host's.
+ *
  * @public
  */
 export function compileAggregate(
   options: BaseListQueryOptions,
-  groupKeys: Record<string, GroupKeySpec> = taskGroupKeys
+  groupKeys: Record<string, GroupKeySpec> = taskGroupKeys,
+  timeZone?: string
 ): CompiledAggregate {
   const validationErrors: CliError[] = [];
 
@@ -102,7 +107,7 @@ export function compileAggregate(
     return {
       shape: "groups",
       groupKey,
-      groupKeyExpr: spec.omnijsExpr,
+      groupKeyExpr: zonedGroupKeyExpr(spec, timeZone) ?? spec.omnijsExpr,
       withStats,
       validationErrors,
     };
@@ -110,3 +115,21 @@ export function compileAggregate(
 
   return { shape: "list", withStats, validationErrors };
 }
+
+/**
+ * The expression for a calendar-day group key with its day boundaries in
+ * `timeZone`, or `null` when the key isn't zoned or no zone is given.
+ */
+function zonedGroupKeyExpr(
+  spec: GroupKeySpec,
+  timeZone: string | undefined
+): string | null {
+  if (spec.zonedExpr === undefined || timeZone === undefined) return null;
+  const now = new Date();
+  // An unknown zone can't place midnights; keep the host-local expression.
+  if (startOfZonedDay(now, timeZone) === null) return null;
+  return spec.zonedExpr(
+    (days) =>
+      `new Date("${startOfZonedDay(now, timeZone, days)?.toISOString() ?? ""}")`
+  );
+}
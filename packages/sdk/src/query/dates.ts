@@ -1,4 +1,9 @@
 import { type CliError, ErrorCode, createError } from "../errors.js";
+import {
+  explicitTimeZone,
+  startOfZonedDay,
+  zonedTimeToUtc,
+} from "./time-zone.js";
 
 /**
  * A successfully-parsed date, normalized to ISO 8601 UTC.
@@ -18,6 +23,13 @@ const MS_PER_WEEK = MS_PER_DAY * 7;
 const MS_PER_MONTH_APPROX = MS_PER_DAY * 30;
 const MS_PER_YEAR_APPROX = MS_PER_DAY * 365;
 
+/** Calendar-day keywords and their offset in days from today. */
+const DAY_KEYWORDS = new Map([
+  ["yesterday", -1],
+  ["today", 0],
+  ["tomorrow", 1],
+]);
+
 /**
  * Parse a duration like `7d`, `1w`, `2m`, `1y` into milliseconds.
  *
@@ -92,16 +104,29 @@ export function parseDuration(input: string): number | CliError {
  * - ISO 8601 datetime: `2026-05-30T14:00:00Z` or `2026-05-30T14:00:00`
  * - Natural relative: `today`, `tomorrow`, `yesterday`
  * - Offsets: `7d`, `1w`, `2m`, `1y` (interpreted as `now + duration`)
+ * - Signed offsets: `+3d` (same as `3d`), `-1w` (interpreted as `now - duration`)
  * - Prefixed offsets: `in 3 days`, `in 1 week`, `in 2 months`, `in 1 year`
  *
+ * Calendar days — `today`/`tomorrow`/`yesterday` and date-only ISO input —
+ * start at midnight in the time zone (see `resolveTimeZone`), and an ISO
+ * datetime without an offset is read as wall-clock time there. Without a time
+ * zone or `OFOCUS_TIME_ZONE`, days are UTC days and offset-less datetimes are
+ * left to the platform parser.
+ *
  * Returns the normalized ISO string, or a `CliError` for invalid input.
  *
  * @param input - The date expression to parse.
  * @param now - Reference time for relative expressions. Defaults to current time.
+ * @param timeZone - IANA time zone for calendar days. Defaults to
+ *   `OFOCUS_TIME_ZONE`, then UTC.
  *
  * @public
  */
-export function parseDate(input: string, now?: Date): ParsedDate | CliError {
+export function parseDate(
+  input: string,
+  now?: Date,
+  timeZone?: string
+): ParsedDate | CliError {
   if (typeof input !== "string") {
     return createError(
       ErrorCode.INVALID_DATE_FORMAT,
@@ -124,6 +149,10 @@ export function parseDate(input: string, now?: Date): ParsedDate | CliError {
     );
   }
 
+  const zone = explicitTimeZone(timeZone);
+  if (typeof zone === "object") return zone;
+  const dayZone = zone ?? "UTC";
+
   const reference = now ?? new Date();
   const lower = trimmed.toLowerCase();
 
@@ -131,24 +160,15 @@ export function parseDate(input: string, now?: Date): ParsedDate | CliError {
   if (lower === "now") {
     return { iso: reference.toISOString() };
   }
-  if (lower === "today") {
-    return { iso: startOfDayUtc(reference).toISOString() };
-  }
-  if (lower === "tomorrow") {
-    const t = startOfDayUtc(reference);
-    t.setUTCDate(t.getUTCDate() + 1);
-    return { iso: t.toISOString() };
-  }
-  if (lower === "yesterday") {
-    const t = startOfDayUtc(reference);
-    t.setUTCDate(t.getUTCDate() - 1);
-    return { iso: t.toISOString() };
+  const dayOffset = DAY_KEYWORDS.get(lower);
+  if (dayOffset !== undefined) {
+    const start = startOfZonedDay(reference, dayZone, dayOffset);
+    if (start !== null) return { iso: start.toISOString() };
   }
 
   // Prefixed offset: "in 3 days" / "in 1 week" / "in 2 months" / "in 1 year"
-  const inMatch = /^in\s+(\d+)\s+(day|days|week|weeks|month|months|year|years)$/i.exec(
-    lower
-  );
+  const inMatch =
+    /^in\s+(\d+)\s+(day|days|week|weeks|month|months|year|years)$/i.exec(lower);
   if (inMatch) {
     const quantityStr = inMatch[1];
     const unit = inMatch[2];
@@ -169,13 +189,16 @@ export function parseDate(input: string, now?: Date): ParsedDate | CliError {
     return { iso: new Date(reference.getTime() + ms).toISOString() };
   }
 
-  // Bare offset: "7d" / "1w" / "2m" / "1y"
-  if (/^\d+\s*[dwmy]$/i.test(lower)) {
-    const duration = parseDuration(lower);
+  // Bare offset: "7d" / "1w" / "2m" / "1y", optionally signed: "+3d" / "-1w"
+  if (/^[+-]?\d+\s*[dwmy]$/i.test(lower)) {
+    const sign = lower.startsWith("-") ? -1 : 1;
+    const duration = parseDuration(lower.replace(/^[+-]/, ""));
     if (typeof duration !== "number") {
       return duration;
     }
-    return { iso: new Date(reference.getTime() + duration).toISOString() };
+    return {
+      iso: new Date(reference.getTime() + sign * duration).toISOString(),
+    };
   }
 
   // ISO 8601 — let the platform parser handle it, but be picky about the shape
@@ -183,11 +206,15 @@ export function parseDate(input: string, now?: Date): ParsedDate | CliError {
   const isoLike =
     /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d{1,3})?)?(Z|[+-]\d{2}:?\d{2})?)?$/;
   if (isoLike.test(trimmed)) {
-    // If it's just a date (no time), interpret as UTC midnight.
+    // A date (no time) is midnight in the zone; a datetime without an offset
+    // is wall-clock time there.
     const dateOnly = /^\d{4}-\d{2}-\d{2}$/;
+    const offsetLess = !/(Z|[+-]\d{2}:?\d{2})$/.test(trimmed);
     const candidate = dateOnly.test(trimmed)
-      ? new Date(`${trimmed}T00:00:00.000Z`)
-      : new Date(trimmed);
+      ? new Date(zonedTimeToUtc(`${trimmed}T00:00:00`, dayZone) ?? NaN)
+      : zone !== undefined && offsetLess
+        ? new Date(zonedTimeToUtc(withSeconds(trimmed), zone) ?? NaN)
+        : new Date(trimmed);
     if (!Number.isFinite(candidate.getTime())) {
       return createError(
         ErrorCode.INVALID_DATE_FORMAT,
@@ -200,7 +227,7 @@ export function parseDate(input: string, now?: Date): ParsedDate | CliError {
   return createError(
     ErrorCode.INVALID_DATE_FORMAT,
     `Unrecognized date format: ${input}`,
-    'Expected ISO 8601, "today"/"tomorrow"/"yesterday", a duration like "7d", or "in N days/weeks/months/years"'
+    'Expected ISO 8601, "today"/"tomorrow"/"yesterday", an offset like "7d" or "-1w", or "in N days/weeks/months/years"'
   );
 }
 
@@ -223,8 +250,7 @@ function unitToMs(unit: string, quantity: number): number {
   }
 }
 
-function startOfDayUtc(d: Date): Date {
-  return new Date(
-    Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate(), 0, 0, 0, 0)
-  );
+/** Pad an offset-less `YYYY-MM-DDTHH:mm` datetime out to whole seconds. */
+function withSeconds(datetime: string): string {
+  return /T\d{2}:\d{2}$/.test(datetime) ? `${datetime}:00` : datetime;
 }
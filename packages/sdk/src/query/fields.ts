@@ -73,6 +73,13 @@ export const taskFieldSpec: EntityFieldSpec = {
     childTaskCount: { omnijsExpr: "t.children.length" },
     hasAttachments: { omnijsExpr: "(t.attachments.length > 0)" },
     hasRepetition: { omnijsExpr: "(t.repetitionRule != null)" },
+    repetitionRule: {
+      omnijsExpr: "(t.repetitionRule ? t.repetitionRule.ruleString : null)",
+    },
+    repetitionMethod: {
+      omnijsExpr:
+        '(t.repetitionRule ? (t.repetitionRule.method === Task.RepetitionMethod.DueDate ? "due-again" : t.repetitionRule.method === Task.RepetitionMethod.Start ? "defer-another" : "scheduled") : null)',
+    },
     inInbox: { omnijsExpr: "(t.containingProject == null)" },
   },
   defaultFields: ["id", "name", "flagged", "dueDate", "projectName"],
@@ -209,6 +216,37 @@ export const tagFieldSpec: EntityFieldSpec = {
  */
 export interface GroupKeySpec {
   omnijsExpr: string;
+  /**
+   * Set by calendar-day buckets. Builds the expression from `dayStart(n)`, an
+   * OmniJS `Date` for midnight `n` days from today in the query's time zone;
+   * used in place of `omnijsExpr` (host-local midnight) when a zone is given.
+   */
+  zonedExpr?: (dayStart: (days: number) => string) => string;
+}
+
+/**
+ * Bucket a date field into `overdue`, `today`, `this-week` (the next seven
+ * days), `later` or `none`.
+ */
+function dayBucket(field: string): GroupKeySpec {
+  const bucket = (bounds: string): string => `(function() {
+      if (!t.${field}) return "none";
+      ${bounds}
+      if (t.${field} < todayStart) return "overdue";
+      if (t.${field} < tomorrowStart) return "today";
+      if (t.${field} < weekEnd) return "this-week";
+      return "later";
+    })()`;
+  return {
+    omnijsExpr: bucket(`var now = new Date();
+      var todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      var tomorrowStart = new Date(todayStart.getTime() + 86400000);
+      var weekEnd = new Date(todayStart.getTime() + 7 * 86400000);`),
+    zonedExpr: (dayStart) =>
+      bucket(`var todayStart = ${dayStart(0)};
+      var tomorrowStart = ${dayStart(1)};
+      var weekEnd = ${dayStart(7)};`),
+  };
 }
 
 /**
@@ -226,32 +264,8 @@ export const projectGroupKeys: Record<string, GroupKeySpec> = {
   flagged: {
     omnijsExpr: '(t.flagged ? "flagged" : "not flagged")',
   },
-  dueBucket: {
-    omnijsExpr: `(function() {
-      if (!t.dueDate) return "none";
-      var now = new Date();
-      var todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      var tomorrowStart = new Date(todayStart.getTime() + 86400000);
-      var weekEnd = new Date(todayStart.getTime() + 7 * 86400000);
-      if (t.dueDate < todayStart) return "overdue";
-      if (t.dueDate < tomorrowStart) return "today";
-      if (t.dueDate < weekEnd) return "this-week";
-      return "later";
-    })()`,
-  },
-  nextReviewBucket: {
-    omnijsExpr: `(function() {
-      if (!t.nextReviewDate) return "none";
-      var now = new Date();
-      var todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      var tomorrowStart = new Date(todayStart.getTime() + 86400000);
-      var weekEnd = new Date(todayStart.getTime() + 7 * 86400000);
-      if (t.nextReviewDate < todayStart) return "overdue";
-      if (t.nextReviewDate < tomorrowStart) return "today";
-      if (t.nextReviewDate < weekEnd) return "this-week";
-      return "later";
-    })()`,
-  },
+  dueBucket: dayBucket("dueDate"),
+  nextReviewBucket: dayBucket("nextReviewDate"),
 };
 
 /**
@@ -285,19 +299,7 @@ export const taskGroupKeys: Record<string, GroupKeySpec> = {
       return "active";
     })()`,
   },
-  dueBucket: {
-    omnijsExpr: `(function() {
-      if (!t.dueDate) return "none";
-      var now = new Date();
-      var todayStart = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      var tomorrowStart = new Date(todayStart.getTime() + 86400000);
-      var weekEnd = new Date(todayStart.getTime() + 7 * 86400000);
-      if (t.dueDate < todayStart) return "overdue";
-      if (t.dueDate < tomorrowStart) return "today";
-      if (t.dueDate < weekEnd) return "this-week";
-      return "later";
-    })()`,
-  },
+  dueBucket: dayBucket("dueDate"),
 };
 
 /**
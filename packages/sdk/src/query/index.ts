@@ -279,6 +279,12 @@ export type {
 } from "./types.js";
 export type { ParsedDate } from "./dates.js";
 export { parseDate, parseDuration } from "./dates.js";
+export {
+  resolveTimeZone,
+  startOfZonedDay,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from "./time-zone.js";
 export type { EntityFieldSpec, FieldGetter, GroupKeySpec } from "./fields.js";
 export {
   taskFieldSpec,
@@ -306,5 +312,17 @@ export {
   compileTagPredicates,
   compileFolderPredicates,
 } from "./predicates.js";
+export type {
+  TaskQueryNode,
+  ExpressionOperator,
+  ExpressionValue,
+  ExpressionComparison,
+  ExpressionGrammar,
+} from "./where.js";
+export {
+  parseTaskQuery,
+  parseExpression,
+  ExpressionSyntaxError,
+} from "./where.js";
 export { splitCommaSeparated, commaSeparatedStringArray } from "./coerce.js";
 export { listProjectionSchema, listSortSchema } from "./list-schema.js";
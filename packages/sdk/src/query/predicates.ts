@@ -1,10 +1,17 @@
 import { type CliError, ErrorCode, createError } from "../errors.js";
 import { escapeJSString } from "../omnijs.js";
 import { parseDate, parseDuration } from "./dates.js";
+import { resolveTimeZone, startOfZonedDay } from "./time-zone.js";
+import { parseTaskQuery, whereError, type TaskQueryNode } from "./where.js";
+import {
+  dependencyBlockedExpr,
+  readDependencies,
+} from "../dependencies/index.js";
 import type {
   TagMode,
   TaskQueryOptions,
   ProjectQueryOptions,
+  ProjectStatus,
   TagQueryOptions,
   FolderQueryOptions,
   FolderStatus,
@@ -44,9 +51,10 @@ function isoToOmniJSDate(iso: string): string {
 function resolveDate(
   input: string,
   fieldLabel: string,
-  validationErrors: CliError[]
+  validationErrors: CliError[],
+  timeZone: string | undefined
 ): string | null {
-  const parsed = parseDate(input);
+  const parsed = parseDate(input, undefined, timeZone);
   if ("code" in parsed) {
     validationErrors.push(
       createError(
@@ -60,6 +68,39 @@ function resolveDate(
   return isoToOmniJSDate(parsed.iso);
 }
 
+/**
+ * Compile an `…On` predicate: `field` falls on the calendar day (in the time
+ * zone, see {@link parseDate}) that `input` resolves into. Errors are pushed
+ * onto the caller's error array; the function returns `null` on failure.
+ */
+function resolveDay(
+  input: string,
+  field: string,
+  fieldLabel: string,
+  validationErrors: CliError[],
+  timeZone: string | undefined
+): string | null {
+  const fail = (error: CliError): null => {
+    validationErrors.push(
+      createError(
+        error.code,
+        `Invalid ${fieldLabel}: ${error.message}`,
+        error.details
+      )
+    );
+    return null;
+  };
+  const zone = resolveTimeZone(timeZone);
+  if (typeof zone !== "string") return fail(zone);
+  const parsed = parseDate(input, undefined, timeZone);
+  if ("code" in parsed) return fail(parsed);
+  const instant = new Date(parsed.iso);
+  const start = startOfZonedDay(instant, zone);
+  const end = startOfZonedDay(instant, zone, 1);
+  if (start === null || end === null) return null;
+  return `(t.${field} != null && t.${field} >= ${isoToOmniJSDate(start.toISOString())} && t.${field} < ${isoToOmniJSDate(end.toISOString())})`;
+}
+
 /**
  * Render a JS array literal of safely-escaped string values.
  */
@@ -105,6 +146,47 @@ function toList(
   return value.slice();
 }
 
+/**
+ * OmniJS `Project.Status` member for each wire project status.
+ */
+const PROJECT_STATUS_ENUM: Record<ProjectStatus, string> = {
+  active: "Active",
+  "on-hold": "OnHold",
+  completed: "Done",
+  dropped: "Dropped",
+};
+
+/**
+ * Push the condition matching items (tasks or projects, bound to `t`) whose
+ * primary key is one of `value`, or a validation error for an empty or
+ * malformed list.
+ */
+function compileIdFilter(
+  value: string | readonly string[] | undefined,
+  conditions: string[],
+  validationErrors: CliError[]
+): void {
+  const ids = toList(value);
+  if (ids === null) return;
+  if (ids.length === 0) {
+    validationErrors.push(
+      createError(
+        ErrorCode.VALIDATION_ERROR,
+        "id filter cannot be an empty array"
+      )
+    );
+    return;
+  }
+  const nameError = validateNames(ids, "id");
+  if (nameError) {
+    validationErrors.push(nameError);
+  } else if (ids.length === 1) {
+    conditions.push(`t.id.primaryKey === "${escapeJSString(ids[0] ?? "")}"`);
+  } else {
+    conditions.push(`${jsStringArray(ids)}.indexOf(t.id.primaryKey) !== -1`);
+  }
+}
+
 /**
  * Compile the predicate vocabulary on {@link TaskQueryOptions} into a list of
  * OmniJS boolean expressions over the task variable `t`.
@@ -151,10 +233,23 @@ export function compileTaskPredicates(
   if (options.notDropped === true)
     conditions.push("(t.taskStatus !== Task.Status.Dropped)");
 
-  if (options.blocked === true)
-    conditions.push("(t.taskStatus === Task.Status.Blocked)");
-  if (options.blocked === false)
-    conditions.push("(t.taskStatus !== Task.Status.Blocked)");
+  // With honorDependencies, an open explicit blocker from the dependency
+  // store also makes a task blocked.
+  let dependencyBlocked: string | null = null;
+  if (options.honorDependencies === true && options.blocked !== undefined) {
+    const store = readDependencies();
+    if ("code" in store) validationErrors.push(store);
+    else dependencyBlocked = dependencyBlockedExpr(store.blockedBy);
+  }
+  if (dependencyBlocked === null) {
+    if (options.blocked === true)
+      conditions.push("(t.taskStatus === Task.Status.Blocked)");
+    if (options.blocked === false)
+      conditions.push("(t.taskStatus !== Task.Status.Blocked)");
+  } else {
+    const blockedExpr = `(t.taskStatus === Task.Status.Blocked || ${dependencyBlocked})`;
+    conditions.push(options.blocked === true ? blockedExpr : `!${blockedExpr}`);
+  }
 
   // effectivelyCompleted: Task.Status.Completed covers own completion as well
   // as completion through a completed parent/ancestor project.
@@ -274,6 +369,38 @@ export function compileTaskPredicates(
     }
   }
 
+  // ── Membership: project status ───────────────────────────────────────────
+  const projectStatuses = toList(options.projectStatus);
+  if (projectStatuses !== null) {
+    const unknown = projectStatuses.find(
+      (s) => !Object.hasOwn(PROJECT_STATUS_ENUM, s)
+    );
+    if (projectStatuses.length === 0) {
+      validationErrors.push(
+        createError(
+          ErrorCode.VALIDATION_ERROR,
+          "projectStatus filter cannot be an empty array"
+        )
+      );
+    } else if (unknown !== undefined) {
+      validationErrors.push(
+        createError(
+          ErrorCode.VALIDATION_ERROR,
+          `Unknown projectStatus: ${unknown}`,
+          "Valid values: active, on-hold, completed, dropped"
+        )
+      );
+    } else {
+      const matches = projectStatuses
+        .map(
+          (s) =>
+            `t.containingProject.status === Project.Status.${PROJECT_STATUS_ENUM[s as ProjectStatus]}`
+        )
+        .join(" || ");
+      conditions.push(`(t.containingProject != null && (${matches}))`);
+    }
+  }
+
   // ── Membership: tag(s) ───────────────────────────────────────────────────
   const tags = toList(options.tag);
   if (tags !== null) {
@@ -360,41 +487,32 @@ export function compileTaskPredicates(
   // ── Date predicates ──────────────────────────────────────────────────────
   // dueDate
   if (options.dueBefore !== undefined) {
-    const expr = resolveDate(options.dueBefore, "dueBefore", validationErrors);
+    const expr = resolveDate(
+      options.dueBefore,
+      "dueBefore",
+      validationErrors,
+      options.timeZone
+    );
     if (expr) conditions.push(`(t.dueDate != null && t.dueDate < ${expr})`);
   }
   if (options.dueAfter !== undefined) {
-    const expr = resolveDate(options.dueAfter, "dueAfter", validationErrors);
+    const expr = resolveDate(
+      options.dueAfter,
+      "dueAfter",
+      validationErrors,
+      options.timeZone
+    );
     if (expr) conditions.push(`(t.dueDate != null && t.dueDate > ${expr})`);
   }
   if (options.dueOn !== undefined) {
-    const parsed = parseDate(options.dueOn);
-    if ("code" in parsed) {
-      validationErrors.push(
-        createError(
-          parsed.code,
-          `Invalid dueOn: ${parsed.message}`,
-          parsed.details
-        )
-      );
-    } else {
-      const start = new Date(parsed.iso);
-      const startUtc = new Date(
-        Date.UTC(
-          start.getUTCFullYear(),
-          start.getUTCMonth(),
-          start.getUTCDate(),
-          0,
-          0,
-          0,
-          0
-        )
-      );
-      const endUtc = new Date(startUtc.getTime() + 86_400_000);
-      conditions.push(
-        `(t.dueDate != null && t.dueDate >= ${isoToOmniJSDate(startUtc.toISOString())} && t.dueDate < ${isoToOmniJSDate(endUtc.toISOString())})`
-      );
-    }
+    const expr = resolveDay(
+      options.dueOn,
+      "dueDate",
+      "dueOn",
+      validationErrors,
+      options.timeZone
+    );
+    if (expr) conditions.push(expr);
   }
   if (options.dueWithin !== undefined) {
     const dur = parseDuration(options.dueWithin);
@@ -415,7 +533,8 @@ export function compileTaskPredicates(
     const expr = resolveDate(
       options.deferBefore,
       "deferBefore",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr) conditions.push(`(t.deferDate != null && t.deferDate < ${expr})`);
   }
@@ -423,38 +542,20 @@ export function compileTaskPredicates(
     const expr = resolveDate(
       options.deferAfter,
       "deferAfter",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr) conditions.push(`(t.deferDate != null && t.deferDate > ${expr})`);
   }
   if (options.deferOn !== undefined) {
-    const parsed = parseDate(options.deferOn);
-    if ("code" in parsed) {
-      validationErrors.push(
-        createError(
-          parsed.code,
-          `Invalid deferOn: ${parsed.message}`,
-          parsed.details
-        )
-      );
-    } else {
-      const start = new Date(parsed.iso);
-      const startUtc = new Date(
-        Date.UTC(
-          start.getUTCFullYear(),
-          start.getUTCMonth(),
-          start.getUTCDate(),
-          0,
-          0,
-          0,
-          0
-        )
-      );
-      const endUtc = new Date(startUtc.getTime() + 86_400_000);
-      conditions.push(
-        `(t.deferDate != null && t.deferDate >= ${isoToOmniJSDate(startUtc.toISOString())} && t.deferDate < ${isoToOmniJSDate(endUtc.toISOString())})`
-      );
-    }
+    const expr = resolveDay(
+      options.deferOn,
+      "deferDate",
+      "deferOn",
+      validationErrors,
+      options.timeZone
+    );
+    if (expr) conditions.push(expr);
   }
   if (options.deferWithin !== undefined) {
     const dur = parseDuration(options.deferWithin);
@@ -479,7 +580,8 @@ export function compileTaskPredicates(
     const expr = resolveDate(
       options.completedBefore,
       "completedBefore",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr)
       conditions.push(
@@ -490,7 +592,8 @@ export function compileTaskPredicates(
     const expr = resolveDate(
       options.completedAfter,
       "completedAfter",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr)
       conditions.push(
@@ -662,7 +765,7 @@ export function compileTaskPredicates(
     }
   }
 
-  // dueOrDeferWithin — used by queryForecast includeDeferred=true
+  // dueOrDeferWithin — dueDate OR deferDate within now..now+duration
   if (options.dueOrDeferWithin !== undefined) {
     const dur = parseDuration(options.dueOrDeferWithin);
     if (typeof dur !== "number") {
@@ -681,6 +784,18 @@ export function compileTaskPredicates(
     }
   }
 
+  // forecastWindow — used by queryForecast
+  if (options.forecastWindow !== undefined) {
+    const { from, to, deferred } = options.forecastWindow;
+    const inWindow = (field: string): string =>
+      `(t.${field} != null && t.${field} >= ${isoToOmniJSDate(from)} && t.${field} < ${isoToOmniJSDate(to)})`;
+    conditions.push(
+      deferred === true
+        ? `(${inWindow("dueDate")} || ${inWindow("deferDate")})`
+        : inWindow("dueDate")
+    );
+  }
+
   // deferredToFuture — used by queryDeferred blockedOnly=true
   if (options.deferredToFuture === true) {
     conditions.push("(t.deferDate != null && t.deferDate > new Date())");
@@ -714,9 +829,90 @@ export function compileTaskPredicates(
     }
   }
 
+  // id — look up specific items by primary key (e.g. MCP resources)
+  compileIdFilter(options.id, conditions, validationErrors);
+
+  // ── Query language ───────────────────────────────────────────────────────
+  if (options.where !== undefined) {
+    const parsed = parseTaskQuery(options.where);
+    if ("code" in parsed) {
+      validationErrors.push(parsed);
+    } else {
+      const expr = compileTaskQueryNode(
+        parsed,
+        options.where,
+        {
+          caseSensitive: options.caseSensitive,
+          honorDependencies: options.honorDependencies,
+          timeZone: options.timeZone,
+        },
+        validationErrors
+      );
+      if (expr !== null) conditions.push(expr);
+    }
+  }
+
   return { conditions, validationErrors };
 }
 
+/**
+ * Compile a parsed `where` expression into one OmniJS boolean expression over
+ * `t`. Each predicate leaf goes through {@link compileTaskPredicates} with the
+ * `inherited` modifiers of the enclosing query; its validation errors are
+ * reported at the leaf's position in `source`. Returns `null` if any leaf
+ * failed.
+ */
+function compileTaskQueryNode(
+  node: TaskQueryNode,
+  source: string,
+  inherited: Pick<
+    TaskQueryOptions,
+    "caseSensitive" | "honorDependencies" | "timeZone"
+  >,
+  validationErrors: CliError[]
+): string | null {
+  switch (node.kind) {
+    case "predicate": {
+      const compiled = compileTaskPredicates({
+        ...node.options,
+        ...inherited,
+      });
+      if (compiled.validationErrors.length > 0) {
+        for (const error of compiled.validationErrors) {
+          validationErrors.push(
+            whereError(source, node.start, node.end, error)
+          );
+        }
+        return null;
+      }
+      return compiled.conditions.length > 0
+        ? `(${compiled.conditions.join(" && ")})`
+        : "true";
+    }
+    case "not": {
+      const operand = compileTaskQueryNode(
+        node.operand,
+        source,
+        inherited,
+        validationErrors
+      );
+      return operand === null ? null : `!${operand}`;
+    }
+    case "and":
+    case "or": {
+      const operands = node.operands.map((operand) =>
+        compileTaskQueryNode(operand, source, inherited, validationErrors)
+      );
+      if (operands.some((operand) => operand === null)) return null;
+      return `(${operands.join(node.kind === "and" ? " && " : " || ")})`;
+    }
+    default: {
+      const exhaustive: never = node;
+      throw new Error(`Unknown query node: ${JSON.stringify(exhaustive)}`);
+    }
+  }
+}
+
 /**
  * Pre-flight check that a regex pattern is syntactically valid in V8/JSC.
  * We compile it locally and discard the result — if it throws, we know OmniJS
@@ -768,6 +964,9 @@ export function compileProjectPredicates(
   const conditions: string[] = [];
   const validationErrors: CliError[] = [];
 
+  // id — look up specific items by primary key (e.g. MCP resources)
+  compileIdFilter(options.id, conditions, validationErrors);
+
   // ── Boolean state ────────────────────────────────────────────────────────
   if (options.flagged === true) conditions.push("t.flagged");
   if (options.flagged === false) conditions.push("!t.flagged");
@@ -872,41 +1071,32 @@ export function compileProjectPredicates(
 
   // ── Date predicates: dueDate ─────────────────────────────────────────────
   if (options.dueBefore !== undefined) {
-    const expr = resolveDate(options.dueBefore, "dueBefore", validationErrors);
+    const expr = resolveDate(
+      options.dueBefore,
+      "dueBefore",
+      validationErrors,
+      options.timeZone
+    );
     if (expr) conditions.push(`(t.dueDate != null && t.dueDate < ${expr})`);
   }
   if (options.dueAfter !== undefined) {
-    const expr = resolveDate(options.dueAfter, "dueAfter", validationErrors);
+    const expr = resolveDate(
+      options.dueAfter,
+      "dueAfter",
+      validationErrors,
+      options.timeZone
+    );
     if (expr) conditions.push(`(t.dueDate != null && t.dueDate > ${expr})`);
   }
   if (options.dueOn !== undefined) {
-    const parsed = parseDate(options.dueOn);
-    if ("code" in parsed) {
-      validationErrors.push(
-        createError(
-          parsed.code,
-          `Invalid dueOn: ${parsed.message}`,
-          parsed.details
-        )
-      );
-    } else {
-      const start = new Date(parsed.iso);
-      const startUtc = new Date(
-        Date.UTC(
-          start.getUTCFullYear(),
-          start.getUTCMonth(),
-          start.getUTCDate(),
-          0,
-          0,
-          0,
-          0
-        )
-      );
-      const endUtc = new Date(startUtc.getTime() + 86_400_000);
-      conditions.push(
-        `(t.dueDate != null && t.dueDate >= ${isoToOmniJSDate(startUtc.toISOString())} && t.dueDate < ${isoToOmniJSDate(endUtc.toISOString())})`
-      );
-    }
+    const expr = resolveDay(
+      options.dueOn,
+      "dueDate",
+      "dueOn",
+      validationErrors,
+      options.timeZone
+    );
+    if (expr) conditions.push(expr);
   }
   if (options.dueWithin !== undefined) {
     const dur = parseDuration(options.dueWithin);
@@ -927,7 +1117,8 @@ export function compileProjectPredicates(
     const expr = resolveDate(
       options.deferBefore,
       "deferBefore",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr) conditions.push(`(t.deferDate != null && t.deferDate < ${expr})`);
   }
@@ -935,7 +1126,8 @@ export function compileProjectPredicates(
     const expr = resolveDate(
       options.deferAfter,
       "deferAfter",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr) conditions.push(`(t.deferDate != null && t.deferDate > ${expr})`);
   }
@@ -962,7 +1154,8 @@ export function compileProjectPredicates(
     const expr = resolveDate(
       options.completedBefore,
       "completedBefore",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr)
       conditions.push(
@@ -973,7 +1166,8 @@ export function compileProjectPredicates(
     const expr = resolveDate(
       options.completedAfter,
       "completedAfter",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr)
       conditions.push(
@@ -986,7 +1180,8 @@ export function compileProjectPredicates(
     const expr = resolveDate(
       options.nextReviewBefore,
       "nextReviewBefore",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr)
       conditions.push(
@@ -997,7 +1192,8 @@ export function compileProjectPredicates(
     const expr = resolveDate(
       options.nextReviewAfter,
       "nextReviewAfter",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr)
       conditions.push(
@@ -1027,7 +1223,8 @@ export function compileProjectPredicates(
     const expr = resolveDate(
       options.lastReviewedBefore,
       "lastReviewedBefore",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr)
       conditions.push(
@@ -1038,7 +1235,8 @@ export function compileProjectPredicates(
     const expr = resolveDate(
       options.lastReviewedAfter,
       "lastReviewedAfter",
-      validationErrors
+      validationErrors,
+      options.timeZone
     );
     if (expr)
       conditions.push(
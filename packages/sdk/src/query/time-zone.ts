@@ -0,0 +1,175 @@
+import { type CliError, ErrorCode, createError } from "../errors.js";
+
+/**
+ * Environment variable naming the IANA time zone (e.g. `America/Los_Angeles`)
+ * that calendar-day reasoning uses when a caller doesn't pass one.
+ */
+const TIME_ZONE_ENV = "OFOCUS_TIME_ZONE";
+
+const MS_PER_SECOND = 1000;
+const MS_PER_DAY = 86_400_000;
+
+/** One formatter per zone; constructing `Intl.DateTimeFormat` is expensive. */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/** The cached wall-clock formatter for `timeZone`, or `null` if it's unknown. */
+function formatterFor(timeZone: string): Intl.DateTimeFormat | null {
+  const cached = formatters.get(timeZone);
+  if (cached !== undefined) return cached;
+  try {
+    const formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+    formatters.set(timeZone, formatter);
+    return formatter;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The zone's UTC offset, in milliseconds, at the instant `ms` (positive east
+ * of Greenwich).
+ */
+function offsetAt(formatter: Intl.DateTimeFormat, ms: number): number {
+  const seconds = ms - (((ms % MS_PER_SECOND) + MS_PER_SECOND) % MS_PER_SECOND);
+  const parts = new Map(
+    formatter.formatToParts(new Date(seconds)).map((p) => [p.type, p.value])
+  );
+  const part = (type: Intl.DateTimeFormatPartTypes): number =>
+    Number(parts.get(type));
+  return (
+    Date.UTC(
+      part("year"),
+      part("month") - 1,
+      part("day"),
+      part("hour"),
+      part("minute"),
+      part("second")
+    ) - seconds
+  );
+}
+
+/**
+ * The time zone configured through `OFOCUS_TIME_ZONE`, or `undefined` when
+ * the variable is unset or blank.
+ */
+function configuredTimeZone(): string | undefined {
+  const value = process.env[TIME_ZONE_ENV]?.trim();
+  return value === undefined || value === "" ? undefined : value;
+}
+
+/** The error returned for a zone `Intl` doesn't recognise. */
+function unknownTimeZone(timeZone: string): CliError {
+  return createError(
+    ErrorCode.VALIDATION_ERROR,
+    `Unknown time zone: ${timeZone}`,
+    'Expected an IANA time zone name, e.g. "America/Los_Angeles" or "UTC"'
+  );
+}
+
+/**
+ * Pick the time zone for calendar-day reasoning: the explicit `timeZone`,
+ * else `OFOCUS_TIME_ZONE`, else `UTC`.
+ *
+ * Returns the zone name, or a `CliError` when the chosen zone is unknown — an
+ * invalid configuration fails loudly rather than silently falling back to UTC.
+ *
+ * @public
+ */
+export function resolveTimeZone(timeZone?: string): string | CliError {
+  const zone = timeZone ?? configuredTimeZone() ?? "UTC";
+  return formatterFor(zone) === null ? unknownTimeZone(zone) : zone;
+}
+
+/**
+ * Like {@link resolveTimeZone}, but `undefined` when neither an explicit zone
+ * nor `OFOCUS_TIME_ZONE` is given, so callers can keep their zone-less
+ * behaviour.
+ */
+export function explicitTimeZone(
+  timeZone?: string
+): string | undefined | CliError {
+  const zone = timeZone ?? configuredTimeZone();
+  if (zone === undefined) return undefined;
+  return formatterFor(zone) === null ? unknownTimeZone(zone) : zone;
+}
+
+/**
+ * Convert a wall-clock time in an IANA time zone to a UTC ISO timestamp.
+ *
+ * `wallTime` is `YYYY-MM-DDTHH:mm:ss` with optional milliseconds. Across DST
+ * transitions the RFC 5545 §3.3.5 rules apply: an ambiguous time (clocks fall
+ * back) resolves to its first occurrence, and a nonexistent one (clocks spring
+ * forward) is read with the offset in force before the gap, so `02:30` on a
+ * spring-forward night becomes `03:30` daylight time.
+ *
+ * Returns `null` if the zone is unknown or the wall time is malformed.
+ *
+ * @public
+ */
+export function zonedTimeToUtc(
+  wallTime: string,
+  timeZone: string
+): string | null {
+  const formatter = formatterFor(timeZone);
+  const naive = Date.parse(`${wallTime}Z`);
+  if (formatter === null || Number.isNaN(naive)) return null;
+  // Zones change offset at most once a day, so the offsets a day either side
+  // are the only candidates; try the earlier instant (larger offset) first.
+  const before = offsetAt(formatter, naive - MS_PER_DAY);
+  const after = offsetAt(formatter, naive + MS_PER_DAY);
+  for (const offset of before >= after ? [before, after] : [after, before]) {
+    if (offsetAt(formatter, naive - offset) === offset) {
+      return new Date(naive - offset).toISOString();
+    }
+  }
+  return new Date(naive - before).toISOString();
+}
+
+/**
+ * The wall-clock time of the instant `iso` in an IANA time zone, as
+ * `YYYY-MM-DDTHH:mm:ss.sss` (no offset). Its first ten characters are the
+ * instant's calendar day in that zone.
+ *
+ * Returns `null` if the zone is unknown or `iso` isn't a valid instant.
+ *
+ * @public
+ */
+export function utcToZonedTime(iso: string, timeZone: string): string | null {
+  const formatter = formatterFor(timeZone);
+  const ms = Date.parse(iso);
+  if (formatter === null || Number.isNaN(ms)) return null;
+  return new Date(ms + offsetAt(formatter, ms)).toISOString().slice(0, -1);
+}
+
+/**
+ * The first instant of the calendar day containing `instant` in an IANA time
+ * zone, moved `dayOffset` calendar days (not 24-hour spans, so a DST change in
+ * between doesn't shift the result off midnight).
+ *
+ * Returns `null` if the zone is unknown.
+ *
+ * @public
+ */
+export function startOfZonedDay(
+  instant: Date,
+  timeZone: string,
+  dayOffset = 0
+): Date | null {
+  const wall = utcToZonedTime(instant.toISOString(), timeZone);
+  if (wall === null) return null;
+  const day = new Date(Date.parse(wall.slice(0, 10)) + dayOffset * MS_PER_DAY);
+  const start = zonedTimeToUtc(
+    `${day.toISOString().slice(0, 10)}T00:00:00`,
+    timeZone
+  );
+  return start === null ? null : new Date(start);
+}
@@ -97,6 +97,10 @@ export interface TaskQueryOptions extends BaseListQueryOptions {
   // ── Status convenience ───────────────────────────────────────────────────
   status?: TaskStatus | undefined;
 
+  // ── Identity ─────────────────────────────────────────────────────────────
+  /** Task primary key(s). When an array is provided, semantics are "any of". */
+  id?: string | string[] | undefined;
+
   // ── Membership ───────────────────────────────────────────────────────────
   /** Project name(s). When an array is provided, semantics are "any of". */
   project?: string | string[] | undefined;
@@ -109,12 +113,23 @@ export interface TaskQueryOptions extends BaseListQueryOptions {
    * contains any of the named folders (transitive).
    */
   folder?: string | string[] | undefined;
+  /**
+   * Status(es) of the containing project. When an array is provided,
+   * semantics are "any of". Inbox tasks never match.
+   */
+  projectStatus?: ProjectStatus | ProjectStatus[] | undefined;
 
   // ── Date predicates ──────────────────────────────────────────────────────
+  /**
+   * IANA time zone (e.g. `America/Los_Angeles`) for calendar days in date
+   * predicates — `dueOn`, `today`, date-only ISO input. Defaults to
+   * `OFOCUS_TIME_ZONE`, then UTC.
+   */
+  timeZone?: string | undefined;
   /** Each accepts ISO 8601 or a relative expression (see `parseDate`). */
   dueBefore?: string | undefined;
   dueAfter?: string | undefined;
-  /** Match tasks whose dueDate falls on the given calendar day (UTC). */
+  /** Match tasks whose dueDate falls on the given calendar day (see `timeZone`). */
   dueOn?: string | undefined;
   /** Duration string like `7d`/`1w` — `dueDate` must be within `now + duration`. */
   dueWithin?: string | undefined;
@@ -152,10 +167,17 @@ export interface TaskQueryOptions extends BaseListQueryOptions {
   // ── Combined date range predicate ────────────────────────────────────────
   /**
    * Duration string like `7d`/`1w` — matches tasks whose dueDate OR deferDate
-   * falls within `now..now+duration`. Used by `queryForecast` when
-   * `includeDeferred: true`.
+   * falls within `now..now+duration`.
    */
   dueOrDeferWithin?: string | undefined;
+  /**
+   * ISO instants bounding `from..to` (end exclusive) — matches tasks whose
+   * dueDate, or with `deferred: true` whose dueDate OR deferDate, falls in
+   * the range. Used by `queryForecast` for its calendar-day window.
+   */
+  forecastWindow?:
+    | { from: string; to: string; deferred?: boolean | undefined }
+    | undefined;
 
   // ── Deferred-to-future predicate ─────────────────────────────────────────
   /**
@@ -170,6 +192,23 @@ export interface TaskQueryOptions extends BaseListQueryOptions {
    * single ID or an array (any-of). Used by `querySubtasks`.
    */
   parentTaskId?: string | string[] | undefined;
+
+  // ── Explicit dependencies ─────────────────────────────────────────────────
+  /**
+   * When `true`, `blocked` (including `blocked` in `where`) also counts tasks
+   * with an open explicit blocker from the dependency store (see
+   * `addDependency`), not only tasks OmniFocus itself reports as blocked.
+   */
+  honorDependencies?: boolean | undefined;
+
+  // ── Query language ────────────────────────────────────────────────────────
+  /**
+   * Filter expression combining any of the predicates above with `and`, `or`,
+   * `not` and parentheses, e.g.
+   * `flagged and (tag:work or project:"Q4 Launch") and due < +3d and not blocked`.
+   * AND-combined with the other options. See `parseTaskQuery` for the syntax.
+   */
+  where?: string | undefined;
 }
 
 /**
@@ -281,6 +320,10 @@ export interface ProjectQueryOptions extends BaseListQueryOptions {
   // ── Status ────────────────────────────────────────────────────────────────
   status?: ProjectStatus | undefined;
 
+  // ── Identity ─────────────────────────────────────────────────────────────
+  /** Project primary key(s). When an array is provided, semantics are "any of". */
+  id?: string | string[] | undefined;
+
   // ── Membership ───────────────────────────────────────────────────────────
   /**
    * Folder name(s) or id(s). A project matches if its folder chain
@@ -289,10 +332,16 @@ export interface ProjectQueryOptions extends BaseListQueryOptions {
   folder?: string | string[] | undefined;
 
   // ── Date predicates ──────────────────────────────────────────────────────
+  /**
+   * IANA time zone (e.g. `America/Los_Angeles`) for calendar days in date
+   * predicates — `dueOn`, `today`, date-only ISO input. Defaults to
+   * `OFOCUS_TIME_ZONE`, then UTC.
+   */
+  timeZone?: string | undefined;
   /** Each accepts ISO 8601 or a relative expression (see `parseDate`). */
   dueBefore?: string | undefined;
   dueAfter?: string | undefined;
-  /** Match projects whose dueDate falls on the given calendar day (UTC). */
+  /** Match projects whose dueDate falls on the given calendar day (see `timeZone`). */
   dueOn?: string | undefined;
   /** Duration string like `7d`/`1w` — `dueDate` must be within `now + duration`. */
   dueWithin?: string | undefined;
@@ -0,0 +1,733 @@
+import { type CliError, ErrorCode, createError } from "../errors.js";
+import type { TaskQueryOptions } from "./types.js";
+
+/**
+ * Parsed form of a task `where` expression.
+ *
+ * Leaves are `predicate` nodes carrying the {@link TaskQueryOptions} fragment
+ * they stand for, so compiling a leaf is just compiling that fragment with
+ * `compileTaskPredicates`. Every node records the `[start, end)` character
+ * offsets of the source text it was parsed from.
+ *
+ * @public
+ */
+export type TaskQueryNode =
+  | { kind: "and"; operands: TaskQueryNode[]; start: number; end: number }
+  | { kind: "or"; operands: TaskQueryNode[]; start: number; end: number }
+  | { kind: "not"; operand: TaskQueryNode; start: number; end: number }
+  | {
+      kind: "predicate";
+      options: TaskQueryOptions;
+      start: number;
+      end: number;
+    };
+
+/**
+ * Comparison operator between a field and its value in an expression.
+ *
+ * @public
+ */
+export type ExpressionOperator =
+  | "<"
+  | "<="
+  | ">"
+  | ">="
+  | "="
+  | "!="
+  | "~"
+  | ":";
+
+/**
+ * A word or double-quoted string in an expression, with the `[start, end)`
+ * offsets of its source text.
+ *
+ * @public
+ */
+export interface ExpressionValue {
+  /** `"string"` when the value was double-quoted. */
+  type: "word" | "string";
+  /** The text, without quotes or escapes. */
+  value: string;
+  /** Offset of the first character in the source. */
+  start: number;
+  /** Offset just past the last character. */
+  end: number;
+}
+
+/**
+ * One `op value` pair after a predicate's field, e.g. the `:work` of
+ * `tag:work`.
+ *
+ * @public
+ */
+export interface ExpressionComparison {
+  /** The operator and its source offsets. */
+  op: { value: ExpressionOperator; start: number; end: number };
+  /** The value after the operator. */
+  value: ExpressionValue;
+}
+
+/**
+ * The predicates of an expression language parsed by {@link parseExpression}.
+ *
+ * The parser handles `and`, `or`, `not` and parentheses; the grammar decides
+ * which predicates exist and builds the nodes. To reject a predicate, throw an
+ * {@link ExpressionSyntaxError} for the offending span.
+ *
+ * @public
+ */
+export interface ExpressionGrammar<TNode> {
+  /**
+   * Build a predicate from its leading word and the `op value` pairs after
+   * it: none for a bare word (`flagged`), one for `tag:work`, two for
+   * `changed:status=done`.
+   */
+  predicate(field: ExpressionValue, comparisons: ExpressionComparison[]): TNode;
+  /** Two or more operands joined with `and`. */
+  and(operands: TNode[], start: number, end: number): TNode;
+  /** Two or more operands joined with `or`. */
+  or(operands: TNode[], start: number, end: number): TNode;
+  /** A negated operand. */
+  not(operand: TNode, start: number, end: number): TNode;
+  /** A parenthesized node; the parser uses `inner` as is when omitted. */
+  group?(inner: TNode, start: number, end: number): TNode;
+}
+
+type Token =
+  | ExpressionValue
+  | { type: "op"; value: ExpressionOperator; start: number; end: number }
+  | { type: "lparen" | "rparen" | "eof"; start: number; end: number };
+
+/**
+ * A problem with the source span `[start, end)` of an expression. Thrown by
+ * the parser and by {@link ExpressionGrammar} callbacks, and turned into a
+ * `VALIDATION_ERROR` by {@link parseExpression}.
+ *
+ * @public
+ */
+export class ExpressionSyntaxError extends Error {
+  /** Offset of the first character of the offending span. */
+  readonly start: number;
+  /** Offset just past the offending span. */
+  readonly end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = "ExpressionSyntaxError";
+    this.start = start;
+    this.end = end;
+  }
+}
+
+/**
+ * Attach the position of the offending source span to an error: the message
+ * gains a 1-based column and the details show the source with the span
+ * underlined. `label` names the kind of expression, e.g. "where clause".
+ */
+function positionError(
+  label: string,
+  source: string,
+  start: number,
+  end: number,
+  error: CliError
+): CliError {
+  const marker = `${" ".repeat(start)}${"^".repeat(Math.max(1, end - start))}`;
+  const excerpt = `${source}\n${marker}`;
+  return createError(
+    error.code,
+    `Invalid ${label} at column ${String(start + 1)}: ${error.message}`,
+    error.details !== undefined ? `${error.details}\n${excerpt}` : excerpt
+  );
+}
+
+/**
+ * {@link positionError} for a task `where` clause.
+ */
+export function whereError(
+  source: string,
+  start: number,
+  end: number,
+  error: CliError
+): CliError {
+  return positionError("where clause", source, start, end, error);
+}
+
+// ── Lexer ──────────────────────────────────────────────────────────────────
+
+const WORD_BREAK = /[\s():<>=!~"]/;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source.charAt(i);
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push({
+        type: ch === "(" ? "lparen" : "rparen",
+        start: i,
+        end: i + 1,
+      });
+      i++;
+    } else if (ch === '"') {
+      const start = i;
+      let value = "";
+      i++;
+      while (i < source.length && source.charAt(i) !== '"') {
+        if (source.charAt(i) === "\\" && i + 1 < source.length) i++;
+        value += source.charAt(i);
+        i++;
+      }
+      if (i >= source.length) {
+        throw new ExpressionSyntaxError(
+          "unterminated string",
+          start,
+          source.length
+        );
+      }
+      i++;
+      tokens.push({ type: "string", value, start, end: i });
+    } else if ("<>!=~:".includes(ch)) {
+      const two = source.slice(i, i + 2);
+      let op: ExpressionOperator;
+      if (two === "<=" || two === ">=" || two === "!=") {
+        op = two;
+      } else if (ch === "!") {
+        throw new ExpressionSyntaxError(
+          'unexpected "!" (use "not" or "!=")',
+          i,
+          i + 1
+        );
+      } else {
+        op = ch as ExpressionOperator;
+      }
+      tokens.push({ type: "op", value: op, start: i, end: i + op.length });
+      i += op.length;
+    } else {
+      const start = i;
+      while (i < source.length && !WORD_BREAK.test(source.charAt(i))) i++;
+      tokens.push({
+        type: "word",
+        value: source.slice(start, i),
+        start,
+        end: i,
+      });
+    }
+  }
+
+  tokens.push({ type: "eof", start: source.length, end: source.length });
+  return tokens;
+}
+
+// ── Vocabulary ─────────────────────────────────────────────────────────────
+
+/** Bare words that stand for a boolean predicate. */
+const FLAGS: Record<string, TaskQueryOptions> = {
+  flagged: { flagged: true },
+  completed: { completed: true },
+  dropped: { dropped: true },
+  blocked: { blocked: true },
+  available: { available: true },
+  active: { status: "active" },
+  deferred: { deferredToFuture: true },
+  inbox: { inInbox: true },
+  repeating: { hasRepetition: true },
+};
+
+/** Values accepted by `has:`. */
+const HAS: Record<string, TaskQueryOptions> = {
+  due: { hasDue: true },
+  defer: { hasDefer: true },
+  note: { hasNote: true },
+  attachments: { hasAttachments: true },
+  subtasks: { hasSubtasks: true },
+  repetition: { hasRepetition: true },
+};
+
+/** `field:value` membership and substring predicates. */
+const MATCHES: Record<string, (value: string) => TaskQueryOptions> = {
+  tag: (value) => ({ tag: value }),
+  project: (value) => ({ project: value }),
+  folder: (value) => ({ folder: value }),
+  parent: (value) => ({ parentTaskId: value }),
+  text: (value) => ({ nameOrNoteContains: value }),
+  status: (value) => ({ status: value as TaskQueryOptions["status"] }),
+};
+
+/** Date fields, with the predicates each comparison maps to. */
+const DATES: Record<
+  string,
+  {
+    before: (value: string) => TaskQueryOptions;
+    after: (value: string) => TaskQueryOptions;
+    on: ((value: string) => TaskQueryOptions) | null;
+    present: TaskQueryOptions;
+  }
+> = {
+  due: {
+    before: (value) => ({ dueBefore: value }),
+    after: (value) => ({ dueAfter: value }),
+    on: (value) => ({ dueOn: value }),
+    present: { hasDue: true },
+  },
+  defer: {
+    before: (value) => ({ deferBefore: value }),
+    after: (value) => ({ deferAfter: value }),
+    on: (value) => ({ deferOn: value }),
+    present: { hasDefer: true },
+  },
+  completed: {
+    before: (value) => ({ completedBefore: value }),
+    after: (value) => ({ completedAfter: value }),
+    on: null,
+    present: { completed: true },
+  },
+};
+
+const FIELD_NAMES = [
+  ...Object.keys(MATCHES),
+  "name",
+  "note",
+  "has",
+  ...Object.keys(DATES),
+  "estimate",
+].join(", ");
+
+// ── Parser ─────────────────────────────────────────────────────────────────
+
+/** A parsed node with the `[start, end)` offsets of its source text. */
+interface Spanned<TNode> {
+  node: TNode;
+  start: number;
+  end: number;
+}
+
+/**
+ * Recursive-descent parser. Grammar (keywords are case-insensitive):
+ *
+ * ```
+ * or        := and ("or" and)*
+ * and       := unary ("and" unary)*
+ * unary     := "not" unary | primary
+ * primary   := "(" or ")" | predicate
+ * predicate := word (op value)*
+ * op        := "<" | "<=" | ">" | ">=" | "=" | "!=" | "~" | ":"
+ * value     := word | "quoted string"
+ * ```
+ *
+ * Predicates are handed to the {@link ExpressionGrammar}.
+ */
+class Parser<TNode> {
+  private pos = 0;
+  private readonly eof: Token;
+
+  constructor(
+    private readonly tokens: Token[],
+    private readonly grammar: ExpressionGrammar<TNode>
+  ) {
+    this.eof = tokens[tokens.length - 1] ?? { type: "eof", start: 0, end: 0 };
+  }
+
+  parse(): TNode {
+    const { node } = this.parseOr();
+    const next = this.peek();
+    if (next.type !== "eof") {
+      throw new ExpressionSyntaxError(
+        next.type === "rparen"
+          ? 'unmatched ")"'
+          : `expected "and" or "or" before ${describe(next)}`,
+        next.start,
+        next.end
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.pos] ?? this.eof;
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== "eof") this.pos++;
+    return token;
+  }
+
+  private atKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token.type === "word" && token.value.toLowerCase() === keyword;
+  }
+
+  private parseOr(): Spanned<TNode> {
+    const first = this.parseAnd();
+    const rest: Spanned<TNode>[] = [];
+    while (this.atKeyword("or")) {
+      this.next();
+      rest.push(this.parseAnd());
+    }
+    return this.combine("or", first, rest);
+  }
+
+  private parseAnd(): Spanned<TNode> {
+    const first = this.parseUnary();
+    const rest: Spanned<TNode>[] = [];
+    while (this.atKeyword("and")) {
+      this.next();
+      rest.push(this.parseUnary());
+    }
+    return this.combine("and", first, rest);
+  }
+
+  private combine(
+    kind: "and" | "or",
+    first: Spanned<TNode>,
+    rest: Spanned<TNode>[]
+  ): Spanned<TNode> {
+    const last = rest[rest.length - 1];
+    if (last === undefined) return first;
+    const operands = [first, ...rest].map((operand) => operand.node);
+    return {
+      node: this.grammar[kind](operands, first.start, last.end),
+      start: first.start,
+      end: last.end,
+    };
+  }
+
+  private parseUnary(): Spanned<TNode> {
+    if (this.atKeyword("not")) {
+      const start = this.next().start;
+      const operand = this.parseUnary();
+      return {
+        node: this.grammar.not(operand.node, start, operand.end),
+        start,
+        end: operand.end,
+      };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): Spanned<TNode> {
+    const token = this.next();
+
+    if (token.type === "lparen") {
+      const inner = this.parseOr();
+      const close = this.next();
+      if (close.type !== "rparen") {
+        throw new ExpressionSyntaxError(
+          `expected ")" to close the "(" at column ${String(token.start + 1)}`,
+          close.start,
+          close.end
+        );
+      }
+      const node =
+        this.grammar.group?.(inner.node, token.start, close.end) ?? inner.node;
+      return { node, start: token.start, end: close.end };
+    }
+
+    if (token.type !== "word" || isKeyword(token.value)) {
+      throw new ExpressionSyntaxError(
+        `expected a predicate, found ${describe(token)}`,
+        token.start,
+        token.end
+      );
+    }
+
+    const comparisons: ExpressionComparison[] = [];
+    for (let op = this.peek(); op.type === "op"; op = this.peek()) {
+      this.next();
+      const value = this.next();
+      if (value.type !== "word" && value.type !== "string") {
+        throw new ExpressionSyntaxError(
+          `expected a value after "${op.value}", found ${describe(value)}`,
+          value.start,
+          value.end
+        );
+      }
+      comparisons.push({ op, value });
+    }
+
+    const end = comparisons[comparisons.length - 1]?.value.end ?? token.end;
+    return {
+      node: this.grammar.predicate(token, comparisons),
+      start: token.start,
+      end,
+    };
+  }
+}
+
+function isKeyword(word: string): boolean {
+  return ["and", "or", "not"].includes(word.toLowerCase());
+}
+
+function describe(token: Token): string {
+  switch (token.type) {
+    case "eof":
+      return "end of input";
+    case "lparen":
+      return '"("';
+    case "rparen":
+      return '")"';
+    case "string":
+      return `"${token.value}"`;
+    default:
+      return `"${token.value}"`;
+  }
+}
+
+function leaf(
+  options: TaskQueryOptions,
+  start: number,
+  end: number
+): TaskQueryNode {
+  return { kind: "predicate", options, start, end };
+}
+
+/**
+ * The task `where` language: {@link FLAGS} as bare words and one
+ * `field op value` comparison per predicate.
+ */
+const taskQueryGrammar: ExpressionGrammar<TaskQueryNode> = {
+  predicate(field, comparisons) {
+    const [comparison, extra] = comparisons;
+    if (comparison === undefined) {
+      const flag = FLAGS[field.value.toLowerCase()];
+      if (flag === undefined) {
+        throw new ExpressionSyntaxError(
+          `unknown predicate "${field.value}"`,
+          field.start,
+          field.end
+        );
+      }
+      return leaf(flag, field.start, field.end);
+    }
+    if (extra !== undefined) {
+      throw new ExpressionSyntaxError(
+        `expected "and" or "or" before "${extra.op.value}"`,
+        extra.op.start,
+        extra.op.end
+      );
+    }
+    return buildComparison(
+      { name: field.value.toLowerCase(), start: field.start, end: field.end },
+      comparison.op,
+      comparison.value
+    );
+  },
+  and: (operands, start, end) => ({ kind: "and", operands, start, end }),
+  or: (operands, start, end) => ({ kind: "or", operands, start, end }),
+  not: (operand, start, end) => ({ kind: "not", operand, start, end }),
+  group: (inner, start, end) => ({ ...inner, start, end }),
+};
+
+/**
+ * Build the node for `field op value`. Comparisons without a direct
+ * {@link TaskQueryOptions} predicate (`<=`, `>=`, `!=`) are expressed by
+ * combining the ones that exist.
+ */
+function buildComparison(
+  field: { name: string; start: number; end: number },
+  op: ExpressionComparison["op"],
+  value: ExpressionValue
+): TaskQueryNode {
+  const start = field.start;
+  const end = value.end;
+  const unsupported = (): ExpressionSyntaxError =>
+    new ExpressionSyntaxError(
+      `operator "${op.value}" is not supported for "${field.name}"`,
+      op.start,
+      op.end
+    );
+  const make = (options: TaskQueryOptions): TaskQueryNode =>
+    leaf(options, start, end);
+  const not = (operand: TaskQueryNode): TaskQueryNode => ({
+    kind: "not",
+    operand,
+    start,
+    end,
+  });
+  const all = (...operands: TaskQueryNode[]): TaskQueryNode => ({
+    kind: "and",
+    operands,
+    start,
+    end,
+  });
+  const any = (...operands: TaskQueryNode[]): TaskQueryNode => ({
+    kind: "or",
+    operands,
+    start,
+    end,
+  });
+
+  if (field.name === "has") {
+    if (op.value !== ":") throw unsupported();
+    const options = HAS[value.value.toLowerCase()];
+    if (options === undefined) {
+      throw new ExpressionSyntaxError(
+        `unknown "has:" value "${value.value}" (expected one of: ${Object.keys(HAS).join(", ")})`,
+        value.start,
+        value.end
+      );
+    }
+    return make(options);
+  }
+
+  const date = DATES[field.name];
+  if (date !== undefined) {
+    const on = date.on;
+    switch (op.value) {
+      case "<":
+        return make(date.before(value.value));
+      case ">":
+        return make(date.after(value.value));
+      case "<=":
+        return all(make(date.present), not(make(date.after(value.value))));
+      case ">=":
+        return all(make(date.present), not(make(date.before(value.value))));
+      case "=":
+      case ":":
+        if (on === null) throw unsupported();
+        return make(on(value.value));
+      case "!=":
+        if (on === null) throw unsupported();
+        return not(make(on(value.value)));
+      default:
+        throw unsupported();
+    }
+  }
+
+  if (field.name === "estimate") {
+    const minutes = Number(value.value);
+    if (value.type !== "word" || !Number.isFinite(minutes)) {
+      throw new ExpressionSyntaxError(
+        `expected a number of minutes, found "${value.value}"`,
+        value.start,
+        value.end
+      );
+    }
+    switch (op.value) {
+      case "<":
+        return make({ estimateLt: minutes });
+      case ">":
+        return make({ estimateGt: minutes });
+      case "=":
+        return make({ estimateEq: minutes });
+      case "<=":
+        return any(
+          make({ estimateLt: minutes }),
+          make({ estimateEq: minutes })
+        );
+      case ">=":
+        return any(
+          make({ estimateGt: minutes }),
+          make({ estimateEq: minutes })
+        );
+      case "!=":
+        return not(make({ estimateEq: minutes }));
+      default:
+        throw unsupported();
+    }
+  }
+
+  if (field.name === "name" || field.name === "note") {
+    const isName = field.name === "name";
+    switch (op.value) {
+      case ":":
+        return make(
+          isName ? { nameContains: value.value } : { noteContains: value.value }
+        );
+      case "~":
+        return make(
+          isName ? { nameRegex: value.value } : { noteRegex: value.value }
+        );
+      case "=":
+        if (!isName) throw unsupported();
+        return make({ nameEquals: value.value });
+      case "!=":
+        if (!isName) throw unsupported();
+        return not(make({ nameEquals: value.value }));
+      default:
+        throw unsupported();
+    }
+  }
+
+  const match = MATCHES[field.name];
+  if (match === undefined) {
+    throw new ExpressionSyntaxError(
+      `unknown field "${field.name}" (expected one of: ${FIELD_NAMES})`,
+      field.start,
+      field.end
+    );
+  }
+  if (op.value === ":" || op.value === "=") return make(match(value.value));
+  if (op.value === "!=") return not(make(match(value.value)));
+  throw unsupported();
+}
+
+/**
+ * Parse a task filter expression into a {@link TaskQueryNode} tree.
+ *
+ * Predicates are combined with `and`, `or`, `not` and parentheses (`not`
+ * binds tightest, then `and`, then `or`):
+ *
+ * - Flags: `flagged`, `completed`, `dropped`, `blocked`, `available`,
+ *   `active`, `deferred`, `inbox`, `repeating`
+ * - Membership: `tag:work`, `project:"Q4 Launch"`, `folder:Home`,
+ *   `parent:<taskId>`, `status:active`, `has:due` (also `defer`, `note`,
+ *   `attachments`, `subtasks`, `repetition`)
+ * - Text: `name:report` (contains), `name = "Exact"`, `name ~ "^Draft"`
+ *   (regex), `note:…`, `note ~ …`, `text:…` (name or note)
+ * - Dates: `due`, `defer`, `completed` with `<`, `<=`, `>`, `>=`, and for
+ *   `due`/`defer` also `=` / `!=` (same calendar day). Values accept
+ *   everything `parseDate` does, e.g. `+3d`, `-1w`, `today`, `2026-05-30`.
+ * - Estimate (minutes): `estimate < 30`, `estimate >= 60`, …
+ *
+ * Values containing spaces or any of `():<>=!~` must be double-quoted.
+ * Returns a `VALIDATION_ERROR` whose message names the column of the first
+ * problem and whose details underline it.
+ *
+ * @public
+ */
+export function parseTaskQuery(source: string): TaskQueryNode | CliError {
+  return parseExpression(source, taskQueryGrammar, "where clause");
+}
+
+/**
+ * Parse an expression in the `where` syntax, building its predicates with
+ * `grammar`.
+ *
+ * This is the lexer and boolean structure behind {@link parseTaskQuery},
+ * shared with other filter languages: predicates are combined with `and`,
+ * `or`, `not` and parentheses, and values containing spaces or any of
+ * `():<>=!~` must be double-quoted. Syntax errors, including any
+ * {@link ExpressionSyntaxError} the grammar throws, become a
+ * `VALIDATION_ERROR` reading "Invalid `label` at column N", with the
+ * problem underlined in the details.
+ *
+ * @public
+ */
+export function parseExpression<TNode>(
+  source: string,
+  grammar: ExpressionGrammar<TNode>,
+  label: string
+): TNode | CliError {
+  try {
+    if (source.trim() === "") {
+      throw new ExpressionSyntaxError("expression is empty", 0, source.length);
+    }
+    return new Parser(tokenize(source), grammar).parse();
+  } catch (err) {
+    if (err instanceof ExpressionSyntaxError) {
+      return positionError(
+        label,
+        source,
+        err.start,
+        err.end,
+        createError(ErrorCode.VALIDATION_ERROR, err.message)
+      );
+    }
+    throw err;
+  }
+}
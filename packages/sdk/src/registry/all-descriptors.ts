@@ -79,6 +79,11 @@ import {
   listPerspectivesDescriptor,
   queryPerspectiveDescriptor,
 } from "../commands/perspectives.js";
+import {
+  saveVirtualPerspectiveDescriptor,
+  getVirtualPerspectiveDescriptor,
+  deleteVirtualPerspectiveDescriptor,
+} from "../commands/virtual-perspectives.js";
 
 // Forecast, Focus, Deferred
 import { queryForecastDescriptor } from "../commands/forecast.js";
@@ -95,6 +100,12 @@ import {
   importTaskPaperDescriptor,
 } from "../commands/taskpaper.js";
 
+// iCalendar
+import {
+  exportICalDescriptor,
+  importICalDescriptor,
+} from "../commands/ical.js";
+
 // Templates
 import {
   saveTemplateDescriptor,
@@ -102,7 +113,12 @@ import {
   getTemplateDescriptor,
   createFromTemplateDescriptor,
   deleteTemplateDescriptor,
+  validateTemplateDescriptor,
 } from "../commands/templates.js";
+import {
+  exportTemplatesDescriptor,
+  importTemplatesDescriptor,
+} from "../commands/template-library.js";
 
 // Attachments
 import {
@@ -133,13 +149,39 @@ import { openItemDescriptor } from "../commands/open.js";
 // Eval escape hatch
 import { evaluateScriptDescriptor } from "../commands/evaluate.js";
 
+// Undo journal
+import {
+  undoDescriptor,
+  redoDescriptor,
+  historyDescriptor,
+} from "../commands/undo.js";
+
+// Saved queries
+import {
+  saveQueryDescriptor,
+  listSavedQueriesDescriptor,
+  getSavedQueryDescriptor,
+  deleteSavedQueryDescriptor,
+  runSavedQueryDescriptor,
+} from "../commands/saved-queries.js";
+
+// Task dependencies
+import {
+  addDependencyDescriptor,
+  removeDependencyDescriptor,
+  getTaskDependenciesDescriptor,
+  findDependencyCyclesDescriptor,
+  getCriticalPathDescriptor,
+} from "../commands/dependencies.js";
+
 /**
  * Every command descriptor registered in the SDK, in no particular order.
  *
  * This is the authoritative list. CLI and MCP surfaces are derived from it.
  * Note: `importTaskPaperDescriptor` (`cliName: "import-taskpaper"`) is the
  * MCP tool surface for content-based import. The CLI exposes a different
- * file-path-based `import` command that is hand-wired in `cli.ts`.
+ * file-path-based `import` command that is hand-wired in `cli.ts`. Likewise
+ * the CLI `import-ical` command reads a file and calls `importICalDescriptor`.
  *
  * @public
  */
@@ -192,6 +234,9 @@ export const allCommandDescriptors: readonly ResolvedCommandDescriptor<
   // Perspectives
   listPerspectivesDescriptor,
   queryPerspectiveDescriptor,
+  saveVirtualPerspectiveDescriptor,
+  getVirtualPerspectiveDescriptor,
+  deleteVirtualPerspectiveDescriptor,
   // Forecast, Focus, Deferred
   queryForecastDescriptor,
   focusOnDescriptor,
@@ -201,12 +246,18 @@ export const allCommandDescriptors: readonly ResolvedCommandDescriptor<
   // TaskPaper
   exportTaskPaperDescriptor,
   importTaskPaperDescriptor,
+  // iCalendar
+  exportICalDescriptor,
+  importICalDescriptor,
   // Templates
   saveTemplateDescriptor,
   listTemplatesDescriptor,
   getTemplateDescriptor,
   createFromTemplateDescriptor,
   deleteTemplateDescriptor,
+  validateTemplateDescriptor,
+  exportTemplatesDescriptor,
+  importTemplatesDescriptor,
   // Attachments
   addAttachmentDescriptor,
   listAttachmentsDescriptor,
@@ -224,5 +275,21 @@ export const allCommandDescriptors: readonly ResolvedCommandDescriptor<
   openItemDescriptor,
   // Eval escape hatch
   evaluateScriptDescriptor,
+  // Undo journal
+  undoDescriptor,
+  redoDescriptor,
+  historyDescriptor,
+  // Saved queries
+  saveQueryDescriptor,
+  listSavedQueriesDescriptor,
+  getSavedQueryDescriptor,
+  deleteSavedQueryDescriptor,
+  runSavedQueryDescriptor,
+  // Task dependencies
+  addDependencyDescriptor,
+  removeDependencyDescriptor,
+  getTaskDependenciesDescriptor,
+  findDependencyCyclesDescriptor,
+  getCriticalPathDescriptor,
 ];
 /* eslint-enable @typescript-eslint/no-explicit-any */
@@ -1,6 +1,7 @@
 import type { z } from "zod";
 import type { CliOutput } from "../types.js";
 import type { CommandDescriptor } from "./types.js";
+import type { EntityFieldSpec } from "../query/fields.js";
 import { toKebabCase, toSnakeCase, validateCanonicalName } from "./naming.js";
 
 /**
@@ -8,7 +9,7 @@ import { toKebabCase, toSnakeCase, validateCanonicalName } from "./naming.js";
  *
  * Every CLI / MCP-derivable field is present (no `undefined`) so consumers can
  * rely on the values without having to apply the same kebab/snake derivation
- * rules themselves.
+ * rules themselves. `fieldSpec` stays optional: only list commands have one.
  *
  * @public
  */
@@ -18,9 +19,10 @@ export type ResolvedCommandDescriptor<
   TSchema extends z.AnyZodObject,
 > = Omit<
   Required<CommandDescriptor<TInput, TOutput, TSchema>>,
-  "cliPositional"
+  "cliPositional" | "fieldSpec"
 > & {
   cliPositional: readonly string[];
+  fieldSpec?: EntityFieldSpec;
 };
 
 /**
@@ -66,6 +68,7 @@ export function defineCommand<TSchema extends z.AnyZodObject, TOutput>(spec: {
   description: string;
   inputSchema: TSchema;
   cliPositional?: readonly string[];
+  fieldSpec?: EntityFieldSpec;
   handler: (input: z.infer<TSchema>) => Promise<CliOutput<TOutput>>;
 }): ResolvedCommandDescriptor<z.infer<TSchema>, TOutput, TSchema> {
   const nameError = validateCanonicalName(spec.name);
@@ -97,6 +100,7 @@ export function defineCommand<TSchema extends z.AnyZodObject, TOutput>(spec: {
     description: spec.description,
     inputSchema: spec.inputSchema,
     cliPositional: spec.cliPositional ?? [],
+    ...(spec.fieldSpec !== undefined ? { fieldSpec: spec.fieldSpec } : {}),
     handler: spec.handler,
   };
 }
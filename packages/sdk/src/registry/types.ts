@@ -1,5 +1,6 @@
 import type { z } from "zod";
 import type { CliOutput } from "../types.js";
+import type { EntityFieldSpec } from "../query/fields.js";
 
 /**
  * Declarative description of a single command on the ofocus surface.
@@ -81,6 +82,14 @@ export interface CommandDescriptor<
    */
   inputSchema: TSchema;
 
+  /**
+   * Field specification the handler projects list results with, for
+   * commands that accept `fields` / `excludeFields`. Surfaces that render
+   * tabular output resolve it with `compileProjection` against the parsed
+   * input to get the same ordered column list the handler returns.
+   */
+  fieldSpec?: EntityFieldSpec;
+
   /**
    * The SDK function bound to this descriptor. Receives the parsed input and
    * returns the standard `CliOutput<TOutput>` envelope.
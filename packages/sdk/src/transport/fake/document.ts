@@ -0,0 +1,174 @@
+/**
+ * JSON-serializable state of an in-memory OmniFocus database.
+ *
+ * Records reference each other by id only, so a document round-trips through
+ * `JSON.stringify` / `JSON.parse` unchanged — that is what lets the fake
+ * transport persist state between CLI processes. Dates are ISO-8601 strings.
+ *
+ * As in OmniFocus, every project owns a root task with the same id: the
+ * project's name, note, flag, and dates live on that task record, while the
+ * project record carries the project-only attributes.
+ */
+
+/**
+ * How a repeating task reschedules, named after `Task.RepetitionMethod`.
+ *
+ * @public
+ */
+export type FakeRepetitionMethod = "DueDate" | "Start" | "Fixed";
+
+/**
+ * Mirrors `Project.Status`.
+ *
+ * @public
+ */
+export type FakeProjectStatus = "Active" | "OnHold" | "Done" | "Dropped";
+
+/**
+ * Mirrors `Folder.Status`.
+ *
+ * @public
+ */
+export type FakeFolderStatus = "Active" | "Dropped";
+
+/**
+ * Mirrors `Tag.Status`.
+ *
+ * @public
+ */
+export type FakeTagStatus = "Active" | "OnHold" | "Dropped";
+
+/**
+ * A task, including project root tasks.
+ *
+ * @public
+ */
+export interface FakeTaskRecord {
+  id: string;
+  name: string;
+  note: string;
+  flagged: boolean;
+  sequential: boolean;
+  completionDate: string | null;
+  dropDate: string | null;
+  dueDate: string | null;
+  deferDate: string | null;
+  estimatedMinutes: number | null;
+  repetitionRule: {
+    ruleString: string;
+    method: FakeRepetitionMethod;
+  } | null;
+  tagIds: string[];
+  /** Parent task id (a project's root task for top-level project tasks). */
+  parentId: string | null;
+  childIds: string[];
+  attachments: { filename: string; base64: string }[];
+  added: string;
+  modified: string;
+}
+
+/**
+ * Project-only attributes; shares its id with its root task.
+ *
+ * @public
+ */
+export interface FakeProjectRecord {
+  id: string;
+  status: FakeProjectStatus;
+  folderId: string | null;
+  containsSingletonActions: boolean;
+  lastReviewDate: string | null;
+  nextReviewDate: string | null;
+  reviewInterval: { steps: number; unit: string };
+}
+
+/** @public */
+export interface FakeFolderRecord {
+  id: string;
+  name: string;
+  status: FakeFolderStatus;
+  parentId: string | null;
+  /** Ordered ids of child projects and folders. */
+  childIds: string[];
+  added: string;
+  modified: string;
+}
+
+/** @public */
+export interface FakeTagRecord {
+  id: string;
+  name: string;
+  status: FakeTagStatus;
+  allowsNextAction: boolean;
+  parentId: string | null;
+  childIds: string[];
+  added: string;
+  modified: string;
+}
+
+/** @public */
+export interface FakePerspectiveRecord {
+  id: string;
+  name: string;
+}
+
+/**
+ * The whole fake database.
+ *
+ * @public
+ */
+export interface FakeDocument {
+  tasks: Record<string, FakeTaskRecord>;
+  projects: Record<string, FakeProjectRecord>;
+  folders: Record<string, FakeFolderRecord>;
+  tags: Record<string, FakeTagRecord>;
+  /** Ordered ids of top-level inbox tasks. */
+  inboxIds: string[];
+  /** Ordered ids of top-level projects and folders. */
+  libraryIds: string[];
+  /** Ordered ids of top-level tags. */
+  tagIds: string[];
+  perspectives: FakePerspectiveRecord[];
+  window: {
+    /** Built-in perspective name or custom perspective id. */
+    perspective: string;
+    /** Ids of focused projects/folders. */
+    focusIds: string[];
+  };
+  lastSyncDate: string | null;
+}
+
+/**
+ * Create an empty fake database: no tasks, projects, folders, or tags, and
+ * the main window showing the Inbox.
+ *
+ * @public
+ */
+export function createFakeDocument(): FakeDocument {
+  return {
+    tasks: {},
+    projects: {},
+    folders: {},
+    tags: {},
+    inboxIds: [],
+    libraryIds: [],
+    tagIds: [],
+    perspectives: [],
+    window: { perspective: "Inbox", focusIds: [] },
+    lastSyncDate: null,
+  };
+}
+
+const ID_ALPHABET =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+/**
+ * Generate an id in OmniFocus's primary-key shape (11 alphanumerics).
+ */
+export function newFakeId(): string {
+  let id = "";
+  for (let i = 0; i < 11; i++) {
+    id += ID_ALPHABET.charAt(Math.floor(Math.random() * ID_ALPHABET.length));
+  }
+  return id;
+}
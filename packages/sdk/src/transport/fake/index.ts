@@ -0,0 +1,110 @@
+import type { OmniJSTransport, OmniJSTransportOutput } from "../types.js";
+import { type FakeDocument, createFakeDocument } from "./document.js";
+import { evaluateFakeOmniJS } from "./runtime.js";
+
+export type {
+  FakeDocument,
+  FakeFolderRecord,
+  FakeFolderStatus,
+  FakePerspectiveRecord,
+  FakeProjectRecord,
+  FakeProjectStatus,
+  FakeRepetitionMethod,
+  FakeTagRecord,
+  FakeTagStatus,
+  FakeTaskRecord,
+} from "./document.js";
+export { createFakeDocument } from "./document.js";
+
+/**
+ * Options for {@link createFakeTransport}.
+ *
+ * @public
+ */
+export interface FakeTransportOptions {
+  /** Initial database. Defaults to an empty document. Mutated in place. */
+  document?: FakeDocument;
+  /** Clock for status and date computations. Defaults to the system clock. */
+  now?: () => Date;
+  /** Called after every evaluation, e.g. to persist the document. */
+  onEvaluate?: (document: FakeDocument) => void;
+}
+
+/**
+ * An {@link OmniJSTransport} backed by an in-memory OmniFocus database.
+ *
+ * @public
+ */
+export interface FakeOmniJSTransport extends OmniJSTransport {
+  /** The live database the transport evaluates against. */
+  readonly document: FakeDocument;
+}
+
+const TIMEOUT_MS = 30_000;
+
+/**
+ * Create a transport that runs OmniJS scripts against an in-memory database
+ * instead of the OmniFocus app.
+ *
+ * The SDK's scripts execute unchanged inside a `node:vm` sandbox exposing the
+ * OmniJS globals (`Task`, `Project`, `flattenedTasks`, `inbox`, `document`,
+ * …), so commands, queries, and productivity scans can be exercised on any
+ * platform. Uncaught script errors are reported on `stderr` the way
+ * `osascript` reports them; exceeding the 30 s timeout rejects with a
+ * `killed` error, matching `execFile`.
+ *
+ * @example
+ * ```ts
+ * import { createFakeTransport, setOmniJSTransport, addToInbox } from "@ofocus/sdk";
+ *
+ * const fake = createFakeTransport();
+ * setOmniJSTransport(fake);
+ * await addToInbox("Buy milk");
+ * Object.keys(fake.document.tasks).length; // 1
+ * ```
+ *
+ * @public
+ */
+export function createFakeTransport(
+  options: FakeTransportOptions = {}
+): FakeOmniJSTransport {
+  const document = options.document ?? createFakeDocument();
+  const clock = options.now ?? (() => new Date());
+
+  return {
+    name: "fake",
+    document,
+    evaluate(script: string): Promise<OmniJSTransportOutput> {
+      try {
+        const value = evaluateFakeOmniJS(document, script, {
+          now: clock(),
+          timeout: TIMEOUT_MS,
+        });
+        return Promise.resolve({
+          stdout:
+            value === undefined || value === null
+              ? ""
+              : String(value as string | number),
+          stderr: "",
+        });
+      } catch (err) {
+        if (
+          err instanceof Error &&
+          "code" in err &&
+          err.code === "ERR_SCRIPT_EXECUTION_TIMEOUT"
+        ) {
+          return Promise.reject(Object.assign(err, { killed: true }));
+        }
+        // Errors thrown by script code come from the sandbox realm and fail
+        // `instanceof Error`; String() renders both kinds as "Name: message".
+        const message = String(err);
+        return Promise.resolve({
+          stdout: "",
+          stderr: `execution error: ${message} (-2700)`,
+        });
+      } finally {
+        options.onEvaluate?.(document);
+      }
+    },
+  };
+}
@@ -0,0 +1,1803 @@
+import * as vm from "node:vm";
+import {
+  type FakeDocument,
+  type FakeFolderRecord,
+  type FakeProjectRecord,
+  type FakeRepetitionMethod,
+  type FakeTagRecord,
+  type FakeTaskRecord,
+  newFakeId,
+} from "./document.js";
+
+/**
+ * The OmniJS object model, re-implemented over a {@link FakeDocument}.
+ *
+ * Only the surface the SDK's scripts rely on is modelled, and it is modelled
+ * the way OmniFocus behaves rather than the way it is documented where the two
+ * differ — e.g. `Task` has no `dropped` / `blocked` / `effectivelyDropped`
+ * booleans (they read back `undefined` in OmniFocus too), and `flattenedTasks`
+ * excludes project root tasks.
+ *
+ * Scripts run in a `node:vm` context whose `Date` is the host `Date`, so
+ * `instanceof Date` checks and date comparisons behave as they do in
+ * OmniFocus and dates assigned by scripts can be stored directly.
+ */
+
+/** Options for {@link evaluateFakeOmniJS}. */
+interface FakeEvaluateOptions {
+  /** Clock used for status, completion, and review computations. */
+  now: Date;
+  /** Milliseconds before the evaluation is aborted. */
+  timeout: number;
+}
+
+/** Window within which an incomplete task counts as `Task.Status.DueSoon`. */
+const DUE_SOON_MS = 24 * 60 * 60 * 1000;
+
+const BUILT_IN_PERSPECTIVES = [
+  "Inbox",
+  "Projects",
+  "Tags",
+  "Forecast",
+  "Flagged",
+  "Nearby",
+  "Review",
+] as const;
+
+/**
+ * Evaluate an OmniJS script against `doc`, mutating it in place.
+ *
+ * @returns The script's completion value.
+ * @throws Whatever the script throws, or a timeout error from `node:vm`.
+ */
+export function evaluateFakeOmniJS(
+  doc: FakeDocument,
+  script: string,
+  options: FakeEvaluateOptions
+): unknown {
+  const context = vm.createContext(createOmniJSGlobals(doc, options.now));
+  return vm.runInContext(script, context, {
+    filename: "omnijs.js",
+    timeout: options.timeout,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Value helpers
+// ---------------------------------------------------------------------------
+
+function isoOrNull(value: unknown, field: string): string | null {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) {
+    if (Number.isNaN(value.getTime())) {
+      throw new Error(`Invalid date assigned to ${field}`);
+    }
+    return value.toISOString();
+  }
+  throw new TypeError(`${field} must be a Date or null`);
+}
+
+function dateOrNull(iso: string | null): Date | null {
+  return iso === null ? null : new Date(iso);
+}
+
+function asArray(value: unknown, what: string): unknown[] {
+  if (!Array.isArray(value)) {
+    throw new TypeError(`${what} expects an array`);
+  }
+  return value;
+}
+
+function removeFrom(list: string[], id: string): void {
+  const index = list.indexOf(id);
+  if (index !== -1) list.splice(index, 1);
+}
+
+type Placement = "beginning" | "ending" | "before" | "after";
+
+function insertInto(
+  list: string[],
+  id: string,
+  placement: Placement,
+  refId: string | null
+): void {
+  removeFrom(list, id);
+  if (placement === "beginning") {
+    list.unshift(id);
+  } else if (placement === "ending" || refId === null) {
+    list.push(id);
+  } else {
+    const refIndex = list.indexOf(refId);
+    const at =
+      refIndex === -1
+        ? list.length
+        : placement === "before"
+          ? refIndex
+          : refIndex + 1;
+    list.splice(at, 0, id);
+  }
+}
+
+interface FrequencyStep {
+  unit: "MINUTELY" | "HOURLY" | "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+}
+
+function parseFrequency(ruleString: string): FrequencyStep {
+  let unit: FrequencyStep["unit"] = "DAILY";
+  let interval = 1;
+  for (const part of ruleString.replace(/^RRULE:/i, "").split(";")) {
+    const [key, value] = part.split("=");
+    if (key === undefined || value === undefined) continue;
+    if (key.toUpperCase() === "FREQ") {
+      const upper = value.toUpperCase();
+      if (
+        upper === "MINUTELY" ||
+        upper === "HOURLY" ||
+        upper === "DAILY" ||
+        upper === "WEEKLY" ||
+        upper === "MONTHLY" ||
+        upper === "YEARLY"
+      ) {
+        unit = upper;
+      }
+    } else if (key.toUpperCase() === "INTERVAL") {
+      const n = parseInt(value, 10);
+      if (Number.isFinite(n) && n > 0) interval = n;
+    }
+  }
+  return { unit, interval };
+}
+
+function advance(date: Date, step: FrequencyStep): Date {
+  const next = new Date(date.getTime());
+  switch (step.unit) {
+    case "MINUTELY":
+      next.setMinutes(next.getMinutes() + step.interval);
+      break;
+    case "HOURLY":
+      next.setHours(next.getHours() + step.interval);
+      break;
+    case "DAILY":
+      next.setDate(next.getDate() + step.interval);
+      break;
+    case "WEEKLY":
+      next.setDate(next.getDate() + 7 * step.interval);
+      break;
+    case "MONTHLY":
+      next.setMonth(next.getMonth() + step.interval);
+      break;
+    case "YEARLY":
+      next.setFullYear(next.getFullYear() + step.interval);
+      break;
+  }
+  return next;
+}
+
+function reviewIntervalMs(interval: { steps: number; unit: string }): number {
+  const day = 24 * 60 * 60 * 1000;
+  const unit = interval.unit.replace(/s$/, "");
+  const factor =
+    unit === "week" ? 7 : unit === "month" ? 30 : unit === "year" ? 365 : 1;
+  return interval.steps * factor * day;
+}
+
+// ---------------------------------------------------------------------------
+// Global object construction
+// ---------------------------------------------------------------------------
+
+/**
+ * Build the global scope for one evaluation. Wrapper objects are cached per
+ * record id so `===` identity holds within a script, as it does in OmniJS.
+ */
+function createOmniJSGlobals(
+  doc: FakeDocument,
+  now: Date
+): Record<string, unknown> {
+  const nowIso = now.toISOString();
+
+  // ── Enumerations ─────────────────────────────────────────────────────────
+
+  class EnumValue {
+    constructor(
+      readonly group: string,
+      readonly name: string
+    ) {}
+    toString(): string {
+      return `[object ${this.group}: ${this.name}]`;
+    }
+  }
+
+  function makeEnum<K extends string>(
+    group: string,
+    names: readonly K[]
+  ): Record<K, EnumValue> & { all: EnumValue[] } {
+    const members = {} as Record<K, EnumValue>;
+    for (const name of names) members[name] = new EnumValue(group, name);
+    return Object.assign(members, { all: names.map((n) => members[n]) });
+  }
+
+  const TaskStatus = makeEnum("Task.Status", [
+    "Available",
+    "Blocked",
+    "Completed",
+    "Dropped",
+    "DueSoon",
+    "Next",
+    "Overdue",
+  ] as const);
+  const RepetitionMethod = makeEnum("Task.RepetitionMethod", [
+    "DueDate",
+    "Fixed",
+    "None",
+    "Start",
+  ] as const);
+  const ProjectStatus = makeEnum("Project.Status", [
+    "Active",
+    "Done",
+    "Dropped",
+    "OnHold",
+  ] as const);
+  const FolderStatus = makeEnum("Folder.Status", ["Active", "Dropped"]);
+  const TagStatus = makeEnum("Tag.Status", ["Active", "Dropped", "OnHold"]);
+
+  function enumKey(value: unknown, members: object, field: string): string {
+    if (value instanceof EnumValue) {
+      for (const [key, member] of Object.entries(members)) {
+        if (member === value) return key;
+      }
+    }
+    throw new TypeError(`Invalid value assigned to ${field}`);
+  }
+
+  // ── Record access ────────────────────────────────────────────────────────
+
+  function taskRecord(id: string): FakeTaskRecord {
+    const record = doc.tasks[id];
+    if (!record) throw new Error(`Task has been deleted: ${id}`);
+    return record;
+  }
+
+  function touch(record: { modified: string }): void {
+    record.modified = nowIso;
+  }
+
+  /** Walk from a task to its outermost ancestor (a project root or inbox task). */
+  function rootTaskId(id: string): string {
+    let current = taskRecord(id);
+    while (current.parentId !== null) current = taskRecord(current.parentId);
+    return current.id;
+  }
+
+  function containingProjectId(id: string): string | null {
+    const root = rootTaskId(id);
+    return root in doc.projects ? root : null;
+  }
+
+  function ancestorIds(id: string): string[] {
+    const ids: string[] = [];
+    let parentId = taskRecord(id).parentId;
+    while (parentId !== null) {
+      ids.push(parentId);
+      parentId = taskRecord(parentId).parentId;
+    }
+    return ids;
+  }
+
+  function descendantIds(id: string): string[] {
+    const ids: string[] = [];
+    for (const childId of taskRecord(id).childIds) {
+      ids.push(childId, ...descendantIds(childId));
+    }
+    return ids;
+  }
+
+  function folderChain(folderId: string | null): FakeFolderRecord[] {
+    const chain: FakeFolderRecord[] = [];
+    let current = folderId === null ? undefined : doc.folders[folderId];
+    while (current) {
+      chain.push(current);
+      current =
+        current.parentId === null ? undefined : doc.folders[current.parentId];
+    }
+    return chain;
+  }
+
+  // ── Task status ──────────────────────────────────────────────────────────
+
+  function isRemaining(id: string): boolean {
+    const record = taskRecord(id);
+    return record.completionDate === null && record.dropDate === null;
+  }
+
+  function computeTaskStatus(id: string): EnumValue {
+    const record = taskRecord(id);
+    const lineage = [id, ...ancestorIds(id)].map(taskRecord);
+    const projectId = containingProjectId(id);
+    const project = projectId === null ? undefined : doc.projects[projectId];
+
+    if (
+      lineage.some((t) => t.completionDate !== null) ||
+      project?.status === "Done"
+    ) {
+      return TaskStatus.Completed;
+    }
+    if (
+      lineage.some((t) => t.dropDate !== null) ||
+      project?.status === "Dropped" ||
+      (project !== undefined &&
+        folderChain(project.folderId).some((f) => f.status === "Dropped"))
+    ) {
+      return TaskStatus.Dropped;
+    }
+
+    const deferred = lineage.some(
+      (t) => t.deferDate !== null && t.deferDate > nowIso
+    );
+    const onHoldTag = record.tagIds.some(
+      (tagId) => doc.tags[tagId]?.status === "OnHold"
+    );
+    // A sequential container only exposes its first remaining child.
+    let sequentialBlocked = false;
+    let child = record;
+    for (const ancestor of lineage.slice(1)) {
+      if (
+        ancestor.sequential &&
+        ancestor.childIds.find(isRemaining) !== child.id
+      ) {
+        sequentialBlocked = true;
+      }
+      child = ancestor;
+    }
+    if (
+      deferred ||
+      onHoldTag ||
+      sequentialBlocked ||
+      project?.status === "OnHold"
+    ) {
+      return TaskStatus.Blocked;
+    }
+
+    const due = lineage.find((t) => t.dueDate !== null)?.dueDate ?? null;
+    if (due !== null) {
+      const dueMs = Date.parse(due);
+      if (dueMs < now.getTime()) return TaskStatus.Overdue;
+      if (dueMs - now.getTime() <= DUE_SOON_MS) return TaskStatus.DueSoon;
+    }
+
+    const parent =
+      record.parentId === null ? undefined : taskRecord(record.parentId);
+    if (parent?.sequential === true) return TaskStatus.Next;
+    return TaskStatus.Available;
+  }
+
+  // ── Insertion locations ──────────────────────────────────────────────────
+
+  type ContainerKind = "inbox" | "task" | "library" | "folder" | "tags" | "tag";
+
+  class InsertionLocation {
+    constructor(
+      readonly kind: ContainerKind,
+      readonly containerId: string | null,
+      readonly placement: Placement,
+      readonly refId: string | null = null
+    ) {}
+  }
+
+  function taskLocation(value: unknown): InsertionLocation {
+    if (value instanceof InsertionLocation) {
+      if (value.kind === "inbox" || value.kind === "task") return value;
+    } else if (value instanceof Task) {
+      return new InsertionLocation("task", idOf(value), "ending");
+    } else if (value instanceof Project) {
+      return new InsertionLocation("task", idOf(value), "ending");
+    } else if (value === undefined || value === null) {
+      return new InsertionLocation("inbox", null, "ending");
+    }
+    throw new TypeError("Invalid task insertion location");
+  }
+
+  function sectionLocation(value: unknown): InsertionLocation {
+    if (value instanceof InsertionLocation) {
+      if (value.kind === "library" || value.kind === "folder") return value;
+    } else if (value instanceof Folder) {
+      return new InsertionLocation("folder", idOf(value), "ending");
+    } else if (value === undefined || value === null) {
+      return new InsertionLocation("library", null, "ending");
+    }
+    throw new TypeError("Invalid section insertion location");
+  }
+
+  function tagLocation(value: unknown): InsertionLocation {
+    if (value instanceof InsertionLocation) {
+      if (value.kind === "tags" || value.kind === "tag") return value;
+    } else if (value instanceof Tag) {
+      return new InsertionLocation("tag", idOf(value), "ending");
+    } else if (value === undefined || value === null) {
+      return new InsertionLocation("tags", null, "ending");
+    }
+    throw new TypeError("Invalid tag insertion location");
+  }
+
+  function taskSiblings(taskId: string): InsertionLocation {
+    const parentId = taskRecord(taskId).parentId;
+    return parentId === null
+      ? new InsertionLocation("inbox", null, "ending")
+      : new InsertionLocation("task", parentId, "ending");
+  }
+
+  function siblingLocation(
+    base: InsertionLocation,
+    placement: "before" | "after",
+    refId: string
+  ): InsertionLocation {
+    return new InsertionLocation(base.kind, base.containerId, placement, refId);
+  }
+
+  // ── Task mutations ───────────────────────────────────────────────────────
+
+  function detachTask(id: string): void {
+    const record = taskRecord(id);
+    if (record.parentId === null) {
+      removeFrom(doc.inboxIds, id);
+    } else {
+      const parent = doc.tasks[record.parentId];
+      if (parent) removeFrom(parent.childIds, id);
+    }
+    record.parentId = null;
+  }
+
+  function attachTask(id: string, location: InsertionLocation): void {
+    const record = taskRecord(id);
+    if (location.kind === "inbox") {
+      record.parentId = null;
+      insertInto(doc.inboxIds, id, location.placement, location.refId);
+    } else {
+      const parentId = location.containerId ?? "";
+      if (parentId === id || ancestorIds(parentId).includes(id)) {
+        throw new Error("Cannot move a task into itself");
+      }
+      record.parentId = parentId;
+      insertInto(
+        taskRecord(parentId).childIds,
+        id,
+        location.placement,
+        location.refId
+      );
+    }
+    touch(record);
+  }
+
+  function createTaskRecord(name: string): FakeTaskRecord {
+    const record: FakeTaskRecord = {
+      id: newFakeId(),
+      name,
+      note: "",
+      flagged: false,
+      sequential: false,
+      completionDate: null,
+      dropDate: null,
+      dueDate: null,
+      deferDate: null,
+      estimatedMinutes: null,
+      repetitionRule: null,
+      tagIds: [],
+      parentId: null,
+      childIds: [],
+      attachments: [],
+      added: nowIso,
+      modified: nowIso,
+    };
+    doc.tasks[record.id] = record;
+    return record;
+  }
+
+  function deleteTaskTree(id: string): void {
+    for (const childId of [...taskRecord(id).childIds]) deleteTaskTree(childId);
+    detachTask(id);
+    Reflect.deleteProperty(doc.tasks, id);
+  }
+
+  function cloneTaskTree(id: string, location: InsertionLocation): string {
+    const source = taskRecord(id);
+    const copy = createTaskRecord(source.name);
+    Object.assign(copy, {
+      note: source.note,
+      flagged: source.flagged,
+      sequential: source.sequential,
+      completionDate: source.completionDate,
+      dropDate: source.dropDate,
+      dueDate: source.dueDate,
+      deferDate: source.deferDate,
+      estimatedMinutes: source.estimatedMinutes,
+      repetitionRule: source.repetitionRule
+        ? { ...source.repetitionRule }
+        : null,
+      tagIds: [...source.tagIds],
+      attachments: source.attachments.map((a) => ({ ...a })),
+    });
+    attachTask(copy.id, location);
+    for (const childId of source.childIds) {
+      cloneTaskTree(childId, new InsertionLocation("task", copy.id, "ending"));
+    }
+    return copy.id;
+  }
+
+  /**
+   * Complete a task. Repeating tasks behave like OmniFocus: a completed copy
+   * is left behind and the original rolls forward to its next occurrence.
+   */
+  function completeTask(id: string, date: Date): string {
+    const record = taskRecord(id);
+    const rule = record.repetitionRule;
+    if (rule === null) {
+      record.completionDate = date.toISOString();
+      touch(record);
+      return id;
+    }
+
+    const completedId = cloneTaskTree(
+      id,
+      siblingLocation(taskSiblings(id), "before", id)
+    );
+    const completed = taskRecord(completedId);
+    completed.repetitionRule = null;
+    completed.completionDate = date.toISOString();
+
+    const step = parseFrequency(rule.ruleString);
+    if (rule.method === "Fixed") {
+      if (record.dueDate !== null)
+        record.dueDate = advance(new Date(record.dueDate), step).toISOString();
+      if (record.deferDate !== null)
+        record.deferDate = advance(
+          new Date(record.deferDate),
+          step
+        ).toISOString();
+    } else {
+      const anchorIso =
+        rule.method === "Start"
+          ? (record.deferDate ?? record.dueDate)
+          : (record.dueDate ?? record.deferDate);
+      if (anchorIso !== null) {
+        const anchor = new Date(anchorIso);
+        const base = new Date(date.getTime());
+        base.setHours(anchor.getHours(), anchor.getMinutes(), 0, 0);
+        const shift = advance(base, step).getTime() - anchor.getTime();
+        if (record.dueDate !== null)
+          record.dueDate = new Date(
+            Date.parse(record.dueDate) + shift
+          ).toISOString();
+        if (record.deferDate !== null)
+          record.deferDate = new Date(
+            Date.parse(record.deferDate) + shift
+          ).toISOString();
+      }
+    }
+    touch(record);
+    return completedId;
+  }
+
+  // ── Section and tag mutations ────────────────────────────────────────────
+
+  function sectionList(location: InsertionLocation): string[] {
+    if (location.kind === "library") return doc.libraryIds;
+    const folder = doc.folders[location.containerId ?? ""];
+    if (!folder) throw new Error("Folder has been deleted");
+    return folder.childIds;
+  }
+
+  function sectionParentId(id: string): string | null {
+    return doc.projects[id]?.folderId ?? doc.folders[id]?.parentId ?? null;
+  }
+
+  function detachSection(id: string): void {
+    const parentId = sectionParentId(id);
+    const list =
+      parentId === null ? doc.libraryIds : doc.folders[parentId]?.childIds;
+    if (list) removeFrom(list, id);
+  }
+
+  function attachSection(id: string, location: InsertionLocation): void {
+    const parentId = location.kind === "folder" ? location.containerId : null;
+    if (parentId !== null && folderChain(parentId).some((f) => f.id === id)) {
+      throw new Error("Cannot move a folder into itself");
+    }
+    insertInto(sectionList(location), id, location.placement, location.refId);
+    const project = doc.projects[id];
+    if (project) {
+      project.folderId = parentId;
+      touch(taskRecord(id));
+    }
+    const folder = doc.folders[id];
+    if (folder) {
+      folder.parentId = parentId;
+      touch(folder);
+    }
+  }
+
+  function deleteSection(id: string): void {
+    detachSection(id);
+    if (id in doc.projects) {
+      for (const childId of [...taskRecord(id).childIds])
+        deleteTaskTree(childId);
+      Reflect.deleteProperty(doc.tasks, id);
+      Reflect.deleteProperty(doc.projects, id);
+    } else {
+      const folder = doc.folders[id];
+      if (!folder) return;
+      for (const childId of [...folder.childIds]) deleteSection(childId);
+      Reflect.deleteProperty(doc.folders, id);
+    }
+    doc.window.focusIds = doc.window.focusIds.filter((f) => f !== id);
+  }
+
+  function tagList(location: InsertionLocation): string[] {
+    if (location.kind === "tags") return doc.tagIds;
+    const tag = doc.tags[location.containerId ?? ""];
+    if (!tag) throw new Error("Tag has been deleted");
+    return tag.childIds;
+  }
+
+  function detachTag(id: string): void {
+    const parentId = doc.tags[id]?.parentId ?? null;
+    const list = parentId === null ? doc.tagIds : doc.tags[parentId]?.childIds;
+    if (list) removeFrom(list, id);
+  }
+
+  function deleteTag(id: string): void {
+    const tag = doc.tags[id];
+    if (!tag) return;
+    for (const childId of [...tag.childIds]) deleteTag(childId);
+    detachTag(id);
+    for (const task of Object.values(doc.tasks)) removeFrom(task.tagIds, id);
+    Reflect.deleteProperty(doc.tags, id);
+  }
+
+  // ── Wrappers ─────────────────────────────────────────────────────────────
+
+  const ids = new WeakMap<object, string>();
+  const wrapperCache = new Map<string, object>();
+
+  function idOf(wrapper: object): string {
+    const id = ids.get(wrapper);
+    if (id === undefined) throw new TypeError("Not an OmniFocus object");
+    return id;
+  }
+
+  function wrap<T extends object>(kind: string, id: string, prototype: T): T {
+    const key = `${kind}:${id}`;
+    const cached = wrapperCache.get(key);
+    if (cached) return cached as T;
+    const wrapper = Object.create(prototype) as T;
+    ids.set(wrapper, id);
+    wrapperCache.set(key, wrapper);
+    return wrapper;
+  }
+
+  function taskWrapper(id: string): Task {
+    return wrap("task", id, Task.prototype);
+  }
+  function projectWrapper(id: string): Project {
+    return wrap("project", id, Project.prototype);
+  }
+  function folderWrapper(id: string): Folder {
+    return wrap("folder", id, Folder.prototype);
+  }
+  function tagWrapper(id: string): Tag {
+    return wrap("tag", id, Tag.prototype);
+  }
+
+  function sectionWrapper(id: string): Project | Folder {
+    return id in doc.projects ? projectWrapper(id) : folderWrapper(id);
+  }
+
+  /** An array with OmniJS's `byName` lookup. */
+  function named<T extends { name: string }>(
+    items: T[]
+  ): T[] & {
+    byName(name: string): T | null;
+  } {
+    return Object.assign(items, {
+      byName(name: string): T | null {
+        return items.find((item) => item.name === name) ?? null;
+      },
+    });
+  }
+
+  function primaryKey(id: string): { primaryKey: string } {
+    return { primaryKey: id };
+  }
+
+  class RepetitionRule {
+    readonly ruleString: string;
+    readonly method: EnumValue;
+    constructor(ruleString: unknown, method?: unknown) {
+      if (typeof ruleString !== "string" || ruleString === "") {
+        throw new TypeError("Task.RepetitionRule requires a rule string");
+      }
+      // OmniFocus's constructor rejects BYMONTH outright.
+      if (/(^|;)BYMONTH=/i.test(ruleString)) {
+        throw new Error(
+          "Repetition rule is of a format that OmniFocus doesn't support"
+        );
+      }
+      this.ruleString = ruleString;
+      this.method =
+        method instanceof EnumValue ? method : RepetitionMethod.Fixed;
+    }
+  }
+
+  class FileWrapper {
+    constructor(
+      readonly preferredFilename: string,
+      readonly contents: { base64: string }
+    ) {}
+    get filename(): string {
+      return this.preferredFilename;
+    }
+    static withContents(name: unknown, data: unknown): FileWrapper {
+      if (typeof name !== "string") {
+        throw new TypeError("FileWrapper.withContents requires a name");
+      }
+      const base64 =
+        typeof data === "object" && data !== null && "base64" in data
+          ? String(data.base64)
+          : "";
+      return new FileWrapper(name, { base64 });
+    }
+  }
+
+  class Task {
+    static Status = TaskStatus;
+    static RepetitionMethod = RepetitionMethod;
+    static RepetitionRule = RepetitionRule;
+
+    static byIdentifier(id: unknown): Task | null {
+      return typeof id === "string" && id in doc.tasks ? taskWrapper(id) : null;
+    }
+
+    constructor(name: unknown, position?: unknown) {
+      const location = taskLocation(position);
+      const record = createTaskRecord(String(name));
+      attachTask(record.id, location);
+      ids.set(this, record.id);
+      wrapperCache.set(`task:${record.id}`, this);
+    }
+
+    private get record(): FakeTaskRecord {
+      return taskRecord(idOf(this));
+    }
+
+    get id(): { primaryKey: string } {
+      return primaryKey(idOf(this));
+    }
+    get name(): string {
+      return this.record.name;
+    }
+    set name(value: unknown) {
+      this.record.name = String(value);
+      touch(this.record);
+    }
+    get note(): string {
+      return this.record.note;
+    }
+    set note(value: unknown) {
+      this.record.note =
+        value === null || value === undefined
+          ? ""
+          : String(value as string | number);
+      touch(this.record);
+    }
+    get flagged(): boolean {
+      return this.record.flagged;
+    }
+    set flagged(value: unknown) {
+      this.record.flagged = Boolean(value);
+      touch(this.record);
+    }
+    get effectiveFlagged(): boolean {
+      return [idOf(this), ...ancestorIds(idOf(this))].some(
+        (id) => taskRecord(id).flagged
+      );
+    }
+    get sequential(): boolean {
+      return this.record.sequential;
+    }
+    set sequential(value: unknown) {
+      this.record.sequential = Boolean(value);
+      touch(this.record);
+    }
+    get completed(): boolean {
+      return this.record.completionDate !== null;
+    }
+    get completionDate(): Date | null {
+      return dateOrNull(this.record.completionDate);
+    }
+    get dropDate(): Date | null {
+      return dateOrNull(this.record.dropDate);
+    }
+    get dueDate(): Date | null {
+      return dateOrNull(this.record.dueDate);
+    }
+    set dueDate(value: unknown) {
+      this.record.dueDate = isoOrNull(value, "dueDate");
+      touch(this.record);
+    }
+    get deferDate(): Date | null {
+      return dateOrNull(this.record.deferDate);
+    }
+    set deferDate(value: unknown) {
+      this.record.deferDate = isoOrNull(value, "deferDate");
+      touch(this.record);
+    }
+    get effectiveDueDate(): Date | null {
+      const lineage = [idOf(this), ...ancestorIds(idOf(this))].map(taskRecord);
+      return dateOrNull(
+        lineage.find((t) => t.dueDate !== null)?.dueDate ?? null
+      );
+    }
+    get effectiveDeferDate(): Date | null {
+      const lineage = [idOf(this), ...ancestorIds(idOf(this))].map(taskRecord);
+      return dateOrNull(
+        lineage.find((t) => t.deferDate !== null)?.deferDate ?? null
+      );
+    }
+    get estimatedMinutes(): number | null {
+      return this.record.estimatedMinutes;
+    }
+    set estimatedMinutes(value: unknown) {
+      this.record.estimatedMinutes =
+        value === null || value === undefined ? null : Number(value);
+      touch(this.record);
+    }
+    get repetitionRule(): RepetitionRule | null {
+      const rule = this.record.repetitionRule;
+      return rule === null
+        ? null
+        : new RepetitionRule(rule.ruleString, RepetitionMethod[rule.method]);
+    }
+    set repetitionRule(value: unknown) {
+      if (value === null || value === undefined) {
+        this.record.repetitionRule = null;
+      } else if (value instanceof RepetitionRule) {
+        this.record.repetitionRule = {
+          ruleString: value.ruleString,
+          method: enumKey(
+            value.method,
+            RepetitionMethod,
+            "repetitionRule.method"
+          ) as FakeRepetitionMethod,
+        };
+      } else {
+        throw new TypeError("repetitionRule must be a Task.RepetitionRule");
+      }
+      touch(this.record);
+    }
+    get taskStatus(): EnumValue {
+      return computeTaskStatus(idOf(this));
+    }
+    get added(): Date {
+      return new Date(this.record.added);
+    }
+    get modified(): Date {
+      return new Date(this.record.modified);
+    }
+
+    get parent(): Task | null {
+      const parentId = this.record.parentId;
+      return parentId === null ? null : taskWrapper(parentId);
+    }
+    get containingProject(): Project | null {
+      const projectId = containingProjectId(idOf(this));
+      return projectId === null || projectId === idOf(this)
+        ? null
+        : projectWrapper(projectId);
+    }
+    get project(): Project | null {
+      return idOf(this) in doc.projects ? projectWrapper(idOf(this)) : null;
+    }
+    get inInbox(): boolean {
+      return containingProjectId(idOf(this)) === null;
+    }
+    get children(): Task[] {
+      return named(this.record.childIds.map(taskWrapper));
+    }
+    get hasChildren(): boolean {
+      return this.record.childIds.length > 0;
+    }
+    get flattenedTasks(): Task[] {
+      return named(descendantIds(idOf(this)).map(taskWrapper));
+    }
+    get flattenedChildren(): Task[] {
+      return this.flattenedTasks;
+    }
+    get tags(): Tag[] {
+      return named(
+        this.record.tagIds.filter((id) => id in doc.tags).map(tagWrapper)
+      );
+    }
+    get attachments(): FileWrapper[] {
+      return this.record.attachments.map(
+        (a) => new FileWrapper(a.filename, { base64: a.base64 })
+      );
+    }
+
+    get beginning(): InsertionLocation {
+      return new InsertionLocation("task", idOf(this), "beginning");
+    }
+    get ending(): InsertionLocation {
+      return new InsertionLocation("task", idOf(this), "ending");
+    }
+    get before(): InsertionLocation {
+      return siblingLocation(taskSiblings(idOf(this)), "before", idOf(this));
+    }
+    get after(): InsertionLocation {
+      return siblingLocation(taskSiblings(idOf(this)), "after", idOf(this));
+    }
+
+    addTag(tag: unknown): void {
+      if (!(tag instanceof Tag)) throw new TypeError("addTag expects a Tag");
+      const tagId = idOf(tag);
+      if (!this.record.tagIds.includes(tagId)) this.record.tagIds.push(tagId);
+      touch(this.record);
+    }
+    addTags(tags: unknown): void {
+      for (const tag of asArray(tags, "addTags")) this.addTag(tag);
+    }
+    removeTag(tag: unknown): void {
+      if (!(tag instanceof Tag)) throw new TypeError("removeTag expects a Tag");
+      removeFrom(this.record.tagIds, idOf(tag));
+      touch(this.record);
+    }
+    removeTags(tags: unknown): void {
+      for (const tag of asArray(tags, "removeTags")) this.removeTag(tag);
+    }
+    clearTags(): void {
+      this.record.tagIds = [];
+      touch(this.record);
+    }
+    addAttachment(attachment: unknown): void {
+      if (!(attachment instanceof FileWrapper)) {
+        throw new TypeError("addAttachment expects a FileWrapper");
+      }
+      this.record.attachments.push({
+        filename: attachment.preferredFilename,
+        base64: attachment.contents.base64,
+      });
+      touch(this.record);
+    }
+    removeAttachmentAtIndex(index: unknown): void {
+      const i = Number(index);
+      if (
+        !Number.isInteger(i) ||
+        i < 0 ||
+        i >= this.record.attachments.length
+      ) {
+        throw new RangeError(`Attachment index out of range: ${String(index)}`);
+      }
+      this.record.attachments.splice(i, 1);
+      touch(this.record);
+    }
+    markComplete(date?: unknown): Task {
+      const when = date instanceof Date ? date : now;
+      return taskWrapper(completeTask(idOf(this), when));
+    }
+    markIncomplete(): void {
+      // Also reactivates a dropped task, as Mark Incomplete does in OmniFocus.
+      this.record.completionDate = null;
+      this.record.dropDate = null;
+      touch(this.record);
+    }
+    drop(allOccurrences?: unknown): void {
+      void allOccurrences;
+      this.record.dropDate = nowIso;
+      touch(this.record);
+    }
+  }
+
+  class Project {
+    static Status = ProjectStatus;
+
+    static byIdentifier(id: unknown): Project | null {
+      return typeof id === "string" && id in doc.projects
+        ? projectWrapper(id)
+        : null;
+    }
+
+    constructor(name: unknown, position?: unknown) {
+      const location = sectionLocation(position);
+      const root = createTaskRecord(String(name));
+      const record: FakeProjectRecord = {
+        id: root.id,
+        status: "Active",
+        folderId: null,
+        containsSingletonActions: false,
+        lastReviewDate: nowIso,
+        nextReviewDate: new Date(
+          now.getTime() + reviewIntervalMs({ steps: 1, unit: "weeks" })
+        ).toISOString(),
+        reviewInterval: { steps: 1, unit: "weeks" },
+      };
+      doc.projects[record.id] = record;
+      attachSection(record.id, location);
+      ids.set(this, record.id);
+      wrapperCache.set(`project:${record.id}`, this);
+    }
+
+    private get record(): FakeProjectRecord {
+      const record = doc.projects[idOf(this)];
+      if (!record) throw new Error(`Project has been deleted: ${idOf(this)}`);
+      return record;
+    }
+    private get rootTask(): Task {
+      return taskWrapper(this.record.id);
+    }
+
+    get id(): { primaryKey: string } {
+      return primaryKey(idOf(this));
+    }
+    get task(): Task {
+      return this.rootTask;
+    }
+    get name(): string {
+      return this.rootTask.name;
+    }
+    set name(value: unknown) {
+      this.rootTask.name = value;
+    }
+    get note(): string {
+      return this.rootTask.note;
+    }
+    set note(value: unknown) {
+      this.rootTask.note = value;
+    }
+    get flagged(): boolean {
+      return this.rootTask.flagged;
+    }
+    set flagged(value: unknown) {
+      this.rootTask.flagged = value;
+    }
+    get sequential(): boolean {
+      return this.rootTask.sequential;
+    }
+    set sequential(value: unknown) {
+      this.rootTask.sequential = value;
+    }
+    get containsSingletonActions(): boolean {
+      return this.record.containsSingletonActions;
+    }
+    set containsSingletonActions(value: unknown) {
+      this.record.containsSingletonActions = Boolean(value);
+    }
+    get dueDate(): Date | null {
+      return this.rootTask.dueDate;
+    }
+    set dueDate(value: unknown) {
+      this.rootTask.dueDate = value;
+    }
+    get deferDate(): Date | null {
+      return this.rootTask.deferDate;
+    }
+    set deferDate(value: unknown) {
+      this.rootTask.deferDate = value;
+    }
+    get effectiveDueDate(): Date | null {
+      return this.rootTask.effectiveDueDate;
+    }
+    get effectiveDeferDate(): Date | null {
+      return this.rootTask.effectiveDeferDate;
+    }
+    get estimatedMinutes(): number | null {
+      return this.rootTask.estimatedMinutes;
+    }
+    set estimatedMinutes(value: unknown) {
+      this.rootTask.estimatedMinutes = value;
+    }
+    get completed(): boolean {
+      return this.rootTask.completed;
+    }
+    get completionDate(): Date | null {
+      return this.rootTask.completionDate;
+    }
+    get dropDate(): Date | null {
+      return this.rootTask.dropDate;
+    }
+    get repetitionRule(): RepetitionRule | null {
+      return this.rootTask.repetitionRule;
+    }
+    set repetitionRule(value: unknown) {
+      this.rootTask.repetitionRule = value;
+    }
+    get taskStatus(): EnumValue {
+      return this.rootTask.taskStatus;
+    }
+    get tags(): Tag[] {
+      return this.rootTask.tags;
+    }
+    get attachments(): FileWrapper[] {
+      return this.rootTask.attachments;
+    }
+    // Projects expose no `.added` / `.modified` of their own; read them
+    // through `project.task`.
+
+    get status(): EnumValue {
+      return ProjectStatus[this.record.status];
+    }
+    set status(value: unknown) {
+      const status = enumKey(
+        value,
+        ProjectStatus,
+        "status"
+      ) as FakeProjectRecord["status"];
+      const root = taskRecord(this.record.id);
+      this.record.status = status;
+      root.completionDate =
+        status === "Done" ? (root.completionDate ?? nowIso) : null;
+      root.dropDate = status === "Dropped" ? (root.dropDate ?? nowIso) : null;
+      touch(root);
+    }
+    get parentFolder(): Folder | null {
+      const folderId = this.record.folderId;
+      return folderId === null ? null : folderWrapper(folderId);
+    }
+    get tasks(): Task[] {
+      return this.rootTask.children;
+    }
+    get children(): Task[] {
+      return this.rootTask.children;
+    }
+    get flattenedTasks(): Task[] {
+      return this.rootTask.flattenedTasks;
+    }
+    get nextTask(): Task | null {
+      return (
+        this.rootTask.flattenedTasks.find((t) => {
+          const status = t.taskStatus;
+          return (
+            status !== TaskStatus.Blocked &&
+            status !== TaskStatus.Completed &&
+            status !== TaskStatus.Dropped
+          );
+        }) ?? null
+      );
+    }
+    get lastReviewDate(): Date | null {
+      return dateOrNull(this.record.lastReviewDate);
+    }
+    set lastReviewDate(value: unknown) {
+      const iso = isoOrNull(value, "lastReviewDate");
+      this.record.lastReviewDate = iso;
+      this.record.nextReviewDate =
+        iso === null
+          ? null
+          : new Date(
+              Date.parse(iso) + reviewIntervalMs(this.record.reviewInterval)
+            ).toISOString();
+    }
+    get nextReviewDate(): Date | null {
+      return dateOrNull(this.record.nextReviewDate);
+    }
+    set nextReviewDate(value: unknown) {
+      this.record.nextReviewDate = isoOrNull(value, "nextReviewDate");
+    }
+    get reviewInterval(): { steps: number; unit: string } {
+      return { ...this.record.reviewInterval };
+    }
+    set reviewInterval(value: unknown) {
+      if (typeof value !== "object" || value === null) {
+        throw new TypeError("reviewInterval must be an object");
+      }
+      const { steps, unit } = value as { steps?: unknown; unit?: unknown };
+      this.record.reviewInterval = {
+        steps: Number(steps ?? 1),
+        unit: typeof unit === "string" ? unit : "days",
+      };
+    }
+
+    get beginning(): InsertionLocation {
+      return this.rootTask.beginning;
+    }
+    get ending(): InsertionLocation {
+      return this.rootTask.ending;
+    }
+    get before(): InsertionLocation {
+      return siblingLocation(
+        new InsertionLocation(
+          this.record.folderId === null ? "library" : "folder",
+          this.record.folderId,
+          "ending"
+        ),
+        "before",
+        idOf(this)
+      );
+    }
+    get after(): InsertionLocation {
+      return siblingLocation(
+        new InsertionLocation(
+          this.record.folderId === null ? "library" : "folder",
+          this.record.folderId,
+          "ending"
+        ),
+        "after",
+        idOf(this)
+      );
+    }
+
+    addTag(tag: unknown): void {
+      this.rootTask.addTag(tag);
+    }
+    addTags(tags: unknown): void {
+      this.rootTask.addTags(tags);
+    }
+    removeTag(tag: unknown): void {
+      this.rootTask.removeTag(tag);
+    }
+    clearTags(): void {
+      this.rootTask.clearTags();
+    }
+    markComplete(date?: unknown): Task {
+      this.status = ProjectStatus.Done;
+      if (date instanceof Date) {
+        taskRecord(this.record.id).completionDate = date.toISOString();
+      }
+      return this.rootTask;
+    }
+    markIncomplete(): void {
+      this.status = ProjectStatus.Active;
+    }
+  }
+
+  class Folder {
+    static Status = FolderStatus;
+
+    static byIdentifier(id: unknown): Folder | null {
+      return typeof id === "string" && id in doc.folders
+        ? folderWrapper(id)
+        : null;
+    }
+
+    constructor(name: unknown, position?: unknown) {
+      const location = sectionLocation(position);
+      const record: FakeFolderRecord = {
+        id: newFakeId(),
+        name: String(name),
+        status: "Active",
+        parentId: null,
+        childIds: [],
+        added: nowIso,
+        modified: nowIso,
+      };
+      doc.folders[record.id] = record;
+      attachSection(record.id, location);
+      ids.set(this, record.id);
+      wrapperCache.set(`folder:${record.id}`, this);
+    }
+
+    private get record(): FakeFolderRecord {
+      const record = doc.folders[idOf(this)];
+      if (!record) throw new Error(`Folder has been deleted: ${idOf(this)}`);
+      return record;
+    }
+
+    get id(): { primaryKey: string } {
+      return primaryKey(idOf(this));
+    }
+    get name(): string {
+      return this.record.name;
+    }
+    set name(value: unknown) {
+      this.record.name = String(value);
+      touch(this.record);
+    }
+    get status(): EnumValue {
+      return FolderStatus[this.record.status];
+    }
+    set status(value: unknown) {
+      this.record.status = enumKey(
+        value,
+        FolderStatus,
+        "status"
+      ) as FakeFolderRecord["status"];
+      touch(this.record);
+    }
+    get added(): Date {
+      return new Date(this.record.added);
+    }
+    get modified(): Date {
+      return new Date(this.record.modified);
+    }
+    get parent(): Folder | null {
+      const parentId = this.record.parentId;
+      return parentId === null ? null : folderWrapper(parentId);
+    }
+    get children(): (Project | Folder)[] {
+      return named(this.record.childIds.map(sectionWrapper));
+    }
+    get sections(): (Project | Folder)[] {
+      return this.children;
+    }
+    get projects(): Project[] {
+      return named(
+        this.record.childIds
+          .filter((id) => id in doc.projects)
+          .map(projectWrapper)
+      );
+    }
+    get folders(): Folder[] {
+      return named(
+        this.record.childIds
+          .filter((id) => id in doc.folders)
+          .map(folderWrapper)
+      );
+    }
+    get flattenedSections(): (Project | Folder)[] {
+      return named(flattenSections(this.record.childIds).map(sectionWrapper));
+    }
+    get flattenedProjects(): Project[] {
+      return named(
+        flattenSections(this.record.childIds)
+          .filter((id) => id in doc.projects)
+          .map(projectWrapper)
+      );
+    }
+    get flattenedFolders(): Folder[] {
+      return named(
+        flattenSections(this.record.childIds)
+          .filter((id) => id in doc.folders)
+          .map(folderWrapper)
+      );
+    }
+    get beginning(): InsertionLocation {
+      return new InsertionLocation("folder", idOf(this), "beginning");
+    }
+    get ending(): InsertionLocation {
+      return new InsertionLocation("folder", idOf(this), "ending");
+    }
+  }
+
+  class Tag {
+    static Status = TagStatus;
+
+    static byIdentifier(id: unknown): Tag | null {
+      return typeof id === "string" && id in doc.tags ? tagWrapper(id) : null;
+    }
+
+    constructor(name: unknown, position?: unknown) {
+      const location = tagLocation(position);
+      const record: FakeTagRecord = {
+        id: newFakeId(),
+        name: String(name),
+        status: "Active",
+        allowsNextAction: true,
+        parentId: location.kind === "tag" ? location.containerId : null,
+        childIds: [],
+        added: nowIso,
+        modified: nowIso,
+      };
+      doc.tags[record.id] = record;
+      insertInto(
+        tagList(location),
+        record.id,
+        location.placement,
+        location.refId
+      );
+      ids.set(this, record.id);
+      wrapperCache.set(`tag:${record.id}`, this);
+    }
+
+    private get record(): FakeTagRecord {
+      const record = doc.tags[idOf(this)];
+      if (!record) throw new Error(`Tag has been deleted: ${idOf(this)}`);
+      return record;
+    }
+
+    get id(): { primaryKey: string } {
+      return primaryKey(idOf(this));
+    }
+    get name(): string {
+      return this.record.name;
+    }
+    set name(value: unknown) {
+      this.record.name = String(value);
+      touch(this.record);
+    }
+    get status(): EnumValue {
+      return TagStatus[this.record.status];
+    }
+    set status(value: unknown) {
+      this.record.status = enumKey(
+        value,
+        TagStatus,
+        "status"
+      ) as FakeTagRecord["status"];
+      touch(this.record);
+    }
+    get allowsNextAction(): boolean {
+      return this.record.allowsNextAction;
+    }
+    set allowsNextAction(value: unknown) {
+      this.record.allowsNextAction = Boolean(value);
+      touch(this.record);
+    }
+    get added(): Date {
+      return new Date(this.record.added);
+    }
+    get modified(): Date {
+      return new Date(this.record.modified);
+    }
+    get parent(): Tag | null {
+      const parentId = this.record.parentId;
+      return parentId === null ? null : tagWrapper(parentId);
+    }
+    get tags(): Tag[] {
+      return named(this.record.childIds.map(tagWrapper));
+    }
+    get children(): Tag[] {
+      return this.tags;
+    }
+    get flattenedTags(): Tag[] {
+      return named(flattenTags(this.record.childIds).map(tagWrapper));
+    }
+    get flattenedChildren(): Tag[] {
+      return this.flattenedTags;
+    }
+    get tasks(): Task[] {
+      const tagId = idOf(this);
+      return named(
+        Object.values(doc.tasks)
+          .filter((t) => t.tagIds.includes(tagId))
+          .map((t) => taskWrapper(t.id))
+      );
+    }
+    get remainingTasks(): Task[] {
+      return named(
+        this.tasks.filter((t) => {
+          const status = t.taskStatus;
+          return (
+            status !== TaskStatus.Completed && status !== TaskStatus.Dropped
+          );
+        })
+      );
+    }
+    get availableTasks(): Task[] {
+      return named(
+        this.tasks.filter((t) => {
+          const status = t.taskStatus;
+          return (
+            status !== TaskStatus.Blocked &&
+            status !== TaskStatus.Completed &&
+            status !== TaskStatus.Dropped
+          );
+        })
+      );
+    }
+    get projects(): Project[] {
+      const tagId = idOf(this);
+      return named(
+        Object.values(doc.projects)
+          .filter((p) => taskRecord(p.id).tagIds.includes(tagId))
+          .map((p) => projectWrapper(p.id))
+      );
+    }
+    get beginning(): InsertionLocation {
+      return new InsertionLocation("tag", idOf(this), "beginning");
+    }
+    get ending(): InsertionLocation {
+      return new InsertionLocation("tag", idOf(this), "ending");
+    }
+  }
+
+  // ── Flattened collections ────────────────────────────────────────────────
+
+  function flattenSections(sectionIds: string[]): string[] {
+    const result: string[] = [];
+    for (const id of sectionIds) {
+      result.push(id);
+      const folder = doc.folders[id];
+      if (folder) result.push(...flattenSections(folder.childIds));
+    }
+    return result;
+  }
+
+  function flattenTags(tagIds: string[]): string[] {
+    const result: string[] = [];
+    for (const id of tagIds) {
+      result.push(id);
+      const tag = doc.tags[id];
+      if (tag) result.push(...flattenTags(tag.childIds));
+    }
+    return result;
+  }
+
+  function allTaskIds(): string[] {
+    const result: string[] = [];
+    const walk = (id: string): void => {
+      result.push(id);
+      for (const childId of taskRecord(id).childIds) walk(childId);
+    };
+    for (const id of doc.inboxIds) walk(id);
+    for (const sectionId of flattenSections(doc.libraryIds)) {
+      if (!(sectionId in doc.projects)) continue;
+      for (const childId of taskRecord(sectionId).childIds) walk(childId);
+    }
+    return result;
+  }
+
+  function locationFor(
+    kind: ContainerKind,
+    placement: "beginning" | "ending"
+  ): InsertionLocation {
+    return new InsertionLocation(kind, null, placement);
+  }
+
+  // ── Database functions ───────────────────────────────────────────────────
+
+  function deleteObject(object: unknown): void {
+    if (object instanceof Project) {
+      deleteSection(idOf(object));
+    } else if (object instanceof Task) {
+      const id = idOf(object);
+      if (id in doc.projects) deleteSection(id);
+      else deleteTaskTree(id);
+    } else if (object instanceof Folder) {
+      deleteSection(idOf(object));
+    } else if (object instanceof Tag) {
+      deleteTag(idOf(object));
+    } else {
+      throw new TypeError("deleteObject expects a database object");
+    }
+  }
+
+  function moveTasks(tasks: unknown, position: unknown): void {
+    const location = taskLocation(position);
+    for (const task of asArray(tasks, "moveTasks")) {
+      if (!(task instanceof Task))
+        throw new TypeError("moveTasks expects Tasks");
+      const id = idOf(task);
+      detachTask(id);
+      attachTask(id, location);
+    }
+  }
+
+  function duplicateTasks(tasks: unknown, position: unknown): Task[] {
+    const location = taskLocation(position);
+    return asArray(tasks, "duplicateTasks").map((task) => {
+      if (!(task instanceof Task)) {
+        throw new TypeError("duplicateTasks expects Tasks");
+      }
+      return taskWrapper(cloneTaskTree(idOf(task), location));
+    });
+  }
+
+  function moveSections(sections: unknown, position: unknown): void {
+    const location = sectionLocation(position);
+    for (const section of asArray(sections, "moveSections")) {
+      if (!(section instanceof Project) && !(section instanceof Folder)) {
+        throw new TypeError("moveSections expects Projects or Folders");
+      }
+      const id = idOf(section);
+      detachSection(id);
+      attachSection(id, location);
+    }
+  }
+
+  function moveTags(tags: unknown, position: unknown): void {
+    const location = tagLocation(position);
+    for (const tag of asArray(tags, "moveTags")) {
+      if (!(tag instanceof Tag)) throw new TypeError("moveTags expects Tags");
+      const id = idOf(tag);
+      const parentId = location.kind === "tag" ? location.containerId : null;
+      if (parentId !== null) {
+        let cursor: string | null = parentId;
+        while (cursor !== null) {
+          if (cursor === id) throw new Error("Cannot move a tag into itself");
+          cursor = doc.tags[cursor]?.parentId ?? null;
+        }
+      }
+      detachTag(id);
+      insertInto(tagList(location), id, location.placement, location.refId);
+      const record = doc.tags[id];
+      if (record) {
+        record.parentId = parentId;
+        touch(record);
+      }
+    }
+  }
+
+  // ── Perspectives and window ──────────────────────────────────────────────
+
+  class BuiltInPerspective {
+    constructor(readonly name: string) {}
+  }
+
+  class CustomPerspective {
+    constructor(
+      readonly identifier: string,
+      readonly name: string
+    ) {}
+  }
+
+  const builtIns = Object.fromEntries(
+    BUILT_IN_PERSPECTIVES.map((name) => [name, new BuiltInPerspective(name)])
+  ) as Record<(typeof BUILT_IN_PERSPECTIVES)[number], BuiltInPerspective>;
+
+  const customPerspectives = doc.perspectives.map(
+    (p) => new CustomPerspective(p.id, p.name)
+  );
+
+  const Perspective = {
+    BuiltIn: Object.assign({}, builtIns, { all: Object.values(builtIns) }),
+    Custom: {
+      all: customPerspectives,
+      byName(name: unknown): CustomPerspective | null {
+        return customPerspectives.find((p) => p.name === name) ?? null;
+      },
+      byIdentifier(id: unknown): CustomPerspective | null {
+        return customPerspectives.find((p) => p.identifier === id) ?? null;
+      },
+    },
+  };
+
+  /** The tasks a perspective shows, approximated from its built-in meaning. */
+  function perspectiveTaskIds(perspective: string): string[] {
+    const remaining = allTaskIds().filter((id) => {
+      const status = computeTaskStatus(id);
+      return status !== TaskStatus.Completed && status !== TaskStatus.Dropped;
+    });
+    switch (perspective) {
+      case "Inbox":
+        return remaining.filter((id) => containingProjectId(id) === null);
+      case "Flagged":
+        return remaining.filter((id) => taskRecord(id).flagged);
+      case "Forecast":
+        return remaining.filter((id) => taskRecord(id).dueDate !== null);
+      case "Projects":
+      case "Review":
+        return remaining.filter((id) => containingProjectId(id) !== null);
+      case "Tags":
+        return remaining.filter((id) => taskRecord(id).tagIds.length > 0);
+      default:
+        return [];
+    }
+  }
+
+  const mainWindow = {
+    get perspective(): BuiltInPerspective | CustomPerspective | null {
+      const current = doc.window.perspective;
+      return (
+        Perspective.BuiltIn.all.find((p) => p.name === current) ??
+        Perspective.Custom.byIdentifier(current)
+      );
+    },
+    set perspective(value: unknown) {
+      if (value instanceof BuiltInPerspective) {
+        doc.window.perspective = value.name;
+      } else if (value instanceof CustomPerspective) {
+        doc.window.perspective = value.identifier;
+      } else {
+        throw new TypeError("perspective must be a Perspective");
+      }
+    },
+    get focus(): (Project | Folder)[] {
+      return doc.window.focusIds
+        .filter((id) => id in doc.projects || id in doc.folders)
+        .map(sectionWrapper);
+    },
+    set focus(value: unknown) {
+      doc.window.focusIds = asArray(value ?? [], "focus").map((item) => {
+        if (!(item instanceof Project) && !(item instanceof Folder)) {
+          throw new TypeError("focus expects Projects or Folders");
+        }
+        return idOf(item);
+      });
+    },
+    get content(): {
+      rootNode: { apply(fn: (node: { object: unknown }) => unknown): void };
+    } {
+      const taskIds = perspectiveTaskIds(doc.window.perspective);
+      return {
+        rootNode: {
+          apply(fn: (node: { object: unknown }) => unknown): void {
+            for (const id of taskIds) fn({ object: taskWrapper(id) });
+          },
+        },
+      };
+    },
+  };
+
+  const document = {
+    windows: [mainWindow],
+    get lastSyncDate(): Date | null {
+      return dateOrNull(doc.lastSyncDate);
+    },
+    sync(): void {
+      doc.lastSyncDate = nowIso;
+    },
+  };
+
+  // ── Global scope ─────────────────────────────────────────────────────────
+
+  const globals: Record<string, unknown> = {
+    Date,
+    Task,
+    Project,
+    Folder,
+    Tag,
+    Perspective,
+    FileWrapper,
+    Data: {
+      fromBase64(value: unknown): { base64: string } {
+        return { base64: String(value) };
+      },
+    },
+    URL: {
+      fromString(value: unknown): { string: string; open(): void } {
+        return {
+          string: String(value),
+          open(): void {
+            // Nothing to open without the app.
+          },
+        };
+      },
+    },
+    document,
+    app: { name: "OmniFocus", version: "fake" },
+    console,
+    deleteObject,
+    moveTasks,
+    duplicateTasks,
+    moveSections,
+    moveTags,
+    save(): void {
+      // Mutations are applied to the document immediately.
+    },
+  };
+
+  const collections: Record<string, () => unknown> = {
+    inbox: () =>
+      Object.assign(named(doc.inboxIds.map(taskWrapper)), {
+        beginning: locationFor("inbox", "beginning"),
+        ending: locationFor("inbox", "ending"),
+      }),
+    library: () =>
+      Object.assign(named(doc.libraryIds.map(sectionWrapper)), {
+        beginning: locationFor("library", "beginning"),
+        ending: locationFor("library", "ending"),
+      }),
+    tags: () =>
+      Object.assign(named(doc.tagIds.map(tagWrapper)), {
+        beginning: locationFor("tags", "beginning"),
+        ending: locationFor("tags", "ending"),
+      }),
+    projects: () =>
+      named(
+        doc.libraryIds.filter((id) => id in doc.projects).map(projectWrapper)
+      ),
+    folders: () =>
+      named(
+        doc.libraryIds.filter((id) => id in doc.folders).map(folderWrapper)
+      ),
+    flattenedTasks: () => named(allTaskIds().map(taskWrapper)),
+    flattenedProjects: () =>
+      named(
+        flattenSections(doc.libraryIds)
+          .filter((id) => id in doc.projects)
+          .map(projectWrapper)
+      ),
+    flattenedFolders: () =>
+      named(
+        flattenSections(doc.libraryIds)
+          .filter((id) => id in doc.folders)
+          .map(folderWrapper)
+      ),
+    flattenedSections: () =>
+      named(flattenSections(doc.libraryIds).map(sectionWrapper)),
+    flattenedTags: () => named(flattenTags(doc.tagIds).map(tagWrapper)),
+  };
+
+  for (const [name, get] of Object.entries(collections)) {
+    Object.defineProperty(globals, name, { get, enumerable: true });
+  }
+
+  return globals;
+}
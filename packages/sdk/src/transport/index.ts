@@ -0,0 +1,108 @@
+/**
+ * Pluggable execution channel for OmniJS scripts.
+ *
+ * `runOmniJS` never talks to `osascript` directly; it asks this module for
+ * the active transport. By default that is {@link osascriptTransport}. Two
+ * ways to swap it:
+ *
+ * - programmatically, with {@link setOmniJSTransport} (tests, embedders);
+ * - via the environment, with `OFOCUS_TRANSPORT=fake`, which routes every
+ *   process (CLI, MCP server, integration suite) to the in-memory fake. Set
+ *   `OFOCUS_FAKE_DOCUMENT=<path>` to load the fake database from a JSON file
+ *   and write it back after each script, so state survives across processes.
+ *
+ * @public
+ */
+
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { createFakeDocument, createFakeTransport } from "./fake/index.js";
+import type { FakeDocument } from "./fake/index.js";
+import { osascriptTransport } from "./osascript.js";
+import type { OmniJSTransport } from "./types.js";
+
+export type { OmniJSTransport, OmniJSTransportOutput } from "./types.js";
+export { osascriptTransport } from "./osascript.js";
+export {
+  createFakeDocument,
+  createFakeTransport,
+  type FakeDocument,
+  type FakeFolderRecord,
+  type FakeFolderStatus,
+  type FakeOmniJSTransport,
+  type FakePerspectiveRecord,
+  type FakeProjectRecord,
+  type FakeProjectStatus,
+  type FakeRepetitionMethod,
+  type FakeTagRecord,
+  type FakeTagStatus,
+  type FakeTaskRecord,
+  type FakeTransportOptions,
+} from "./fake/index.js";
+
+let activeTransport: OmniJSTransport | null = null;
+
+/**
+ * Build the transport selected by `OFOCUS_TRANSPORT`.
+ *
+ * Unknown values fail loudly rather than silently falling back to the live
+ * database.
+ */
+function transportFromEnvironment(): OmniJSTransport {
+  const selected = process.env["OFOCUS_TRANSPORT"] ?? "osascript";
+
+  if (selected === "" || selected === "osascript") {
+    return osascriptTransport;
+  }
+
+  if (selected === "fake") {
+    const documentPath = process.env["OFOCUS_FAKE_DOCUMENT"];
+    if (documentPath === undefined || documentPath === "") {
+      return createFakeTransport();
+    }
+    const document = existsSync(documentPath)
+      ? (JSON.parse(readFileSync(documentPath, "utf8")) as FakeDocument)
+      : createFakeDocument();
+    return createFakeTransport({
+      document,
+      onEvaluate: (doc) => {
+        writeFileSync(documentPath, JSON.stringify(doc, null, 2));
+      },
+    });
+  }
+
+  throw new Error(
+    `Unknown OFOCUS_TRANSPORT "${selected}". Valid values: osascript, fake`
+  );
+}
+
+/**
+ * The transport `runOmniJS` evaluates scripts with.
+ *
+ * Resolved lazily from the environment on first use, then cached until
+ * {@link setOmniJSTransport} or {@link resetOmniJSTransport} is called.
+ *
+ * @public
+ */
+export function getOmniJSTransport(): OmniJSTransport {
+  activeTransport ??= transportFromEnvironment();
+  return activeTransport;
+}
+
+/**
+ * Route all subsequent OmniJS evaluation through `transport`.
+ *
+ * @public
+ */
+export function setOmniJSTransport(transport: OmniJSTransport): void {
+  activeTransport = transport;
+}
+
+/**
+ * Drop the active transport so the next call re-resolves it from the
+ * environment.
+ *
+ * @public
+ */
+export function resetOmniJSTransport(): void {
+  activeTransport = null;
+}
@@ -0,0 +1,53 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import type { OmniJSTransport, OmniJSTransportOutput } from "./types.js";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Escape a JavaScript string for embedding inside an AppleScript
+ * double-quoted string passed to `evaluate javascript`.
+ *
+ * With execFile (no shell layer), escaping layers are:
+ * 1. AppleScript double-quoted string: \\ → \, \" → "
+ * 2. JavaScript eval: interprets the resulting string as JS source
+ *
+ * We escape: backslashes, double quotes, newlines, tabs, carriage returns.
+ */
+export function escapeJSForAppleScript(js: string): string {
+  return js
+    .replace(/\\/g, "\\\\") // \ → \\ (for AppleScript string layer)
+    .replace(/"/g, '\\"') // " → \" (escape for AS string)
+    .replace(/\n/g, "\\n") // newline → \n literal in AS string
+    .replace(/\r/g, "\\r") // carriage return → \r
+    .replace(/\t/g, "\\t"); // tab → \t
+}
+
+/**
+ * The production transport: evaluates scripts in the running OmniFocus app.
+ *
+ *   osascript -e 'tell application "OmniFocus" to evaluate javascript "..."'
+ *
+ * Rejects with the `execFile` error when osascript fails to run or exceeds
+ * its 30 s timeout (the error carries `killed: true` in that case).
+ *
+ * @public
+ */
+export const osascriptTransport: OmniJSTransport = {
+  name: "osascript",
+  async evaluate(script: string): Promise<OmniJSTransportOutput> {
+    const escapedScript = escapeJSForAppleScript(script);
+    const asScript = `tell application "OmniFocus" to evaluate javascript "${escapedScript}"`;
+
+    const { stdout, stderr } = await execFileAsync(
+      "osascript",
+      ["-e", asScript],
+      {
+        maxBuffer: 10 * 1024 * 1024, // 10MB for large query results
+        timeout: 30_000,
+      }
+    );
+
+    return { stdout, stderr };
+  },
+};
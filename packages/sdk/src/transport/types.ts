@@ -0,0 +1,40 @@
+/**
+ * Raw output of evaluating one OmniJS script through a transport.
+ *
+ * Mirrors what `osascript` prints: `stdout` carries the script's completion
+ * value (normally the `JSON.stringify(...)` result) and `stderr` carries any
+ * host-level error text. Interpreting either stream is the job of
+ * `runOmniJS`, not the transport.
+ *
+ * @public
+ */
+export interface OmniJSTransportOutput {
+  stdout: string;
+  stderr: string;
+}
+
+/**
+ * A channel that evaluates OmniJS source against an OmniFocus document.
+ *
+ * The SDK resolves the active transport at call time (see
+ * `getOmniJSTransport`), so every command — and every layer built on
+ * `runOmniJS` — runs unchanged against the live app via `osascript` or
+ * against the bundled in-memory fake.
+ *
+ * Implementations should reject only for transport failures (process could
+ * not be spawned, timed out, …). Script errors belong on `stderr`.
+ *
+ * @public
+ */
+export interface OmniJSTransport {
+  /** Short identifier used in diagnostics, e.g. `"osascript"` or `"fake"`. */
+  readonly name: string;
+
+  /**
+   * Evaluate a complete OmniJS script and return its raw output.
+   *
+   * @param script - Unescaped OmniJS source. The script's completion value
+   *                 becomes `stdout`.
+   */
+  evaluate(script: string): Promise<OmniJSTransportOutput>;
+}
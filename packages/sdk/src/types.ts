@@ -71,8 +71,11 @@ export interface OFTag {
 export interface OFPerspective {
   id: string;
   name: string;
-  /** Whether this is a built-in or user-created custom perspective. */
-  kind: "builtin" | "custom";
+  /**
+   * Whether this is a built-in or user-created custom perspective, or a
+   * virtual perspective defined locally (see `saveVirtualPerspective`).
+   */
+  kind: "builtin" | "custom" | "virtual";
 }
 
 /**
@@ -247,21 +250,37 @@ export interface BatchResult<T> {
  * - **Yearly**: `{ frequency: "yearly" }`
  * - **Yearly with months**: `{ frequency: "yearly", monthsOfYear: [3,6,9,12] }`
  *   → `FREQ=YEARLY;BYMONTH=3,6,9,12`
+ * - **Bounded**: `{ frequency: "daily", count: 10 }` → `FREQ=DAILY;COUNT=10`
+ * - **Last workday of the month**: `{ frequency: "monthly", daysOfWeek: [1,2,3,4,5], setPositions: [-1] }`
+ *   → `FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1`
+ *
+ * The remaining RRULE parts (`BYYEARDAY`, `BYWEEKNO`, `BYHOUR`, `BYMINUTE`,
+ * `BYSECOND`, `WKST`, `UNTIL`) and sub-daily frequencies have fields of their
+ * own. `exceptDates` carries `EXDATE` exclusions, which are a separate
+ * iCalendar property rather than part of the RRULE.
  *
  * @see https://datatracker.ietf.org/doc/html/rfc5545#section-3.3.10
  */
 export interface RepetitionRule {
-  frequency: "daily" | "weekly" | "monthly" | "yearly";
+  frequency:
+    | "secondly"
+    | "minutely"
+    | "hourly"
+    | "daily"
+    | "weekly"
+    | "monthly"
+    | "yearly";
   interval: number;
   /** How OmniFocus reschedules the task after completion. */
   repeatMethod: "due-again" | "defer-another" | "scheduled";
   daysOfWeek?: number[] | undefined;
   dayOfMonth?: number | undefined;
   /**
-   * Positional prefix for BYDAY when `frequency` is `"monthly"`.
+   * Positional prefix for BYDAY when `frequency` is `"monthly"` or `"yearly"`.
    *
-   * Values must be integers in `[-5, -1] ∪ [1, 5]` (RFC 5545 allows up to
-   * the 5th occurrence within a month). Positions apply to **all** listed
+   * Values must be integers in `[-5, -1] ∪ [1, 5]` within a month (monthly,
+   * or yearly with `monthsOfYear`), and in `[-53, -1] ∪ [1, 53]` within a
+   * year. Positions apply to **all** listed
    * `daysOfWeek` entries — the emitted BYDAY is the cross-product.
    *
    * @example
@@ -271,18 +290,66 @@ export interface RepetitionRule {
    * `daysOfWeekPositions: [1, -1]` with `daysOfWeek: [1, 3]` (Mon, Wed)
    * → `BYDAY=1MO,1WE,-1MO,-1WE` ("first Monday, first Wednesday, last Monday, last Wednesday")
    *
-   * Only valid when `frequency` is `"monthly"`.
+   * Only valid when `frequency` is `"monthly"` or `"yearly"`.
    */
   daysOfWeekPositions?: number[] | undefined;
   /**
-   * Month-of-year values for `BYMONTH=` in YEARLY recurrences.
+   * BYDAY entries that aren't a positions × days cross-product, such as
+   * `1MO,FR` (first Monday and every Friday). Use instead of `daysOfWeek`.
+   */
+  weekdays?: RepetitionWeekday[] | undefined;
+  /**
+   * Month-of-year values for `BYMONTH=`.
    *
    * Values must be integers in `[1, 12]` (1 = January, 12 = December).
-   * Only valid when `frequency` is `"yearly"`.
    *
    * @example `monthsOfYear: [3, 6, 9, 12]` → `BYMONTH=3,6,9,12`
    */
   monthsOfYear?: number[] | undefined;
+  /**
+   * Several days of the month for `BYMONTHDAY=`, negative counting from the
+   * end (`-1` = last day). Use instead of `dayOfMonth`.
+   */
+  daysOfMonth?: number[] | undefined;
+  /** `BYYEARDAY=`: days of the year, `[-366, -1] ∪ [1, 366]`. Not valid for daily, weekly or monthly. */
+  daysOfYear?: number[] | undefined;
+  /** `BYWEEKNO=`: weeks of the year, `[-53, -1] ∪ [1, 53]`. Yearly only. */
+  weeksOfYear?: number[] | undefined;
+  /** `BYHOUR=`: hours, `[0, 23]`. */
+  hours?: number[] | undefined;
+  /** `BYMINUTE=`: minutes, `[0, 59]`. */
+  minutes?: number[] | undefined;
+  /** `BYSECOND=`: seconds, `[0, 60]`. */
+  seconds?: number[] | undefined;
+  /**
+   * `BYSETPOS=`: which of each period's occurrences to keep, `1` = first,
+   * `-1` = last. Requires another BY* part.
+   */
+  setPositions?: number[] | undefined;
+  /** `WKST=`: the day weeks start on (0=Sunday..6=Saturday). Default: Monday. */
+  weekStart?: number | undefined;
+  /** `COUNT=`: stop after this many occurrences. Not with `until`. */
+  count?: number | undefined;
+  /**
+   * `UNTIL=`: last possible occurrence (inclusive), as an ISO 8601 date or
+   * date-time. Not with `count`.
+   */
+  until?: string | undefined;
+  /**
+   * `EXDATE` exclusions, as ISO 8601 date-times (skip that instant) or dates
+   * (skip that UTC day). Excluded occurrences still count towards `count`.
+   * Not part of the RRULE, so `buildRRule` doesn't emit them.
+   */
+  exceptDates?: string[] | undefined;
+}
+
+/**
+ * One BYDAY entry: a weekday (0=Sunday..6=Saturday), optionally the Nth
+ * (negative: from the end) within the month or year.
+ */
+export interface RepetitionWeekday {
+  day: number;
+  position?: number | undefined;
 }
 
 // SearchOptions has moved to `./commands/search.js` where it extends
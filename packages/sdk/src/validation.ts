@@ -174,6 +174,18 @@ export function validateRepetitionRule(
         dayOfMonth?: number | undefined;
         daysOfWeekPositions?: number[] | undefined;
         monthsOfYear?: number[] | undefined;
+        weekdays?: { day: number; position?: number | undefined }[] | undefined;
+        daysOfMonth?: number[] | undefined;
+        daysOfYear?: number[] | undefined;
+        weeksOfYear?: number[] | undefined;
+        hours?: number[] | undefined;
+        minutes?: number[] | undefined;
+        seconds?: number[] | undefined;
+        setPositions?: number[] | undefined;
+        weekStart?: number | undefined;
+        count?: number | undefined;
+        until?: string | undefined;
+        exceptDates?: string[] | undefined;
       }
     | undefined
 ): CliError | null {
@@ -181,12 +193,20 @@ export function validateRepetitionRule(
     return null;
   }
 
-  const validFrequencies = ["daily", "weekly", "monthly", "yearly"];
+  const validFrequencies = [
+    "secondly",
+    "minutely",
+    "hourly",
+    "daily",
+    "weekly",
+    "monthly",
+    "yearly",
+  ];
   if (!validFrequencies.includes(rule.frequency)) {
     return createError(
       ErrorCode.VALIDATION_ERROR,
       `Invalid repetition frequency: ${rule.frequency}`,
-      "Valid frequencies are: daily, weekly, monthly, yearly"
+      `Valid frequencies are: ${validFrequencies.join(", ")}`
     );
   }
 
@@ -239,13 +259,29 @@ export function validateRepetitionRule(
     }
   }
 
-  // daysOfWeekPositions is only valid for monthly frequency
+  // Nth-weekday positions count within the month, or within the year for
+  // a yearly rule without BYMONTH (RFC 5545 §3.3.10).
+  const positionLimit =
+    rule.frequency === "yearly" && rule.monthsOfYear === undefined ? 53 : 5;
+  const positionError = (pos: number): CliError | null =>
+    !Number.isInteger(pos) ||
+    pos === 0 ||
+    pos < -positionLimit ||
+    pos > positionLimit
+      ? createError(
+          ErrorCode.VALIDATION_ERROR,
+          `Invalid day-of-week position: ${String(pos)}`,
+          `Positions must be integers in [-${String(positionLimit)}, -1] ∪ [1, ${String(positionLimit)}] (RFC 5545)`
+        )
+      : null;
+
+  // daysOfWeekPositions is only valid for monthly or yearly frequency
   if (rule.daysOfWeekPositions !== undefined) {
-    if (rule.frequency !== "monthly") {
+    if (rule.frequency !== "monthly" && rule.frequency !== "yearly") {
       return createError(
         ErrorCode.VALIDATION_ERROR,
-        "daysOfWeekPositions is only valid for monthly frequency",
-        "Positional BYDAY (e.g. 1MO for first Monday) only applies within a month"
+        "daysOfWeekPositions is only valid for monthly or yearly frequency",
+        "Positional BYDAY (e.g. 1MO for first Monday) only applies within a month or year"
       );
     }
     if (
@@ -258,13 +294,8 @@ export function validateRepetitionRule(
       );
     }
     for (const pos of rule.daysOfWeekPositions) {
-      if (!Number.isInteger(pos) || pos === 0 || pos < -5 || pos > 5) {
-        return createError(
-          ErrorCode.VALIDATION_ERROR,
-          `Invalid day-of-week position: ${String(pos)}`,
-          "Positions must be integers in [-5, -1] ∪ [1, 5] (RFC 5545)"
-        );
-      }
+      const error = positionError(pos);
+      if (error) return error;
     }
     if (rule.daysOfWeek === undefined || rule.daysOfWeek.length === 0) {
       return createError(
@@ -275,15 +306,42 @@ export function validateRepetitionRule(
     }
   }
 
-  // monthsOfYear is only valid for yearly frequency
-  if (rule.monthsOfYear !== undefined) {
-    if (rule.frequency !== "yearly") {
+  if (rule.weekdays !== undefined) {
+    if (rule.daysOfWeek !== undefined) {
+      return createError(
+        ErrorCode.VALIDATION_ERROR,
+        "weekdays and daysOfWeek are mutually exclusive",
+        "Both map to BYDAY; use weekdays for entries that are not a positions × days product"
+      );
+    }
+    if (!Array.isArray(rule.weekdays) || rule.weekdays.length === 0) {
       return createError(
         ErrorCode.VALIDATION_ERROR,
-        "monthsOfYear is only valid for yearly frequency",
-        "BYMONTH only applies to FREQ=YEARLY recurrences"
+        "weekdays must be a non-empty array"
       );
     }
+    for (const { day, position } of rule.weekdays) {
+      if (day < 0 || day > 6 || !Number.isInteger(day)) {
+        return createError(
+          ErrorCode.VALIDATION_ERROR,
+          `Invalid day of week: ${String(day)}`,
+          "Days of week must be integers 0-6 (Sunday=0, Saturday=6)"
+        );
+      }
+      if (position === undefined) continue;
+      if (rule.frequency !== "monthly" && rule.frequency !== "yearly") {
+        return createError(
+          ErrorCode.VALIDATION_ERROR,
+          "Weekday positions are only valid for monthly or yearly frequency",
+          "Positional BYDAY (e.g. 1MO for first Monday) only applies within a month or year"
+        );
+      }
+      const error = positionError(position);
+      if (error) return error;
+    }
+  }
+
+  if (rule.monthsOfYear !== undefined) {
     if (!Array.isArray(rule.monthsOfYear) || rule.monthsOfYear.length === 0) {
       return createError(
         ErrorCode.VALIDATION_ERROR,
@@ -301,6 +359,134 @@ export function validateRepetitionRule(
     }
   }
 
+  if (rule.dayOfMonth !== undefined && rule.daysOfMonth !== undefined) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "dayOfMonth and daysOfMonth are mutually exclusive",
+      "Both map to BYMONTHDAY; use daysOfMonth for several or negative days"
+    );
+  }
+
+  // The remaining BY-lists: [label, values, max, signed]. Signed lists count
+  // from the end with negative values and exclude 0.
+  const lists: [string, number[] | undefined, number, boolean][] = [
+    ["daysOfMonth", rule.daysOfMonth, 31, true],
+    ["daysOfYear", rule.daysOfYear, 366, true],
+    ["weeksOfYear", rule.weeksOfYear, 53, true],
+    ["setPositions", rule.setPositions, 366, true],
+    ["hours", rule.hours, 23, false],
+    ["minutes", rule.minutes, 59, false],
+    // 60 allows for a leap second.
+    ["seconds", rule.seconds, 60, false],
+  ];
+  for (const [label, values, max, signed] of lists) {
+    if (values === undefined) continue;
+    if (!Array.isArray(values) || values.length === 0) {
+      return createError(
+        ErrorCode.VALIDATION_ERROR,
+        `${label} must be a non-empty array`
+      );
+    }
+    for (const value of values) {
+      const valid = signed
+        ? value !== 0 && Math.abs(value) <= max
+        : value >= 0 && value <= max;
+      if (!Number.isInteger(value) || !valid) {
+        return createError(
+          ErrorCode.VALIDATION_ERROR,
+          `Invalid ${label} value: ${String(value)}`,
+          signed
+            ? `${label} must be integers in [-${String(max)}, -1] ∪ [1, ${String(max)}] (RFC 5545)`
+            : `${label} must be integers in [0, ${String(max)}] (RFC 5545)`
+        );
+      }
+    }
+  }
+
+  if (
+    rule.daysOfYear !== undefined &&
+    ["daily", "weekly", "monthly"].includes(rule.frequency)
+  ) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      `daysOfYear is not valid for ${rule.frequency} frequency`,
+      "BYYEARDAY only applies to yearly and sub-daily recurrences (RFC 5545)"
+    );
+  }
+
+  if (rule.weeksOfYear !== undefined && rule.frequency !== "yearly") {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "weeksOfYear is only valid for yearly frequency",
+      "BYWEEKNO only applies to FREQ=YEARLY recurrences"
+    );
+  }
+
+  if (
+    rule.setPositions !== undefined &&
+    rule.daysOfWeek === undefined &&
+    rule.weekdays === undefined &&
+    rule.dayOfMonth === undefined &&
+    rule.daysOfMonth === undefined &&
+    rule.monthsOfYear === undefined &&
+    rule.daysOfYear === undefined &&
+    rule.weeksOfYear === undefined &&
+    rule.hours === undefined &&
+    rule.minutes === undefined &&
+    rule.seconds === undefined
+  ) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "setPositions requires another BY-rule part",
+      "BYSETPOS selects from the set the other BY parts produce in each period"
+    );
+  }
+
+  if (
+    rule.weekStart !== undefined &&
+    (!Number.isInteger(rule.weekStart) ||
+      rule.weekStart < 0 ||
+      rule.weekStart > 6)
+  ) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid week start: ${String(rule.weekStart)}`,
+      "Week start must be an integer 0-6 (Sunday=0, Saturday=6)"
+    );
+  }
+
+  if (rule.count !== undefined && rule.until !== undefined) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      "count and until are mutually exclusive",
+      "RFC 5545 allows COUNT or UNTIL, not both"
+    );
+  }
+
+  if (
+    rule.count !== undefined &&
+    (!Number.isInteger(rule.count) || rule.count < 1)
+  ) {
+    return createError(
+      ErrorCode.VALIDATION_ERROR,
+      `Invalid repetition count: ${String(rule.count)}`,
+      "Count must be a positive integer"
+    );
+  }
+
+  for (const date of [
+    ...(rule.until === undefined ? [] : [rule.until]),
+    ...(rule.exceptDates ?? []),
+  ]) {
+    if (Number.isNaN(Date.parse(date))) {
+      return createError(
+        ErrorCode.INVALID_DATE_FORMAT,
+        `Invalid repetition date: ${date}`,
+        "until and exceptDates take ISO 8601 dates or date-times"
+      );
+    }
+  }
+
   return null;
 }
 
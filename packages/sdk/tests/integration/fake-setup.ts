@@ -0,0 +1,28 @@
+/**
+ * Integration setup for the in-memory transport.
+ *
+ * When the suite runs with `OFOCUS_TRANSPORT=fake` (see the
+ * `test:integration:fake` script), each test file gets a fresh fake database
+ * pre-populated with the kind of pre-existing data a real OmniFocus library
+ * always has — a sequential project with a blocked step and a completed
+ * task — since a few regression tests assert against "the live database".
+ * Against the real app this file does nothing.
+ */
+
+import { beforeAll } from "vitest";
+import { createFakeTransport, setOmniJSTransport } from "../../src/index.js";
+
+const SEED_SCRIPT = `
+var project = new Project("Sample sequential project");
+project.sequential = true;
+new Task("Sample first step", project.ending);
+new Task("Sample second step", project.ending);
+new Task("Sample completed task", inbox.ending).markComplete();
+"{}"`;
+
+beforeAll(async () => {
+  if (process.env["OFOCUS_TRANSPORT"] !== "fake") return;
+  const transport = createFakeTransport();
+  await transport.evaluate(SEED_SCRIPT);
+  setOmniJSTransport(transport);
+});
@@ -37,11 +37,12 @@ vi.mock("../../../src/omnijs.js", async () => {
   };
 });
 
-// Mock node:fs for attachments / templates
+// Mock node:fs for attachments / templates / virtual perspectives (none)
 vi.mock("node:fs", () => ({
   existsSync: vi.fn(() => true),
   statSync: vi.fn(() => ({ isFile: () => true })),
   readFileSync: vi.fn(() => Buffer.from("filedata")),
+  readdirSync: vi.fn(() => []),
 }));
 
 import {
@@ -16,8 +16,10 @@ vi.mock("../../../src/omnijs.js", () => ({
 // Import after mocking
 import {
   archiveTasks,
+  archiveTasksDescriptor,
   compactDatabase,
 } from "../../../src/commands/archive.js";
+import type { DryRunPlan } from "../../../src/dry-run/index.js";
 import { runOmniJSWrapped } from "../../../src/omnijs.js";
 
 const mockRunOmniJS = vi.mocked(runOmniJSWrapped);
@@ -219,6 +221,48 @@ describe("archiveTasks", () => {
   });
 });
 
+describe("archiveTasksDescriptor dry run", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("returns a plan with no changes, only a warning with the counts", async () => {
+    const plan = {
+      changes: [],
+      failed: [],
+      warnings: [
+        "Archiving makes no changes; OmniFocus archives on its own. Matching: 2 tasks, 1 completed or dropped project",
+      ],
+    };
+    mockRunOmniJS.mockResolvedValue({
+      success: true,
+      data: plan,
+    } as OmniJSResult<typeof plan>);
+
+    const result = await archiveTasksDescriptor.handler({
+      completedBefore: "2024-01-01",
+      project: "Work",
+      dryRun: true,
+    });
+
+    expect(result.data).toEqual({
+      dryRun: true,
+      command: "archiveTasks",
+      ...plan,
+    } satisfies DryRunPlan);
+    const body = mockRunOmniJS.mock.calls[0]?.[0] as string;
+    expect(body).toContain('t.containingProject.name === "Work"');
+    expect(body).toContain("__planWarn(");
+  });
+
+  it("validates the options before planning", async () => {
+    const result = await archiveTasksDescriptor.handler({ dryRun: true });
+
+    expect(result.error?.code).toBe(ErrorCode.VALIDATION_ERROR);
+    expect(mockRunOmniJS).not.toHaveBeenCalled();
+  });
+});
+
 describe("compactDatabase", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import * as os from "node:os";
+import { dirname, join } from "node:path";
+
+// Point the dependency store at a throwaway home directory
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: vi.fn(() => actual.homedir()) };
+});
+
+import {
+  createFakeTransport,
+  resetOmniJSTransport,
+  setOmniJSTransport,
+  type FakeOmniJSTransport,
+} from "../../../src/transport/index.js";
+import { wrapOmniJS } from "../../../src/omnijs.js";
+import type { DryRunPlan } from "../../../src/dry-run/index.js";
+import {
+  getDependenciesPath,
+  writeDependencies,
+} from "../../../src/dependencies/index.js";
+import {
+  addDependency,
+  removeDependency,
+  getTaskDependencies,
+  findDependencyCycles,
+  getCriticalPath,
+  addDependencyDescriptor,
+} from "../../../src/commands/dependencies.js";
+import { queryTasks } from "../../../src/commands/tasks.js";
+
+let home: string;
+let transport: FakeOmniJSTransport;
+/** Task and project ids by name. */
+let ids: Record<string, string>;
+
+beforeEach(async () => {
+  home = mkdtempSync(join(os.tmpdir(), "ofocus-dependencies-"));
+  vi.mocked(os.homedir).mockReturnValue(home);
+  transport = createFakeTransport();
+  setOmniJSTransport(transport);
+  const { stdout } = await transport.evaluate(
+    wrapOmniJS(`
+var launch = new Project("Launch");
+var design = new Task("Design", launch.ending);
+design.estimatedMinutes = 60;
+var build = new Task("Build", launch.ending);
+build.estimatedMinutes = 120;
+var test = new Task("Test", launch.ending);
+test.estimatedMinutes = 30;
+var docs = new Task("Docs", launch.ending);
+docs.estimatedMinutes = 45;
+var release = new Task("Release", launch.ending);
+release.sequential = true;
+var tag = new Task("Tag", release.ending);
+tag.estimatedMinutes = 5;
+var announce = new Task("Announce", release.ending);
+var other = new Task("Order swag");
+var ids = { Launch: launch.id.primaryKey };
+[design, build, test, docs, release, tag, announce, other].forEach(function(t) {
+  ids[t.name] = t.id.primaryKey;
+});
+return JSON.stringify(ids);`)
+  );
+  ids = JSON.parse(stdout) as Record<string, string>;
+});
+
+afterEach(() => {
+  resetOmniJSTransport();
+  rmSync(home, { recursive: true, force: true });
+});
+
+function id(name: string): string {
+  const value = ids[name];
+  if (value === undefined) throw new Error(`No fixture named ${name}`);
+  return value;
+}
+
+describe("dependencies", () => {
+  it("stores blocked-by links keyed by task id", async () => {
+    const result = await addDependency(id("Build"), id("Design"));
+    expect(result.data).toEqual({
+      taskId: id("Build"),
+      blockedById: id("Design"),
+      added: true,
+      path: getDependenciesPath(),
+    });
+
+    const again = await addDependency(id("Build"), id("Design"));
+    expect(again.data?.added).toBe(false);
+
+    const file = JSON.parse(readFileSync(getDependenciesPath(), "utf-8")) as {
+      blockedBy: Record<string, string[]>;
+    };
+    expect(file.blockedBy).toEqual({ [id("Build")]: [id("Design")] });
+  });
+
+  it("rejects self-links, unknown tasks and cycles", async () => {
+    const self = await addDependency(id("Build"), id("Build"));
+    expect(self.error?.code).toBe("VALIDATION_ERROR");
+
+    const missing = await addDependency(id("Build"), "nope");
+    expect(missing.error?.code).toBe("TASK_NOT_FOUND");
+    expect(missing.error?.message).toBe("Task not found: nope");
+
+    await addDependency(id("Build"), id("Design"));
+    await addDependency(id("Test"), id("Build"));
+    const cycle = await addDependency(id("Design"), id("Test"));
+    expect(cycle.error?.message).toBe(
+      `Dependency would create a cycle: ${[
+        id("Design"),
+        id("Test"),
+        id("Build"),
+        id("Design"),
+      ].join(" → ")}`
+    );
+  });
+
+  it("lists blockers and dependents with their status", async () => {
+    await addDependency(id("Build"), id("Design"));
+    await addDependency(id("Test"), id("Build"));
+
+    const build = await getTaskDependencies(id("Build"));
+    expect(build.data).toEqual({
+      task: { id: id("Build"), name: "Build", status: "open" },
+      blockers: [{ id: id("Design"), name: "Design", status: "open" }],
+      dependents: [{ id: id("Test"), name: "Test", status: "open" }],
+      blocked: true,
+    });
+
+    await transport.evaluate(
+      wrapOmniJS(
+        `Task.byIdentifier("${id("Design")}").markComplete(); return "{}";`
+      )
+    );
+    const after = await getTaskDependencies(id("Build"));
+    expect(after.data?.blockers[0]?.status).toBe("completed");
+    expect(after.data?.blocked).toBe(false);
+  });
+
+  it("removes links, and previews changes without writing", async () => {
+    const plan = await addDependencyDescriptor.handler({
+      taskId: id("Build"),
+      blockedBy: id("Design"),
+      dryRun: true,
+    });
+    expect((plan.data as DryRunPlan).changes).toEqual([
+      expect.objectContaining({ action: "create", entity: "dependency" }),
+    ]);
+    expect(existsSync(getDependenciesPath())).toBe(false);
+
+    await addDependency(id("Build"), id("Design"));
+    expect(removeDependency(id("Build"), id("Design")).data?.removed).toBe(
+      true
+    );
+    expect(removeDependency(id("Build"), id("Design")).error?.message).toBe(
+      `Task ${id("Build")} is not blocked by ${id("Design")}`
+    );
+    expect((await getTaskDependencies(id("Build"))).data?.blockers).toEqual([]);
+  });
+
+  it("finds cycles in a hand-edited store", () => {
+    writeDependencies({
+      version: 1,
+      blockedBy: { b: ["a"], a: ["c"], c: ["b"], d: ["a"] },
+    });
+    expect(findDependencyCycles().data).toEqual({
+      cycles: [["a", "c", "b"]],
+      linkCount: 4,
+    });
+  });
+
+  it("computes the critical path from estimates, links and sequential groups", async () => {
+    await addDependency(id("Build"), id("Design"));
+    await addDependency(id("Test"), id("Build"));
+    await addDependency(id("Release"), id("Test"));
+    // Links to tasks outside the project are ignored.
+    await addDependency(id("Docs"), id("Order swag"));
+
+    const result = await getCriticalPath(id("Launch"));
+    expect(result.data).toMatchObject({
+      projectName: "Launch",
+      totalMinutes: 215,
+      taskCount: 6,
+      unestimatedTaskIds: [id("Announce")],
+    });
+    expect(result.data?.path.map((s) => [s.name, s.start, s.finish])).toEqual([
+      ["Design", 0, 60],
+      ["Build", 60, 180],
+      ["Test", 180, 210],
+      ["Tag", 210, 215],
+    ]);
+  });
+
+  it("reports a cycle that blocks scheduling", async () => {
+    await addDependency(id("Tag"), id("Docs"));
+    await addDependency(id("Docs"), id("Announce"));
+
+    const result = await getCriticalPath(id("Launch"));
+    expect(result.error?.message).toMatch(
+      /^Dependencies in project form a cycle: /
+    );
+  });
+
+  it("lets the blocked predicate honor links when asked", async () => {
+    await addDependency(id("Build"), id("Design"));
+
+    const names = async (honorDependencies: boolean): Promise<string[]> => {
+      const result = await queryTasks({
+        blocked: true,
+        honorDependencies,
+        fields: ["name"],
+        sort: ["name"],
+      });
+      return result.data?.kind === "list"
+        ? result.data.items.map((t) => t.name)
+        : [];
+    };
+    expect(await names(false)).toEqual(["Announce"]);
+    expect(await names(true)).toEqual(["Announce", "Build"]);
+
+    const where = await queryTasks({
+      where: "not blocked and project:Launch",
+      honorDependencies: true,
+      fields: ["name"],
+      sort: ["name"],
+    });
+    expect(
+      where.data?.kind === "list" ? where.data.items.map((t) => t.name) : []
+    ).toEqual(["Design", "Docs", "Release", "Tag", "Test"]);
+  });
+
+  it("reports a corrupt store instead of throwing", async () => {
+    mkdirSync(dirname(getDependenciesPath()), { recursive: true });
+    writeFileSync(getDependenciesPath(), "{ not json", "utf-8");
+
+    const added = await addDependency(id("Build"), id("Design"));
+    expect(added.error?.code).toBe("VALIDATION_ERROR");
+    expect(added.error?.message).toContain(
+      `Invalid dependencies file ${getDependenciesPath()}`
+    );
+    expect(readFileSync(getDependenciesPath(), "utf-8")).toBe("{ not json");
+
+    const blocked = await queryTasks({
+      blocked: true,
+      honorDependencies: true,
+    });
+    expect(blocked.success).toBe(false);
+    expect(blocked.error?.message).toContain("Invalid dependencies file");
+    expect(
+      (await queryTasks({ blocked: true, fields: ["name"] })).data
+    ).toMatchObject({ kind: "list", items: [{ name: "Announce" }] });
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdtempSync, rmSync } from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+
+// Point the journal and templates at a throwaway home directory
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: vi.fn(() => actual.homedir()) };
+});
+
+import {
+  createFakeTransport,
+  resetOmniJSTransport,
+  setOmniJSTransport,
+  type FakeOmniJSTransport,
+} from "../../../src/transport/index.js";
+import { wrapOmniJS } from "../../../src/omnijs.js";
+import type { DryRunPlan } from "../../../src/dry-run/index.js";
+import { addToInboxDescriptor } from "../../../src/commands/inbox.js";
+import { updateTaskDescriptor } from "../../../src/commands/update.js";
+import { deleteTasksDescriptor } from "../../../src/commands/batch.js";
+import { deleteProjectDescriptor } from "../../../src/commands/projects-crud.js";
+import { deleteTagDescriptor } from "../../../src/commands/tags-crud.js";
+import { importTaskPaperDescriptor } from "../../../src/commands/taskpaper.js";
+import {
+  saveTemplate,
+  deleteTemplateDescriptor,
+} from "../../../src/commands/templates.js";
+import { updateTask } from "../../../src/commands/update.js";
+import { undoDescriptor } from "../../../src/commands/undo.js";
+import { archiveTasksDescriptor } from "../../../src/commands/archive.js";
+import { readJournal, type Journal } from "../../../src/journal/index.js";
+
+let home: string;
+let transport: FakeOmniJSTransport;
+
+/** Run a wrapped body against the fake and parse its JSON result. */
+async function run<T>(body: string): Promise<T> {
+  const { stdout } = await transport.evaluate(wrapOmniJS(body));
+  return JSON.parse(stdout) as T;
+}
+
+function taskNamed(name: string) {
+  return Object.values(transport.document.tasks).find((t) => t.name === name);
+}
+
+function asPlan(data: unknown): DryRunPlan {
+  return data as DryRunPlan;
+}
+
+beforeEach(async () => {
+  home = mkdtempSync(join(os.tmpdir(), "ofocus-dry-run-"));
+  vi.mocked(os.homedir).mockReturnValue(home);
+  transport = createFakeTransport();
+  setOmniJSTransport(transport);
+  await run(`
+var errands = new Tag("Errands");
+var home = new Project("Home");
+var paint = new Task("Paint fence", home.ending);
+new Task("Buy paint", paint.ending);
+var milk = new Task("Buy milk");
+milk.addTag(errands);
+new Task("Call plumber");
+return "{}";`);
+});
+
+afterEach(() => {
+  resetOmniJSTransport();
+  rmSync(home, { recursive: true, force: true });
+});
+
+describe("dry-run previews", () => {
+  it("plans an inbox task with resolved values and warns about unknown tags", async () => {
+    const before = Object.keys(transport.document.tasks).length;
+    const result = await addToInboxDescriptor.handler({
+      title: "Renew passport",
+      flag: true,
+      due: "2026-03-20",
+      tags: ["Errands", "Travel"],
+      dryRun: true,
+    });
+
+    expect(result.success).toBe(true);
+    const plan = asPlan(result.data);
+    expect(plan).toMatchObject({ dryRun: true, command: "addToInbox" });
+    expect(plan.changes).toHaveLength(1);
+    expect(plan.changes[0]).toMatchObject({
+      action: "create",
+      entity: "task",
+      id: null,
+      name: "Renew passport",
+    });
+    const fields = Object.fromEntries(
+      plan.changes[0]?.fields.map((f) => [f.field, f.after]) ?? []
+    );
+    expect(fields["flagged"]).toBe(true);
+    expect(fields["tags"]).toEqual(["Errands"]);
+    expect(typeof fields["dueDate"]).toBe("string");
+    expect(plan.warnings).toEqual(["Tag not found, would be skipped: Travel"]);
+    expect(Object.keys(transport.document.tasks)).toHaveLength(before);
+  });
+
+  it("reports only the fields an update would change and writes nothing", async () => {
+    const milk = taskNamed("Buy milk");
+    const result = await updateTaskDescriptor.handler({
+      taskId: milk?.id ?? "",
+      title: "Buy oat milk",
+      flag: false,
+      dryRun: true,
+    });
+
+    const plan = asPlan(result.data);
+    expect(plan.changes).toEqual([
+      {
+        action: "update",
+        entity: "task",
+        id: milk?.id,
+        name: "Buy milk",
+        fields: [{ field: "name", before: "Buy milk", after: "Buy oat milk" }],
+      },
+    ]);
+    expect(taskNamed("Buy milk")).toBeDefined();
+    expect(existsSync(join(home, ".config", "ofocus", "journal.json"))).toBe(
+      false
+    );
+  });
+
+  it("lists subtasks of deleted tasks and reports missing ids as failed", async () => {
+    const paint = taskNamed("Paint fence");
+    const result = await deleteTasksDescriptor.handler({
+      taskIds: [paint?.id ?? "", "doesNotExist"],
+      dryRun: true,
+    });
+
+    const plan = asPlan(result.data);
+    expect(plan.changes.map((c) => [c.action, c.name])).toEqual([
+      ["delete", "Paint fence"],
+      ["delete", "Buy paint"],
+    ]);
+    expect(plan.failed).toEqual([
+      { id: "doesNotExist", error: "Task not found: doesNotExist" },
+    ]);
+    expect(taskNamed("Paint fence")).toBeDefined();
+  });
+
+  it("fails like the real command when the target does not exist", async () => {
+    const result = await deleteProjectDescriptor.handler({
+      projectId: "doesNotExist",
+      dryRun: true,
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("PROJECT_NOT_FOUND");
+  });
+
+  it("shows the tasks that would lose a deleted tag", async () => {
+    const errands = Object.values(transport.document.tags).find(
+      (t) => t.name === "Errands"
+    );
+    const result = await deleteTagDescriptor.handler({
+      tagId: errands?.id ?? "",
+      dryRun: true,
+    });
+
+    const plan = asPlan(result.data);
+    expect(plan.changes).toEqual([
+      expect.objectContaining({ action: "delete", entity: "tag" }),
+      expect.objectContaining({
+        action: "update",
+        name: "Buy milk",
+        fields: [{ field: "tags", before: ["Errands"], after: [] }],
+      }),
+    ]);
+  });
+
+  it("reports TaskPaper tasks whose project would not exist", async () => {
+    const result = await importTaskPaperDescriptor.handler({
+      content: "Garden:\n\t- Plant tulips @flagged\nHome:\n\t- Fix gate\n",
+      dryRun: true,
+    });
+
+    const plan = asPlan(result.data);
+    expect(plan.changes.map((c) => [c.action, c.entity, c.name])).toEqual([
+      ["create", "task", "Fix gate"],
+    ]);
+    expect(plan.failed).toEqual([
+      { id: "Garden", error: "Project not found: Garden" },
+    ]);
+  });
+
+  it("previews deleting a template without removing the file", async () => {
+    await saveTemplate({ name: "House", sourceProject: "Home" });
+    const result = await deleteTemplateDescriptor.handler({
+      templateName: "House",
+      dryRun: true,
+    });
+
+    expect(asPlan(result.data).changes[0]).toMatchObject({
+      action: "delete",
+      entity: "template",
+      name: "House",
+    });
+    expect(
+      existsSync(join(home, ".config", "ofocus", "templates", "House.json"))
+    ).toBe(true);
+  });
+
+  it("previews an archive as no changes, with what matches", async () => {
+    await run(`
+flattenedTasks.byName("Call plumber").markComplete(new Date("2024-01-10T00:00:00Z"));
+flattenedTasks.byName("Buy milk").markComplete(new Date("2024-03-01T00:00:00Z"));
+return "{}";`);
+
+    const result = await archiveTasksDescriptor.handler({
+      completedBefore: "2024-02-01",
+      dryRun: true,
+    });
+
+    expect(asPlan(result.data).changes).toEqual([]);
+    expect(asPlan(result.data).warnings).toEqual([
+      "Archiving makes no changes; OmniFocus archives on its own. Matching: 1 task, 0 completed or dropped projects",
+    ]);
+    expect(taskNamed("Call plumber")).toBeDefined();
+  });
+
+  it("previews an undo and leaves the journal untouched", async () => {
+    const milk = taskNamed("Buy milk");
+    await updateTask(milk?.id ?? "", { title: "Buy oat milk" });
+
+    const result = await undoDescriptor.handler({ dryRun: true });
+
+    expect(asPlan(result.data).changes).toEqual([
+      {
+        action: "update",
+        entity: "task",
+        id: milk?.id,
+        name: "Buy oat milk",
+        fields: [{ field: "name", before: "Buy oat milk", after: "Buy milk" }],
+      },
+    ]);
+    expect(taskNamed("Buy oat milk")).toBeDefined();
+    expect((readJournal() as Journal).undo).toHaveLength(1);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { ErrorCode } from "../../../src/errors.js";
 import type { OmniJSResult } from "../../../src/omnijs.js";
 import type { OFTask } from "../../../src/types.js";
@@ -143,52 +143,69 @@ describe("queryForecast", () => {
     });
   });
 
-  describe("includeDeferred option — dueOrDeferWithin vs dueWithin", () => {
+  describe("calendar-day window", () => {
     beforeEach(() => {
       mockRunOmniJS.mockResolvedValue({
         success: true,
         data: createMockListResult([]),
       } as OmniJSResult<QueryResult<OFTask>>);
+      vi.useFakeTimers({ now: new Date("2024-03-08T20:00:00Z") });
     });
 
-    it("when includeDeferred: false (default) → dueWithin predicate (dueDate only)", async () => {
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.unstubAllEnvs();
+    });
+
+    it("runs from midnight today for `days` days in UTC by default", async () => {
       await queryForecast({ days: 7 });
 
       const body = getScriptBody();
-      // dueWithin emits a condition checking t.dueDate against the cutoff
-      expect(body).toContain("t.dueDate");
-      // dueOrDeferWithin emits an OR condition with both t.dueDate and t.deferDate;
-      // when includeDeferred is false, we must not have the OR pattern
-      expect(body).not.toMatch(/t\.dueDate.*\|\|.*t\.deferDate/);
+      expect(body).toContain(
+        '(t.dueDate != null && t.dueDate >= new Date("2024-03-08T00:00:00.000Z") && t.dueDate < new Date("2024-03-15T00:00:00.000Z"))'
+      );
+      expect(body).not.toContain("t.deferDate >=");
     });
 
-    it("when includeDeferred: true → dueOrDeferWithin predicate (dueDate OR deferDate within window)", async () => {
-      await queryForecast({ days: 7, includeDeferred: true });
+    it("counts days in timeZone, across a DST change", async () => {
+      // US clocks spring forward on 2024-03-10, so later days start at 07:00Z
+      await queryForecast({ days: 3, timeZone: "America/Los_Angeles" });
 
-      const body = getScriptBody();
-      // dueOrDeferWithin emits an OR expression covering both dates
-      expect(body).toContain("t.dueDate");
-      expect(body).toContain("t.deferDate");
-      expect(body).toMatch(/t\.dueDate.*\|\|.*t\.deferDate/s);
+      expect(getScriptBody()).toContain(
+        't.dueDate >= new Date("2024-03-08T08:00:00.000Z") && t.dueDate < new Date("2024-03-11T07:00:00.000Z")'
+      );
     });
 
-    it("uses default 7d window when days is not specified", async () => {
-      // The cutoff date is computed from Date.now() + 7*86400000; we cannot
-      // assert the exact ISO string without mocking the clock, but the script
-      // body must reference the filter expression (either via dueWithin or
-      // dueOrDeferWithin).
-      await queryForecast();
+    it("reads OFOCUS_TIME_ZONE and rejects an unknown zone", async () => {
+      vi.stubEnv("OFOCUS_TIME_ZONE", "Asia/Tokyo");
+      await queryForecast({ days: 1 });
+      // 20:00Z on the 8th is already the 9th in Tokyo
+      expect(getScriptBody()).toContain(
+        't.dueDate >= new Date("2024-03-08T15:00:00.000Z") && t.dueDate < new Date("2024-03-09T15:00:00.000Z")'
+      );
+
+      const result = await queryForecast({ timeZone: "Mars/Olympus" });
+      expect(result.error?.code).toBe(ErrorCode.VALIDATION_ERROR);
+      expect(result.error?.message).toBe("Unknown time zone: Mars/Olympus");
+    });
+
+    it("when includeDeferred: true → dueDate OR deferDate in the window", async () => {
+      await queryForecast({ days: 7, includeDeferred: true });
 
-      expect(getScriptBody()).toContain("t.dueDate");
+      const body = getScriptBody();
+      expect(body).toMatch(/t\.dueDate >= .*\|\| .*t\.deferDate >= /s);
     });
 
-    it("respects custom days value (14 days → 14d duration)", async () => {
-      // The query layer compiles dueWithin: "14d" for days=14. We cannot assert
-      // the exact date without clock control, but the script body must be
-      // generated without errors.
-      await queryForecast({ days: 14 });
+    it("buckets --group-by dueBucket by the zone's days", async () => {
+      await queryForecast({ groupBy: "dueBucket", timeZone: "Asia/Tokyo" });
 
-      expect(getScriptBody()).toContain("t.dueDate");
+      const body = getScriptBody();
+      expect(body).toContain(
+        'var todayStart = new Date("2024-03-08T15:00:00.000Z")'
+      );
+      expect(body).toContain(
+        'var weekEnd = new Date("2024-03-15T15:00:00.000Z")'
+      );
     });
   });
 
@@ -0,0 +1,481 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import * as os from "node:os";
+import { dirname, join } from "node:path";
+
+// Point the UID map at a throwaway home directory
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: vi.fn(() => actual.homedir()) };
+});
+
+import {
+  createFakeTransport,
+  resetOmniJSTransport,
+  setOmniJSTransport,
+  type FakeOmniJSTransport,
+} from "../../../src/transport/index.js";
+import { wrapOmniJS } from "../../../src/omnijs.js";
+import type { DryRunPlan } from "../../../src/dry-run/index.js";
+import {
+  exportICal,
+  importICal,
+  importICalDescriptor,
+  getICalImportsPath,
+  parseICalBusy,
+} from "../../../src/commands/ical.js";
+
+let home: string;
+let transport: FakeOmniJSTransport;
+/** Task ids by name. */
+let ids: Record<string, string>;
+
+beforeEach(async () => {
+  home = mkdtempSync(join(os.tmpdir(), "ofocus-ical-"));
+  vi.mocked(os.homedir).mockReturnValue(home);
+  transport = createFakeTransport();
+  setOmniJSTransport(transport);
+  const { stdout } = await transport.evaluate(
+    wrapOmniJS(`
+var work = new Tag("work");
+var home = new Tag("home, garden");
+var launch = new Project("Launch");
+var review = new Task("Review; sign off", launch.ending);
+review.dueDate = new Date("2030-01-15T17:00:00.000Z");
+review.deferDate = new Date("2030-01-14T09:00:00.000Z");
+review.estimatedMinutes = 90;
+review.note = "Bring the deck\\nand the budget";
+review.flagged = true;
+review.addTag(work);
+review.addTag(home);
+var standup = new Task("Standup", launch.ending);
+standup.dueDate = new Date("2030-01-13T09:30:00.000Z");
+standup.estimatedMinutes = 15;
+standup.repetitionRule = new Task.RepetitionRule("FREQ=WEEKLY;BYDAY=MO", Task.RepetitionMethod.DueDate);
+var read = new Task("Read report");
+read.deferDate = new Date("2030-01-20T08:00:00.000Z");
+read.estimatedMinutes = 30;
+new Task("Someday");
+var done = new Task("Done already");
+done.dueDate = new Date("2030-01-10T12:00:00.000Z");
+done.markComplete();
+var ids = {};
+[review, standup, read].forEach(function(t) { ids[t.name] = t.id.primaryKey; });
+return JSON.stringify(ids);`)
+  );
+  ids = JSON.parse(stdout) as Record<string, string>;
+});
+
+afterEach(() => {
+  resetOmniJSTransport();
+  rmSync(home, { recursive: true, force: true });
+});
+
+/** Unfold content lines and return the component blocks, DTSTAMP removed. */
+function components(content: string): string[][] {
+  const lines = content
+    .replace(/\r\n /g, "")
+    .split("\r\n")
+    .filter((l) => l !== "" && !l.startsWith("DTSTAMP:"));
+  const blocks: string[][] = [];
+  let block: string[] | null = null;
+  for (const line of lines) {
+    if (/^BEGIN:V(TODO|EVENT)$/.test(line)) block = [];
+    block?.push(line);
+    if (block !== null && /^END:V(TODO|EVENT)$/.test(line)) {
+      blocks.push(block);
+      block = null;
+    }
+  }
+  return blocks;
+}
+
+describe("exportICal", () => {
+  it("exports open due tasks as VTODOs", async () => {
+    const result = await exportICal();
+    expect(result.success).toBe(true);
+    const data = result.data;
+    expect(data).toMatchObject({
+      component: "vtodo",
+      taskCount: 2,
+      repeatingCount: 1,
+    });
+
+    const content = data?.content ?? "";
+    expect(content.startsWith("BEGIN:VCALENDAR\r\nVERSION:2.0\r\n")).toBe(true);
+    expect(content).toContain("X-WR-CALNAME:OmniFocus\r\n");
+    expect(content.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(content).toMatch(/\r\nDTSTAMP:\d{8}T\d{6}Z\r\n/);
+
+    expect(components(content)).toEqual([
+      [
+        "BEGIN:VTODO",
+        `UID:${ids["Standup"] ?? ""}@ofocus`,
+        "SUMMARY:Standup",
+        "DTSTART:20300113T093000Z",
+        "DUE:20300113T093000Z",
+        "STATUS:NEEDS-ACTION",
+        "RRULE:FREQ=WEEKLY;BYDAY=MO",
+        `URL:omnifocus:///task/${ids["Standup"] ?? ""}`,
+        "END:VTODO",
+      ],
+      [
+        "BEGIN:VTODO",
+        `UID:${ids["Review; sign off"] ?? ""}@ofocus`,
+        "SUMMARY:Review\\; sign off",
+        "DESCRIPTION:Bring the deck\\nand the budget",
+        "CATEGORIES:work,home\\, garden",
+        "PRIORITY:1",
+        "DTSTART:20300114T090000Z",
+        "DUE:20300115T170000Z",
+        "STATUS:NEEDS-ACTION",
+        `URL:omnifocus:///task/${ids["Review; sign off"] ?? ""}`,
+        "END:VTODO",
+      ],
+    ]);
+  });
+
+  it("includes deferred-only tasks with their estimate as a duration", async () => {
+    const result = await exportICal({ includeDeferred: true });
+    const read = components(result.data?.content ?? "").find((c) =>
+      c.includes("SUMMARY:Read report")
+    );
+    expect(read).toEqual([
+      "BEGIN:VTODO",
+      `UID:${ids["Read report"] ?? ""}@ofocus`,
+      "SUMMARY:Read report",
+      "DTSTART:20300120T080000Z",
+      "DURATION:PT30M",
+      "STATUS:NEEDS-ACTION",
+      `URL:omnifocus:///task/${ids["Read report"] ?? ""}`,
+      "END:VTODO",
+    ]);
+    expect(result.data?.taskCount).toBe(3);
+  });
+
+  it("exports VEVENTs starting at the due date and lasting the estimate", async () => {
+    const result = await exportICal({
+      component: "vevent",
+      project: "Launch",
+      calendarName: "Team deadlines",
+    });
+    const content = result.data?.content ?? "";
+    expect(content).toContain("X-WR-CALNAME:Team deadlines\r\n");
+    const [standup, review] = components(content);
+    expect(standup).toContain("DTSTART:20300113T093000Z");
+    expect(standup).toContain("DURATION:PT15M");
+    expect(standup).toContain("RRULE:FREQ=WEEKLY;BYDAY=MO");
+    expect(review).toContain("DTSTART:20300115T170000Z");
+    expect(review).toContain("DURATION:PT1H30M");
+    expect(review).not.toContain("STATUS:NEEDS-ACTION");
+  });
+
+  it("folds long lines at 75 octets", async () => {
+    await transport.evaluate(
+      wrapOmniJS(`
+var t = new Task("${"Ünïcödé ".repeat(20)}");
+t.dueDate = new Date("2030-02-01T00:00:00.000Z");
+return "{}";`)
+    );
+    const content = (await exportICal()).data?.content ?? "";
+    for (const line of content.split("\r\n")) {
+      expect(Buffer.byteLength(line, "utf-8")).toBeLessThanOrEqual(75);
+    }
+    expect(content.replace(/\r\n /g, "")).toContain(
+      `SUMMARY:${"Ünïcödé ".repeat(20).trimEnd()}`
+    );
+  });
+
+  it("exports the forecast window when days is given", async () => {
+    await transport.evaluate(
+      wrapOmniJS(`
+var soon = new Task("Due soon");
+soon.dueDate = new Date(Date.now() + 2 * 86400000);
+return "{}";`)
+    );
+    const result = await exportICal({ days: 7 });
+    expect(result.data?.taskCount).toBe(1);
+    expect(result.data?.content).toContain("SUMMARY:Due soon\r\n");
+  });
+
+  it("rejects days combined with task filters", async () => {
+    const result = await exportICal({ days: 7, project: "Launch" });
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+  });
+});
+
+/** Read back tasks by name with the fields an import sets. */
+async function tasksNamed(
+  ...names: string[]
+): Promise<Record<string, unknown>[]> {
+  const { stdout } = await transport.evaluate(
+    wrapOmniJS(`
+var names = ${JSON.stringify(names)};
+return JSON.stringify(flattenedTasks.filter(function(t) {
+  return names.indexOf(t.name) !== -1;
+}).map(function(t) {
+  return {
+    id: t.id.primaryKey,
+    name: t.name,
+    note: t.note || null,
+    flagged: t.flagged,
+    project: t.containingProject ? t.containingProject.name : null,
+    dueDate: t.dueDate ? t.dueDate.toISOString() : null,
+    deferDate: t.deferDate ? t.deferDate.toISOString() : null,
+    estimatedMinutes: t.estimatedMinutes,
+    tags: t.tags.map(function(tg) { return tg.name; }),
+    repetitionRule: t.repetitionRule ? t.repetitionRule.ruleString : null
+  };
+}));`)
+  );
+  return JSON.parse(stdout) as Record<string, unknown>[];
+}
+
+const CALENDAR = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "PRODID:-//Example//Calendar//EN",
+  "BEGIN:VTODO",
+  "UID:todo-1@example.com",
+  "SUMMARY:Write agenda\\, v2",
+  "DESCRIPTION:Line one\\nLine two",
+  "DUE:20300301T170000Z",
+  "DTSTART;TZID=America/New_York:20300228T090000",
+  "DURATION:PT1H15M",
+  "CATEGORIES:work,Missing",
+  "PRIORITY:1",
+  "RRULE:FREQ=WEEKLY;BYDAY=FR",
+  "BEGIN:VALARM",
+  "ACTION:DISPLAY",
+  "DESCRIPTION:Reminder",
+  "TRIGGER:-PT15M",
+  "END:VALARM",
+  "END:VTODO",
+  "BEGIN:VTODO",
+  "UID:todo-2@example.com",
+  "SUMMARY:Already done",
+  "STATUS:COMPLETED",
+  "END:VTODO",
+  "BEGIN:VTODO",
+  "UID:todo-3@example.com",
+  "SUMMARY:Pay invoice with a rather long name that has to be folded over",
+  "  two lines",
+  "DUE;VALUE=DATE:20300315",
+  "RRULE:FREQ=DAILY;BYEASTER=0",
+  "END:VTODO",
+  "BEGIN:VEVENT",
+  "UID:event-1@example.com",
+  "SUMMARY:Board meeting",
+  "DTSTART:20300305T140000Z",
+  "DTEND:20300305T160000Z",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "UID:event-2@example.com",
+  "SUMMARY:Lunch",
+  "DTSTART:20300305T120000Z",
+  "END:VEVENT",
+  "END:VCALENDAR",
+  "",
+].join("\r\n");
+
+describe("importICal", () => {
+  it("creates tasks from VTODOs, mapping dates, tags and repetition", async () => {
+    const result = await importICal(CALENDAR);
+    expect(result.data).toEqual({
+      tasksCreated: 2,
+      tasksUpdated: 0,
+      skipped: 3,
+      errors: [],
+      warnings: [
+        "todo-3@example.com: imported without repetition, unsupported RRULE FREQ=DAILY;BYEASTER=0",
+        "Tag not found, skipped: Missing",
+      ],
+    });
+
+    const [agenda] = await tasksNamed("Write agenda, v2");
+    expect(agenda).toMatchObject({
+      note: "Line one\nLine two",
+      flagged: true,
+      project: null,
+      dueDate: "2030-03-01T17:00:00.000Z",
+      // 09:00 in New York (EST, UTC−5)
+      deferDate: "2030-02-28T14:00:00.000Z",
+      estimatedMinutes: 75,
+      tags: ["work"],
+      repetitionRule: "FREQ=WEEKLY;BYDAY=FR",
+    });
+
+    const [invoice] = await tasksNamed(
+      "Pay invoice with a rather long name that has to be folded over two lines"
+    );
+    expect(invoice).toMatchObject({ repetitionRule: null, flagged: false });
+  });
+
+  it("imports selected VEVENTs as tasks due when the event starts", async () => {
+    await transport.evaluate(
+      wrapOmniJS(`new Project("Meetings"); return "{}";`)
+    );
+    const result = await importICal(CALENDAR, {
+      project: "Meetings",
+      eventFilter: "board",
+      eventPrefix: "Prep: ",
+    });
+    expect(result.data?.tasksCreated).toBe(3);
+    expect(result.data?.skipped).toBe(2);
+
+    expect(await tasksNamed("Prep: Board meeting")).toEqual([
+      expect.objectContaining({
+        project: "Meetings",
+        dueDate: "2030-03-05T14:00:00.000Z",
+        deferDate: null,
+        estimatedMinutes: null,
+      }),
+    ]);
+    expect(await tasksNamed("Prep: Lunch", "Lunch")).toEqual([]);
+  });
+
+  it("updates the tasks created from the same UIDs on re-import", async () => {
+    await importICal(CALENDAR);
+    const [first] = await tasksNamed("Write agenda, v2");
+    const map = JSON.parse(readFileSync(getICalImportsPath(), "utf-8")) as {
+      tasks: Record<string, string>;
+    };
+    expect(map.tasks["todo-1@example.com"]).toBe(first?.id);
+
+    const moved = CALENDAR.replace(
+      "DUE:20300301T170000Z",
+      "DUE:20300308T170000Z"
+    ).replace("SUMMARY:Write agenda\\, v2", "SUMMARY:Write agenda");
+    const again = await importICal(moved);
+    expect(again.data).toMatchObject({ tasksCreated: 0, tasksUpdated: 2 });
+
+    const tasks = await tasksNamed("Write agenda", "Write agenda, v2");
+    expect(tasks).toEqual([
+      expect.objectContaining({
+        id: first?.id,
+        name: "Write agenda",
+        dueDate: "2030-03-08T17:00:00.000Z",
+      }),
+    ]);
+  });
+
+  it("leaves tasks completed since the last import alone", async () => {
+    await importICal(CALENDAR);
+    await transport.evaluate(
+      wrapOmniJS(`
+flattenedTasks.byName("Pay invoice with a rather long name that has to be folded over two lines").markComplete();
+return "{}";`)
+    );
+    const again = await importICal(CALENDAR);
+    expect(again.data).toMatchObject({
+      tasksCreated: 0,
+      tasksUpdated: 1,
+      skipped: 4,
+    });
+  });
+
+  it("previews creates and updates without importing", async () => {
+    await importICal(CALENDAR);
+    const moved = CALENDAR.replace("DUE:20300301T170000Z", "");
+    const plan = await importICalDescriptor.handler({
+      content: moved,
+      dryRun: true,
+    });
+    const changes = (plan.data as DryRunPlan).changes;
+    expect(changes).toHaveLength(2);
+    expect(changes[0]).toMatchObject({
+      action: "update",
+      name: "Write agenda, v2",
+      fields: [
+        {
+          field: "dueDate",
+          before: "2030-03-01T17:00:00.000Z",
+          after: null,
+        },
+      ],
+    });
+    expect((await tasksNamed("Write agenda, v2"))[0]?.dueDate).toBe(
+      "2030-03-01T17:00:00.000Z"
+    );
+  });
+
+  it("fails when the target project doesn't exist", async () => {
+    const result = await importICal(CALENDAR, { project: "Nope" });
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("PROJECT_NOT_FOUND");
+  });
+
+  it("reports a corrupt UID map instead of throwing", async () => {
+    mkdirSync(dirname(getICalImportsPath()), { recursive: true });
+    writeFileSync(getICalImportsPath(), "{ not json", "utf-8");
+
+    const result = await importICal(CALENDAR);
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+    expect(result.error?.message).toContain(
+      `Invalid iCalendar import file ${getICalImportsPath()}`
+    );
+    const plan = await importICalDescriptor.handler({
+      content: CALENDAR,
+      dryRun: true,
+    });
+    expect(plan.error?.code).toBe("VALIDATION_ERROR");
+    expect(await tasksNamed("Write agenda, v2")).toEqual([]);
+    expect(readFileSync(getICalImportsPath(), "utf-8")).toBe("{ not json");
+  });
+});
+
+describe("parseICalBusy", () => {
+  it("reads timed, opaque events as busy blocks in start order", () => {
+    const calendar = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VEVENT",
+      "SUMMARY:Lunch",
+      "DTSTART;TZID=America/New_York:20300301T120000",
+      "DURATION:PT1H",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "SUMMARY:Standup\\, daily",
+      "DTSTART:20300301T140000Z",
+      "DTEND:20300301T141500Z",
+      "BEGIN:VALARM",
+      "TRIGGER:-PT5M",
+      "END:VALARM",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "SUMMARY:Holiday",
+      "DTSTART;VALUE=DATE:20300301",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "SUMMARY:Focus (free)",
+      "DTSTART:20300301T150000Z",
+      "DTEND:20300301T160000Z",
+      "TRANSP:TRANSPARENT",
+      "END:VEVENT",
+      "BEGIN:VEVENT",
+      "SUMMARY:Cancelled",
+      "DTSTART:20300301T150000Z",
+      "DTEND:20300301T160000Z",
+      "STATUS:CANCELLED",
+      "END:VEVENT",
+      "END:VCALENDAR",
+    ].join("\r\n");
+    expect(parseICalBusy(calendar)).toEqual([
+      {
+        summary: "Standup, daily",
+        start: "2030-03-01T14:00:00.000Z",
+        end: "2030-03-01T14:15:00.000Z",
+      },
+      {
+        summary: "Lunch",
+        start: "2030-03-01T17:00:00.000Z",
+        end: "2030-03-01T18:00:00.000Z",
+      },
+    ]);
+  });
+});
@@ -32,6 +32,9 @@ import { runOmniJSWrapped } from "../../../src/omnijs.js";
 
 const mockRunOmniJS = vi.mocked(runOmniJSWrapped);
 
+// Keep locally defined virtual perspectives out of these app-perspective tests
+vi.stubEnv("OFOCUS_PERSPECTIVES_DIR", "/nonexistent/ofocus-perspectives");
+
 // ---------------------------------------------------------------------------
 // Test helpers
 // ---------------------------------------------------------------------------
@@ -155,10 +158,7 @@ describe("listPerspectives", () => {
   describe("error handling", () => {
     it("should handle OmniFocus not running", async () => {
       mockRunOmniJS.mockResolvedValue(
-        omniFailure(
-          ErrorCode.OMNIFOCUS_NOT_RUNNING,
-          "OmniFocus is not running"
-        )
+        omniFailure(ErrorCode.OMNIFOCUS_NOT_RUNNING, "OmniFocus is not running")
       );
 
       const result = await listPerspectives();
@@ -321,10 +321,7 @@ describe("queryPerspective", () => {
   describe("error handling", () => {
     it("should handle OmniFocus not running", async () => {
       mockRunOmniJS.mockResolvedValue(
-        omniFailure(
-          ErrorCode.OMNIFOCUS_NOT_RUNNING,
-          "OmniFocus is not running"
-        )
+        omniFailure(ErrorCode.OMNIFOCUS_NOT_RUNNING, "OmniFocus is not running")
       );
 
       const result = await queryPerspective("Flagged");
@@ -516,10 +513,7 @@ describe("deletePerspective", () => {
   describe("OmniJS error handling", () => {
     it("should handle OmniFocus not running during lookup", async () => {
       mockRunOmniJS.mockResolvedValue(
-        omniFailure(
-          ErrorCode.OMNIFOCUS_NOT_RUNNING,
-          "OmniFocus is not running"
-        )
+        omniFailure(ErrorCode.OMNIFOCUS_NOT_RUNNING, "OmniFocus is not running")
       );
 
       const result = await deletePerspective("My Work");
@@ -563,7 +557,9 @@ describe("OFPerspective.kind field", () => {
 
     const result = await listPerspectives();
 
-    expect(result.data?.every((p) => p.kind === "builtin" || p.kind === "custom")).toBe(true);
+    expect(
+      result.data?.every((p) => p.kind === "builtin" || p.kind === "custom")
+    ).toBe(true);
   });
 });
 
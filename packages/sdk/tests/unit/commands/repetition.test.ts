@@ -1,5 +1,5 @@
 /**
- * Unit tests for buildRRule, repeatMethodToOmniJS, validateRepetitionRule,
+ * Unit tests for buildRRule, parseRRule, repeatMethodToOmniJS, validateRepetitionRule,
  * applyRepetitionRuleDescriptor, and clearRepetitionRuleDescriptor.
  *
  * All expected RRULE strings are derived directly from RFC 5545 §3.3.10 —
@@ -11,7 +11,9 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import {
   buildRRule,
+  parseRRule,
   repeatMethodToOmniJS,
+  applyRepetitionRule,
   applyRepetitionRuleDescriptor,
   clearRepetitionRuleDescriptor,
 } from "../../../src/commands/repetition.js";
@@ -242,6 +244,185 @@ describe("buildRRule", () => {
       expect(buildRRule(rule)).toBe("FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25");
     });
   });
+
+  describe("remaining RFC 5545 parts", () => {
+    it("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1 — last workday", () => {
+      const rule: RepetitionRule = {
+        frequency: "monthly",
+        interval: 1,
+        repeatMethod: "due-again",
+        daysOfWeek: [1, 2, 3, 4, 5],
+        setPositions: [-1],
+      };
+      expect(buildRRule(rule)).toBe(
+        "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1"
+      );
+    });
+
+    it("emits weekdays entries as given", () => {
+      const rule: RepetitionRule = {
+        frequency: "monthly",
+        interval: 1,
+        repeatMethod: "due-again",
+        weekdays: [
+          { day: 1, position: 1 },
+          { day: 5, position: -1 },
+          { day: 3 },
+        ],
+      };
+      expect(buildRRule(rule)).toBe("FREQ=MONTHLY;BYDAY=1MO,-1FR,WE");
+    });
+
+    it("FREQ=HOURLY;INTERVAL=3;BYHOUR=9,12,15;COUNT=6", () => {
+      const rule: RepetitionRule = {
+        frequency: "hourly",
+        interval: 3,
+        repeatMethod: "scheduled",
+        hours: [9, 12, 15],
+        count: 6,
+      };
+      expect(buildRRule(rule)).toBe(
+        "FREQ=HOURLY;INTERVAL=3;BYHOUR=9,12,15;COUNT=6"
+      );
+    });
+
+    it("formats UNTIL as a date or a UTC date-time", () => {
+      const base: RepetitionRule = {
+        frequency: "daily",
+        interval: 1,
+        repeatMethod: "scheduled",
+      };
+      expect(buildRRule({ ...base, until: "1997-12-24" })).toBe(
+        "FREQ=DAILY;UNTIL=19971224"
+      );
+      expect(buildRRule({ ...base, until: "1997-12-24T09:00:00-05:00" })).toBe(
+        "FREQ=DAILY;UNTIL=19971224T140000Z"
+      );
+    });
+
+    it("leaves exceptDates out of the RRULE", () => {
+      const rule: RepetitionRule = {
+        frequency: "daily",
+        interval: 1,
+        repeatMethod: "scheduled",
+        weekStart: 0,
+        exceptDates: ["1997-09-04"],
+      };
+      expect(buildRRule(rule)).toBe("FREQ=DAILY;WKST=SU");
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseRRule
+// ---------------------------------------------------------------------------
+
+describe("parseRRule", () => {
+  it.each([
+    "FREQ=DAILY",
+    "FREQ=DAILY;INTERVAL=3",
+    "FREQ=WEEKLY;BYDAY=MO,WE,FR",
+    "FREQ=MONTHLY;BYMONTHDAY=15",
+    "FREQ=MONTHLY;BYDAY=1MO,1WE,-1MO,-1WE",
+    "FREQ=YEARLY;BYMONTH=3,6,9,12",
+    "FREQ=YEARLY;BYMONTH=12;BYMONTHDAY=25",
+    "FREQ=HOURLY;INTERVAL=3;UNTIL=19970902T170000Z",
+    "FREQ=DAILY;COUNT=10",
+    "FREQ=WEEKLY;WKST=SU;UNTIL=19971224",
+    "FREQ=MONTHLY;BYMONTHDAY=2,15",
+    "FREQ=MONTHLY;BYMONTHDAY=-3",
+    "FREQ=MONTHLY;BYDAY=1MO,-1WE",
+    "FREQ=MONTHLY;BYDAY=TU,WE,TH;BYSETPOS=3;COUNT=3",
+    "FREQ=YEARLY;BYDAY=20MO",
+    "FREQ=YEARLY;BYDAY=MO;BYWEEKNO=20",
+    "FREQ=YEARLY;INTERVAL=3;BYYEARDAY=1,100,200;COUNT=10",
+    "FREQ=DAILY;BYHOUR=9,10,11;BYMINUTE=0,20,40;BYSECOND=0",
+  ])("round-trips %s through buildRRule", (rrule) => {
+    const rule = parseRRule(rrule);
+    expect(rule).not.toBeNull();
+    if (rule !== null) expect(buildRRule(rule)).toBe(rrule);
+  });
+
+  it("parses into a RepetitionRule with the given method", () => {
+    expect(parseRRule("RRULE:FREQ=MONTHLY;BYDAY=-1FR", "due-again")).toEqual({
+      frequency: "monthly",
+      interval: 1,
+      repeatMethod: "due-again",
+      daysOfWeek: [5],
+      daysOfWeekPositions: [-1],
+    });
+  });
+
+  it("defaults the method to scheduled and reads WKST", () => {
+    expect(parseRRule("freq=weekly;wkst=MO;interval=2")).toEqual({
+      frequency: "weekly",
+      interval: 2,
+      repeatMethod: "scheduled",
+      weekStart: 1,
+    });
+  });
+
+  it("keeps BYDAY entries that aren't a cross-product as weekdays", () => {
+    expect(parseRRule("FREQ=MONTHLY;BYDAY=1MO,TU")?.weekdays).toEqual([
+      { day: 1, position: 1 },
+      { day: 2 },
+    ]);
+  });
+
+  it("reads COUNT, UNTIL and several BYMONTHDAY values", () => {
+    expect(
+      parseRRule("FREQ=MONTHLY;BYMONTHDAY=1,-1;UNTIL=20250101T090000Z")
+    ).toMatchObject({
+      daysOfMonth: [1, -1],
+      until: "2025-01-01T09:00:00.000Z",
+    });
+    expect(parseRRule("FREQ=DAILY;COUNT=5")?.count).toBe(5);
+    expect(parseRRule("FREQ=DAILY;UNTIL=20250101")?.until).toBe("2025-01-01");
+  });
+
+  it("reads EXDATE exclusions from a recurrence block", () => {
+    const block = [
+      "DTSTART:19970902T090000Z",
+      "RRULE:FREQ=DAILY;COUNT=5",
+      "EXDATE:19970903T090000Z,19970905T090000Z",
+      "EXDATE;VALUE=DATE:19970904",
+    ].join("\r\n");
+    expect(parseRRule(block)).toEqual({
+      frequency: "daily",
+      interval: 1,
+      repeatMethod: "scheduled",
+      count: 5,
+      exceptDates: [
+        "1997-09-03T09:00:00.000Z",
+        "1997-09-05T09:00:00.000Z",
+        "1997-09-04",
+      ],
+    });
+  });
+
+  it.each([
+    ["INTERVAL=2", "missing FREQ"],
+    ["FREQ=FORTNIGHTLY", "unknown frequency"],
+    ["FREQ=DAILY;BYEASTER=0", "unknown rule part"],
+    ["FREQ=DAILY;COUNT=2;COUNT=3", "repeated rule part"],
+    ["FREQ=DAILY;UNTIL=2025", "malformed UNTIL"],
+    ["FREQ=DAILY;COUNT=two", "malformed COUNT"],
+    ["FREQ=WEEKLY;BYDAY=XX", "unknown weekday"],
+    ["FREQ=WEEKLY;WKST=XX", "unknown week start"],
+    ["RRULE:FREQ=DAILY\nRRULE:FREQ=WEEKLY", "two RRULEs"],
+    ["RRULE:FREQ=DAILY\nEXDATE:tomorrow", "malformed EXDATE"],
+    ["RRULE:FREQ=DAILY\nRDATE:19970904", "unsupported RDATE"],
+  ])("returns null for %s (%s)", (rrule) => {
+    expect(parseRRule(rrule)).toBeNull();
+  });
+
+  it("leaves range checks to validateRepetitionRule", () => {
+    const rule = parseRRule("FREQ=MONTHLY;BYMONTHDAY=40");
+    expect(rule?.dayOfMonth).toBe(40);
+    expect(validateRepetitionRule(rule ?? undefined)?.code).toBe(
+      ErrorCode.VALIDATION_ERROR
+    );
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -319,7 +500,7 @@ describe("validateRepetitionRule — new fields", () => {
       expect(result).not.toBeNull();
       expect(result?.code).toBe(ErrorCode.VALIDATION_ERROR);
       expect(result?.message).toContain(
-        "daysOfWeekPositions is only valid for monthly frequency"
+        "daysOfWeekPositions is only valid for monthly or yearly frequency"
       );
     });
 
@@ -332,21 +513,31 @@ describe("validateRepetitionRule — new fields", () => {
       });
       expect(result).not.toBeNull();
       expect(result?.message).toContain(
-        "daysOfWeekPositions is only valid for monthly frequency"
+        "daysOfWeekPositions is only valid for monthly or yearly frequency"
       );
     });
 
-    it("rejects daysOfWeekPositions when frequency is yearly", () => {
+    it("accepts positions within the year when frequency is yearly", () => {
       const result = validateRepetitionRule({
         frequency: "yearly",
         interval: 1,
         repeatMethod: "due-again",
-        daysOfWeekPositions: [1],
+        daysOfWeek: [1],
+        daysOfWeekPositions: [20, -53],
       });
-      expect(result).not.toBeNull();
-      expect(result?.message).toContain(
-        "daysOfWeekPositions is only valid for monthly frequency"
-      );
+      expect(result).toBeNull();
+    });
+
+    it("limits positions to the month when yearly with monthsOfYear", () => {
+      const result = validateRepetitionRule({
+        frequency: "yearly",
+        interval: 1,
+        repeatMethod: "due-again",
+        daysOfWeek: [1],
+        daysOfWeekPositions: [20],
+        monthsOfYear: [3],
+      });
+      expect(result?.message).toContain("Invalid day-of-week position: 20");
     });
 
     it("rejects out-of-range position 0", () => {
@@ -444,30 +635,16 @@ describe("validateRepetitionRule — new fields", () => {
       expect(result).toBeNull();
     });
 
-    it("rejects monthsOfYear when frequency is monthly", () => {
-      const result = validateRepetitionRule({
-        frequency: "monthly",
-        interval: 1,
-        repeatMethod: "due-again",
-        monthsOfYear: [3],
-      });
-      expect(result).not.toBeNull();
-      expect(result?.message).toContain(
-        "monthsOfYear is only valid for yearly frequency"
-      );
-    });
-
-    it("rejects monthsOfYear when frequency is weekly", () => {
-      const result = validateRepetitionRule({
-        frequency: "weekly",
-        interval: 1,
-        repeatMethod: "due-again",
-        monthsOfYear: [6],
-      });
-      expect(result).not.toBeNull();
-      expect(result?.message).toContain(
-        "monthsOfYear is only valid for yearly frequency"
-      );
+    it("accepts monthsOfYear as a filter for monthly and weekly rules", () => {
+      for (const frequency of ["monthly", "weekly"] as const) {
+        const result = validateRepetitionRule({
+          frequency,
+          interval: 1,
+          repeatMethod: "due-again",
+          monthsOfYear: [3],
+        });
+        expect(result).toBeNull();
+      }
     });
 
     it("rejects month 0 (out of range)", () => {
@@ -529,7 +706,7 @@ describe("validateRepetitionRule — new fields", () => {
 
     it("rejects invalid frequency", () => {
       const result = validateRepetitionRule({
-        frequency: "hourly",
+        frequency: "fortnightly",
         interval: 1,
         repeatMethod: "due-again",
       });
@@ -541,6 +718,70 @@ describe("validateRepetitionRule — new fields", () => {
       expect(validateRepetitionRule(undefined)).toBeNull();
     });
   });
+
+  describe("remaining RFC 5545 parts", () => {
+    const base = {
+      interval: 1,
+      repeatMethod: "scheduled",
+    } as const;
+
+    it("accepts a rule using every part", () => {
+      expect(
+        validateRepetitionRule({
+          ...base,
+          frequency: "yearly",
+          monthsOfYear: [1],
+          weeksOfYear: [1, -1],
+          daysOfYear: [1, -366],
+          daysOfMonth: [1, -31],
+          weekdays: [{ day: 1, position: -1 }, { day: 2 }],
+          hours: [0, 23],
+          minutes: [0, 59],
+          seconds: [0, 60],
+          setPositions: [1, -1],
+          weekStart: 0,
+          until: "2030-01-01",
+          exceptDates: ["2029-01-01T09:00:00Z"],
+        })
+      ).toBeNull();
+    });
+
+    it.each([
+      [
+        { frequency: "daily", daysOfMonth: [0] },
+        "Invalid daysOfMonth value: 0",
+      ],
+      [{ frequency: "yearly", daysOfYear: [367] }, "Invalid daysOfYear value"],
+      [{ frequency: "monthly", daysOfYear: [1] }, "daysOfYear is not valid"],
+      [{ frequency: "monthly", weeksOfYear: [1] }, "weeksOfYear is only valid"],
+      [{ frequency: "hourly", hours: [24] }, "Invalid hours value: 24"],
+      [{ frequency: "daily", minutes: [-1] }, "Invalid minutes value: -1"],
+      [{ frequency: "daily", setPositions: [1] }, "setPositions requires"],
+      [{ frequency: "weekly", weekStart: 7 }, "Invalid week start: 7"],
+      [{ frequency: "daily", count: 0 }, "Invalid repetition count: 0"],
+      [
+        { frequency: "daily", count: 3, until: "2030-01-01" },
+        "count and until are mutually exclusive",
+      ],
+      [{ frequency: "daily", until: "someday" }, "Invalid repetition date"],
+      [
+        { frequency: "weekly", weekdays: [{ day: 1, position: 1 }] },
+        "Weekday positions are only valid for monthly or yearly",
+      ],
+      [
+        { frequency: "monthly", dayOfMonth: 1, daysOfMonth: [15] },
+        "dayOfMonth and daysOfMonth are mutually exclusive",
+      ],
+      [
+        { frequency: "monthly", daysOfWeek: [1], weekdays: [{ day: 2 }] },
+        "weekdays and daysOfWeek are mutually exclusive",
+      ],
+    ])("rejects %o", (rule, message) => {
+      expect(validateRepetitionRule({ ...base, ...rule })?.message).toContain(
+        message
+      );
+    });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -661,6 +902,47 @@ describe("applyRepetitionRuleDescriptor", () => {
     );
   });
 
+  it("accepts and applies the full RFC 5545 grammar", async () => {
+    mockRunOmniJS.mockResolvedValueOnce(
+      okResult({ id: "t3", ruleString: "", method: "" })
+    );
+
+    const input = applyRepetitionRuleDescriptor.inputSchema.parse({
+      taskId: "t3",
+      frequency: "monthly",
+      // As the CLI passes it
+      weekdays: JSON.stringify([1, 2, 3, 4, 5].map((day) => ({ day }))),
+      setPositions: [-1],
+      hours: [9],
+      weekStart: 1,
+      until: "2025-12-31",
+    });
+    expect(input).toMatchObject({ interval: 1, repeatMethod: "due-again" });
+
+    await applyRepetitionRuleDescriptor.handler(input);
+
+    const body = mockRunOmniJS.mock.calls[0]?.[0] as string;
+    expect(body).toContain(
+      'new Task.RepetitionRule("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYHOUR=9;BYSETPOS=-1;WKST=MO;UNTIL=20251231", Task.RepetitionMethod.DueDate)'
+    );
+  });
+
+  it("rejects exceptDates instead of dropping them", async () => {
+    const rule = parseRRule(
+      "RRULE:FREQ=DAILY\nEXDATE;VALUE=DATE:19970904",
+      "scheduled"
+    ) as RepetitionRule;
+
+    const result = await applyRepetitionRule("t4", rule);
+
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe(ErrorCode.VALIDATION_ERROR);
+    expect(result.error?.message).toBe(
+      "Repetition rule has exceptDates (1997-09-04)"
+    );
+    expect(mockRunOmniJS).not.toHaveBeenCalled();
+  });
+
   it("returns failure when OmniJS errors", async () => {
     mockRunOmniJS.mockResolvedValueOnce(errResult("OmniFocus not running"));
 
@@ -0,0 +1,302 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+
+// Point the saved query file at a throwaway home directory
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: vi.fn(() => actual.homedir()) };
+});
+
+import {
+  createFakeTransport,
+  resetOmniJSTransport,
+  setOmniJSTransport,
+  type FakeOmniJSTransport,
+} from "../../../src/transport/index.js";
+import { wrapOmniJS } from "../../../src/omnijs.js";
+import type { DryRunPlan } from "../../../src/dry-run/index.js";
+import {
+  saveQuery,
+  listSavedQueries,
+  getSavedQuery,
+  deleteSavedQuery,
+  runSavedQuery,
+  getSavedQueriesPath,
+  saveQueryDescriptor,
+  runSavedQueryDescriptor,
+} from "../../../src/commands/saved-queries.js";
+
+let home: string;
+let transport: FakeOmniJSTransport;
+
+beforeEach(async () => {
+  home = mkdtempSync(join(os.tmpdir(), "ofocus-saved-queries-"));
+  vi.mocked(os.homedir).mockReturnValue(home);
+  transport = createFakeTransport();
+  setOmniJSTransport(transport);
+  await transport.evaluate(
+    wrapOmniJS(`
+var home = new Project("Home");
+var garden = new Project("Garden");
+var paint = new Task("Paint fence", home.ending);
+paint.flagged = true;
+new Task("Fix gate", home.ending).flagged = true;
+new Task("Buy paint", home.ending);
+new Task("Plant tulips", garden.ending).flagged = true;
+new Tag("Errands");
+return "{}";`)
+  );
+});
+
+afterEach(() => {
+  resetOmniJSTransport();
+  rmSync(home, { recursive: true, force: true });
+});
+
+function names(data: unknown): string[] {
+  const result = data as { kind: string; items?: { name: string }[] };
+  return result.items?.map((item) => item.name) ?? [];
+}
+
+describe("saved queries", () => {
+  it("saves a definition with its parameters to the config file", () => {
+    const result = saveQuery({
+      name: "flagged-in",
+      entity: "tasks",
+      description: "Flagged tasks in one project",
+      query: { flagged: true, project: "$project", sort: ["name"] },
+    });
+
+    expect(result.data).toEqual({
+      name: "flagged-in",
+      entity: "tasks",
+      parameters: ["project"],
+      replaced: false,
+      path: getSavedQueriesPath(),
+    });
+    const file = JSON.parse(readFileSync(getSavedQueriesPath(), "utf-8")) as {
+      queries: Record<string, unknown>;
+    };
+    expect(file.queries["flagged-in"]).toMatchObject({
+      entity: "tasks",
+      query: { flagged: true, project: "$project", sort: ["name"] },
+    });
+  });
+
+  it("rejects unknown inputs and invalid values at save time", () => {
+    const typo = saveQuery({
+      name: "typo",
+      entity: "tasks",
+      query: { flaged: true },
+    });
+    expect(typo.error?.code).toBe("VALIDATION_ERROR");
+    expect(typo.error?.message).toMatch(
+      /^Invalid saved query "typo": .*flaged/
+    );
+
+    const badLimit = saveQuery({
+      name: "bad",
+      entity: "projects",
+      query: { limit: 0 },
+    });
+    expect(badLimit.error?.message).toMatch(
+      /^Invalid saved query "bad": limit:/
+    );
+    expect(existsSync(getSavedQueriesPath())).toBe(false);
+  });
+
+  it("defers checking parameterized values until run time", async () => {
+    saveQuery({
+      name: "by-status",
+      entity: "projects",
+      query: { status: "$status" },
+    });
+
+    const bad = await runSavedQuery({
+      name: "by-status",
+      params: { status: "paused" },
+    });
+    expect(bad.error?.code).toBe("VALIDATION_ERROR");
+    expect(bad.error?.message).toMatch(
+      /^Invalid saved query "by-status": status:/
+    );
+
+    const good = await runSavedQuery({
+      name: "by-status",
+      params: { status: "active" },
+    });
+    expect(good.success).toBe(true);
+  });
+
+  it("runs with parameters and per-invocation overrides", async () => {
+    saveQuery({
+      name: "flagged-in",
+      entity: "tasks",
+      query: { flagged: true, project: "$project", sort: ["name"] },
+    });
+
+    const home = await runSavedQuery({
+      name: "flagged-in",
+      params: { project: "Home" },
+    });
+    expect(names(home.data)).toEqual(["Fix gate", "Paint fence"]);
+
+    const everything = await runSavedQuery({
+      name: "flagged-in",
+      params: { project: "Home" },
+      overrides: { flagged: null, reverse: true },
+    });
+    expect(names(everything.data)).toEqual([
+      "Paint fence",
+      "Fix gate",
+      "Buy paint",
+    ]);
+
+    const counted = await runSavedQuery({
+      name: "flagged-in",
+      params: { project: "Garden" },
+      overrides: { count: true },
+    });
+    expect(counted.data).toEqual({ kind: "count", count: 1 });
+  });
+
+  it("converts parameters for number and boolean inputs", async () => {
+    saveQuery({
+      name: "top",
+      entity: "tasks",
+      query: { flagged: "$flagged", limit: "$n", sort: ["name"] },
+    });
+
+    const top = await runSavedQuery({
+      name: "top",
+      params: { flagged: "true", n: "2" },
+    });
+    expect(names(top.data)).toEqual(["Fix gate", "Paint fence"]);
+
+    const bad = await runSavedQuery({
+      name: "top",
+      params: { flagged: "true", n: "two" },
+    });
+    expect(bad.error?.message).toMatch(/^Invalid saved query "top": limit:/);
+  });
+
+  it("reports a corrupt saved query file", async () => {
+    mkdirSync(join(home, ".config", "ofocus"), { recursive: true });
+    writeFileSync(getSavedQueriesPath(), "{not json");
+
+    const result = await runSavedQuery({ name: "anything" });
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+    expect(result.error?.message).toMatch(
+      `Invalid saved query file ${getSavedQueriesPath()}: `
+    );
+    expect(listSavedQueries().error?.code).toBe("VALIDATION_ERROR");
+    expect(
+      saveQuery({ name: "all", entity: "projects", query: {} }).success
+    ).toBe(false);
+    expect(readFileSync(getSavedQueriesPath(), "utf-8")).toBe("{not json");
+  });
+
+  it("reports missing and unknown parameters", async () => {
+    saveQuery({
+      name: "flagged-in",
+      entity: "tasks",
+      query: { project: "$project", where: "flagged" },
+    });
+
+    const missing = await runSavedQuery({ name: "flagged-in" });
+    expect(missing.error?.message).toBe(
+      'Missing parameter for saved query "flagged-in": project'
+    );
+
+    const unknown = await runSavedQuery({
+      name: "flagged-in",
+      params: { project: "Home", projet: "Home" },
+    });
+    expect(unknown.error?.message).toBe(
+      'Unknown parameter for saved query "flagged-in": projet'
+    );
+  });
+
+  it("treats $$ as a literal dollar sign", async () => {
+    const saved = saveQuery({
+      name: "dollars",
+      entity: "tasks",
+      query: { nameContains: "$$5" },
+    });
+    expect(saved.data?.parameters).toEqual([]);
+
+    const result = await runSavedQuery({ name: "dollars" });
+    expect(result.success).toBe(true);
+  });
+
+  it("lists, shows, replaces and deletes saved queries", () => {
+    saveQuery({ name: "tags", entity: "tags", query: { sort: ["name"] } });
+    saveQuery({ name: "all", entity: "projects", query: {} });
+    const replaced = saveQuery({
+      name: "all",
+      entity: "projects",
+      query: { status: "active" },
+    });
+    expect(replaced.data?.replaced).toBe(true);
+
+    expect(listSavedQueries().data?.queries.map((q) => q.name)).toEqual([
+      "all",
+      "tags",
+    ]);
+    expect(
+      listSavedQueries({ entity: "tags" }).data?.queries.map((q) => q.name)
+    ).toEqual(["tags"]);
+    expect(getSavedQuery("all").data?.query).toEqual({ status: "active" });
+
+    expect(deleteSavedQuery("all").data).toEqual({
+      name: "all",
+      deleted: true,
+    });
+    expect(getSavedQuery("all").error?.message).toBe(
+      "Saved query not found: all"
+    );
+    expect(deleteSavedQuery("all").success).toBe(false);
+  });
+
+  it("accepts JSON strings for CLI inputs and previews saves", async () => {
+    const plan = await saveQueryDescriptor.handler(
+      saveQueryDescriptor.inputSchema.parse({
+        name: "home",
+        entity: "tasks",
+        query: '{"project":"Home","fields":["name"]}',
+        dryRun: true,
+      })
+    );
+    expect((plan.data as DryRunPlan).changes[0]).toMatchObject({
+      action: "create",
+      entity: "saved-query",
+      name: "home",
+    });
+    expect(existsSync(getSavedQueriesPath())).toBe(false);
+
+    await saveQueryDescriptor.handler(
+      saveQueryDescriptor.inputSchema.parse({
+        name: "home",
+        entity: "tasks",
+        query: '{"project":"$p","fields":["name"],"sort":["name"]}',
+      })
+    );
+    const result = await runSavedQueryDescriptor.handler(
+      runSavedQueryDescriptor.inputSchema.parse({
+        name: "home",
+        params: '{"p":"Garden"}',
+        overrides: '{"limit":5}',
+      })
+    );
+    expect(names(result.data)).toEqual(["Plant tulips"]);
+  });
+});
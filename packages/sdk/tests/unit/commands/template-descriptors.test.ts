@@ -142,6 +142,42 @@ describe("createFromTemplateDescriptor — metadata", () => {
   });
 });
 
+describe("createFromTemplateDescriptor — variables", () => {
+  it("parses --var key=value pairs into an object", () => {
+    const parsed = createFromTemplateDescriptor.inputSchema.safeParse({
+      templateName: "Onboarding",
+      var: ["employee=Ann Lee", "note=a=b", "remote=true"],
+    });
+    expect(parsed.success && parsed.data.var).toEqual({
+      employee: "Ann Lee",
+      note: "a=b",
+      remote: "true",
+    });
+  });
+
+  it("accepts an object as is", () => {
+    const parsed = createFromTemplateDescriptor.inputSchema.safeParse({
+      templateName: "Onboarding",
+      var: { employee: "Ann", remote: false },
+    });
+    expect(parsed.success && parsed.data.var).toEqual({
+      employee: "Ann",
+      remote: false,
+    });
+  });
+
+  it("rejects a pair without a key", () => {
+    const parsed = createFromTemplateDescriptor.inputSchema.safeParse({
+      templateName: "Onboarding",
+      var: ["=Ann"],
+    });
+    expect(parsed.success).toBe(false);
+    expect(parsed.error?.issues[0]?.message).toBe(
+      "Expected key=value, got: =Ann"
+    );
+  });
+});
+
 describe("createFromTemplateDescriptor — handler forwarding", () => {
   it("returns failure when template file does not exist", async () => {
     const result = await createFromTemplateDescriptor.handler({
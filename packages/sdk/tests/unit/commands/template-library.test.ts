@@ -0,0 +1,303 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+
+const home = vi.hoisted(() => ({ dir: "" }));
+
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: () => home.dir };
+});
+
+import {
+  createFakeTransport,
+  resetOmniJSTransport,
+  setOmniJSTransport,
+} from "../../../src/transport/index.js";
+import { wrapOmniJS } from "../../../src/omnijs.js";
+import type { DryRunPlan } from "../../../src/dry-run/index.js";
+import {
+  exportTemplates,
+  importTemplates,
+  importTemplatesDescriptor,
+} from "../../../src/commands/template-library.js";
+import {
+  getTemplate,
+  validateTemplate,
+} from "../../../src/commands/templates.js";
+
+let templatesDir: string;
+
+const writeTemplate = (file: string, template: unknown): void => {
+  mkdirSync(templatesDir, { recursive: true });
+  writeFileSync(join(templatesDir, file), JSON.stringify(template));
+};
+
+// A version 1 file, as written before templates were versioned
+const launch = {
+  name: "Launch",
+  description: null,
+  sequential: false,
+  note: null,
+  defaultFolder: null,
+  tasks: [
+    {
+      title: "Write deck",
+      note: null,
+      flagged: false,
+      estimatedMinutes: null,
+      deferOffsetDays: null,
+      dueOffsetDays: 2,
+    },
+  ],
+  createdAt: "2024-01-15T10:00:00.000Z",
+  sourceProject: "Launch",
+};
+
+beforeEach(() => {
+  home.dir = mkdtempSync(join(os.tmpdir(), "ofocus-templates-"));
+  templatesDir = join(home.dir, ".config", "ofocus", "templates");
+});
+
+afterEach(() => {
+  rmSync(home.dir, { recursive: true, force: true });
+});
+
+describe("exportTemplates / importTemplates", () => {
+  it("exports a versioned bundle that imports back, migrating old files", () => {
+    writeTemplate("Launch.json", launch);
+
+    const exported = exportTemplates();
+    expect(exported.data?.templateCount).toBe(1);
+    const bundle = JSON.parse(exported.data?.content ?? "") as {
+      version: number;
+      templates: { tasks: { tags: string[] }[] }[];
+    };
+    expect(bundle.version).toBe(2);
+    expect(bundle.templates[0]?.tasks[0]?.tags).toEqual([]);
+
+    rmSync(templatesDir, { recursive: true });
+    const imported = importTemplates(exported.data?.content ?? "");
+    expect(imported.data).toEqual({
+      templates: [
+        {
+          name: "Launch",
+          taskCount: 1,
+          path: join(templatesDir, "Launch.json"),
+          replaced: false,
+        },
+      ],
+    });
+    expect(
+      JSON.parse(readFileSync(join(templatesDir, "Launch.json"), "utf-8"))
+    ).toMatchObject({ version: 2, name: "Launch" });
+    expect(getTemplate("Launch").data).toEqual(bundle.templates[0]);
+  });
+
+  it("replaces existing templates only when asked, checking before writing", () => {
+    writeTemplate("Launch.json", launch);
+    const content = JSON.stringify({
+      version: 2,
+      templates: [
+        { name: "Retro", createdAt: "2024-02-01T00:00:00.000Z" },
+        { ...launch, description: "Imported" },
+      ],
+    });
+
+    const refused = importTemplates(content);
+    expect(refused.error?.code).toBe("VALIDATION_ERROR");
+    expect(refused.error?.message).toBe("Template already exists: Launch");
+    expect(existsSync(join(templatesDir, "Retro.json"))).toBe(false);
+
+    const replaced = importTemplates(content, { overwrite: true });
+    expect(replaced.data?.templates.map((t) => t.replaced)).toEqual([
+      false,
+      true,
+    ]);
+    expect(getTemplate("Launch").data?.description).toBe("Imported");
+    expect(getTemplate("Retro").data).toMatchObject({
+      tasks: [],
+      sequential: false,
+    });
+  });
+
+  it("rejects invalid templates and versions it doesn't know", () => {
+    const typo = importTemplates(
+      JSON.stringify({
+        version: 2,
+        templates: [
+          launch,
+          { ...launch, name: "Typo", tasks: [{ title: "x", flaged: true }] },
+        ],
+      })
+    );
+    expect(typo.error?.message).toBe(
+      "Invalid template templates.1 in bundle: tasks.0: Unrecognized key(s) in object: 'flaged'"
+    );
+
+    const newer = importTemplates(JSON.stringify({ ...launch, version: 3 }));
+    expect(newer.error?.message).toMatch(/is version 3/);
+    expect(newer.error?.details).toBe("Upgrade ofocus to use it");
+    expect(existsSync(join(templatesDir, "Launch.json"))).toBe(false);
+  });
+
+  it("previews an import as a dry run", async () => {
+    const result = await importTemplatesDescriptor.handler({
+      content: JSON.stringify(launch),
+      dryRun: true,
+    });
+
+    expect((result.data as DryRunPlan).changes).toEqual([
+      expect.objectContaining({
+        action: "create",
+        entity: "template",
+        name: "Launch",
+      }),
+    ]);
+    expect(existsSync(join(templatesDir, "Launch.json"))).toBe(false);
+  });
+});
+
+describe("importTemplates from TaskPaper", () => {
+  it("turns each project into a template, nesting indented tasks", () => {
+    const content = [
+      "Onboarding:",
+      "\tKickoff for {{client}}",
+      "\t- Send welcome pack @email @due(2024-01-20)",
+      "\t\tInclude the handbook",
+      "\t- Set up accounts @estimate(30m)",
+      "\t\t- Laptop @flagged",
+      "\t\t- Email",
+      "\t- Old step @done",
+      "\t\t- Skipped child",
+      "Offboarding:",
+      "\t- Revoke access",
+    ].join("\n");
+
+    const result = importTemplates(content, { baseDate: "2024-01-15" });
+    expect(result.data?.templates.map((t) => [t.name, t.taskCount])).toEqual([
+      ["Onboarding", 4],
+      ["Offboarding", 1],
+    ]);
+
+    const onboarding = getTemplate("Onboarding").data;
+    expect(onboarding?.note).toBe("Kickoff for {{client}}");
+    expect(onboarding?.tasks).toEqual([
+      {
+        title: "Send welcome pack",
+        note: "Include the handbook",
+        flagged: false,
+        estimatedMinutes: null,
+        tags: ["email"],
+        deferOffsetDays: null,
+        dueOffsetDays: 5,
+      },
+      expect.objectContaining({
+        title: "Set up accounts",
+        estimatedMinutes: 30,
+        children: [
+          expect.objectContaining({ title: "Laptop", flagged: true }),
+          expect.objectContaining({ title: "Email" }),
+        ],
+      }),
+    ]);
+  });
+
+  it("needs a template name for tasks outside a project", () => {
+    const content = "- Pack bags\n- Book hotel\n";
+
+    expect(importTemplates(content).error?.message).toBe(
+      'Task "Pack bags" is not under a project'
+    );
+    expect(importTemplates(content, { name: "Trip" }).data).toMatchObject({
+      templates: [{ name: "Trip", taskCount: 2 }],
+    });
+  });
+});
+
+describe("validateTemplate", () => {
+  beforeEach(async () => {
+    const transport = createFakeTransport();
+    setOmniJSTransport(transport);
+    await transport.evaluate(
+      wrapOmniJS(`
+new Tag("Work");
+new Folder("Clients");
+new Project("Acme launch");
+return "{}";`)
+    );
+  });
+
+  afterEach(() => {
+    resetOmniJSTransport();
+  });
+
+  it("reports unknown tags, folders and existing projects", async () => {
+    writeTemplate("Client.json", {
+      name: "Client",
+      projectName: "{{client}} launch",
+      defaultFolder: "Clients",
+      tasks: [{ title: "Kickoff", tags: ["Work", "Wrok", "{{team}}"] }],
+      createdAt: "2024-01-15T10:00:00.000Z",
+    });
+
+    expect((await validateTemplate({ templateName: "Client" })).data).toEqual({
+      name: "Client",
+      valid: false,
+      errors: ["Tag not found: Wrok"],
+      unknownTags: ["Wrok"],
+      unknownFolder: null,
+      existingProject: null,
+    });
+
+    const filled = await validateTemplate({
+      templateName: "Client",
+      folder: "Partners",
+      variables: { client: "Acme", team: "Work" },
+    });
+    expect(filled.data?.errors).toEqual([
+      "Tag not found: Wrok",
+      "Folder not found: Partners",
+      "Project already exists: Acme launch",
+    ]);
+  });
+
+  it("checks variables, conditions and defaults without creating anything", async () => {
+    writeTemplate("Release.json", {
+      version: 2,
+      name: "Release",
+      variables: [{ name: "launch", type: "date", default: "someday" }],
+      tasks: [{ title: "Ship", when: "launch", tags: ["Work"] }],
+      createdAt: "2024-01-15T10:00:00.000Z",
+    });
+
+    const result = await validateTemplate({
+      templateName: "Release",
+      variables: { lanch: "+1d" },
+    });
+    expect(result.data?.valid).toBe(false);
+    expect(result.data?.errors).toEqual([
+      "Unknown variable: lanch",
+      expect.stringMatching(/^Invalid date for variable "launch": /),
+      'Task "Ship": variable "launch" is a condition, so it must be a boolean',
+    ]);
+
+    writeTemplate("Release.json", { name: "Release", createdAt: 42 });
+    expect((await validateTemplate({ templateName: "Release" })).data).toEqual(
+      expect.objectContaining({
+        valid: false,
+        errors: [
+          `Invalid template file ${join(templatesDir, "Release.json")}: createdAt: Expected string, received number`,
+        ],
+      })
+    );
+  });
+});
@@ -14,6 +14,7 @@ vi.mock("node:fs", () => ({
   unlinkSync: vi.fn(),
   readdirSync: vi.fn(),
   mkdirSync: vi.fn(),
+  statSync: vi.fn(),
 }));
 
 // Mock os module for homedir
@@ -49,7 +50,9 @@ import {
   deleteTemplate,
   saveTemplate,
   createFromTemplate,
+  getTemplateVariables,
   type ProjectTemplate,
+  type TemplateTask,
 } from "../../../src/commands/templates.js";
 import { runOmniJSWrapped } from "../../../src/omnijs.js";
 import { queryProjects } from "../../../src/commands/projects.js";
@@ -62,6 +65,7 @@ const mockWriteFileSync = vi.mocked(fs.writeFileSync);
 const mockUnlinkSync = vi.mocked(fs.unlinkSync);
 const mockReaddirSync = vi.mocked(fs.readdirSync);
 const mockMkdirSync = vi.mocked(fs.mkdirSync);
+const mockStatSync = vi.mocked(fs.statSync);
 const mockHomedir = vi.mocked(os.homedir);
 const mockRunOmniJS = vi.mocked(runOmniJSWrapped);
 const mockQueryProjects = vi.mocked(queryProjects);
@@ -113,6 +117,19 @@ const createMockTask = (overrides: Partial<OFTask> = {}): OFTask => ({
   ...overrides,
 });
 
+const createTemplateTask = (
+  overrides: Partial<TemplateTask> = {}
+): TemplateTask => ({
+  title: "Task",
+  note: null,
+  flagged: false,
+  estimatedMinutes: null,
+  tags: [],
+  deferOffsetDays: null,
+  dueOffsetDays: null,
+  ...overrides,
+});
+
 // ─── getTemplate ─────────────────────────────────────────────────────────────
 
 describe("getTemplate", () => {
@@ -264,6 +281,49 @@ describe("getTemplate", () => {
       );
     });
   });
+
+  describe("template file versions", () => {
+    it("reads version 1 files, defaulting what they leave out", () => {
+      const { tags: _tags, ...untagged } = createTemplateTask();
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({ name: "Old", tasks: [untagged] })
+      );
+      mockStatSync.mockReturnValue({
+        mtime: new Date("2023-06-01T00:00:00.000Z"),
+      } as fs.Stats);
+
+      expect(getTemplate("Old").data).toEqual(
+        createMockTemplate({
+          name: "Old",
+          description: null,
+          sourceProject: null,
+          createdAt: "2023-06-01T00:00:00.000Z",
+          tasks: [createTemplateTask()],
+        })
+      );
+    });
+
+    it("rejects invalid files and versions newer than it reads", () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({ ...createMockTemplate(), sequential: "yes" })
+      );
+
+      const invalid = getTemplate("Test Template");
+      expect(invalid.error?.code).toBe("VALIDATION_ERROR");
+      expect(invalid.error?.message).toBe(
+        `Invalid template file ${path.join(templatesDir, "Test_Template.json")}: sequential: Expected boolean, received string`
+      );
+
+      mockReadFileSync.mockReturnValue(
+        JSON.stringify({ ...createMockTemplate(), version: 3 })
+      );
+      expect(getTemplate("Test Template").error?.details).toBe(
+        "Upgrade ofocus to use it"
+      );
+    });
+  });
 });
 
 // ─── listTemplates ────────────────────────────────────────────────────────────
@@ -561,7 +621,10 @@ describe("saveTemplate", () => {
         string,
         string,
       ];
-      const parsed = JSON.parse(writtenContent) as ProjectTemplate;
+      const parsed = JSON.parse(writtenContent) as ProjectTemplate & {
+        version: number;
+      };
+      expect(parsed.version).toBe(2);
       expect(parsed.name).toBe("Empty Template");
       expect(parsed.description).toBeNull();
       expect(parsed.tasks).toEqual([]);
@@ -1037,4 +1100,253 @@ describe("createFromTemplate", () => {
       expect(scriptBody).toContain("2024-01-17");
     });
   });
+
+  describe("variables, conditions and action groups", () => {
+    const scripts = (): string[] =>
+      mockRunOmniJS.mock.calls.map(([body]) => body as string);
+
+    it("fills placeholders from variables and declared defaults", async () => {
+      setupTemplateFile(
+        createMockTemplate({
+          projectName: "Onboarding: {{employee}}",
+          note: "Welcome {{ employee }}",
+          defaultFolder: "{{team}}",
+          variables: [{ name: "team", default: "People" }],
+          tasks: [
+            createTemplateTask({
+              title: "Order laptop for {{employee}}",
+              tags: ["{{team}}"],
+            }),
+          ],
+        })
+      );
+      setupCreateProject(createMockProject());
+      setupOmniJSSuccess();
+
+      const result = await createFromTemplate({
+        templateName: "Test Template",
+        variables: { employee: "Ann" },
+      });
+
+      expect(result.data?.projectName).toBe("Onboarding: Ann");
+      expect(mockCreateProject).toHaveBeenCalledWith("Onboarding: Ann", {
+        folderName: "People",
+        sequential: false,
+        note: "Welcome Ann",
+      });
+      expect(scripts()[0]).toContain('new Task("Order laptop for Ann"');
+      expect(scripts()[0]).toContain('flattenedTags.byName("People")');
+    });
+
+    it("reports missing and unknown variables before creating anything", async () => {
+      setupTemplateFile(
+        createMockTemplate({
+          tasks: [createTemplateTask({ title: "Call {{client}}" })],
+        })
+      );
+
+      const missing = await createFromTemplate({
+        templateName: "Test Template",
+      });
+      expect(missing.error).toMatchObject({
+        code: "VALIDATION_ERROR",
+        message: 'Missing variable for template "Test Template": client',
+      });
+
+      const unknown = await createFromTemplate({
+        templateName: "Test Template",
+        variables: { client: "Acme", clinet: "Acme" },
+      });
+      expect(unknown.error?.message).toBe(
+        'Unknown variable for template "Test Template": clinet'
+      );
+      expect(mockCreateProject).not.toHaveBeenCalled();
+    });
+
+    it("leaves out sections whose condition is false", async () => {
+      setupTemplateFile(
+        createMockTemplate({
+          variables: [{ name: "remote", type: "boolean", default: false }],
+          tasks: [
+            createTemplateTask({
+              title: "Ship laptop",
+              when: "remote",
+              children: [createTemplateTask({ title: "Book courier" })],
+            }),
+            createTemplateTask({ title: "Set up desk", when: "!remote" }),
+            createTemplateTask({ title: "Meet the team" }),
+          ],
+        })
+      );
+      setupCreateProject(createMockProject());
+      setupOmniJSSuccess();
+
+      const office = await createFromTemplate({
+        templateName: "Test Template",
+      });
+      expect(office.data?.tasksCreated).toBe(2);
+      expect(scripts()[0]).toContain('new Task("Set up desk"');
+
+      mockRunOmniJS.mockClear();
+      const remote = await createFromTemplate({
+        templateName: "Test Template",
+        variables: { remote: "yes" },
+      });
+      expect(remote.data?.tasksCreated).toBe(3);
+      expect(scripts()[0]).toContain('new Task("Ship laptop"');
+
+      const bad = await createFromTemplate({
+        templateName: "Test Template",
+        variables: { remote: "maybe" },
+      });
+      expect(bad.error?.message).toBe(
+        'Variable "remote" must be true or false, got: maybe'
+      );
+    });
+
+    it("creates action groups with their children under them", async () => {
+      setupTemplateFile(
+        createMockTemplate({
+          tasks: [
+            createTemplateTask({
+              title: "Release",
+              sequential: true,
+              children: [
+                createTemplateTask({ title: "Tag" }),
+                createTemplateTask({ title: "Publish" }),
+              ],
+            }),
+          ],
+        })
+      );
+      setupCreateProject(createMockProject());
+      setupOmniJSSuccess();
+      mockRunOmniJS.mockResolvedValueOnce({
+        success: true,
+        data: { created: true, id: "group-1" },
+      } as OmniJSResult<{ created: boolean; id: string }>);
+
+      const result = await createFromTemplate({
+        templateName: "Test Template",
+      });
+
+      expect(result.data?.tasksCreated).toBe(3);
+      expect(scripts()[0]).toContain("newTask.sequential = true;");
+      expect(scripts()[1]).toContain('Task.byIdentifier("group-1")');
+      expect(scripts()[1]).toContain('new Task("Tag", parentTask.ending)');
+      expect(scripts()[2]).toContain('new Task("Publish", parentTask.ending)');
+    });
+
+    it("counts offsets from a milestone, which action group children inherit", async () => {
+      setupTemplateFile(
+        createMockTemplate({
+          variables: [{ name: "launch", type: "date" }],
+          tasks: [
+            createTemplateTask({ title: "Kickoff", dueOffsetDays: 1 }),
+            createTemplateTask({
+              title: "Prepare",
+              anchor: "launch",
+              dueOffsetDays: -2,
+              children: [
+                createTemplateTask({ title: "Draft post", dueOffsetDays: -7 }),
+              ],
+            }),
+          ],
+        })
+      );
+      setupCreateProject(createMockProject());
+      setupOmniJSSuccess();
+
+      await createFromTemplate({
+        templateName: "Test Template",
+        baseDate: "2024-01-15",
+        variables: { launch: "2024-03-01" },
+      });
+      expect(scripts()[0]).toContain("2024-01-16");
+      expect(scripts()[1]).toContain("2024-02-28");
+      expect(scripts()[2]).toContain("2024-02-23");
+
+      mockRunOmniJS.mockClear();
+      await createFromTemplate({
+        templateName: "Test Template",
+        baseDate: "2024-01-15",
+        variables: { launch: "+14d" },
+      });
+      expect(scripts()[1]).toContain("2024-01-27");
+    });
+
+    it("applies per-task repetition rules", async () => {
+      const weekly = {
+        frequency: "weekly",
+        interval: 1,
+        repeatMethod: "scheduled",
+        daysOfWeek: [1],
+      } as const;
+      setupTemplateFile(
+        createMockTemplate({
+          tasks: [
+            createTemplateTask({ title: "Status update", repeat: weekly }),
+          ],
+        })
+      );
+      setupCreateProject(createMockProject());
+      setupOmniJSSuccess();
+
+      await createFromTemplate({ templateName: "Test Template" });
+      expect(scripts()[0]).toContain(
+        'newTask.repetitionRule = new Task.RepetitionRule("FREQ=WEEKLY;BYDAY=MO", Task.RepetitionMethod.Fixed);'
+      );
+
+      setupTemplateFile(
+        createMockTemplate({
+          tasks: [
+            createTemplateTask({
+              title: "Status update",
+              repeat: { ...weekly, daysOfWeekPositions: [1] },
+            }),
+          ],
+        })
+      );
+      mockCreateProject.mockClear();
+      const bad = await createFromTemplate({ templateName: "Test Template" });
+      expect(bad.error?.message).toMatch(/^Task "Status update": /);
+      expect(mockCreateProject).not.toHaveBeenCalled();
+    });
+  });
+});
+
+// ─── getTemplateVariables ────────────────────────────────────────────────────
+
+describe("getTemplateVariables", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockHomedir.mockReturnValue("/Users/test");
+  });
+
+  it("lists declared variables, then those used without a declaration", () => {
+    mockExistsSync.mockReturnValue(true);
+    mockReadFileSync.mockReturnValue(
+      JSON.stringify(
+        createMockTemplate({
+          projectName: "Release {{version}}",
+          variables: [{ name: "launch", type: "date", description: "Ship day" }],
+          tasks: [
+            createTemplateTask({
+              title: "Notify {{team}}",
+              when: "!hotfix",
+              children: [createTemplateTask({ anchor: "freeze" })],
+            }),
+          ],
+        })
+      )
+    );
+
+    expect(getTemplateVariables("Test Template").data).toEqual([
+      { name: "launch", type: "date", description: "Ship day" },
+      { name: "version", type: "string" },
+      { name: "hotfix", type: "boolean" },
+      { name: "team", type: "string" },
+      { name: "freeze", type: "date" },
+    ]);
+  });
 });
@@ -0,0 +1,257 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+
+// Point the journal at a throwaway home directory
+vi.mock("node:os", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("node:os")>();
+  return { ...actual, homedir: vi.fn(() => actual.homedir()) };
+});
+
+import {
+  createFakeTransport,
+  resetOmniJSTransport,
+  setOmniJSTransport,
+  type FakeOmniJSTransport,
+} from "../../../src/transport/index.js";
+import { wrapOmniJS } from "../../../src/omnijs.js";
+import { completeTask } from "../../../src/commands/complete.js";
+import { updateTask } from "../../../src/commands/update.js";
+import { deleteTask } from "../../../src/commands/drop.js";
+import { moveTaskToParent } from "../../../src/commands/subtasks.js";
+import { updateTasks } from "../../../src/commands/batch.js";
+import { undo, redo, history } from "../../../src/commands/undo.js";
+import {
+  getJournalPath,
+  readJournal,
+  type Journal,
+} from "../../../src/journal/index.js";
+
+let home: string;
+let transport: FakeOmniJSTransport;
+
+/** Run a wrapped body against the fake and parse its JSON result. */
+async function run<T>(body: string): Promise<T> {
+  const { stdout } = await transport.evaluate(wrapOmniJS(body));
+  return JSON.parse(stdout) as T;
+}
+
+/** Read the journal, failing the test if it can't be. */
+function journal(): Journal {
+  const read = readJournal();
+  if ("code" in read) throw new Error(read.message);
+  return read;
+}
+
+function taskNamed(name: string) {
+  return Object.values(transport.document.tasks).find((t) => t.name === name);
+}
+
+beforeEach(async () => {
+  home = mkdtempSync(join(os.tmpdir(), "ofocus-journal-"));
+  vi.mocked(os.homedir).mockReturnValue(home);
+  transport = createFakeTransport();
+  setOmniJSTransport(transport);
+  await run(`
+var errands = new Tag("Errands");
+var home = new Project("Home");
+var paint = new Task("Paint fence", home.ending);
+new Task("Buy paint", paint.ending);
+var milk = new Task("Buy milk");
+milk.addTag(errands);
+new Task("Call plumber");
+return "{}";`);
+});
+
+afterEach(() => {
+  resetOmniJSTransport();
+  rmSync(home, { recursive: true, force: true });
+});
+
+describe("journaling", () => {
+  it("writes entries under ~/.config/ofocus", async () => {
+    const milk = taskNamed("Buy milk");
+    await completeTask(milk?.id ?? "");
+    expect(getJournalPath()).toBe(
+      join(home, ".config", "ofocus", "journal.json")
+    );
+    expect(existsSync(getJournalPath())).toBe(true);
+    expect(journal().undo).toHaveLength(1);
+  });
+
+  it("strips snapshots from the command result", async () => {
+    const milk = taskNamed("Buy milk");
+    const result = await completeTask(milk?.id ?? "");
+    expect(result.data).toEqual({
+      taskId: milk?.id,
+      taskName: "Buy milk",
+      completed: true,
+    });
+  });
+
+  it("records nothing when the mutation fails", async () => {
+    const result = await completeTask("doesNotExist");
+    expect(result.success).toBe(false);
+    expect(existsSync(getJournalPath())).toBe(false);
+  });
+
+  it("records a batch as a single entry", async () => {
+    const ids = ["Buy milk", "Call plumber"].map((n) => taskNamed(n)?.id ?? "");
+    await updateTasks(ids, { flag: true });
+    const [entry] = journal().undo;
+    expect(entry?.command).toBe("updateTasks");
+    expect(entry?.changes.map((c) => c.taskId)).toEqual(ids);
+  });
+});
+
+describe("undo / redo", () => {
+  it("reopens a completed task and completes it again on redo", async () => {
+    const milk = taskNamed("Buy milk");
+    await completeTask(milk?.id ?? "");
+
+    const undone = await undo();
+    expect(undone.data).toMatchObject({ applied: true, conflicts: [] });
+    expect(taskNamed("Buy milk")?.completionDate).toBeNull();
+
+    const redone = await redo();
+    expect(redone.data?.applied).toBe(true);
+    expect(taskNamed("Buy milk")?.completionDate).not.toBeNull();
+  });
+
+  it("restores updated fields, tags and location", async () => {
+    const milk = taskNamed("Buy milk");
+    await updateTask(milk?.id ?? "", {
+      title: "Buy oat milk",
+      due: "2026-03-20",
+      tags: [],
+      project: "Home",
+    });
+
+    await undo();
+    const restored = taskNamed("Buy milk");
+    expect(restored?.dueDate).toBeNull();
+    expect(restored?.tagIds).toHaveLength(1);
+    expect(transport.document.inboxIds).toContain(restored?.id);
+  });
+
+  it("moves a task back out of its new parent", async () => {
+    const plumber = taskNamed("Call plumber");
+    const paint = taskNamed("Paint fence");
+    await moveTaskToParent(plumber?.id ?? "", paint?.id ?? "");
+    expect(taskNamed("Call plumber")?.parentId).toBe(paint?.id);
+
+    await undo();
+    expect(taskNamed("Call plumber")?.parentId).toBeNull();
+  });
+
+  it("recreates a deleted task with its subtasks and can delete it again", async () => {
+    const paint = taskNamed("Paint fence");
+    await deleteTask(paint?.id ?? "");
+    expect(taskNamed("Paint fence")).toBeUndefined();
+
+    await undo();
+    const recreated = taskNamed("Paint fence");
+    expect(recreated).toBeDefined();
+    expect(recreated?.id).not.toBe(paint?.id);
+    expect(taskNamed("Buy paint")?.parentId).toBe(recreated?.id);
+    expect(journal().redo[0]?.changes[0]?.taskId).toBe(recreated?.id);
+
+    const redone = await redo();
+    expect(redone.data?.applied).toBe(true);
+    expect(taskNamed("Paint fence")).toBeUndefined();
+  });
+
+  it("reports conflicts and changes nothing when a task was edited since", async () => {
+    const milk = taskNamed("Buy milk");
+    await updateTask(milk?.id ?? "", { title: "Buy oat milk" });
+    await run(
+      `Task.byIdentifier("${milk?.id ?? ""}").flagged = true; return "{}";`
+    );
+
+    const result = await undo();
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({
+      applied: false,
+      conflicts: [
+        {
+          taskId: milk?.id,
+          taskName: "Buy oat milk",
+          reason: "modified",
+          fields: ["flagged"],
+        },
+      ],
+    });
+    expect(taskNamed("Buy oat milk")).toBeDefined();
+    expect(journal().undo).toHaveLength(1);
+  });
+
+  it("applies despite conflicts when forced", async () => {
+    const milk = taskNamed("Buy milk");
+    await updateTask(milk?.id ?? "", { title: "Buy oat milk" });
+    await run(
+      `deleteObject(Task.byIdentifier("${milk?.id ?? ""}")); return "{}";`
+    );
+
+    const result = await undo({ force: true });
+    expect(result.data?.applied).toBe(true);
+    expect(result.data?.conflicts[0]?.reason).toBe("missing");
+    expect(taskNamed("Buy milk")).toBeDefined();
+  });
+
+  it("fails when there is nothing to undo or redo", async () => {
+    expect((await undo()).error?.code).toBe("VALIDATION_ERROR");
+    expect((await redo()).error?.message).toBe("Nothing to redo");
+  });
+
+  it("reports a corrupt journal file and leaves it alone", async () => {
+    mkdirSync(join(home, ".config", "ofocus"), { recursive: true });
+    writeFileSync(getJournalPath(), "{not json");
+
+    const result = await undo();
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+    expect(result.error?.message).toMatch(
+      `Invalid journal file ${getJournalPath()}: `
+    );
+    expect(history().error?.code).toBe("VALIDATION_ERROR");
+
+    const milk = taskNamed("Buy milk");
+    expect((await completeTask(milk?.id ?? "")).success).toBe(true);
+    expect(readFileSync(getJournalPath(), "utf-8")).toBe("{not json");
+  });
+
+  it("clears the redo stack when a new mutation is recorded", async () => {
+    const milk = taskNamed("Buy milk");
+    await completeTask(milk?.id ?? "");
+    await undo();
+    await updateTask(milk?.id ?? "", { flag: true });
+    expect(journal().redo).toHaveLength(0);
+  });
+});
+
+describe("history", () => {
+  it("lists entries newest first with their status", async () => {
+    const milk = taskNamed("Buy milk");
+    const plumber = taskNamed("Call plumber");
+    await completeTask(milk?.id ?? "");
+    await completeTask(plumber?.id ?? "");
+    await undo();
+
+    const result = history();
+    expect(
+      result.data?.entries.map((e) => [e.tasks[0]?.name, e.status])
+    ).toEqual([
+      ["Call plumber", "undone"],
+      ["Buy milk", "applied"],
+    ]);
+    expect(result.data).toMatchObject({ undoAvailable: 1, redoAvailable: 1 });
+    expect(history({ limit: 1 }).data?.entries).toHaveLength(1);
+  });
+});
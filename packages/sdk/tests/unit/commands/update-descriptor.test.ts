@@ -110,7 +110,7 @@ describe("updateTaskDescriptor — metadata", () => {
     const parsed = updateTaskDescriptor.inputSchema.safeParse({
       taskId: TASK_ID,
       repeat: {
-        frequency: "hourly",
+        frequency: "fortnightly",
         interval: 1,
         repeatMethod: "due-again",
       },
@@ -0,0 +1,291 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import * as os from "node:os";
+import { join } from "node:path";
+import {
+  createFakeTransport,
+  resetOmniJSTransport,
+  setOmniJSTransport,
+  type FakeOmniJSTransport,
+} from "../../../src/transport/index.js";
+import { wrapOmniJS } from "../../../src/omnijs.js";
+import type { DryRunPlan } from "../../../src/dry-run/index.js";
+import {
+  compileVirtualPerspective,
+  deleteVirtualPerspective,
+  getVirtualPerspective,
+  getVirtualPerspectivesDir,
+  listVirtualPerspectives,
+  saveVirtualPerspective,
+  saveVirtualPerspectiveDescriptor,
+} from "../../../src/commands/virtual-perspectives.js";
+import {
+  listPerspectives,
+  queryPerspective,
+} from "../../../src/commands/perspectives.js";
+
+let dir: string;
+let transport: FakeOmniJSTransport;
+const saved = process.env["OFOCUS_PERSPECTIVES_DIR"];
+
+beforeEach(async () => {
+  dir = mkdtempSync(join(os.tmpdir(), "ofocus-perspectives-"));
+  process.env["OFOCUS_PERSPECTIVES_DIR"] = dir;
+  transport = createFakeTransport();
+  setOmniJSTransport(transport);
+  await transport.evaluate(
+    wrapOmniJS(`
+var work = new Tag("Work");
+var calls = new Tag("Calls");
+var launch = new Project("Launch");
+var someday = new Project("Someday");
+someday.status = Project.Status.OnHold;
+var deck = new Task("Write deck", launch.ending);
+deck.addTag(work);
+deck.flagged = true;
+var call = new Task("Call printer", launch.ending);
+call.addTag(work);
+call.addTag(calls);
+new Task("Book venue", launch.ending).addTag(work);
+new Task("Learn piano", someday.ending).addTag(work);
+var done = new Task("Draft agenda", launch.ending);
+done.addTag(work);
+done.markComplete();
+return "{}";`)
+  );
+});
+
+afterEach(() => {
+  resetOmniJSTransport();
+  rmSync(dir, { recursive: true, force: true });
+  if (saved === undefined) {
+    Reflect.deleteProperty(process.env, "OFOCUS_PERSPECTIVES_DIR");
+  } else {
+    process.env["OFOCUS_PERSPECTIVES_DIR"] = saved;
+  }
+});
+
+describe("compileVirtualPerspective", () => {
+  it("maps rules onto task query options plus groupBy", () => {
+    expect(
+      compileVirtualPerspective({
+        name: "Work",
+        rules: {
+          availability: "available",
+          tags: { any: ["Work", "Calls"], none: ['Someday "maybe"'] },
+          projectStatus: ["active"],
+          due: { within: "7d" },
+          where: "flagged or estimate < 15",
+        },
+        groupBy: "project",
+        sort: ["dueDate"],
+      })
+    ).toEqual({
+      options: {
+        available: true,
+        tag: ["Work", "Calls"],
+        tagMode: "any",
+        projectStatus: ["active"],
+        dueWithin: "7d",
+        where: '(flagged or estimate < 15) and not (tag:"Someday \\"maybe\\"")',
+        sort: ["dueDate"],
+      },
+      groupBy: "project",
+    });
+  });
+
+  it("defaults to remaining tasks", () => {
+    expect(compileVirtualPerspective({ name: "All", rules: {} })).toEqual({
+      options: { status: "active" },
+      groupBy: null,
+    });
+  });
+});
+
+describe("virtual perspectives", () => {
+  it("saves one version-controllable file per perspective", () => {
+    const result = saveVirtualPerspective({
+      name: "Work: calls",
+      rules: { tags: { all: ["Calls"] } },
+    });
+
+    const file = join(dir, "Work__calls.json");
+    expect(result.data).toEqual({
+      name: "Work: calls",
+      replaced: false,
+      path: file,
+    });
+    expect(JSON.parse(readFileSync(file, "utf-8"))).toEqual({
+      name: "Work: calls",
+      rules: { tags: { all: ["Calls"] } },
+    });
+    expect(getVirtualPerspectivesDir()).toBe(dir);
+  });
+
+  it("rejects bad rules, group keys and where syntax at save time", () => {
+    const typo = saveVirtualPerspective({
+      name: "typo",
+      rules: { flaged: true } as never,
+    });
+    expect(typo.error?.message).toMatch(/^Invalid virtual perspective "typo"/);
+
+    const group = saveVirtualPerspective({
+      name: "group",
+      rules: {},
+      groupBy: "colour",
+    });
+    expect(group.error?.message).toBe(
+      'Invalid virtual perspective "group": Unknown groupBy key: colour'
+    );
+
+    const where = saveVirtualPerspective({
+      name: "where",
+      rules: { where: "flagged and" },
+    });
+    expect(where.error?.code).toBe("VALIDATION_ERROR");
+    expect(existsSync(join(dir, "typo.json"))).toBe(false);
+  });
+
+  it("runs through perspective with the app perspective output shape", async () => {
+    saveVirtualPerspective({
+      name: "Work",
+      rules: { tags: { all: ["Work"] }, projectStatus: ["active"] },
+      sort: ["name"],
+    });
+
+    const result = await queryPerspective("Work");
+    expect(result.data?.map((t) => t.name)).toEqual([
+      "Book venue",
+      "Call printer",
+      "Write deck",
+    ]);
+    expect(Object.keys(result.data?.[0] ?? {}).sort()).toEqual([
+      "completed",
+      "completionDate",
+      "deferDate",
+      "dueDate",
+      "estimatedMinutes",
+      "flagged",
+      "id",
+      "name",
+      "note",
+      "projectId",
+      "projectName",
+      "tags",
+    ]);
+  });
+
+  it("returns grouped perspectives group by group, honouring the limit", async () => {
+    saveVirtualPerspective({
+      name: "By flag",
+      rules: { availability: "all", tags: { any: ["Work"] } },
+      groupBy: "flagged",
+      sort: ["name"],
+      reverse: true,
+    });
+
+    const result = await queryPerspective("By flag", { limit: 3 });
+    expect(result.data?.map((t) => t.name)).toEqual([
+      "Write deck",
+      "Learn piano",
+      "Draft agenda",
+    ]);
+  });
+
+  it("lists virtual perspectives alongside the app's", async () => {
+    saveVirtualPerspective({ name: "Work", rules: {} });
+
+    const result = await listPerspectives();
+    expect(result.data).toContainEqual({
+      id: "Work",
+      name: "Work",
+      kind: "virtual",
+    });
+  });
+
+  it("reads hand-written files by the name inside them", () => {
+    writeFileSync(
+      join(dir, "team-calls.json"),
+      JSON.stringify({ name: "Calls", rules: { tags: { any: ["Calls"] } } })
+    );
+
+    expect(getVirtualPerspective("Calls").data).toMatchObject({
+      compiled: { options: { tag: ["Calls"], tagMode: "any" } },
+      path: join(dir, "team-calls.json"),
+    });
+    expect(
+      saveVirtualPerspective({ name: "Calls", rules: { flagged: true } }).data
+    ).toEqual({
+      name: "Calls",
+      replaced: true,
+      path: join(dir, "team-calls.json"),
+    });
+  });
+
+  it("fails loudly on a malformed file, but only in its own commands", async () => {
+    saveVirtualPerspective({ name: "Work", rules: {} });
+    writeFileSync(join(dir, "broken.json"), "{ not json");
+
+    const result = listVirtualPerspectives();
+    expect(result.error?.code).toBe("VALIDATION_ERROR");
+    expect(result.error?.message).toContain("broken.json");
+
+    const all = await listPerspectives();
+    expect(all.success).toBe(true);
+    expect(all.data).toContainEqual({
+      id: "Work",
+      name: "Work",
+      kind: "virtual",
+    });
+    expect((await queryPerspective("Work")).success).toBe(true);
+  });
+
+  it("gives names that sanitize alike their own files", () => {
+    const first = saveVirtualPerspective({ name: "Q4/Launch", rules: {} });
+    const second = saveVirtualPerspective({
+      name: "Q4_Launch",
+      rules: { flagged: true },
+    });
+
+    expect(first.data?.path).toBe(join(dir, "Q4_Launch.json"));
+    expect(second.data).toEqual({
+      name: "Q4_Launch",
+      replaced: false,
+      path: join(dir, "Q4_Launch-2.json"),
+    });
+    expect(getVirtualPerspective("Q4/Launch").data?.perspective).toEqual({
+      name: "Q4/Launch",
+      rules: {},
+    });
+  });
+
+  it("deletes, with a dry-run preview first", async () => {
+    saveVirtualPerspective({ name: "Work", rules: {} });
+
+    const plan = await saveVirtualPerspectiveDescriptor.handler({
+      name: "Work",
+      rules: { flagged: true },
+      dryRun: true,
+    });
+    expect((plan.data as DryRunPlan).changes[0]).toMatchObject({
+      action: "update",
+      entity: "perspective",
+      fields: [{ field: "rules", before: {}, after: { flagged: true } }],
+    });
+
+    expect(deleteVirtualPerspective("Work").data).toEqual({
+      name: "Work",
+      deleted: true,
+    });
+    expect(getVirtualPerspective("Work").error?.code).toBe(
+      "PERSPECTIVE_NOT_FOUND"
+    );
+  });
+});
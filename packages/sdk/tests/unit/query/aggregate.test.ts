@@ -1,5 +1,6 @@
-import { describe, expect, it } from "vitest";
+import { describe, expect, it, vi } from "vitest";
 import { compileAggregate } from "../../../src/query/aggregate.js";
+import { taskGroupKeys } from "../../../src/query/fields.js";
 import { ErrorCode } from "../../../src/errors.js";
 
 describe("compileAggregate", () => {
@@ -60,6 +61,30 @@ describe("compileAggregate", () => {
       expect(r.groupKeyExpr).toContain("none");
     });
 
+    it("dueBucket puts day boundaries on the time zone's midnights", () => {
+      vi.useFakeTimers({ now: new Date("2024-03-08T20:00:00Z") });
+      try {
+        const r = compileAggregate(
+          { groupBy: "dueBucket" },
+          taskGroupKeys,
+          "America/New_York"
+        );
+        expect(r.groupKeyExpr).toContain(
+          'var todayStart = new Date("2024-03-08T05:00:00.000Z")'
+        );
+        expect(r.groupKeyExpr).toContain(
+          'var tomorrowStart = new Date("2024-03-09T05:00:00.000Z")'
+        );
+        // Clocks spring forward on 2024-03-10
+        expect(r.groupKeyExpr).toContain(
+          'var weekEnd = new Date("2024-03-15T04:00:00.000Z")'
+        );
+        expect(r.groupKeyExpr).not.toContain("getFullYear");
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
     it("flagged group key", () => {
       const r = compileAggregate({ groupBy: "flagged" });
       expect(r.groupKeyExpr).toContain('"flagged"');
@@ -110,9 +135,9 @@ describe("compileAggregate", () => {
       expect(compileAggregate({ first: true }).validationErrors).toEqual([]);
       expect(compileAggregate({ last: true }).validationErrors).toEqual([]);
       expect(compileAggregate({ idsOnly: true }).validationErrors).toEqual([]);
-      expect(
-        compileAggregate({ groupBy: "project" }).validationErrors
-      ).toEqual([]);
+      expect(compileAggregate({ groupBy: "project" }).validationErrors).toEqual(
+        []
+      );
     });
   });
 
@@ -147,6 +147,61 @@ describe("parseDate", () => {
     });
   });
 
+  describe("time zones", () => {
+    const LA = "America/Los_Angeles";
+    // 21:30 PDT on May 26 — already May 27 in UTC.
+    const EVENING = new Date("2026-05-27T04:30:00.000Z");
+
+    it('starts "today" at local midnight of the zone', () => {
+      const r = parseDate("today", EVENING, LA);
+      expect(isError(r)).toBe(false);
+      if (!isError(r)) expect(r.iso).toBe("2026-05-26T07:00:00.000Z");
+    });
+
+    it('steps "tomorrow" by a calendar day across spring-forward', () => {
+      const r = parseDate("tomorrow", new Date("2026-03-08T12:00:00Z"), LA);
+      expect(isError(r)).toBe(false);
+      if (!isError(r)) expect(r.iso).toBe("2026-03-09T07:00:00.000Z");
+    });
+
+    it("reads date-only and offset-less ISO input as wall time in the zone", () => {
+      const date = parseDate("2026-11-01", REFERENCE, LA);
+      expect(isError(date)).toBe(false);
+      if (!isError(date)) expect(date.iso).toBe("2026-11-01T07:00:00.000Z");
+      const time = parseDate("2026-11-01T09:00", REFERENCE, LA);
+      expect(isError(time)).toBe(false);
+      if (!isError(time)) expect(time.iso).toBe("2026-11-01T17:00:00.000Z");
+    });
+
+    it("leaves explicit offsets alone", () => {
+      const r = parseDate("2026-05-30T14:00:00Z", REFERENCE, LA);
+      expect(isError(r)).toBe(false);
+      if (!isError(r)) expect(r.iso).toBe("2026-05-30T14:00:00.000Z");
+    });
+
+    it("defaults to OFOCUS_TIME_ZONE", () => {
+      const saved = process.env["OFOCUS_TIME_ZONE"];
+      process.env["OFOCUS_TIME_ZONE"] = LA;
+      try {
+        const r = parseDate("today", EVENING);
+        expect(isError(r)).toBe(false);
+        if (!isError(r)) expect(r.iso).toBe("2026-05-26T07:00:00.000Z");
+      } finally {
+        if (saved === undefined) {
+          Reflect.deleteProperty(process.env, "OFOCUS_TIME_ZONE");
+        } else {
+          process.env["OFOCUS_TIME_ZONE"] = saved;
+        }
+      }
+    });
+
+    it("rejects an unknown zone", () => {
+      const r = parseDate("today", REFERENCE, "Pacific Time");
+      expect(isError(r)).toBe(true);
+      if (isError(r)) expect(r.code).toBe(ErrorCode.VALIDATION_ERROR);
+    });
+  });
+
   describe("bare offsets", () => {
     it('parses "7d" as reference + 7 days', () => {
       const r = parseDate("7d", REFERENCE);
@@ -165,6 +220,18 @@ describe("parseDate", () => {
       expect(isError(r)).toBe(false);
       if (!isError(r)) expect(r.iso).toBe("2027-05-27T12:00:00.000Z");
     });
+
+    it('parses "+3d" the same as "3d"', () => {
+      const r = parseDate("+3d", REFERENCE);
+      expect(isError(r)).toBe(false);
+      if (!isError(r)) expect(r.iso).toBe("2026-05-30T12:00:00.000Z");
+    });
+
+    it('parses "-1w" as reference - 7 days', () => {
+      const r = parseDate("-1w", REFERENCE);
+      expect(isError(r)).toBe(false);
+      if (!isError(r)) expect(r.iso).toBe("2026-05-20T12:00:00.000Z");
+    });
   });
 
   describe("prefixed offsets", () => {
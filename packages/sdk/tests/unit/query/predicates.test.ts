@@ -282,6 +282,27 @@ describe("compileTaskPredicates", () => {
     });
   });
 
+  describe("project status", () => {
+    it("matches any of the containing project's statuses", () => {
+      const r = compileTaskPredicates({ projectStatus: ["active", "on-hold"] });
+      expect(r.validationErrors).toEqual([]);
+      expect(r.conditions).toEqual([
+        "(t.containingProject != null && (t.containingProject.status === Project.Status.Active || t.containingProject.status === Project.Status.OnHold))",
+      ]);
+    });
+
+    it("rejects unknown statuses and empty arrays", () => {
+      expect(
+        compileTaskPredicates({
+          projectStatus: "paused" as unknown as "active",
+        }).validationErrors[0]?.message
+      ).toBe("Unknown projectStatus: paused");
+      expect(
+        compileTaskPredicates({ projectStatus: [] }).validationErrors
+      ).toHaveLength(1);
+    });
+  });
+
   describe("date predicates", () => {
     it("dueBefore with ISO date", () => {
       const r = compileTaskPredicates({ dueBefore: "2026-06-01" });
@@ -303,6 +324,30 @@ describe("compileTaskPredicates", () => {
       expect(r.conditions[0]).toContain("t.dueDate <");
     });
 
+    it("dueOn covers the calendar day in the time zone", () => {
+      const r = compileTaskPredicates({
+        dueOn: "2026-03-08",
+        timeZone: "America/Los_Angeles",
+      });
+      expect(r.validationErrors).toEqual([]);
+      // The spring-forward day runs 08:00Z to 07:00Z the next day.
+      expect(r.conditions[0]).toContain(
+        't.dueDate >= new Date("2026-03-08T08:00:00.000Z")'
+      );
+      expect(r.conditions[0]).toContain(
+        't.dueDate < new Date("2026-03-09T07:00:00.000Z")'
+      );
+    });
+
+    it("dueOn rejects an unknown time zone", () => {
+      const r = compileTaskPredicates({
+        dueOn: "today",
+        timeZone: "Nowhere/Special",
+      });
+      expect(r.validationErrors).toHaveLength(1);
+      expect(r.validationErrors[0]?.message).toContain("Invalid dueOn");
+    });
+
     it("dueWithin uses a duration", () => {
       const r = compileTaskPredicates({ dueWithin: "7d" });
       expect(r.validationErrors).toEqual([]);
@@ -1630,6 +1675,30 @@ describe("compileTaskPredicates — new predicates (W4 migration)", () => {
     });
   });
 
+  describe("forecastWindow", () => {
+    const window = {
+      from: "2024-03-08T08:00:00.000Z",
+      to: "2024-03-15T07:00:00.000Z",
+    };
+
+    it("matches due dates from `from` up to, not including, `to`", () => {
+      const r = compileTaskPredicates({ forecastWindow: window });
+      expect(r.conditions).toEqual([
+        '(t.dueDate != null && t.dueDate >= new Date("2024-03-08T08:00:00.000Z") && t.dueDate < new Date("2024-03-15T07:00:00.000Z"))',
+      ]);
+    });
+
+    it("adds defer dates when deferred is true", () => {
+      const r = compileTaskPredicates({
+        forecastWindow: { ...window, deferred: true },
+      });
+      expect(r.conditions).toHaveLength(1);
+      expect(r.conditions[0]).toMatch(
+        /^\(\(t\.dueDate != null .*\) \|\| \(t\.deferDate != null .*\)\)$/
+      );
+    });
+  });
+
   describe("deferredToFuture", () => {
     it("emits deferDate != null && deferDate > new Date() when true", () => {
       const r = compileTaskPredicates({ deferredToFuture: true });
@@ -1687,4 +1756,30 @@ describe("compileTaskPredicates — new predicates (W4 migration)", () => {
       expect(r.conditions).toEqual([]);
     });
   });
+
+  describe("id", () => {
+    it("matches tasks by primary key", () => {
+      expect(compileTaskPredicates({ id: "task-1" }).conditions).toEqual([
+        't.id.primaryKey === "task-1"',
+      ]);
+      expect(
+        compileTaskPredicates({ id: ["task-1", "task-2"] }).conditions
+      ).toEqual(['["task-1", "task-2"].indexOf(t.id.primaryKey) !== -1']);
+    });
+
+    it("matches projects by primary key", () => {
+      expect(compileProjectPredicates({ id: "proj-1" }).conditions).toEqual([
+        't.id.primaryKey === "proj-1"',
+      ]);
+    });
+
+    it("rejects an empty array and injection characters", () => {
+      expect(compileTaskPredicates({ id: [] }).validationErrors).toHaveLength(
+        1
+      );
+      expect(
+        compileProjectPredicates({ id: 'bad"id' }).validationErrors
+      ).toHaveLength(1);
+    });
+  });
 });
@@ -0,0 +1,128 @@
+/**
+ * Tests for the IANA time-zone helpers behind zone-aware calendar days.
+ *
+ * Zones are pinned explicitly; America/Los_Angeles springs forward on
+ * 2026-03-08 and falls back on 2026-11-01.
+ *
+ * @see https://datatracker.ietf.org/doc/html/rfc5545#section-3.3.5
+ */
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  resolveTimeZone,
+  startOfZonedDay,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from "../../../src/query/time-zone.js";
+import { ErrorCode } from "../../../src/errors.js";
+
+const LA = "America/Los_Angeles";
+const saved = process.env["OFOCUS_TIME_ZONE"];
+
+afterEach(() => {
+  if (saved === undefined) {
+    Reflect.deleteProperty(process.env, "OFOCUS_TIME_ZONE");
+  } else {
+    process.env["OFOCUS_TIME_ZONE"] = saved;
+  }
+});
+
+describe("resolveTimeZone", () => {
+  it("defaults to UTC", () => {
+    Reflect.deleteProperty(process.env, "OFOCUS_TIME_ZONE");
+    expect(resolveTimeZone()).toBe("UTC");
+  });
+
+  it("reads OFOCUS_TIME_ZONE, and an explicit zone wins over it", () => {
+    process.env["OFOCUS_TIME_ZONE"] = LA;
+    expect(resolveTimeZone()).toBe(LA);
+    expect(resolveTimeZone("Europe/Berlin")).toBe("Europe/Berlin");
+  });
+
+  it("rejects unknown zones, including a misconfigured environment", () => {
+    expect(resolveTimeZone("Mars/Olympus_Mons")).toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+    });
+    process.env["OFOCUS_TIME_ZONE"] = "Pacific Time";
+    expect(resolveTimeZone()).toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+      message: "Unknown time zone: Pacific Time",
+    });
+  });
+});
+
+describe("zonedTimeToUtc", () => {
+  it("converts standard and daylight wall times", () => {
+    expect(zonedTimeToUtc("2026-01-15T09:00:00", LA)).toBe(
+      "2026-01-15T17:00:00.000Z"
+    );
+    expect(zonedTimeToUtc("2026-07-15T09:00:00", LA)).toBe(
+      "2026-07-15T16:00:00.000Z"
+    );
+    expect(zonedTimeToUtc("2026-01-01T00:00:00", "Asia/Kolkata")).toBe(
+      "2025-12-31T18:30:00.000Z"
+    );
+  });
+
+  it("reads a time skipped by spring-forward with the pre-gap offset", () => {
+    // 02:30 PST doesn't exist; it is 03:30 PDT.
+    expect(zonedTimeToUtc("2026-03-08T02:30:00", LA)).toBe(
+      "2026-03-08T10:30:00.000Z"
+    );
+  });
+
+  it("resolves a time repeated by fall-back to its first occurrence", () => {
+    // 01:30 happens twice; the first is PDT (UTC-7).
+    expect(zonedTimeToUtc("2026-11-01T01:30:00", LA)).toBe(
+      "2026-11-01T08:30:00.000Z"
+    );
+  });
+
+  it("returns null for an unknown zone or malformed wall time", () => {
+    expect(zonedTimeToUtc("2026-01-15T09:00:00", "Nowhere/Special")).toBeNull();
+    expect(zonedTimeToUtc("not a time", LA)).toBeNull();
+  });
+});
+
+describe("utcToZonedTime", () => {
+  it("gives the wall-clock time, whose date is the zone's calendar day", () => {
+    expect(utcToZonedTime("2026-05-30T05:00:00.000Z", LA)).toBe(
+      "2026-05-29T22:00:00.000"
+    );
+    expect(utcToZonedTime("2026-05-30T05:00:00.250Z", "UTC")).toBe(
+      "2026-05-30T05:00:00.250"
+    );
+  });
+
+  it("round-trips through zonedTimeToUtc", () => {
+    for (const iso of [
+      "2026-03-08T09:59:59.000Z",
+      "2026-03-08T10:00:00.000Z",
+      "2026-11-01T08:30:00.000Z",
+      "2026-11-01T10:00:00.000Z",
+    ]) {
+      expect(zonedTimeToUtc(utcToZonedTime(iso, LA) ?? "", LA)).toBe(iso);
+    }
+  });
+});
+
+describe("startOfZonedDay", () => {
+  it("finds local midnight of a late-evening instant's day", () => {
+    // 22:00 PDT on May 29 is already May 30 in UTC.
+    const start = startOfZonedDay(new Date("2026-05-30T05:00:00Z"), LA);
+    expect(start?.toISOString()).toBe("2026-05-29T07:00:00.000Z");
+  });
+
+  it("steps calendar days, not 24-hour spans, across DST", () => {
+    const instant = new Date("2026-03-08T12:00:00Z");
+    expect(startOfZonedDay(instant, LA)?.toISOString()).toBe(
+      "2026-03-08T08:00:00.000Z"
+    );
+    // The spring-forward day is 23 hours long.
+    expect(startOfZonedDay(instant, LA, 1)?.toISOString()).toBe(
+      "2026-03-09T07:00:00.000Z"
+    );
+    expect(
+      startOfZonedDay(new Date("2026-11-01T12:00:00Z"), LA, 1)?.toISOString()
+    ).toBe("2026-11-02T08:00:00.000Z");
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Tests for the task `where` language: parsing into a TaskQueryNode tree,
+ * error positions, and compilation through compileTaskPredicates.
+ */
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  ExpressionSyntaxError,
+  parseExpression,
+  parseTaskQuery,
+  type ExpressionGrammar,
+  type TaskQueryNode,
+} from "../../../src/query/where.js";
+import { compileTaskPredicates } from "../../../src/query/predicates.js";
+import { ErrorCode, type CliError } from "../../../src/errors.js";
+import {
+  createFakeTransport,
+  resetOmniJSTransport,
+  setOmniJSTransport,
+  type FakeOmniJSTransport,
+} from "../../../src/transport/index.js";
+import { wrapOmniJS } from "../../../src/omnijs.js";
+import { queryTasks } from "../../../src/commands/tasks.js";
+
+function parse(source: string): TaskQueryNode {
+  const node = parseTaskQuery(source);
+  if ("code" in node) throw new Error(node.message);
+  return node;
+}
+
+function parseError(source: string): CliError {
+  const node = parseTaskQuery(source);
+  if (!("code" in node)) throw new Error("expected a parse error");
+  return node;
+}
+
+describe("parseTaskQuery", () => {
+  it("parses flags and field predicates into leaves with positions", () => {
+    expect(parse("flagged")).toEqual({
+      kind: "predicate",
+      options: { flagged: true },
+      start: 0,
+      end: 7,
+    });
+    expect(parse('project:"Q4 Launch"')).toMatchObject({
+      kind: "predicate",
+      options: { project: "Q4 Launch" },
+      start: 0,
+      end: 19,
+    });
+  });
+
+  it("gives not > and > or precedence and honours parentheses", () => {
+    const node = parse("flagged or tag:a and not blocked");
+    expect(node).toMatchObject({
+      kind: "or",
+      operands: [
+        { kind: "predicate", options: { flagged: true } },
+        {
+          kind: "and",
+          operands: [
+            { options: { tag: "a" } },
+            { kind: "not", operand: { options: { blocked: true } } },
+          ],
+        },
+      ],
+    });
+
+    expect(parse("(flagged or tag:a) and inbox")).toMatchObject({
+      kind: "and",
+      operands: [
+        { kind: "or", start: 0, end: 18 },
+        { options: { inInbox: true } },
+      ],
+    });
+  });
+
+  it("is case-insensitive for keywords and field names", () => {
+    expect(parse("FLAGGED AND Tag:Work")).toMatchObject({
+      kind: "and",
+      operands: [{ options: { flagged: true } }, { options: { tag: "Work" } }],
+    });
+  });
+
+  it("maps date and estimate comparisons onto existing predicates", () => {
+    expect(parse("due < +3d")).toMatchObject({
+      options: { dueBefore: "+3d" },
+    });
+    expect(parse("defer = today")).toMatchObject({
+      options: { deferOn: "today" },
+    });
+    expect(parse("due >= 2026-05-01")).toMatchObject({
+      kind: "and",
+      operands: [
+        { options: { hasDue: true } },
+        { kind: "not", operand: { options: { dueBefore: "2026-05-01" } } },
+      ],
+    });
+    expect(parse("estimate <= 30")).toMatchObject({
+      kind: "or",
+      operands: [
+        { options: { estimateLt: 30 } },
+        { options: { estimateEq: 30 } },
+      ],
+    });
+    expect(parse('name ~ "^Draft"')).toMatchObject({
+      options: { nameRegex: "^Draft" },
+    });
+    expect(parse("has:note")).toMatchObject({ options: { hasNote: true } });
+  });
+
+  it("reports the column of unknown predicates and fields", () => {
+    const unknownFlag = parseError("flagged and urgent");
+    expect(unknownFlag.code).toBe(ErrorCode.VALIDATION_ERROR);
+    expect(unknownFlag.message).toBe(
+      'Invalid where clause at column 13: unknown predicate "urgent"'
+    );
+    expect(unknownFlag.details).toBe("flagged and urgent\n            ^^^^^^");
+
+    expect(parseError("color:red").message).toMatch(
+      /^Invalid where clause at column 1: unknown field "color"/
+    );
+  });
+
+  it("reports structural errors at the offending token", () => {
+    expect(parseError("(flagged or inbox").message).toBe(
+      'Invalid where clause at column 18: expected ")" to close the "(" at column 1'
+    );
+    expect(parseError("flagged inbox").message).toBe(
+      'Invalid where clause at column 9: expected "and" or "or" before "inbox"'
+    );
+    expect(parseError("flagged and").message).toBe(
+      "Invalid where clause at column 12: expected a predicate, found end of input"
+    );
+    expect(parseError('tag:"work').message).toBe(
+      "Invalid where clause at column 5: unterminated string"
+    );
+    expect(parseError("completed = today").message).toBe(
+      'Invalid where clause at column 11: operator "=" is not supported for "completed"'
+    );
+    expect(parseError("estimate > soon").message).toBe(
+      'Invalid where clause at column 12: expected a number of minutes, found "soon"'
+    );
+    expect(parseError("  ").message).toBe(
+      "Invalid where clause at column 1: expression is empty"
+    );
+    expect(parseError("due < today = 1").message).toBe(
+      'Invalid where clause at column 13: expected "and" or "or" before "="'
+    );
+  });
+});
+
+describe("parseExpression", () => {
+  // A grammar that renders the tree, with chained comparisons allowed
+  const grammar: ExpressionGrammar<string> = {
+    predicate(field, comparisons) {
+      if (field.value === "bad") {
+        throw new ExpressionSyntaxError("no bad words", field.start, field.end);
+      }
+      return [
+        field.value,
+        ...comparisons.map((c) => c.op.value + c.value.value),
+      ].join("");
+    },
+    and: (operands) => `and(${operands.join(",")})`,
+    or: (operands) => `or(${operands.join(",")})`,
+    not: (operand) => `not(${operand})`,
+  };
+
+  it("builds nodes from the grammar with the where syntax", () => {
+    expect(
+      parseExpression('a and not (b:"x y"=z or c)', grammar, "filter")
+    ).toBe("and(a,not(or(b:x y=z,c)))");
+  });
+
+  it("labels syntax errors, including the grammar's own", () => {
+    const error = parseExpression("a or bad", grammar, "filter");
+    expect(error).toMatchObject({
+      code: ErrorCode.VALIDATION_ERROR,
+      message: "Invalid filter at column 6: no bad words",
+      details: "a or bad\n     ^^^",
+    });
+  });
+});
+
+describe("compileTaskPredicates with where", () => {
+  it("compiles the tree into a single grouped condition", () => {
+    const r = compileTaskPredicates({
+      where: "flagged and (tag:work or not inbox)",
+    });
+    expect(r.validationErrors).toEqual([]);
+    expect(r.conditions).toHaveLength(1);
+    expect(r.conditions[0]).toMatch(
+      /^\(\(t\.flagged\) && \(.*tg\.name === n.* \|\| !\(\(t\.containingProject == null\)\)\)\)$/
+    );
+  });
+
+  it("AND-combines where with the other options", () => {
+    const r = compileTaskPredicates({ hasDue: true, where: "flagged" });
+    expect(r.conditions).toEqual(["(t.dueDate != null)", "(t.flagged)"]);
+  });
+
+  it("reports leaf validation errors at the leaf's position", () => {
+    const r = compileTaskPredicates({ where: "flagged and due < someday" });
+    expect(r.conditions).toEqual([]);
+    expect(r.validationErrors).toHaveLength(1);
+    expect(r.validationErrors[0]?.code).toBe(ErrorCode.INVALID_DATE_FORMAT);
+    expect(r.validationErrors[0]?.message).toMatch(
+      /^Invalid where clause at column 13: Invalid dueBefore: Unrecognized date format: someday/
+    );
+    expect(r.validationErrors[0]?.details).toMatch(
+      /flagged and due < someday\n {12}\^{13}$/
+    );
+  });
+
+  it("applies caseSensitive to text leaves", () => {
+    const r = compileTaskPredicates({
+      where: "name:Report",
+      caseSensitive: true,
+    });
+    expect(r.conditions).toEqual(['((t.name.indexOf("Report") !== -1))']);
+  });
+
+  it("applies timeZone to date leaves", () => {
+    const r = compileTaskPredicates({
+      where: "due = 2026-03-10",
+      timeZone: "America/Los_Angeles",
+    });
+    expect(r.validationErrors).toEqual([]);
+    expect(r.conditions[0]).toContain(
+      't.dueDate >= new Date("2026-03-10T07:00:00.000Z")'
+    );
+    expect(r.conditions[0]).toContain(
+      't.dueDate < new Date("2026-03-11T07:00:00.000Z")'
+    );
+  });
+});
+
+describe("queryTasks with where", () => {
+  let transport: FakeOmniJSTransport;
+
+  beforeEach(async () => {
+    transport = createFakeTransport();
+    setOmniJSTransport(transport);
+    await transport.evaluate(
+      wrapOmniJS(`
+var work = new Tag("work");
+var launch = new Project("Q4 Launch");
+var a = new Task("Write brief", launch.ending);
+a.flagged = true;
+a.dueDate = new Date(Date.now() + 86400000);
+var b = new Task("Book venue");
+b.flagged = true;
+b.addTag(work);
+var c = new Task("Order cake");
+c.flagged = true;
+c.dueDate = new Date(Date.now() + 86400000);
+var d = new Task("Send invites", launch.ending);
+d.dueDate = new Date(Date.now() + 86400000);
+return "{}";`)
+    );
+  });
+
+  afterEach(() => {
+    resetOmniJSTransport();
+  });
+
+  it("filters with grouping and negation in one call", async () => {
+    const result = await queryTasks({
+      where: 'flagged and (tag:work or project:"Q4 Launch") and not has:due',
+      fields: ["name"],
+    });
+    expect(result.data).toMatchObject({
+      kind: "list",
+      items: [{ name: "Book venue" }],
+    });
+
+    const soon = await queryTasks({
+      where: 'due < +3d and (flagged or project:"Q4 Launch")',
+      fields: ["name"],
+      sort: ["name"],
+    });
+    expect(
+      soon.data?.kind === "list" ? soon.data.items.map((t) => t.name) : []
+    ).toEqual(["Order cake", "Send invites", "Write brief"]);
+  });
+
+  it("fails with the parse error before running a script", async () => {
+    const result = await queryTasks({ where: "flagged and (" });
+    expect(result.success).toBe(false);
+    expect(result.error?.message).toMatch(/^Invalid where clause at column 14/);
+  });
+});
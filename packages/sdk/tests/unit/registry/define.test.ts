@@ -2,6 +2,7 @@ import { describe, it, expect } from "vitest";
 import { z } from "zod";
 import { defineCommand } from "../../../src/registry/define.js";
 import { success } from "../../../src/result.js";
+import { taskFieldSpec } from "../../../src/query/fields.js";
 
 const noopHandler = async () =>
   await Promise.resolve(success({ ok: true as const }));
@@ -82,6 +83,25 @@ describe("defineCommand", () => {
     expect(cmd.inputSchema).toBe(schema);
   });
 
+  it("carries a fieldSpec only when one is declared", () => {
+    const list = defineCommand({
+      name: "queryTasks",
+      description: "List tasks.",
+      inputSchema: z.object({ fields: z.array(z.string()).optional() }),
+      fieldSpec: taskFieldSpec,
+      handler: noopHandler,
+    });
+    expect(list.fieldSpec).toBe(taskFieldSpec);
+
+    const plain = defineCommand({
+      name: "inbox",
+      description: "Add a task.",
+      inputSchema: z.object({ title: z.string() }),
+      handler: noopHandler,
+    });
+    expect("fieldSpec" in plain).toBe(false);
+  });
+
   it("rejects an empty name at definition time", () => {
     expect(() =>
       defineCommand({
@@ -0,0 +1,236 @@
+import { describe, it, expect } from "vitest";
+import {
+  createFakeTransport,
+  type FakeOmniJSTransport,
+} from "../../../src/transport/index.js";
+import { wrapOmniJS } from "../../../src/omnijs.js";
+
+const NOW = new Date("2026-03-10T12:00:00.000Z");
+
+function fake(): FakeOmniJSTransport {
+  return createFakeTransport({ now: () => NOW });
+}
+
+/** Evaluate a wrapped body and parse its JSON result. */
+async function run<T>(
+  transport: FakeOmniJSTransport,
+  body: string
+): Promise<T> {
+  const { stdout, stderr } = await transport.evaluate(wrapOmniJS(body));
+  expect(stderr).toBe("");
+  return JSON.parse(stdout) as T;
+}
+
+describe("createFakeTransport", () => {
+  it("returns the script's completion value on stdout", async () => {
+    const output = await fake().evaluate("JSON.stringify({ answer: 42 })");
+    expect(output).toEqual({ stdout: '{"answer":42}', stderr: "" });
+  });
+
+  it("reports uncaught errors on stderr like osascript", async () => {
+    const output = await fake().evaluate(
+      'throw new Error("Task not found: x")'
+    );
+    expect(output.stdout).toBe("");
+    expect(output.stderr).toContain("Error: Task not found: x");
+  });
+
+  it("persists mutations in its document across evaluations", async () => {
+    const transport = fake();
+    const id = await run<string>(
+      transport,
+      'return JSON.stringify(new Task("Milk", inbox.ending).id.primaryKey);'
+    );
+    expect(transport.document.inboxIds).toEqual([id]);
+    expect(transport.document.tasks[id]?.name).toBe("Milk");
+  });
+
+  it("invokes onEvaluate after each script", async () => {
+    let calls = 0;
+    const transport = createFakeTransport({ onEvaluate: () => (calls += 1) });
+    await transport.evaluate('"1"');
+    await transport.evaluate('throw new Error("boom")');
+    expect(calls).toBe(2);
+  });
+});
+
+describe("fake OmniJS runtime", () => {
+  it("gives scripts host Dates so instanceof Date holds", async () => {
+    const transport = fake();
+    const result = await run<{ isDate: boolean; due: string }>(
+      transport,
+      `var t = new Task("Due");
+t.dueDate = new Date("2026-03-11T09:00:00Z");
+return JSON.stringify({ isDate: t.dueDate instanceof Date, due: t.dueDate.toISOString() });`
+    );
+    expect(result).toEqual({ isDate: true, due: "2026-03-11T09:00:00.000Z" });
+  });
+
+  it("keeps wrapper identity within a script", async () => {
+    const same = await run<boolean>(
+      fake(),
+      `var t = new Task("A");
+return JSON.stringify(Task.byIdentifier(t.id.primaryKey) === t && flattenedTasks[0] === t);`
+    );
+    expect(same).toBe(true);
+  });
+
+  it("models projects as sharing an id with their root task", async () => {
+    const result = await run<{
+      sameId: boolean;
+      containing: string;
+      inInbox: boolean;
+      flattened: number;
+    }>(
+      fake(),
+      `var p = new Project("Home");
+var t = new Task("Paint", p.ending);
+return JSON.stringify({
+  sameId: Task.byIdentifier(p.id.primaryKey) === p.task,
+  containing: t.containingProject.name,
+  inInbox: t.inInbox,
+  flattened: flattenedTasks.length
+});`
+    );
+    // flattenedTasks excludes project root tasks, as in OmniFocus.
+    expect(result).toEqual({
+      sameId: true,
+      containing: "Home",
+      inInbox: false,
+      flattened: 1,
+    });
+  });
+
+  it("does not expose the non-existent dropped/blocked booleans", async () => {
+    const result = await run<Record<string, string>>(
+      fake(),
+      `var t = new Task("X");
+return JSON.stringify({ dropped: typeof t.dropped, blocked: typeof t.blocked, effectivelyDropped: typeof t.effectivelyDropped });`
+    );
+    expect(result).toEqual({
+      dropped: "undefined",
+      blocked: "undefined",
+      effectivelyDropped: "undefined",
+    });
+  });
+
+  it("derives taskStatus from dates, sequencing, and ancestors", async () => {
+    const statuses = await run<Record<string, string>>(
+      fake(),
+      `function s(t) { return t.taskStatus.name; }
+var seq = new Project("Seq");
+seq.sequential = true;
+var first = new Task("first", seq.ending);
+var second = new Task("second", seq.ending);
+var overdue = new Task("overdue");
+overdue.dueDate = new Date("2026-03-09T00:00:00Z");
+var soon = new Task("soon");
+soon.dueDate = new Date("2026-03-10T20:00:00Z");
+var deferred = new Task("deferred");
+deferred.deferDate = new Date("2026-04-01T00:00:00Z");
+var dropped = new Project("Dropped");
+var orphan = new Task("orphan", dropped.ending);
+dropped.status = Project.Status.Dropped;
+var done = new Task("done");
+done.markComplete();
+return JSON.stringify({
+  first: s(first), second: s(second), overdue: s(overdue), soon: s(soon),
+  deferred: s(deferred), orphan: s(orphan), done: s(done), plain: s(new Task("plain"))
+});`
+    );
+    expect(statuses).toEqual({
+      first: "Next",
+      second: "Blocked",
+      overdue: "Overdue",
+      soon: "DueSoon",
+      deferred: "Blocked",
+      orphan: "Dropped",
+      done: "Completed",
+      plain: "Available",
+    });
+  });
+
+  it("leaves a completed copy behind when completing a repeating task", async () => {
+    const transport = fake();
+    const result = await run<{
+      originalDue: string;
+      originalCompleted: boolean;
+      copyCompleted: boolean;
+      inbox: number;
+    }>(
+      transport,
+      `var t = new Task("Water plants");
+t.dueDate = new Date("2026-03-10T09:00:00Z");
+t.repetitionRule = new Task.RepetitionRule("FREQ=WEEKLY", Task.RepetitionMethod.Fixed);
+var copy = t.markComplete();
+return JSON.stringify({
+  originalDue: t.dueDate.toISOString(),
+  originalCompleted: t.completed,
+  copyCompleted: copy.completed,
+  inbox: inbox.length
+});`
+    );
+    expect(result).toEqual({
+      originalDue: "2026-03-17T09:00:00.000Z",
+      originalCompleted: false,
+      copyCompleted: true,
+      inbox: 2,
+    });
+  });
+
+  it("rejects BYMONTH repetition rules like OmniFocus", async () => {
+    const { stdout } = await fake().evaluate(
+      wrapOmniJS(
+        'new Task.RepetitionRule("FREQ=YEARLY;BYMONTH=3", Task.RepetitionMethod.Fixed); return "{}";'
+      )
+    );
+    expect(JSON.parse(stdout)).toMatchObject({
+      __omnijs_error: true,
+      message: expect.stringContaining("doesn't support") as unknown,
+    });
+  });
+
+  it("moves and deletes folders, projects, and tags", async () => {
+    const transport = fake();
+    const result = await run<{ parent: string; tagParent: string }>(
+      transport,
+      `var outer = new Folder("Outer");
+var inner = new Folder("Inner");
+var p = new Project("P", inner);
+moveSections([inner], outer);
+var parentTag = new Tag("Places");
+var child = new Tag("Home");
+moveTags([child], parentTag);
+var t = new Task("Tagged");
+t.addTag(child);
+return JSON.stringify({ parent: p.parentFolder.parent.name, tagParent: child.parent.name });`
+    );
+    expect(result).toEqual({ parent: "Outer", tagParent: "Places" });
+
+    const after = await run<{ projects: number; tags: string[][] }>(
+      transport,
+      `deleteObject(flattenedFolders.byName("Outer"));
+deleteObject(flattenedTags.byName("Places"));
+return JSON.stringify({
+  projects: flattenedProjects.length,
+  tags: flattenedTasks.map(function(t) { return t.tags.map(function(g) { return g.name; }); })
+});`
+    );
+    expect(after).toEqual({ projects: 0, tags: [[]] });
+  });
+
+  it("switches perspectives and enumerates their content", async () => {
+    const names = await run<string[]>(
+      fake(),
+      `var a = new Task("flagged");
+a.flagged = true;
+new Task("plain");
+var win = document.windows[0];
+win.perspective = Perspective.BuiltIn.Flagged;
+var out = [];
+win.content.rootNode.apply(function(node) { out.push(node.object.name); });
+return JSON.stringify(out);`
+    );
+    expect(names).toEqual(["flagged"]);
+  });
+});
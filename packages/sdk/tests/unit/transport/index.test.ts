@@ -0,0 +1,130 @@
+import { describe, it, expect, afterEach } from "vitest";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  createFakeDocument,
+  getOmniJSTransport,
+  osascriptTransport,
+  resetOmniJSTransport,
+  setOmniJSTransport,
+  type FakeDocument,
+} from "../../../src/transport/index.js";
+import { runOmniJS, runOmniJSWrapped } from "../../../src/omnijs.js";
+
+const ENV_KEYS = ["OFOCUS_TRANSPORT", "OFOCUS_FAKE_DOCUMENT"] as const;
+const savedEnv = Object.fromEntries(ENV_KEYS.map((k) => [k, process.env[k]]));
+
+afterEach(() => {
+  for (const key of ENV_KEYS) {
+    const value = savedEnv[key];
+    if (value === undefined) Reflect.deleteProperty(process.env, key);
+    else process.env[key] = value;
+  }
+  resetOmniJSTransport();
+});
+
+describe("getOmniJSTransport", () => {
+  it("defaults to osascript", () => {
+    Reflect.deleteProperty(process.env, "OFOCUS_TRANSPORT");
+    expect(getOmniJSTransport()).toBe(osascriptTransport);
+  });
+
+  it("selects the fake when OFOCUS_TRANSPORT=fake", () => {
+    process.env["OFOCUS_TRANSPORT"] = "fake";
+    expect(getOmniJSTransport().name).toBe("fake");
+  });
+
+  it("caches the resolved transport until reset", () => {
+    process.env["OFOCUS_TRANSPORT"] = "fake";
+    const first = getOmniJSTransport();
+    expect(getOmniJSTransport()).toBe(first);
+    resetOmniJSTransport();
+    expect(getOmniJSTransport()).not.toBe(first);
+  });
+
+  it("rejects an unknown transport name", () => {
+    process.env["OFOCUS_TRANSPORT"] = "carrier-pigeon";
+    expect(() => getOmniJSTransport()).toThrow(/Unknown OFOCUS_TRANSPORT/);
+  });
+
+  it("surfaces an unknown transport as a SCRIPT_ERROR from runOmniJS", async () => {
+    process.env["OFOCUS_TRANSPORT"] = "carrier-pigeon";
+    const result = await runOmniJS("JSON.stringify(1)");
+    expect(result.success).toBe(false);
+    expect(result.error?.code).toBe("SCRIPT_ERROR");
+  });
+});
+
+describe("setOmniJSTransport", () => {
+  it("routes runOmniJS through the given transport", async () => {
+    setOmniJSTransport({
+      name: "canned",
+      evaluate: () => Promise.resolve({ stdout: '{"ok":true}\n', stderr: "" }),
+    });
+    const result = await runOmniJS<{ ok: boolean }>("ignored");
+    expect(result).toEqual({ success: true, data: { ok: true } });
+  });
+
+  it("maps transport stderr through the OmniJS error parser", async () => {
+    setOmniJSTransport({
+      name: "canned",
+      evaluate: () =>
+        Promise.resolve({ stdout: "", stderr: "Error: Task not found: x" }),
+    });
+    const result = await runOmniJS("ignored");
+    expect(result.error?.code).toBe("TASK_NOT_FOUND");
+  });
+});
+
+describe("OFOCUS_FAKE_DOCUMENT persistence", () => {
+  it("loads the document from disk and writes it back after each script", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "ofocus-fake-"));
+    const path = join(dir, "db.json");
+    try {
+      const seed = createFakeDocument();
+      seed.lastSyncDate = "2026-01-01T00:00:00.000Z";
+      writeFileSync(path, JSON.stringify(seed));
+      process.env["OFOCUS_TRANSPORT"] = "fake";
+      process.env["OFOCUS_FAKE_DOCUMENT"] = path;
+
+      const sync = await runOmniJSWrapped<string>(
+        "return JSON.stringify(document.lastSyncDate.toISOString());"
+      );
+      expect(sync.data).toBe("2026-01-01T00:00:00.000Z");
+
+      await runOmniJSWrapped('new Task("Persisted"); return "{}";');
+      const saved = JSON.parse(readFileSync(path, "utf8")) as FakeDocument;
+      expect(Object.values(saved.tasks).map((t) => t.name)).toEqual([
+        "Persisted",
+      ]);
+
+      // A fresh process (simulated by a reset) sees the saved task.
+      resetOmniJSTransport();
+      const count = await runOmniJSWrapped<number>(
+        "return JSON.stringify(inbox.length);"
+      );
+      expect(count.data).toBe(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("starts empty when the file does not exist yet", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "ofocus-fake-"));
+    const path = join(dir, "missing.json");
+    try {
+      process.env["OFOCUS_TRANSPORT"] = "fake";
+      process.env["OFOCUS_FAKE_DOCUMENT"] = path;
+      const count = await runOmniJSWrapped<number>(
+        "return JSON.stringify(flattenedTasks.length);"
+      );
+      expect(count.data).toBe(0);
+      expect(JSON.parse(readFileSync(path, "utf8"))).toEqual(
+        createFakeDocument()
+      );
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -394,7 +394,7 @@ describe("validateRepetitionRule", () => {
   describe("invalid frequency", () => {
     it("should reject invalid frequency", () => {
       const error = validateRepetitionRule({
-        frequency: "hourly",
+        frequency: "fortnightly",
         interval: 1,
         repeatMethod: "due-again",
       });
@@ -3,6 +3,8 @@ import { defineConfig } from "vitest/config";
 export default defineConfig({
   test: {
     include: ["tests/integration/**/*.integration.test.ts"],
+    // Seeds the in-memory database when OFOCUS_TRANSPORT=fake; no-op otherwise
+    setupFiles: ["tests/integration/fake-setup.ts"],
     // Integration tests run sequentially to avoid race conditions with OmniFocus
     sequence: {
       concurrent: false,
@@ -92,9 +92,11 @@ async function loadDescriptors(): Promise<DescriptorView[]> {
   }
   let productivity: Record<string, unknown>;
   try {
-    productivity = (await import(
-      "../packages/productivity/dist/index.js"
-    )) as Record<string, unknown>;
+    productivity =
+      (await import("../packages/productivity/dist/index.js")) as Record<
+        string,
+        unknown
+      >;
   } catch {
     throw new Error(
       "Could not import @ofocus/productivity dist. Run `pnpm build` first."
@@ -208,6 +210,9 @@ const PREFIX_DOMAIN_MAP: [prefix: string, domain: string][] = [
   ["getTemplate", "Templates"],
   ["createFromTemplate", "Templates"],
   ["deleteTemplate", "Templates"],
+  ["validateTemplate", "Templates"],
+  ["exportTemplates", "Templates"],
+  ["importTemplates", "Templates"],
   // Attachments
   ["addAttachment", "Attachments"],
   ["listAttachments", "Attachments"],
@@ -222,6 +227,9 @@ const PREFIX_DOMAIN_MAP: [prefix: string, domain: string][] = [
   ["exportTaskPaper", "TaskPaper"],
   ["importTaskPaper", "TaskPaper"],
   ["taskPaper", "TaskPaper"],
+  // iCalendar
+  ["exportICal", "iCalendar"],
+  ["importICal", "iCalendar"],
   // Utilities
   ["getStats", "Utilities"],
   ["generateUrl", "Utilities"],
@@ -250,6 +258,7 @@ const DOMAIN_ORDER = [
   "Attachments",
   "Sync",
   "TaskPaper",
+  "iCalendar",
   "Utilities",
   "Productivity",
   "Other",